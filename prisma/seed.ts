@@ -2,8 +2,13 @@ import 'dotenv/config'
 
 import { prisma } from '../src/server/db'
 import baseSeed from './seed/seed'
+import bilirubinSeed from './seed/seed-bilirubin'
 import drugSeed from './seed/seed-drugs'
+import interactionSeed from './seed/seed-interactions'
+import milestoneSeed from './seed/seed-milestones'
+import screeningSeed from './seed/seed-screening'
 import wfaSeed from './seed/seed-wfa'
+import whoSeed from './seed/seed-who'
 
 export type PrismaSeedClient = typeof prisma
 /**
@@ -20,10 +25,30 @@ async function runAllSeeds(prisma: PrismaSeedClient) {
 	console.log('✅ NICU Drug Database Seeded')
 	console.log('--------------------------------------------------')
 
+	await interactionSeed(prisma)
+	console.log('✅ Drug Interactions Seeded')
+	console.log('--------------------------------------------------')
+
 	await wfaSeed(prisma)
 	console.log('✅ WHO WFA (JSON) Seeded')
 	console.log('--------------------------------------------------')
 
+	await milestoneSeed(prisma)
+	console.log('✅ Developmental Milestone Catalog Seeded')
+	console.log('--------------------------------------------------')
+
+	await screeningSeed(prisma)
+	console.log('✅ Screening Questionnaires Seeded')
+	console.log('--------------------------------------------------')
+
+	await bilirubinSeed(prisma)
+	console.log('✅ Bilirubin Nomogram and Treatment Thresholds Seeded')
+	console.log('--------------------------------------------------')
+
+	await whoSeed(prisma)
+	console.log('✅ WHO 0-5 y, WHO 2007, CDC 2000 and Fenton References Seeded')
+	console.log('--------------------------------------------------')
+
 	console.log('🎉 All seeds completed successfully!')
 }
 /**
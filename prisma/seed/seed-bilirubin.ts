@@ -0,0 +1,55 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+import {
+	BILIRUBIN_TABLES_FILE,
+	type BilirubinTableDefinition,
+	validateBilirubinTable,
+} from '@/utils/bilirubin'
+
+import type { PrismaSeedClient } from '../seed'
+
+async function bilirubinSeed(prisma: PrismaSeedClient) {
+	console.log('🌱 Starting bilirubin nomogram seeding...')
+
+	try {
+		const filePath = path.resolve(`prisma/data/${BILIRUBIN_TABLES_FILE}`)
+		console.log(`📖 Reading data from: ${filePath}`)
+
+		const tables = JSON.parse(
+			fs.readFileSync(filePath, 'utf-8')
+		) as BilirubinTableDefinition[]
+		console.log(`📊 Found ${tables.length} tables to process`)
+
+		for (const { curves, zones, ...data } of tables) {
+			const errors = validateBilirubinTable({ ...data, curves, zones })
+			if (errors.length > 0) {
+				throw new Error(`${data.code}: ${errors.join('; ')}`)
+			}
+
+			// Keyed by code so reruns update in place
+			const table = await prisma.bilirubinTable.upsert({
+				create: { ...data, source: data.source ?? BILIRUBIN_TABLES_FILE },
+				update: data,
+				where: { code: data.code },
+			})
+
+			await prisma.bilirubinCurve.deleteMany({ where: { tableId: table.id } })
+			await prisma.bilirubinCurve.createMany({
+				data: curves.map(curve => ({ ...curve, tableId: table.id })),
+			})
+
+			await prisma.bilirubinZone.deleteMany({ where: { tableId: table.id } })
+			await prisma.bilirubinZone.createMany({
+				data: zones.map(zone => ({ ...zone, tableId: table.id })),
+			})
+		}
+
+		console.log(`🎉 Bilirubin tables seeded: ${tables.length}`)
+	} catch (error) {
+		console.error('❌ Error during bilirubin seeding:', error)
+		process.exit(1)
+	}
+}
+
+export default bilirubinSeed
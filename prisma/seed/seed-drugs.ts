@@ -2,64 +2,10 @@ import * as fs from 'node:fs'
 import * as path from 'node:path'
 
 import type { Prisma } from '@/prisma/browser'
+import { type NicuDrugDatabase, parseNicuGuideline } from '@/utils/formulary'
 
 import type { PrismaSeedClient } from '../seed'
 
-// ... (Type definitions remain the same) ...
-type DoseGuidelineData = {
-	ROUTE: string
-	CLINICAL_INDICATION: string
-	MIN_DOSE_PER_KG: number | string
-	MAX_DOSE_PER_KG: number | string
-	DOSE_UNIT: string
-	FREQUENCY_DAYS: string
-	GESTATIONAL_AGE_WEEKS_MIN: number | string
-	GESTATIONAL_AGE_WEEKS_MAX: number | string
-	POST_NATAL_AGE_DAYS_MIN: number | string
-	POST_NATAL_AGE_DAYS_MAX: number | string
-	MAX_DOSE_PER_24H: number | string
-	STOCK_CONCENTRATION_MG_ML: number | string
-	FINAL_CONCENTRATION_MG_ML: number | string
-	MIN_INFUSION_TIME_MIN: number | string
-	COMPATIBILITY_DILUENT: string
-}
-
-type DrugDatabase = {
-	[drugName: string]: DoseGuidelineData[]
-}
-
-function parseNumericValue(value: string | number): number | null {
-	if (
-		value === 'N/A' ||
-		value === '' ||
-		value === null ||
-		value === undefined
-	) {
-		return null
-	}
-	if (typeof value === 'number') {
-		return value
-	}
-	const parsed = Number.parseFloat(value.toString().trim())
-	return Number.isNaN(parsed) ? null : parsed
-}
-
-function parseIntegerValue(value: string | number): number | null {
-	if (
-		value === 'N/A' ||
-		value === '' ||
-		value === null ||
-		value === undefined
-	) {
-		return null
-	}
-	if (typeof value === 'number') {
-		return Math.floor(value)
-	}
-	const parsed = Number.parseInt(value.toString().trim(), 10)
-	return Number.isNaN(parsed) ? null : parsed
-}
-
 async function drugSeed(prisma: PrismaSeedClient) {
 	console.log('🌱 Starting NICU Drug Database seeding...')
 
@@ -69,7 +15,7 @@ async function drugSeed(prisma: PrismaSeedClient) {
 		console.log(`📖 Reading data from: ${filePath}`)
 
 		const fileContent = fs.readFileSync(filePath, 'utf-8')
-		const drugData = JSON.parse(fileContent) as DrugDatabase
+		const drugData = JSON.parse(fileContent) as NicuDrugDatabase
 		const drugNames = Object.keys(drugData)
 		console.log(`📊 Found ${drugNames.length} drugs to process`)
 
@@ -85,32 +31,10 @@ async function drugSeed(prisma: PrismaSeedClient) {
 
 			// 2. Prepare guidelines data for batch insertion
 			for (const g of guidelines) {
+				// Shared with the formulary import so "N/A" parses the same way
 				const guidelineData = {
+					...parseNicuGuideline(g).data,
 					drugId: drug.id,
-					route: g.ROUTE,
-					clinicalIndication: g.CLINICAL_INDICATION,
-					minDosePerKg: parseNumericValue(g.MIN_DOSE_PER_KG),
-					maxDosePerKg: parseNumericValue(g.MAX_DOSE_PER_KG),
-					doseUnit: g.DOSE_UNIT === 'N/A' ? null : g.DOSE_UNIT,
-					frequencyDays: g.FREQUENCY_DAYS === 'N/A' ? null : g.FREQUENCY_DAYS,
-					gestationalAgeWeeksMin: parseNumericValue(
-						g.GESTATIONAL_AGE_WEEKS_MIN
-					),
-					gestationalAgeWeeksMax: parseNumericValue(
-						g.GESTATIONAL_AGE_WEEKS_MAX
-					),
-					postNatalAgeDaysMin: parseIntegerValue(g.POST_NATAL_AGE_DAYS_MIN),
-					postNatalAgeDaysMax: parseIntegerValue(g.POST_NATAL_AGE_DAYS_MAX),
-					maxDosePer24h: parseNumericValue(g.MAX_DOSE_PER_24H),
-					stockConcentrationMgMl: parseNumericValue(
-						g.STOCK_CONCENTRATION_MG_ML
-					),
-					finalConcentrationMgMl: parseNumericValue(
-						g.FINAL_CONCENTRATION_MG_ML
-					),
-					minInfusionTimeMin: parseIntegerValue(g.MIN_INFUSION_TIME_MIN),
-					compatibilityDiluent:
-						g.COMPATIBILITY_DILUENT === 'N/A' ? null : g.COMPATIBILITY_DILUENT,
 				}
 				allGuidelinesToInsert.push(guidelineData)
 			}
@@ -0,0 +1,47 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+import { type InteractionEntry, interactionPairKey } from '@/utils/interaction'
+
+import type { PrismaSeedClient } from '../seed'
+
+async function interactionSeed(prisma: PrismaSeedClient) {
+	console.log('🌱 Starting drug interaction table seeding...')
+
+	try {
+		const filePath = path.resolve('prisma/data/drug_interactions.json')
+		console.log(`📖 Reading data from: ${filePath}`)
+
+		const entries = JSON.parse(
+			fs.readFileSync(filePath, 'utf-8')
+		) as InteractionEntry[]
+		console.log(`📊 Found ${entries.length} interaction pairs to process`)
+
+		for (const entry of entries) {
+			// Keyed by the sorted pair so reruns update in place
+			const data = {
+				drugA: entry.drugA,
+				drugB: entry.drugB,
+				management: entry.management,
+				mechanism: entry.mechanism,
+				severity: entry.severity,
+				source: 'drug_interactions.json',
+			}
+			await prisma.drugInteraction.upsert({
+				create: {
+					...data,
+					pairKey: interactionPairKey(entry.drugA, entry.drugB),
+				},
+				update: data,
+				where: { pairKey: interactionPairKey(entry.drugA, entry.drugB) },
+			})
+		}
+
+		console.log(`🎉 Drug interactions seeded: ${entries.length} pairs`)
+	} catch (error) {
+		console.error('❌ Error during interaction seeding:', error)
+		process.exit(1)
+	}
+}
+
+export default interactionSeed
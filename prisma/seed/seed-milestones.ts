@@ -0,0 +1,45 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+import {
+	MILESTONE_CATALOG_FILE,
+	type MilestoneCatalogEntry,
+} from '@/utils/development'
+
+import type { PrismaSeedClient } from '../seed'
+
+async function milestoneSeed(prisma: PrismaSeedClient) {
+	console.log('🌱 Starting developmental milestone catalog seeding...')
+
+	try {
+		const filePath = path.resolve(`prisma/data/${MILESTONE_CATALOG_FILE}`)
+		console.log(`📖 Reading data from: ${filePath}`)
+
+		const entries = JSON.parse(
+			fs.readFileSync(filePath, 'utf-8')
+		) as MilestoneCatalogEntry[]
+		console.log(`📊 Found ${entries.length} milestones to process`)
+
+		for (const entry of entries) {
+			// Keyed by code so reruns update in place
+			const data = {
+				ageMonths: entry.ageMonths,
+				description: entry.description,
+				domain: entry.domain,
+				source: MILESTONE_CATALOG_FILE,
+			}
+			await prisma.milestoneDefinition.upsert({
+				create: { ...data, code: entry.code },
+				update: data,
+				where: { code: entry.code },
+			})
+		}
+
+		console.log(`🎉 Milestone catalog seeded: ${entries.length} milestones`)
+	} catch (error) {
+		console.error('❌ Error during milestone seeding:', error)
+		process.exit(1)
+	}
+}
+
+export default milestoneSeed
@@ -0,0 +1,68 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+import {
+	SCREENING_INSTRUMENTS_FILE,
+	type ScreeningInstrumentDefinition,
+	validateInstrument,
+} from '@/utils/screening'
+
+import type { PrismaSeedClient } from '../seed'
+
+async function screeningSeed(prisma: PrismaSeedClient) {
+	console.log('🌱 Starting screening questionnaire seeding...')
+
+	try {
+		const filePath = path.resolve(`prisma/data/${SCREENING_INSTRUMENTS_FILE}`)
+		console.log(`📖 Reading data from: ${filePath}`)
+
+		const instruments = JSON.parse(
+			fs.readFileSync(filePath, 'utf-8')
+		) as ScreeningInstrumentDefinition[]
+		console.log(`📊 Found ${instruments.length} instruments to process`)
+
+		for (const { questions, cutoffs, ...data } of instruments) {
+			const errors = validateInstrument({ ...data, cutoffs, questions })
+			if (errors.length > 0) {
+				throw new Error(`${data.code}: ${errors.join('; ')}`)
+			}
+
+			// Keyed by code so reruns update in place
+			const instrument = await prisma.screeningInstrument.upsert({
+				create: { ...data, source: data.source ?? SCREENING_INSTRUMENTS_FILE },
+				update: data,
+				where: { code: data.code },
+			})
+
+			for (const question of questions) {
+				await prisma.screeningQuestion.upsert({
+					create: { ...question, instrumentId: instrument.id },
+					update: question,
+					where: {
+						instrumentId_number: {
+							instrumentId: instrument.id,
+							number: question.number,
+						},
+					},
+				})
+			}
+
+			await prisma.screeningCutoff.deleteMany({
+				where: { instrumentId: instrument.id },
+			})
+			await prisma.screeningCutoff.createMany({
+				data: cutoffs.map(cutoff => ({
+					...cutoff,
+					instrumentId: instrument.id,
+				})),
+			})
+		}
+
+		console.log(`🎉 Screening instruments seeded: ${instruments.length}`)
+	} catch (error) {
+		console.error('❌ Error during screening seeding:', error)
+		process.exit(1)
+	}
+}
+
+export default screeningSeed
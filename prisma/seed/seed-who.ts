@@ -0,0 +1,194 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+import { parseCsv } from '@/utils/csv'
+import {
+	parseVelocityTableRow,
+	VELOCITY_TABLE_FILE,
+	type VelocityStandardRow,
+} from '@/utils/growth-velocity'
+import {
+	CDC_TABLES,
+	FENTON_TABLE_FILE,
+	type GrowthReferenceValue,
+	parseCDCTableRow,
+	parseFentonTableRow,
+	parseWHOTableRow,
+	WHO_TABLES,
+	type WHOChartType,
+	type WHOStandardRow,
+	type WHOTableRow,
+} from '@/utils/who-standards'
+
+import type { PrismaSeedClient } from '../seed'
+
+type WHOTableFile = Record<
+	string,
+	{ boys?: WHOTableRow[]; girls?: WHOTableRow[] }
+>
+
+/**
+ * Imports the growth reference tables other than WHO weight-for-age
+ * (seed-wfa):
+ * - WHO 0-5 y length/height-, head circumference-, BMI- and arm
+ *   circumference (MUAC)-for-age and weight-for-length/height, and the
+ *   WHO 2007 5-19 y height-, weight- and BMI-for-age, each from
+ *   prisma/data/zscore-<key>.json in the same shape as zscore-wfa.json
+ *   (2007 rows keyed by Month). The length/height- and BMI-for-age files
+ *   hold the WHO monthly tables by day: the 0-2 y (lying length) month 24
+ *   row is day 730, the 2-5 y (standing height) one day 731
+ * - CDC 2000 stature-, weight- and BMI-for-age from the CDC LMS files
+ *   (statage.csv, wtage.csv, bmiagerev.csv) in prisma/data/cdc. Until
+ *   they are seeded, clinics set to CDC are charted against WHO
+ * - Fenton 2013 preterm weight, length and head circumference by
+ *   postmenstrual age from prisma/data/fenton-2013.csv
+ * - WHO weight, length and head circumference velocity (1-6 month
+ *   increments) from prisma/data/who-velocity.csv
+ * A missing file is skipped with a warning, leaving that table empty.
+ */
+async function whoSeed(prisma: PrismaSeedClient) {
+	console.log('🌱 Starting growth reference table seeding...')
+
+	for (const table of WHO_TABLES.filter(t => t.key !== 'wfa')) {
+		const filePath = path.resolve(`prisma/data/zscore-${table.key}.json`)
+		if (!fs.existsSync(filePath)) {
+			console.warn(`⚠️ ${table.key}: ${filePath} not found, table skipped`)
+			continue
+		}
+
+		const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as WHOTableFile
+		const sexes = data[table.key]
+		if (!sexes) {
+			throw new Error(`${filePath} has no '${table.key}' key`)
+		}
+
+		const rows: WHOStandardRow[] = []
+		let skipped = 0
+		for (const [gender, points] of [
+			['MALE', sexes.boys ?? []],
+			['FEMALE', sexes.girls ?? []],
+		] as const) {
+			for (const point of points) {
+				try {
+					rows.push(parseWHOTableRow(point, table, gender))
+				} catch (error) {
+					skipped += 1
+					console.warn(
+						`Skipping ${table.key} ${gender} row ${point.Day ?? point.Month ?? point.Length ?? point.Height}: ${error}`
+					)
+				}
+			}
+		}
+
+		await replaceTable(prisma, table.reference, table.chartType, rows)
+		console.log(
+			`✅ ${table.key}: ${rows.length} rows inserted, ${skipped} skipped`
+		)
+	}
+
+	for (const table of CDC_TABLES) {
+		const filePath = path.resolve('prisma/data/cdc', table.file)
+		if (!fs.existsSync(filePath)) {
+			console.warn(
+				`⚠️ CDC ${table.chartType}: ${filePath} not found, table skipped`
+			)
+			continue
+		}
+
+		const rows: WHOStandardRow[] = []
+		let skipped = 0
+		for (const record of parseCsv(fs.readFileSync(filePath, 'utf-8'))) {
+			try {
+				rows.push(parseCDCTableRow(record, table))
+			} catch (error) {
+				skipped += 1
+				console.warn(
+					`Skipping ${table.file} row Agemos ${record.Agemos}: ${error}`
+				)
+			}
+		}
+
+		await replaceTable(prisma, 'CDC_2000', table.chartType, rows)
+		console.log(
+			`✅ CDC ${table.chartType}: ${rows.length} rows inserted, ${skipped} skipped`
+		)
+	}
+
+	const fentonPath = path.resolve('prisma/data', FENTON_TABLE_FILE)
+	if (fs.existsSync(fentonPath)) {
+		const rows: WHOStandardRow[] = []
+		let skipped = 0
+		for (const record of parseCsv(fs.readFileSync(fentonPath, 'utf-8'))) {
+			try {
+				rows.push(parseFentonTableRow(record))
+			} catch (error) {
+				skipped += 1
+				console.warn(
+					`Skipping ${FENTON_TABLE_FILE} row ${record.Measure} ${record.PMAWeeks}: ${error}`
+				)
+			}
+		}
+
+		for (const chartType of ['WFA', 'HFA', 'HcFA'] as const) {
+			await replaceTable(
+				prisma,
+				'FENTON_2013',
+				chartType,
+				rows.filter(row => row.chartType === chartType)
+			)
+		}
+		console.log(`✅ Fenton: ${rows.length} rows inserted, ${skipped} skipped`)
+	} else {
+		console.warn(`⚠️ Fenton: ${fentonPath} not found, table skipped`)
+	}
+
+	const velocityPath = path.resolve('prisma/data', VELOCITY_TABLE_FILE)
+	if (fs.existsSync(velocityPath)) {
+		const rows: VelocityStandardRow[] = []
+		let skipped = 0
+		for (const record of parseCsv(fs.readFileSync(velocityPath, 'utf-8'))) {
+			try {
+				rows.push(parseVelocityTableRow(record))
+			} catch (error) {
+				skipped += 1
+				console.warn(
+					`Skipping ${VELOCITY_TABLE_FILE} row ${record.Measure} ${record.StartMonth}-${record.EndMonth}: ${error}`
+				)
+			}
+		}
+
+		await prisma.growthVelocityStandard.deleteMany({})
+		await prisma.growthVelocityStandard.createMany({
+			data: rows,
+			skipDuplicates: true,
+		})
+		console.log(`✅ Velocity: ${rows.length} rows inserted, ${skipped} skipped`)
+	} else {
+		console.warn(`⚠️ Velocity: ${velocityPath} not found, table skipped`)
+	}
+
+	console.log('🎉 Growth reference tables seeded')
+}
+
+/**
+ * Replace only one reference's chart so reruns leave the others alone
+ */
+async function replaceTable(
+	prisma: PrismaSeedClient,
+	reference: GrowthReferenceValue,
+	chartType: WHOChartType,
+	rows: WHOStandardRow[]
+) {
+	await prisma.wHOGrowthStandard.deleteMany({
+		where: { chartType, reference },
+	})
+
+	const BATCH_SIZE = 1000
+	for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+		await prisma.wHOGrowthStandard.createMany({
+			data: rows.slice(i, i + BATCH_SIZE),
+		})
+	}
+}
+
+export default whoSeed
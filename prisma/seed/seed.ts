@@ -151,11 +151,16 @@ const clearAllData = async (prisma: PrismaSeedClient) => {
 		() => prisma.clinicMember.deleteMany({}), // Bridge table, user/clinic
 		() => prisma.doseGuideline.deleteMany({}),
 		() => prisma.expense.deleteMany({}),
+		() => prisma.feedingAlert.deleteMany({}),
 		() => prisma.feedingLog.deleteMany({}),
 		() => prisma.file.deleteMany({}), // Depends on User, Folder
 		() => prisma.folder.deleteMany({}), // Depends on User
 		() => prisma.guardian.deleteMany({}), // Depends on Patient, User
+		() => prisma.adverseEvent.deleteMany({}), // Depends on Immunization
+		() => prisma.patientAllergy.deleteMany({}), // Depends on Patient
+		() => prisma.drugInteraction.deleteMany({}),
 		() => prisma.immunization.deleteMany({}),
+		() => prisma.vaccineLot.deleteMany({}),
 		() => prisma.labTest.deleteMany({}),
 		() => prisma.medicalRecordAccess.deleteMany({}), // Depends on MedicalRecords, User
 		() => prisma.notification.deleteMany({}),
@@ -172,9 +177,23 @@ const clearAllData = async (prisma: PrismaSeedClient) => {
 		() => prisma.vitalSigns.deleteMany({}),
 		() => prisma.workingDays.deleteMany({}),
 		() => prisma.diagnosis.deleteMany({}),
+		() => prisma.growthAlert.deleteMany({}), // Depends on GrowthRecord
+		() => prisma.therapeuticFeedingVisit.deleteMany({}), // Depends on GrowthRecord
+		() => prisma.therapeuticFeedingEnrollment.deleteMany({}),
 		() => prisma.growthRecord.deleteMany({}),
 		() => prisma.developmentalMilestone.deleteMany({}),
+		() => prisma.developmentalCheckItem.deleteMany({}),
 		() => prisma.developmentalCheck.deleteMany({}),
+		() => prisma.milestoneDefinition.deleteMany({}),
+		() => prisma.screeningAnswer.deleteMany({}),
+		() => prisma.screeningResult.deleteMany({}),
+		() => prisma.screeningCutoff.deleteMany({}),
+		() => prisma.screeningQuestion.deleteMany({}),
+		() => prisma.screeningInstrument.deleteMany({}),
+		() => prisma.bilirubinMeasurement.deleteMany({}),
+		() => prisma.bilirubinCurve.deleteMany({}),
+		() => prisma.bilirubinZone.deleteMany({}),
+		() => prisma.bilirubinTable.deleteMany({}),
 		() => prisma.medicalRecords.deleteMany({}),
 		() => prisma.appointment.deleteMany({}),
 		() => prisma.patient.deleteMany({}), // Depends on User, Clinic
@@ -197,7 +216,10 @@ const clearAllData = async (prisma: PrismaSeedClient) => {
 		() => prisma.todo.deleteMany({}),
 		() => prisma.settings.deleteMany({}),
 		() => prisma.wHOGrowthStandard.deleteMany({}),
+		() => prisma.growthVelocityStandard.deleteMany({}),
+		() => prisma.clinicVaccineSchedule.deleteMany({}),
 		() => prisma.vaccineSchedule.deleteMany({}),
+		() => prisma.vaccineScheduleVersion.deleteMany({}),
 		() => prisma.configStore.deleteMany({}),
 	]
 
@@ -1852,10 +1874,29 @@ const createWHOGrowthStandards = async (prisma: PrismaSeedClient) => {
 }
 
 // Create vaccine schedules
-const createVaccineSchedules = async (prisma: PrismaSeedClient) => {
+const createVaccineSchedules = async (
+	prisma: PrismaSeedClient,
+	clinics: { id: string }[]
+) => {
 	console.log('📋 Creating vaccine schedules...')
 	const schedules = []
 
+	const scheduleVersion = await prisma.vaccineScheduleVersion.upsert({
+		where: {
+			program_version: {
+				program: 'National Immunization Program',
+				version: '1',
+			},
+		},
+		update: {},
+		create: {
+			program: 'National Immunization Program',
+			version: '1',
+			effectiveFrom: new Date('2000-01-01'),
+			source: 'Seed data',
+		},
+	})
+
 	const vaccineData = [
 		{
 			name: 'Hepatitis B',
@@ -1932,7 +1973,8 @@ const createVaccineSchedules = async (prisma: PrismaSeedClient) => {
 	for (const vaccine of vaccineData) {
 		const schedule = await prisma.vaccineSchedule.upsert({
 			where: {
-				vaccineName_recommendedAge: {
+				scheduleVersionId_vaccineName_recommendedAge: {
+					scheduleVersionId: scheduleVersion.id,
 					vaccineName: vaccine.name,
 					recommendedAge: vaccine.recommendedAge,
 				},
@@ -1941,6 +1983,7 @@ const createVaccineSchedules = async (prisma: PrismaSeedClient) => {
 				// optional: update fields if you want reseeding to refresh data
 			},
 			create: {
+				scheduleVersionId: scheduleVersion.id,
 				dosesRequired: vaccine.dosesRequired,
 				vaccineName: vaccine.name,
 				recommendedAge: vaccine.recommendedAge,
@@ -1954,6 +1997,22 @@ const createVaccineSchedules = async (prisma: PrismaSeedClient) => {
 		schedules.push(schedule)
 	}
 
+	for (const clinic of clinics) {
+		await prisma.clinicVaccineSchedule.upsert({
+			where: {
+				clinicId_scheduleVersionId: {
+					clinicId: clinic.id,
+					scheduleVersionId: scheduleVersion.id,
+				},
+			},
+			update: {},
+			create: {
+				clinicId: clinic.id,
+				scheduleVersionId: scheduleVersion.id,
+			},
+		})
+	}
+
 	return schedules
 }
 
@@ -2062,7 +2121,7 @@ async function runSeed(prisma: PrismaSeedClient) {
 		await createRatings(prisma, doctors, patients)
 		const auditLogs = await createAuditLogs(prisma, users, clinics)
 		const whoStandards = await createWHOGrowthStandards(prisma)
-		const vaccineSchedules = await createVaccineSchedules(prisma)
+		const vaccineSchedules = await createVaccineSchedules(prisma, clinics)
 
 		// Create some sample files
 		console.log('📁 Creating sample files...')
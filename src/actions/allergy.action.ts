@@ -0,0 +1,111 @@
+/**
+ * 🟠 ALLERGY MODULE - ACTION LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Server Actions for structured patient allergy mutations
+ * - Authentication only
+ * - Zod validation only
+ * - NO business logic
+ * - Delegates to service layer
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+
+import {
+	AllergyByIdSchema,
+	AllergyCreateSchema,
+	AllergyImportSchema,
+	AllergyUpdateSchema,
+} from '@/schemas/allergy.schema'
+import * as allergyService from '@/server/services/allergy.service'
+import { getSession } from '@/server/utils'
+
+export async function createAllergyAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = AllergyCreateSchema.parse(input)
+
+	const result = await allergyService.createAllergy(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${validated.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function updateAllergyAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = AllergyUpdateSchema.parse(input)
+
+	const result = await allergyService.updateAllergy(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${result.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function deleteAllergyAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = AllergyByIdSchema.parse(input)
+
+	const result = await allergyService.deleteAllergy(
+		validated.id,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${result.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function importAllergiesAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = AllergyImportSchema.parse(input)
+
+	const result = await allergyService.importAllergies(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${validated.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
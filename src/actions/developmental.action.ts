@@ -0,0 +1,43 @@
+/**
+ * 🟠 DEVELOPMENTAL MODULE - ACTION LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Server Actions for developmental check mutations
+ * - Authentication only
+ * - Zod validation only
+ * - NO business logic
+ * - Delegates to service layer
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+
+import { RecordDevelopmentalCheckSchema } from '@/schemas/developmental.schema'
+import * as developmentalService from '@/server/services/developmental.service'
+import { getSession } from '@/server/utils'
+
+export async function recordDevelopmentalCheckAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = RecordDevelopmentalCheckSchema.parse(input)
+
+	const result = await developmentalService.recordDevelopmentalCheck(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${validated.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
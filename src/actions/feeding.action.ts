@@ -0,0 +1,114 @@
+/**
+ * 🟠 FEEDING MODULE - ACTION LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Server Actions for feeding log and low intake alert mutations
+ * - Authentication only
+ * - Zod validation only
+ * - NO business logic
+ * - Delegates to service layer
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+
+import {
+	FeedingLogByIdSchema,
+	FeedingLogCreateSchema,
+	FeedingLogUpdateSchema,
+	ReviewFeedingAlertSchema,
+} from '@/schemas/feeding.schema'
+import * as feedingService from '@/server/services/feeding.service'
+import { getSession } from '@/server/utils'
+
+export async function createFeedingLogAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = FeedingLogCreateSchema.parse(input)
+
+	const result = await feedingService.createFeedingLog(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${validated.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function updateFeedingLogAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = FeedingLogUpdateSchema.parse(input)
+
+	const result = await feedingService.updateFeedingLog(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${result.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function deleteFeedingLogAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = FeedingLogByIdSchema.parse(input)
+
+	const result = await feedingService.deleteFeedingLog(
+		validated.id,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${result.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function reviewFeedingAlertAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = ReviewFeedingAlertSchema.parse(input)
+
+	const result = await feedingService.reviewFeedingAlert(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${result.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
@@ -0,0 +1,212 @@
+/**
+ * 🟠 FORMULARY MODULE - ACTION LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Server Actions for drug and dose guideline mutations
+ * - Authentication only
+ * - Zod validation only
+ * - NO business logic
+ * - Delegates to service layer
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+
+import {
+	DoseGuidelineCreateSchema,
+	DoseGuidelineUpdateSchema,
+	DrugCreateSchema,
+	DrugUpdateSchema,
+	FormularyImportSchema,
+	FormularyStatusSchema,
+	InteractionImportSchema,
+} from '@/schemas/prescription.schema'
+import * as formularyService from '@/server/services/formulary.service'
+import { getSession } from '@/server/utils'
+
+export async function createDrugAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = DrugCreateSchema.parse(input)
+
+	const result = await formularyService.createDrug(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath('/dashboard/formulary')
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function updateDrugAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = DrugUpdateSchema.parse(input)
+
+	const result = await formularyService.updateDrug(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath('/dashboard/formulary')
+	revalidatePath(`/dashboard/formulary/${validated.id}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function setDrugStatusAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = FormularyStatusSchema.parse(input)
+
+	const result = await formularyService.setDrugStatus(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath('/dashboard/formulary')
+	revalidatePath(`/dashboard/formulary/${validated.id}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function createGuidelineAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = DoseGuidelineCreateSchema.parse(input)
+
+	const result = await formularyService.createGuideline(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/formulary/${validated.drugId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function updateGuidelineAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = DoseGuidelineUpdateSchema.parse(input)
+
+	const result = await formularyService.updateGuideline(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/formulary/${result.drugId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function setGuidelineStatusAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = FormularyStatusSchema.parse(input)
+
+	const result = await formularyService.setGuidelineStatus(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/formulary/${result.drugId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function importNicuDataAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = FormularyImportSchema.parse(input)
+
+	const result = await formularyService.importNicuData(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	if (result.applied) {
+		revalidatePath('/dashboard/formulary')
+	}
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function importInteractionsAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = InteractionImportSchema.parse(input)
+
+	const result = await formularyService.importInteractions(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath('/dashboard/formulary')
+
+	return {
+		data: result,
+		success: true,
+	}
+}
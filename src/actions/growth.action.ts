@@ -5,8 +5,11 @@ import { revalidatePath } from 'next/cache'
 import {
 	type CreateGrowthRecordInput,
 	DeleteGrowthRecordSchema,
+	GrowthChartExportSchema,
 	GrowthRecordCreateSchema,
 	GrowthRecordUpdateSchema,
+	GrowthReferenceSettingSchema,
+	ReviewGrowthAlertSchema,
 	type UpdateGrowthRecordInput,
 } from '@/schemas/growth.schema'
 import * as growthService from '@/server/services/growth.service'
@@ -87,3 +90,89 @@ export async function deleteGrowthRecordAction(input: unknown) {
 
 	return { success: true, message: 'Growth record deleted successfully' }
 }
+
+// ==================== GROWTH ALERT ACTIONS ====================
+
+export async function reviewGrowthAlertAction(input: unknown) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const clinicId = session.user.clinic?.id
+	if (!clinicId) {
+		throw new Error('No clinic selected')
+	}
+
+	const validated = ReviewGrowthAlertSchema.parse(input)
+
+	const result = await growthService.reviewGrowthAlert(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${result.patientId}`)
+	revalidatePath('/dashboard/growth')
+
+	return { data: result, success: true }
+}
+
+// ==================== SETTING ACTIONS ====================
+
+export async function updateGrowthReferenceSettingAction(input: unknown) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const clinicId = session.user.clinic?.id
+	if (!clinicId) {
+		throw new Error('No clinic selected')
+	}
+
+	const validated = GrowthReferenceSettingSchema.parse(input)
+
+	const result = await growthService.updateGrowthReferenceSetting(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath('/dashboard/settings')
+	revalidatePath('/dashboard/growth')
+
+	return { data: result, success: true }
+}
+
+// ==================== EXPORT ACTIONS ====================
+
+export async function exportGrowthChartAction(
+	input: unknown,
+	request?: { ipAddress?: string; userAgent?: string }
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const clinicId = session.user.clinic?.id
+	if (!clinicId) {
+		throw new Error('No clinic selected')
+	}
+
+	const validated = GrowthChartExportSchema.parse(input)
+
+	const result = await growthService.exportGrowthChart(
+		validated,
+		clinicId,
+		session.user.id,
+		request
+	)
+
+	if (result.attachment) {
+		revalidatePath(`/dashboard/patients/${validated.patientId}`)
+	}
+
+	return { data: result, success: true }
+}
@@ -0,0 +1,103 @@
+/**
+ * 🟠 INVENTORY MODULE - ACTION LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Server Actions for vaccine lot mutations
+ * - Authentication only
+ * - Zod validation only
+ * - NO business logic
+ * - Delegates to service layer
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+
+import {
+	AdjustVaccineLotStockSchema,
+	VaccineLotCreateSchema,
+	VaccineLotUpdateSchema,
+} from '@/schemas/inventory.schema'
+import * as inventoryService from '@/server/services/inventory.service'
+import { getSession } from '@/server/utils'
+
+export async function createVaccineLotAction(input: unknown) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = VaccineLotCreateSchema.parse(input)
+
+	const result = await inventoryService.createLot(validated, session.user.id)
+
+	revalidatePath('/dashboard/inventory')
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function updateVaccineLotAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = VaccineLotUpdateSchema.parse(input)
+
+	const result = await inventoryService.updateLot(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath('/dashboard/inventory')
+	revalidatePath(`/dashboard/inventory/${validated.id}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function adjustVaccineLotStockAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = AdjustVaccineLotStockSchema.parse(input)
+
+	const result = await inventoryService.adjustStock(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath('/dashboard/inventory')
+	revalidatePath(`/dashboard/inventory/${validated.id}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function runInventoryAlertsAction(clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const result = await inventoryService.checkLotAlerts(clinicId)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
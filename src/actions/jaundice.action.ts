@@ -0,0 +1,67 @@
+/**
+ * 🟠 JAUNDICE MODULE - ACTION LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Server Actions for bilirubin measurements and nomogram / threshold
+ *   table configuration
+ * - Authentication only
+ * - Zod validation only
+ * - NO business logic
+ * - Delegates to service layer
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+
+import {
+	RecordBilirubinSchema,
+	SaveBilirubinTableSchema,
+} from '@/schemas/jaundice.schema'
+import * as jaundiceService from '@/server/services/jaundice.service'
+import { getSession } from '@/server/utils'
+
+export async function recordBilirubinAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = RecordBilirubinSchema.parse(input)
+
+	const result = await jaundiceService.recordBilirubin(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${validated.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function saveBilirubinTableAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = SaveBilirubinTableSchema.parse(input)
+
+	const result = await jaundiceService.saveBilirubinTable(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
@@ -0,0 +1,91 @@
+/**
+ * 🟠 NUTRITION MODULE - ACTION LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Server Actions for outpatient therapeutic feeding programme mutations
+ * - Authentication only
+ * - Zod validation only
+ * - NO business logic
+ * - Delegates to service layer
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+
+import {
+	OtpDischargeSchema,
+	OtpEnrollSchema,
+	OtpFollowUpSchema,
+} from '@/schemas/nutrition.schema'
+import * as nutritionService from '@/server/services/nutrition.service'
+import { getSession } from '@/server/utils'
+
+export async function enrollOtpAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = OtpEnrollSchema.parse(input)
+
+	const result = await nutritionService.enrollPatient(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${validated.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function recordOtpFollowUpAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = OtpFollowUpSchema.parse(input)
+
+	const result = await nutritionService.recordOtpFollowUp(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${result.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function dischargeOtpAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = OtpDischargeSchema.parse(input)
+
+	const result = await nutritionService.dischargeOtp(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${result.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
@@ -0,0 +1,128 @@
+/**
+ * 🟠 PRESCRIPTION MODULE - ACTION LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Server Actions for prescription mutations
+ * - Authentication only
+ * - Zod validation only
+ * - NO business logic
+ * - Delegates to service layer
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+
+import {
+	PrescriptionCancelSchema,
+	PrescriptionCreateSchema,
+	PrescriptionRenewSchema,
+	PrescriptionUpdateSchema,
+} from '@/schemas/prescription.schema'
+import * as prescriptionService from '@/server/services/prescription.service'
+import { getSession } from '@/server/utils'
+
+export async function createPrescriptionAction(input: unknown) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = PrescriptionCreateSchema.parse(input)
+
+	const result = await prescriptionService.createPrescription(
+		validated,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${validated.patientId}/prescriptions`)
+	revalidatePath('/dashboard/prescriptions')
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function updatePrescriptionAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = PrescriptionUpdateSchema.parse(input)
+
+	const result = await prescriptionService.updatePrescription(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(
+		`/dashboard/patients/${result.prescription.patientId}/prescriptions`
+	)
+	revalidatePath(`/dashboard/prescriptions/${validated.id}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function cancelPrescriptionAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = PrescriptionCancelSchema.parse(input)
+
+	const result = await prescriptionService.cancelPrescription(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${result.patientId}/prescriptions`)
+	revalidatePath(`/dashboard/prescriptions/${validated.id}`)
+	revalidatePath('/dashboard/prescriptions')
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function renewPrescriptionAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = PrescriptionRenewSchema.parse(input)
+
+	const result = await prescriptionService.renewPrescription(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(
+		`/dashboard/patients/${result.prescription.patientId}/prescriptions`
+	)
+	revalidatePath('/dashboard/prescriptions')
+
+	return {
+		data: result,
+		success: true,
+	}
+}
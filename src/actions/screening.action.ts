@@ -0,0 +1,66 @@
+/**
+ * 🟠 SCREENING MODULE - ACTION LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Server Actions for screening results and instrument configuration
+ * - Authentication only
+ * - Zod validation only
+ * - NO business logic
+ * - Delegates to service layer
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+
+import {
+	RecordScreeningSchema,
+	SaveScreeningInstrumentSchema,
+} from '@/schemas/screening.schema'
+import * as screeningService from '@/server/services/screening.service'
+import { getSession } from '@/server/utils'
+
+export async function recordScreeningAction(input: unknown, clinicId: string) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = RecordScreeningSchema.parse(input)
+
+	const result = await screeningService.recordScreening(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${validated.patientId}`)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function saveScreeningInstrumentAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = SaveScreeningInstrumentSchema.parse(input)
+
+	const result = await screeningService.saveScreeningInstrument(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
@@ -15,12 +15,17 @@
 import { revalidatePath, revalidateTag } from 'next/cache'
 
 import {
+	AdverseEventCreateSchema,
+	AdverseEventReviewSchema,
+	AdverseEventUpdateSchema,
 	type DeleteImmunizationInput,
 	DeleteImmunizationSchema,
 	type ImmunizationCreateInput,
 	ImmunizationCreateSchema,
 	type ImmunizationUpdateInput,
 	ImmunizationUpdateSchema,
+	ImportVaccineScheduleSchema,
+	MigratePatientScheduleSchema,
 	type ScheduleVaccinationInput,
 	ScheduleVaccinationSchema,
 	VaccinationByIdSchema,
@@ -173,29 +178,33 @@ export async function scheduleDueVaccinationsAction(
 		patientId,
 		clinicId
 	)
+	// Doses flagged by a serious AEFI wait for a clinician decision
+	const held = dueVaccinations.filter(v => v.requiresReview)
 
 	const results = await Promise.all(
-		dueVaccinations.map(
-			(v: {
-				doseNumber: number
-				dueDate: Date
-				patientId: string
-				vaccineName: string
-			}) =>
-				vaccinationService
-					.scheduleVaccination(
-						{
-							clinicId,
-							doseNumber: v.doseNumber,
-							dueDate: v.dueDate,
-							notes: 'Auto-scheduled based on vaccine schedule',
-							patientId: v.patientId,
-							vaccineName: v.vaccineName,
-						},
-						session.user.id
-					)
-					.catch(e => ({ error: e.message, vaccine: v.vaccineName }))
-		)
+		dueVaccinations
+			.filter(v => !v.requiresReview)
+			.map(
+				(v: {
+					doseNumber: number
+					dueDate: Date
+					patientId: string
+					vaccineName: string
+				}) =>
+					vaccinationService
+						.scheduleVaccination(
+							{
+								clinicId,
+								doseNumber: v.doseNumber,
+								dueDate: v.dueDate,
+								notes: 'Auto-scheduled based on vaccine schedule',
+								patientId: v.patientId,
+								vaccineName: v.vaccineName,
+							},
+							session.user.id
+						)
+						.catch(e => ({ error: e.message, vaccine: v.vaccineName }))
+			)
 	)
 
 	revalidatePath(`/dashboard/patients/${patientId}/immunizations`)
@@ -206,6 +215,10 @@ export async function scheduleDueVaccinationsAction(
 			(r): r is { error: string; vaccine: string } =>
 				typeof r === 'object' && r !== null && 'error' in r
 		),
+		held: held.map(v => ({
+			reason: v.reviewReason,
+			vaccine: v.vaccineName,
+		})),
 		scheduled: results.filter(
 			r => typeof r === 'object' && r !== null && !('error' in r)
 		).length,
@@ -214,6 +227,198 @@ export async function scheduleDueVaccinationsAction(
 	}
 }
 
+// ==================== SCHEDULE VERSION ACTIONS ====================
+
+export async function importVaccineScheduleAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = ImportVaccineScheduleSchema.parse(input)
+
+	const result = await vaccinationService.importVaccineSchedule(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath('/dashboard/immunizations/schedules')
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function assignVaccineScheduleAction(
+	scheduleVersionId: string,
+	clinicId: string,
+	assigned: boolean
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const result = assigned
+		? await vaccinationService.assignScheduleVersion(
+				scheduleVersionId,
+				clinicId,
+				session.user.id
+			)
+		: await vaccinationService.unassignScheduleVersion(
+				scheduleVersionId,
+				clinicId,
+				session.user.id
+			)
+
+	revalidatePath('/dashboard/immunizations/schedules')
+	revalidatePath('/dashboard/immunizations')
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function migratePatientScheduleAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = MigratePatientScheduleSchema.parse(input)
+
+	const result = await vaccinationService.migratePatientSchedule(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${validated.patientId}/immunizations`)
+	revalidateTag(`vaccination-patient-${validated.patientId}`, 'max')
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+// ==================== CERTIFICATE ACTIONS ====================
+
+export async function generateImmunizationCertificateAction(
+	patientId: string,
+	clinicId: string,
+	request?: { ipAddress?: string; userAgent?: string }
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const result = await vaccinationService.generateImmunizationCertificate(
+		patientId,
+		clinicId,
+		session.user.id,
+		request
+	)
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+// ==================== AEFI ACTIONS ====================
+
+export async function reportAdverseEventAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = AdverseEventCreateSchema.parse(input)
+
+	const result = await vaccinationService.reportAdverseEvent(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${result.patientId}/immunizations`)
+	revalidatePath('/dashboard/immunizations/aefi')
+	revalidateTag(`vaccination-patient-${result.patientId}`, 'max')
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function updateAdverseEventAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = AdverseEventUpdateSchema.parse(input)
+
+	const result = await vaccinationService.updateAdverseEvent(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${result.patientId}/immunizations`)
+	revalidatePath('/dashboard/immunizations/aefi')
+	revalidateTag(`vaccination-patient-${result.patientId}`, 'max')
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
+export async function reviewAdverseEventAction(
+	input: unknown,
+	clinicId: string
+) {
+	const session = await getSession()
+	if (!session?.user) {
+		throw new Error('Unauthorized')
+	}
+
+	const validated = AdverseEventReviewSchema.parse(input)
+
+	const result = await vaccinationService.reviewAdverseEvent(
+		validated,
+		clinicId,
+		session.user.id
+	)
+
+	revalidatePath(`/dashboard/patients/${result.patientId}/immunizations`)
+	revalidatePath('/dashboard/immunizations/aefi')
+	revalidateTag(`vaccination-patient-${result.patientId}`, 'max')
+
+	return {
+		data: result,
+		success: true,
+	}
+}
+
 // ==================== DELETE ACTIONS ====================
 
 export async function deleteImmunizationAction(input: DeleteImmunizationInput) {
@@ -228,9 +433,9 @@ export async function deleteImmunizationAction(input: DeleteImmunizationInput) {
 
 	// 2. Delegate to Service
 	const result = await vaccinationService.deleteImmunization(
-		userId,
 		id,
-		clinicId
+		clinicId,
+		userId
 	)
 
 	// 3. Revalidate
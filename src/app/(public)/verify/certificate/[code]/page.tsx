@@ -0,0 +1,82 @@
+import { format } from 'date-fns'
+import type { Metadata } from 'next'
+
+import { verifyImmunizationCertificate } from '@/server/services/vac.service'
+
+export const metadata: Metadata = {
+	title: 'Certificate Verification | Smart Pediatric Clinic',
+	description: 'Confirm the authenticity of an immunization certificate.',
+}
+
+interface PageProps {
+	params: Promise<{ code: string }>
+}
+
+const STATUS_COPY = {
+	NOT_FOUND: {
+		className: 'border-red-200 bg-red-50 text-red-800',
+		label: 'Not recognised',
+		message:
+			'No certificate matches this verification code. The document may not be authentic.',
+	},
+	REVOKED: {
+		className: 'border-red-200 bg-red-50 text-red-800',
+		label: 'Revoked',
+		message: 'This certificate was issued by the clinic but has been revoked.',
+	},
+	SUPERSEDED: {
+		className: 'border-amber-200 bg-amber-50 text-amber-800',
+		label: 'Authentic - superseded',
+		message:
+			'This certificate was issued by the clinic, but the immunization record has changed since. Ask the clinic for an updated copy.',
+	},
+	VALID: {
+		className: 'border-green-200 bg-green-50 text-green-800',
+		label: 'Authentic',
+		message:
+			'This certificate was issued by the clinic and matches the current immunization record.',
+	},
+} as const
+
+export default async function VerifyCertificatePage({ params }: PageProps) {
+	const { code } = await params
+	const result = await verifyImmunizationCertificate(code)
+	const copy = STATUS_COPY[result.status]
+
+	return (
+		<main className='mx-auto max-w-2xl px-6 py-16 sm:px-8'>
+			<h1 className='mb-6 font-bold text-3xl text-gray-900'>
+				Immunization Certificate Verification
+			</h1>
+
+			<div className={`mb-8 rounded-lg border p-4 ${copy.className}`}>
+				<p className='font-semibold'>{copy.label}</p>
+				<p className='text-sm'>{copy.message}</p>
+			</div>
+
+			{result.status !== 'NOT_FOUND' && (
+				<dl className='grid grid-cols-[auto_1fr] gap-x-6 gap-y-3 text-gray-700'>
+					<dt className='font-medium text-gray-500'>Patient</dt>
+					<dd>{result.patient.name}</dd>
+					<dt className='font-medium text-gray-500'>Date of birth</dt>
+					<dd>{format(result.patient.dateOfBirth, 'dd MMM yyyy')}</dd>
+					<dt className='font-medium text-gray-500'>Doses on certificate</dt>
+					<dd>{result.doseCount}</dd>
+					<dt className='font-medium text-gray-500'>Issued</dt>
+					<dd>{format(result.issuedAt, 'dd MMM yyyy')}</dd>
+					<dt className='font-medium text-gray-500'>Issued by</dt>
+					<dd>
+						{result.clinic.name}
+						{result.clinic.address && (
+							<span className='block text-gray-500 text-sm'>
+								{result.clinic.address}
+							</span>
+						)}
+					</dd>
+				</dl>
+			)}
+
+			<p className='mt-8 text-gray-400 text-xs'>Verification code: {code}</p>
+		</main>
+	)
+}
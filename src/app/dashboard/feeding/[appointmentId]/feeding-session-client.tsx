@@ -0,0 +1,88 @@
+// src/app/dashboard/feeding/[appointmentId]/feeding-session-client.tsx
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { ArrowLeft } from 'lucide-react'
+import Link from 'next/link'
+
+import { DashboardLayout } from '@/components/layout/dashboard-layout'
+import { FeedingLog } from '@/components/patients/feeding-log'
+import { Button } from '@/components/ui/button'
+import { useTRPC } from '@/trpc/client'
+
+interface FeedingSessionClientProps {
+	appointmentId: string
+}
+
+export default function FeedingSessionClient({
+	appointmentId,
+}: FeedingSessionClientProps) {
+	const trpc = useTRPC()
+
+	const {
+		data: session,
+		error,
+		isLoading,
+	} = useQuery(trpc.feeding.getSession.queryOptions({ appointmentId }))
+
+	if (isLoading) {
+		return (
+			<DashboardLayout>
+				<p className='text-muted-foreground text-sm'>Loading session...</p>
+			</DashboardLayout>
+		)
+	}
+
+	if (!session) {
+		return (
+			<DashboardLayout>
+				<div className='space-y-4'>
+					<p className='text-muted-foreground'>
+						{error?.message ?? 'Feeding session not found'}
+					</p>
+					<Button
+						asChild
+						variant='outline'
+					>
+						<Link href='/dashboard/patients'>Back to Patients</Link>
+					</Button>
+				</div>
+			</DashboardLayout>
+		)
+	}
+
+	const { appointment, patient } = session
+
+	return (
+		<DashboardLayout>
+			<div className='mx-auto max-w-2xl space-y-6'>
+				<div className='flex items-center gap-4'>
+					<Button
+						asChild
+						size='icon'
+						variant='ghost'
+					>
+						<Link href={`/dashboard/patients/${patient.id}`}>
+							<ArrowLeft className='h-4 w-4' />
+						</Link>
+					</Button>
+					<div>
+						<h1 className='font-bold text-2xl'>
+							{patient.firstName} {patient.lastName}
+						</h1>
+						<p className='text-muted-foreground'>
+							Feeding session,{' '}
+							{format(new Date(appointment.appointmentDate), 'MMM d, yyyy')}
+						</p>
+					</div>
+				</div>
+
+				<FeedingLog
+					appointmentId={appointment.id}
+					patientId={patient.id}
+				/>
+			</div>
+		</DashboardLayout>
+	)
+}
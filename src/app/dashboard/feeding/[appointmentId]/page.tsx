@@ -0,0 +1,25 @@
+// src/app/dashboard/feeding/[appointmentId]/page.tsx (Server Component)
+import { headers } from 'next/headers'
+import { notFound } from 'next/navigation'
+
+import { auth } from '@/lib/auth'
+
+import FeedingSessionClient from './feeding-session-client'
+
+interface PageProps {
+	params: Promise<{ appointmentId: string }>
+}
+
+export default async function FeedingSessionPage({ params }: PageProps) {
+	const { appointmentId } = await params
+
+	const session = await auth.api.getSession({
+		headers: await headers(),
+	})
+
+	if (!session?.user?.clinic?.id) {
+		notFound()
+	}
+
+	return <FeedingSessionClient appointmentId={appointmentId} />
+}
@@ -0,0 +1,270 @@
+// src/app/dashboard/formulary/[id]/drug-details-client.tsx
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ArrowLeft, Edit, Plus } from 'lucide-react'
+import Link from 'next/link'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { DrugForm } from '@/components/formulary/drug-form'
+import { GuidelineForm } from '@/components/formulary/guideline-form'
+import { DashboardLayout } from '@/components/layout/dashboard-layout'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card'
+import {
+	Dialog,
+	DialogContent,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { useTRPC } from '@/trpc/client'
+
+interface DrugDetailsClientProps {
+	drugId: string
+}
+
+function formatRange(
+	min: number | null,
+	max: number | null,
+	unit: string
+): string {
+	if (min === null && max === null) return 'Any'
+	if (min === null) return `< ${max} ${unit}`
+	if (max === null) return `>= ${min} ${unit}`
+	return `${min}-${max} ${unit}`
+}
+
+export default function DrugDetailsClient({ drugId }: DrugDetailsClientProps) {
+	const trpc = useTRPC()
+	const queryClient = useQueryClient()
+	const [isEditing, setIsEditing] = useState(false)
+	// null closes the dialog, 'new' adds, an id edits that guideline
+	const [guidelineDialog, setGuidelineDialog] = useState<string | null>(null)
+
+	const { data: drug, isLoading } = useQuery(
+		trpc.formulary.getDrugById.queryOptions({ id: drugId })
+	)
+
+	const statusMutation = useMutation(
+		trpc.formulary.setGuidelineStatus.mutationOptions({
+			onError: error => {
+				toast.error(error.message)
+			},
+			onSuccess: result => {
+				toast.success(
+					result.data.isActive ? 'Guideline reinstated' : 'Guideline retired'
+				)
+				queryClient.invalidateQueries({ queryKey: trpc.formulary.pathKey() })
+			},
+		})
+	)
+
+	if (isLoading) {
+		return (
+			<DashboardLayout>
+				<div className='p-4 md:p-8'>
+					<p className='text-muted-foreground'>Loading drug...</p>
+				</div>
+			</DashboardLayout>
+		)
+	}
+
+	if (!drug) {
+		return (
+			<DashboardLayout>
+				<div className='p-4 md:p-8'>
+					<p className='text-muted-foreground'>Drug not found</p>
+				</div>
+			</DashboardLayout>
+		)
+	}
+
+	const editingGuideline = drug.guidelines.find(g => g.id === guidelineDialog)
+
+	return (
+		<DashboardLayout>
+			<div className='space-y-6 p-4 md:p-8'>
+				<div className='flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between'>
+					<div className='flex items-center gap-4'>
+						<Button
+							asChild
+							size='icon'
+							variant='ghost'
+						>
+							<Link href='/dashboard/formulary'>
+								<ArrowLeft className='h-4 w-4' />
+							</Link>
+						</Button>
+						<div>
+							<h1 className='font-bold text-3xl tracking-tight'>{drug.name}</h1>
+							<p className='text-muted-foreground'>
+								{[drug.genericName, drug.drugClass]
+									.filter(Boolean)
+									.join(' - ') || 'No class recorded'}
+							</p>
+						</div>
+						{!drug.isActive && <Badge variant='outline'>Retired</Badge>}
+					</div>
+					{!isEditing && (
+						<Button
+							onClick={() => setIsEditing(true)}
+							variant='outline'
+						>
+							<Edit className='mr-2 h-4 w-4' />
+							Edit Drug
+						</Button>
+					)}
+				</div>
+
+				{isEditing && (
+					<Card>
+						<CardHeader>
+							<CardTitle>Edit Drug</CardTitle>
+						</CardHeader>
+						<CardContent>
+							<DrugForm
+								defaultValues={drug}
+								drugId={drug.id}
+								onCancel={() => setIsEditing(false)}
+								onSaved={() => setIsEditing(false)}
+							/>
+						</CardContent>
+					</Card>
+				)}
+
+				<Card>
+					<CardHeader className='flex flex-row items-start justify-between gap-4'>
+						<div>
+							<CardTitle>Dose Guidelines</CardTitle>
+							<CardDescription>
+								Retired guidelines are kept for history but no longer match
+								prescriptions
+							</CardDescription>
+						</div>
+						<Button onClick={() => setGuidelineDialog('new')}>
+							<Plus className='mr-2 h-4 w-4' />
+							Add Guideline
+						</Button>
+					</CardHeader>
+					<CardContent>
+						{drug.guidelines.length === 0 ? (
+							<p className='text-muted-foreground text-sm'>
+								No dose guidelines recorded
+							</p>
+						) : (
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Route</TableHead>
+										<TableHead>Indication</TableHead>
+										<TableHead>GA</TableHead>
+										<TableHead>PNA</TableHead>
+										<TableHead>Dose</TableHead>
+										<TableHead>Frequency</TableHead>
+										<TableHead>Status</TableHead>
+										<TableHead className='text-right'>Actions</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{drug.guidelines.map(guideline => (
+										<TableRow key={guideline.id}>
+											<TableCell>{guideline.route}</TableCell>
+											<TableCell>{guideline.clinicalIndication}</TableCell>
+											<TableCell>
+												{formatRange(
+													guideline.gestationalAgeWeeksMin,
+													guideline.gestationalAgeWeeksMax,
+													'wk'
+												)}
+											</TableCell>
+											<TableCell>
+												{formatRange(
+													guideline.postNatalAgeDaysMin,
+													guideline.postNatalAgeDaysMax,
+													'd'
+												)}
+											</TableCell>
+											<TableCell>
+												{formatRange(
+													guideline.minDosePerKg,
+													guideline.maxDosePerKg,
+													guideline.doseUnit ?? ''
+												)}
+											</TableCell>
+											<TableCell>{guideline.frequencyDays ?? '-'}</TableCell>
+											<TableCell>
+												<Badge
+													variant={guideline.isActive ? 'secondary' : 'outline'}
+												>
+													{guideline.isActive ? 'Active' : 'Retired'}
+												</Badge>
+											</TableCell>
+											<TableCell className='space-x-2 text-right'>
+												<Button
+													onClick={() => setGuidelineDialog(guideline.id)}
+													size='sm'
+													variant='ghost'
+												>
+													Edit
+												</Button>
+												<Button
+													disabled={statusMutation.isPending}
+													onClick={() =>
+														statusMutation.mutate({
+															id: guideline.id,
+															isActive: !guideline.isActive,
+														})
+													}
+													size='sm'
+													variant='outline'
+												>
+													{guideline.isActive ? 'Retire' : 'Reinstate'}
+												</Button>
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						)}
+					</CardContent>
+				</Card>
+
+				<Dialog
+					onOpenChange={open => !open && setGuidelineDialog(null)}
+					open={guidelineDialog !== null}
+				>
+					<DialogContent className='max-h-[90vh] overflow-y-auto sm:max-w-3xl'>
+						<DialogHeader>
+							<DialogTitle>
+								{editingGuideline ? 'Edit Guideline' : 'Add Guideline'}
+							</DialogTitle>
+						</DialogHeader>
+						<GuidelineForm
+							drugId={drug.id}
+							guideline={editingGuideline}
+							key={guidelineDialog ?? 'closed'}
+							onCancel={() => setGuidelineDialog(null)}
+							onSaved={() => setGuidelineDialog(null)}
+						/>
+					</DialogContent>
+				</Dialog>
+			</div>
+		</DashboardLayout>
+	)
+}
@@ -0,0 +1,25 @@
+// src/app/dashboard/formulary/[id]/page.tsx (Server Component)
+import { headers } from 'next/headers'
+import { notFound } from 'next/navigation'
+
+import { auth } from '@/lib/auth'
+
+import DrugDetailsClient from './drug-details-client'
+
+interface PageProps {
+	params: Promise<{ id: string }>
+}
+
+export default async function DrugDetailsPage({ params }: PageProps) {
+	const { id } = await params
+
+	const session = await auth.api.getSession({
+		headers: await headers(),
+	})
+
+	if (!session?.user?.clinic?.id) {
+		notFound()
+	}
+
+	return <DrugDetailsClient drugId={id} />
+}
@@ -0,0 +1,238 @@
+// src/app/dashboard/formulary/formulary-client.tsx
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Plus, Search } from 'lucide-react'
+import Link from 'next/link'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { DrugForm } from '@/components/formulary/drug-form'
+import { FormularyImport } from '@/components/formulary/formulary-import'
+import { DashboardLayout } from '@/components/layout/dashboard-layout'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card'
+import {
+	Dialog,
+	DialogContent,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { useTRPC } from '@/trpc/client'
+
+export default function FormularyClient() {
+	const trpc = useTRPC()
+	const queryClient = useQueryClient()
+	const [search, setSearch] = useState('')
+	const [status, setStatus] = useState('active')
+	const [page, setPage] = useState(1)
+	const [isAdding, setIsAdding] = useState(false)
+
+	const { data, isLoading, isFetching } = useQuery(
+		trpc.formulary.getDrugs.queryOptions({
+			isActive: status === 'all' ? undefined : status === 'active',
+			limit: 20,
+			page,
+			search: search || undefined,
+		})
+	)
+
+	const statusMutation = useMutation(
+		trpc.formulary.setDrugStatus.mutationOptions({
+			onError: error => {
+				toast.error(error.message)
+			},
+			onSuccess: result => {
+				toast.success(result.data.isActive ? 'Drug reinstated' : 'Drug retired')
+				queryClient.invalidateQueries({ queryKey: trpc.formulary.pathKey() })
+			},
+		})
+	)
+
+	const totalPages = data?.totalPages ?? 1
+
+	return (
+		<DashboardLayout>
+			<div className='space-y-6 p-4 md:p-8'>
+				<div className='flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between'>
+					<div>
+						<h1 className='font-bold text-3xl tracking-tight'>Formulary</h1>
+						<p className='text-muted-foreground'>
+							Drugs and dose guidelines used by the prescription checks
+						</p>
+					</div>
+					<Button onClick={() => setIsAdding(true)}>
+						<Plus className='mr-2 h-4 w-4' />
+						Add Drug
+					</Button>
+				</div>
+
+				<Card>
+					<CardHeader>
+						<CardTitle>Drugs</CardTitle>
+						<CardDescription>
+							{data ? `${data.total} drugs` : 'Loading drugs...'}
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<div className='mb-6 flex flex-col gap-4 sm:flex-row'>
+							<div className='relative flex-1'>
+								<Search className='absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-muted-foreground' />
+								<Input
+									className='pl-9'
+									onChange={e => {
+										setSearch(e.target.value)
+										setPage(1)
+									}}
+									placeholder='Search by name, generic or brand...'
+									value={search}
+								/>
+							</div>
+							<Select
+								onValueChange={value => {
+									setStatus(value)
+									setPage(1)
+								}}
+								value={status}
+							>
+								<SelectTrigger className='w-full sm:w-37.5'>
+									<SelectValue placeholder='Status' />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value='all'>All</SelectItem>
+									<SelectItem value='active'>Active</SelectItem>
+									<SelectItem value='retired'>Retired</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+
+						{isLoading ? (
+							<p className='text-muted-foreground text-sm'>Loading...</p>
+						) : (
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Name</TableHead>
+										<TableHead>Class</TableHead>
+										<TableHead>Guidelines</TableHead>
+										<TableHead>Status</TableHead>
+										<TableHead className='text-right'>Actions</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{data?.data.map(drug => (
+										<TableRow key={drug.id}>
+											<TableCell className='font-medium'>
+												<Link
+													className='hover:underline'
+													href={`/dashboard/formulary/${drug.id}`}
+												>
+													{drug.name}
+												</Link>
+												{drug.genericName && (
+													<span className='ml-2 text-muted-foreground text-xs'>
+														{drug.genericName}
+													</span>
+												)}
+											</TableCell>
+											<TableCell>{drug.drugClass ?? '-'}</TableCell>
+											<TableCell>{drug._count.guidelines}</TableCell>
+											<TableCell>
+												<Badge
+													variant={drug.isActive ? 'secondary' : 'outline'}
+												>
+													{drug.isActive ? 'Active' : 'Retired'}
+												</Badge>
+											</TableCell>
+											<TableCell className='text-right'>
+												<Button
+													disabled={statusMutation.isPending}
+													onClick={() =>
+														statusMutation.mutate({
+															id: drug.id,
+															isActive: !drug.isActive,
+														})
+													}
+													size='sm'
+													variant='outline'
+												>
+													{drug.isActive ? 'Retire' : 'Reinstate'}
+												</Button>
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						)}
+
+						{totalPages > 1 && (
+							<div className='mt-6 flex items-center justify-between'>
+								<p className='text-muted-foreground text-sm'>
+									Page {page} of {totalPages}
+								</p>
+								<div className='flex gap-2'>
+									<Button
+										disabled={page === 1 || isFetching}
+										onClick={() => setPage(p => Math.max(1, p - 1))}
+										size='sm'
+										variant='outline'
+									>
+										Previous
+									</Button>
+									<Button
+										disabled={page === totalPages || isFetching}
+										onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+										size='sm'
+										variant='outline'
+									>
+										Next
+									</Button>
+								</div>
+							</div>
+						)}
+					</CardContent>
+				</Card>
+
+				<FormularyImport />
+
+				<Dialog
+					onOpenChange={setIsAdding}
+					open={isAdding}
+				>
+					<DialogContent className='max-h-[90vh] overflow-y-auto sm:max-w-3xl'>
+						<DialogHeader>
+							<DialogTitle>Add Drug</DialogTitle>
+						</DialogHeader>
+						<DrugForm
+							onCancel={() => setIsAdding(false)}
+							onSaved={() => setIsAdding(false)}
+						/>
+					</DialogContent>
+				</Dialog>
+			</div>
+		</DashboardLayout>
+	)
+}
@@ -0,0 +1,25 @@
+// src/app/dashboard/formulary/page.tsx (Server Component)
+import { headers } from 'next/headers'
+import { redirect } from 'next/navigation'
+
+import { auth } from '@/lib/auth'
+
+import FormularyClient from './formulary-client'
+
+export default async function FormularyPage() {
+	const session = await auth.api.getSession({
+		headers: await headers(),
+	})
+
+	if (!session?.user) {
+		redirect('/sign-in')
+	}
+
+	const clinicId = session.user.clinic?.id
+
+	if (!clinicId) {
+		redirect('/dashboard')
+	}
+
+	return <FormularyClient />
+}
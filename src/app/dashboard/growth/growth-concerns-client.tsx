@@ -0,0 +1,266 @@
+// src/app/dashboard/growth/growth-concerns-client.tsx
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import Link from 'next/link'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { DashboardLayout } from '@/components/layout/dashboard-layout'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { useTRPC } from '@/trpc/client'
+
+type StatusFilter = 'pending' | 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED'
+type RuleFilter =
+	| 'all'
+	| 'PERCENTILE_CROSSING'
+	| 'LOW_WEIGHT_FOR_LENGTH'
+	| 'STATIC_WEIGHT'
+	| 'RAPID_HEAD_GROWTH'
+
+export default function GrowthConcernsClient() {
+	const trpc = useTRPC()
+	const queryClient = useQueryClient()
+	const [status, setStatus] = useState<StatusFilter>('pending')
+	const [rule, setRule] = useState<RuleFilter>('all')
+	const [page, setPage] = useState(1)
+
+	const { data, isLoading, isFetching } = useQuery(
+		trpc.growth.getGrowthConcerns.queryOptions({
+			limit: 20,
+			page,
+			rule: rule === 'all' ? undefined : rule,
+			status: status === 'pending' ? ['OPEN', 'ACKNOWLEDGED'] : [status],
+		})
+	)
+
+	const reviewMutation = useMutation(
+		trpc.growth.reviewGrowthAlert.mutationOptions({
+			onError: error => {
+				toast.error(error.message)
+			},
+			onSuccess: result => {
+				toast.success(
+					result.data.status === 'RESOLVED'
+						? 'Concern resolved'
+						: 'Concern acknowledged'
+				)
+				queryClient.invalidateQueries({ queryKey: trpc.growth.pathKey() })
+			},
+		})
+	)
+
+	const totalPages = data?.totalPages ?? 1
+
+	return (
+		<DashboardLayout>
+			<div className='space-y-6 p-4 md:p-8'>
+				<div>
+					<h1 className='font-bold text-3xl tracking-tight'>Growth Concerns</h1>
+					<p className='text-muted-foreground'>
+						Percentile crossing and faltering growth flagged on saved
+						measurements
+					</p>
+				</div>
+
+				<Card>
+					<CardHeader>
+						<CardTitle>Worklist</CardTitle>
+						<CardDescription>
+							{data ? `${data.total} concerns` : 'Loading concerns...'}
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<div className='mb-6 flex flex-col gap-4 sm:flex-row'>
+							<Select
+								onValueChange={value => {
+									setStatus(value as StatusFilter)
+									setPage(1)
+								}}
+								value={status}
+							>
+								<SelectTrigger className='w-full sm:w-45'>
+									<SelectValue placeholder='Status' />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value='pending'>Needs review</SelectItem>
+									<SelectItem value='OPEN'>Open</SelectItem>
+									<SelectItem value='ACKNOWLEDGED'>Acknowledged</SelectItem>
+									<SelectItem value='RESOLVED'>Resolved</SelectItem>
+								</SelectContent>
+							</Select>
+							<Select
+								onValueChange={value => {
+									setRule(value as RuleFilter)
+									setPage(1)
+								}}
+								value={rule}
+							>
+								<SelectTrigger className='w-full sm:w-60'>
+									<SelectValue placeholder='Concern' />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value='all'>All concerns</SelectItem>
+									<SelectItem value='PERCENTILE_CROSSING'>
+										Weight crossing percentiles
+									</SelectItem>
+									<SelectItem value='LOW_WEIGHT_FOR_LENGTH'>
+										Low weight-for-length
+									</SelectItem>
+									<SelectItem value='STATIC_WEIGHT'>Static weight</SelectItem>
+									<SelectItem value='RAPID_HEAD_GROWTH'>
+										Rapid head growth
+									</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+
+						{isLoading ? (
+							<p className='text-muted-foreground text-sm'>Loading...</p>
+						) : data?.data.length === 0 ? (
+							<p className='text-muted-foreground text-sm'>
+								No growth concerns match these filters
+							</p>
+						) : (
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Patient</TableHead>
+										<TableHead>Concern</TableHead>
+										<TableHead>Doctor</TableHead>
+										<TableHead>Measured</TableHead>
+										<TableHead>Status</TableHead>
+										<TableHead className='text-right'>Actions</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{data?.data.map(alert => (
+										<TableRow key={alert.id}>
+											<TableCell className='font-medium'>
+												<Link
+													className='hover:underline'
+													href={`/dashboard/patients/${alert.patient.id}`}
+												>
+													{alert.patient.firstName} {alert.patient.lastName}
+												</Link>
+											</TableCell>
+											<TableCell className='max-w-md'>
+												<Badge
+													className='mb-1'
+													variant='destructive'
+												>
+													{alert.ruleLabel}
+												</Badge>
+												<p className='text-muted-foreground text-xs'>
+													{alert.message}
+												</p>
+											</TableCell>
+											<TableCell>{alert.patient.doctor?.name ?? '-'}</TableCell>
+											<TableCell>
+												{format(new Date(alert.growthRecord.date), 'PP')}
+											</TableCell>
+											<TableCell>
+												<Badge
+													variant={
+														alert.status === 'OPEN' ? 'secondary' : 'outline'
+													}
+												>
+													{alert.status.charAt(0) +
+														alert.status.slice(1).toLowerCase()}
+												</Badge>
+											</TableCell>
+											<TableCell className='text-right'>
+												{alert.status !== 'RESOLVED' && (
+													<div className='flex justify-end gap-2'>
+														{alert.status === 'OPEN' && (
+															<Button
+																disabled={reviewMutation.isPending}
+																onClick={() =>
+																	reviewMutation.mutate({
+																		id: alert.id,
+																		status: 'ACKNOWLEDGED',
+																	})
+																}
+																size='sm'
+																variant='outline'
+															>
+																Acknowledge
+															</Button>
+														)}
+														<Button
+															disabled={reviewMutation.isPending}
+															onClick={() =>
+																reviewMutation.mutate({
+																	id: alert.id,
+																	status: 'RESOLVED',
+																})
+															}
+															size='sm'
+															variant='outline'
+														>
+															Resolve
+														</Button>
+													</div>
+												)}
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						)}
+
+						{totalPages > 1 && (
+							<div className='mt-6 flex items-center justify-between'>
+								<p className='text-muted-foreground text-sm'>
+									Page {page} of {totalPages}
+								</p>
+								<div className='flex gap-2'>
+									<Button
+										disabled={page === 1 || isFetching}
+										onClick={() => setPage(p => Math.max(1, p - 1))}
+										size='sm'
+										variant='outline'
+									>
+										Previous
+									</Button>
+									<Button
+										disabled={page === totalPages || isFetching}
+										onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+										size='sm'
+										variant='outline'
+									>
+										Next
+									</Button>
+								</div>
+							</div>
+						)}
+					</CardContent>
+				</Card>
+			</div>
+		</DashboardLayout>
+	)
+}
@@ -0,0 +1,25 @@
+// src/app/dashboard/growth/page.tsx (Server Component)
+import { headers } from 'next/headers'
+import { redirect } from 'next/navigation'
+
+import { auth } from '@/lib/auth'
+
+import GrowthConcernsClient from './growth-concerns-client'
+
+export default async function GrowthConcernsPage() {
+	const session = await auth.api.getSession({
+		headers: await headers(),
+	})
+
+	if (!session?.user) {
+		redirect('/sign-in')
+	}
+
+	const clinicId = session.user.clinic?.id
+
+	if (!clinicId) {
+		redirect('/dashboard')
+	}
+
+	return <GrowthConcernsClient />
+}
@@ -18,6 +18,8 @@ import {
 import Link from 'next/link'
 
 import { DashboardLayout } from '@/components/layout/dashboard-layout'
+import { FeedingLog } from '@/components/patients/feeding-log'
+import { GrowthChartExport } from '@/components/patients/growth-chart-export'
 import { PatientDetailsSkeleton } from '@/components/patients/patient-details-skeleton'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Badge } from '@/components/ui/badge'
@@ -201,6 +203,28 @@ export default function PatientDetailsClient({
 											{patient.bloodGroup ?? 'Not specified'}
 										</p>
 									</div>
+									{patient.gestationalAgeWeeks != null && (
+										<div>
+											<p className='text-muted-foreground text-sm'>
+												Gestational Age at Birth
+											</p>
+											<p className='font-medium'>
+												{patient.gestationalAgeWeeks} weeks
+											</p>
+										</div>
+									)}
+									{(patient.motherHeightCm != null ||
+										patient.fatherHeightCm != null) && (
+										<div>
+											<p className='text-muted-foreground text-sm'>
+												Parents' Heights
+											</p>
+											<p className='font-medium'>
+												Mother {patient.motherHeightCm ?? '-'} cm, father{' '}
+												{patient.fatherHeightCm ?? '-'} cm
+											</p>
+										</div>
+									)}
 									<div>
 										<p className='text-muted-foreground text-sm'>
 											Emergency Contact
@@ -351,6 +375,10 @@ export default function PatientDetailsClient({
 							</CardContent>
 						</Card>
 
+						<GrowthChartExport patientId={patientId} />
+
+						<FeedingLog patientId={patientId} />
+
 						<Card>
 							<CardHeader>
 								<CardTitle>Recent Visits</CardTitle>
@@ -374,9 +402,18 @@ export default function PatientDetailsClient({
 															'MMM d, yyyy'
 														)}
 													</span>
-													<span className='text-muted-foreground'>
-														{record.type ?? 'Visit'}
-													</span>
+													{record.type === 'FEEDING_SESSION' ? (
+														<Link
+															className='text-primary hover:underline'
+															href={`/dashboard/feeding/${record.id}`}
+														>
+															Feeding log
+														</Link>
+													) : (
+														<span className='text-muted-foreground'>
+															{record.type ?? 'Visit'}
+														</span>
+													)}
 												</div>
 											)
 										)}
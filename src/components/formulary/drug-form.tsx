@@ -0,0 +1,330 @@
+// src/components/formulary/drug-form.tsx
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { LoadingButton } from '@/components/ui/loading-button'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { useTRPC } from '@/trpc/client'
+
+type ControlledSchedule = 'I' | 'II' | 'III' | 'IV' | 'V'
+type PregnancyCategory = 'A' | 'B' | 'C' | 'D' | 'X' | 'N'
+
+interface DrugFormProps {
+	drugId?: string
+	defaultValues?: {
+		name: string
+		genericName?: string | null
+		brandNames?: string[]
+		drugClass?: string | null
+		manufacturer?: string | null
+		description?: string | null
+		indications?: string[]
+		contraindications?: string[]
+		sideEffects?: string[]
+		warnings?: string[]
+		isControlled?: boolean
+		controlledSchedule?: string | null
+		pregnancyCategory?: string | null
+		requiresPriorAuth?: boolean
+	}
+	onCancel?: () => void
+	onSaved?: () => void
+}
+
+// One entry per line in the list textareas
+function toLines(value: string): string[] {
+	return value
+		.split('\n')
+		.map(line => line.trim())
+		.filter(Boolean)
+}
+
+export function DrugForm({
+	drugId,
+	defaultValues,
+	onCancel,
+	onSaved,
+}: DrugFormProps) {
+	const trpc = useTRPC()
+	const queryClient = useQueryClient()
+
+	const [formData, setFormData] = useState({
+		name: defaultValues?.name ?? '',
+		genericName: defaultValues?.genericName ?? '',
+		brandNames: defaultValues?.brandNames?.join(', ') ?? '',
+		drugClass: defaultValues?.drugClass ?? '',
+		manufacturer: defaultValues?.manufacturer ?? '',
+		description: defaultValues?.description ?? '',
+		indications: defaultValues?.indications?.join('\n') ?? '',
+		contraindications: defaultValues?.contraindications?.join('\n') ?? '',
+		sideEffects: defaultValues?.sideEffects?.join('\n') ?? '',
+		warnings: defaultValues?.warnings?.join('\n') ?? '',
+		controlledSchedule: defaultValues?.controlledSchedule ?? '',
+		pregnancyCategory: defaultValues?.pregnancyCategory ?? '',
+	})
+	const [isControlled, setIsControlled] = useState(
+		defaultValues?.isControlled ?? false
+	)
+	const [requiresPriorAuth, setRequiresPriorAuth] = useState(
+		defaultValues?.requiresPriorAuth ?? false
+	)
+
+	const onSuccess = () => {
+		toast.success(drugId ? 'Drug updated' : 'Drug added to the formulary')
+		queryClient.invalidateQueries({ queryKey: trpc.formulary.pathKey() })
+		onSaved?.()
+	}
+
+	const createMutation = useMutation(
+		trpc.formulary.createDrug.mutationOptions({
+			onError: error => {
+				toast.error(error.message)
+			},
+			onSuccess,
+		})
+	)
+
+	const updateMutation = useMutation(
+		trpc.formulary.updateDrug.mutationOptions({
+			onError: error => {
+				toast.error(error.message)
+			},
+			onSuccess,
+		})
+	)
+
+	const isPending = createMutation.isPending || updateMutation.isPending
+
+	const handleChange = (field: keyof typeof formData, value: string) => {
+		setFormData(prev => ({ ...prev, [field]: value }))
+	}
+
+	const onSubmit = () => {
+		const data = {
+			brandNames: formData.brandNames
+				.split(',')
+				.map(name => name.trim())
+				.filter(Boolean),
+			contraindications: toLines(formData.contraindications),
+			controlledSchedule: isControlled
+				? ((formData.controlledSchedule || undefined) as
+						| ControlledSchedule
+						| undefined)
+				: undefined,
+			description: formData.description || undefined,
+			drugClass: formData.drugClass || undefined,
+			genericName: formData.genericName || undefined,
+			indications: toLines(formData.indications),
+			isControlled,
+			manufacturer: formData.manufacturer || undefined,
+			name: formData.name.trim(),
+			pregnancyCategory: (formData.pregnancyCategory || undefined) as
+				| PregnancyCategory
+				| undefined,
+			requiresPriorAuth,
+			sideEffects: toLines(formData.sideEffects),
+			warnings: toLines(formData.warnings),
+		}
+
+		if (drugId) {
+			updateMutation.mutate({ ...data, id: drugId })
+		} else {
+			createMutation.mutate({ ...data, isActive: true })
+		}
+	}
+
+	return (
+		<div className='space-y-6'>
+			<div className='grid gap-6 sm:grid-cols-2'>
+				<div>
+					<Label htmlFor='name'>Name *</Label>
+					<Input
+						className='mt-2'
+						id='name'
+						onChange={e => handleChange('name', e.target.value)}
+						placeholder='Gentamicin'
+						value={formData.name}
+					/>
+				</div>
+				<div>
+					<Label htmlFor='genericName'>Generic Name</Label>
+					<Input
+						className='mt-2'
+						id='genericName'
+						onChange={e => handleChange('genericName', e.target.value)}
+						value={formData.genericName}
+					/>
+				</div>
+			</div>
+
+			<div className='grid gap-6 sm:grid-cols-2'>
+				<div>
+					<Label htmlFor='drugClass'>Drug Class</Label>
+					<Input
+						className='mt-2'
+						id='drugClass'
+						onChange={e => handleChange('drugClass', e.target.value)}
+						placeholder='Aminoglycoside'
+						value={formData.drugClass}
+					/>
+				</div>
+				<div>
+					<Label htmlFor='manufacturer'>Manufacturer</Label>
+					<Input
+						className='mt-2'
+						id='manufacturer'
+						onChange={e => handleChange('manufacturer', e.target.value)}
+						value={formData.manufacturer}
+					/>
+				</div>
+			</div>
+
+			<div>
+				<Label htmlFor='brandNames'>Brand Names</Label>
+				<Input
+					className='mt-2'
+					id='brandNames'
+					onChange={e => handleChange('brandNames', e.target.value)}
+					placeholder='Comma separated'
+					value={formData.brandNames}
+				/>
+			</div>
+
+			<div>
+				<Label htmlFor='description'>Description</Label>
+				<Textarea
+					className='mt-2'
+					id='description'
+					onChange={e => handleChange('description', e.target.value)}
+					rows={2}
+					value={formData.description}
+				/>
+			</div>
+
+			<div className='grid gap-6 sm:grid-cols-2'>
+				{(
+					[
+						['indications', 'Indications'],
+						['contraindications', 'Contraindications'],
+						['sideEffects', 'Side Effects'],
+						['warnings', 'Warnings'],
+					] as const
+				).map(([field, label]) => (
+					<div key={field}>
+						<Label htmlFor={field}>{label}</Label>
+						<Textarea
+							className='mt-2'
+							id={field}
+							onChange={e => handleChange(field, e.target.value)}
+							placeholder='One per line'
+							rows={3}
+							value={formData[field]}
+						/>
+					</div>
+				))}
+			</div>
+
+			<div className='grid gap-6 sm:grid-cols-3'>
+				<div className='flex items-center gap-3'>
+					<Switch
+						checked={isControlled}
+						id='isControlled'
+						onCheckedChange={setIsControlled}
+					/>
+					<Label htmlFor='isControlled'>Controlled substance</Label>
+				</div>
+				<div>
+					<Label htmlFor='controlledSchedule'>Schedule</Label>
+					<Select
+						disabled={!isControlled}
+						onValueChange={value => handleChange('controlledSchedule', value)}
+						value={formData.controlledSchedule}
+					>
+						<SelectTrigger
+							className='mt-2'
+							id='controlledSchedule'
+						>
+							<SelectValue placeholder='Select schedule' />
+						</SelectTrigger>
+						<SelectContent>
+							{['I', 'II', 'III', 'IV', 'V'].map(schedule => (
+								<SelectItem
+									key={schedule}
+									value={schedule}
+								>
+									Schedule {schedule}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				<div>
+					<Label htmlFor='pregnancyCategory'>Pregnancy Category</Label>
+					<Select
+						onValueChange={value => handleChange('pregnancyCategory', value)}
+						value={formData.pregnancyCategory}
+					>
+						<SelectTrigger
+							className='mt-2'
+							id='pregnancyCategory'
+						>
+							<SelectValue placeholder='Select category' />
+						</SelectTrigger>
+						<SelectContent>
+							{['A', 'B', 'C', 'D', 'X', 'N'].map(category => (
+								<SelectItem
+									key={category}
+									value={category}
+								>
+									{category}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+			</div>
+
+			<div className='flex items-center gap-3'>
+				<Switch
+					checked={requiresPriorAuth}
+					id='requiresPriorAuth'
+					onCheckedChange={setRequiresPriorAuth}
+				/>
+				<Label htmlFor='requiresPriorAuth'>Requires prior authorisation</Label>
+			</div>
+
+			<div className='flex justify-end gap-4'>
+				{onCancel && (
+					<Button
+						disabled={isPending}
+						onClick={onCancel}
+						type='button'
+						variant='outline'
+					>
+						Cancel
+					</Button>
+				)}
+				<LoadingButton
+					loading={isPending}
+					onClick={onSubmit}
+				>
+					{drugId ? 'Update Drug' : 'Add Drug'}
+				</LoadingButton>
+			</div>
+		</div>
+	)
+}
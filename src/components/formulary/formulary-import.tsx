@@ -0,0 +1,295 @@
+// src/components/formulary/formulary-import.tsx
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Download, Upload } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { LoadingButton } from '@/components/ui/loading-button'
+import { Switch } from '@/components/ui/switch'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { useTRPC } from '@/trpc/client'
+
+const ACTION_STYLES: Record<string, string> = {
+	CREATE: 'bg-green-100 text-green-800',
+	KEEP: 'bg-gray-100 text-gray-800',
+	RETIRE: 'bg-red-100 text-red-800',
+	UPDATE: 'bg-yellow-100 text-yellow-800',
+}
+
+function formatValue(value: unknown): string {
+	return value === null || value === undefined ? 'N/A' : String(value)
+}
+
+/**
+ * nicu_data.json upload: dry run first, review the diff, then apply
+ */
+export function FormularyImport() {
+	const trpc = useTRPC()
+	const queryClient = useQueryClient()
+	const [payload, setPayload] = useState<Record<string, unknown[]> | null>(null)
+	const [fileName, setFileName] = useState('')
+	const [retireMissing, setRetireMissing] = useState(false)
+
+	const importMutation = useMutation(
+		trpc.formulary.importNicuData.mutationOptions({
+			onError: error => {
+				toast.error(error.message)
+			},
+			onSuccess: result => {
+				if (result.data.applied) {
+					toast.success('Formulary import applied')
+					queryClient.invalidateQueries({
+						queryKey: trpc.formulary.pathKey(),
+					})
+					setPayload(null)
+				}
+			},
+		})
+	)
+
+	const [isExporting, setIsExporting] = useState(false)
+
+	const onExport = async () => {
+		setIsExporting(true)
+		try {
+			const result = await queryClient.fetchQuery(
+				trpc.formulary.exportNicuData.queryOptions({ includeRetired: false })
+			)
+			const url = URL.createObjectURL(
+				new Blob([result.data], { type: result.mimeType })
+			)
+			const link = document.createElement('a')
+			link.href = url
+			link.download = result.fileName
+			link.click()
+			URL.revokeObjectURL(url)
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Export failed')
+		} finally {
+			setIsExporting(false)
+		}
+	}
+
+	const runImport = (data: Record<string, unknown[]>, dryRun: boolean) => {
+		importMutation.mutate({
+			// Rows are validated by the import schema on the server
+			data: data as never,
+			dryRun,
+			retireMissing,
+		})
+	}
+
+	const onFile = async (file: File | undefined) => {
+		if (!file) return
+		try {
+			const data = JSON.parse(await file.text()) as Record<string, unknown[]>
+			setFileName(file.name)
+			setPayload(data)
+			runImport(data, true)
+		} catch {
+			toast.error('The file is not valid JSON')
+		}
+	}
+
+	const diff = importMutation.data?.data
+	const changedDrugs = diff?.drugs.filter(d => d.status !== 'UNCHANGED') ?? []
+
+	return (
+		<Card>
+			<CardHeader className='flex flex-row items-start justify-between gap-4'>
+				<div>
+					<CardTitle>Import / Export</CardTitle>
+					<CardDescription>
+						nicu_data.json format - "N/A" marks a missing value
+					</CardDescription>
+				</div>
+				<Button
+					disabled={isExporting}
+					onClick={onExport}
+					variant='outline'
+				>
+					<Download className='mr-2 h-4 w-4' />
+					Export
+				</Button>
+			</CardHeader>
+			<CardContent className='space-y-6'>
+				<div className='flex flex-col gap-4 sm:flex-row sm:items-end'>
+					<div className='flex-1'>
+						<Label htmlFor='nicuFile'>NICU data file</Label>
+						<Input
+							accept='application/json,.json'
+							className='mt-2'
+							id='nicuFile'
+							onChange={e => onFile(e.target.files?.[0])}
+							type='file'
+						/>
+					</div>
+					<div className='flex items-center gap-3 pb-2'>
+						<Switch
+							checked={retireMissing}
+							id='retireMissing'
+							onCheckedChange={value => {
+								setRetireMissing(value)
+								if (payload) {
+									importMutation.reset()
+								}
+							}}
+						/>
+						<Label htmlFor='retireMissing'>
+							Retire guidelines missing from the file
+						</Label>
+					</div>
+				</div>
+
+				{diff && !diff.applied && (
+					<div className='space-y-4'>
+						<div className='flex flex-wrap gap-2 text-sm'>
+							<Badge variant='outline'>{fileName}</Badge>
+							<Badge variant='secondary'>
+								{diff.summary.drugsCreated} new drugs
+							</Badge>
+							<Badge variant='secondary'>
+								{diff.summary.guidelinesCreated} new guidelines
+							</Badge>
+							<Badge variant='secondary'>
+								{diff.summary.guidelinesUpdated} updated
+							</Badge>
+							<Badge variant='secondary'>
+								{diff.summary.guidelinesRetired} retired
+							</Badge>
+							<Badge variant='outline'>
+								{diff.summary.guidelinesUnchanged} unchanged
+							</Badge>
+							{diff.errors.length > 0 && (
+								<Badge variant='destructive'>
+									{diff.errors.length} invalid rows
+								</Badge>
+							)}
+						</div>
+
+						{diff.errors.length > 0 && (
+							<ul className='space-y-1 rounded-md border border-destructive/40 p-3 text-destructive text-sm'>
+								{diff.errors.map(error => (
+									<li key={`${error.drugName}-${error.row}`}>
+										{error.drugName} row {error.row}:{' '}
+										{error.messages.join('; ')}
+									</li>
+								))}
+							</ul>
+						)}
+
+						{changedDrugs.length > 0 ? (
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Drug</TableHead>
+										<TableHead>Guideline</TableHead>
+										<TableHead>Change</TableHead>
+										<TableHead>Details</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{changedDrugs.flatMap(drug =>
+										drug.guidelines
+											.filter(g => g.action !== 'UNCHANGED')
+											.map((g, index) => (
+												<TableRow
+													key={`${drug.name}-${g.guidelineId ?? index}-${g.action}`}
+												>
+													<TableCell className='font-medium'>
+														{drug.name}
+														{drug.status === 'NEW' && (
+															<span className='ml-2 text-muted-foreground text-xs'>
+																new
+															</span>
+														)}
+													</TableCell>
+													<TableCell>
+														{g.route} - {g.clinicalIndication}
+													</TableCell>
+													<TableCell>
+														<span
+															className={`inline-flex rounded-full px-2.5 py-0.5 font-semibold text-xs ${ACTION_STYLES[g.action] ?? ''}`}
+														>
+															{g.action.toLowerCase()}
+														</span>
+													</TableCell>
+													<TableCell className='text-muted-foreground text-xs'>
+														{g.changes
+															?.map(
+																c =>
+																	`${c.field}: ${formatValue(c.from)} -> ${formatValue(c.to)}`
+															)
+															.join(', ')}
+													</TableCell>
+												</TableRow>
+											))
+									)}
+								</TableBody>
+							</Table>
+						) : (
+							<p className='text-muted-foreground text-sm'>
+								The file matches the formulary - nothing to apply.
+							</p>
+						)}
+
+						<div className='flex justify-end gap-4'>
+							<Button
+								disabled={importMutation.isPending}
+								onClick={() => {
+									setPayload(null)
+									importMutation.reset()
+								}}
+								variant='outline'
+							>
+								Discard
+							</Button>
+							<LoadingButton
+								disabled={
+									!payload ||
+									diff.errors.length > 0 ||
+									changedDrugs.length === 0
+								}
+								loading={importMutation.isPending}
+								onClick={() => payload && runImport(payload, false)}
+							>
+								<Upload className='mr-2 h-4 w-4' />
+								Apply Import
+							</LoadingButton>
+						</div>
+					</div>
+				)}
+
+				{payload && !diff && (
+					<LoadingButton
+						loading={importMutation.isPending}
+						onClick={() => runImport(payload, true)}
+						variant='outline'
+					>
+						Preview changes
+					</LoadingButton>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
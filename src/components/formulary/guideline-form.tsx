@@ -0,0 +1,272 @@
+// src/components/formulary/guideline-form.tsx
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { LoadingButton } from '@/components/ui/loading-button'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { useTRPC } from '@/trpc/client'
+
+const ROUTES = [
+	'ORAL',
+	'INTRAVENOUS',
+	'INTRAMUSCULAR',
+	'SUBCUTANEOUS',
+	'TOPICAL',
+	'INHALATION',
+	'RECTAL',
+] as const
+
+// Seeded guidelines store the short codes from nicu_data.json
+const ROUTE_CODES: Record<string, (typeof ROUTES)[number]> = {
+	IM: 'INTRAMUSCULAR',
+	INHALED: 'INHALATION',
+	IV: 'INTRAVENOUS',
+	PO: 'ORAL',
+	SC: 'SUBCUTANEOUS',
+}
+
+const NUMBER_FIELDS = [
+	['minDosePerKg', 'Min dose / kg'],
+	['maxDosePerKg', 'Max dose / kg'],
+	['maxDosePer24h', 'Max per 24h'],
+	['gestationalAgeWeeksMin', 'GA min (weeks)'],
+	['gestationalAgeWeeksMax', 'GA max (weeks)'],
+	['postNatalAgeDaysMin', 'PNA min (days)'],
+	['postNatalAgeDaysMax', 'PNA max (days)'],
+	['stockConcentrationMgMl', 'Stock (mg/mL)'],
+	['finalConcentrationMgMl', 'Final (mg/mL)'],
+	['minInfusionTimeMin', 'Min infusion (min)'],
+] as const
+
+type NumberField = (typeof NUMBER_FIELDS)[number][0]
+
+interface GuidelineFormProps {
+	drugId: string
+	guideline?: {
+		id: string
+		route: string
+		clinicalIndication: string
+		doseUnit?: string | null
+		frequencyDays?: string | null
+		compatibilityDiluent?: string | null
+	} & Partial<Record<NumberField, number | null>>
+	onCancel?: () => void
+	onSaved?: () => void
+}
+
+function toNumber(value: string): number | undefined {
+	return value.trim() === '' ? undefined : Number(value)
+}
+
+export function GuidelineForm({
+	drugId,
+	guideline,
+	onCancel,
+	onSaved,
+}: GuidelineFormProps) {
+	const trpc = useTRPC()
+	const queryClient = useQueryClient()
+
+	const [route, setRoute] = useState<string>(
+		guideline
+			? (ROUTE_CODES[guideline.route.toUpperCase()] ??
+					guideline.route.toUpperCase())
+			: 'INTRAVENOUS'
+	)
+	const [text, setText] = useState({
+		clinicalIndication: guideline?.clinicalIndication ?? '',
+		compatibilityDiluent: guideline?.compatibilityDiluent ?? '',
+		doseUnit: guideline?.doseUnit ?? 'mg/kg/dose',
+		frequencyDays: guideline?.frequencyDays ?? '',
+	})
+	const [numbers, setNumbers] = useState<Record<NumberField, string>>(
+		() =>
+			Object.fromEntries(
+				NUMBER_FIELDS.map(([field]) => [
+					field,
+					guideline?.[field]?.toString() ?? '',
+				])
+			) as Record<NumberField, string>
+	)
+
+	const onSuccess = () => {
+		toast.success(guideline ? 'Guideline updated' : 'Guideline added')
+		queryClient.invalidateQueries({ queryKey: trpc.formulary.pathKey() })
+		onSaved?.()
+	}
+
+	const createMutation = useMutation(
+		trpc.formulary.createGuideline.mutationOptions({
+			onError: error => {
+				toast.error(error.message)
+			},
+			onSuccess,
+		})
+	)
+
+	const updateMutation = useMutation(
+		trpc.formulary.updateGuideline.mutationOptions({
+			onError: error => {
+				toast.error(error.message)
+			},
+			onSuccess,
+		})
+	)
+
+	const isPending = createMutation.isPending || updateMutation.isPending
+
+	const onSubmit = () => {
+		const data = {
+			clinicalIndication: text.clinicalIndication.trim(),
+			compatibilityDiluent: text.compatibilityDiluent || undefined,
+			doseUnit: text.doseUnit || undefined,
+			frequencyDays: text.frequencyDays || undefined,
+			route: route as (typeof ROUTES)[number],
+			...Object.fromEntries(
+				NUMBER_FIELDS.map(([field]) => [field, toNumber(numbers[field])])
+			),
+		}
+
+		if (guideline) {
+			updateMutation.mutate({ ...data, id: guideline.id })
+		} else {
+			createMutation.mutate({ ...data, drugId })
+		}
+	}
+
+	return (
+		<div className='space-y-6'>
+			<div className='grid gap-6 sm:grid-cols-2'>
+				<div>
+					<Label htmlFor='route'>Route *</Label>
+					<Select
+						onValueChange={setRoute}
+						value={route}
+					>
+						<SelectTrigger
+							className='mt-2'
+							id='route'
+						>
+							<SelectValue placeholder='Select route' />
+						</SelectTrigger>
+						<SelectContent>
+							{ROUTES.map(value => (
+								<SelectItem
+									key={value}
+									value={value}
+								>
+									{value.toLowerCase()}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				<div>
+					<Label htmlFor='clinicalIndication'>Clinical Indication *</Label>
+					<Input
+						className='mt-2'
+						id='clinicalIndication'
+						onChange={e =>
+							setText(prev => ({
+								...prev,
+								clinicalIndication: e.target.value,
+							}))
+						}
+						value={text.clinicalIndication}
+					/>
+				</div>
+			</div>
+
+			<div className='grid gap-6 sm:grid-cols-3'>
+				<div>
+					<Label htmlFor='doseUnit'>Dose Unit</Label>
+					<Input
+						className='mt-2'
+						id='doseUnit'
+						onChange={e =>
+							setText(prev => ({ ...prev, doseUnit: e.target.value }))
+						}
+						placeholder='mg/kg/dose'
+						value={text.doseUnit}
+					/>
+				</div>
+				<div>
+					<Label htmlFor='frequencyDays'>Frequency</Label>
+					<Input
+						className='mt-2'
+						id='frequencyDays'
+						onChange={e =>
+							setText(prev => ({ ...prev, frequencyDays: e.target.value }))
+						}
+						placeholder='Q12H'
+						value={text.frequencyDays}
+					/>
+				</div>
+				<div>
+					<Label htmlFor='compatibilityDiluent'>Diluent</Label>
+					<Input
+						className='mt-2'
+						id='compatibilityDiluent'
+						onChange={e =>
+							setText(prev => ({
+								...prev,
+								compatibilityDiluent: e.target.value,
+							}))
+						}
+						placeholder='NS, D5W'
+						value={text.compatibilityDiluent}
+					/>
+				</div>
+			</div>
+
+			<div className='grid gap-4 sm:grid-cols-5'>
+				{NUMBER_FIELDS.map(([field, label]) => (
+					<div key={field}>
+						<Label htmlFor={field}>{label}</Label>
+						<Input
+							className='mt-2'
+							id={field}
+							inputMode='decimal'
+							onChange={e =>
+								setNumbers(prev => ({ ...prev, [field]: e.target.value }))
+							}
+							type='number'
+							value={numbers[field]}
+						/>
+					</div>
+				))}
+			</div>
+
+			<div className='flex justify-end gap-4'>
+				{onCancel && (
+					<Button
+						disabled={isPending}
+						onClick={onCancel}
+						type='button'
+						variant='outline'
+					>
+						Cancel
+					</Button>
+				)}
+				<LoadingButton
+					loading={isPending}
+					onClick={onSubmit}
+				>
+					{guideline ? 'Update Guideline' : 'Add Guideline'}
+				</LoadingButton>
+			</div>
+		</div>
+	)
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import {
+	BookOpen,
 	Calendar,
 	FileText,
 	LayoutDashboard,
@@ -9,6 +10,7 @@ import {
 	Pill,
 	Settings,
 	TrendingUp,
+	TriangleAlert,
 	Users,
 } from 'lucide-react'
 import Link from 'next/link'
@@ -40,11 +42,21 @@ const navItems = [
 		href: '/dashboard/growth-charts',
 		icon: TrendingUp,
 	},
+	{
+		label: 'Growth Concerns',
+		href: '/dashboard/growth',
+		icon: TriangleAlert,
+	},
 	{
 		label: 'Prescriptions',
 		href: '/dashboard/prescriptions',
 		icon: Pill,
 	},
+	{
+		label: 'Formulary',
+		href: '/dashboard/formulary',
+		icon: BookOpen,
+	},
 	{
 		label: 'Appointments',
 		href: '/dashboard/appointments',
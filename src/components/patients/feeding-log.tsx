@@ -0,0 +1,269 @@
+// src/components/patients/feeding-log.tsx
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { AlertTriangle, Loader2, Plus, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { useTRPC } from '@/trpc/client'
+
+type FeedingType = 'BREAST' | 'FORMULA' | 'MIXED'
+type BreastSide = 'LEFT' | 'RIGHT' | 'BOTH'
+
+const TYPE_LABELS: Record<FeedingType, string> = {
+	BREAST: 'Breast',
+	FORMULA: 'Formula',
+	MIXED: 'Mixed',
+}
+
+interface FeedingLogProps {
+	patientId: string
+	/** FEEDING_SESSION appointment new entries are logged against */
+	appointmentId?: string
+}
+
+export function FeedingLog({ appointmentId, patientId }: FeedingLogProps) {
+	const trpc = useTRPC()
+	const queryClient = useQueryClient()
+	const [type, setType] = useState<FeedingType>('BREAST')
+	const [side, setSide] = useState<BreastSide>('LEFT')
+	const [amount, setAmount] = useState('')
+	const [duration, setDuration] = useState('')
+
+	const { data: summary } = useQuery(
+		trpc.feeding.getSummary.queryOptions({ days: 7, patientId })
+	)
+	const { data: logs } = useQuery(
+		trpc.feeding.getLogs.queryOptions({ limit: 10, patientId })
+	)
+
+	const refresh = () =>
+		queryClient.invalidateQueries({ queryKey: trpc.feeding.pathKey() })
+
+	const createMutation = useMutation(
+		trpc.feeding.create.mutationOptions({
+			onError: error => {
+				toast.error(error.message)
+			},
+			onSuccess: result => {
+				if (result.data.lowIntake) {
+					toast.warning('Intake has been low - the doctor has been alerted')
+				} else {
+					toast.success('Feed logged')
+				}
+				setAmount('')
+				setDuration('')
+				refresh()
+			},
+		})
+	)
+
+	const deleteMutation = useMutation(
+		trpc.feeding.delete.mutationOptions({
+			onError: error => {
+				toast.error(error.message)
+			},
+			onSuccess: () => {
+				toast.success('Feed removed')
+				refresh()
+			},
+		})
+	)
+
+	const addFeed = () =>
+		createMutation.mutate({
+			amount: amount ? Number(amount) : null,
+			appointmentId,
+			breast: type === 'FORMULA' ? null : side,
+			date: new Date(),
+			duration: duration ? Number(duration) : null,
+			patientId,
+			type,
+		})
+
+	const today = summary?.days.find(
+		day => day.day === format(new Date(), 'yyyy-MM-dd')
+	)
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Feeding Log</CardTitle>
+				<CardDescription>
+					{summary?.minimum
+						? `Minimum ${summary.minimum.mlPerKgDay} mL/kg/day, ${summary.minimum.feedsPerDay} feeds a day`
+						: 'Feeds, volumes and time at the breast'}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				{summary?.alerts.map(alert => (
+					<div
+						className='flex items-start gap-2 rounded-md border border-destructive/50 p-2 text-destructive text-sm'
+						key={alert.id}
+					>
+						<AlertTriangle className='mt-0.5 h-4 w-4 shrink-0' />
+						<span>{alert.message}</span>
+					</div>
+				))}
+
+				<div className='grid grid-cols-3 gap-2 text-center text-sm'>
+					<div>
+						<p className='font-semibold text-lg'>{today?.feeds ?? 0}</p>
+						<p className='text-muted-foreground'>Feeds today</p>
+					</div>
+					<div>
+						<p className='font-semibold text-lg'>{today?.totalMl ?? 0}</p>
+						<p className='text-muted-foreground'>mL today</p>
+					</div>
+					<div>
+						<p className='font-semibold text-lg'>{today?.mlPerKgDay ?? '-'}</p>
+						<p className='text-muted-foreground'>mL/kg/day</p>
+					</div>
+				</div>
+
+				{today && (
+					<p className='text-muted-foreground text-xs'>
+						Breast: L {today.breastMinutes.LEFT} min, R{' '}
+						{today.breastMinutes.RIGHT} min, both {today.breastMinutes.BOTH} min
+					</p>
+				)}
+
+				{summary && summary.days.length > 1 && (
+					<div className='space-y-1 text-xs'>
+						{summary.days.slice(1).map(day => (
+							<div
+								className='flex justify-between'
+								key={day.day}
+							>
+								<span>
+									{format(new Date(`${day.day}T00:00:00`), 'EEE d MMM')}
+								</span>
+								<span className='text-muted-foreground'>
+									{day.feeds} feeds, {day.totalMl} mL
+									{day.mlPerKgDay !== null && `, ${day.mlPerKgDay} mL/kg`}
+								</span>
+							</div>
+						))}
+					</div>
+				)}
+
+				<div className='space-y-2'>
+					<div className='flex gap-2'>
+						<Select
+							onValueChange={value => setType(value as FeedingType)}
+							value={type}
+						>
+							<SelectTrigger className='flex-1'>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(TYPE_LABELS).map(([value, label]) => (
+									<SelectItem
+										key={value}
+										value={value}
+									>
+										{label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						{type !== 'FORMULA' && (
+							<Select
+								onValueChange={value => setSide(value as BreastSide)}
+								value={side}
+							>
+								<SelectTrigger className='flex-1'>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value='LEFT'>Left</SelectItem>
+									<SelectItem value='RIGHT'>Right</SelectItem>
+									<SelectItem value='BOTH'>Both</SelectItem>
+								</SelectContent>
+							</Select>
+						)}
+					</div>
+					<div className='flex gap-2'>
+						<Input
+							min={0}
+							onChange={event => setAmount(event.target.value)}
+							placeholder='mL'
+							type='number'
+							value={amount}
+						/>
+						{type !== 'FORMULA' && (
+							<Input
+								min={1}
+								onChange={event => setDuration(event.target.value)}
+								placeholder='Minutes'
+								type='number'
+								value={duration}
+							/>
+						)}
+						<Button
+							disabled={createMutation.isPending}
+							onClick={addFeed}
+							size='icon'
+						>
+							{createMutation.isPending ? (
+								<Loader2 className='h-4 w-4 animate-spin' />
+							) : (
+								<Plus className='h-4 w-4' />
+							)}
+						</Button>
+					</div>
+				</div>
+
+				{logs && logs.length > 0 && (
+					<div className='space-y-2'>
+						{logs.map(log => (
+							<div
+								className='flex items-center justify-between text-sm'
+								key={log.id}
+							>
+								<span>{format(new Date(log.date), 'MMM d, HH:mm')}</span>
+								<span className='flex items-center gap-2 text-muted-foreground'>
+									<Badge variant='outline'>{TYPE_LABELS[log.type]}</Badge>
+									{[
+										log.amount ? `${log.amount} mL` : null,
+										log.duration ? `${log.duration} min` : null,
+										log.breast?.toLowerCase(),
+									]
+										.filter(Boolean)
+										.join(', ')}
+									<Button
+										disabled={deleteMutation.isPending}
+										onClick={() => deleteMutation.mutate({ id: log.id })}
+										size='icon'
+										variant='ghost'
+									>
+										<Trash2 className='h-4 w-4' />
+									</Button>
+								</span>
+							</div>
+						))}
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
@@ -0,0 +1,155 @@
+// src/components/patients/growth-chart-export.tsx
+'use client'
+
+import { useMutation } from '@tanstack/react-query'
+import { Download, Loader2, Paperclip } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { useTRPC } from '@/trpc/client'
+
+type ChartType = 'WFA' | 'HFA' | 'HcFA' | 'BFA' | 'ACFA'
+type ChartFormat = 'PARENT' | 'CLINICIAN'
+type FileType = 'PDF' | 'SVG'
+
+const CHART_OPTIONS: { value: ChartType; label: string }[] = [
+	{ label: 'Weight-for-age', value: 'WFA' },
+	{ label: 'Length/height-for-age', value: 'HFA' },
+	{ label: 'Head circumference-for-age', value: 'HcFA' },
+	{ label: 'BMI-for-age', value: 'BFA' },
+	{ label: 'Arm circumference-for-age', value: 'ACFA' },
+]
+
+function downloadBase64(data: string, fileName: string, mimeType: string) {
+	const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0))
+	const url = URL.createObjectURL(new Blob([bytes], { type: mimeType }))
+	const link = document.createElement('a')
+	link.href = url
+	link.download = fileName
+	link.click()
+	URL.revokeObjectURL(url)
+}
+
+interface GrowthChartExportProps {
+	patientId: string
+}
+
+export function GrowthChartExport({ patientId }: GrowthChartExportProps) {
+	const trpc = useTRPC()
+	const [chartType, setChartType] = useState<ChartType>('WFA')
+	const [format, setFormat] = useState<ChartFormat>('PARENT')
+	const [fileType, setFileType] = useState<FileType>('PDF')
+
+	const exportMutation = useMutation(
+		trpc.growth.exportChart.mutationOptions({
+			onError: error => {
+				toast.error(error.message)
+			},
+			onSuccess: result => {
+				const { attachment, data, fileName, mimeType } = result.data
+				if (attachment) {
+					toast.success('Growth chart saved to patient files for referral')
+				} else {
+					downloadBase64(data, fileName, mimeType)
+				}
+			},
+		})
+	)
+
+	const exportChart = (attach: boolean) =>
+		exportMutation.mutate({ attach, chartType, fileType, format, patientId })
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Growth Chart</CardTitle>
+				<CardDescription>
+					Percentile chart with measurements, for parents or referrals
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-2'>
+				<Select
+					onValueChange={value => setChartType(value as ChartType)}
+					value={chartType}
+				>
+					<SelectTrigger className='w-full'>
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{CHART_OPTIONS.map(option => (
+							<SelectItem
+								key={option.value}
+								value={option.value}
+							>
+								{option.label}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<div className='flex gap-2'>
+					<Select
+						onValueChange={value => setFormat(value as ChartFormat)}
+						value={format}
+					>
+						<SelectTrigger className='flex-1'>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value='PARENT'>Parent</SelectItem>
+							<SelectItem value='CLINICIAN'>Clinician</SelectItem>
+						</SelectContent>
+					</Select>
+					<Select
+						onValueChange={value => setFileType(value as FileType)}
+						value={fileType}
+					>
+						<SelectTrigger className='w-24'>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value='PDF'>PDF</SelectItem>
+							<SelectItem value='SVG'>SVG</SelectItem>
+						</SelectContent>
+					</Select>
+				</div>
+				<Button
+					className='w-full justify-start'
+					disabled={exportMutation.isPending}
+					onClick={() => exportChart(false)}
+					variant='outline'
+				>
+					{exportMutation.isPending ? (
+						<Loader2 className='mr-2 h-4 w-4 animate-spin' />
+					) : (
+						<Download className='mr-2 h-4 w-4' />
+					)}
+					Download
+				</Button>
+				<Button
+					className='w-full justify-start'
+					disabled={exportMutation.isPending}
+					onClick={() => exportChart(true)}
+					variant='outline'
+				>
+					<Paperclip className='mr-2 h-4 w-4' />
+					Save for Referral
+				</Button>
+			</CardContent>
+		</Card>
+	)
+}
@@ -37,6 +37,9 @@ interface PatientFormProps {
 		medicalConditions?: string | null
 		medicalHistory?: string | null
 		bloodGroup?: string | null
+		gestationalAgeWeeks?: number | null
+		motherHeightCm?: number | null
+		fatherHeightCm?: number | null
 	}
 }
 
@@ -65,6 +68,9 @@ export function PatientForm({
 		medicalConditions: defaultValues?.medicalConditions ?? '',
 		medicalHistory: defaultValues?.medicalHistory ?? '',
 		bloodGroup: defaultValues?.bloodGroup ?? '',
+		gestationalAgeWeeks: defaultValues?.gestationalAgeWeeks?.toString() ?? '',
+		motherHeightCm: defaultValues?.motherHeightCm?.toString() ?? '',
+		fatherHeightCm: defaultValues?.fatherHeightCm?.toString() ?? '',
 	})
 
 	const createMutation = useMutation(
@@ -116,6 +122,15 @@ export function PatientForm({
 			medicalConditions: formData.medicalConditions || null,
 			medicalHistory: formData.medicalHistory || null,
 			bloodGroup: formData.bloodGroup || null,
+			gestationalAgeWeeks: formData.gestationalAgeWeeks
+				? Number(formData.gestationalAgeWeeks)
+				: null,
+			motherHeightCm: formData.motherHeightCm
+				? Number(formData.motherHeightCm)
+				: null,
+			fatherHeightCm: formData.fatherHeightCm
+				? Number(formData.fatherHeightCm)
+				: null,
 		}
 
 		if (patientId) {
@@ -244,29 +259,78 @@ export function PatientForm({
 				</div>
 			</div>
 
-			<div>
-				<Label htmlFor='bloodGroup'>Blood Group</Label>
-				<Select
-					onValueChange={value => handleChange('bloodGroup', value)}
-					value={formData.bloodGroup}
-				>
-					<SelectTrigger
-						className='mt-2'
-						id='bloodGroup'
+			<div className='grid gap-6 sm:grid-cols-2'>
+				<div>
+					<Label htmlFor='bloodGroup'>Blood Group</Label>
+					<Select
+						onValueChange={value => handleChange('bloodGroup', value)}
+						value={formData.bloodGroup}
 					>
-						<SelectValue placeholder='Select blood group' />
-					</SelectTrigger>
-					<SelectContent>
-						<SelectItem value='A+'>A+</SelectItem>
-						<SelectItem value='A-'>A-</SelectItem>
-						<SelectItem value='B+'>B+</SelectItem>
-						<SelectItem value='B-'>B-</SelectItem>
-						<SelectItem value='AB+'>AB+</SelectItem>
-						<SelectItem value='AB-'>AB-</SelectItem>
-						<SelectItem value='O+'>O+</SelectItem>
-						<SelectItem value='O-'>O-</SelectItem>
-					</SelectContent>
-				</Select>
+						<SelectTrigger
+							className='mt-2'
+							id='bloodGroup'
+						>
+							<SelectValue placeholder='Select blood group' />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value='A+'>A+</SelectItem>
+							<SelectItem value='A-'>A-</SelectItem>
+							<SelectItem value='B+'>B+</SelectItem>
+							<SelectItem value='B-'>B-</SelectItem>
+							<SelectItem value='AB+'>AB+</SelectItem>
+							<SelectItem value='AB-'>AB-</SelectItem>
+							<SelectItem value='O+'>O+</SelectItem>
+							<SelectItem value='O-'>O-</SelectItem>
+						</SelectContent>
+					</Select>
+				</div>
+				<div>
+					<Label htmlFor='gestationalAgeWeeks'>
+						Gestational Age at Birth (weeks)
+					</Label>
+					<Input
+						className='mt-2'
+						id='gestationalAgeWeeks'
+						max={44}
+						min={22}
+						onChange={e => handleChange('gestationalAgeWeeks', e.target.value)}
+						placeholder='e.g. 32.5'
+						step={0.1}
+						type='number'
+						value={formData.gestationalAgeWeeks}
+					/>
+				</div>
+			</div>
+
+			<div className='grid gap-6 sm:grid-cols-2'>
+				<div>
+					<Label htmlFor='motherHeightCm'>Mother's Height (cm)</Label>
+					<Input
+						className='mt-2'
+						id='motherHeightCm'
+						max={230}
+						min={120}
+						onChange={e => handleChange('motherHeightCm', e.target.value)}
+						placeholder='e.g. 162'
+						step={0.1}
+						type='number'
+						value={formData.motherHeightCm}
+					/>
+				</div>
+				<div>
+					<Label htmlFor='fatherHeightCm'>Father's Height (cm)</Label>
+					<Input
+						className='mt-2'
+						id='fatherHeightCm'
+						max={230}
+						min={120}
+						onChange={e => handleChange('fatherHeightCm', e.target.value)}
+						placeholder='e.g. 175'
+						step={0.1}
+						type='number'
+						value={formData.fatherHeightCm}
+					/>
+				</div>
 			</div>
 
 			<div>
@@ -274,6 +274,18 @@ export const cacheHelpers = {
 		},
 	},
 
+	// ==================== INVENTORY ====================
+	inventory: {
+		invalidate(id: string, clinicId: string, vaccineName: string) {
+			revalidateWithProfile(CACHE_TAGS.inventory.byId(id), 'seconds')
+			revalidateWithProfile(
+				CACHE_TAGS.inventory.byVaccine(clinicId, vaccineName),
+				'seconds'
+			)
+			revalidateWithProfile(CACHE_TAGS.inventory.byClinic(clinicId), 'minutes')
+		},
+	},
+
 	// ==================== MEDICAL ====================
 	medical: {
 		diagnosis: {
@@ -327,6 +339,10 @@ export const cacheHelpers = {
 					CACHE_TAGS.growth.overviewByClinic(clinicId),
 					'minutes'
 				)
+				revalidateWithProfile(
+					CACHE_TAGS.growth.concernsByClinic(clinicId),
+					'minutes'
+				)
 				revalidateWithProfile(CACHE_TAGS.clinic.dashboard(clinicId), 'minutes')
 			},
 			invalidateGrowthRecord(id: string, patientId: string, clinicId: string) {
@@ -449,6 +465,12 @@ export const cacheHelpers = {
 					'seconds'
 				)
 			},
+			invalidateMedicalRecord(medicalRecordId: string) {
+				revalidateWithProfile(
+					CACHE_TAGS.medical.prescription.byMedicalRecord(medicalRecordId),
+					'seconds'
+				)
+			},
 		},
 		record: {
 			invalidate(id: string, patientId: string) {
@@ -503,6 +525,11 @@ export const cacheHelpers = {
 		invalidateAll() {
 			revalidateWithProfile(CACHE_TAGS.patient.all, 'hours')
 		},
+		invalidateAllergies(patientId: string, clinicId: string) {
+			revalidateWithProfile(CACHE_TAGS.patient.allergies(patientId), 'seconds')
+			revalidateWithProfile(CACHE_TAGS.patient.byId(patientId), 'seconds')
+			revalidateWithProfile(CACHE_TAGS.patient.byClinic(clinicId), 'minutes')
+		},
 		invalidateGrowth: (patientId: string, clinicId: string) => {
 			revalidateWithProfile(CACHE_TAGS.growth.byPatient(patientId), 'minutes')
 			revalidateWithProfile(CACHE_TAGS.patient.growth(patientId), 'minutes')
@@ -706,6 +733,17 @@ export const cacheHelpers = {
 				'minutes'
 			)
 		},
+		invalidateScheduleVersions(clinicId: string) {
+			revalidateWithProfile(
+				CACHE_TAGS.vaccination.scheduleVersions(clinicId),
+				'minutes'
+			)
+			revalidateWithProfile(CACHE_TAGS.vaccination.schedule, 'hours')
+			revalidateWithProfile(
+				CACHE_TAGS.vaccination.upcoming(clinicId),
+				'minutes'
+			)
+		},
 	},
 	visit: {
 		invalidate(id: string, patientId: string, clinicId: string) {
@@ -124,6 +124,8 @@ export const CACHE_TAGS = {
 			`growth:chart:${gender}:${type}`,
 		comparisonByPatient: (patientId: string) =>
 			`growth:comparison:patient:${patientId}`,
+		concernsByClinic: (clinicId: string) =>
+			`growth:concerns:clinic:${clinicId}`,
 
 		// Overview
 		overviewByClinic: (clinicId: string) =>
@@ -166,6 +168,14 @@ export const CACHE_TAGS = {
 		zScoreByGender: (gender: string) => `growth:zscore:gender:${gender}`,
 	},
 
+	// ==================== INVENTORY ====================
+	inventory: {
+		byClinic: (clinicId: string) => `inventory:clinic:${clinicId}`,
+		byId: (id: string) => `inventory:lot:${id}`,
+		byVaccine: (clinicId: string, vaccineName: string) =>
+			`inventory:clinic:${clinicId}:vaccine:${vaccineName}`,
+	},
+
 	// ==================== MEDICAL ====================
 	medical: {
 		diagnosis: {
@@ -236,6 +246,7 @@ export const CACHE_TAGS = {
 		counts: (clinicId: string) => `patients:counts:clinic:${clinicId}`,
 		// Nested resources
 		fullData: (patientId: string) => `patient:${patientId}:full-date`,
+		allergies: (patientId: string) => `patient:${patientId}:allergies`,
 		appointments: (patientId: string) => `patient:${patientId}:appointments`,
 		billing: (patientId: string) => `patient:${patientId}:billing`,
 		byClinic: (clinicId: string) => `patients:clinic:${clinicId}`,
@@ -339,6 +350,8 @@ export const CACHE_TAGS = {
 		dashboard: (clinicId: string) => `dashboard:vaccinations:${clinicId}`,
 		schedule: 'vaccinations:schedule',
 		scheduleByAge: (ageMonth: number) => `vaccinations:schedule:${ageMonth}`,
+		scheduleVersions: (clinicId: string) =>
+			`vaccinations:schedule-versions:${clinicId}`,
 		scheduled: (clinicId: string) => `vaccinations:scheduled:${clinicId}`,
 		upcoming: (clinicId: string) => `vaccinations:upcoming:${clinicId}`,
 	},
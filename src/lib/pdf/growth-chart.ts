@@ -0,0 +1,899 @@
+// src/lib/pdf/growth-chart.ts
+
+import { format } from 'date-fns'
+import {
+	PDFDocument,
+	type PDFFont,
+	type PDFPage,
+	rgb,
+	StandardFonts,
+} from 'pdf-lib'
+
+import {
+	A4,
+	drawImageFit,
+	embedImage,
+	fitText,
+	PDF_COLORS,
+	pdfSafeText,
+	wrapText,
+} from './helpers'
+
+// --- Type Definitions ---
+
+/** Parents get percentile lines and plain wording, clinicians z-scores */
+export type GrowthChartFormat = 'PARENT' | 'CLINICIAN'
+
+export type GrowthChartAgeAxis = 'CHRONOLOGICAL' | 'CORRECTED' | 'POSTMENSTRUAL'
+
+export interface GrowthChartCurvePoint {
+	ageDays: number
+	sd3neg: number
+	sd2neg: number
+	sd1neg: number
+	sd0: number
+	sd1pos: number
+	sd2pos: number
+	sd3pos: number
+}
+
+export interface GrowthChartMeasurement {
+	date: Date
+	/** Position on the chart's age axis */
+	ageDays: number
+	value: number
+	zScore: number | null
+	percentile: number | null
+	referenceLabel: string
+}
+
+export interface GrowthChartDocumentData {
+	format: GrowthChartFormat
+	clinic: {
+		name: string
+		address?: string | null
+		phone?: string | null
+		email?: string | null
+		logo?: Uint8Array | null
+	}
+	patient: {
+		firstName: string
+		lastName: string
+		dateOfBirth: Date
+		gender?: string | null
+	}
+	chart: {
+		title: string
+		unit: string
+		referenceLabel: string
+		ageAxis: GrowthChartAgeAxis
+	}
+	curves: GrowthChartCurvePoint[]
+	measurements: GrowthChartMeasurement[]
+	generatedAt: Date
+}
+
+// --- Layout ---
+
+const MARGIN = 40
+const ROW_HEIGHT = 18
+const FOOTER_HEIGHT = 30
+const DATE_FORMAT = 'dd MMM yyyy'
+const DAYS_PER_MONTH = 30.4375
+
+const COLORS = {
+	axis: '#6b7280',
+	grid: '#e5e7eb',
+	innerBand: '#cfe3f6',
+	line: '#7ea6d3',
+	median: '#2f6db5',
+	outerBand: '#e8f1fb',
+	outerLine: '#d9534f',
+	point: '#c0392b',
+	text: '#1a1a1f',
+} as const
+
+type CurveKey = Exclude<keyof GrowthChartCurvePoint, 'ageDays'>
+
+// SD lines with the percentile each one falls on
+const CURVES: {
+	key: CurveKey
+	z: number
+	percentile: string
+	parent: boolean
+}[] = [
+	{ key: 'sd3neg', parent: false, percentile: '0.1st', z: -3 },
+	{ key: 'sd2neg', parent: true, percentile: '2nd', z: -2 },
+	{ key: 'sd1neg', parent: true, percentile: '16th', z: -1 },
+	{ key: 'sd0', parent: true, percentile: '50th', z: 0 },
+	{ key: 'sd1pos', parent: true, percentile: '84th', z: 1 },
+	{ key: 'sd2pos', parent: true, percentile: '98th', z: 2 },
+	{ key: 'sd3pos', parent: false, percentile: '99.9th', z: 3 },
+]
+
+const AGE_AXIS_LABELS: Record<GrowthChartAgeAxis, string> = {
+	CHRONOLOGICAL: 'Age',
+	CORRECTED: 'Corrected age',
+	POSTMENSTRUAL: 'Postmenstrual age',
+}
+
+interface TableColumn {
+	label: string
+	width: number
+	cell: (
+		measurement: GrowthChartMeasurement,
+		data: GrowthChartDocumentData
+	) => string
+}
+
+const PARENT_COLUMNS: TableColumn[] = [
+	{ cell: m => format(m.date, DATE_FORMAT), label: 'Date', width: 120 },
+	{
+		cell: (m, data) => formatAge(m.ageDays, data.chart.ageAxis),
+		label: 'Age',
+		width: 120,
+	},
+	{
+		cell: (m, data) => `${m.value} ${data.chart.unit}`,
+		label: 'Measurement',
+		width: 120,
+	},
+	{
+		cell: m => (m.percentile === null ? '-' : ordinal(m.percentile)),
+		label: 'Percentile',
+		width: 155,
+	},
+]
+
+const CLINICIAN_COLUMNS: TableColumn[] = [
+	{ cell: m => format(m.date, DATE_FORMAT), label: 'Date', width: 80 },
+	{
+		cell: (m, data) => formatAge(m.ageDays, data.chart.ageAxis),
+		label: 'Age',
+		width: 75,
+	},
+	{
+		cell: (m, data) => `${m.value} ${data.chart.unit}`,
+		label: 'Value',
+		width: 70,
+	},
+	{
+		cell: m => (m.zScore === null ? '-' : m.zScore.toFixed(2)),
+		label: 'Z-score',
+		width: 60,
+	},
+	{
+		cell: m => (m.percentile === null ? '-' : ordinal(m.percentile)),
+		label: 'Percentile',
+		width: 65,
+	},
+	{ cell: m => m.referenceLabel, label: 'Reference', width: 165 },
+]
+
+// --- Formatting ---
+
+/**
+ * Percentile as an ordinal, with the open ends shown as <1st and >99th
+ */
+export function ordinal(percentile: number): string {
+	if (percentile < 1) return '<1st'
+	if (percentile > 99) return '>99th'
+
+	const n = Math.round(percentile)
+	const suffix =
+		n % 100 >= 11 && n % 100 <= 13
+			? 'th'
+			: n % 10 === 1
+				? 'st'
+				: n % 10 === 2
+					? 'nd'
+					: n % 10 === 3
+						? 'rd'
+						: 'th'
+	return `${n}${suffix}`
+}
+
+function formatAge(ageDays: number, axis: GrowthChartAgeAxis): string {
+	if (axis === 'POSTMENSTRUAL') {
+		return `${Math.floor(ageDays / 7)}+${Math.round(ageDays % 7)} wk`
+	}
+	if (Math.abs(ageDays) < 61) return `${Math.round(ageDays / 7)} wk`
+
+	const months = Math.floor(ageDays / DAYS_PER_MONTH)
+	if (months < 24) return `${months} m`
+	return months % 12 === 0
+		? `${months / 12} y`
+		: `${Math.floor(months / 12)} y ${months % 12} m`
+}
+
+function formatTick(ageDays: number, axis: GrowthChartAgeAxis): string {
+	if (axis === 'POSTMENSTRUAL') return `${Math.round(ageDays / 7)} wk`
+
+	const months = Math.round(ageDays / DAYS_PER_MONTH)
+	if (Math.abs(months) < 24) return `${months} m`
+	return months % 12 === 0
+		? `${months / 12} y`
+		: `${(months / 12).toFixed(1)} y`
+}
+
+function chartCaption(data: GrowthChartDocumentData): string {
+	return data.format === 'PARENT'
+		? 'The lines show how your child compares with healthy children of the same age and sex. A child on the 50th percentile line is in the middle; most children are between the 2nd and 98th lines. Steady growth along a similar line matters more than any single measurement.'
+		: `Lines are z-scores (-3 to +3 SD) of the ${data.chart.referenceLabel}, plotted by ${AGE_AXIS_LABELS[data.chart.ageAxis].toLowerCase()}. Shaded bands are +/-1 and +/-2 SD.`
+}
+
+// --- Geometry ---
+
+interface ChartGeometry {
+	bands: { path: string; color: string }[]
+	lines: { path: string; color: string; label: string; labelY: number }[]
+	pointPath: string
+	points: { x: number; y: number }[]
+	xTicks: { x: number; label: string }[]
+	yTicks: { y: number; label: string }[]
+}
+
+function niceStep(range: number, targetTicks: number): number {
+	const raw = range / targetTicks
+	const magnitude = 10 ** Math.floor(Math.log10(raw))
+	const normalized = raw / magnitude
+	const nice =
+		normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10
+	return nice * magnitude
+}
+
+function ageStepDays(range: number, axis: GrowthChartAgeAxis): number {
+	if (axis === 'POSTMENSTRUAL') {
+		return ([1, 2, 4].find(weeks => range / (weeks * 7) <= 12) ?? 4) * 7
+	}
+	const months =
+		[1, 2, 3, 6, 12, 24].find(step => range / (step * DAYS_PER_MONTH) <= 12) ??
+		24
+	return months * DAYS_PER_MONTH
+}
+
+function toPath(points: { x: number; y: number }[]): string {
+	return points
+		.map(
+			(point, index) =>
+				`${index === 0 ? 'M' : 'L'}${point.x.toFixed(1)},${point.y.toFixed(1)}`
+		)
+		.join(' ')
+}
+
+/**
+ * Curves, bands, points and ticks in plot coordinates: origin at the top
+ * left of the plot area, y growing downwards as in SVG. The PDF renderer
+ * draws the same paths with drawSvgPath.
+ */
+function chartGeometry(
+	data: GrowthChartDocumentData,
+	width: number,
+	height: number
+): ChartGeometry {
+	const curves = [...data.curves].sort((a, b) => a.ageDays - b.ageDays)
+	const shown = CURVES.filter(c => data.format === 'CLINICIAN' || c.parent)
+	const lowest = shown[0].key
+	const highest = shown[shown.length - 1].key
+
+	const ages = [
+		...curves.map(c => c.ageDays),
+		...data.measurements.map(m => m.ageDays),
+	]
+	const values = [
+		...curves.flatMap(c => [c[lowest], c[highest]]),
+		...data.measurements.map(m => m.value),
+	]
+	const minAge = Math.min(...ages)
+	const maxAge = Math.max(...ages, minAge + 1)
+	const padding = (Math.max(...values) - Math.min(...values)) * 0.05 || 1
+	const minValue = Math.min(...values) - padding
+	const maxValue = Math.max(...values) + padding
+
+	const x = (ageDays: number) =>
+		((ageDays - minAge) / (maxAge - minAge)) * width
+	const y = (value: number) =>
+		height - ((value - minValue) / (maxValue - minValue)) * height
+
+	const line = (key: CurveKey) =>
+		curves.map(c => ({ x: x(c.ageDays), y: y(c[key]) }))
+	const band = (lower: CurveKey, upper: CurveKey) =>
+		`${toPath([...line(upper), ...line(lower).reverse()])} Z`
+
+	const points = [...data.measurements]
+		.sort((a, b) => a.ageDays - b.ageDays)
+		.map(m => ({ x: x(m.ageDays), y: y(m.value) }))
+
+	const ageStep = ageStepDays(maxAge - minAge, data.chart.ageAxis)
+	const xTicks: ChartGeometry['xTicks'] = []
+	for (
+		let age = Math.ceil(minAge / ageStep) * ageStep;
+		age <= maxAge;
+		age += ageStep
+	) {
+		xTicks.push({ label: formatTick(age, data.chart.ageAxis), x: x(age) })
+	}
+
+	const valueStep = niceStep(maxValue - minValue, 8)
+	const yTicks: ChartGeometry['yTicks'] = []
+	for (
+		let value = Math.ceil(minValue / valueStep) * valueStep;
+		value <= maxValue;
+		value += valueStep
+	) {
+		yTicks.push({ label: `${Number(value.toFixed(2))}`, y: y(value) })
+	}
+
+	return {
+		bands:
+			curves.length > 1
+				? [
+						{ color: COLORS.outerBand, path: band('sd2neg', 'sd2pos') },
+						{ color: COLORS.innerBand, path: band('sd1neg', 'sd1pos') },
+					]
+				: [],
+		lines:
+			curves.length > 1
+				? shown.map(curve => {
+						const path = line(curve.key)
+						return {
+							color:
+								curve.z === 0
+									? COLORS.median
+									: Math.abs(curve.z) === 3
+										? COLORS.outerLine
+										: COLORS.line,
+							label:
+								data.format === 'PARENT'
+									? curve.percentile
+									: curve.z > 0
+										? `+${curve.z}`
+										: `${curve.z}`,
+							labelY: path[path.length - 1].y,
+							path: toPath(path),
+						}
+					})
+				: [],
+		pointPath: points.length > 1 ? toPath(points) : '',
+		points,
+		xTicks,
+		yTicks,
+	}
+}
+
+// --- SVG Renderer ---
+
+const SVG = {
+	captionChars: 140,
+	chartHeight: 420,
+	rowHeight: 22,
+	width: 800,
+} as const
+const SVG_PLOT = { bottom: 40, left: 60, right: 50, top: 90 } as const
+
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
+
+/**
+ * Split text into lines of at most maxChars - SVG text does not wrap
+ */
+function wrapChars(text: string, maxChars: number): string[] {
+	const lines: string[] = []
+	let current = ''
+
+	for (const word of text.split(/\s+/).filter(Boolean)) {
+		if (current && current.length + word.length + 1 > maxChars) {
+			lines.push(current)
+			current = word
+		} else {
+			current = current ? `${current} ${word}` : word
+		}
+	}
+	if (current) lines.push(current)
+
+	return lines
+}
+
+function svgText(
+	x: number,
+	y: number,
+	text: string,
+	attributes: Record<string, string | number> = {}
+): string {
+	const attrs = Object.entries(attributes)
+		.map(([key, value]) => `${key}="${value}"`)
+		.join(' ')
+	return `<text x="${x.toFixed(1)}" y="${y.toFixed(1)}" ${attrs}>${escapeXml(text)}</text>`
+}
+
+/**
+ * Render a growth chart as a standalone SVG document: percentile or
+ * z-score bands, the child's measurements and a data table underneath
+ */
+export function renderGrowthChartSvg(data: GrowthChartDocumentData): string {
+	const plotWidth = SVG.width - SVG_PLOT.left - SVG_PLOT.right
+	const plotHeight = SVG.chartHeight - SVG_PLOT.top - SVG_PLOT.bottom
+	const geometry = chartGeometry(data, plotWidth, plotHeight)
+	const columns = data.format === 'PARENT' ? PARENT_COLUMNS : CLINICIAN_COLUMNS
+	const columnScale = (SVG.width - 40) / (A4.width - MARGIN * 2)
+
+	const caption = wrapChars(chartCaption(data), SVG.captionChars)
+	const tableTop = SVG.chartHeight + 30 + caption.length * 14
+	const height =
+		tableTop + SVG.rowHeight * (Math.max(data.measurements.length, 1) + 1) + 20
+	const patientName = `${data.patient.firstName} ${data.patient.lastName}`
+
+	const parts: string[] = [
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${SVG.width}" height="${height}" viewBox="0 0 ${SVG.width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+		`<title>${escapeXml(`${data.chart.title} - ${patientName}`)}</title>`,
+		`<rect width="100%" height="100%" fill="#ffffff"/>`,
+		svgText(20, 28, data.chart.title, {
+			fill: COLORS.median,
+			'font-size': 20,
+			'font-weight': 'bold',
+		}),
+		svgText(
+			20,
+			50,
+			`${patientName}  |  Born ${format(data.patient.dateOfBirth, DATE_FORMAT)}${data.patient.gender ? `  |  ${data.patient.gender.toLowerCase()}` : ''}`,
+			{ fill: COLORS.text, 'font-size': 13 }
+		),
+		svgText(
+			20,
+			68,
+			`${data.chart.referenceLabel}  |  ${data.clinic.name}  |  ${format(data.generatedAt, DATE_FORMAT)}`,
+			{ fill: COLORS.axis, 'font-size': 11 }
+		),
+		`<g transform="translate(${SVG_PLOT.left},${SVG_PLOT.top})">`,
+	]
+
+	for (const tick of geometry.yTicks) {
+		parts.push(
+			`<line x1="0" x2="${plotWidth}" y1="${tick.y.toFixed(1)}" y2="${tick.y.toFixed(1)}" stroke="${COLORS.grid}"/>`,
+			svgText(-8, tick.y + 4, tick.label, {
+				fill: COLORS.axis,
+				'font-size': 10,
+				'text-anchor': 'end',
+			})
+		)
+	}
+	for (const tick of geometry.xTicks) {
+		parts.push(
+			`<line x1="${tick.x.toFixed(1)}" x2="${tick.x.toFixed(1)}" y1="0" y2="${plotHeight}" stroke="${COLORS.grid}"/>`,
+			svgText(tick.x, plotHeight + 16, tick.label, {
+				fill: COLORS.axis,
+				'font-size': 10,
+				'text-anchor': 'middle',
+			})
+		)
+	}
+	for (const band of geometry.bands) {
+		parts.push(`<path d="${band.path}" fill="${band.color}" stroke="none"/>`)
+	}
+	for (const line of geometry.lines) {
+		parts.push(
+			`<path d="${line.path}" fill="none" stroke="${line.color}" stroke-width="1.5"/>`,
+			svgText(plotWidth + 4, line.labelY + 4, line.label, {
+				fill: line.color,
+				'font-size': 10,
+			})
+		)
+	}
+	if (geometry.pointPath) {
+		parts.push(
+			`<path d="${geometry.pointPath}" fill="none" stroke="${COLORS.point}" stroke-width="1.5"/>`
+		)
+	}
+	for (const point of geometry.points) {
+		parts.push(
+			`<circle cx="${point.x.toFixed(1)}" cy="${point.y.toFixed(1)}" r="4" fill="${COLORS.point}" stroke="#ffffff" stroke-width="1"/>`
+		)
+	}
+	parts.push(
+		`<rect x="0" y="0" width="${plotWidth}" height="${plotHeight}" fill="none" stroke="${COLORS.axis}"/>`,
+		svgText(
+			plotWidth / 2,
+			plotHeight + 34,
+			AGE_AXIS_LABELS[data.chart.ageAxis],
+			{
+				fill: COLORS.text,
+				'font-size': 11,
+				'text-anchor': 'middle',
+			}
+		),
+		svgText(-45, plotHeight / 2, data.chart.unit, {
+			fill: COLORS.text,
+			'font-size': 11,
+			'text-anchor': 'middle',
+			transform: `rotate(-90 -45 ${(plotHeight / 2).toFixed(1)})`,
+		}),
+		'</g>',
+		...caption.map((line, index) =>
+			svgText(20, SVG.chartHeight + 20 + index * 14, line, {
+				fill: COLORS.axis,
+				'font-size': 10,
+			})
+		)
+	)
+
+	// Data table
+	let x = 20
+	parts.push(
+		`<rect x="20" y="${tableTop}" width="${SVG.width - 40}" height="${SVG.rowHeight}" fill="${COLORS.median}"/>`
+	)
+	for (const column of columns) {
+		parts.push(
+			svgText(x + 6, tableTop + 15, column.label, {
+				fill: '#ffffff',
+				'font-size': 11,
+				'font-weight': 'bold',
+			})
+		)
+		x += column.width * columnScale
+	}
+
+	const rows = [...data.measurements].sort(
+		(a, b) => a.date.getTime() - b.date.getTime()
+	)
+	if (rows.length === 0) {
+		parts.push(
+			svgText(26, tableTop + SVG.rowHeight + 15, 'No measurements recorded.', {
+				fill: COLORS.axis,
+				'font-size': 11,
+			})
+		)
+	}
+	rows.forEach((measurement, index) => {
+		const rowY = tableTop + SVG.rowHeight * (index + 1)
+		if (index % 2 === 1) {
+			parts.push(
+				`<rect x="20" y="${rowY}" width="${SVG.width - 40}" height="${SVG.rowHeight}" fill="#f2f4f8"/>`
+			)
+		}
+		let cellX = 20
+		for (const column of columns) {
+			parts.push(
+				svgText(cellX + 6, rowY + 15, column.cell(measurement, data), {
+					fill: COLORS.text,
+					'font-size': 11,
+				})
+			)
+			cellX += column.width * columnScale
+		}
+	})
+
+	parts.push('</svg>')
+	return parts.join('\n')
+}
+
+// --- PDF Renderer ---
+
+interface Fonts {
+	regular: PDFFont
+	bold: PDFFont
+}
+
+function pdfColor(hex: string) {
+	const value = Number.parseInt(hex.slice(1), 16)
+	return rgb(
+		((value >> 16) & 0xff) / 255,
+		((value >> 8) & 0xff) / 255,
+		(value & 0xff) / 255
+	)
+}
+
+function drawTableHeader(
+	page: PDFPage,
+	fonts: Fonts,
+	columns: TableColumn[],
+	y: number
+): number {
+	page.drawRectangle({
+		color: PDF_COLORS.primary,
+		height: ROW_HEIGHT,
+		width: A4.width - MARGIN * 2,
+		x: MARGIN,
+		y: y - ROW_HEIGHT,
+	})
+
+	let x = MARGIN + 6
+	for (const column of columns) {
+		page.drawText(column.label, {
+			color: PDF_COLORS.stripe,
+			font: fonts.bold,
+			size: 9,
+			x,
+			y: y - 13,
+		})
+		x += column.width
+	}
+
+	return y - ROW_HEIGHT
+}
+
+function drawChart(
+	page: PDFPage,
+	fonts: Fonts,
+	data: GrowthChartDocumentData,
+	box: { x: number; top: number; width: number; height: number }
+) {
+	const geometry = chartGeometry(data, box.width, box.height)
+	const origin = { x: box.x, y: box.top }
+	const toPdfY = (y: number) => box.top - y
+
+	for (const tick of geometry.yTicks) {
+		page.drawLine({
+			color: pdfColor(COLORS.grid),
+			end: { x: box.x + box.width, y: toPdfY(tick.y) },
+			start: { x: box.x, y: toPdfY(tick.y) },
+			thickness: 0.5,
+		})
+		page.drawText(tick.label, {
+			color: PDF_COLORS.muted,
+			font: fonts.regular,
+			size: 7,
+			x: box.x - 6 - fonts.regular.widthOfTextAtSize(tick.label, 7),
+			y: toPdfY(tick.y) - 2,
+		})
+	}
+	for (const tick of geometry.xTicks) {
+		page.drawLine({
+			color: pdfColor(COLORS.grid),
+			end: { x: box.x + tick.x, y: box.top - box.height },
+			start: { x: box.x + tick.x, y: box.top },
+			thickness: 0.5,
+		})
+		page.drawText(tick.label, {
+			color: PDF_COLORS.muted,
+			font: fonts.regular,
+			size: 7,
+			x: box.x + tick.x - fonts.regular.widthOfTextAtSize(tick.label, 7) / 2,
+			y: box.top - box.height - 10,
+		})
+	}
+	for (const band of geometry.bands) {
+		page.drawSvgPath(band.path, { ...origin, color: pdfColor(band.color) })
+	}
+	for (const line of geometry.lines) {
+		page.drawSvgPath(line.path, {
+			...origin,
+			borderColor: pdfColor(line.color),
+			borderWidth: 1,
+		})
+		page.drawText(line.label, {
+			color: pdfColor(line.color),
+			font: fonts.regular,
+			size: 7,
+			x: box.x + box.width + 3,
+			y: toPdfY(line.labelY) - 2,
+		})
+	}
+	if (geometry.pointPath) {
+		page.drawSvgPath(geometry.pointPath, {
+			...origin,
+			borderColor: pdfColor(COLORS.point),
+			borderWidth: 1,
+		})
+	}
+	for (const point of geometry.points) {
+		page.drawCircle({
+			borderColor: rgb(1, 1, 1),
+			borderWidth: 0.5,
+			color: pdfColor(COLORS.point),
+			size: 2.5,
+			x: box.x + point.x,
+			y: toPdfY(point.y),
+		})
+	}
+
+	page.drawRectangle({
+		borderColor: pdfColor(COLORS.axis),
+		borderWidth: 0.5,
+		height: box.height,
+		width: box.width,
+		x: box.x,
+		y: box.top - box.height,
+	})
+
+	const axisLabel = AGE_AXIS_LABELS[data.chart.ageAxis]
+	page.drawText(axisLabel, {
+		color: PDF_COLORS.text,
+		font: fonts.regular,
+		size: 8,
+		x: box.x + (box.width - fonts.regular.widthOfTextAtSize(axisLabel, 8)) / 2,
+		y: box.top - box.height - 22,
+	})
+	page.drawText(pdfSafeText(data.chart.unit), {
+		color: PDF_COLORS.text,
+		font: fonts.regular,
+		size: 8,
+		x: box.x - 6 - fonts.regular.widthOfTextAtSize(data.chart.unit, 8),
+		y: box.top + 6,
+	})
+}
+
+/**
+ * Render a growth chart as A4 PDF bytes
+ * Clinic and child identity, the chart with its bands and plotted
+ * measurements, then the measurements table across as many pages as needed
+ */
+export async function renderGrowthChartPdf(
+	data: GrowthChartDocumentData
+): Promise<Uint8Array> {
+	const doc = await PDFDocument.create()
+	const patientName = `${data.patient.firstName} ${data.patient.lastName}`
+	const columns = data.format === 'PARENT' ? PARENT_COLUMNS : CLINICIAN_COLUMNS
+
+	doc.setTitle(pdfSafeText(`${data.chart.title} - ${patientName}`))
+	doc.setAuthor(pdfSafeText(data.clinic.name))
+	doc.setCreationDate(data.generatedAt)
+
+	const fonts: Fonts = {
+		bold: await doc.embedFont(StandardFonts.HelveticaBold),
+		regular: await doc.embedFont(StandardFonts.Helvetica),
+	}
+	const logo = await embedImage(doc, data.clinic.logo ?? null)
+
+	let page = doc.addPage([A4.width, A4.height])
+	let y = A4.height - MARGIN
+
+	// Clinic header
+	const textX = logo ? MARGIN + 56 : MARGIN
+	if (logo) {
+		drawImageFit(page, logo, { height: 44, width: 44, x: MARGIN, y: y - 44 })
+	}
+	page.drawText(pdfSafeText(data.clinic.name), {
+		color: PDF_COLORS.primary,
+		font: fonts.bold,
+		size: 14,
+		x: textX,
+		y: y - 14,
+	})
+	const contact = [data.clinic.address, data.clinic.phone, data.clinic.email]
+		.filter(Boolean)
+		.join('  |  ')
+	if (contact) {
+		page.drawText(
+			fitText(contact, fonts.regular, 8, A4.width - textX - MARGIN),
+			{
+				color: PDF_COLORS.muted,
+				font: fonts.regular,
+				size: 8,
+				x: textX,
+				y: y - 28,
+			}
+		)
+	}
+	y -= 64
+
+	// Title and child identity
+	page.drawText(pdfSafeText(data.chart.title), {
+		color: PDF_COLORS.text,
+		font: fonts.bold,
+		size: 16,
+		x: MARGIN,
+		y,
+	})
+	y -= 18
+	const identity = [
+		patientName,
+		`Born ${format(data.patient.dateOfBirth, DATE_FORMAT)}`,
+		...(data.patient.gender ? [data.patient.gender.toLowerCase()] : []),
+		data.chart.referenceLabel,
+	].join('  |  ')
+	page.drawText(fitText(identity, fonts.regular, 9, A4.width - MARGIN * 2), {
+		color: PDF_COLORS.muted,
+		font: fonts.regular,
+		size: 9,
+		x: MARGIN,
+		y,
+	})
+	y -= 24
+
+	// Chart, leaving room for tick labels and the curve labels on the right
+	const chartHeight = 320
+	drawChart(page, fonts, data, {
+		height: chartHeight,
+		top: y,
+		width: A4.width - MARGIN * 2 - 50,
+		x: MARGIN + 30,
+	})
+	y -= chartHeight + 38
+
+	for (const line of wrapText(
+		chartCaption(data),
+		fonts.regular,
+		8,
+		A4.width - MARGIN * 2
+	)) {
+		page.drawText(line, {
+			color: PDF_COLORS.muted,
+			font: fonts.regular,
+			size: 8,
+			x: MARGIN,
+			y,
+		})
+		y -= 11
+	}
+	y -= 8
+
+	// Measurements table
+	y = drawTableHeader(page, fonts, columns, y)
+
+	const rows = [...data.measurements].sort(
+		(a, b) => a.date.getTime() - b.date.getTime()
+	)
+	if (rows.length === 0) {
+		page.drawText('No measurements recorded.', {
+			color: PDF_COLORS.muted,
+			font: fonts.regular,
+			size: 9,
+			x: MARGIN + 6,
+			y: y - 13,
+		})
+	}
+
+	rows.forEach((measurement, index) => {
+		if (y - ROW_HEIGHT < MARGIN + FOOTER_HEIGHT) {
+			page = doc.addPage([A4.width, A4.height])
+			y = drawTableHeader(page, fonts, columns, A4.height - MARGIN)
+		}
+		if (index % 2 === 1) {
+			page.drawRectangle({
+				color: PDF_COLORS.stripe,
+				height: ROW_HEIGHT,
+				width: A4.width - MARGIN * 2,
+				x: MARGIN,
+				y: y - ROW_HEIGHT,
+			})
+		}
+		let x = MARGIN + 6
+		for (const column of columns) {
+			page.drawText(
+				fitText(
+					column.cell(measurement, data),
+					fonts.regular,
+					9,
+					column.width - 8
+				),
+				{
+					color: PDF_COLORS.text,
+					font: fonts.regular,
+					size: 9,
+					x,
+					y: y - 13,
+				}
+			)
+			x += column.width
+		}
+		y -= ROW_HEIGHT
+	})
+
+	// Footer on every page
+	const pages = doc.getPages()
+	pages.forEach((p, index) => {
+		p.drawLine({
+			color: PDF_COLORS.border,
+			end: { x: A4.width - MARGIN, y: MARGIN + 12 },
+			start: { x: MARGIN, y: MARGIN + 12 },
+			thickness: 0.5,
+		})
+		p.drawText(
+			`Generated ${format(data.generatedAt, DATE_FORMAT)}  |  Page ${index + 1} of ${pages.length}`,
+			{
+				color: PDF_COLORS.muted,
+				font: fonts.regular,
+				size: 7,
+				x: MARGIN,
+				y: MARGIN,
+			}
+		)
+	})
+
+	return doc.save()
+}
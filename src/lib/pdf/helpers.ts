@@ -0,0 +1,158 @@
+// src/lib/pdf/helpers.ts
+
+import {
+	type PDFDocument,
+	type PDFFont,
+	type PDFImage,
+	type PDFPage,
+	rgb,
+} from 'pdf-lib'
+import QRCode from 'qrcode'
+
+// A4 in PDF points
+export const A4 = { height: 841.89, width: 595.28 } as const
+
+export const PDF_COLORS = {
+	border: rgb(0.8, 0.82, 0.86),
+	muted: rgb(0.42, 0.45, 0.5),
+	primary: rgb(0.15, 0.32, 0.65),
+	stripe: rgb(0.95, 0.96, 0.98),
+	text: rgb(0.1, 0.1, 0.12),
+} as const
+
+const REMOTE_IMAGE_TIMEOUT_MS = 5000
+
+/**
+ * Standard PDF fonts only cover WinAnsi - replace anything else so
+ * names in other scripts never crash rendering
+ */
+export function pdfSafeText(value: string | null | undefined): string {
+	return (value ?? '').replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+}
+
+/**
+ * Truncate text with an ellipsis to fit a column width
+ */
+export function fitText(
+	text: string,
+	font: PDFFont,
+	size: number,
+	maxWidth: number
+): string {
+	const safe = pdfSafeText(text)
+	if (font.widthOfTextAtSize(safe, size) <= maxWidth) return safe
+
+	let end = safe.length
+	while (
+		end > 0 &&
+		font.widthOfTextAtSize(`${safe.slice(0, end)}...`, size) > maxWidth
+	) {
+		end--
+	}
+	return `${safe.slice(0, end)}...`
+}
+
+/**
+ * Split text into lines no wider than maxWidth
+ */
+export function wrapText(
+	text: string,
+	font: PDFFont,
+	size: number,
+	maxWidth: number
+): string[] {
+	const lines: string[] = []
+	let current = ''
+
+	for (const word of pdfSafeText(text).split(/\s+/).filter(Boolean)) {
+		const candidate = current ? `${current} ${word}` : word
+		if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+			lines.push(current)
+			current = word
+		} else {
+			current = candidate
+		}
+	}
+	if (current) lines.push(current)
+
+	return lines
+}
+
+/**
+ * Load PNG/JPEG bytes from a data URL or http(s) URL
+ * Returns null on any failure - images are decorative in our documents
+ */
+export async function loadImageBytes(
+	source: string | null | undefined
+): Promise<Uint8Array | null> {
+	if (!source) return null
+
+	try {
+		if (source.startsWith('data:')) {
+			const [, base64] = source.split(',')
+			return base64 ? Uint8Array.from(Buffer.from(base64, 'base64')) : null
+		}
+
+		if (!/^https?:\/\//.test(source)) return null
+
+		const response = await fetch(source, {
+			signal: AbortSignal.timeout(REMOTE_IMAGE_TIMEOUT_MS),
+		})
+		if (!response.ok) return null
+
+		return new Uint8Array(await response.arrayBuffer())
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Embed PNG or JPEG bytes, sniffing the format from the magic number
+ */
+export async function embedImage(
+	doc: PDFDocument,
+	bytes: Uint8Array | null
+): Promise<PDFImage | null> {
+	if (!bytes || bytes.length < 4) return null
+
+	try {
+		// PNG: 89 50 4E 47, JPEG: FF D8
+		if (bytes[0] === 0x89 && bytes[1] === 0x50) return await doc.embedPng(bytes)
+		if (bytes[0] === 0xff && bytes[1] === 0xd8) return await doc.embedJpg(bytes)
+	} catch {
+		// Corrupt image - render without it
+	}
+	return null
+}
+
+export async function embedQrCode(
+	doc: PDFDocument,
+	value: string
+): Promise<PDFImage> {
+	const png = await QRCode.toBuffer(value, {
+		errorCorrectionLevel: 'M',
+		margin: 1,
+		width: 256,
+	})
+	return doc.embedPng(png)
+}
+
+/**
+ * Draw an image scaled to fit inside a box, keeping its aspect ratio
+ */
+export function drawImageFit(
+	page: PDFPage,
+	image: PDFImage,
+	box: { x: number; y: number; width: number; height: number }
+) {
+	const scale = Math.min(box.width / image.width, box.height / image.height)
+	const width = image.width * scale
+	const height = image.height * scale
+
+	page.drawImage(image, {
+		height,
+		width,
+		x: box.x,
+		y: box.y + (box.height - height),
+	})
+}
@@ -0,0 +1,309 @@
+// src/lib/pdf/immunization-certificate.ts
+
+import { format } from 'date-fns'
+import { PDFDocument, type PDFFont, type PDFPage, StandardFonts } from 'pdf-lib'
+
+import {
+	A4,
+	drawImageFit,
+	embedImage,
+	embedQrCode,
+	fitText,
+	PDF_COLORS,
+	pdfSafeText,
+	wrapText,
+} from './helpers'
+
+// --- Type Definitions ---
+
+export interface CertificateDose {
+	vaccine: string
+	date: Date
+	dose?: string | null
+	lotNumber?: string | null
+	administeredBy?: string | null
+}
+
+export interface ImmunizationCertificateData {
+	clinic: {
+		name: string
+		address?: string | null
+		phone?: string | null
+		email?: string | null
+		logo?: Uint8Array | null
+	}
+	patient: {
+		firstName: string
+		lastName: string
+		dateOfBirth: Date
+		gender?: string | null
+	}
+	doses: CertificateDose[]
+	verificationCode: string
+	verificationUrl: string
+	issuedAt: Date
+}
+
+// --- Layout ---
+
+const MARGIN = 40
+const ROW_HEIGHT = 20
+const FOOTER_HEIGHT = 40
+const DATE_FORMAT = 'dd MMM yyyy'
+
+const COLUMNS = [
+	{ key: 'date', label: 'Date', width: 80 },
+	{ key: 'vaccine', label: 'Vaccine', width: 150 },
+	{ key: 'dose', label: 'Dose', width: 60 },
+	{ key: 'lotNumber', label: 'Lot No.', width: 90 },
+	{ key: 'administeredBy', label: 'Administered by', width: 135 },
+] as const
+
+interface Fonts {
+	regular: PDFFont
+	bold: PDFFont
+}
+
+function doseCells(dose: CertificateDose): Record<string, string> {
+	return {
+		administeredBy: dose.administeredBy ?? '-',
+		date: format(dose.date, DATE_FORMAT),
+		dose: dose.dose ?? '-',
+		lotNumber: dose.lotNumber ?? '-',
+		vaccine: dose.vaccine,
+	}
+}
+
+function drawTableHeader(page: PDFPage, fonts: Fonts, y: number): number {
+	page.drawRectangle({
+		color: PDF_COLORS.primary,
+		height: ROW_HEIGHT,
+		width: A4.width - MARGIN * 2,
+		x: MARGIN,
+		y: y - ROW_HEIGHT,
+	})
+
+	let x = MARGIN + 6
+	for (const column of COLUMNS) {
+		page.drawText(column.label, {
+			color: PDF_COLORS.stripe,
+			font: fonts.bold,
+			size: 9,
+			x,
+			y: y - 14,
+		})
+		x += column.width
+	}
+
+	return y - ROW_HEIGHT
+}
+
+function drawRow(
+	page: PDFPage,
+	fonts: Fonts,
+	y: number,
+	cells: Record<string, string>,
+	striped: boolean
+): number {
+	if (striped) {
+		page.drawRectangle({
+			color: PDF_COLORS.stripe,
+			height: ROW_HEIGHT,
+			width: A4.width - MARGIN * 2,
+			x: MARGIN,
+			y: y - ROW_HEIGHT,
+		})
+	}
+
+	let x = MARGIN + 6
+	for (const column of COLUMNS) {
+		page.drawText(
+			fitText(cells[column.key] ?? '', fonts.regular, 9, column.width - 8),
+			{
+				color: PDF_COLORS.text,
+				font: fonts.regular,
+				size: 9,
+				x,
+				y: y - 14,
+			}
+		)
+		x += column.width
+	}
+
+	return y - ROW_HEIGHT
+}
+
+// --- Renderer ---
+
+/**
+ * Render an immunization certificate (vaccination card) as A4 PDF bytes
+ * Header with clinic identity and verification QR, child identity,
+ * then one row per administered dose across as many pages as needed
+ */
+export async function renderImmunizationCertificate(
+	data: ImmunizationCertificateData
+): Promise<Uint8Array> {
+	const doc = await PDFDocument.create()
+	const patientName = `${data.patient.firstName} ${data.patient.lastName}`
+
+	doc.setTitle(pdfSafeText(`Immunization Certificate - ${patientName}`))
+	doc.setAuthor(pdfSafeText(data.clinic.name))
+	doc.setCreationDate(data.issuedAt)
+
+	const fonts: Fonts = {
+		bold: await doc.embedFont(StandardFonts.HelveticaBold),
+		regular: await doc.embedFont(StandardFonts.Helvetica),
+	}
+	const [logo, qr] = await Promise.all([
+		embedImage(doc, data.clinic.logo ?? null),
+		embedQrCode(doc, data.verificationUrl),
+	])
+
+	let page = doc.addPage([A4.width, A4.height])
+	let y = A4.height - MARGIN
+
+	// Clinic header
+	const textX = logo ? MARGIN + 72 : MARGIN
+	if (logo) {
+		drawImageFit(page, logo, { height: 60, width: 60, x: MARGIN, y: y - 60 })
+	}
+	page.drawText(pdfSafeText(data.clinic.name), {
+		color: PDF_COLORS.primary,
+		font: fonts.bold,
+		size: 16,
+		x: textX,
+		y: y - 16,
+	})
+	const contact = [data.clinic.phone, data.clinic.email]
+		.filter(Boolean)
+		.join('  |  ')
+	const headerLines = [
+		...wrapText(data.clinic.address ?? '', fonts.regular, 9, 300),
+		...(contact ? [pdfSafeText(contact)] : []),
+	]
+	headerLines.forEach((line, index) => {
+		page.drawText(line, {
+			color: PDF_COLORS.muted,
+			font: fonts.regular,
+			size: 9,
+			x: textX,
+			y: y - 32 - index * 12,
+		})
+	})
+
+	// Verification QR
+	const qrSize = 80
+	page.drawImage(qr, {
+		height: qrSize,
+		width: qrSize,
+		x: A4.width - MARGIN - qrSize,
+		y: y - qrSize,
+	})
+	page.drawText('Scan to verify', {
+		color: PDF_COLORS.muted,
+		font: fonts.regular,
+		size: 7,
+		x: A4.width - MARGIN - qrSize + 16,
+		y: y - qrSize - 10,
+	})
+
+	y -= qrSize + 36
+
+	// Title
+	const title = 'Immunization Certificate'
+	page.drawText(title, {
+		color: PDF_COLORS.text,
+		font: fonts.bold,
+		size: 20,
+		x: (A4.width - fonts.bold.widthOfTextAtSize(title, 20)) / 2,
+		y,
+	})
+	y -= 30
+
+	// Patient identity
+	const identity: [string, string][] = [
+		['Name', patientName],
+		['Date of birth', format(data.patient.dateOfBirth, DATE_FORMAT)],
+		...(data.patient.gender
+			? [['Sex', data.patient.gender.toLowerCase()] as [string, string]]
+			: []),
+		['Doses recorded', data.doses.length.toString()],
+	]
+	for (const [label, value] of identity) {
+		page.drawText(`${label}:`, {
+			color: PDF_COLORS.muted,
+			font: fonts.regular,
+			size: 10,
+			x: MARGIN,
+			y,
+		})
+		page.drawText(pdfSafeText(value), {
+			color: PDF_COLORS.text,
+			font: fonts.bold,
+			size: 10,
+			x: MARGIN + 100,
+			y,
+		})
+		y -= 15
+	}
+	y -= 10
+
+	// Dose table
+	y = drawTableHeader(page, fonts, y)
+
+	if (data.doses.length === 0) {
+		page.drawText('No administered vaccines on record.', {
+			color: PDF_COLORS.muted,
+			font: fonts.regular,
+			size: 9,
+			x: MARGIN + 6,
+			y: y - 14,
+		})
+	}
+
+	data.doses.forEach((dose, index) => {
+		if (y - ROW_HEIGHT < MARGIN + FOOTER_HEIGHT) {
+			page = doc.addPage([A4.width, A4.height])
+			y = drawTableHeader(page, fonts, A4.height - MARGIN)
+		}
+		y = drawRow(page, fonts, y, doseCells(dose), index % 2 === 1)
+	})
+
+	// Footer on every page
+	const pages = doc.getPages()
+	pages.forEach((p, index) => {
+		p.drawLine({
+			color: PDF_COLORS.border,
+			end: { x: A4.width - MARGIN, y: MARGIN + 22 },
+			start: { x: MARGIN, y: MARGIN + 22 },
+			thickness: 0.5,
+		})
+		p.drawText(
+			`Issued ${format(data.issuedAt, DATE_FORMAT)}  |  Verification code ${data.verificationCode}  |  Page ${index + 1} of ${pages.length}`,
+			{
+				color: PDF_COLORS.muted,
+				font: fonts.regular,
+				size: 7,
+				x: MARGIN,
+				y: MARGIN + 10,
+			}
+		)
+		p.drawText(
+			fitText(
+				`Verify at ${data.verificationUrl}`,
+				fonts.regular,
+				7,
+				A4.width - MARGIN * 2
+			),
+			{
+				color: PDF_COLORS.muted,
+				font: fonts.regular,
+				size: 7,
+				x: MARGIN,
+				y: MARGIN,
+			}
+		)
+	})
+
+	return doc.save()
+}
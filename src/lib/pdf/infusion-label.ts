@@ -0,0 +1,208 @@
+// src/lib/pdf/infusion-label.ts
+
+import { format } from 'date-fns'
+import { PDFDocument, type PDFFont, type PDFPage, StandardFonts } from 'pdf-lib'
+
+import type { InfusionPreparation } from '@/utils/infusion'
+
+import { fitText, PDF_COLORS, pdfSafeText } from './helpers'
+
+// --- Type Definitions ---
+
+export interface InfusionLabelData {
+	clinicName: string
+	patient: {
+		name: string
+		dateOfBirth: Date
+		weightKg?: number | null
+	}
+	drugName: string
+	route: string
+	/** Prescribed dose as ordered, e.g. "15 mg" or "5 mcg/kg/min" */
+	prescribedDose: string
+	preparation: InfusionPreparation
+	preparedAt: Date
+}
+
+// --- Layout ---
+
+// 100 x 70 mm label in PDF points
+const LABEL = { height: 198.43, width: 283.46 } as const
+const MARGIN = 10
+const LINE_HEIGHT = 12
+const DATE_TIME_FORMAT = 'dd MMM yyyy HH:mm'
+
+interface Fonts {
+	regular: PDFFont
+	bold: PDFFont
+}
+
+function formatMl(value: number): string {
+	return `${Number(value.toFixed(3))} mL`
+}
+
+function drawLine(
+	page: PDFPage,
+	fonts: Fonts,
+	y: number,
+	label: string,
+	value: string
+): number {
+	page.drawText(label, {
+		color: PDF_COLORS.muted,
+		font: fonts.regular,
+		size: 8,
+		x: MARGIN,
+		y,
+	})
+	page.drawText(
+		fitText(pdfSafeText(value), fonts.bold, 9, LABEL.width - MARGIN * 2 - 70),
+		{
+			color: PDF_COLORS.text,
+			font: fonts.bold,
+			size: 9,
+			x: MARGIN + 70,
+			y,
+		}
+	)
+	return y - LINE_HEIGHT
+}
+
+// --- Renderer ---
+
+/**
+ * Render a syringe/bag preparation label as a single small PDF page
+ * Patient identity, drug and dose, then the draw / dilute / run steps
+ * with the measurable volumes and the pump rate
+ */
+export async function renderInfusionLabel(
+	data: InfusionLabelData
+): Promise<Uint8Array> {
+	const doc = await PDFDocument.create()
+	const { preparation } = data
+
+	doc.setTitle(pdfSafeText(`Infusion label - ${data.drugName}`))
+	doc.setAuthor(pdfSafeText(data.clinicName))
+	doc.setCreationDate(data.preparedAt)
+
+	const fonts: Fonts = {
+		bold: await doc.embedFont(StandardFonts.HelveticaBold),
+		regular: await doc.embedFont(StandardFonts.Helvetica),
+	}
+
+	const page = doc.addPage([LABEL.width, LABEL.height])
+	page.drawRectangle({
+		borderColor: PDF_COLORS.border,
+		borderWidth: 1,
+		height: LABEL.height - 4,
+		width: LABEL.width - 4,
+		x: 2,
+		y: 2,
+	})
+
+	// Header band
+	page.drawRectangle({
+		color: PDF_COLORS.primary,
+		height: 22,
+		width: LABEL.width - 4,
+		x: 2,
+		y: LABEL.height - 24,
+	})
+	page.drawText(
+		fitText(
+			pdfSafeText(`${data.drugName} ${data.route}`.toUpperCase()),
+			fonts.bold,
+			11,
+			LABEL.width - MARGIN * 2
+		),
+		{
+			color: PDF_COLORS.stripe,
+			font: fonts.bold,
+			size: 11,
+			x: MARGIN,
+			y: LABEL.height - 17,
+		}
+	)
+
+	let y = LABEL.height - 38
+
+	// Patient
+	const weight = data.patient.weightKg ? `  |  ${data.patient.weightKg} kg` : ''
+	y = drawLine(page, fonts, y, 'Patient', data.patient.name)
+	y = drawLine(
+		page,
+		fonts,
+		y,
+		'DOB / weight',
+		`${format(data.patient.dateOfBirth, 'dd MMM yyyy')}${weight}`
+	)
+	y = drawLine(page, fonts, y, 'Dose', data.prescribedDose)
+
+	y -= 4
+
+	// Preparation steps
+	const { measured } = preparation
+	y = drawLine(
+		page,
+		fonts,
+		y,
+		'Draw',
+		`${formatMl(measured.stockVolumeMl)} of ${preparation.stockConcentrationMgMl} mg/mL stock`
+	)
+	if (measured.diluentVolumeMl > 0) {
+		y = drawLine(
+			page,
+			fonts,
+			y,
+			'Add',
+			`${formatMl(measured.diluentVolumeMl)} ${preparation.diluent ?? 'diluent'}`
+		)
+	}
+	y = drawLine(
+		page,
+		fonts,
+		y,
+		'Final',
+		`${formatMl(measured.finalVolumeMl)} of ${preparation.drugAmountMg} mg (${preparation.finalConcentrationMgMl} mg/mL)`
+	)
+	y = drawLine(
+		page,
+		fonts,
+		y,
+		'Run at',
+		preparation.mode === 'CONTINUOUS'
+			? `${preparation.rateMlPerHour} mL/h continuous`
+			: preparation.infusionTimeMin
+				? `${preparation.rateMlPerHour} mL/h over ${preparation.infusionTimeMin} min`
+				: 'Give as bolus'
+	)
+
+	// Signatures
+	page.drawText(
+		`Prepared ${format(data.preparedAt, DATE_TIME_FORMAT)}   By ______   Checked ______`,
+		{
+			color: PDF_COLORS.muted,
+			font: fonts.regular,
+			size: 7,
+			x: MARGIN,
+			y: Math.min(y - 4, MARGIN + 12),
+		}
+	)
+	page.drawText(
+		fitText(
+			pdfSafeText(data.clinicName),
+			fonts.regular,
+			7,
+			LABEL.width - MARGIN * 2
+		),
+		{
+			color: PDF_COLORS.muted,
+			font: fonts.regular,
+			size: 7,
+			x: MARGIN,
+			y: MARGIN - 2,
+		}
+	)
+
+	return doc.save()
+}
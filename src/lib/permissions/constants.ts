@@ -56,6 +56,11 @@ export const PERMISSIONS = {
 		CANCEL: 'prescription:cancel',
 	},
 
+	FORMULARY: {
+		VIEW: 'formulary:view',
+		MANAGE: 'formulary:manage',
+	},
+
 	IMMUNIZATION: {
 		CREATE: 'immunization:create',
 		VIEW: 'immunization:view',
@@ -63,6 +68,11 @@ export const PERMISSIONS = {
 		UPDATE: 'immunization:update',
 	},
 
+	INVENTORY: {
+		VIEW: 'inventory:view',
+		MANAGE: 'inventory:manage',
+	},
+
 	LAB: {
 		REQUEST: 'lab:request',
 		VIEW_RESULT: 'lab:view_result',
@@ -264,6 +274,61 @@ export const PERMISSION_DEFINITIONS: PermissionDefinition[] = [
 		category: 'Medical Records',
 	},
 
+	// Immunizations
+	{
+		key: PERMISSIONS.IMMUNIZATION.VIEW,
+		name: 'View Immunizations',
+		description: 'View vaccination records and schedules',
+		category: 'Immunizations',
+	},
+	{
+		key: PERMISSIONS.IMMUNIZATION.CREATE,
+		name: 'Schedule Immunizations',
+		description: 'Schedule upcoming vaccinations',
+		category: 'Immunizations',
+	},
+	{
+		key: PERMISSIONS.IMMUNIZATION.ADMINISTER,
+		name: 'Administer Immunizations',
+		description: 'Record administered vaccine doses',
+		category: 'Immunizations',
+	},
+	{
+		key: PERMISSIONS.IMMUNIZATION.UPDATE,
+		name: 'Update Immunizations',
+		description: 'Edit or remove vaccination records',
+		category: 'Immunizations',
+	},
+
+	// Formulary
+	{
+		key: PERMISSIONS.FORMULARY.VIEW,
+		name: 'View Formulary',
+		description: 'Browse drugs and dose guidelines',
+		category: 'Formulary',
+	},
+	{
+		key: PERMISSIONS.FORMULARY.MANAGE,
+		name: 'Manage Formulary',
+		description:
+			'Export NICU data; the shared formulary is edited by system admins',
+		category: 'Formulary',
+	},
+
+	// Inventory
+	{
+		key: PERMISSIONS.INVENTORY.VIEW,
+		name: 'View Inventory',
+		description: 'View vaccine lots and stock levels',
+		category: 'Inventory',
+	},
+	{
+		key: PERMISSIONS.INVENTORY.MANAGE,
+		name: 'Manage Inventory',
+		description: 'Receive lots, adjust stock and receive stock alerts',
+		category: 'Inventory',
+	},
+
 	// Billing
 	{
 		key: PERMISSIONS.BILLING.VIEW,
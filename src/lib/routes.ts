@@ -74,6 +74,7 @@ export const APP_ROUTES = {
 	HIPAA: '/hipaa',
 	PRIVACY: '/privacy',
 	TERMS: '/terms',
+	VERIFY_CERTIFICATE: (code: string) => `/verify/certificate/${code}`,
 
 	// Protected Dashboard Routes
 	DASHBOARD: {
@@ -2,11 +2,16 @@ import { getSessionCookie } from 'better-auth/cookies'
 import { type NextRequest, NextResponse } from 'next/server'
 
 const PUBLIC_ROUTES = ['/', '/sign-in', '/sign-up', '/privacy', '/terms']
+// Document verification links printed as QR codes on certificates
+const PUBLIC_PREFIXES = ['/verify/']
 
 export async function proxy(request: NextRequest) {
 	const { pathname } = request.nextUrl
 
-	if (PUBLIC_ROUTES.includes(pathname)) {
+	if (
+		PUBLIC_ROUTES.includes(pathname) ||
+		PUBLIC_PREFIXES.some(prefix => pathname.startsWith(prefix))
+	) {
 		return NextResponse.next()
 	}
 
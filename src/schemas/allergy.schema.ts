@@ -0,0 +1,85 @@
+/**
+ * ⚪ ALLERGY MODULE - SCHEMA LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Zod validation schemas for structured patient allergies
+ * - Type inference
+ * - NO business logic
+ */
+
+import { z } from 'zod'
+
+import {
+	allergySeveritySchema,
+	allergyTypeSchema,
+	allergyVerificationStatusSchema,
+	dateSchema,
+	idSchema,
+	patientIdSchema,
+} from './helpers/enums'
+
+// ==================== ALLERGY SCHEMAS ====================
+
+const AllergyFieldsSchema = z.object({
+	allergen: z.string().trim().min(1, 'Allergen is required').max(200),
+	notes: z.string().max(2000).optional(),
+	onsetDate: dateSchema.optional(),
+	reaction: z.string().trim().max(500).optional(),
+	severity: allergySeveritySchema.optional(),
+	type: allergyTypeSchema.default('DRUG'),
+	verificationStatus: allergyVerificationStatusSchema.default('UNCONFIRMED'),
+})
+
+export const AllergyCreateSchema = AllergyFieldsSchema.extend({
+	patientId: patientIdSchema,
+})
+
+export const AllergyUpdateSchema = z.object({
+	allergen: AllergyFieldsSchema.shape.allergen.optional(),
+	id: idSchema,
+	notes: z.string().max(2000).nullable().optional(),
+	onsetDate: dateSchema.nullable().optional(),
+	reaction: z.string().trim().max(500).nullable().optional(),
+	severity: allergySeveritySchema.nullable().optional(),
+	type: allergyTypeSchema.optional(),
+	verificationStatus: allergyVerificationStatusSchema.optional(),
+})
+
+export const AllergyByIdSchema = z.object({
+	id: idSchema,
+})
+
+export const PatientAllergiesSchema = z.object({
+	// Refuted and entered-in-error entries are hidden unless asked for
+	includeInactive: z.boolean().default(false),
+	patientId: patientIdSchema,
+})
+
+// ==================== FREE-TEXT MIGRATION SCHEMAS ====================
+
+export const AllergySuggestionsSchema = z.object({
+	patientId: patientIdSchema,
+})
+
+export const AllergyMigrationListSchema = z.object({
+	limit: z.number().int().min(1).max(100).default(20),
+	page: z.number().int().min(1).default(1),
+})
+
+// Reviewed suggestions saved in one go
+export const AllergyImportSchema = z.object({
+	allergies: z.array(AllergyFieldsSchema).min(1).max(50),
+	// Empty Patient.allergies once everything in it has been structured
+	clearFreeText: z.boolean().default(false),
+	patientId: patientIdSchema,
+})
+
+// ==================== TYPE INFERENCES ====================
+
+export type AllergyCreateInput = z.infer<typeof AllergyCreateSchema>
+export type AllergyUpdateInput = z.infer<typeof AllergyUpdateSchema>
+export type PatientAllergiesInput = z.infer<typeof PatientAllergiesSchema>
+export type AllergyMigrationListInput = z.infer<
+	typeof AllergyMigrationListSchema
+>
+export type AllergyImportInput = z.infer<typeof AllergyImportSchema>
@@ -0,0 +1,72 @@
+/**
+ * ⚪ DEVELOPMENTAL MODULE - SCHEMA LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Zod validation schemas for developmental surveillance: per-visit
+ *   milestone checklists, check history and referral worklist
+ * - Type inference
+ * - NO business logic
+ */
+
+import { z } from 'zod'
+
+import {
+	dateSchema,
+	developmentDomainSchema,
+	developmentStatusSchema,
+	idSchema,
+	patientIdSchema,
+} from './helpers/enums'
+
+// ==================== CHECKLIST SCHEMAS ====================
+
+export const DevelopmentalChecklistSchema = z.object({
+	// Defaults to today; the checklist follows the age on this date
+	date: dateSchema.optional(),
+	patientId: patientIdSchema,
+})
+
+export const DevelopmentalCheckItemSchema = z.object({
+	achieved: z.boolean(),
+	milestoneId: idSchema,
+})
+
+export const RecordDevelopmentalCheckSchema = z.object({
+	appointmentId: idSchema.optional(),
+	checkDate: dateSchema.default(() => new Date()),
+	concerns: z.string().max(2000).optional(),
+	items: z.array(DevelopmentalCheckItemSchema).min(1),
+	patientId: patientIdSchema,
+	recommendations: z.string().max(2000).optional(),
+	// Clinician's judgement replaces the status derived from the items
+	statuses: z
+		.partialRecord(developmentDomainSchema, developmentStatusSchema)
+		.optional(),
+})
+
+// ==================== HISTORY SCHEMAS ====================
+
+export const PatientDevelopmentSchema = z.object({
+	patientId: patientIdSchema,
+})
+
+export const DevelopmentReferralListSchema = z.object({
+	limit: z.number().int().min(1).max(100).default(20),
+	page: z.number().int().min(1).default(1),
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type DevelopmentalChecklistInput = z.infer<
+	typeof DevelopmentalChecklistSchema
+>
+export type RecordDevelopmentalCheckInput = z.infer<
+	typeof RecordDevelopmentalCheckSchema
+>
+export type DevelopmentReferralListInput = z.infer<
+	typeof DevelopmentReferralListSchema
+>
+
+// ==================== CONSTANTS ====================
+
+export const DEVELOPMENT_NOTIFICATION_TYPE = 'DEVELOPMENT_REFERRAL'
@@ -7,6 +7,9 @@ import {
 	encounterTypeSchema,
 	genderSchema,
 	idSchema,
+	pewsBehaviorSchema,
+	respiratoryEffortSchema,
+	skinColorSchema,
 } from './helpers/enums'
 
 // ==================== MEDICAL VALIDATION HELPERS ====================
@@ -19,8 +22,11 @@ const temperatureSchema = z.number().min(30).max(45)
 export const VitalSignsShape = z.object({
 	ageDays: z.number().int().min(0).max(474_800).optional(),
 	ageMonths: z.number().int().min(0).max(1560).optional(),
+	// PEWS observations
+	behavior: pewsBehaviorSchema.optional(),
 	bmi: z.number().min(10).max(80).optional(),
 	bodyTemperature: temperatureSchema.optional(),
+	capillaryRefillSeconds: z.number().int().min(0).max(15).optional(),
 	clinicId: clinicIdSchema.optional(),
 	diastolic: z.number().min(30).max(150).optional(),
 	encounterId: idSchema.optional(),
@@ -30,10 +36,13 @@ export const VitalSignsShape = z.object({
 	id: z.uuid().optional(),
 	medicalId: idSchema.optional(),
 	notes: z.string().max(1000).optional(),
+	oxygenFlowLpm: z.number().min(0).max(60).optional(), // supplemental O2, L/min
 	oxygenSaturation: z.number().min(50).max(100).optional(),
 	patientId: idSchema,
 	recordedAt: dateSchema.default(() => new Date()),
+	respiratoryEffort: respiratoryEffortSchema.optional(),
 	respiratoryRate: z.number().min(5).max(100).optional(),
+	skinColor: skinColorSchema.optional(),
 	systolic: z.number().min(50).max(250).optional(),
 	weight: z.number().min(0.5).max(500).optional(),
 })
@@ -190,8 +199,22 @@ export const DiagnosisByMedicalRecordSchema = DiagnosisBaseSchema.pick({
 	clinicId: true,
 	medicalId: true,
 })
+// Omitted keeps the recorded value, null clears it
 export const VitalSignsUpdateSchema = VitalSignsShape.partial().extend({
+	behavior: VitalSignsShape.shape.behavior.nullable(),
+	bodyTemperature: VitalSignsShape.shape.bodyTemperature.nullable(),
+	capillaryRefillSeconds:
+		VitalSignsShape.shape.capillaryRefillSeconds.nullable(),
+	diastolic: VitalSignsShape.shape.diastolic.nullable(),
+	heartRate: VitalSignsShape.shape.heartRate.nullable(),
 	id: idSchema,
+	notes: VitalSignsShape.shape.notes.nullable(),
+	oxygenFlowLpm: VitalSignsShape.shape.oxygenFlowLpm.nullable(),
+	oxygenSaturation: VitalSignsShape.shape.oxygenSaturation.nullable(),
+	respiratoryEffort: VitalSignsShape.shape.respiratoryEffort.nullable(),
+	respiratoryRate: VitalSignsShape.shape.respiratoryRate.nullable(),
+	skinColor: VitalSignsShape.shape.skinColor.nullable(),
+	systolic: VitalSignsShape.shape.systolic.nullable(),
 })
 export const DiagnosisByAppointmentSchema = DiagnosisBaseSchema.pick({
 	appointmentId: true,
@@ -224,6 +247,9 @@ export const VitalSignsFilterSchema = z.object({
 		.optional(),
 })
 
+// Urgent PEWS notification to the appointment's doctor
+export const PEWS_NOTIFICATION_TYPE = 'PEWS_URGENT'
+
 // ==================== TYPE EXPORTS ====================
 export type DiagnosisCreateInput = z.infer<typeof DiagnosisCreateSchema>
 export type DiagnosisUpdateInput = z.infer<typeof DiagnosisUpdateSchema>
@@ -0,0 +1,86 @@
+/**
+ * ⚪ FEEDING MODULE - SCHEMA LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Zod validation schemas for the infant feeding log, daily intake
+ *   summaries and low intake alerts
+ * - Type inference
+ * - NO business logic
+ */
+
+import { z } from 'zod'
+
+import {
+	dateSchema,
+	feedingTypeSchema,
+	idSchema,
+	patientIdSchema,
+} from './helpers/enums'
+
+export const breastSideSchema = z.enum(['LEFT', 'RIGHT', 'BOTH'])
+
+// ==================== LOG SCHEMAS ====================
+
+const feedingLogFields = {
+	amount: z.number().min(0).max(500).nullish(), // mL
+	breast: breastSideSchema.nullish(),
+	date: dateSchema,
+	duration: z.number().int().min(1).max(180).nullish(), // minutes
+	notes: z.string().max(500).nullish(),
+	type: feedingTypeSchema,
+}
+
+export const FeedingLogCreateSchema = z.object({
+	...feedingLogFields,
+	// Feeding session the entry is logged in
+	appointmentId: idSchema.optional(),
+	date: dateSchema.default(() => new Date()),
+	patientId: patientIdSchema,
+})
+
+export const FeedingLogUpdateSchema = z
+	.object(feedingLogFields)
+	.partial()
+	.extend({ id: idSchema })
+
+export const FeedingLogByIdSchema = z.object({
+	id: idSchema,
+})
+
+export const FeedingLogListSchema = z.object({
+	from: dateSchema.optional(),
+	limit: z.number().int().min(1).max(500).default(100),
+	patientId: patientIdSchema,
+	to: dateSchema.optional(),
+})
+
+// ==================== SUMMARY SCHEMAS ====================
+
+export const FeedingSummarySchema = z.object({
+	// Days ending on `date` (default today)
+	date: dateSchema.optional(),
+	days: z.number().int().min(1).max(31).default(7),
+	patientId: patientIdSchema,
+})
+
+export const FeedingSessionSchema = z.object({
+	appointmentId: idSchema,
+})
+
+export const ReviewFeedingAlertSchema = z.object({
+	id: idSchema,
+	reviewNotes: z.string().max(2000).optional().nullable(),
+	status: z.enum(['ACKNOWLEDGED', 'RESOLVED']),
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type FeedingLogCreateInput = z.infer<typeof FeedingLogCreateSchema>
+export type FeedingLogUpdateInput = z.infer<typeof FeedingLogUpdateSchema>
+export type FeedingLogListInput = z.infer<typeof FeedingLogListSchema>
+export type FeedingSummaryInput = z.infer<typeof FeedingSummarySchema>
+export type ReviewFeedingAlertInput = z.infer<typeof ReviewFeedingAlertSchema>
+
+// ==================== CONSTANTS ====================
+
+export const FEEDING_NOTIFICATION_TYPE = 'FEEDING_ALERT'
@@ -3,6 +3,9 @@ import z from 'zod'
 import {
 	ChartType,
 	Gender,
+	GrowthAlertRule,
+	GrowthAlertStatus,
+	GrowthReference,
 	GrowthStatus,
 	MeasurementType,
 } from '../types/prisma-types'
@@ -45,6 +48,8 @@ export const GrowthRecordShape = z.object({
 	ageDays: z.number().int().min(0).max(1825),
 	ageMonths: z.number().int().min(0).max(60),
 	ageYears: z.number().int().min(0).max(5),
+	// Bilateral pitting oedema, for the acute malnutrition classification
+	bilateralOedema: z.boolean().optional(),
 	bmi: z.number().min(5).max(50).optional(),
 	bmiForAgeZ: z.number().min(-5).max(5).optional(),
 	classification: z.string().max(100).optional(),
@@ -61,6 +66,7 @@ export const GrowthRecordShape = z.object({
 	// Additional info
 	measurementType: measurementTypeSchema.default('Weight'),
 	medicalId: idSchema.optional(),
+	muac: z.number().min(5).max(30).optional(), // cm, mid-upper-arm circumference
 	notes: z.string().max(1000).optional(),
 	patientId: patientIdSchema,
 	percentile: z.number().min(0).max(100).optional(),
@@ -285,7 +291,7 @@ export const growthPercentileSchema = z.object({
 	date: z.date(),
 	measurement: z.object({
 		ageMonths: z.number().min(0).max(240),
-		type: z.enum(['WFA', 'HFA', 'HcFA']),
+		type: z.enum(['WFA', 'HFA', 'HcFA', 'BFA', 'ACFA']),
 		value: z.number().min(0).max(500),
 	}),
 	patientId: z.uuid(),
@@ -478,19 +484,67 @@ export const MultipleZScoreSchema = z.object({
 
 // ==================== CHART SCHEMAS ====================
 
+const chartAgeAxisSchema = z.enum(['CHRONOLOGICAL', 'CORRECTED'])
+
 export const ZScoreChartSchema = z.object({
 	chartType: z.enum(['WFA', 'HFA', 'HcFA']).default('WFA'),
 	gender: genderSchema,
 })
 
+export const ReferenceZScoreChartSchema = z.object({
+	chartType: z.enum(['WFA', 'HFA', 'HcFA', 'BFA', 'ACFA']).default('WFA'),
+	gender: genderSchema,
+	reference: z.enum(GrowthReference).default('WHO_2006'),
+	ageAxis: chartAgeAxisSchema.default('CHRONOLOGICAL'),
+})
+
 export const PatientZScoreChartSchema = z.object({
-	chartType: z.enum(['WFA', 'HFA', 'HcFA']).default('WFA'),
+	// Defaults to corrected age for babies born preterm
+	ageAxis: chartAgeAxisSchema.optional(),
+	chartType: z.enum(['WFA', 'HFA', 'HcFA', 'BFA', 'ACFA']).default('WFA'),
 
 	clinicId: clinicIdSchema,
 	id: idSchema,
 	patientId: patientIdSchema,
 })
 
+// ==================== EXPORT SCHEMAS ====================
+
+export const GrowthChartExportSchema = z.object({
+	ageAxis: chartAgeAxisSchema.optional(),
+	// Also save to the patient's files, to attach to a referral
+	attach: z.boolean().default(false),
+	chartType: z.enum(['WFA', 'HFA', 'HcFA', 'BFA', 'ACFA']).default('WFA'),
+	fileType: z.enum(['PDF', 'SVG']).default('PDF'),
+	format: z.enum(['PARENT', 'CLINICIAN']).default('PARENT'),
+	patientId: patientIdSchema,
+})
+
+// ==================== SETTING SCHEMAS ====================
+
+export const GrowthReferenceSettingSchema = z.object({
+	schoolAgeGrowthReference: z.enum(['WHO_2007', 'CDC_2000']),
+})
+
+// ==================== GROWTH ALERT SCHEMAS ====================
+
+export const GrowthConcernsFilterSchema = z.object({
+	limit: z.coerce.number().int().min(1).max(100).default(25),
+	page: z.coerce.number().int().min(1).default(1),
+	patientId: z.uuid().optional(),
+	rule: z.enum(GrowthAlertRule).optional(),
+	status: z
+		.array(z.enum(GrowthAlertStatus))
+		.min(1)
+		.default(['OPEN', 'ACKNOWLEDGED']),
+})
+
+export const ReviewGrowthAlertSchema = z.object({
+	id: z.uuid(),
+	reviewNotes: z.string().max(2000).optional().nullable(),
+	status: z.enum(['ACKNOWLEDGED', 'RESOLVED']),
+})
+
 // ==================== PROJECTION SCHEMAS ====================
 
 export const GrowthProjectionSchema = z.object({
@@ -509,10 +563,23 @@ export type ZScoreCalculationInput = z.infer<typeof ZScoreCalculationSchema>
 export type MultipleZScoreInput = z.infer<typeof MultipleZScoreSchema>
 export type ZScoreChartInput = z.infer<typeof ZScoreChartSchema>
 export type PatientZScoreChartInput = z.infer<typeof PatientZScoreChartSchema>
+export type GrowthChartExportInput = z.infer<typeof GrowthChartExportSchema>
+export type ReferenceZScoreChartInput = z.infer<
+	typeof ReferenceZScoreChartSchema
+>
+export type GrowthReferenceSettingInput = z.infer<
+	typeof GrowthReferenceSettingSchema
+>
+export type GrowthConcernsFilterInput = z.infer<
+	typeof GrowthConcernsFilterSchema
+>
+export type ReviewGrowthAlertInput = z.infer<typeof ReviewGrowthAlertSchema>
 export type GrowthProjectionInput = z.infer<typeof GrowthProjectionSchema>
 
 // ==================== CONSTANTS ====================
 
+export const GROWTH_NOTIFICATION_TYPE = 'GROWTH_ALERT'
+
 export const GROWTH_CLASSIFICATIONS = {
 	NORMAL: 'Normal',
 	OVERWEIGHT: 'Overweight',
@@ -3,9 +3,19 @@
 import * as z from 'zod'
 
 import {
+	AcuteMalnutritionStatus,
+	AefiOutcome,
+	AefiReviewDecision,
+	AefiSeverity,
+	AllergySeverity,
+	AllergyType,
+	AllergyVerificationStatus,
 	AppointmentStatus,
 	AppointmentType,
 	AvailabilityStatus,
+	BilirubinMethod,
+	BilirubinRiskZone,
+	DevelopmentDomain,
 	DevelopmentStatus,
 	DosageUnit,
 	DrugRoute,
@@ -15,19 +25,53 @@ import {
 	Gender,
 	GrowthStatus,
 	ImmunizationStatus,
+	InteractionSeverity,
 	JOBTYPE,
 	LabStatus,
 	MeasurementType,
 	NotificationType,
 	PaymentMethod,
 	PaymentStatus,
+	PewsBehavior,
 	ReminderMethod,
 	ReminderStatus,
+	RespiratoryEffort,
+	ScreeningRisk,
 	ServiceCategory,
+	SkinColor,
 	Status,
+	TherapeuticFeedingStatus,
 	UserRole,
 } from '../../types'
 
+// AEFI
+export const aefiSeveritySchema = z.enum(AefiSeverity)
+export type AefiSeverityType = z.infer<typeof aefiSeveritySchema>
+export const aefiOutcomeSchema = z.enum(AefiOutcome)
+export type AefiOutcomeType = z.infer<typeof aefiOutcomeSchema>
+export const aefiReviewDecisionSchema = z.enum(AefiReviewDecision)
+export type AefiReviewDecisionType = z.infer<typeof aefiReviewDecisionSchema>
+
+// Acute malnutrition
+export const acuteMalnutritionStatusSchema = z.enum(AcuteMalnutritionStatus)
+export type AcuteMalnutritionStatusType = z.infer<
+	typeof acuteMalnutritionStatusSchema
+>
+export const therapeuticFeedingStatusSchema = z.enum(TherapeuticFeedingStatus)
+export type TherapeuticFeedingStatusType = z.infer<
+	typeof therapeuticFeedingStatusSchema
+>
+
+// Allergies
+export const allergyTypeSchema = z.enum(AllergyType)
+export type AllergyTypeType = z.infer<typeof allergyTypeSchema>
+export const allergySeveritySchema = z.enum(AllergySeverity)
+export type AllergySeverityType = z.infer<typeof allergySeveritySchema>
+export const allergyVerificationStatusSchema = z.enum(AllergyVerificationStatus)
+export type AllergyVerificationStatusType = z.infer<
+	typeof allergyVerificationStatusSchema
+>
+
 // Role
 export const roleSchema = z.enum(UserRole)
 export type RoleType = z.infer<typeof roleSchema>
@@ -92,6 +136,28 @@ export type FeedingTypeType = z.infer<typeof feedingTypeSchema>
 export const developmentStatusSchema = z.enum(DevelopmentStatus)
 export type DevelopmentStatusType = z.infer<typeof developmentStatusSchema>
 
+// Development Domain
+export const developmentDomainSchema = z.enum(DevelopmentDomain)
+export type DevelopmentDomainType = z.infer<typeof developmentDomainSchema>
+
+// Screening Risk
+export const screeningRiskSchema = z.enum(ScreeningRisk)
+export type ScreeningRiskType = z.infer<typeof screeningRiskSchema>
+
+// Bilirubin
+export const bilirubinMethodSchema = z.enum(BilirubinMethod)
+export type BilirubinMethodType = z.infer<typeof bilirubinMethodSchema>
+export const bilirubinRiskZoneSchema = z.enum(BilirubinRiskZone)
+export type BilirubinRiskZoneType = z.infer<typeof bilirubinRiskZoneSchema>
+
+// PEWS observations
+export const pewsBehaviorSchema = z.enum(PewsBehavior)
+export type PewsBehaviorType = z.infer<typeof pewsBehaviorSchema>
+export const skinColorSchema = z.enum(SkinColor)
+export type SkinColorType = z.infer<typeof skinColorSchema>
+export const respiratoryEffortSchema = z.enum(RespiratoryEffort)
+export type RespiratoryEffortType = z.infer<typeof respiratoryEffortSchema>
+
 // Immunization Status
 export const immunizationStatusSchema = z.enum(ImmunizationStatus)
 export type ImmunizationStatusType = z.infer<typeof immunizationStatusSchema>
@@ -104,6 +170,9 @@ export type DosageUnitType = z.infer<typeof dosageUnitSchema>
 export const drugRouteSchema = z.enum(DrugRoute)
 export type DrugRouteType = z.infer<typeof drugRouteSchema>
 
+export const interactionSeveritySchema = z.enum(InteractionSeverity)
+export type InteractionSeverityType = z.infer<typeof interactionSeveritySchema>
+
 // Utility function to create enum arrays for select inputs
 export const enumToOptions = <T extends Record<string, string>>(enumObj: T) => {
 	return Object.entries(enumObj).map(([key, value]) => ({
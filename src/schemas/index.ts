@@ -1,13 +1,20 @@
 export * from './admin.schema'
+export * from './allergy.schema'
 export * from './appointment.schema'
 export * from './auth.schema'
 export * from './clinic.schema'
+export * from './developmental.schema'
 export * from './doctor.schema'
 export * from './encounter.schema'
+export * from './feeding.schema'
 export * from './growth.schema'
+export * from './inventory.schema'
+export * from './jaundice.schema'
 export * from './medical.schema'
+export * from './nutrition.schema'
 export * from './patient.schema'
 export * from './prescription.schema'
+export * from './screening.schema'
 export * from './service.schema'
 export * from './vac.schema'
 export * from './visit.schema'
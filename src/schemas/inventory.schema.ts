@@ -0,0 +1,82 @@
+/**
+ * ⚪ INVENTORY MODULE - SCHEMA LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Zod validation schemas for vaccine lots and stock movements
+ * - Type inference
+ * - NO business logic
+ */
+
+import { z } from 'zod'
+
+import { clinicIdSchema, dateSchema } from './helpers/enums'
+
+// ==================== VACCINE LOT SCHEMAS ====================
+
+export const VaccineLotCreateSchema = z.object({
+	clinicId: clinicIdSchema,
+	coldChainNotes: z.string().max(2000).optional(),
+	expiryDate: dateSchema,
+	lotNumber: z.string().trim().min(1, 'Lot number is required'),
+	lowStockThreshold: z.number().int().min(0).default(10),
+	manufacturer: z.string().trim().optional(),
+	quantityReceived: z
+		.number()
+		.int()
+		.min(1, 'Quantity received must be at least 1'),
+	receivedAt: dateSchema.optional(),
+	vaccineName: z.string().trim().min(1, 'Vaccine name is required'),
+})
+
+export const VaccineLotUpdateSchema = z.object({
+	coldChainNotes: z.string().max(2000).nullable().optional(),
+	expiryDate: dateSchema.optional(),
+	id: z.uuid(),
+	isActive: z.boolean().optional(),
+	lowStockThreshold: z.number().int().min(0).optional(),
+	manufacturer: z.string().trim().nullable().optional(),
+})
+
+export const AdjustVaccineLotStockSchema = z.object({
+	id: z.uuid(),
+	// Positive for restock, negative for wastage / cold-chain breach
+	quantityChange: z
+		.number()
+		.int()
+		.refine(value => value !== 0, 'Quantity change cannot be zero'),
+	reason: z.string().trim().min(3, 'A reason is required for adjustments'),
+})
+
+export const VaccineLotFilterSchema = z.object({
+	clinicId: clinicIdSchema,
+	includeEmpty: z.boolean().default(false),
+	includeExpired: z.boolean().default(false),
+	limit: z.number().int().min(1).max(200).default(100),
+	vaccineName: z.string().optional(),
+})
+
+export const VaccineLotByIdSchema = z.object({
+	id: z.uuid(),
+})
+
+export const AvailableLotsSchema = z.object({
+	asOf: dateSchema.optional(),
+	vaccineName: z.string().min(1),
+})
+
+// ==================== TYPE INFERENCES ====================
+
+export type VaccineLotCreateInput = z.infer<typeof VaccineLotCreateSchema>
+export type VaccineLotUpdateInput = z.infer<typeof VaccineLotUpdateSchema>
+export type AdjustVaccineLotStockInput = z.infer<
+	typeof AdjustVaccineLotStockSchema
+>
+export type VaccineLotFilterInput = z.infer<typeof VaccineLotFilterSchema>
+export type AvailableLotsInput = z.infer<typeof AvailableLotsSchema>
+
+// ==================== CONSTANTS ====================
+
+/** Lots expiring within this many days raise a near-expiry alert */
+export const NEAR_EXPIRY_DAYS = 30
+
+export const INVENTORY_NOTIFICATION_TYPE = 'INVENTORY_ALERT'
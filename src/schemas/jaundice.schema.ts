@@ -0,0 +1,98 @@
+/**
+ * ⚪ JAUNDICE MODULE - SCHEMA LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Zod validation schemas for neonatal bilirubin measurements and the
+ *   nomogram / treatment threshold tables they are assessed against
+ * - Type inference
+ * - NO business logic
+ */
+
+import { z } from 'zod'
+
+import {
+	bilirubinMethodSchema,
+	bilirubinRiskZoneSchema,
+	dateSchema,
+	idSchema,
+	patientIdSchema,
+} from './helpers/enums'
+
+// ==================== TABLE SCHEMAS ====================
+
+const tableCodeSchema = z
+	.string()
+	.regex(/^[A-Z0-9_]+$/, 'Use upper-case letters, digits and underscores')
+	.max(40)
+
+const gestationalWeeksSchema = z.number().int().min(22).max(44)
+
+export const BilirubinCurveSchema = z.object({
+	hours: z.array(z.number().int().min(0).max(336)).min(1),
+	kind: z.enum(['NOMOGRAM', 'PHOTOTHERAPY', 'EXCHANGE']),
+	label: z.string().min(1).max(120),
+	maxGestationalAgeWeeks: gestationalWeeksSchema.nullish(),
+	minGestationalAgeWeeks: gestationalWeeksSchema.nullish(),
+	percentile: z.number().int().min(1).max(99).nullish(),
+	values: z.array(z.number().min(0).max(40)).min(1), // mg/dL
+	withRiskFactors: z.boolean().nullish(),
+})
+
+export const BilirubinZoneSchema = z.object({
+	minPercentile: z.number().int().min(1).max(99).nullish(),
+	recheckHours: z.number().int().min(1).max(168).nullish(),
+	recommendation: z.string().min(1).max(1000),
+	zone: bilirubinRiskZoneSchema,
+})
+
+export const SaveBilirubinTableSchema = z.object({
+	approachingMarginMgDl: z.number().min(0).max(10).default(2),
+	approachingRecheckHours: z.number().int().min(1).max(168),
+	code: tableCodeSchema,
+	curves: z.array(BilirubinCurveSchema).min(1),
+	description: z.string().max(2000).nullish(),
+	exchangeRecheckHours: z.number().int().min(1).max(168),
+	isActive: z.boolean().default(true),
+	minGestationalAgeWeeks: gestationalWeeksSchema.default(35),
+	name: z.string().min(1).max(120),
+	phototherapyRecheckHours: z.number().int().min(1).max(168),
+	riskFactorCodes: z.array(tableCodeSchema).default([]),
+	riskFactorLabels: z.array(z.string().min(1).max(120)).default([]),
+	source: z.string().max(300).nullish(),
+	tcbConfirmMarginMgDl: z.number().min(0).max(10).default(3),
+	version: z.string().min(1).max(40),
+	zones: z.array(BilirubinZoneSchema).min(1),
+})
+
+export const BilirubinTableByIdSchema = z.object({
+	id: idSchema,
+})
+
+// ==================== MEASUREMENT SCHEMAS ====================
+
+export const RecordBilirubinSchema = z.object({
+	// Worked out from the date and time of birth when omitted
+	ageHours: z.number().int().min(0).max(336).optional(),
+	encounterId: idSchema.optional(),
+	// Patient's gestational age when omitted
+	gestationalAgeWeeks: gestationalWeeksSchema.optional(),
+	measuredAt: dateSchema.default(() => new Date()),
+	method: bilirubinMethodSchema,
+	notes: z.string().max(2000).optional(),
+	patientId: patientIdSchema,
+	// Codes from the table's neurotoxicity risk factors
+	riskFactors: z.array(tableCodeSchema).default([]),
+	// Active table when omitted
+	tableId: idSchema.optional(),
+	unit: z.enum(['MG_DL', 'UMOL_L']).default('MG_DL'),
+	value: z.number().positive().max(700),
+})
+
+export const PatientBilirubinSchema = z.object({
+	patientId: patientIdSchema,
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type SaveBilirubinTableInput = z.infer<typeof SaveBilirubinTableSchema>
+export type RecordBilirubinInput = z.infer<typeof RecordBilirubinSchema>
@@ -0,0 +1,64 @@
+/**
+ * ⚪ NUTRITION MODULE - SCHEMA LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Zod validation schemas for the outpatient therapeutic feeding
+ *   programme (OTP) for acute malnutrition
+ * - Type inference
+ * - NO business logic
+ */
+
+import { z } from 'zod'
+
+import {
+	dateSchema,
+	idSchema,
+	patientIdSchema,
+	therapeuticFeedingStatusSchema,
+} from './helpers/enums'
+
+// ==================== OTP SCHEMAS ====================
+
+export const OtpEnrollSchema = z.object({
+	// Growth record with the SAM/MAM classification the child is admitted on
+	admissionRecordId: idSchema,
+	patientId: patientIdSchema,
+})
+
+export const OtpFollowUpSchema = z.object({
+	bilateralOedema: z.boolean().default(false),
+	date: dateSchema.default(() => new Date()),
+	enrollmentId: idSchema,
+	height: z.number().min(40).max(130).optional(), // cm
+	muac: z.number().min(5).max(30).optional(), // cm
+	notes: z.string().max(1000).optional(),
+	rutfSachets: z.number().int().min(0).max(200).optional(),
+	weight: z.number().min(0.5).max(40), // kg
+})
+
+export const OtpDischargeSchema = z.object({
+	dischargeNotes: z.string().max(2000).optional(),
+	enrollmentId: idSchema,
+	status: therapeuticFeedingStatusSchema.exclude(['ACTIVE']),
+})
+
+export const OtpByIdSchema = z.object({
+	id: idSchema,
+})
+
+export const PatientOtpSchema = z.object({
+	patientId: patientIdSchema,
+})
+
+export const OtpListSchema = z.object({
+	limit: z.number().int().min(1).max(100).default(20),
+	page: z.number().int().min(1).default(1),
+	status: therapeuticFeedingStatusSchema.default('ACTIVE'),
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type OtpEnrollInput = z.infer<typeof OtpEnrollSchema>
+export type OtpFollowUpInput = z.infer<typeof OtpFollowUpSchema>
+export type OtpDischargeInput = z.infer<typeof OtpDischargeSchema>
+export type OtpListInput = z.infer<typeof OtpListSchema>
@@ -45,8 +45,21 @@ export const PatientShape = z.object({
 	email: emailSchema.nullable(),
 	emergencyContactName: nameSchema.optional().nullable(),
 	emergencyContactNumber: phoneNumberSchema.nullable(),
+	fatherHeightCm: z
+		.number()
+		.min(120, 'Height must be at least 120 cm')
+		.max(230, 'Height must be at most 230 cm')
+		.optional()
+		.nullable(),
 	firstName: nameSchema,
 	gender: genderSchema,
+	// Weeks at birth, days as a fraction (32+4 is 32.57)
+	gestationalAgeWeeks: z
+		.number()
+		.min(22, 'Gestational age must be at least 22 weeks')
+		.max(44, 'Gestational age must be at most 44 weeks')
+		.optional()
+		.nullable(),
 	image: z.string().url('Invalid image URL').optional().nullable(),
 	lastName: nameSchema,
 	maritalStatus: z
@@ -63,6 +76,12 @@ export const PatientShape = z.object({
 		.max(5000, 'Medical history must be less than 5000 characters')
 		.optional()
 		.nullable(),
+	motherHeightCm: z
+		.number()
+		.min(120, 'Height must be at least 120 cm')
+		.max(230, 'Height must be at most 230 cm')
+		.optional()
+		.nullable(),
 	nutritionalStatus: z
 		.string()
 		.max(100, 'Nutritional status must be less than 100 characters')
@@ -8,6 +8,7 @@ import {
   DoseGuidelineRouteEnum,
   drugRouteSchema,
   idSchema,
+  interactionSeveritySchema,
   patientIdSchema,
 } from './helpers/enums'
 export const DoseGuidelineBaseSchema = z.object({
@@ -78,12 +79,86 @@ export const DrugFilterSchema = z.object({
   search: z.string().max(100).optional(),
 })
 
+export const DrugByIdSchema = z.object({
+  id: idSchema,
+})
+
+// Retire (isActive false) or reinstate a drug or a guideline
+export const FormularyStatusSchema = z.object({
+  id: idSchema,
+  isActive: z.boolean().default(false),
+})
+
+// ==================== NICU DATA IMPORT / EXPORT ====================
+// nicu_data.json stores missing values as "N/A"
+const nicuValueSchema = z.union([z.number(), z.string().max(500)]).nullable()
+
+export const NicuGuidelineRowSchema = z.object({
+  CLINICAL_INDICATION: z.string().max(500),
+  COMPATIBILITY_DILUENT: nicuValueSchema,
+  DOSE_UNIT: nicuValueSchema,
+  FINAL_CONCENTRATION_MG_ML: nicuValueSchema,
+  FREQUENCY_DAYS: nicuValueSchema,
+  GESTATIONAL_AGE_WEEKS_MAX: nicuValueSchema,
+  GESTATIONAL_AGE_WEEKS_MIN: nicuValueSchema,
+  MAX_DOSE_PER_24H: nicuValueSchema,
+  MAX_DOSE_PER_KG: nicuValueSchema,
+  MIN_DOSE_PER_KG: nicuValueSchema,
+  MIN_INFUSION_TIME_MIN: nicuValueSchema,
+  POST_NATAL_AGE_DAYS_MAX: nicuValueSchema,
+  POST_NATAL_AGE_DAYS_MIN: nicuValueSchema,
+  ROUTE: z.string().max(50),
+  STOCK_CONCENTRATION_MG_ML: nicuValueSchema,
+})
+
+export const FormularyImportSchema = z.object({
+  data: z.record(DrugBaseSchema.shape.name, z.array(NicuGuidelineRowSchema)),
+  // Preview the diff without writing anything
+  dryRun: z.boolean().default(true),
+  // Retire active guidelines of imported drugs that are not in the file
+  retireMissing: z.boolean().default(false),
+})
+
+export const FormularyExportSchema = z.object({
+  includeRetired: z.boolean().default(false),
+})
+
+// ==================== DRUG INTERACTIONS ====================
+// One row of prisma/data/drug_interactions.json
+export const InteractionEntrySchema = z.object({
+  drugA: z.string().trim().min(1).max(200),
+  drugB: z.string().trim().min(1).max(200),
+  management: z.string().trim().min(1).max(2000),
+  mechanism: z.string().trim().min(1).max(2000),
+  severity: interactionSeveritySchema,
+  source: z.string().max(500).optional(),
+})
+
+export const InteractionImportSchema = z.object({
+  entries: z.array(InteractionEntrySchema).min(1).max(5000),
+  // Deactivate stored pairs that are not in the file
+  replace: z.boolean().default(false),
+})
+
+export const InteractionFilterSchema = z.object({
+  includeInactive: z.boolean().default(false),
+  limit: z.number().int().min(1).max(100).default(20),
+  page: z.number().int().min(1).default(1),
+  search: z.string().max(100).optional(),
+  severity: interactionSeveritySchema.optional(),
+})
+
 // Types
 export type DoseGuidelineCreateInput = z.infer<typeof DoseGuidelineCreateSchema>
 export type DoseGuidelineUpdateInput = z.infer<typeof DoseGuidelineUpdateSchema>
 export type DrugCreateInput = z.infer<typeof DrugCreateSchema>
 export type DrugUpdateInput = z.infer<typeof DrugUpdateSchema>
 export type DrugFilterInput = z.infer<typeof DrugFilterSchema>
+export type FormularyStatusInput = z.infer<typeof FormularyStatusSchema>
+export type FormularyImportInput = z.infer<typeof FormularyImportSchema>
+export type FormularyExportInput = z.infer<typeof FormularyExportSchema>
+export type InteractionImportInput = z.infer<typeof InteractionImportSchema>
+export type InteractionFilterInput = z.infer<typeof InteractionFilterSchema>
 
 export const PharmacyRefillSchema = z.object({
   notes: z.string().max(500).optional(),
@@ -265,15 +340,112 @@ export const PrescriptionBaseSchema = z
     }
   )
 
-export const PrescriptionCreateSchema = PrescribedItemShape.extend({
+// ==================== PRESCRIBING SCHEMAS ====================
+export const PrescriptionItemInputSchema = PrescribedItemShape.pick({
+  dosageUnit: true,
+  dosageValue: true,
+  drugId: true,
+  drugRoute: true,
+  duration: true,
+  frequency: true,
+  instructions: true,
+}).extend({
+  // Required when the dose check flags this item as out of range
+  overrideReason: z
+    .string()
+    .trim()
+    .min(10, 'Override reason must be at least 10 characters')
+    .max(1000)
+    .optional(),
+})
+
+export const PrescriptionCreateSchema = z.object({
   clinicId: clinicIdSchema, // Required for create
+  doctorId: doctorIdSchema.optional(), // Defaults to the prescriber's doctor profile
+  encounterId: idSchema,
+  endDate: dateSchema.optional(),
+  instructions: z
+    .string()
+    .max(2000, 'Instructions must be less than 2000 characters')
+    .optional(),
+  issuedDate: dateSchema.default(() => new Date()),
+  items: z
+    .array(PrescriptionItemInputSchema)
+    .min(1, 'At least one prescribed item is required'),
+  medicalRecordId: idSchema,
+  patientId: patientIdSchema,
 })
 
-export const PrescriptionUpdateSchema = PrescribedItemShape.partial().extend(
-  {
-    id: idSchema,
-  }
-)
+export const PrescriptionUpdateSchema = z.object({
+  endDate: dateSchema.nullable().optional(),
+  id: idSchema,
+  instructions: z.string().max(2000).nullable().optional(),
+  // Replaces every item; each one is re-checked against the guidelines
+  items: z
+    .array(PrescriptionItemInputSchema)
+    .min(1, 'At least one prescribed item is required')
+    .optional(),
+})
+
+export const PrescriptionCancelSchema = z.object({
+  id: idSchema,
+  reason: z.string().trim().min(3, 'A cancellation reason is required').max(1000),
+})
+
+export const PrescriptionRenewSchema = z.object({
+  endDate: dateSchema.optional(),
+  id: idSchema,
+  issuedDate: dateSchema.default(() => new Date()),
+  // Doses are re-checked against the current weight on renewal
+  overrides: z
+    .array(
+      z.object({
+        drugId: idSchema,
+        reason: z
+          .string()
+          .trim()
+          .min(10, 'Override reason must be at least 10 characters')
+          .max(1000),
+      })
+    )
+    .default([]),
+})
+
+export const PrescriptionDoseCheckSchema = z.object({
+  items: z.array(PrescriptionItemInputSchema).min(1),
+  patientId: patientIdSchema,
+})
+
+export const PrescriptionByIdSchema = z.object({
+  id: idSchema,
+})
+
+// Dose calculator - weight and age come from the patient's chart
+export const PatientDoseCalculationSchema = z.object({
+  drugId: idSchema,
+  indication: z.string().trim().max(500).optional(),
+  patientId: patientIdSchema,
+  route: drugRouteSchema.optional(),
+})
+
+// ==================== INFUSION PREPARATION SCHEMAS ====================
+// Intermittent guidelines take a dose in mg, continuous ones (mcg/kg/min,
+// mg/kg/hr) take the rate in the guideline unit
+export const InfusionPreparationSchema = z
+  .object({
+    doseMg: z.number().positive().max(100_000).optional(),
+    doseRate: z.number().positive().max(1000).optional(),
+    guidelineId: idSchema,
+    infusionTimeMin: z.number().int().positive().max(1440).optional(),
+    patientId: patientIdSchema,
+    // Product on hand when it differs from the guideline stock
+    stockConcentrationMgMl: z.number().positive().max(10_000).optional(),
+    syringeVolumeMl: z.number().positive().max(100).default(50),
+  })
+  .refine(data => (data.doseMg === undefined) !== (data.doseRate === undefined), {
+    message: 'Provide either a dose in mg or a continuous dose rate',
+    path: ['doseMg'],
+  })
 
 // ==================== PRESCRIPTION FILTER SCHEMAS ====================
 export const PrescriptionFilterSchema = z.object({
@@ -367,8 +539,20 @@ export type PrescribedItemCreateInput = z.infer<
 export type PrescribedItemUpdateInput = z.infer<
   typeof PrescribedItemUpdateSchema
 >
+export type PrescriptionItemInput = z.infer<typeof PrescriptionItemInputSchema>
 export type PrescriptionCreateInput = z.infer<typeof PrescriptionCreateSchema>
 export type PrescriptionUpdateInput = z.infer<typeof PrescriptionUpdateSchema>
+export type PrescriptionCancelInput = z.infer<typeof PrescriptionCancelSchema>
+export type PrescriptionRenewInput = z.infer<typeof PrescriptionRenewSchema>
+export type PrescriptionDoseCheckInput = z.infer<
+  typeof PrescriptionDoseCheckSchema
+>
+export type PatientDoseCalculationInput = z.infer<
+  typeof PatientDoseCalculationSchema
+>
+export type InfusionPreparationInput = z.infer<
+  typeof InfusionPreparationSchema
+>
 export type PrescriptionFilterInput = z.infer<typeof PrescriptionFilterSchema>
 export type DrugInteractionInput = z.infer<typeof DrugInteractionSchema>
 export type DrugInteractionCheckInput = z.infer<
@@ -0,0 +1,99 @@
+/**
+ * ⚪ SCREENING MODULE - SCHEMA LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Zod validation schemas for standardized screening questionnaires
+ *   (M-CHAT-R/F, ASQ-style domain questionnaires) and their results
+ * - Type inference
+ * - NO business logic
+ */
+
+import { z } from 'zod'
+
+import {
+	dateSchema,
+	idSchema,
+	patientIdSchema,
+	screeningRiskSchema,
+} from './helpers/enums'
+
+// ==================== INSTRUMENT SCHEMAS ====================
+
+const instrumentCodeSchema = z
+	.string()
+	.regex(/^[A-Z0-9_]+$/, 'Use upper-case letters, digits and underscores')
+	.max(40)
+
+export const ScreeningQuestionSchema = z.object({
+	domain: z.string().max(60).nullish(),
+	number: z.number().int().min(1),
+	optionPoints: z.array(z.number().int()).min(1),
+	options: z.array(z.string().min(1).max(40)).min(1),
+	text: z.string().min(1).max(500),
+})
+
+export const ScreeningCutoffSchema = z.object({
+	domain: z.string().max(60).nullish(),
+	followUpInstrumentCode: instrumentCodeSchema.nullish(),
+	label: z.string().min(1).max(100),
+	maxScore: z.number().int(),
+	minScore: z.number().int(),
+	recommendation: z.string().max(1000).nullish(),
+	risk: screeningRiskSchema,
+})
+
+export const SaveScreeningInstrumentSchema = z
+	.object({
+		code: instrumentCodeSchema,
+		cutoffs: z.array(ScreeningCutoffSchema).min(1),
+		description: z.string().max(2000).nullish(),
+		dueAgesMonths: z.array(z.number().int().min(0).max(216)).default([]),
+		maxAgeMonths: z.number().int().min(0).max(216),
+		minAgeMonths: z.number().int().min(0).max(216),
+		name: z.string().min(1).max(100),
+		questions: z.array(ScreeningQuestionSchema).min(1),
+		source: z.string().max(200).nullish(),
+		version: z.string().min(1).max(40),
+		windowMonths: z.number().int().min(1).max(24).default(3),
+	})
+	.refine(data => data.minAgeMonths <= data.maxAgeMonths, {
+		message: 'Minimum age must not exceed maximum age',
+		path: ['maxAgeMonths'],
+	})
+
+export const ScreeningInstrumentByIdSchema = z.object({
+	id: idSchema,
+})
+
+// ==================== RESULT SCHEMAS ====================
+
+export const RecordScreeningSchema = z.object({
+	administeredAt: dateSchema.default(() => new Date()),
+	answers: z
+		.array(
+			z.object({
+				answer: z.string().min(1).max(40),
+				number: z.number().int().min(1),
+			})
+		)
+		.min(1),
+	encounterId: idSchema.optional(),
+	instrumentId: idSchema,
+	notes: z.string().max(2000).optional(),
+	patientId: patientIdSchema,
+})
+
+export const PatientScreeningSchema = z.object({
+	patientId: patientIdSchema,
+})
+
+export const ScreeningResultByIdSchema = z.object({
+	id: idSchema,
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type SaveScreeningInstrumentInput = z.infer<
+	typeof SaveScreeningInstrumentSchema
+>
+export type RecordScreeningInput = z.infer<typeof RecordScreeningSchema>
@@ -11,6 +11,9 @@
 import { z } from 'zod'
 
 import {
+	aefiOutcomeSchema,
+	aefiReviewDecisionSchema,
+	aefiSeveritySchema,
 	clinicIdSchema,
 	dateSchema,
 	idSchema,
@@ -77,6 +80,8 @@ export const ImmunizationCreateSchema = z.object({
 	site: z.string().optional(), // e.g., "Left deltoid", "Right thigh"
 	status: immunizationStatusSchema.default('COMPLETED'),
 	vaccine: z.string().min(1, 'Vaccine name is required'),
+	// Inventory lot to draw from; picked first-expiry-first-out when omitted
+	vaccineLotId: z.uuid().optional(),
 })
 
 export const ImmunizationUpdateSchema = z.object({
@@ -93,6 +98,7 @@ export const ImmunizationUpdateSchema = z.object({
 	route: vaccineRouteSchema.optional(),
 	site: z.string().optional(),
 	status: immunizationStatusSchema.optional(),
+	vaccineLotId: z.uuid().optional(),
 })
 
 export const ImmunizationRecordSchema = z.object({
@@ -125,10 +131,14 @@ export const DueVaccinationSchema = z.object({
 	daysOverdue: z.number().int(),
 	doseNumber: z.number().optional(),
 	dueDate: dateSchema,
+	isCatchUp: z.boolean().default(false),
 	isOverdue: z.boolean(),
 	patientAgeMonths: z.number(),
 	patientId: patientIdSchema,
 	patientName: z.string(),
+	// Held after a serious AEFI until a clinician clears it
+	requiresReview: z.boolean().default(false),
+	reviewReason: z.string().optional(),
 	scheduleId: z.string().optional(),
 	vaccineName: z.string(),
 })
@@ -139,6 +149,11 @@ export const VaccinationByIdSchema = z.object({
 	id: idSchema,
 })
 
+export const UpdateImmunizationStatusSchema = z.object({
+	id: idSchema,
+	status: immunizationStatusSchema,
+})
+
 export const VaccinationByPatientSchema = z.object({
 	clinicId: clinicIdSchema,
 	includeCompleted: z.boolean().default(true),
@@ -173,6 +188,110 @@ export const VaccineScheduleFilterSchema = z.object({
 	ageMonths: z.number().int().min(0).max(240).optional(),
 	isMandatory: z.boolean().optional(),
 	limit: z.number().min(1).max(100).default(50),
+	scheduleVersionId: z.uuid().optional(),
+	vaccineName: z.string().optional(),
+})
+
+// ==================== SCHEDULE VERSION SCHEMAS ====================
+
+// CSV cells arrive as strings - accept "yes"/"true"/"1" as mandatory
+const csvBooleanSchema = z.preprocess(
+	value =>
+		typeof value === 'string'
+			? ['1', 'true', 'y', 'yes'].includes(value.trim().toLowerCase())
+			: value,
+	z.boolean()
+)
+
+export const ScheduleEntryImportSchema = z
+	.object({
+		ageInDaysMax: z.coerce.number().int().min(0).optional(),
+		ageInDaysMin: z.coerce.number().int().min(0),
+		description: z.string().optional(),
+		dosesRequired: z.coerce
+			.number()
+			.int()
+			.min(1, 'Doses required must be at least 1'),
+		isMandatory: csvBooleanSchema.default(true),
+		minimumInterval: z.coerce
+			.number()
+			.int()
+			.min(0, 'Minimum interval cannot be negative')
+			.optional(),
+		recommendedAge: z.string().optional(),
+		vaccineName: z.string().trim().min(1, 'Vaccine name is required'),
+	})
+	.refine(
+		entry =>
+			entry.ageInDaysMax === undefined ||
+			entry.ageInDaysMax >= entry.ageInDaysMin,
+		{
+			message: 'ageInDaysMax must not be before ageInDaysMin',
+			path: ['ageInDaysMax'],
+		}
+	)
+
+export const ImportVaccineScheduleSchema = z
+	.object({
+		assignToClinic: z.boolean().default(true),
+		content: z.string().min(1, 'Schedule file is empty'),
+		country: z.string().optional(),
+		effectiveFrom: dateSchema,
+		effectiveTo: dateSchema.optional(),
+		format: z.enum(['json', 'csv']),
+		notes: z.string().optional(),
+		program: z.string().trim().min(1, 'Program name is required'),
+		source: z.string().optional(),
+		version: z.string().trim().min(1, 'Version is required'),
+	})
+	.refine(data => !data.effectiveTo || data.effectiveTo > data.effectiveFrom, {
+		message: 'effectiveTo must be after effectiveFrom',
+		path: ['effectiveTo'],
+	})
+
+export const ScheduleVersionByIdSchema = z.object({
+	scheduleVersionId: z.uuid(),
+})
+
+export const MigratePatientScheduleSchema = z.object({
+	patientId: patientIdSchema,
+	// null reverts the patient to the version applicable at birth
+	scheduleVersionId: z.uuid().nullable(),
+})
+
+// ==================== AEFI SCHEMAS ====================
+
+export const AdverseEventCreateSchema = z.object({
+	description: z.string().max(4000).optional(),
+	followUpDate: dateSchema.optional(),
+	followUpNotes: z.string().max(4000).optional(),
+	hospitalized: z.boolean().default(false),
+	immunizationId: idSchema,
+	onsetAt: dateSchema,
+	outcome: aefiOutcomeSchema.default('UNKNOWN'),
+	severity: aefiSeveritySchema,
+	symptoms: z
+		.array(z.string().trim().min(1))
+		.min(1, 'At least one symptom is required'),
+	treatment: z.string().max(4000).optional(),
+})
+
+export const AdverseEventUpdateSchema = AdverseEventCreateSchema.omit({
+	immunizationId: true,
+})
+	.partial()
+	.extend({ id: idSchema })
+
+export const AdverseEventReviewSchema = z.object({
+	decision: aefiReviewDecisionSchema,
+	id: idSchema,
+	notes: z.string().max(4000).optional(),
+})
+
+export const AefiReportSchema = z.object({
+	endDate: dateSchema.optional(),
+	seriousOnly: z.boolean().default(false),
+	startDate: dateSchema.optional(),
 	vaccineName: z.string().optional(),
 })
 
@@ -231,6 +350,9 @@ export type ScheduleVaccinationInput = z.infer<typeof ScheduleVaccinationSchema>
 export type DueVaccination = z.infer<typeof DueVaccinationSchema>
 
 export type VaccinationByIdInput = z.infer<typeof VaccinationByIdSchema>
+export type UpdateImmunizationStatusInput = z.infer<
+	typeof UpdateImmunizationStatusSchema
+>
 export type VaccinationByPatientInput = z.infer<
 	typeof VaccinationByPatientSchema
 >
@@ -242,6 +364,17 @@ export type OverdueVaccinationsInput = z.infer<typeof OverdueVaccinationsSchema>
 export type VaccineScheduleFilterInput = z.infer<
 	typeof VaccineScheduleFilterSchema
 >
+export type ScheduleEntryImportInput = z.infer<typeof ScheduleEntryImportSchema>
+export type ImportVaccineScheduleInput = z.infer<
+	typeof ImportVaccineScheduleSchema
+>
+export type MigratePatientScheduleInput = z.infer<
+	typeof MigratePatientScheduleSchema
+>
+export type AdverseEventCreateInput = z.infer<typeof AdverseEventCreateSchema>
+export type AdverseEventUpdateInput = z.infer<typeof AdverseEventUpdateSchema>
+export type AdverseEventReviewInput = z.infer<typeof AdverseEventReviewSchema>
+export type AefiReportInput = z.infer<typeof AefiReportSchema>
 
 export type UpcomingCountInput = z.infer<typeof UpcomingCountSchema>
 export type OverdueCountInput = z.infer<typeof OverdueCountSchema>
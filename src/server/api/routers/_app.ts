@@ -5,6 +5,7 @@ import {
 	publicProcedure,
 } from '../trpc'
 import { adminRouter } from './admin.router'
+import { allergyRouter } from './allergy.router'
 import { analyticsRouter } from './analytics'
 import { apiKeysRouter } from './api-keys'
 import { appointmentRouter } from './appointment.router'
@@ -12,51 +13,69 @@ import { authRouter } from './auth-router'
 import { workspaceRouter } from './clinic'
 import { clinicRouter } from './clinic.router'
 import { dashboardRouter } from './dashboard'
+import { developmentalRouter } from './developmental.router'
 import { doctorRouter } from './doctor.router'
 import { feedbackRouter } from './feedback'
+import { feedingRouter } from './feeding.router'
+import { formularyRouter } from './formulary.router'
 import { growthRouter } from './growth.router'
 import { healthRouter } from './health'
+import { inventoryRouter } from './inventory.router'
 import { invitationsRouter } from './invitations'
+import { jaundiceRouter } from './jaundice.router'
 import { maintenanceRouter } from './maintenance'
 import { medicalRouter } from './medical.router'
 import { notificationsRouter } from './notifications'
+import { nutritionRouter } from './nutrition.router'
 import { patientRouter } from './patient.router'
 import { paymentsRouter } from './payment.router'
 import { permissionsRouter } from './permissions'
+import { prescriptionRouter } from './prescription.router'
+import { screeningRouter } from './screening.router'
 import { searchRouter } from './search'
 import { serviceRouter } from './service.router'
 import { staffRouter } from './staff'
 import { storageRouter } from './storage'
 import { themeRouter } from './theme'
 import { userRouter } from './user'
+import { vaccinationRouter } from './vaccination.router'
 
 export const appRouter = createTRPCRouter({
 	admin: adminRouter,
+	allergy: allergyRouter,
 	appointment: appointmentRouter,
 	auth: authRouter,
 	clinic: clinicRouter,
 	dashboard: dashboardRouter,
+	developmental: developmentalRouter,
 	doctor: doctorRouter,
+	formulary: formularyRouter,
 	growth: growthRouter,
 	health: healthRouter,
 	healthCheck: publicProcedure.query(() => {
 		return 'OK'
 	}),
+	inventory: inventoryRouter,
+	jaundice: jaundiceRouter,
 	medical: medicalRouter,
 	notification: notificationsRouter,
+	nutrition: nutritionRouter,
 	patient: patientRouter,
 	payment: paymentsRouter,
+	prescription: prescriptionRouter,
 	privateData: protectedProcedure.query(({ ctx }) => {
 		return {
 			message: 'This is private',
 			user: ctx.session?.user,
 		}
 	}),
+	screening: screeningRouter,
 	search: searchRouter,
 	service: serviceRouter,
 	staff: staffRouter,
 	storage: storageRouter,
 	user: userRouter,
+	vaccination: vaccinationRouter,
 
 	workspace: workspaceRouter,
 	permissions: permissionsRouter,
@@ -67,6 +86,7 @@ export const appRouter = createTRPCRouter({
 	maintenance: maintenanceRouter,
 	apiKeys: apiKeysRouter,
 	feedback: feedbackRouter,
+	feeding: feedingRouter,
 })
 
 export type AppRouter = typeof appRouter
@@ -0,0 +1,131 @@
+/**
+ * 🟣 ALLERGY MODULE - tRPC ROUTER
+ *
+ * RESPONSIBILITIES:
+ * - tRPC procedure definitions for structured patient allergies
+ * - Permission checks (PERMISSIONS.PATIENT.*)
+ * - Input validation via schema
+ * - Delegates to service layer (queries) and actions (mutations)
+ * - NO business logic
+ */
+
+import { TRPCError } from '@trpc/server'
+
+import {
+	createAllergyAction,
+	deleteAllergyAction,
+	importAllergiesAction,
+	updateAllergyAction,
+} from '@/actions/allergy.action'
+import { PERMISSIONS } from '@/lib/permissions/constants'
+import {
+	AllergyByIdSchema,
+	AllergyCreateSchema,
+	AllergyImportSchema,
+	AllergyMigrationListSchema,
+	AllergySuggestionsSchema,
+	AllergyUpdateSchema,
+	PatientAllergiesSchema,
+} from '@/schemas/allergy.schema'
+import * as allergyService from '@/server/services/allergy.service'
+
+import {
+	createPermissionMiddleware,
+	createTRPCRouter,
+	protectedProcedure,
+} from '../trpc'
+
+const viewProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.VIEW)
+)
+const updateProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.UPDATE)
+)
+
+export const allergyRouter = createTRPCRouter({
+	// ==================== QUERIES ====================
+
+	getByPatient: viewProcedure
+		.input(PatientAllergiesSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return allergyService.getPatientAllergies(input, clinicId)
+		}),
+
+	// Parsed from the free-text column, for review before saving
+	getSuggestions: viewProcedure
+		.input(AllergySuggestionsSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return allergyService.getAllergySuggestions(input.patientId, clinicId)
+		}),
+
+	getMigrationList: updateProcedure
+		.input(AllergyMigrationListSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return allergyService.getAllergyMigrationList(input, clinicId)
+		}),
+
+	// ==================== MUTATIONS (Delegates to actions) ====================
+
+	create: updateProcedure
+		.input(AllergyCreateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return createAllergyAction(input, clinicId)
+		}),
+
+	update: updateProcedure
+		.input(AllergyUpdateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return updateAllergyAction(input, clinicId)
+		}),
+
+	delete: updateProcedure
+		.input(AllergyByIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return deleteAllergyAction(input, clinicId)
+		}),
+
+	importSuggestions: updateProcedure
+		.input(AllergyImportSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return importAllergiesAction(input, clinicId)
+		}),
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type AllergyRouter = typeof allergyRouter
@@ -0,0 +1,94 @@
+/**
+ * 🟣 DEVELOPMENTAL MODULE - tRPC ROUTER
+ *
+ * RESPONSIBILITIES:
+ * - tRPC procedure definitions for milestone checklists, developmental
+ *   check history and the referral worklist
+ * - Permission checks (PERMISSIONS.PATIENT.*)
+ * - Input validation via schema
+ * - Delegates to service layer (queries) and actions (mutations)
+ * - NO business logic
+ */
+
+import { TRPCError } from '@trpc/server'
+
+import { recordDevelopmentalCheckAction } from '@/actions/developmental.action'
+import { PERMISSIONS } from '@/lib/permissions/constants'
+import {
+	DevelopmentalChecklistSchema,
+	DevelopmentReferralListSchema,
+	PatientDevelopmentSchema,
+	RecordDevelopmentalCheckSchema,
+} from '@/schemas/developmental.schema'
+import * as developmentalService from '@/server/services/developmental.service'
+
+import {
+	createPermissionMiddleware,
+	createTRPCRouter,
+	protectedProcedure,
+} from '../trpc'
+
+const viewProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.VIEW)
+)
+const updateProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.UPDATE)
+)
+
+export const developmentalRouter = createTRPCRouter({
+	// ==================== QUERIES ====================
+
+	// Milestones to ask about at today's (corrected) age
+	getChecklist: viewProcedure
+		.input(DevelopmentalChecklistSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return developmentalService.getDevelopmentalChecklist(input, clinicId)
+		}),
+
+	getHistory: viewProcedure
+		.input(PatientDevelopmentSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return developmentalService.getDevelopmentHistory(
+				input.patientId,
+				clinicId
+			)
+		}),
+
+	getReferrals: viewProcedure
+		.input(DevelopmentReferralListSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return developmentalService.getDevelopmentReferrals(input, clinicId)
+		}),
+
+	// ==================== MUTATIONS (Delegates to actions) ====================
+
+	recordCheck: updateProcedure
+		.input(RecordDevelopmentalCheckSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return recordDevelopmentalCheckAction(input, clinicId)
+		}),
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type DevelopmentalRouter = typeof developmentalRouter
@@ -0,0 +1,133 @@
+/**
+ * 🟣 FEEDING MODULE - tRPC ROUTER
+ *
+ * RESPONSIBILITIES:
+ * - tRPC procedure definitions for the infant feeding log, daily intake
+ *   summaries, feeding session appointments and low intake alerts
+ * - Permission checks (PERMISSIONS.PATIENT.*)
+ * - Input validation via schema
+ * - Delegates to service layer (queries) and actions (mutations)
+ * - NO business logic
+ */
+
+import { TRPCError } from '@trpc/server'
+
+import {
+	createFeedingLogAction,
+	deleteFeedingLogAction,
+	reviewFeedingAlertAction,
+	updateFeedingLogAction,
+} from '@/actions/feeding.action'
+import { PERMISSIONS } from '@/lib/permissions/constants'
+import {
+	FeedingLogByIdSchema,
+	FeedingLogCreateSchema,
+	FeedingLogListSchema,
+	FeedingLogUpdateSchema,
+	FeedingSessionSchema,
+	FeedingSummarySchema,
+	ReviewFeedingAlertSchema,
+} from '@/schemas/feeding.schema'
+import * as feedingService from '@/server/services/feeding.service'
+
+import {
+	createPermissionMiddleware,
+	createTRPCRouter,
+	protectedProcedure,
+} from '../trpc'
+
+const viewProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.VIEW)
+)
+const updateProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.UPDATE)
+)
+
+export const feedingRouter = createTRPCRouter({
+	// ==================== QUERIES ====================
+
+	getLogs: viewProcedure
+		.input(FeedingLogListSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return feedingService.getFeedingLogs(input, clinicId)
+		}),
+
+	// Feeds, mL and mL/kg/day per day, breastfeeding minutes by side
+	getSummary: viewProcedure
+		.input(FeedingSummarySchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return feedingService.getFeedingSummary(input, clinicId)
+		}),
+
+	// FEEDING_SESSION appointment opened straight into the log
+	getSession: viewProcedure
+		.input(FeedingSessionSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return feedingService.getFeedingSession(input.appointmentId, clinicId)
+		}),
+
+	// ==================== MUTATIONS (Delegates to actions) ====================
+
+	create: updateProcedure
+		.input(FeedingLogCreateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return createFeedingLogAction(input, clinicId)
+		}),
+
+	update: updateProcedure
+		.input(FeedingLogUpdateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return updateFeedingLogAction(input, clinicId)
+		}),
+
+	delete: updateProcedure
+		.input(FeedingLogByIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return deleteFeedingLogAction(input, clinicId)
+		}),
+
+	reviewAlert: updateProcedure
+		.input(ReviewFeedingAlertSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return reviewFeedingAlertAction(input, clinicId)
+		}),
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type FeedingRouter = typeof feedingRouter
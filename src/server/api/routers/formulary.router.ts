@@ -0,0 +1,173 @@
+/**
+ * 🟣 FORMULARY MODULE - tRPC ROUTER
+ *
+ * RESPONSIBILITIES:
+ * - tRPC procedure definitions for drugs, dose guidelines and interactions
+ * - Permission checks (PERMISSIONS.FORMULARY.*)
+ * - Input validation via schema
+ * - Delegates to service layer (queries) and actions (mutations)
+ * - NO business logic
+ */
+
+import { TRPCError } from '@trpc/server'
+
+import {
+	createDrugAction,
+	createGuidelineAction,
+	importInteractionsAction,
+	importNicuDataAction,
+	setDrugStatusAction,
+	setGuidelineStatusAction,
+	updateDrugAction,
+	updateGuidelineAction,
+} from '@/actions/formulary.action'
+import { PERMISSIONS } from '@/lib/permissions/constants'
+import {
+	DoseGuidelineCreateSchema,
+	DoseGuidelineUpdateSchema,
+	DrugByIdSchema,
+	DrugCreateSchema,
+	DrugFilterSchema,
+	DrugUpdateSchema,
+	FormularyExportSchema,
+	FormularyImportSchema,
+	FormularyStatusSchema,
+	InteractionFilterSchema,
+	InteractionImportSchema,
+} from '@/schemas/prescription.schema'
+import * as formularyService from '@/server/services/formulary.service'
+
+import {
+	adminProcedure,
+	createPermissionMiddleware,
+	createTRPCRouter,
+	protectedProcedure,
+} from '../trpc'
+
+const viewProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.FORMULARY.VIEW)
+)
+const manageProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.FORMULARY.MANAGE)
+)
+
+export const formularyRouter = createTRPCRouter({
+	// ==================== QUERIES ====================
+
+	getDrugs: viewProcedure.input(DrugFilterSchema).query(async ({ input }) => {
+		return formularyService.getDrugs(input)
+	}),
+
+	getDrugById: viewProcedure.input(DrugByIdSchema).query(async ({ input }) => {
+		return formularyService.getDrugById(input.id)
+	}),
+
+	getInteractions: viewProcedure
+		.input(InteractionFilterSchema)
+		.query(async ({ input }) => {
+			return formularyService.getInteractions(input)
+		}),
+
+	exportNicuData: manageProcedure
+		.input(FormularyExportSchema)
+		.query(async ({ input }) => {
+			return formularyService.exportNicuData(input)
+		}),
+
+	// ==================== MUTATIONS (Delegates to actions) ====================
+	// Drugs, guidelines and interactions are shared by every clinic, so only
+	// system admins write them
+
+	createDrug: adminProcedure
+		.input(DrugCreateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return createDrugAction(input, clinicId)
+		}),
+
+	updateDrug: adminProcedure
+		.input(DrugUpdateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return updateDrugAction(input, clinicId)
+		}),
+
+	setDrugStatus: adminProcedure
+		.input(FormularyStatusSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return setDrugStatusAction(input, clinicId)
+		}),
+
+	createGuideline: adminProcedure
+		.input(DoseGuidelineCreateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return createGuidelineAction(input, clinicId)
+		}),
+
+	updateGuideline: adminProcedure
+		.input(DoseGuidelineUpdateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return updateGuidelineAction(input, clinicId)
+		}),
+
+	setGuidelineStatus: adminProcedure
+		.input(FormularyStatusSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return setGuidelineStatusAction(input, clinicId)
+		}),
+
+	// Dry run by default - the same call with dryRun false applies the diff
+	importNicuData: adminProcedure
+		.input(FormularyImportSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return importNicuDataAction(input, clinicId)
+		}),
+
+	importInteractions: adminProcedure
+		.input(InteractionImportSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return importInteractionsAction(input, clinicId)
+		}),
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type FormularyRouter = typeof formularyRouter
@@ -15,27 +15,47 @@ import { z } from 'zod'
 import {
 	createGrowthRecordAction,
 	deleteGrowthRecordAction,
+	exportGrowthChartAction,
+	reviewGrowthAlertAction,
 	updateGrowthRecordAction,
+	updateGrowthReferenceSettingAction,
 } from '@/actions/growth.action'
+import { PERMISSIONS } from '@/lib/permissions/constants'
 import {
 	DeleteGrowthRecordSchema,
+	GrowthChartExportSchema,
 	GrowthComparisonSchema,
+	GrowthConcernsFilterSchema,
 	GrowthProjectionSchema,
 	GrowthRecordByIdSchema,
 	GrowthRecordCreateSchema,
 	GrowthRecordsByPatientSchema,
 	GrowthRecordUpdateSchema,
+	GrowthReferenceSettingSchema,
 	GrowthStandardsSchema,
 	GrowthTrendsSchema,
 	MultipleZScoreSchema,
 	PatientZScoreChartSchema,
+	ReferenceZScoreChartSchema,
+	ReviewGrowthAlertSchema,
 	VelocityCalculationSchema,
 	ZScoreCalculationSchema,
 	ZScoreChartSchema,
 } from '@/schemas/growth.schema'
 import * as growthService from '@/server/services/growth.service'
 
-import { createTRPCRouter, protectedProcedure } from '../trpc'
+import {
+	createPermissionMiddleware,
+	createTRPCRouter,
+	protectedProcedure,
+} from '../trpc'
+
+const settingsProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.SETTINGS.UPDATE)
+)
+const exportProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.EXPORT)
+)
 
 export const growthRouter = createTRPCRouter({
 	// ==================== QUERIES (Direct to service with caching) ====================
@@ -152,7 +172,7 @@ export const growthRouter = createTRPCRouter({
 				measurement: z.object({
 					ageMonths: z.number(),
 					date: z.date(),
-					type: z.enum(['WFA', 'HFA', 'HcFA']),
+					type: z.enum(['WFA', 'HFA', 'HcFA', 'BFA', 'ACFA']),
 					value: z.number(),
 				}),
 			})
@@ -251,9 +271,14 @@ export const growthRouter = createTRPCRouter({
 	// ==================== CHART METHODS ====================
 
 	getZScoreChartData: protectedProcedure
-		.input(ZScoreChartSchema)
+		.input(ReferenceZScoreChartSchema)
 		.query(async ({ input }) => {
-			return growthService.getZScoreChartData(input.gender, input.chartType)
+			return growthService.getZScoreChartData(
+				input.gender,
+				input.chartType,
+				input.reference,
+				input.ageAxis
+			)
 		}),
 
 	getPatientZScoreChart: protectedProcedure
@@ -267,7 +292,8 @@ export const growthRouter = createTRPCRouter({
 			return growthService.getPatientZScoreChart(
 				input.patientId,
 				clinicId,
-				input.chartType
+				input.chartType,
+				input.ageAxis
 			)
 		}),
 
@@ -277,6 +303,67 @@ export const growthRouter = createTRPCRouter({
 			return growthService.getZScoreAreas(input.gender, input.chartType)
 		}),
 
+	// PDF or SVG for parents and referral letters
+	exportChart: exportProcedure
+		.input(GrowthChartExportSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return exportGrowthChartAction(input, {
+				ipAddress: ctx.clientIp,
+				userAgent: ctx.headers.get('user-agent') ?? undefined,
+			})
+		}),
+
+	// ==================== GROWTH CONCERNS ====================
+
+	getGrowthConcerns: protectedProcedure
+		.input(GrowthConcernsFilterSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return growthService.getGrowthConcerns(input, clinicId)
+		}),
+
+	reviewGrowthAlert: protectedProcedure
+		.input(ReviewGrowthAlertSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return reviewGrowthAlertAction(input)
+		}),
+
+	// ==================== SETTINGS ====================
+
+	getGrowthReferenceSetting: protectedProcedure.query(async ({ ctx }) => {
+		const clinicId = ctx.clinic?.id
+		if (!clinicId) {
+			throw new TRPCError({ code: 'UNAUTHORIZED' })
+		}
+
+		return growthService.getGrowthReferenceSetting(clinicId)
+	}),
+
+	updateGrowthReferenceSetting: settingsProcedure
+		.input(GrowthReferenceSettingSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return updateGrowthReferenceSettingAction(input)
+		}),
+
 	// ==================== MUTATIONS (Delegates to actions) ====================
 
 	createGrowthRecord: protectedProcedure
@@ -0,0 +1,135 @@
+/**
+ * 🟣 INVENTORY MODULE - tRPC ROUTER
+ *
+ * RESPONSIBILITIES:
+ * - tRPC procedure definitions for vaccine lots
+ * - Permission checks (PERMISSIONS.INVENTORY.*)
+ * - Input validation via schema
+ * - Delegates to service layer (queries) and actions (mutations)
+ * - NO business logic
+ */
+
+import { TRPCError } from '@trpc/server'
+
+import {
+	adjustVaccineLotStockAction,
+	createVaccineLotAction,
+	runInventoryAlertsAction,
+	updateVaccineLotAction,
+} from '@/actions/inventory.action'
+import { PERMISSIONS } from '@/lib/permissions/constants'
+import {
+	AdjustVaccineLotStockSchema,
+	AvailableLotsSchema,
+	VaccineLotByIdSchema,
+	VaccineLotCreateSchema,
+	VaccineLotFilterSchema,
+	VaccineLotUpdateSchema,
+} from '@/schemas/inventory.schema'
+import * as inventoryService from '@/server/services/inventory.service'
+
+import {
+	createPermissionMiddleware,
+	createTRPCRouter,
+	protectedProcedure,
+} from '../trpc'
+
+const viewProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.INVENTORY.VIEW)
+)
+const manageProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.INVENTORY.MANAGE)
+)
+// Lot picker shown while recording a dose
+const administerProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.IMMUNIZATION.ADMINISTER)
+)
+
+export const inventoryRouter = createTRPCRouter({
+	// ==================== QUERIES ====================
+
+	getLots: viewProcedure
+		.input(VaccineLotFilterSchema.omit({ clinicId: true }))
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return inventoryService.getLots(clinicId, input)
+		}),
+
+	getLotById: viewProcedure
+		.input(VaccineLotByIdSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return inventoryService.getLotById(input.id, clinicId)
+		}),
+
+	getAvailableLots: administerProcedure
+		.input(AvailableLotsSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return inventoryService.getAvailableLots(
+				clinicId,
+				input.vaccineName,
+				input.asOf
+			)
+		}),
+
+	// ==================== MUTATIONS (Delegates to actions) ====================
+
+	createLot: manageProcedure
+		.input(VaccineLotCreateSchema.omit({ clinicId: true }))
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return createVaccineLotAction({ ...input, clinicId })
+		}),
+
+	updateLot: manageProcedure
+		.input(VaccineLotUpdateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return updateVaccineLotAction(input, clinicId)
+		}),
+
+	adjustStock: manageProcedure
+		.input(AdjustVaccineLotStockSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return adjustVaccineLotStockAction(input, clinicId)
+		}),
+
+	runAlerts: manageProcedure.mutation(async ({ ctx }) => {
+		const clinicId = ctx.clinic?.id
+		if (!clinicId) {
+			throw new TRPCError({ code: 'UNAUTHORIZED' })
+		}
+
+		return runInventoryAlertsAction(clinicId)
+	}),
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type InventoryRouter = typeof inventoryRouter
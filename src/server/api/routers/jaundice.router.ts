@@ -0,0 +1,100 @@
+/**
+ * 🟣 JAUNDICE MODULE - tRPC ROUTER
+ *
+ * RESPONSIBILITIES:
+ * - tRPC procedure definitions for neonatal bilirubin measurements and
+ *   the nomogram / treatment threshold tables
+ * - Permission checks (PERMISSIONS.PATIENT.*, PERMISSIONS.SETTINGS.UPDATE)
+ * - Input validation via schema
+ * - Delegates to service layer (queries) and actions (mutations)
+ * - NO business logic
+ */
+
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+
+import {
+	recordBilirubinAction,
+	saveBilirubinTableAction,
+} from '@/actions/jaundice.action'
+import { PERMISSIONS } from '@/lib/permissions/constants'
+import {
+	BilirubinTableByIdSchema,
+	PatientBilirubinSchema,
+	RecordBilirubinSchema,
+	SaveBilirubinTableSchema,
+} from '@/schemas/jaundice.schema'
+import * as jaundiceService from '@/server/services/jaundice.service'
+
+import {
+	adminProcedure,
+	createPermissionMiddleware,
+	createTRPCRouter,
+	protectedProcedure,
+} from '../trpc'
+
+const viewProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.VIEW)
+)
+const updateProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.UPDATE)
+)
+
+export const jaundiceRouter = createTRPCRouter({
+	// ==================== TABLES ====================
+
+	getTables: viewProcedure
+		.input(z.object({ includeInactive: z.boolean().default(false) }))
+		.query(async ({ input }) => {
+			return jaundiceService.getBilirubinTables(input.includeInactive)
+		}),
+
+	// Nomogram curves, treatment thresholds and zones
+	getTable: viewProcedure
+		.input(BilirubinTableByIdSchema)
+		.query(async ({ input }) => {
+			return jaundiceService.getBilirubinTable(input.id)
+		}),
+
+	// Tables are shared by every clinic
+	saveTable: adminProcedure
+		.input(SaveBilirubinTableSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return saveBilirubinTableAction(input, clinicId)
+		}),
+
+	// ==================== MEASUREMENTS ====================
+
+	// Measurements with the curves to plot them on
+	getByPatient: viewProcedure
+		.input(PatientBilirubinSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return jaundiceService.getPatientBilirubin(input.patientId, clinicId)
+		}),
+
+	// Returns the risk zone, thresholds and recheck time
+	record: updateProcedure
+		.input(RecordBilirubinSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return recordBilirubinAction(input, clinicId)
+		}),
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type JaundiceRouter = typeof jaundiceRouter
@@ -0,0 +1,117 @@
+/**
+ * 🟣 NUTRITION MODULE - tRPC ROUTER
+ *
+ * RESPONSIBILITIES:
+ * - tRPC procedure definitions for the outpatient therapeutic feeding
+ *   programme (OTP)
+ * - Permission checks (PERMISSIONS.PATIENT.*)
+ * - Input validation via schema
+ * - Delegates to service layer (queries) and actions (mutations)
+ * - NO business logic
+ */
+
+import { TRPCError } from '@trpc/server'
+
+import {
+	dischargeOtpAction,
+	enrollOtpAction,
+	recordOtpFollowUpAction,
+} from '@/actions/nutrition.action'
+import { PERMISSIONS } from '@/lib/permissions/constants'
+import {
+	OtpByIdSchema,
+	OtpDischargeSchema,
+	OtpEnrollSchema,
+	OtpFollowUpSchema,
+	OtpListSchema,
+	PatientOtpSchema,
+} from '@/schemas/nutrition.schema'
+import * as nutritionService from '@/server/services/nutrition.service'
+
+import {
+	createPermissionMiddleware,
+	createTRPCRouter,
+	protectedProcedure,
+} from '../trpc'
+
+const viewProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.VIEW)
+)
+const updateProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.UPDATE)
+)
+
+export const nutritionRouter = createTRPCRouter({
+	// ==================== QUERIES ====================
+
+	getByPatient: viewProcedure
+		.input(PatientOtpSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return nutritionService.getPatientOtp(input.patientId, clinicId)
+		}),
+
+	getWorklist: viewProcedure
+		.input(OtpListSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return nutritionService.getOtpWorklist(input, clinicId)
+		}),
+
+	// Visits, weight gain and discharge criteria
+	getById: viewProcedure.input(OtpByIdSchema).query(async ({ ctx, input }) => {
+		const clinicId = ctx.clinic?.id
+		if (!clinicId) {
+			throw new TRPCError({ code: 'UNAUTHORIZED' })
+		}
+
+		return nutritionService.getOtpEnrollment(input.id, clinicId)
+	}),
+
+	// ==================== MUTATIONS (Delegates to actions) ====================
+
+	enroll: updateProcedure
+		.input(OtpEnrollSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return enrollOtpAction(input, clinicId)
+		}),
+
+	recordFollowUp: updateProcedure
+		.input(OtpFollowUpSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return recordOtpFollowUpAction(input, clinicId)
+		}),
+
+	discharge: updateProcedure
+		.input(OtpDischargeSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return dischargeOtpAction(input, clinicId)
+		}),
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type NutritionRouter = typeof nutritionRouter
@@ -0,0 +1,184 @@
+/**
+ * 🟣 PRESCRIPTION MODULE - tRPC ROUTER
+ *
+ * RESPONSIBILITIES:
+ * - tRPC procedure definitions for prescribing
+ * - Permission checks (PERMISSIONS.PRESCRIPTION.*)
+ * - Input validation via schema
+ * - Delegates to service layer (queries) and actions (mutations)
+ * - NO business logic
+ */
+
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+
+import {
+	cancelPrescriptionAction,
+	createPrescriptionAction,
+	renewPrescriptionAction,
+	updatePrescriptionAction,
+} from '@/actions/prescription.action'
+import { PERMISSIONS } from '@/lib/permissions/constants'
+import {
+	InfusionPreparationSchema,
+	PatientDoseCalculationSchema,
+	PrescriptionByIdSchema,
+	PrescriptionCancelSchema,
+	PrescriptionCreateSchema,
+	PrescriptionDoseCheckSchema,
+	PrescriptionRenewSchema,
+	PrescriptionUpdateSchema,
+} from '@/schemas/prescription.schema'
+import * as prescriptionService from '@/server/services/prescription.service'
+
+import {
+	createPermissionMiddleware,
+	createTRPCRouter,
+	protectedProcedure,
+} from '../trpc'
+
+const viewProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PRESCRIPTION.VIEW)
+)
+const createProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PRESCRIPTION.CREATE)
+)
+const updateProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PRESCRIPTION.UPDATE)
+)
+const cancelProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PRESCRIPTION.CANCEL)
+)
+
+export const prescriptionRouter = createTRPCRouter({
+	// ==================== QUERIES ====================
+
+	getById: viewProcedure
+		.input(PrescriptionByIdSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return prescriptionService.getPrescriptionById(input.id, clinicId)
+		}),
+
+	getByPatient: viewProcedure
+		.input(
+			z.object({
+				limit: z.number().int().min(1).max(100).default(50),
+				patientId: z.uuid(),
+				status: z.enum(['active', 'completed', 'cancelled']).optional(),
+			})
+		)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return prescriptionService.getPatientPrescriptions(
+				input.patientId,
+				clinicId,
+				{ limit: input.limit, status: input.status }
+			)
+		}),
+
+	// Draft check - run before saving to show warnings and collect overrides
+	checkDoses: createProcedure
+		.input(PrescriptionDoseCheckSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return prescriptionService.checkPrescriptionDoses(input, clinicId)
+		}),
+
+	calculateDose: createProcedure
+		.input(PatientDoseCalculationSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return prescriptionService.calculatePatientDose(input, clinicId)
+		}),
+
+	// Preparing an infusion only needs chart access - nurses draw up doses
+	calculateInfusion: viewProcedure
+		.input(InfusionPreparationSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return prescriptionService.calculateInfusionPreparation(input, clinicId)
+		}),
+
+	getInfusionLabel: viewProcedure
+		.input(InfusionPreparationSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return prescriptionService.generateInfusionLabel(input, clinicId)
+		}),
+
+	// ==================== MUTATIONS (Delegates to actions) ====================
+
+	create: createProcedure
+		.input(PrescriptionCreateSchema.omit({ clinicId: true }))
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return createPrescriptionAction({
+				...input,
+				clinicId,
+			})
+		}),
+
+	update: updateProcedure
+		.input(PrescriptionUpdateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return updatePrescriptionAction(input, clinicId)
+		}),
+
+	cancel: cancelProcedure
+		.input(PrescriptionCancelSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return cancelPrescriptionAction(input, clinicId)
+		}),
+
+	renew: createProcedure
+		.input(PrescriptionRenewSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return renewPrescriptionAction(input, clinicId)
+		}),
+})
+
+export type PrescriptionRouter = typeof prescriptionRouter
@@ -0,0 +1,110 @@
+/**
+ * 🟣 SCREENING MODULE - tRPC ROUTER
+ *
+ * RESPONSIBILITIES:
+ * - tRPC procedure definitions for screening questionnaires, scored
+ *   results and instrument configuration
+ * - Permission checks (PERMISSIONS.PATIENT.*, PERMISSIONS.SETTINGS.UPDATE)
+ * - Input validation via schema
+ * - Delegates to service layer (queries) and actions (mutations)
+ * - NO business logic
+ */
+
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+
+import {
+	recordScreeningAction,
+	saveScreeningInstrumentAction,
+} from '@/actions/screening.action'
+import { PERMISSIONS } from '@/lib/permissions/constants'
+import {
+	PatientScreeningSchema,
+	RecordScreeningSchema,
+	SaveScreeningInstrumentSchema,
+	ScreeningInstrumentByIdSchema,
+	ScreeningResultByIdSchema,
+} from '@/schemas/screening.schema'
+import * as screeningService from '@/server/services/screening.service'
+
+import {
+	adminProcedure,
+	createPermissionMiddleware,
+	createTRPCRouter,
+	protectedProcedure,
+} from '../trpc'
+
+const viewProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.VIEW)
+)
+const updateProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.UPDATE)
+)
+
+export const screeningRouter = createTRPCRouter({
+	// ==================== INSTRUMENTS ====================
+
+	getInstruments: viewProcedure
+		.input(z.object({ includeInactive: z.boolean().default(false) }))
+		.query(async ({ input }) => {
+			return screeningService.getScreeningInstruments(input.includeInactive)
+		}),
+
+	// Questions and cut-offs to render the form
+	getInstrument: viewProcedure
+		.input(ScreeningInstrumentByIdSchema)
+		.query(async ({ input }) => {
+			return screeningService.getScreeningInstrument(input.id)
+		}),
+
+	// Instruments are shared by every clinic
+	saveInstrument: adminProcedure
+		.input(SaveScreeningInstrumentSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return saveScreeningInstrumentAction(input, clinicId)
+		}),
+
+	// ==================== RESULTS ====================
+
+	getByPatient: viewProcedure
+		.input(PatientScreeningSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return screeningService.getPatientScreenings(input.patientId, clinicId)
+		}),
+
+	getResult: viewProcedure
+		.input(ScreeningResultByIdSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return screeningService.getScreeningResult(input.id, clinicId)
+		}),
+
+	record: updateProcedure
+		.input(RecordScreeningSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return recordScreeningAction(input, clinicId)
+		}),
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type ScreeningRouter = typeof screeningRouter
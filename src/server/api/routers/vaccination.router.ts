@@ -0,0 +1,545 @@
+/**
+ * 🟣 VACCINATION MODULE - tRPC ROUTER
+ *
+ * RESPONSIBILITIES:
+ * - tRPC procedure definitions
+ * - Permission checks (PERMISSIONS.IMMUNIZATION.*)
+ * - Input validation via schema
+ * - Delegates to service layer (queries) and actions (mutations)
+ * - NO business logic
+ */
+
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+
+import {
+	assignVaccineScheduleAction,
+	deleteImmunizationAction,
+	generateImmunizationCertificateAction,
+	importVaccineScheduleAction,
+	migratePatientScheduleAction,
+	recordImmunizationAction,
+	reportAdverseEventAction,
+	reviewAdverseEventAction,
+	scheduleDueVaccinationsAction,
+	scheduleVaccinationAction,
+	updateAdverseEventAction,
+	updateImmunizationAction,
+	updateImmunizationStatusAction,
+} from '@/actions/vac.action'
+import { PERMISSIONS } from '@/lib/permissions/constants'
+import {
+	AdverseEventCreateSchema,
+	AdverseEventReviewSchema,
+	AdverseEventUpdateSchema,
+	AefiReportSchema,
+	CompletionRateSchema,
+	DeleteImmunizationSchema,
+	ImmunizationCreateSchema,
+	ImmunizationUpdateSchema,
+	ImportVaccineScheduleSchema,
+	immunizationStatusSchema,
+	MigratePatientScheduleSchema,
+	OverdueCountSchema,
+	OverdueVaccinationsSchema,
+	ScheduleVaccinationSchema,
+	ScheduleVersionByIdSchema,
+	UpcomingCountSchema,
+	UpcomingVaccinationsSchema,
+	UpdateImmunizationStatusSchema,
+	VaccinationByClinicSchema,
+	VaccinationByIdSchema,
+	VaccinationByPatientSchema,
+	VaccineScheduleFilterSchema,
+} from '@/schemas/vac.schema'
+import * as vaccinationService from '@/server/services/vac.service'
+
+import {
+	adminProcedure,
+	createPermissionMiddleware,
+	createTRPCRouter,
+	protectedProcedure,
+} from '../trpc'
+
+const viewProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.IMMUNIZATION.VIEW)
+)
+const createProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.IMMUNIZATION.CREATE)
+)
+const administerProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.IMMUNIZATION.ADMINISTER)
+)
+const updateProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.IMMUNIZATION.UPDATE)
+)
+const exportProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.PATIENT.EXPORT)
+)
+// Choosing schedule versions is clinic configuration
+const settingsProcedure = protectedProcedure.use(
+	createPermissionMiddleware(PERMISSIONS.SETTINGS.UPDATE)
+)
+
+const PatientIdSchema = z.object({ patientId: z.uuid() })
+
+export const vaccinationRouter = createTRPCRouter({
+	// ==================== IMMUNIZATION QUERIES ====================
+
+	getById: viewProcedure
+		.input(VaccinationByIdSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getImmunizationById(input.id, clinicId)
+		}),
+
+	getByPatient: viewProcedure
+		.input(VaccinationByPatientSchema.omit({ clinicId: true }))
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getImmunizationsByPatient(
+				input.patientId,
+				clinicId,
+				{
+					includeCompleted: input.includeCompleted,
+					limit: input.limit,
+					offset: input.offset,
+				}
+			)
+		}),
+
+	getByClinic: viewProcedure
+		.input(VaccinationByClinicSchema.omit({ clinicId: true }))
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getImmunizationsByClinic(clinicId, input)
+		}),
+
+	getUpcoming: viewProcedure
+		.input(UpcomingVaccinationsSchema.omit({ clinicId: true }))
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getUpcomingVaccinations(clinicId, {
+				daysAhead: input.daysAhead,
+				limit: input.limit,
+			})
+		}),
+
+	getOverdue: viewProcedure
+		.input(OverdueVaccinationsSchema.omit({ clinicId: true }))
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getOverdueVaccinations(clinicId, input)
+		}),
+
+	// ==================== COUNT QUERIES ====================
+
+	getUpcomingCount: viewProcedure
+		.input(UpcomingCountSchema.omit({ clinicId: true }))
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) return 0
+
+			return vaccinationService.getUpcomingVaccinationCount(
+				clinicId,
+				input.daysAhead
+			)
+		}),
+
+	getOverdueCount: viewProcedure
+		.input(OverdueCountSchema.omit({ clinicId: true }))
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) return 0
+
+			return vaccinationService.getOverdueVaccinationCount(
+				clinicId,
+				input.daysOverdue
+			)
+		}),
+
+	getCountByStatus: viewProcedure
+		.input(z.object({ status: immunizationStatusSchema }))
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) return 0
+
+			return vaccinationService.getVaccinationCountByStatus(
+				clinicId,
+				input.status
+			)
+		}),
+
+	// ==================== SCHEDULE QUERIES ====================
+
+	getSchedule: viewProcedure
+		.input(VaccineScheduleFilterSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getVaccineSchedule(clinicId, input)
+		}),
+
+	getScheduleByAge: viewProcedure
+		.input(z.object({ ageMonths: z.number().int().min(0).max(240) }))
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getVaccineScheduleByAge(
+				input.ageMonths,
+				clinicId
+			)
+		}),
+
+	getScheduleVersions: viewProcedure.query(async ({ ctx }) => {
+		const clinicId = ctx.clinic?.id
+		if (!clinicId) {
+			throw new TRPCError({ code: 'UNAUTHORIZED' })
+		}
+
+		return vaccinationService.getScheduleVersions(clinicId)
+	}),
+
+	getScheduleVersionById: viewProcedure
+		.input(ScheduleVersionByIdSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getScheduleVersionById(
+				input.scheduleVersionId,
+				clinicId
+			)
+		}),
+
+	getPatientScheduleVersion: viewProcedure
+		.input(PatientIdSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getPatientScheduleVersion(
+				input.patientId,
+				clinicId
+			)
+		}),
+
+	getDueVaccinations: viewProcedure
+		.input(PatientIdSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getDueVaccinations(input.patientId, clinicId)
+		}),
+
+	// Due vaccine doses together with due developmental screenings
+	getDueWorklist: viewProcedure
+		.input(PatientIdSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getDueWorklist(input.patientId, clinicId)
+		}),
+
+	calculateDueVaccinations: viewProcedure
+		.input(PatientIdSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.calculateDueVaccinations(
+				input.patientId,
+				clinicId
+			)
+		}),
+
+	// ==================== PATIENT & CLINIC SUMMARIES ====================
+
+	getPatientRecord: viewProcedure
+		.input(PatientIdSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getPatientRecord(input.patientId, clinicId)
+		}),
+
+	getPatientSummary: viewProcedure
+		.input(PatientIdSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getPatientVaccinationSummary(
+				input.patientId,
+				clinicId
+			)
+		}),
+
+	getClinicStats: viewProcedure
+		.input(CompletionRateSchema.omit({ clinicId: true }).partial())
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getClinicStats(
+				clinicId,
+				input.startDate,
+				input.endDate
+			)
+		}),
+
+	// ==================== AEFI QUERIES ====================
+
+	getAdverseEvents: viewProcedure
+		.input(PatientIdSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getAdverseEventsByPatient(
+				input.patientId,
+				clinicId
+			)
+		}),
+
+	getAdverseEventById: viewProcedure
+		.input(z.object({ id: z.uuid() }))
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getAdverseEventById(input.id, clinicId)
+		}),
+
+	getAefiReport: viewProcedure
+		.input(AefiReportSchema)
+		.query(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return vaccinationService.getAefiReport(clinicId, input)
+		}),
+
+	// ==================== MUTATIONS (Delegates to actions) ====================
+
+	recordImmunization: administerProcedure
+		.input(ImmunizationCreateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return recordImmunizationAction({
+				...input,
+				clinicId,
+			})
+		}),
+
+	scheduleVaccination: createProcedure
+		.input(ScheduleVaccinationSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return scheduleVaccinationAction({
+				...input,
+				clinicId,
+			})
+		}),
+
+	scheduleDueVaccinations: createProcedure
+		.input(PatientIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return scheduleDueVaccinationsAction(input.patientId, clinicId)
+		}),
+
+	updateImmunization: updateProcedure
+		.input(ImmunizationUpdateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			await vaccinationService.getImmunizationById(input.id, clinicId)
+
+			return updateImmunizationAction(input)
+		}),
+
+	updateStatus: updateProcedure
+		.input(UpdateImmunizationStatusSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			await vaccinationService.getImmunizationById(input.id, clinicId)
+
+			return updateImmunizationStatusAction(input.id, input.status)
+		}),
+
+	reportAdverseEvent: administerProcedure
+		.input(AdverseEventCreateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return reportAdverseEventAction(input, clinicId)
+		}),
+
+	updateAdverseEvent: updateProcedure
+		.input(AdverseEventUpdateSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return updateAdverseEventAction(input, clinicId)
+		}),
+
+	reviewAdverseEvent: updateProcedure
+		.input(AdverseEventReviewSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return reviewAdverseEventAction(input, clinicId)
+		}),
+
+	generateCertificate: exportProcedure
+		.input(PatientIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return generateImmunizationCertificateAction(input.patientId, clinicId, {
+				ipAddress: ctx.clientIp,
+				userAgent: ctx.headers.get('user-agent') ?? undefined,
+			})
+		}),
+
+	// Versions are a shared catalogue every clinic assigns from
+	importSchedule: adminProcedure
+		.input(ImportVaccineScheduleSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return importVaccineScheduleAction(input, clinicId)
+		}),
+
+	assignSchedule: settingsProcedure
+		.input(ScheduleVersionByIdSchema.extend({ assigned: z.boolean() }))
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return assignVaccineScheduleAction(
+				input.scheduleVersionId,
+				clinicId,
+				input.assigned
+			)
+		}),
+
+	migratePatientSchedule: updateProcedure
+		.input(MigratePatientScheduleSchema)
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			return migratePatientScheduleAction(input, clinicId)
+		}),
+
+	deleteImmunization: updateProcedure
+		.input(DeleteImmunizationSchema.omit({ clinicId: true }))
+		.mutation(async ({ ctx, input }) => {
+			const clinicId = ctx.clinic?.id
+			if (!clinicId) {
+				throw new TRPCError({ code: 'UNAUTHORIZED' })
+			}
+
+			await vaccinationService.getImmunizationById(input.id, clinicId)
+
+			return deleteImmunizationAction({
+				...input,
+				clinicId,
+			})
+		}),
+})
+
+// ==================== TYPE EXPORTS ====================
+
+export type VaccinationRouter = typeof vaccinationRouter
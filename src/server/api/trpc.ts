@@ -2,6 +2,8 @@ import { initTRPC, TRPCError } from '@trpc/server'
 import superjson from 'superjson'
 import z from 'zod'
 
+import { hasPermission } from '@/lib/permissions/checker'
+
 import type { Context } from './context'
 
 // export const createTRPCContext = async () => {
@@ -130,6 +132,34 @@ export const createRoleMiddleware = (allowedRoles: string[]) =>
 		return next({ ctx: { ...ctx, userRole: role } })
 	})
 
+// Permission-based middleware factory (checks the clinic role's permission list)
+export const createPermissionMiddleware = (permission: string) =>
+	t.middleware(async ({ ctx, next }) => {
+		const clinicId = ctx.clinic?.id
+		const userId = ctx.user?.id
+
+		if (!(clinicId && userId))
+			throw new TRPCError({
+				code: 'FORBIDDEN',
+				message: 'Clinic access required',
+			})
+
+		const clinicMember = await ctx.prisma.clinicMember.findFirst({
+			where: { clinicId, userId },
+			include: { role: true },
+		})
+
+		const permissions = (clinicMember?.role?.permissions as string[]) ?? []
+
+		if (!hasPermission(permissions, permission))
+			throw new TRPCError({
+				code: 'FORBIDDEN',
+				message: 'Insufficient permissions',
+			})
+
+		return next()
+	})
+
 // Error logging middleware
 export const errorLoggingMiddleware = t.middleware(
 	async ({ ctx, next, path }) => {
@@ -0,0 +1,187 @@
+/**
+ * 🔵 ALLERGY MODULE - QUERY LAYER
+ *
+ * RESPONSIBILITIES:
+ * - ONLY raw Prisma database queries for structured patient allergies
+ * - NO business logic, validation, or error handling
+ * - NO cache directives ('use cache')
+ * - ALL queries wrapped with dedupeQuery()
+ *
+ * PATTERN: Pure Data Access Object (DAO)
+ */
+
+import type { Prisma } from '@/prisma/browser'
+import { db } from '@/server/db'
+
+import { dedupeQuery } from '../../../lib/cache/dedupe'
+import type { AuditEntry } from './audit'
+
+type AllergyData = Omit<
+	Prisma.PatientAllergyCreateManyInput,
+	'clinicId' | 'patientId'
+>
+
+const INACTIVE_STATUSES = ['REFUTED', 'ENTERED_IN_ERROR'] as const
+
+// Patients whose free text has not been structured yet
+const unmigratedWhere = (clinicId: string): Prisma.PatientWhereInput => ({
+	AND: [{ allergies: { not: null } }, { allergies: { not: '' } }],
+	allergyList: { none: { isDeleted: false } },
+	clinicId,
+	isDeleted: false,
+})
+
+export const allergyQueries = {
+	// ==================== READ QUERIES ====================
+
+	findById: dedupeQuery(async (id: string) => {
+		return await db.patientAllergy.findFirst({
+			include: { patient: { select: { clinicId: true, id: true } } },
+			where: { id, isDeleted: false },
+		})
+	}),
+
+	findByPatient: dedupeQuery(
+		async (patientId: string, includeInactive = false) => {
+			return await db.patientAllergy.findMany({
+				orderBy: [{ type: 'asc' }, { allergen: 'asc' }],
+				where: {
+					isDeleted: false,
+					patientId,
+					...(!includeInactive && {
+						verificationStatus: { notIn: [...INACTIVE_STATUSES] },
+					}),
+				},
+			})
+		}
+	),
+
+	findPatient: dedupeQuery(async (patientId: string, clinicId: string) => {
+		return await db.patient.findFirst({
+			select: {
+				allergies: true,
+				clinicId: true,
+				firstName: true,
+				id: true,
+				lastName: true,
+			},
+			where: { clinicId, id: patientId, isDeleted: false },
+		})
+	}),
+
+	findUnmigratedPatients: dedupeQuery(
+		async (clinicId: string, skip: number, take: number) => {
+			const where = unmigratedWhere(clinicId)
+			const [patients, total] = await Promise.all([
+				db.patient.findMany({
+					orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+					select: {
+						allergies: true,
+						dateOfBirth: true,
+						firstName: true,
+						id: true,
+						lastName: true,
+					},
+					skip,
+					take,
+					where,
+				}),
+				db.patient.count({ where }),
+			])
+
+			return { patients, total }
+		}
+	),
+
+	/**
+	 * Formulary drugs named by allergens, for class cross-reactivity
+	 */
+	findDrugsByNames: dedupeQuery(async (names: string[]) => {
+		return await db.drug.findMany({
+			select: { drugClass: true, genericName: true, name: true },
+			where: {
+				OR: [
+					{ name: { in: names, mode: 'insensitive' } },
+					{ genericName: { in: names, mode: 'insensitive' } },
+				],
+			},
+		})
+	}),
+
+	// ==================== MUTATION QUERIES ====================
+
+	create: dedupeQuery(
+		async (
+			data: Prisma.PatientAllergyUncheckedCreateInput,
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const allergy = await tx.patientAllergy.create({ data })
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? allergy.id },
+				})
+				return allergy
+			})
+		}
+	),
+
+	update: dedupeQuery(
+		async (
+			id: string,
+			data: Prisma.PatientAllergyUncheckedUpdateInput,
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const allergy = await tx.patientAllergy.update({
+					data,
+					where: { id },
+				})
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? id },
+				})
+				return allergy
+			})
+		}
+	),
+
+	/**
+	 * Save reviewed free-text suggestions, optionally emptying the
+	 * free-text column in the same transaction
+	 */
+	importForPatient: dedupeQuery(
+		async (
+			patient: { id: string; clinicId: string },
+			rows: AllergyData[],
+			clearFreeText: boolean,
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				await tx.patientAllergy.createMany({
+					data: rows.map(row => ({
+						...row,
+						clinicId: patient.clinicId,
+						patientId: patient.id,
+					})),
+				})
+
+				if (clearFreeText) {
+					await tx.patient.update({
+						data: { allergies: null },
+						where: { id: patient.id },
+					})
+				}
+
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? patient.id },
+				})
+
+				return await tx.patientAllergy.findMany({
+					orderBy: [{ type: 'asc' }, { allergen: 'asc' }],
+					where: { isDeleted: false, patientId: patient.id },
+				})
+			})
+		}
+	),
+}
+
+export type AllergyQueries = typeof allergyQueries
@@ -0,0 +1,11 @@
+// src/server/db/queries/audit.ts
+
+import type { Prisma } from '@/prisma/browser'
+
+/**
+ * Audit row written in the same transaction as the change it records
+ */
+export type AuditEntry = Omit<Prisma.AuditLogCreateManyInput, 'resource'> & {
+	// Resolved inside the transaction once the row exists
+	resource?: string
+}
@@ -0,0 +1,157 @@
+/**
+ * 🔵 DEVELOPMENTAL MODULE - QUERY LAYER
+ *
+ * RESPONSIBILITIES:
+ * - ONLY raw Prisma database queries for the milestone catalog and
+ *   developmental checks
+ * - NO business logic, validation, or error handling
+ * - NO cache directives ('use cache')
+ * - ALL queries wrapped with dedupeQuery()
+ *
+ * PATTERN: Pure Data Access Object (DAO)
+ */
+
+import type { Prisma } from '@/prisma/browser'
+import { db } from '@/server/db'
+
+import { dedupeQuery } from '../../../lib/cache/dedupe'
+import type { AuditEntry } from './audit'
+
+const milestoneSelect = {
+	ageMonths: true,
+	code: true,
+	description: true,
+	domain: true,
+	id: true,
+} satisfies Prisma.MilestoneDefinitionSelect
+
+export const developmentalQueries = {
+	// ==================== READ QUERIES ====================
+
+	findPatient: dedupeQuery(async (patientId: string, clinicId: string) => {
+		return await db.patient.findFirst({
+			select: {
+				clinicId: true,
+				dateOfBirth: true,
+				doctorId: true,
+				firstName: true,
+				gestationalAgeWeeks: true,
+				id: true,
+				lastName: true,
+			},
+			where: { clinicId, id: patientId, isDeleted: false },
+		})
+	}),
+
+	findAppointment: dedupeQuery(async (id: string) => {
+		return await db.appointment.findUnique({
+			select: { clinicId: true, id: true, patientId: true },
+			where: { id },
+		})
+	}),
+
+	/**
+	 * Active catalog entries due by the given well-child age
+	 */
+	findMilestonesUpTo: dedupeQuery(async (ageMonths: number) => {
+		return await db.milestoneDefinition.findMany({
+			orderBy: [{ ageMonths: 'asc' }, { domain: 'asc' }, { code: 'asc' }],
+			select: milestoneSelect,
+			where: { ageMonths: { lte: ageMonths }, isActive: true },
+		})
+	}),
+
+	findMilestonesByIds: dedupeQuery(async (ids: string[]) => {
+		return await db.milestoneDefinition.findMany({
+			select: milestoneSelect,
+			where: { id: { in: ids } },
+		})
+	}),
+
+	/**
+	 * Every checklist answer recorded for the patient, oldest first
+	 */
+	findCheckItemsByPatient: dedupeQuery(async (patientId: string) => {
+		return await db.developmentalCheckItem.findMany({
+			orderBy: { check: { checkDate: 'asc' } },
+			select: {
+				achieved: true,
+				check: { select: { checkDate: true } },
+				milestoneId: true,
+			},
+			where: { check: { patientId } },
+		})
+	}),
+
+	findChecksByPatient: dedupeQuery(async (patientId: string) => {
+		return await db.developmentalCheck.findMany({
+			include: { _count: { select: { items: true } } },
+			orderBy: { checkDate: 'desc' },
+			where: { patientId },
+		})
+	}),
+
+	findFlaggedChecksByClinic: dedupeQuery(
+		async (clinicId: string, skip: number, take: number) => {
+			const where: Prisma.DevelopmentalCheckWhereInput = {
+				clinicId,
+				patient: { isDeleted: false },
+				referralFlagged: true,
+			}
+
+			return await db.$transaction([
+				db.developmentalCheck.findMany({
+					include: {
+						patient: {
+							select: {
+								dateOfBirth: true,
+								firstName: true,
+								id: true,
+								lastName: true,
+							},
+						},
+					},
+					orderBy: { checkDate: 'desc' },
+					skip,
+					take,
+					where,
+				}),
+				db.developmentalCheck.count({ where }),
+			])
+		}
+	),
+
+	// ==================== MUTATION QUERIES ====================
+
+	/**
+	 * Check with its checklist answers; newly achieved milestones are also
+	 * recorded on the patient's milestone list
+	 */
+	createCheck: dedupeQuery(
+		async (
+			data: Omit<Prisma.DevelopmentalCheckUncheckedCreateInput, 'items'>,
+			items: Prisma.DevelopmentalCheckItemCreateManyCheckInput[],
+			achieved: Prisma.DevelopmentalMilestoneCreateManyInput[],
+			notifications: Prisma.NotificationCreateManyInput[],
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const check = await tx.developmentalCheck.create({
+					data: { ...data, items: { createMany: { data: items } } },
+				})
+				if (achieved.length > 0) {
+					await tx.developmentalMilestone.createMany({ data: achieved })
+				}
+				if (notifications.length > 0) {
+					await tx.notification.createMany({ data: notifications })
+				}
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? String(check.id) },
+				})
+				return check
+			})
+		}
+	),
+}
+
+export type DevelopmentalQueries = typeof developmentalQueries
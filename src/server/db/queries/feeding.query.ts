@@ -0,0 +1,201 @@
+/**
+ * 🔵 FEEDING MODULE - QUERY LAYER
+ *
+ * RESPONSIBILITIES:
+ * - ONLY raw Prisma database queries for the infant feeding log and
+ *   low intake alerts
+ * - NO business logic, validation, or error handling
+ * - NO cache directives ('use cache')
+ * - ALL queries wrapped with dedupeQuery()
+ *
+ * PATTERN: Pure Data Access Object (DAO)
+ */
+
+import type { GrowthAlertStatus, Prisma } from '@/prisma/browser'
+import { db } from '@/server/db'
+
+import { dedupeQuery } from '../../../lib/cache/dedupe'
+import type { AuditEntry } from './audit'
+
+export const feedingQueries = {
+	// ==================== READ QUERIES ====================
+
+	findPatient: dedupeQuery(async (patientId: string, clinicId: string) => {
+		return await db.patient.findFirst({
+			select: {
+				clinicId: true,
+				dateOfBirth: true,
+				doctorId: true,
+				firstName: true,
+				id: true,
+				lastName: true,
+			},
+			where: { clinicId, id: patientId, isDeleted: false },
+		})
+	}),
+
+	findAppointment: dedupeQuery(async (id: string) => {
+		return await db.appointment.findUnique({
+			select: {
+				appointmentDate: true,
+				clinicId: true,
+				doctor: { select: { id: true, name: true } },
+				id: true,
+				isDeleted: true,
+				patientId: true,
+				status: true,
+				time: true,
+				type: true,
+			},
+			where: { id },
+		})
+	}),
+
+	findLogById: dedupeQuery(async (id: string) => {
+		return await db.feedingLog.findFirst({
+			where: { deletedAt: null, id },
+		})
+	}),
+
+	findLogs: dedupeQuery(
+		async (
+			patientId: string,
+			options: { from?: Date; to?: Date; appointmentId?: string; take?: number }
+		) => {
+			return await db.feedingLog.findMany({
+				orderBy: { date: 'desc' },
+				take: options.take,
+				where: {
+					appointmentId: options.appointmentId,
+					date: { gte: options.from, lte: options.to },
+					deletedAt: null,
+					patientId,
+				},
+			})
+		}
+	),
+
+	/**
+	 * Weights measured up to `to`, from the last one before `from`
+	 */
+	findWeights: dedupeQuery(async (patientId: string, from: Date, to: Date) => {
+		const [previous, inRange] = await db.$transaction([
+			db.growthRecord.findFirst({
+				orderBy: { date: 'desc' },
+				select: { date: true, weight: true },
+				where: {
+					date: { lt: from },
+					deletedAt: null,
+					patientId,
+					weight: { not: null },
+				},
+			}),
+			db.growthRecord.findMany({
+				orderBy: { date: 'asc' },
+				select: { date: true, weight: true },
+				where: {
+					date: { gte: from, lte: to },
+					deletedAt: null,
+					patientId,
+					weight: { not: null },
+				},
+			}),
+		])
+
+		return previous ? [previous, ...inRange] : inRange
+	}),
+
+	findAlertsByPatient: dedupeQuery(
+		async (patientId: string, status: GrowthAlertStatus[]) => {
+			return await db.feedingAlert.findMany({
+				orderBy: { endDate: 'desc' },
+				where: { patientId, status: { in: status } },
+			})
+		}
+	),
+
+	findAlertById: dedupeQuery(async (id: string) => {
+		return await db.feedingAlert.findUnique({
+			where: { id },
+		})
+	}),
+
+	// ==================== MUTATION QUERIES ====================
+
+	createLog: dedupeQuery(
+		async (data: Prisma.FeedingLogUncheckedCreateInput, audit: AuditEntry) => {
+			return await db.$transaction(async tx => {
+				const log = await tx.feedingLog.create({ data })
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? log.id },
+				})
+				return log
+			})
+		}
+	),
+
+	updateLog: dedupeQuery(
+		async (
+			id: string,
+			data: Prisma.FeedingLogUncheckedUpdateInput,
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const log = await tx.feedingLog.update({ data, where: { id } })
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? id },
+				})
+				return log
+			})
+		}
+	),
+
+	createAlert: dedupeQuery(
+		async (
+			data: Prisma.FeedingAlertUncheckedCreateInput,
+			notifications: Prisma.NotificationCreateManyInput[]
+		) => {
+			return await db.$transaction(async tx => {
+				const alert = await tx.feedingAlert.create({ data })
+				if (notifications.length > 0) {
+					await tx.notification.createMany({ data: notifications })
+				}
+				return alert
+			})
+		}
+	),
+
+	/**
+	 * Extend an open alert while the low intake run continues
+	 */
+	extendAlert: dedupeQuery(
+		async (id: string, data: Prisma.FeedingAlertUncheckedUpdateInput) => {
+			return await db.feedingAlert.update({ data, where: { id } })
+		}
+	),
+
+	updateAlertStatus: dedupeQuery(
+		async (
+			id: string,
+			data: {
+				status: GrowthAlertStatus
+				reviewedById: string
+				reviewNotes?: string | null
+			},
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const alert = await tx.feedingAlert.update({
+					data: { ...data, reviewedAt: new Date() },
+					where: { id },
+				})
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? id },
+				})
+				return alert
+			})
+		}
+	),
+}
+
+export type FeedingQueries = typeof feedingQueries
@@ -0,0 +1,333 @@
+/**
+ * 🔵 FORMULARY MODULE - QUERY LAYER
+ *
+ * RESPONSIBILITIES:
+ * - ONLY raw Prisma database queries for drugs and dose guidelines
+ * - NO business logic, validation, or error handling
+ * - NO cache directives ('use cache')
+ * - ALL queries wrapped with dedupeQuery()
+ *
+ * PATTERN: Pure Data Access Object (DAO)
+ */
+
+import type { Prisma } from '@/prisma/browser'
+import { db } from '@/server/db'
+
+import { dedupeQuery } from '../../../lib/cache/dedupe'
+import type { AuditEntry } from './audit'
+
+type GuidelineData = Omit<Prisma.DoseGuidelineCreateManyInput, 'drugId'>
+
+type InteractionData = Omit<
+	Prisma.DrugInteractionCreateManyInput,
+	'id' | 'isActive'
+>
+
+const guidelineOrder = [
+	{ route: 'asc' },
+	{ clinicalIndication: 'asc' },
+	{ postNatalAgeDaysMin: 'asc' },
+] satisfies Prisma.DoseGuidelineOrderByWithRelationInput[]
+
+export const formularyQueries = {
+	// ==================== READ QUERIES ====================
+
+	findDrugs: dedupeQuery(
+		async (options: {
+			search?: string
+			drugClass?: string
+			isActive?: boolean
+			isControlled?: boolean
+			requiresPriorAuth?: boolean
+			skip: number
+			take: number
+		}) => {
+			const where: Prisma.DrugWhereInput = {
+				...(options.isActive !== undefined && { isActive: options.isActive }),
+				...(options.isControlled !== undefined && {
+					isControlled: options.isControlled,
+				}),
+				...(options.requiresPriorAuth !== undefined && {
+					requiresPriorAuth: options.requiresPriorAuth,
+				}),
+				...(options.drugClass && {
+					drugClass: { equals: options.drugClass, mode: 'insensitive' },
+				}),
+				...(options.search && {
+					OR: [
+						{ name: { contains: options.search, mode: 'insensitive' } },
+						{ genericName: { contains: options.search, mode: 'insensitive' } },
+						{ brandNames: { has: options.search } },
+					],
+				}),
+			}
+
+			const [drugs, total] = await Promise.all([
+				db.drug.findMany({
+					include: {
+						_count: { select: { guidelines: { where: { isActive: true } } } },
+					},
+					orderBy: { name: 'asc' },
+					skip: options.skip,
+					take: options.take,
+					where,
+				}),
+				db.drug.count({ where }),
+			])
+
+			return { drugs, total }
+		}
+	),
+
+	findDrugById: dedupeQuery(async (id: string) => {
+		return await db.drug.findUnique({
+			include: { guidelines: { orderBy: guidelineOrder } },
+			where: { id },
+		})
+	}),
+
+	findDrugByName: dedupeQuery(async (name: string) => {
+		return await db.drug.findFirst({
+			select: { id: true, name: true },
+			where: { name: { equals: name, mode: 'insensitive' } },
+		})
+	}),
+
+	findGuidelineById: dedupeQuery(async (id: string) => {
+		return await db.doseGuideline.findUnique({
+			include: { drug: { select: { id: true, isActive: true, name: true } } },
+			where: { id },
+		})
+	}),
+
+	/**
+	 * Drugs with their active guidelines, for the import diff
+	 */
+	findDrugsByNames: dedupeQuery(async (names: string[]) => {
+		return await db.drug.findMany({
+			include: {
+				guidelines: { orderBy: guidelineOrder, where: { isActive: true } },
+			},
+			where: { name: { in: names } },
+		})
+	}),
+
+	findAllForExport: dedupeQuery(async (includeRetired: boolean) => {
+		return await db.drug.findMany({
+			include: {
+				guidelines: {
+					orderBy: guidelineOrder,
+					...(!includeRetired && { where: { isActive: true } }),
+				},
+			},
+			orderBy: { name: 'asc' },
+			...(!includeRetired && { where: { isActive: true } }),
+		})
+	}),
+
+	// ==================== INTERACTION QUERIES ====================
+
+	findInteractions: dedupeQuery(
+		async (options: {
+			search?: string
+			severity?: Prisma.DrugInteractionWhereInput['severity']
+			includeInactive: boolean
+			skip: number
+			take: number
+		}) => {
+			const where: Prisma.DrugInteractionWhereInput = {
+				...(!options.includeInactive && { isActive: true }),
+				...(options.severity && { severity: options.severity }),
+				...(options.search && {
+					OR: [
+						{ drugA: { contains: options.search, mode: 'insensitive' } },
+						{ drugB: { contains: options.search, mode: 'insensitive' } },
+					],
+				}),
+			}
+
+			const [interactions, total] = await Promise.all([
+				db.drugInteraction.findMany({
+					orderBy: [{ severity: 'asc' }, { drugA: 'asc' }, { drugB: 'asc' }],
+					skip: options.skip,
+					take: options.take,
+					where,
+				}),
+				db.drugInteraction.count({ where }),
+			])
+
+			return { interactions, total }
+		}
+	),
+
+	findInteractionsByKeys: dedupeQuery(async (pairKeys: string[]) => {
+		return await db.drugInteraction.findMany({
+			where: { pairKey: { in: pairKeys } },
+		})
+	}),
+
+	countActiveInteractionsExcept: dedupeQuery(async (pairKeys: string[]) => {
+		return await db.drugInteraction.count({
+			where: { isActive: true, pairKey: { notIn: pairKeys } },
+		})
+	}),
+
+	// ==================== MUTATION QUERIES ====================
+
+	createDrug: dedupeQuery(
+		async (data: Prisma.DrugCreateInput, audit: AuditEntry) => {
+			return await db.$transaction(async tx => {
+				const drug = await tx.drug.create({ data })
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? drug.id },
+				})
+				return drug
+			})
+		}
+	),
+
+	updateDrug: dedupeQuery(
+		async (id: string, data: Prisma.DrugUpdateInput, audit: AuditEntry) => {
+			return await db.$transaction(async tx => {
+				const drug = await tx.drug.update({ data, where: { id } })
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? id },
+				})
+				return drug
+			})
+		}
+	),
+
+	createGuideline: dedupeQuery(
+		async (
+			data: Prisma.DoseGuidelineUncheckedCreateInput,
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const guideline = await tx.doseGuideline.create({ data })
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? guideline.id },
+				})
+				return guideline
+			})
+		}
+	),
+
+	updateGuideline: dedupeQuery(
+		async (
+			id: string,
+			data: Prisma.DoseGuidelineUncheckedUpdateInput,
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const guideline = await tx.doseGuideline.update({
+					data,
+					where: { id },
+				})
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? id },
+				})
+				return guideline
+			})
+		}
+	),
+
+	/**
+	 * Apply a reviewed nicu_data.json import in one transaction
+	 */
+	applyImport: dedupeQuery(
+		async (
+			changes: {
+				newDrugs: string[]
+				create: { drugName: string; data: GuidelineData }[]
+				update: { id: string; data: GuidelineData }[]
+				retire: string[]
+			},
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(
+				async tx => {
+					for (const name of changes.newDrugs) {
+						await tx.drug.create({ data: { name } })
+					}
+
+					const drugs = await tx.drug.findMany({
+						select: { id: true, name: true },
+						where: {
+							name: { in: [...new Set(changes.create.map(c => c.drugName))] },
+						},
+					})
+					const drugIds = new Map(drugs.map(d => [d.name, d.id]))
+
+					if (changes.create.length > 0) {
+						await tx.doseGuideline.createMany({
+							data: changes.create.map(c => ({
+								...c.data,
+								drugId: drugIds.get(c.drugName) as string,
+							})),
+						})
+					}
+
+					for (const change of changes.update) {
+						await tx.doseGuideline.update({
+							data: change.data,
+							where: { id: change.id },
+						})
+					}
+
+					if (changes.retire.length > 0) {
+						await tx.doseGuideline.updateMany({
+							data: { isActive: false, retiredAt: new Date() },
+							where: { id: { in: changes.retire } },
+						})
+					}
+
+					await tx.auditLog.create({
+						data: { ...audit, resource: audit.resource ?? 'Formulary' },
+					})
+				},
+				// Full-file imports touch every guideline row
+				{ timeout: 30_000 }
+			)
+		}
+	),
+
+	/**
+	 * Upsert interaction pairs by pair key; with `replace`, pairs missing
+	 * from the file are deactivated
+	 */
+	applyInteractionImport: dedupeQuery(
+		async (rows: InteractionData[], replace: boolean, audit: AuditEntry) => {
+			return await db.$transaction(
+				async tx => {
+					for (const row of rows) {
+						await tx.drugInteraction.upsert({
+							create: row,
+							update: { ...row, isActive: true },
+							where: { pairKey: row.pairKey },
+						})
+					}
+
+					const deactivated = replace
+						? await tx.drugInteraction.updateMany({
+								data: { isActive: false },
+								where: {
+									isActive: true,
+									pairKey: { notIn: rows.map(row => row.pairKey) },
+								},
+							})
+						: { count: 0 }
+
+					await tx.auditLog.create({
+						data: { ...audit, resource: audit.resource ?? 'DrugInteraction' },
+					})
+
+					return { deactivated: deactivated.count }
+				},
+				{ timeout: 30_000 }
+			)
+		}
+	),
+} as const
+
+export type FormularyQueries = typeof formularyQueries
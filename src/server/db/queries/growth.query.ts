@@ -13,9 +13,17 @@
 
 import { dedupeQuery } from '@/cache/dedupe'
 import type { Prisma } from '@/prisma/browser'
-import type { ChartType, Gender, GrowthStatus } from '@/types'
+import type {
+	ChartType,
+	Gender,
+	GrowthAlertRule,
+	GrowthAlertStatus,
+	GrowthReference,
+	GrowthStatus,
+} from '@/types'
 
 import { db } from '..'
+import type { AuditEntry } from './audit'
 
 export const growthQueries = {
 	getPatientWithClinic: dedupeQuery(async (patientId: string) => {
@@ -23,8 +31,10 @@ export const growthQueries = {
 			select: {
 				clinicId: true,
 				dateOfBirth: true,
+				doctorId: true,
 				firstName: true,
 				gender: true,
+				gestationalAgeWeeks: true,
 				id: true,
 				lastName: true,
 			},
@@ -38,6 +48,33 @@ export const growthQueries = {
 		})
 	}),
 
+	getClinicProfile: dedupeQuery(async (clinicId: string) => {
+		return db.clinic.findUnique({
+			select: {
+				address: true,
+				email: true,
+				id: true,
+				logo: true,
+				name: true,
+				phone: true,
+			},
+			where: { id: clinicId },
+		})
+	}),
+
+	getPatientIdentity: dedupeQuery(async (patientId: string) => {
+		return db.patient.findUnique({
+			select: {
+				dateOfBirth: true,
+				firstName: true,
+				gender: true,
+				id: true,
+				lastName: true,
+			},
+			where: { id: patientId },
+		})
+	}),
+
 	// ==================== VALIDATION QUERIES ====================
 
 	checkPatientExists: dedupeQuery(async (patientId: string) => {
@@ -45,8 +82,11 @@ export const growthQueries = {
 			select: {
 				clinicId: true,
 				dateOfBirth: true,
+				fatherHeightCm: true,
 				gender: true,
+				gestationalAgeWeeks: true,
 				id: true,
+				motherHeightCm: true,
 			},
 			where: { id: patientId },
 		})
@@ -123,6 +163,7 @@ export const growthQueries = {
 				where: {
 					chartType,
 					gender,
+					reference: 'WHO_2006',
 					OR: [
 						{ ageInMonths: ageMonths },
 						// For infants <24 months, try age days within range
@@ -278,15 +319,23 @@ export const growthQueries = {
 	findWHOStandards: dedupeQuery(
 		async (params: {
 			gender: Gender
-			chartType: 'WFA' | 'HFA' | 'HcFA'
+			chartType: ChartType
 			ageMonthsMin?: number
 			ageMonthsMax?: number
+			reference?: GrowthReference
 		}) => {
-			const { chartType, gender, ageMonthsMin, ageMonthsMax } = params
+			const {
+				chartType,
+				gender,
+				ageMonthsMin,
+				ageMonthsMax,
+				reference = 'WHO_2006',
+			} = params
 
 			const where: Prisma.WHOGrowthStandardWhereInput = {
 				chartType,
 				gender,
+				reference,
 			}
 
 			if (ageMonthsMin !== undefined || ageMonthsMax !== undefined) {
@@ -303,6 +352,218 @@ export const growthQueries = {
 		}
 	),
 
+	countReferenceStandards: dedupeQuery(async (reference: GrowthReference) => {
+		return db.wHOGrowthStandard.count({ where: { reference } })
+	}),
+
+	/**
+	 * The two table rows either side of an age (days) or, for the
+	 * weight-for-length/height tables, a length (cm)
+	 */
+	findBracketingWHOStandards: dedupeQuery(
+		async (params: {
+			gender: Gender
+			chartType: ChartType
+			reference: GrowthReference
+			by: 'ageDays' | 'lengthCm'
+			value: number
+		}) => {
+			const { by, chartType, gender, reference, value } = params
+
+			const [lower, upper] = await Promise.all([
+				db.wHOGrowthStandard.findFirst({
+					orderBy: { [by]: 'desc' },
+					where: { [by]: { lte: value }, chartType, gender, reference },
+				}),
+				db.wHOGrowthStandard.findFirst({
+					orderBy: { [by]: 'asc' },
+					where: { [by]: { gte: value }, chartType, gender, reference },
+				}),
+			])
+
+			return { lower, upper }
+		}
+	),
+
+	findVelocityStandards: dedupeQuery(
+		async (gender: Gender, chartType: ChartType) => {
+			return db.growthVelocityStandard.findMany({
+				orderBy: [{ startMonth: 'asc' }, { endMonth: 'asc' }],
+				where: { chartType, gender },
+			})
+		}
+	),
+
+	// ==================== CLINIC SETTING QUERIES ====================
+
+	findGrowthReferenceSetting: dedupeQuery(async (clinicId: string) => {
+		return db.clinicSetting.findUnique({
+			select: { schoolAgeGrowthReference: true },
+			where: { clinicId },
+		})
+	}),
+
+	/**
+	 * Clinics without a settings row get one with the usual defaults
+	 */
+	upsertGrowthReferenceSetting: dedupeQuery(
+		async (
+			clinicId: string,
+			schoolAgeGrowthReference: GrowthReference,
+			audit: AuditEntry
+		) => {
+			return db.$transaction(async tx => {
+				const setting = await tx.clinicSetting.upsert({
+					create: {
+						clinicId,
+						closingTime: '17:00',
+						openingTime: '08:00',
+						schoolAgeGrowthReference,
+						workingDays: ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'],
+					},
+					select: { schoolAgeGrowthReference: true },
+					update: { schoolAgeGrowthReference },
+					where: { clinicId },
+				})
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? clinicId },
+				})
+				return setting
+			})
+		}
+	),
+
+	// ==================== GROWTH ALERT QUERIES ====================
+
+	/**
+	 * Earlier records the longitudinal rules compare against
+	 */
+	findGrowthAlertHistory: dedupeQuery(
+		async (patientId: string, before: Date, since: Date) => {
+			return db.growthRecord.findMany({
+				orderBy: { date: 'desc' },
+				select: {
+					ageDays: true,
+					date: true,
+					hcForAgeZ: true,
+					headCircumference: true,
+					id: true,
+					weight: true,
+					weightForAgeZ: true,
+					weightForLengthZ: true,
+				},
+				where: {
+					date: { gte: since, lt: before },
+					deletedAt: null,
+					patientId,
+				},
+			})
+		}
+	),
+
+	createGrowthAlerts: dedupeQuery(
+		async (
+			alerts: Prisma.GrowthAlertCreateManyInput[],
+			notifications: Prisma.NotificationCreateManyInput[]
+		) => {
+			return db.$transaction(async tx => {
+				const created = await tx.growthAlert.createMany({
+					data: alerts,
+					skipDuplicates: true,
+				})
+				if (notifications.length > 0) {
+					await tx.notification.createMany({ data: notifications })
+				}
+				return created
+			})
+		}
+	),
+
+	findGrowthAlertsByClinic: dedupeQuery(
+		async (
+			clinicId: string,
+			options: {
+				status?: GrowthAlertStatus[]
+				rule?: GrowthAlertRule
+				patientId?: string
+				skip: number
+				take: number
+			}
+		) => {
+			const where: Prisma.GrowthAlertWhereInput = {
+				clinicId,
+				...(options.status && { status: { in: options.status } }),
+				...(options.rule && { rule: options.rule }),
+				...(options.patientId && { patientId: options.patientId }),
+			}
+
+			return db.$transaction([
+				db.growthAlert.findMany({
+					include: {
+						growthRecord: {
+							select: {
+								date: true,
+								headCircumference: true,
+								height: true,
+								weight: true,
+							},
+						},
+						patient: {
+							select: {
+								dateOfBirth: true,
+								doctor: { select: { id: true, name: true } },
+								firstName: true,
+								gender: true,
+								id: true,
+								lastName: true,
+							},
+						},
+					},
+					orderBy: [{ createdAt: 'desc' }],
+					skip: options.skip,
+					take: options.take,
+					where,
+				}),
+				db.growthAlert.count({ where }),
+			])
+		}
+	),
+
+	findGrowthAlertById: dedupeQuery(async (id: string) => {
+		return db.growthAlert.findUnique({
+			where: { id },
+		})
+	}),
+
+	updateGrowthAlertStatus: dedupeQuery(
+		async (
+			id: string,
+			data: {
+				status: GrowthAlertStatus
+				reviewedById: string
+				reviewNotes?: string | null
+			},
+			audit: AuditEntry
+		) => {
+			return db.$transaction(async tx => {
+				const alert = await tx.growthAlert.update({
+					data: { ...data, reviewedAt: new Date() },
+					where: { id },
+				})
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? id },
+				})
+				return alert
+			})
+		}
+	),
+
+	// ==================== EXPORT QUERIES ====================
+
+	createExportAuditLog: dedupeQuery(async (audit: AuditEntry) => {
+		return db.auditLog.create({ data: audit })
+	}),
+
 	// ==================== AGGREGATION QUERIES ====================
 
 	getGrowthStatsByClinic: dedupeQuery(
@@ -1,10 +1,20 @@
 export * from './admin.query'
+export * from './allergy.query'
 export * from './appointment.query'
+export * from './audit'
 export * from './clinic.query'
+export * from './developmental.query'
 export * from './doctor.query'
+export * from './feeding.query'
+export * from './formulary.query'
 export * from './growth.query'
+export * from './inventory.query'
+export * from './jaundice.query'
 export * from './medical.query'
+export * from './nutrition.query'
 export * from './patient.query'
+export * from './prescription.query'
+export * from './screening.query'
 export * from './service.query'
 export * from './system.query'
 export * from './vac.query'
@@ -0,0 +1,234 @@
+/**
+ * 🔵 INVENTORY MODULE - QUERY LAYER
+ *
+ * RESPONSIBILITIES:
+ * - ONLY raw Prisma database queries for vaccine lots
+ * - NO business logic, validation, or error handling
+ * - NO cache directives ('use cache')
+ * - ALL queries wrapped with dedupeQuery()
+ *
+ * PATTERN: Pure Data Access Object (DAO)
+ */
+
+import type { Prisma } from '@/prisma/browser'
+import { db } from '@/server/db'
+
+import { dedupeQuery } from '../../../lib/cache/dedupe'
+
+export const inventoryQueries = {
+	// ==================== READ QUERIES ====================
+
+	/**
+	 * Usable lots for a vaccine, first-expiry-first-out
+	 */
+	findAvailableLots: dedupeQuery(
+		async (clinicId: string, vaccineName: string, asOf: Date) => {
+			return await db.vaccineLot.findMany({
+				orderBy: [{ expiryDate: 'asc' }, { receivedAt: 'asc' }],
+				where: {
+					clinicId,
+					expiryDate: { gte: asOf },
+					isActive: true,
+					quantityOnHand: { gt: 0 },
+					vaccineName: { equals: vaccineName, mode: 'insensitive' },
+				},
+			})
+		}
+	),
+
+	findByClinic: dedupeQuery(
+		async (
+			clinicId: string,
+			options?: {
+				vaccineName?: string
+				includeEmpty?: boolean
+				includeExpired?: boolean
+				limit?: number
+			}
+		) => {
+			const where: Prisma.VaccineLotWhereInput = { clinicId }
+
+			if (options?.vaccineName) {
+				where.vaccineName = {
+					contains: options.vaccineName,
+					mode: 'insensitive',
+				}
+			}
+			if (!options?.includeEmpty) {
+				where.quantityOnHand = { gt: 0 }
+			}
+			if (!options?.includeExpired) {
+				where.expiryDate = { gte: new Date() }
+			}
+
+			return await db.vaccineLot.findMany({
+				orderBy: [{ vaccineName: 'asc' }, { expiryDate: 'asc' }],
+				take: options?.limit || 100,
+				where,
+			})
+		}
+	),
+
+	findById: dedupeQuery(async (id: string) => {
+		return await db.vaccineLot.findUnique({
+			include: {
+				_count: { select: { immunizations: true } },
+			},
+			where: { id },
+		})
+	}),
+
+	findByLotNumber: dedupeQuery(
+		async (clinicId: string, vaccineName: string, lotNumber: string) => {
+			return await db.vaccineLot.findFirst({
+				where: {
+					clinicId,
+					lotNumber: { equals: lotNumber, mode: 'insensitive' },
+					vaccineName: { equals: vaccineName, mode: 'insensitive' },
+				},
+			})
+		}
+	),
+
+	/**
+	 * Whether the clinic tracks stock for this vaccine at all
+	 */
+	countLotsForVaccine: dedupeQuery(
+		async (clinicId: string, vaccineName: string) => {
+			return await db.vaccineLot.count({
+				where: {
+					clinicId,
+					vaccineName: { equals: vaccineName, mode: 'insensitive' },
+				},
+			})
+		}
+	),
+
+	// ==================== ALERT QUERIES ====================
+
+	/**
+	 * Active lots at/below threshold or expiring before the cutoff that
+	 * have not been alerted yet
+	 */
+	findAlertCandidates: dedupeQuery(
+		async (clinicId: string, expiryCutoff: Date, lotIds?: string[]) => {
+			const lots = await db.vaccineLot.findMany({
+				orderBy: { expiryDate: 'asc' },
+				where: {
+					clinicId,
+					isActive: true,
+					...(lotIds && { id: { in: lotIds } }),
+					OR: [
+						{ lowStockAlertedAt: null },
+						{ expiryAlertedAt: null, expiryDate: { lte: expiryCutoff } },
+					],
+				},
+			})
+
+			// Column-to-column comparison is not expressible in a where clause
+			return lots.filter(
+				lot =>
+					(lot.lowStockAlertedAt === null &&
+						lot.quantityOnHand <= lot.lowStockThreshold) ||
+					(lot.expiryAlertedAt === null &&
+						lot.quantityOnHand > 0 &&
+						lot.expiryDate <= expiryCutoff)
+			)
+		}
+	),
+
+	findClinicMembersWithRoles: dedupeQuery(async (clinicId: string) => {
+		return await db.clinicMember.findMany({
+			select: {
+				role: { select: { permissions: true } },
+				userId: true,
+			},
+			where: { clinicId },
+		})
+	}),
+
+	createNotifications: dedupeQuery(
+		async (data: Prisma.NotificationCreateManyInput[]) => {
+			return await db.notification.createMany({ data })
+		}
+	),
+
+	markAlerted: dedupeQuery(
+		async (
+			ids: string[],
+			field: 'expiryAlertedAt' | 'lowStockAlertedAt',
+			at: Date
+		) => {
+			return await db.vaccineLot.updateMany({
+				data: { [field]: at },
+				where: { id: { in: ids } },
+			})
+		}
+	),
+
+	// ==================== MUTATION QUERIES ====================
+
+	create: dedupeQuery(async (data: Prisma.VaccineLotUncheckedCreateInput) => {
+		return await db.vaccineLot.create({ data })
+	}),
+
+	update: dedupeQuery(
+		async (id: string, data: Prisma.VaccineLotUncheckedUpdateInput) => {
+			return await db.vaccineLot.update({
+				data,
+				where: { id },
+			})
+		}
+	),
+
+	/**
+	 * Apply a signed stock change with its audit entry; never lets stock go
+	 * below zero. Restocking above the threshold re-arms the low-stock alert.
+	 * Returns null when the change would make stock negative.
+	 */
+	adjustStock: dedupeQuery(
+		async (
+			id: string,
+			quantityChange: number,
+			audit: { clinicId: string; reason: string; userId: string }
+		) => {
+			return await db.$transaction(async tx => {
+				const result = await tx.vaccineLot.updateMany({
+					data: { quantityOnHand: { increment: quantityChange } },
+					where: {
+						id,
+						quantityOnHand: { gte: Math.max(0, -quantityChange) },
+					},
+				})
+				if (result.count === 0) return null
+
+				await tx.auditLog.create({
+					data: {
+						action: 'UPDATE',
+						clinicId: audit.clinicId,
+						details: audit.reason,
+						level: 'INFO',
+						metadata: { quantityChange },
+						model: 'VaccineLot',
+						resource: id,
+						userId: audit.userId,
+					},
+				})
+
+				const lot = await tx.vaccineLot.findUniqueOrThrow({ where: { id } })
+				if (
+					lot.quantityOnHand > lot.lowStockThreshold &&
+					lot.lowStockAlertedAt
+				) {
+					return await tx.vaccineLot.update({
+						data: { lowStockAlertedAt: null },
+						where: { id },
+					})
+				}
+				return lot
+			})
+		}
+	),
+} as const
+
+export type InventoryQueries = typeof inventoryQueries
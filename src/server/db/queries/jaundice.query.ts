@@ -0,0 +1,147 @@
+/**
+ * 🔵 JAUNDICE MODULE - QUERY LAYER
+ *
+ * RESPONSIBILITIES:
+ * - ONLY raw Prisma database queries for bilirubin measurements and the
+ *   nomogram / treatment threshold tables
+ * - NO business logic, validation, or error handling
+ * - NO cache directives ('use cache')
+ * - ALL queries wrapped with dedupeQuery()
+ *
+ * PATTERN: Pure Data Access Object (DAO)
+ */
+
+import type { Prisma } from '@/prisma/browser'
+import { db } from '@/server/db'
+
+import { dedupeQuery } from '../../../lib/cache/dedupe'
+import type { AuditEntry } from './audit'
+
+const tableDefinitionInclude = {
+	curves: { orderBy: [{ kind: 'asc' }, { percentile: 'asc' }] },
+	zones: { orderBy: { minPercentile: 'asc' } },
+} satisfies Prisma.BilirubinTableInclude
+
+export const jaundiceQueries = {
+	// ==================== READ QUERIES ====================
+
+	findPatient: dedupeQuery(async (patientId: string, clinicId: string) => {
+		return await db.patient.findFirst({
+			select: {
+				clinicId: true,
+				dateOfBirth: true,
+				firstName: true,
+				gestationalAgeWeeks: true,
+				id: true,
+				lastName: true,
+			},
+			where: { clinicId, id: patientId, isDeleted: false },
+		})
+	}),
+
+	findEncounter: dedupeQuery(async (id: string) => {
+		return await db.diagnosis.findUnique({
+			select: { clinicId: true, id: true, isDeleted: true, patientId: true },
+			where: { id },
+		})
+	}),
+
+	findTables: dedupeQuery(async (includeInactive: boolean) => {
+		return await db.bilirubinTable.findMany({
+			include: { _count: { select: { measurements: true } } },
+			orderBy: [{ isActive: 'desc' }, { updatedAt: 'desc' }],
+			where: includeInactive ? {} : { isActive: true },
+		})
+	}),
+
+	findTableById: dedupeQuery(async (id: string) => {
+		return await db.bilirubinTable.findUnique({
+			include: tableDefinitionInclude,
+			where: { id },
+		})
+	}),
+
+	/**
+	 * Most recently updated active table, used when none is chosen
+	 */
+	findActiveTable: dedupeQuery(async () => {
+		return await db.bilirubinTable.findFirst({
+			include: tableDefinitionInclude,
+			orderBy: { updatedAt: 'desc' },
+			where: { isActive: true },
+		})
+	}),
+
+	findTableByCode: dedupeQuery(async (code: string) => {
+		return await db.bilirubinTable.findUnique({
+			select: { id: true },
+			where: { code },
+		})
+	}),
+
+	findMeasurementsByPatient: dedupeQuery(async (patientId: string) => {
+		return await db.bilirubinMeasurement.findMany({
+			include: { table: { select: { code: true, name: true } } },
+			orderBy: { measuredAt: 'asc' },
+			where: { patientId },
+		})
+	}),
+
+	// ==================== MUTATION QUERIES ====================
+
+	createMeasurement: dedupeQuery(
+		async (
+			data: Prisma.BilirubinMeasurementUncheckedCreateInput,
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const measurement = await tx.bilirubinMeasurement.create({ data })
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? measurement.id },
+				})
+				return measurement
+			})
+		}
+	),
+
+	/**
+	 * Create or update a table by code; curves and zones are replaced.
+	 * Measurements keep the thresholds they were assessed with.
+	 */
+	saveTable: dedupeQuery(
+		async (
+			data: Omit<
+				Prisma.BilirubinTableCreateInput,
+				'curves' | 'zones' | 'measurements'
+			>,
+			curves: Prisma.BilirubinCurveCreateManyTableInput[],
+			zones: Prisma.BilirubinZoneCreateManyTableInput[],
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const table = await tx.bilirubinTable.upsert({
+					create: data,
+					update: data,
+					where: { code: data.code },
+				})
+
+				await tx.bilirubinCurve.deleteMany({ where: { tableId: table.id } })
+				await tx.bilirubinCurve.createMany({
+					data: curves.map(curve => ({ ...curve, tableId: table.id })),
+				})
+
+				await tx.bilirubinZone.deleteMany({ where: { tableId: table.id } })
+				await tx.bilirubinZone.createMany({
+					data: zones.map(zone => ({ ...zone, tableId: table.id })),
+				})
+
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? table.id },
+				})
+				return table
+			})
+		}
+	),
+}
+
+export type JaundiceQueries = typeof jaundiceQueries
@@ -12,7 +12,13 @@
  */
 
 import { dedupeQuery } from '@/cache/dedupe'
-import type { LabStatus, Prisma } from '@/prisma/browser'
+import type {
+	LabStatus,
+	PewsBehavior,
+	Prisma,
+	RespiratoryEffort,
+	SkinColor,
+} from '@/prisma/browser'
 import { db } from '@/server/db'
 
 export const medicalQueries = {
@@ -199,41 +205,61 @@ export const medicalQueries = {
 	),
 
 	createVitalSigns: dedupeQuery(
-		async (data: {
-			medicalId: string
-			patientId: string
-			recordedAt: Date
-			systolic?: number
-			diastolic?: number
-			bodyTemperature?: number
-			heartRate?: number
-			respiratoryRate?: number
-			oxygenSaturation?: number
-			gender?: 'MALE' | 'FEMALE'
-			notes?: string
-			ageDays?: number
-			ageMonths?: number
-		}) => {
-			return await db.vitalSigns.create({
-				data: {
-					id: crypto.randomUUID(),
-					...data,
-					createdAt: new Date(),
-					updatedAt: new Date(),
-				},
-				include: {
-					medical: {
-						select: {
-							clinicId: true,
-							patient: {
-								select: {
-									clinicId: true,
+		async (
+			data: {
+				medicalId: string
+				patientId: string
+				recordedAt: Date
+				systolic?: number
+				diastolic?: number
+				bodyTemperature?: number
+				heartRate?: number
+				respiratoryRate?: number
+				oxygenSaturation?: number
+				gender?: 'MALE' | 'FEMALE'
+				notes?: string
+				ageDays?: number
+				ageMonths?: number
+				behavior?: PewsBehavior
+				skinColor?: SkinColor
+				capillaryRefillSeconds?: number
+				respiratoryEffort?: RespiratoryEffort
+				oxygenFlowLpm?: number
+				flags?: string[]
+				pewsScore?: number | null
+				pewsBehavior?: number | null
+				pewsCardiovascular?: number | null
+				pewsRespiratory?: number | null
+			},
+			// Urgent PEWS notifications, created with the vital signs
+			notifications: Prisma.NotificationCreateManyInput[] = []
+		) => {
+			return await db.$transaction(async tx => {
+				const vitalSigns = await tx.vitalSigns.create({
+					data: {
+						id: crypto.randomUUID(),
+						...data,
+						createdAt: new Date(),
+						updatedAt: new Date(),
+					},
+					include: {
+						medical: {
+							select: {
+								clinicId: true,
+								patient: {
+									select: {
+										clinicId: true,
+									},
 								},
+								patientId: true,
 							},
-							patientId: true,
 						},
 					},
-				},
+				})
+				if (notifications.length > 0) {
+					await tx.notification.createMany({ data: notifications })
+				}
+				return vitalSigns
 			})
 		}
 	),
@@ -876,6 +902,24 @@ export const medicalQueries = {
 		})
 	}),
 
+	/**
+	 * Who is told about an urgent PEWS: the appointment's doctor, or the
+	 * patient's doctor when that doctor has no user account
+	 */
+	findVitalSignsRecipient: dedupeQuery(async (medicalId: string) => {
+		return await db.medicalRecords.findUnique({
+			select: {
+				appointment: {
+					select: { doctor: { select: { name: true, userId: true } } },
+				},
+				patient: {
+					select: { doctorId: true, firstName: true, lastName: true },
+				},
+			},
+			where: { id: medicalId },
+		})
+	}),
+
 	findVitalSignsByMedicalRecord: dedupeQuery(
 		async (medicalId: string, options?: { limit?: number }) => {
 			return await db.vitalSigns.findMany({
@@ -1024,29 +1068,46 @@ export const medicalQueries = {
 		async (
 			id: string,
 			data: {
-				systolic?: number
-				diastolic?: number
-				bodyTemperature?: number
-				heartRate?: number
-				respiratoryRate?: number
-				oxygenSaturation?: number
-				notes?: string
-			}
+				systolic?: number | null
+				diastolic?: number | null
+				bodyTemperature?: number | null
+				heartRate?: number | null
+				respiratoryRate?: number | null
+				oxygenSaturation?: number | null
+				notes?: string | null
+				behavior?: PewsBehavior | null
+				skinColor?: SkinColor | null
+				capillaryRefillSeconds?: number | null
+				respiratoryEffort?: RespiratoryEffort | null
+				oxygenFlowLpm?: number | null
+				flags?: string[]
+				pewsScore?: number | null
+				pewsBehavior?: number | null
+				pewsCardiovascular?: number | null
+				pewsRespiratory?: number | null
+			},
+			notifications: Prisma.NotificationCreateManyInput[] = []
 		) => {
-			return await db.vitalSigns.update({
-				data: {
-					...data,
-					updatedAt: new Date(),
-				},
-				include: {
-					medical: {
-						select: {
-							clinicId: true,
-							patientId: true,
+			return await db.$transaction(async tx => {
+				const vitalSigns = await tx.vitalSigns.update({
+					data: {
+						...data,
+						updatedAt: new Date(),
+					},
+					include: {
+						medical: {
+							select: {
+								clinicId: true,
+								patientId: true,
+							},
 						},
 					},
-				},
-				where: { id },
+					where: { id },
+				})
+				if (notifications.length > 0) {
+					await tx.notification.createMany({ data: notifications })
+				}
+				return vitalSigns
 			})
 		}
 	),
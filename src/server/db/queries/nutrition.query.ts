@@ -0,0 +1,194 @@
+/**
+ * 🔵 NUTRITION MODULE - QUERY LAYER
+ *
+ * RESPONSIBILITIES:
+ * - ONLY raw Prisma database queries for the outpatient therapeutic
+ *   feeding programme (OTP)
+ * - NO business logic, validation, or error handling
+ * - NO cache directives ('use cache')
+ * - ALL queries wrapped with dedupeQuery()
+ *
+ * PATTERN: Pure Data Access Object (DAO)
+ */
+
+import type { Prisma, TherapeuticFeedingStatus } from '@/prisma/browser'
+import { db } from '@/server/db'
+
+import { dedupeQuery } from '../../../lib/cache/dedupe'
+import type { AuditEntry } from './audit'
+
+// Measurements the progress and discharge checks read
+const otpRecordSelect = {
+	bilateralOedema: true,
+	date: true,
+	height: true,
+	id: true,
+	muac: true,
+	muacForAgeZ: true,
+	weight: true,
+	weightForLengthZ: true,
+} satisfies Prisma.GrowthRecordSelect
+
+export const nutritionQueries = {
+	// ==================== READ QUERIES ====================
+
+	findPatient: dedupeQuery(async (patientId: string, clinicId: string) => {
+		return await db.patient.findFirst({
+			select: {
+				clinicId: true,
+				dateOfBirth: true,
+				firstName: true,
+				id: true,
+				lastName: true,
+			},
+			where: { clinicId, id: patientId, isDeleted: false },
+		})
+	}),
+
+	findGrowthRecord: dedupeQuery(async (id: string) => {
+		return await db.growthRecord.findUnique({
+			select: {
+				...otpRecordSelect,
+				acuteMalnutrition: true,
+				clinicId: true,
+				patientId: true,
+			},
+			where: { id },
+		})
+	}),
+
+	findActiveEnrollment: dedupeQuery(async (patientId: string) => {
+		return await db.therapeuticFeedingEnrollment.findFirst({
+			where: { patientId, status: 'ACTIVE' },
+		})
+	}),
+
+	findEnrollmentById: dedupeQuery(async (id: string) => {
+		return await db.therapeuticFeedingEnrollment.findUnique({
+			include: {
+				patient: {
+					select: {
+						dateOfBirth: true,
+						firstName: true,
+						gender: true,
+						id: true,
+						lastName: true,
+					},
+				},
+				visits: {
+					include: { growthRecord: { select: otpRecordSelect } },
+					orderBy: { date: 'asc' },
+				},
+			},
+			where: { id },
+		})
+	}),
+
+	findEnrollmentsByPatient: dedupeQuery(async (patientId: string) => {
+		return await db.therapeuticFeedingEnrollment.findMany({
+			include: { _count: { select: { visits: true } } },
+			orderBy: { admittedAt: 'desc' },
+			where: { patientId },
+		})
+	}),
+
+	findEnrollmentsByClinic: dedupeQuery(
+		async (
+			clinicId: string,
+			status: TherapeuticFeedingStatus,
+			skip: number,
+			take: number
+		) => {
+			const where: Prisma.TherapeuticFeedingEnrollmentWhereInput = {
+				clinicId,
+				status,
+			}
+
+			return await db.$transaction([
+				db.therapeuticFeedingEnrollment.findMany({
+					include: {
+						patient: {
+							select: { firstName: true, id: true, lastName: true },
+						},
+						visits: {
+							orderBy: { date: 'desc' },
+							select: { date: true, weightGainGKgDay: true },
+							take: 1,
+						},
+					},
+					orderBy: { admittedAt: 'desc' },
+					skip,
+					take,
+					where,
+				}),
+				db.therapeuticFeedingEnrollment.count({ where }),
+			])
+		}
+	),
+
+	/**
+	 * Previous follow-up, for the weight gain of a new visit
+	 */
+	findLatestVisit: dedupeQuery(async (enrollmentId: string) => {
+		return await db.therapeuticFeedingVisit.findFirst({
+			include: { growthRecord: { select: otpRecordSelect } },
+			orderBy: { date: 'desc' },
+			where: { enrollmentId },
+		})
+	}),
+
+	// ==================== MUTATION QUERIES ====================
+
+	createEnrollment: dedupeQuery(
+		async (
+			data: Prisma.TherapeuticFeedingEnrollmentUncheckedCreateInput,
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const enrollment = await tx.therapeuticFeedingEnrollment.create({
+					data,
+				})
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? enrollment.id },
+				})
+				return enrollment
+			})
+		}
+	),
+
+	createVisit: dedupeQuery(
+		async (
+			data: Prisma.TherapeuticFeedingVisitUncheckedCreateInput,
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const visit = await tx.therapeuticFeedingVisit.create({ data })
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? visit.id },
+				})
+				return visit
+			})
+		}
+	),
+
+	updateEnrollment: dedupeQuery(
+		async (
+			id: string,
+			data: Prisma.TherapeuticFeedingEnrollmentUncheckedUpdateInput,
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const enrollment = await tx.therapeuticFeedingEnrollment.update({
+					data,
+					where: { id },
+				})
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? id },
+				})
+				return enrollment
+			})
+		}
+	),
+}
+
+export type NutritionQueries = typeof nutritionQueries
@@ -0,0 +1,304 @@
+/**
+ * 🔵 PRESCRIPTION MODULE - QUERY LAYER
+ *
+ * RESPONSIBILITIES:
+ * - ONLY raw Prisma database queries for prescriptions and their items
+ * - NO business logic, validation, or error handling
+ * - NO cache directives ('use cache')
+ * - ALL queries wrapped with dedupeQuery()
+ *
+ * PATTERN: Pure Data Access Object (DAO)
+ */
+
+import type { Prisma } from '@/prisma/browser'
+import { db } from '@/server/db'
+
+import { dedupeQuery } from '../../../lib/cache/dedupe'
+import type { AuditEntry } from './audit'
+
+type PrescribedItemData = Omit<
+	Prisma.PrescribedItemCreateManyInput,
+	'prescriptionId'
+>
+
+const prescriptionInclude = {
+	doctor: {
+		select: {
+			id: true,
+			name: true,
+			userId: true,
+		},
+	},
+	patient: {
+		select: {
+			clinicId: true,
+			dateOfBirth: true,
+			firstName: true,
+			id: true,
+			lastName: true,
+		},
+	},
+	prescribedItems: {
+		include: {
+			drug: {
+				select: {
+					id: true,
+					name: true,
+				},
+			},
+		},
+		orderBy: { createdAt: 'asc' },
+	},
+} satisfies Prisma.PrescriptionInclude
+
+export const prescriptionQueries = {
+	// ==================== READ QUERIES ====================
+
+	findById: dedupeQuery(async (id: string) => {
+		return await db.prescription.findUnique({
+			include: prescriptionInclude,
+			where: { id },
+		})
+	}),
+
+	findByPatient: dedupeQuery(
+		async (
+			patientId: string,
+			options?: { status?: string; limit?: number }
+		) => {
+			return await db.prescription.findMany({
+				include: prescriptionInclude,
+				orderBy: { issuedDate: 'desc' },
+				take: options?.limit || 50,
+				where: {
+					patientId,
+					...(options?.status && { status: options.status }),
+				},
+			})
+		}
+	),
+
+	// ==================== DOSING CONTEXT ====================
+
+	findPatientForDosing: dedupeQuery(
+		async (patientId: string, clinicId: string) => {
+			return await db.patient.findFirst({
+				select: {
+					// Free text is still checked until it has been structured
+					allergies: true,
+					clinicId: true,
+					dateOfBirth: true,
+					firstName: true,
+					gestationalAgeWeeks: true,
+					id: true,
+					lastName: true,
+				},
+				where: { clinicId, id: patientId, isDeleted: false },
+			})
+		}
+	),
+
+	findLatestWeight: dedupeQuery(async (patientId: string) => {
+		return await db.growthRecord.findFirst({
+			orderBy: { date: 'desc' },
+			select: { date: true, weight: true },
+			where: { deletedAt: null, patientId, weight: { not: null } },
+		})
+	}),
+
+	/**
+	 * Drugs on the patient's current prescriptions, for interaction checks
+	 */
+	findActivePrescribedDrugs: dedupeQuery(
+		async (patientId: string, excludePrescriptionIds: string[] = []) => {
+			return await db.prescribedItem.findMany({
+				select: {
+					drug: {
+						select: {
+							brandNames: true,
+							drugClass: true,
+							genericName: true,
+							id: true,
+							name: true,
+						},
+					},
+					prescriptionId: true,
+				},
+				where: {
+					prescription: {
+						OR: [{ endDate: null }, { endDate: { gte: new Date() } }],
+						id: { notIn: excludePrescriptionIds },
+						patientId,
+						status: 'active',
+					},
+				},
+			})
+		}
+	),
+
+	findActiveInteractions: dedupeQuery(async () => {
+		return await db.drugInteraction.findMany({
+			select: {
+				drugA: true,
+				drugB: true,
+				id: true,
+				management: true,
+				mechanism: true,
+				severity: true,
+			},
+			where: { isActive: true },
+		})
+	}),
+
+	findDrugsWithGuidelines: dedupeQuery(async (drugIds: string[]) => {
+		return await db.drug.findMany({
+			include: { guidelines: { where: { isActive: true } } },
+			where: { id: { in: drugIds } },
+		})
+	}),
+
+	findGuidelineById: dedupeQuery(async (id: string) => {
+		return await db.doseGuideline.findUnique({
+			include: { drug: { select: { id: true, name: true } } },
+			where: { id },
+		})
+	}),
+
+	findClinicForLabel: dedupeQuery(async (clinicId: string) => {
+		return await db.clinic.findUnique({
+			select: { id: true, name: true, phone: true },
+			where: { id: clinicId },
+		})
+	}),
+
+	findEncounter: dedupeQuery(async (encounterId: string) => {
+		return await db.diagnosis.findUnique({
+			select: {
+				clinicId: true,
+				doctorId: true,
+				id: true,
+				medicalId: true,
+				patientId: true,
+			},
+			where: { id: encounterId },
+		})
+	}),
+
+	findDoctorByUserId: dedupeQuery(async (userId: string, clinicId: string) => {
+		return await db.doctor.findFirst({
+			select: { id: true, name: true },
+			where: { clinicId, isDeleted: false, userId },
+		})
+	}),
+
+	findDoctorInClinic: dedupeQuery(
+		async (doctorId: string, clinicId: string) => {
+			return await db.doctor.findFirst({
+				select: { id: true, name: true },
+				where: { clinicId, id: doctorId, isDeleted: false },
+			})
+		}
+	),
+
+	// ==================== MUTATION QUERIES ====================
+
+	/**
+	 * Create the prescription with its items and any override audit entries
+	 * A renewal also closes the prescription it renews
+	 */
+	create: dedupeQuery(
+		async (
+			data: Omit<Prisma.PrescriptionUncheckedCreateInput, 'prescribedItems'>,
+			items: PrescribedItemData[],
+			audits: AuditEntry[]
+		) => {
+			return await db.$transaction(async tx => {
+				const prescription = await tx.prescription.create({
+					data: {
+						...data,
+						prescribedItems: { createMany: { data: items } },
+					},
+				})
+
+				if (data.renewedFromId) {
+					await tx.prescription.update({
+						data: { status: 'completed' },
+						where: { id: data.renewedFromId },
+					})
+				}
+
+				if (audits.length > 0) {
+					await tx.auditLog.createMany({
+						data: audits.map(entry => ({
+							...entry,
+							resource: entry.resource ?? prescription.id,
+						})),
+					})
+				}
+
+				return await tx.prescription.findUniqueOrThrow({
+					include: prescriptionInclude,
+					where: { id: prescription.id },
+				})
+			})
+		}
+	),
+
+	/**
+	 * Update header fields; when items are given they replace the old ones
+	 */
+	update: dedupeQuery(
+		async (
+			id: string,
+			data: Prisma.PrescriptionUncheckedUpdateInput,
+			items: PrescribedItemData[] | undefined,
+			audits: AuditEntry[]
+		) => {
+			return await db.$transaction(async tx => {
+				if (items) {
+					await tx.prescribedItem.deleteMany({ where: { prescriptionId: id } })
+					await tx.prescribedItem.createMany({
+						data: items.map(item => ({ ...item, prescriptionId: id })),
+					})
+				}
+
+				if (audits.length > 0) {
+					await tx.auditLog.createMany({
+						data: audits.map(entry => ({
+							...entry,
+							resource: entry.resource ?? id,
+						})),
+					})
+				}
+
+				return await tx.prescription.update({
+					data,
+					include: prescriptionInclude,
+					where: { id },
+				})
+			})
+		}
+	),
+
+	cancel: dedupeQuery(async (id: string, reason: string, audit: AuditEntry) => {
+		return await db.$transaction(async tx => {
+			const prescription = await tx.prescription.update({
+				data: {
+					cancellationReason: reason,
+					cancelledAt: new Date(),
+					status: 'cancelled',
+				},
+				include: prescriptionInclude,
+				where: { id },
+			})
+
+			await tx.auditLog.create({
+				data: { ...audit, resource: audit.resource ?? id },
+			})
+
+			return prescription
+		})
+	}),
+} as const
+
+export type PrescriptionQueries = typeof prescriptionQueries
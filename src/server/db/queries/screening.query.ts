@@ -0,0 +1,204 @@
+/**
+ * 🔵 SCREENING MODULE - QUERY LAYER
+ *
+ * RESPONSIBILITIES:
+ * - ONLY raw Prisma database queries for screening instruments and
+ *   their scored results
+ * - NO business logic, validation, or error handling
+ * - NO cache directives ('use cache')
+ * - ALL queries wrapped with dedupeQuery()
+ *
+ * PATTERN: Pure Data Access Object (DAO)
+ */
+
+import type { Prisma } from '@/prisma/browser'
+import { db } from '@/server/db'
+
+import { dedupeQuery } from '../../../lib/cache/dedupe'
+import type { AuditEntry } from './audit'
+
+const instrumentDefinitionInclude = {
+	cutoffs: { orderBy: [{ domain: 'asc' }, { minScore: 'asc' }] },
+	questions: { orderBy: { number: 'asc' } },
+} satisfies Prisma.ScreeningInstrumentInclude
+
+export const screeningQueries = {
+	// ==================== READ QUERIES ====================
+
+	findPatient: dedupeQuery(async (patientId: string, clinicId: string) => {
+		return await db.patient.findFirst({
+			select: {
+				clinicId: true,
+				dateOfBirth: true,
+				firstName: true,
+				gestationalAgeWeeks: true,
+				id: true,
+				lastName: true,
+			},
+			where: { clinicId, id: patientId, isDeleted: false },
+		})
+	}),
+
+	findEncounter: dedupeQuery(async (id: string) => {
+		return await db.diagnosis.findUnique({
+			select: { clinicId: true, id: true, isDeleted: true, patientId: true },
+			where: { id },
+		})
+	}),
+
+	findInstruments: dedupeQuery(async (includeInactive: boolean) => {
+		return await db.screeningInstrument.findMany({
+			include: { _count: { select: { questions: true } } },
+			orderBy: [{ minAgeMonths: 'asc' }, { name: 'asc' }],
+			where: includeInactive ? {} : { isActive: true },
+		})
+	}),
+
+	findInstrumentById: dedupeQuery(async (id: string) => {
+		return await db.screeningInstrument.findUnique({
+			include: instrumentDefinitionInclude,
+			where: { id },
+		})
+	}),
+
+	findInstrumentByCode: dedupeQuery(async (code: string) => {
+		return await db.screeningInstrument.findUnique({
+			include: {
+				_count: { select: { results: true } },
+				questions: { select: { number: true } },
+			},
+			where: { code },
+		})
+	}),
+
+	findInstrumentCodes: dedupeQuery(async (codes: string[]) => {
+		return await db.screeningInstrument.findMany({
+			select: { code: true },
+			where: { code: { in: codes } },
+		})
+	}),
+
+	/**
+	 * Active instruments with what the due calculation needs
+	 */
+	findScheduledInstruments: dedupeQuery(async () => {
+		return await db.screeningInstrument.findMany({
+			select: {
+				code: true,
+				dueAgesMonths: true,
+				maxAgeMonths: true,
+				name: true,
+				windowMonths: true,
+			},
+			where: { isActive: true },
+		})
+	}),
+
+	findResultsByPatient: dedupeQuery(async (patientId: string) => {
+		return await db.screeningResult.findMany({
+			include: { instrument: { select: { code: true, name: true } } },
+			orderBy: { administeredAt: 'desc' },
+			where: { patientId },
+		})
+	}),
+
+	findResultById: dedupeQuery(async (id: string) => {
+		return await db.screeningResult.findUnique({
+			include: {
+				answers: {
+					include: {
+						question: { select: { domain: true, number: true, text: true } },
+					},
+					orderBy: { question: { number: 'asc' } },
+				},
+				instrument: { select: { code: true, name: true, version: true } },
+				patient: { select: { firstName: true, id: true, lastName: true } },
+			},
+			where: { id },
+		})
+	}),
+
+	// ==================== MUTATION QUERIES ====================
+
+	createResult: dedupeQuery(
+		async (
+			data: Omit<Prisma.ScreeningResultUncheckedCreateInput, 'answers'>,
+			answers: Prisma.ScreeningAnswerCreateManyResultInput[],
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const result = await tx.screeningResult.create({
+					data: { ...data, answers: { createMany: { data: answers } } },
+				})
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? result.id },
+				})
+				return result
+			})
+		}
+	),
+
+	/**
+	 * Create or update an instrument by code. Questions are matched by
+	 * number so answers already recorded keep pointing at them; cut-offs
+	 * are replaced.
+	 */
+	saveInstrument: dedupeQuery(
+		async (
+			data: Omit<
+				Prisma.ScreeningInstrumentCreateInput,
+				'questions' | 'cutoffs' | 'results'
+			>,
+			questions: Omit<
+				Prisma.ScreeningQuestionCreateManyInstrumentInput,
+				'id' | 'instrumentId'
+			>[],
+			cutoffs: Prisma.ScreeningCutoffCreateManyInstrumentInput[],
+			audit: AuditEntry
+		) => {
+			return await db.$transaction(async tx => {
+				const instrument = await tx.screeningInstrument.upsert({
+					create: data,
+					update: data,
+					where: { code: data.code },
+				})
+
+				for (const question of questions) {
+					await tx.screeningQuestion.upsert({
+						create: { ...question, instrumentId: instrument.id },
+						update: question,
+						where: {
+							instrumentId_number: {
+								instrumentId: instrument.id,
+								number: question.number,
+							},
+						},
+					})
+				}
+				await tx.screeningQuestion.deleteMany({
+					where: {
+						instrumentId: instrument.id,
+						number: { notIn: questions.map(q => q.number) },
+					},
+				})
+
+				await tx.screeningCutoff.deleteMany({
+					where: { instrumentId: instrument.id },
+				})
+				await tx.screeningCutoff.createMany({
+					data: cutoffs.map(cutoff => ({
+						...cutoff,
+						instrumentId: instrument.id,
+					})),
+				})
+
+				await tx.auditLog.create({
+					data: { ...audit, resource: audit.resource ?? instrument.id },
+				})
+				return instrument
+			})
+		}
+	),
+}
+
+export type ScreeningQueries = typeof screeningQueries
@@ -61,6 +61,7 @@ export const vaccinationQueries = {
 					firstName: true,
 					id: true,
 					lastName: true,
+					vaccineScheduleVersionId: true,
 				},
 				where: {
 					clinicId,
@@ -124,23 +125,6 @@ export const vaccinationQueries = {
 		}
 	),
 
-	countOverdue: dedupeQuery(async (clinicId: string, daysOverdue = 0) => {
-		const today = new Date()
-		const cutoffDate = new Date()
-		cutoffDate.setDate(today.getDate() - (Number(daysOverdue) || 0))
-
-		return await db.immunization.count({
-			where: {
-				date: {
-					lt: cutoffDate,
-				},
-				isDeleted: false,
-				patient: { clinicId },
-				status: 'PENDING',
-			},
-		})
-	}),
-
 	countUpcoming: dedupeQuery(async (clinicId: string, daysAhead = 30) => {
 		const today = new Date()
 		const futureDate = new Date()
@@ -182,6 +166,51 @@ export const vaccinationQueries = {
 		})
 	}),
 
+	/**
+	 * Create an administered dose and draw one unit from its lot atomically
+	 * Returns null when the lot has no stock left or expires before validFrom
+	 */
+	createWithLot: dedupeQuery(
+		async (
+			data: Prisma.ImmunizationCreateInput,
+			vaccineLotId: string,
+			validFrom: Date
+		) => {
+			return await db.$transaction(async tx => {
+				const drawn = await tx.vaccineLot.updateMany({
+					data: { quantityOnHand: { decrement: 1 } },
+					where: {
+						expiryDate: { gte: validFrom },
+						id: vaccineLotId,
+						isActive: true,
+						quantityOnHand: { gt: 0 },
+					},
+				})
+				if (drawn.count === 0) return null
+
+				return await tx.immunization.create({
+					data: {
+						...data,
+						createdAt: new Date(),
+						id: crypto.randomUUID(),
+						updatedAt: new Date(),
+						vaccineLot: { connect: { id: vaccineLotId } },
+					},
+					include: {
+						patient: {
+							select: {
+								clinicId: true,
+								firstName: true,
+								id: true,
+								lastName: true,
+							},
+						},
+					},
+				})
+			})
+		}
+	),
+
 	findByClinic: dedupeQuery(
 		async (
 			clinicId: string,
@@ -403,9 +432,12 @@ export const vaccinationQueries = {
 			ageMonths?: number
 			isMandatory?: boolean
 			vaccineName?: string
+			scheduleVersionId?: string | null
 			limit?: number
 		}) => {
-			const where: Prisma.VaccineScheduleWhereInput = {}
+			const where: Prisma.VaccineScheduleWhereInput = {
+				scheduleVersionId: options?.scheduleVersionId ?? null,
+			}
 
 			if (options?.ageMonths !== undefined) {
 				where.ageInDaysMin = { lte: options.ageMonths * 30 }
@@ -431,17 +463,20 @@ export const vaccinationQueries = {
 		}
 	),
 
-	findVaccineScheduleByAge: dedupeQuery(async (ageMonths: number) => {
-		const ageDays = ageMonths * 30
+	findVaccineScheduleByAge: dedupeQuery(
+		async (ageMonths: number, scheduleVersionId: string | null = null) => {
+			const ageDays = ageMonths * 30
 
-		return await db.vaccineSchedule.findMany({
-			orderBy: { vaccineName: 'asc' },
-			where: {
-				ageInDaysMax: { gte: ageDays },
-				ageInDaysMin: { lte: ageDays },
-			},
-		})
-	}),
+			return await db.vaccineSchedule.findMany({
+				orderBy: { vaccineName: 'asc' },
+				where: {
+					ageInDaysMax: { gte: ageDays },
+					ageInDaysMin: { lte: ageDays },
+					scheduleVersionId,
+				},
+			})
+		}
+	),
 
 	findVaccineScheduleById: dedupeQuery(async (id: number) => {
 		return await db.vaccineSchedule.findUnique({
@@ -453,6 +488,7 @@ export const vaccinationQueries = {
 			select: {
 				dateOfBirth: true,
 				firstName: true,
+				gender: true,
 				id: true,
 				lastName: true,
 			},
@@ -463,28 +499,389 @@ export const vaccinationQueries = {
 		})
 	}),
 
-	getSchedule: dedupeQuery(async () => {
+	/**
+	 * Entries of one schedule version; null returns the legacy
+	 * unversioned schedule
+	 */
+	getSchedule: dedupeQuery(async (scheduleVersionId: string | null = null) => {
 		return await db.vaccineSchedule.findMany({
 			orderBy: {
 				ageInDaysMin: 'asc',
 			},
 			where: {
-				// You can add an isActive flag here if your schema supports it
+				scheduleVersionId,
 			},
 		})
 	}),
 
-	softDelete: dedupeQuery(async (id: string) => {
-		return await db.immunization.update({
-			data: {
-				deletedAt: new Date(),
-				isDeleted: true,
-				updatedAt: new Date(),
+	// ==================== AEFI QUERIES ====================
+
+	createAdverseEvent: dedupeQuery(
+		async (data: Prisma.AdverseEventUncheckedCreateInput) => {
+			return await db.adverseEvent.create({ data })
+		}
+	),
+
+	updateAdverseEvent: dedupeQuery(
+		async (id: string, data: Prisma.AdverseEventUncheckedUpdateInput) => {
+			return await db.adverseEvent.update({
+				data,
+				where: { id },
+			})
+		}
+	),
+
+	findAdverseEventById: dedupeQuery(async (id: string) => {
+		return await db.adverseEvent.findFirst({
+			include: {
+				immunization: {
+					select: {
+						date: true,
+						dose: true,
+						lotNumber: true,
+						vaccine: true,
+					},
+				},
+			},
+			where: { id, isDeleted: false },
+		})
+	}),
+
+	findAdverseEventsByPatient: dedupeQuery(async (patientId: string) => {
+		return await db.adverseEvent.findMany({
+			include: {
+				immunization: {
+					select: {
+						date: true,
+						dose: true,
+						lotNumber: true,
+						vaccine: true,
+					},
+				},
+			},
+			orderBy: { onsetAt: 'desc' },
+			where: { isDeleted: false, patientId },
+		})
+	}),
+
+	/**
+	 * Serious events not cleared by a PROCEED review
+	 */
+	findUnclearedSeriousEvents: dedupeQuery(async (patientId: string) => {
+		return await db.adverseEvent.findMany({
+			select: {
+				immunization: { select: { vaccine: true } },
+				onsetAt: true,
+				reviewDecision: true,
+				severity: true,
+			},
+			where: {
+				isDeleted: false,
+				isSerious: true,
+				patientId,
+				OR: [{ reviewDecision: null }, { reviewDecision: { not: 'PROCEED' } }],
+			},
+		})
+	}),
+
+	/**
+	 * AEFI cohort for the clinic report, filtered by administration date
+	 */
+	findAdverseEventsForReport: dedupeQuery(
+		async (
+			clinicId: string,
+			options?: {
+				startDate?: Date
+				endDate?: Date
+				seriousOnly?: boolean
+				vaccineName?: string
+			}
+		) => {
+			return await db.adverseEvent.findMany({
+				include: {
+					immunization: {
+						select: {
+							date: true,
+							lotNumber: true,
+							vaccine: true,
+							vaccineLot: {
+								select: { expiryDate: true, manufacturer: true },
+							},
+						},
+					},
+				},
+				orderBy: { onsetAt: 'desc' },
+				where: {
+					clinicId,
+					immunization: {
+						date: { gte: options?.startDate, lte: options?.endDate },
+						...(options?.vaccineName && {
+							vaccine: { contains: options.vaccineName, mode: 'insensitive' },
+						}),
+					},
+					isDeleted: false,
+					...(options?.seriousOnly && { isSerious: true }),
+				},
+			})
+		}
+	),
+
+	/**
+	 * Administered doses per vaccine and lot - denominator for AEFI rates
+	 */
+	countAdministeredByLot: dedupeQuery(
+		async (
+			clinicId: string,
+			options?: { startDate?: Date; endDate?: Date; vaccineName?: string }
+		) => {
+			return await db.immunization.groupBy({
+				_count: { _all: true },
+				by: ['vaccine', 'lotNumber'],
+				where: {
+					date: { gte: options?.startDate, lte: options?.endDate },
+					isDeleted: false,
+					patient: { clinicId },
+					status: 'COMPLETED',
+					...(options?.vaccineName && {
+						vaccine: { contains: options.vaccineName, mode: 'insensitive' },
+					}),
+				},
+			})
+		}
+	),
+
+	// ==================== CERTIFICATE QUERIES ====================
+
+	/**
+	 * Store the issued certificate and its EXPORT audit entry together
+	 */
+	createCertificate: dedupeQuery(
+		async (
+			data: Prisma.ImmunizationCertificateUncheckedCreateInput,
+			audit: Omit<Prisma.AuditLogUncheckedCreateInput, 'action' | 'model'>
+		) => {
+			const [certificate] = await db.$transaction([
+				db.immunizationCertificate.create({ data }),
+				db.auditLog.create({
+					data: {
+						...audit,
+						action: 'EXPORT',
+						model: 'ImmunizationCertificate',
+					},
+				}),
+			])
+			return certificate
+		}
+	),
+
+	findCertificateByCode: dedupeQuery(async (verificationCode: string) => {
+		return await db.immunizationCertificate.findUnique({
+			include: {
+				clinic: {
+					select: {
+						address: true,
+						name: true,
+					},
+				},
+				patient: {
+					select: {
+						dateOfBirth: true,
+						firstName: true,
+						id: true,
+						lastName: true,
+					},
+				},
+			},
+			where: { verificationCode },
+		})
+	}),
+
+	getClinicProfile: dedupeQuery(async (clinicId: string) => {
+		return await db.clinic.findUnique({
+			select: {
+				address: true,
+				email: true,
+				id: true,
+				logo: true,
+				name: true,
+				phone: true,
+			},
+			where: { id: clinicId },
+		})
+	}),
+
+	// ==================== SCHEDULE VERSION QUERIES ====================
+
+	assignScheduleVersion: dedupeQuery(
+		async (clinicId: string, scheduleVersionId: string, userId?: string) => {
+			return await db.clinicVaccineSchedule.upsert({
+				create: {
+					assignedById: userId,
+					clinicId,
+					scheduleVersionId,
+				},
+				include: { scheduleVersion: true },
+				update: {
+					assignedAt: new Date(),
+					assignedById: userId,
+				},
+				where: {
+					clinicId_scheduleVersionId: { clinicId, scheduleVersionId },
+				},
+			})
+		}
+	),
+
+	createScheduleVersion: dedupeQuery(
+		async (
+			data: Omit<Prisma.VaccineScheduleVersionCreateInput, 'entries'>,
+			entries: Omit<
+				Prisma.VaccineScheduleCreateManyInput,
+				'scheduleVersionId'
+			>[]
+		) => {
+			return await db.vaccineScheduleVersion.create({
+				data: {
+					...data,
+					entries: {
+						createMany: { data: entries },
+					},
+				},
+				include: {
+					_count: { select: { entries: true } },
+				},
+			})
+		}
+	),
+
+	/**
+	 * One page of clinic patients after the cursor, with the given and
+	 * exempted doses the series engine counts
+	 */
+	findPatientsWithHistory: dedupeQuery(
+		async (
+			clinicId: string,
+			historyLimit: number,
+			cursor: string | null,
+			take: number
+		) => {
+			return await db.patient.findMany({
+				cursor: cursor ? { id: cursor } : undefined,
+				orderBy: { id: 'asc' },
+				select: {
+					dateOfBirth: true,
+					id: true,
+					immunizations: {
+						orderBy: { date: 'desc' },
+						select: { date: true, dose: true, status: true, vaccine: true },
+						take: historyLimit,
+						where: {
+							isDeleted: false,
+							status: { in: ['COMPLETED', 'EXEMPTED'] },
+						},
+					},
+					vaccineScheduleVersionId: true,
+				},
+				skip: cursor ? 1 : 0,
+				take,
+				where: { clinicId, isDeleted: false },
+			})
+		}
+	),
+
+	findClinicScheduleVersions: dedupeQuery(async (clinicId: string) => {
+		return await db.clinicVaccineSchedule.findMany({
+			include: { scheduleVersion: true },
+			orderBy: { scheduleVersion: { effectiveFrom: 'desc' } },
+			where: {
+				clinicId,
+				scheduleVersion: { isActive: true },
+			},
+		})
+	}),
+
+	findScheduleVersionById: dedupeQuery(async (id: string) => {
+		return await db.vaccineScheduleVersion.findUnique({
+			include: {
+				entries: {
+					orderBy: [{ ageInDaysMin: 'asc' }, { vaccineName: 'asc' }],
+				},
 			},
 			where: { id },
 		})
 	}),
 
+	findScheduleVersionByKey: dedupeQuery(
+		async (program: string, version: string) => {
+			return await db.vaccineScheduleVersion.findUnique({
+				where: { program_version: { program, version } },
+			})
+		}
+	),
+
+	findScheduleVersions: dedupeQuery(async (program?: string) => {
+		return await db.vaccineScheduleVersion.findMany({
+			include: {
+				_count: { select: { entries: true, patients: true } },
+			},
+			orderBy: [{ program: 'asc' }, { effectiveFrom: 'desc' }],
+			where: {
+				isActive: true,
+				...(program && { program }),
+			},
+		})
+	}),
+
+	unassignScheduleVersion: dedupeQuery(
+		async (clinicId: string, scheduleVersionId: string) => {
+			return await db.clinicVaccineSchedule.deleteMany({
+				where: { clinicId, scheduleVersionId },
+			})
+		}
+	),
+
+	updatePatientScheduleVersion: dedupeQuery(
+		async (patientId: string, scheduleVersionId: string | null) => {
+			return await db.patient.update({
+				data: {
+					vaccineScheduleMigratedAt: scheduleVersionId ? new Date() : null,
+					vaccineScheduleVersionId: scheduleVersionId,
+				},
+				select: {
+					id: true,
+					vaccineScheduleMigratedAt: true,
+					vaccineScheduleVersionId: true,
+				},
+				where: { id: patientId },
+			})
+		}
+	),
+
+	/**
+	 * Soft delete, returning an administered dose to its lot's stock
+	 */
+	softDelete: dedupeQuery(
+		async (id: string, returnLotId: string | null = null) => {
+			return await db.$transaction(async tx => {
+				if (returnLotId) {
+					await tx.vaccineLot.update({
+						data: { quantityOnHand: { increment: 1 } },
+						where: { id: returnLotId },
+					})
+				}
+
+				return await tx.immunization.update({
+					data: {
+						deletedAt: new Date(),
+						isDeleted: true,
+						updatedAt: new Date(),
+					},
+					where: { id },
+				})
+			})
+		}
+	),
+
 	update: dedupeQuery(
 		async (id: string, data: Prisma.ImmunizationUpdateInput) => {
 			return await db.immunization.update({
@@ -505,23 +902,62 @@ export const vaccinationQueries = {
 		}
 	),
 
-	updateStatus: dedupeQuery(async (id: string, status: ImmunizationStatus) => {
-		return await db.immunization.update({
-			data: {
-				status,
-				updatedAt: new Date(),
-			},
-			include: {
-				patient: {
-					select: {
-						clinicId: true,
-						id: true,
+	/**
+	 * Update a dose and move its stock in one transaction: draw one from
+	 * the new lot (null when it ran out or expired), return one to the old
+	 */
+	updateWithLot: dedupeQuery(
+		async (
+			id: string,
+			data: Prisma.ImmunizationUpdateInput,
+			lots: {
+				drawLotId: string | null
+				returnLotId: string | null
+				validFrom: Date
+			}
+		) => {
+			return await db.$transaction(async tx => {
+				if (lots.drawLotId) {
+					const drawn = await tx.vaccineLot.updateMany({
+						data: { quantityOnHand: { decrement: 1 } },
+						where: {
+							expiryDate: { gte: lots.validFrom },
+							id: lots.drawLotId,
+							isActive: true,
+							quantityOnHand: { gt: 0 },
+						},
+					})
+					if (drawn.count === 0) return null
+				}
+
+				if (lots.returnLotId) {
+					await tx.vaccineLot.update({
+						data: { quantityOnHand: { increment: 1 } },
+						where: { id: lots.returnLotId },
+					})
+				}
+
+				return await tx.immunization.update({
+					data: {
+						...data,
+						updatedAt: new Date(),
+						vaccineLot: lots.drawLotId
+							? { connect: { id: lots.drawLotId } }
+							: { disconnect: true },
 					},
-				},
-			},
-			where: { id },
-		})
-	}),
+					include: {
+						patient: {
+							select: {
+								clinicId: true,
+								id: true,
+							},
+						},
+					},
+					where: { id },
+				})
+			})
+		}
+	),
 } as const
 
 export type VaccinationQueries = typeof vaccinationQueries
@@ -0,0 +1,338 @@
+/**
+ * 🟡 ALLERGY MODULE - SERVICE LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Structured patient allergies: record, edit, refute, remove
+ * - Suggestions parsed from the free-text Patient.allergies column
+ * - Allergy context for drug-allergy checks at prescribing time
+ * - NO direct Prisma calls
+ * - Uses cache helpers for invalidation
+ */
+
+import { TRPCError } from '@trpc/server'
+
+import type {
+	AllergyCreateInput,
+	AllergyImportInput,
+	AllergyMigrationListInput,
+	AllergyUpdateInput,
+	PatientAllergiesInput,
+} from '@/schemas/allergy.schema'
+import { allergyQueries } from '@/server/db/queries/allergy.query'
+import {
+	type AllergyRecord,
+	drugClassesOf,
+	normalizeTerm,
+	parseAllergyText,
+} from '@/utils/allergy'
+
+import { cacheHelpers } from '../../lib/cache/helpers'
+import { validateClinicAccess } from '../utils'
+
+// ==================== QUERY METHODS ====================
+
+export async function getPatientAllergies(
+	input: PatientAllergiesInput,
+	clinicId: string
+) {
+	await getPatient(input.patientId, clinicId)
+	return allergyQueries.findByPatient(input.patientId, input.includeInactive)
+}
+
+/**
+ * Structured suggestions read from a patient's free-text allergies.
+ * Entries already recorded in the structured list are flagged.
+ */
+export async function getAllergySuggestions(
+	patientId: string,
+	clinicId: string
+) {
+	const patient = await getPatient(patientId, clinicId)
+	const existing = await allergyQueries.findByPatient(patientId, true)
+	const recorded = new Set(existing.map(a => normalizeTerm(a.allergen)))
+
+	return {
+		freeText: patient.allergies,
+		suggestions: parseAllergyText(patient.allergies).map(suggestion => ({
+			...suggestion,
+			alreadyRecorded: recorded.has(normalizeTerm(suggestion.allergen)),
+		})),
+	}
+}
+
+/**
+ * Migration worklist: patients with free-text allergies and no
+ * structured entries yet, each with its parsed suggestions
+ */
+export async function getAllergyMigrationList(
+	input: AllergyMigrationListInput,
+	clinicId: string
+) {
+	const { patients, total } = await allergyQueries.findUnmigratedPatients(
+		clinicId,
+		(input.page - 1) * input.limit,
+		input.limit
+	)
+
+	return {
+		data: patients.map(patient => ({
+			...patient,
+			suggestions: parseAllergyText(patient.allergies),
+		})),
+		page: input.page,
+		total,
+		totalPages: Math.max(1, Math.ceil(total / input.limit)),
+	}
+}
+
+/**
+ * Everything the drug-allergy check needs for one patient. Until the
+ * free text has been structured it is parsed on the fly, and matches
+ * against it warn without blocking.
+ */
+export async function getAllergyCheckContext(patient: {
+	id: string
+	allergies?: string | null
+}) {
+	const structured = await allergyQueries.findByPatient(patient.id)
+
+	const records: AllergyRecord[] =
+		structured.length > 0
+			? structured
+			: parseAllergyText(patient.allergies).map(suggestion => ({
+					allergen: suggestion.allergen,
+					fromFreeText: true,
+					reaction: suggestion.reaction,
+					severity: suggestion.severity,
+					type: suggestion.type,
+					verificationStatus: 'UNCONFIRMED',
+				}))
+
+	// Classes of formulary drugs named as allergens
+	const drugAllergens = records
+		.filter(record => record.type === 'DRUG')
+		.map(record => record.allergen)
+	const allergenClasses = new Map<string, string[]>()
+
+	if (drugAllergens.length > 0) {
+		const drugs = await allergyQueries.findDrugsByNames(drugAllergens)
+		for (const drug of drugs) {
+			const classes = drugClassesOf(drug)
+			for (const name of [drug.name, drug.genericName]) {
+				if (name) allergenClasses.set(normalizeTerm(name), classes)
+			}
+		}
+	}
+
+	return { allergenClasses, records }
+}
+
+// ==================== MUTATION METHODS ====================
+
+export async function createAllergy(
+	input: AllergyCreateInput,
+	clinicId: string,
+	userId: string
+) {
+	// 1. Validate access and patient
+	await validateClinicAccess(clinicId, userId)
+	const patient = await getPatient(input.patientId, clinicId)
+	await assertNotRecorded(patient.id, input.allergen)
+
+	// 2. Create
+	const { patientId, ...data } = input
+	const allergy = await allergyQueries.create(
+		{
+			...data,
+			clinicId,
+			patientId,
+			recordedById: userId,
+		},
+		{
+			action: 'CREATE',
+			clinicId,
+			details: `Recorded ${input.type.toLowerCase()} allergy to ${input.allergen} for ${patient.firstName} ${patient.lastName}`,
+			level: 'INFO',
+			metadata: {
+				patientId,
+				severity: input.severity ?? null,
+				verificationStatus: input.verificationStatus,
+			},
+			model: 'PatientAllergy',
+			userId,
+		}
+	)
+
+	// 3. Cache invalidation
+	cacheHelpers.patient.invalidateAllergies(patientId, clinicId)
+
+	return allergy
+}
+
+export async function updateAllergy(
+	input: AllergyUpdateInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	const existing = await getAllergyById(input.id, clinicId)
+
+	if (
+		input.allergen &&
+		normalizeTerm(input.allergen) !== normalizeTerm(existing.allergen)
+	) {
+		await assertNotRecorded(existing.patientId, input.allergen)
+	}
+
+	const { id, ...data } = input
+	const allergy = await allergyQueries.update(id, data, {
+		action: 'UPDATE',
+		clinicId,
+		details: `Updated allergy to ${input.allergen ?? existing.allergen}`,
+		// Refuting an allergy lifts prescribing blocks - keep it visible
+		level:
+			input.verificationStatus === 'REFUTED' ||
+			input.verificationStatus === 'ENTERED_IN_ERROR'
+				? 'WARNING'
+				: 'INFO',
+		metadata: {
+			changes: Object.keys(data),
+			patientId: existing.patientId,
+			previousStatus: existing.verificationStatus,
+			verificationStatus: input.verificationStatus ?? null,
+		},
+		model: 'PatientAllergy',
+		userId,
+	})
+
+	cacheHelpers.patient.invalidateAllergies(existing.patientId, clinicId)
+
+	return allergy
+}
+
+export async function deleteAllergy(
+	id: string,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	const existing = await getAllergyById(id, clinicId)
+
+	const allergy = await allergyQueries.update(
+		id,
+		{ isDeleted: true },
+		{
+			action: 'DELETE',
+			clinicId,
+			details: `Removed allergy to ${existing.allergen}`,
+			level: 'WARNING',
+			metadata: { patientId: existing.patientId },
+			model: 'PatientAllergy',
+			userId,
+		}
+	)
+
+	cacheHelpers.patient.invalidateAllergies(existing.patientId, clinicId)
+
+	return allergy
+}
+
+/**
+ * Save reviewed suggestions from the free text. Allergens already in
+ * the structured list are skipped rather than duplicated.
+ */
+export async function importAllergies(
+	input: AllergyImportInput,
+	clinicId: string,
+	userId: string
+) {
+	// 1. Validate access and patient
+	await validateClinicAccess(clinicId, userId)
+	const patient = await getPatient(input.patientId, clinicId)
+
+	// 2. Drop duplicates of recorded allergens and within the batch
+	const existing = await allergyQueries.findByPatient(patient.id, true)
+	const seen = new Set(existing.map(a => normalizeTerm(a.allergen)))
+	const rows = input.allergies.filter(allergy => {
+		const key = normalizeTerm(allergy.allergen)
+		if (seen.has(key)) return false
+		seen.add(key)
+		return true
+	})
+
+	// 3. Save
+	const allergies = await allergyQueries.importForPatient(
+		patient,
+		rows.map(row => ({ ...row, recordedById: userId })),
+		input.clearFreeText,
+		{
+			action: 'IMPORT',
+			clinicId,
+			details: `Structured ${rows.length} allergies from free text for ${patient.firstName} ${patient.lastName}`,
+			level: 'INFO',
+			metadata: {
+				allergens: rows.map(row => row.allergen),
+				clearedFreeText: input.clearFreeText,
+				freeText: patient.allergies,
+				skipped: input.allergies.length - rows.length,
+			},
+			model: 'PatientAllergy',
+			userId,
+		}
+	)
+
+	// 4. Cache invalidation
+	cacheHelpers.patient.invalidateAllergies(patient.id, clinicId)
+	if (input.clearFreeText) {
+		cacheHelpers.patient.invalidate(patient.id, clinicId)
+	}
+
+	return { allergies, created: rows.length }
+}
+
+// ==================== HELPER METHODS ====================
+
+async function getPatient(patientId: string, clinicId: string) {
+	const patient = await allergyQueries.findPatient(patientId, clinicId)
+
+	if (!patient) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Patient not found or does not belong to this clinic',
+		})
+	}
+
+	return patient
+}
+
+async function getAllergyById(id: string, clinicId: string) {
+	const allergy = await allergyQueries.findById(id)
+
+	if (!allergy) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Allergy not found',
+		})
+	}
+
+	if (allergy.patient.clinicId !== clinicId) {
+		throw new TRPCError({
+			code: 'FORBIDDEN',
+			message: 'Access denied to this allergy',
+		})
+	}
+
+	return allergy
+}
+
+async function assertNotRecorded(patientId: string, allergen: string) {
+	const existing = await allergyQueries.findByPatient(patientId, true)
+	const key = normalizeTerm(allergen)
+
+	if (existing.some(a => normalizeTerm(a.allergen) === key)) {
+		throw new TRPCError({
+			code: 'CONFLICT',
+			message: `An allergy to ${allergen} is already recorded`,
+		})
+	}
+}
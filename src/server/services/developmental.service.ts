@@ -0,0 +1,336 @@
+/**
+ * 🟡 DEVELOPMENTAL MODULE - SERVICE LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Per-visit milestone checklists from the age-keyed catalog, using
+ *   corrected age for preterm infants
+ * - Domain statuses, referral flags and doctor notifications
+ * - Missed milestones tracked across checks
+ * - NO direct Prisma calls
+ */
+
+import { TRPCError } from '@trpc/server'
+import { differenceInDays } from 'date-fns'
+
+import {
+	DEVELOPMENT_NOTIFICATION_TYPE,
+	type DevelopmentalChecklistInput,
+	type DevelopmentReferralListInput,
+	type RecordDevelopmentalCheckInput,
+} from '@/schemas/developmental.schema'
+import { developmentalQueries } from '@/server/db/queries/developmental.query'
+import { ageConverters } from '@/utils/date/calculate-age'
+import {
+	assessDevelopment,
+	checklistAgeMonths,
+	DEVELOPMENT_DOMAIN_LABELS,
+	missedMilestones,
+} from '@/utils/development'
+import { getGrowthAge } from '@/utils/who-standards'
+
+import { validateClinicAccess } from '../utils'
+
+type DevelopmentPatient = NonNullable<
+	Awaited<ReturnType<typeof developmentalQueries.findPatient>>
+>
+
+// ==================== QUERY METHODS ====================
+
+/**
+ * Checklist for the patient's current well-child age: that age's
+ * milestones plus earlier ones still outstanding
+ */
+export async function getDevelopmentalChecklist(
+	input: DevelopmentalChecklistInput,
+	clinicId: string
+) {
+	const patient = await getPatient(input.patientId, clinicId)
+	const age = getDevelopmentAge(patient, input.date ?? new Date())
+
+	if (age.checklistAge === null) {
+		return { ...age, milestones: [] }
+	}
+
+	const [catalog, history] = await Promise.all([
+		developmentalQueries.findMilestonesUpTo(age.checklistAge),
+		getAnswerHistory(patient.id),
+	])
+
+	const milestones = catalog
+		.filter(
+			milestone =>
+				milestone.ageMonths === age.checklistAge ||
+				history.latest.get(milestone.id) === false
+		)
+		.map(milestone => ({
+			...milestone,
+			outstanding: milestone.ageMonths < (age.checklistAge as number),
+			previouslyAchieved: history.everAchieved.has(milestone.id),
+		}))
+
+	return { ...age, milestones }
+}
+
+/**
+ * Checks newest first, with the milestones still not achieved
+ */
+export async function getDevelopmentHistory(
+	patientId: string,
+	clinicId: string
+) {
+	await getPatient(patientId, clinicId)
+
+	const [checks, items] = await Promise.all([
+		developmentalQueries.findChecksByPatient(patientId),
+		developmentalQueries.findCheckItemsByPatient(patientId),
+	])
+
+	const missed = missedMilestones(
+		items.map(item => ({
+			achieved: item.achieved,
+			checkDate: item.check.checkDate,
+			milestoneId: item.milestoneId,
+		}))
+	)
+	const definitions = new Map(
+		(
+			await developmentalQueries.findMilestonesByIds(
+				missed.map(item => item.milestoneId)
+			)
+		).map(milestone => [milestone.id, milestone])
+	)
+
+	return {
+		checks,
+		missedMilestones: missed.flatMap(item => {
+			const milestone = definitions.get(item.milestoneId)
+			return milestone ? [{ ...item, milestone }] : []
+		}),
+	}
+}
+
+/**
+ * Clinic worklist of checks flagged for developmental referral
+ */
+export async function getDevelopmentReferrals(
+	input: DevelopmentReferralListInput,
+	clinicId: string
+) {
+	const [checks, total] = await developmentalQueries.findFlaggedChecksByClinic(
+		clinicId,
+		(input.page - 1) * input.limit,
+		input.limit
+	)
+
+	return {
+		data: checks,
+		page: input.page,
+		total,
+		totalPages: Math.ceil(total / input.limit),
+	}
+}
+
+// ==================== MUTATION METHODS ====================
+
+/**
+ * Save a completed checklist. Domain statuses are derived from the
+ * answers unless the clinician sets them; any DELAYED or CONCERNING
+ * domain flags the check for referral and notifies the patient's doctor.
+ */
+export async function recordDevelopmentalCheck(
+	input: RecordDevelopmentalCheckInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+
+	// 1. Validate patient, visit and age
+	const patient = await getPatient(input.patientId, clinicId)
+
+	if (input.appointmentId) {
+		const appointment = await developmentalQueries.findAppointment(
+			input.appointmentId
+		)
+		if (
+			!appointment ||
+			appointment.clinicId !== clinicId ||
+			appointment.patientId !== patient.id
+		) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: 'Appointment does not belong to this patient',
+			})
+		}
+	}
+
+	const age = getDevelopmentAge(patient, input.checkDate)
+	const checklistAge = age.checklistAge
+	if (checklistAge === null) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Developmental checklists start at the 2-month visit',
+		})
+	}
+
+	// 2. Validate milestones
+	const milestones = new Map(
+		(
+			await developmentalQueries.findMilestonesByIds(
+				input.items.map(item => item.milestoneId)
+			)
+		).map(milestone => [milestone.id, milestone])
+	)
+
+	for (const item of input.items) {
+		const milestone = milestones.get(item.milestoneId)
+		if (!milestone) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: `Unknown milestone ${item.milestoneId}`,
+			})
+		}
+		if (milestone.ageMonths > checklistAge) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: `Milestone ${milestone.code} is not due until ${milestone.ageMonths} months`,
+			})
+		}
+	}
+
+	// 3. Assess against earlier answers
+	const history = await getAnswerHistory(patient.id)
+	const observations = input.items.map(item => {
+		const milestone = milestones.get(item.milestoneId) as NonNullable<
+			ReturnType<typeof milestones.get>
+		>
+		return {
+			achieved: item.achieved,
+			ageMonths: milestone.ageMonths,
+			description: milestone.description,
+			domain: milestone.domain,
+			milestoneId: milestone.id,
+			previouslyAchieved: history.everAchieved.has(milestone.id),
+		}
+	})
+	const assessment = assessDevelopment(
+		observations,
+		checklistAge,
+		input.statuses
+	)
+
+	const met = observations.filter(o => o.achieved)
+	const pending = observations.filter(o => !o.achieved)
+	const name = `${patient.firstName} ${patient.lastName}`
+	const flaggedLabels = assessment.referralDomains
+		.map(domain => DEVELOPMENT_DOMAIN_LABELS[domain])
+		.join(', ')
+
+	// 4. Save
+	const check = await developmentalQueries.createCheck(
+		{
+			ageMonths: Math.floor(age.ageMonths),
+			appointmentId: input.appointmentId,
+			checkDate: input.checkDate,
+			clinicId,
+			cognitiveSkills: assessment.statuses.COGNITIVE,
+			concerns: input.concerns,
+			languageSkills: assessment.statuses.LANGUAGE,
+			milestonesMet: met.map(o => o.description).join('; ') || null,
+			milestonesPending: pending.map(o => o.description).join('; ') || null,
+			motorSkills: assessment.statuses.MOTOR,
+			patientId: patient.id,
+			performedById: userId,
+			recommendations: input.recommendations,
+			referralFlagged: assessment.referralFlagged,
+			socialSkills: assessment.statuses.SOCIAL,
+		},
+		input.items,
+		met
+			.filter(o => !o.previouslyAchieved)
+			.map(o => ({
+				ageAchieved: `${Math.floor(age.ageMonths)} months`,
+				createdBy: userId,
+				dateRecorded: input.checkDate,
+				milestone: o.description,
+				patientId: patient.id,
+			})),
+		assessment.referralFlagged && patient.doctorId
+			? [
+					{
+						message: `${name}: ${flaggedLabels} development flagged at the ${checklistAge}-month check`,
+						title: 'Developmental referral',
+						type: DEVELOPMENT_NOTIFICATION_TYPE,
+						userId: patient.doctorId,
+					},
+				]
+			: [],
+		{
+			action: 'CREATE',
+			clinicId,
+			details: `Recorded ${checklistAge}-month developmental check for ${name}${assessment.referralFlagged ? ` (referral: ${flaggedLabels})` : ''}`,
+			level: assessment.referralFlagged ? 'WARNING' : 'INFO',
+			metadata: {
+				achieved: met.length,
+				checklistAge,
+				missed: pending.length,
+				referralDomains: assessment.referralDomains,
+			},
+			model: 'DevelopmentalCheck',
+			userId,
+		}
+	)
+
+	return {
+		...check,
+		checklistAge,
+		referralDomains: assessment.referralDomains,
+	}
+}
+
+// ==================== HELPER METHODS ====================
+
+async function getPatient(patientId: string, clinicId: string) {
+	const patient = await developmentalQueries.findPatient(patientId, clinicId)
+
+	if (!patient) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Patient not found or does not belong to this clinic',
+		})
+	}
+
+	return patient
+}
+
+/**
+ * Age used for the checklist - corrected for preterm infants
+ */
+function getDevelopmentAge(patient: DevelopmentPatient, date: Date) {
+	const growthAge = getGrowthAge(
+		differenceInDays(date, patient.dateOfBirth),
+		patient.gestationalAgeWeeks
+	)
+	const ageMonths = ageConverters.daysToMonths(growthAge.ageDays)
+
+	return {
+		ageMonths,
+		checklistAge: checklistAgeMonths(ageMonths),
+		corrected: growthAge.correctedAgeDays !== null,
+	}
+}
+
+/**
+ * Latest answer per milestone and the milestones ever achieved
+ */
+async function getAnswerHistory(patientId: string) {
+	const items = await developmentalQueries.findCheckItemsByPatient(patientId)
+	const latest = new Map<string, boolean>()
+	const everAchieved = new Set<string>()
+
+	for (const item of items) {
+		latest.set(item.milestoneId, item.achieved)
+		if (item.achieved) everAchieved.add(item.milestoneId)
+	}
+
+	return { everAchieved, latest }
+}
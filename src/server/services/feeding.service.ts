@@ -0,0 +1,443 @@
+/**
+ * 🟡 FEEDING MODULE - SERVICE LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Infant feeding log CRUD, also opened from FEEDING_SESSION appointments
+ * - Daily intake summaries: feeds, mL, mL/kg/day from the latest growth
+ *   record weight, breastfeeding minutes by side
+ * - Sustained low intake alerts with doctor notifications
+ * - NO direct Prisma calls
+ */
+
+import { TRPCError } from '@trpc/server'
+import {
+	differenceInDays,
+	endOfDay,
+	format,
+	startOfDay,
+	subDays,
+} from 'date-fns'
+
+import {
+	FEEDING_NOTIFICATION_TYPE,
+	type FeedingLogCreateInput,
+	type FeedingLogListInput,
+	type FeedingLogUpdateInput,
+	type FeedingSummaryInput,
+	type ReviewFeedingAlertInput,
+} from '@/schemas/feeding.schema'
+import { feedingQueries } from '@/server/db/queries/feeding.query'
+import {
+	FEEDING_ALERT_THRESHOLDS,
+	type FeedingLogEntry,
+	findLowIntakeRun,
+	minimumIntake,
+	summarizeFeedingDays,
+} from '@/utils/feeding'
+
+import { validateClinicAccess } from '../utils'
+
+type FeedingPatient = NonNullable<
+	Awaited<ReturnType<typeof feedingQueries.findPatient>>
+>
+
+// ==================== QUERY METHODS ====================
+
+export async function getFeedingLogs(
+	input: FeedingLogListInput,
+	clinicId: string
+) {
+	await getPatient(input.patientId, clinicId)
+
+	return feedingQueries.findLogs(input.patientId, {
+		from: input.from,
+		take: input.limit,
+		to: input.to,
+	})
+}
+
+/**
+ * Intake per day over the last `days` days, with the weight each day's
+ * mL/kg/day was worked out from and any open low intake alerts
+ */
+export async function getFeedingSummary(
+	input: FeedingSummaryInput,
+	clinicId: string
+) {
+	const patient = await getPatient(input.patientId, clinicId)
+	const to = endOfDay(input.date ?? new Date())
+	const from = startOfDay(subDays(to, input.days - 1))
+
+	const [logs, weights, alerts] = await Promise.all([
+		feedingQueries.findLogs(patient.id, { from, to }),
+		feedingQueries.findWeights(patient.id, from, to),
+		feedingQueries.findAlertsByPatient(patient.id, ['OPEN', 'ACKNOWLEDGED']),
+	])
+
+	const days = summarizeFeedingDays(
+		logs.map(toLogEntry),
+		weights.map(w => ({ date: w.date, weight: w.weight as number }))
+	).reverse()
+
+	return {
+		alerts,
+		days,
+		latestWeight: weights.at(-1) ?? null,
+		minimum: minimumIntake(differenceInDays(to, patient.dateOfBirth)),
+	}
+}
+
+/**
+ * Open the log from a FEEDING_SESSION appointment: the session's entries
+ * and the summary for its day
+ */
+export async function getFeedingSession(
+	appointmentId: string,
+	clinicId: string
+) {
+	const appointment = await getSessionAppointment(appointmentId, clinicId)
+	const patient = await getPatient(appointment.patientId, clinicId)
+
+	const [logs, summary] = await Promise.all([
+		feedingQueries.findLogs(patient.id, { appointmentId: appointment.id }),
+		getFeedingSummary(
+			{ date: appointment.appointmentDate, days: 1, patientId: patient.id },
+			clinicId
+		),
+	])
+
+	return { appointment, logs, patient, summary }
+}
+
+// ==================== MUTATION METHODS ====================
+
+export async function createFeedingLog(
+	input: FeedingLogCreateInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+
+	// 1. Validate patient, session and entry
+	const patient = await getPatient(input.patientId, clinicId)
+
+	if (input.appointmentId) {
+		const appointment = await getSessionAppointment(
+			input.appointmentId,
+			clinicId
+		)
+		if (appointment.patientId !== patient.id) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: 'Appointment does not belong to this patient',
+			})
+		}
+	}
+
+	validateEntry(input)
+
+	// 2. Save
+	const log = await feedingQueries.createLog(
+		{
+			amount: input.amount,
+			appointmentId: input.appointmentId,
+			breast: input.breast,
+			clinicId,
+			date: input.date,
+			duration: input.duration,
+			notes: input.notes,
+			patientId: patient.id,
+			recordedById: userId,
+			type: input.type,
+		},
+		{
+			action: 'CREATE',
+			clinicId,
+			details: `Logged ${input.type.toLowerCase()} feed for ${patient.firstName} ${patient.lastName}`,
+			level: 'INFO',
+			metadata: { appointmentId: input.appointmentId ?? null },
+			model: 'FeedingLog',
+			userId,
+		}
+	)
+
+	// 3. Intake rule
+	const lowIntake = await checkLowIntake(patient, clinicId)
+
+	return { ...log, lowIntake }
+}
+
+export async function updateFeedingLog(
+	input: FeedingLogUpdateInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+
+	const existing = await getLogById(input.id, clinicId)
+	const patient = await getPatient(existing.patientId, clinicId)
+	const { id, ...data } = input
+
+	validateEntry({ ...existing, ...data })
+
+	const log = await feedingQueries.updateLog(id, data, {
+		action: 'UPDATE',
+		clinicId,
+		details: `Updated feed logged for ${patient.firstName} ${patient.lastName}`,
+		level: 'INFO',
+		metadata: { fields: Object.keys(data) },
+		model: 'FeedingLog',
+		userId,
+	})
+
+	const lowIntake = await checkLowIntake(patient, clinicId)
+
+	return { ...log, lowIntake }
+}
+
+export async function deleteFeedingLog(
+	id: string,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+
+	const existing = await getLogById(id, clinicId)
+
+	return feedingQueries.updateLog(
+		id,
+		{ deletedAt: new Date() },
+		{
+			action: 'DELETE',
+			clinicId,
+			details: `Deleted feed logged on ${format(existing.date, 'PPp')}`,
+			level: 'INFO',
+			metadata: { patientId: existing.patientId },
+			model: 'FeedingLog',
+			userId,
+		}
+	)
+}
+
+export async function reviewFeedingAlert(
+	input: ReviewFeedingAlertInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+
+	const existing = await feedingQueries.findAlertById(input.id)
+	if (!existing || existing.clinicId !== clinicId) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Feeding alert not found',
+		})
+	}
+	if (existing.status === 'RESOLVED') {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Feeding alert is already resolved',
+		})
+	}
+
+	return feedingQueries.updateAlertStatus(
+		input.id,
+		{
+			reviewedById: userId,
+			reviewNotes: input.reviewNotes,
+			status: input.status,
+		},
+		{
+			action: 'UPDATE',
+			clinicId,
+			details: `Low intake alert marked ${input.status.toLowerCase()}`,
+			level: 'INFO',
+			metadata: { patientId: existing.patientId },
+			model: 'FeedingAlert',
+			userId,
+		}
+	)
+}
+
+// ==================== HELPER METHODS ====================
+
+async function getPatient(patientId: string, clinicId: string) {
+	const patient = await feedingQueries.findPatient(patientId, clinicId)
+
+	if (!patient) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Patient not found or does not belong to this clinic',
+		})
+	}
+
+	return patient
+}
+
+async function getLogById(id: string, clinicId: string) {
+	const log = await feedingQueries.findLogById(id)
+
+	if (!log) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Feeding log entry not found',
+		})
+	}
+
+	if (log.clinicId !== clinicId) {
+		throw new TRPCError({
+			code: 'FORBIDDEN',
+			message: 'Access denied to this feeding log entry',
+		})
+	}
+
+	return log
+}
+
+async function getSessionAppointment(appointmentId: string, clinicId: string) {
+	const appointment = await feedingQueries.findAppointment(appointmentId)
+
+	if (!appointment || appointment.isDeleted) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Appointment not found',
+		})
+	}
+
+	if (appointment.clinicId !== clinicId) {
+		throw new TRPCError({
+			code: 'FORBIDDEN',
+			message: 'Access denied to this appointment',
+		})
+	}
+
+	if (appointment.type !== 'FEEDING_SESSION') {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Only feeding session appointments open the feeding log',
+		})
+	}
+
+	return appointment
+}
+
+/**
+ * Formula feeds need a volume; breastfeeds a duration or (expressed) volume
+ */
+function validateEntry(entry: {
+	type: FeedingLogEntry['type']
+	amount?: number | null
+	duration?: number | null
+	breast?: string | null
+}) {
+	if (entry.type === 'FORMULA') {
+		if (!entry.amount) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: 'Formula feeds need the amount taken',
+			})
+		}
+		if (entry.breast) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: 'Breast side only applies to breast or mixed feeds',
+			})
+		}
+		return
+	}
+
+	if (!(entry.amount || entry.duration)) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Record the duration at the breast or the amount taken',
+		})
+	}
+}
+
+/**
+ * Raise, or extend, a low intake alert when intake has been below the age
+ * minimum on consecutive complete days
+ */
+async function checkLowIntake(patient: FeedingPatient, clinicId: string) {
+	const today = new Date()
+	const from = startOfDay(subDays(today, FEEDING_ALERT_THRESHOLDS.lookbackDays))
+	const to = endOfDay(subDays(today, 1))
+
+	const [logs, weights] = await Promise.all([
+		feedingQueries.findLogs(patient.id, { from, to }),
+		feedingQueries.findWeights(patient.id, from, to),
+	])
+	const run = findLowIntakeRun(
+		summarizeFeedingDays(
+			logs.map(toLogEntry),
+			weights.map(w => ({ date: w.date, weight: w.weight as number }))
+		),
+		patient.dateOfBirth,
+		today
+	)
+	if (!run) return null
+
+	const startDate = new Date(`${run.startDay}T00:00:00`)
+	const endDate = new Date(`${run.endDay}T00:00:00`)
+	const details = {
+		averageFeedsPerDay: run.averageFeedsPerDay,
+		averageMlPerKgDay: run.averageMlPerKgDay,
+		endDate,
+		lowDays: run.days,
+	}
+
+	// Same run as an alert still under review
+	const open = await feedingQueries.findAlertsByPatient(patient.id, [
+		'OPEN',
+		'ACKNOWLEDGED',
+	])
+	const continuing = open.find(alert => alert.endDate >= subDays(startDate, 1))
+	if (continuing) {
+		return continuing.endDate < endDate
+			? feedingQueries.extendAlert(continuing.id, details)
+			: continuing
+	}
+
+	const message =
+		run.averageMlPerKgDay !== null
+			? `Intake averaged ${run.averageMlPerKgDay} mL/kg/day over ${run.days} days`
+			: `Averaged ${run.averageFeedsPerDay} feeds a day over ${run.days} days`
+	const doctorId = patient.doctorId
+
+	return feedingQueries.createAlert(
+		{
+			...details,
+			clinicId,
+			message,
+			notifiedUserId: doctorId,
+			patientId: patient.id,
+			startDate,
+		},
+		doctorId
+			? [
+					{
+						message: `${patient.firstName} ${patient.lastName}: ${message}`,
+						title: 'Low feeding intake',
+						type: FEEDING_NOTIFICATION_TYPE,
+						userId: doctorId,
+					},
+				]
+			: []
+	)
+}
+
+function toLogEntry(log: {
+	date: Date
+	type: FeedingLogEntry['type']
+	duration: number | null
+	amount: number | null
+	breast: string | null
+}): FeedingLogEntry {
+	return {
+		amount: log.amount,
+		breast: log.breast,
+		date: log.date,
+		duration: log.duration,
+		type: log.type,
+	}
+}
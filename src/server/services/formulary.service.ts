@@ -0,0 +1,598 @@
+/**
+ * 🟡 FORMULARY MODULE - SERVICE LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Drug and dose guideline management (create, edit, retire)
+ * - nicu_data.json import with a dry-run diff, and export
+ * - Drug-drug interaction table import (drug_interactions.json)
+ * - Every formulary change is audited
+ * - Changes are limited to system admins: every clinic shares the formulary
+ * - NO direct Prisma calls
+ * - Uses cache helpers for invalidation
+ */
+
+import { TRPCError } from '@trpc/server'
+
+import type {
+	DoseGuidelineCreateInput,
+	DoseGuidelineUpdateInput,
+	DrugCreateInput,
+	DrugFilterInput,
+	DrugUpdateInput,
+	FormularyExportInput,
+	FormularyImportInput,
+	FormularyStatusInput,
+	InteractionFilterInput,
+	InteractionImportInput,
+} from '@/schemas/prescription.schema'
+import { formularyQueries } from '@/server/db/queries/formulary.query'
+import { normalizeTerm } from '@/utils/allergy'
+import {
+	diffGuidelineFields,
+	type GuidelineFields,
+	guidelineRangeErrors,
+	type NicuDrugDatabase,
+	nicuGuidelineKey,
+	parseNicuGuideline,
+	toNicuGuideline,
+} from '@/utils/formulary'
+import { interactionPairKey } from '@/utils/interaction'
+
+import { cacheHelpers } from '../../lib/cache/helpers'
+import { validateClinicAccess, validateSystemAdmin } from '../utils'
+
+type ImportGuidelineAction =
+	| 'CREATE'
+	| 'UPDATE'
+	| 'RETIRE'
+	| 'KEEP'
+	| 'UNCHANGED'
+
+interface ImportGuidelineDiff {
+	action: ImportGuidelineAction
+	clinicalIndication: string
+	route: string
+	guidelineId?: string
+	changes?: ReturnType<typeof diffGuidelineFields>
+}
+
+// ==================== QUERY METHODS ====================
+
+export async function getDrugs(filter: DrugFilterInput) {
+	const { limit, page, ...options } = filter
+	const { drugs, total } = await formularyQueries.findDrugs({
+		...options,
+		skip: (page - 1) * limit,
+		take: limit,
+	})
+
+	return {
+		data: drugs,
+		page,
+		total,
+		totalPages: Math.max(1, Math.ceil(total / limit)),
+	}
+}
+
+export async function getDrugById(id: string) {
+	const drug = await formularyQueries.findDrugById(id)
+
+	if (!drug) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Drug not found',
+		})
+	}
+
+	return drug
+}
+
+/**
+ * Formulary in the nicu_data.json layout, ready to download
+ */
+export async function exportNicuData(input: FormularyExportInput) {
+	const drugs = await formularyQueries.findAllForExport(input.includeRetired)
+
+	const data: NicuDrugDatabase = Object.fromEntries(
+		drugs.map(drug => [drug.name, drug.guidelines.map(toNicuGuideline)])
+	)
+
+	return {
+		data: JSON.stringify(data, null, '\t'),
+		drugCount: drugs.length,
+		fileName: 'nicu_data.json',
+		guidelineCount: drugs.reduce((sum, d) => sum + d.guidelines.length, 0),
+		mimeType: 'application/json',
+	}
+}
+
+export async function getInteractions(filter: InteractionFilterInput) {
+	const { limit, page, ...options } = filter
+	const { interactions, total } = await formularyQueries.findInteractions({
+		...options,
+		skip: (page - 1) * limit,
+		take: limit,
+	})
+
+	return {
+		data: interactions,
+		page,
+		total,
+		totalPages: Math.max(1, Math.ceil(total / limit)),
+	}
+}
+
+// ==================== DRUG MUTATIONS ====================
+
+export async function createDrug(
+	input: DrugCreateInput,
+	clinicId: string,
+	userId: string
+) {
+	// 1. Access check
+	await validateClinicAccess(clinicId, userId)
+	await validateSystemAdmin(userId)
+
+	// 2. Names are unique across the formulary
+	await assertDrugNameFree(input.name)
+
+	// 3. Create + audit
+	const drug = await formularyQueries.createDrug(input, {
+		action: 'CREATE',
+		clinicId,
+		details: `Added ${input.name} to the formulary`,
+		level: 'INFO',
+		model: 'Drug',
+		userId,
+	})
+
+	cacheHelpers.system.invalidateDrugs()
+
+	return drug
+}
+
+export async function updateDrug(
+	input: DrugUpdateInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	await validateSystemAdmin(userId)
+	const existing = await getDrugById(input.id)
+
+	const { id, ...data } = input
+	if (data.name && data.name.toLowerCase() !== existing.name.toLowerCase()) {
+		await assertDrugNameFree(data.name)
+	}
+
+	const drug = await formularyQueries.updateDrug(
+		id,
+		{
+			...data,
+			...statusChange(existing.isActive, data.isActive),
+		},
+		{
+			action: 'UPDATE',
+			clinicId,
+			details: `Updated formulary drug ${existing.name}`,
+			level: 'INFO',
+			metadata: { fields: Object.keys(data) },
+			model: 'Drug',
+			userId,
+		}
+	)
+
+	cacheHelpers.system.invalidateDrugs()
+
+	return drug
+}
+
+/**
+ * Retire a drug (no new prescriptions) or bring it back
+ */
+export async function setDrugStatus(
+	input: FormularyStatusInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	await validateSystemAdmin(userId)
+	const existing = await getDrugById(input.id)
+
+	const drug = await formularyQueries.updateDrug(
+		input.id,
+		statusChange(existing.isActive, input.isActive),
+		{
+			action: 'UPDATE',
+			clinicId,
+			details: `${input.isActive ? 'Reinstated' : 'Retired'} formulary drug ${existing.name}`,
+			level: input.isActive ? 'INFO' : 'WARNING',
+			model: 'Drug',
+			userId,
+		}
+	)
+
+	cacheHelpers.system.invalidateDrugs()
+
+	return drug
+}
+
+// ==================== GUIDELINE MUTATIONS ====================
+
+export async function createGuideline(
+	input: DoseGuidelineCreateInput,
+	clinicId: string,
+	userId: string
+) {
+	// 1. Access check + drug
+	await validateClinicAccess(clinicId, userId)
+	await validateSystemAdmin(userId)
+	const drug = await getDrugById(input.drugId)
+
+	if (!drug.isActive) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `${drug.name} is retired - reinstate it before adding guidelines`,
+		})
+	}
+
+	// 2. Business rules
+	assertGuidelineConsistent(input)
+
+	// 3. Create + audit
+	const guideline = await formularyQueries.createGuideline(input, {
+		action: 'CREATE',
+		clinicId,
+		details: `Added ${input.route} guideline for ${drug.name}: ${input.clinicalIndication}`,
+		level: 'INFO',
+		model: 'DoseGuideline',
+		userId,
+	})
+
+	cacheHelpers.system.invalidateDrugs()
+
+	return guideline
+}
+
+export async function updateGuideline(
+	input: DoseGuidelineUpdateInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	await validateSystemAdmin(userId)
+	const existing = await getGuidelineById(input.id)
+
+	const { id, ...data } = input
+	// Validate the guideline as it will be stored, not just the patch
+	assertGuidelineConsistent({ ...existing, ...data })
+
+	const guideline = await formularyQueries.updateGuideline(id, data, {
+		action: 'UPDATE',
+		clinicId,
+		details: `Updated ${existing.route} guideline for ${existing.drug.name}: ${existing.clinicalIndication}`,
+		level: 'INFO',
+		metadata: {
+			changes: diffGuidelineFields(existing, {
+				...existing,
+				...data,
+			} as GuidelineFields),
+		},
+		model: 'DoseGuideline',
+		userId,
+	})
+
+	cacheHelpers.system.invalidateDrugs()
+
+	return guideline
+}
+
+export async function setGuidelineStatus(
+	input: FormularyStatusInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	await validateSystemAdmin(userId)
+	const existing = await getGuidelineById(input.id)
+
+	if (input.isActive && !existing.drug.isActive) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `${existing.drug.name} is retired - reinstate the drug first`,
+		})
+	}
+
+	const guideline = await formularyQueries.updateGuideline(
+		input.id,
+		statusChange(existing.isActive, input.isActive),
+		{
+			action: 'UPDATE',
+			clinicId,
+			details: `${input.isActive ? 'Reinstated' : 'Retired'} ${existing.route} guideline for ${existing.drug.name}: ${existing.clinicalIndication}`,
+			level: input.isActive ? 'INFO' : 'WARNING',
+			model: 'DoseGuideline',
+			userId,
+		}
+	)
+
+	cacheHelpers.system.invalidateDrugs()
+
+	return guideline
+}
+
+// ==================== IMPORT METHODS ====================
+
+/**
+ * Compare a nicu_data.json payload against the formulary
+ * - Guidelines are matched by route, indication and age bands
+ * - Matched rows with different values are updates, unmatched rows creates
+ * - Stored guidelines missing from the file are kept, or retired when asked
+ * - A dry run only returns the diff; applying refuses files with errors
+ */
+export async function importNicuData(
+	input: FormularyImportInput,
+	clinicId: string,
+	userId: string
+) {
+	// 1. Access check + current state
+	await validateClinicAccess(clinicId, userId)
+	await validateSystemAdmin(userId)
+	const names = Object.keys(input.data)
+	const existing = await formularyQueries.findDrugsByNames(names)
+	const byName = new Map(existing.map(drug => [drug.name, drug]))
+
+	// 2. Build the diff
+	const errors: { drugName: string; row: number; messages: string[] }[] = []
+	const changes = {
+		create: [] as { drugName: string; data: GuidelineFields }[],
+		newDrugs: [] as string[],
+		retire: [] as string[],
+		update: [] as { id: string; data: GuidelineFields }[],
+	}
+
+	const drugs = names.map(drugName => {
+		const drug = byName.get(drugName)
+		if (!drug) changes.newDrugs.push(drugName)
+
+		// Stored guidelines queued per key so duplicate keys pair up in order
+		const stored = new Map<string, NonNullable<typeof drug>['guidelines']>()
+		for (const guideline of drug?.guidelines ?? []) {
+			const key = nicuGuidelineKey(guideline as GuidelineFields)
+			stored.set(key, [...(stored.get(key) ?? []), guideline])
+		}
+
+		const guidelines = input.data[drugName].flatMap(
+			(row, index): ImportGuidelineDiff[] => {
+				const parsed = parseNicuGuideline(row)
+				const messages = [
+					...parsed.errors,
+					...guidelineRangeErrors(parsed.data),
+				]
+				if (messages.length > 0) {
+					errors.push({ drugName, messages, row: index + 1 })
+					return []
+				}
+
+				const key = nicuGuidelineKey(parsed.data)
+				const match = stored.get(key)?.shift()
+				const summary = {
+					clinicalIndication: parsed.data.clinicalIndication,
+					route: parsed.data.route,
+				}
+
+				if (!match) {
+					changes.create.push({ data: parsed.data, drugName })
+					return [{ ...summary, action: 'CREATE' }]
+				}
+
+				const diff = diffGuidelineFields(match, parsed.data)
+				if (diff.length === 0) {
+					return [{ ...summary, action: 'UNCHANGED', guidelineId: match.id }]
+				}
+
+				changes.update.push({ data: parsed.data, id: match.id })
+				return [
+					{
+						...summary,
+						action: 'UPDATE',
+						changes: diff,
+						guidelineId: match.id,
+					},
+				]
+			}
+		)
+
+		// Left over: stored guidelines the file no longer contains
+		for (const leftover of [...stored.values()].flat()) {
+			if (input.retireMissing) changes.retire.push(leftover.id)
+			guidelines.push({
+				action: input.retireMissing ? 'RETIRE' : 'KEEP',
+				clinicalIndication: leftover.clinicalIndication,
+				guidelineId: leftover.id,
+				route: leftover.route,
+			})
+		}
+
+		return {
+			guidelines,
+			name: drugName,
+			status: !drug
+				? ('NEW' as const)
+				: guidelines.some(g => g.action !== 'UNCHANGED' && g.action !== 'KEEP')
+					? ('CHANGED' as const)
+					: ('UNCHANGED' as const),
+		}
+	})
+
+	const summary = {
+		drugsCreated: changes.newDrugs.length,
+		errors: errors.length,
+		guidelinesCreated: changes.create.length,
+		guidelinesRetired: changes.retire.length,
+		guidelinesUnchanged: drugs
+			.flatMap(d => d.guidelines)
+			.filter(g => g.action === 'UNCHANGED').length,
+		guidelinesUpdated: changes.update.length,
+	}
+
+	if (input.dryRun) {
+		return { applied: false, drugs, errors, summary }
+	}
+
+	// 3. Apply
+	if (errors.length > 0) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `Import has ${errors.length} invalid row(s) - fix them and run the dry run again`,
+		})
+	}
+
+	await formularyQueries.applyImport(changes, {
+		action: 'IMPORT',
+		clinicId,
+		details: `Imported nicu_data.json: ${summary.drugsCreated} new drugs, ${summary.guidelinesCreated} new, ${summary.guidelinesUpdated} updated, ${summary.guidelinesRetired} retired guidelines`,
+		level: 'INFO',
+		metadata: summary,
+		model: 'DoseGuideline',
+		userId,
+	})
+
+	cacheHelpers.system.invalidateDrugs()
+
+	return { applied: true, drugs, errors, summary }
+}
+
+/**
+ * Load the interaction table from a drug_interactions.json payload.
+ * Pairs are keyed regardless of order; a later row for the same pair wins.
+ */
+export async function importInteractions(
+	input: InteractionImportInput,
+	clinicId: string,
+	userId: string
+) {
+	// 1. Access check
+	await validateClinicAccess(clinicId, userId)
+	await validateSystemAdmin(userId)
+
+	// 2. Key and de-duplicate the rows
+	const rows = new Map<string, (typeof input.entries)[number]>()
+	for (const entry of input.entries) {
+		if (normalizeTerm(entry.drugA) === normalizeTerm(entry.drugB)) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: `An interaction needs two different drugs (${entry.drugA})`,
+			})
+		}
+		rows.set(interactionPairKey(entry.drugA, entry.drugB), entry)
+	}
+
+	// 3. Compare with the stored table for the summary
+	const pairKeys = [...rows.keys()]
+	const [existing, deactivated] = await Promise.all([
+		formularyQueries.findInteractionsByKeys(pairKeys),
+		input.replace
+			? formularyQueries.countActiveInteractionsExcept(pairKeys)
+			: 0,
+	])
+	const stored = new Map(existing.map(row => [row.pairKey, row]))
+	let created = 0
+	let updated = 0
+	let unchanged = 0
+
+	for (const [pairKey, entry] of rows) {
+		const current = stored.get(pairKey)
+		if (!current) {
+			created++
+		} else if (
+			current.isActive &&
+			current.severity === entry.severity &&
+			current.mechanism === entry.mechanism &&
+			current.management === entry.management &&
+			(current.source ?? undefined) === entry.source
+		) {
+			unchanged++
+		} else {
+			updated++
+		}
+	}
+
+	// 4. Apply
+	await formularyQueries.applyInteractionImport(
+		[...rows].map(([pairKey, entry]) => ({ ...entry, pairKey })),
+		input.replace,
+		{
+			action: 'IMPORT',
+			clinicId,
+			details: `Imported drug interactions: ${created} new, ${updated} updated, ${deactivated} deactivated`,
+			level: 'INFO',
+			metadata: {
+				created,
+				deactivated,
+				duplicates: input.entries.length - rows.size,
+				unchanged,
+				updated,
+			},
+			model: 'DrugInteraction',
+			userId,
+		}
+	)
+
+	cacheHelpers.system.invalidateDrugs()
+
+	return {
+		created,
+		deactivated,
+		duplicates: input.entries.length - rows.size,
+		unchanged,
+		updated,
+	}
+}
+
+// ==================== HELPER METHODS ====================
+
+async function getGuidelineById(id: string) {
+	const guideline = await formularyQueries.findGuidelineById(id)
+
+	if (!guideline) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Dose guideline not found',
+		})
+	}
+
+	return guideline
+}
+
+async function assertDrugNameFree(name: string) {
+	const clash = await formularyQueries.findDrugByName(name)
+
+	if (clash) {
+		throw new TRPCError({
+			code: 'CONFLICT',
+			message: `${clash.name} is already in the formulary`,
+		})
+	}
+}
+
+function assertGuidelineConsistent(
+	guideline: Partial<Record<keyof GuidelineFields, unknown>>
+) {
+	const [problem] = guidelineRangeErrors(guideline)
+
+	if (problem) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: problem,
+		})
+	}
+}
+
+/**
+ * isActive/retiredAt pair for a status change; no-op when unchanged
+ */
+function statusChange(current: boolean, next: boolean | undefined) {
+	if (next === undefined || next === current) return {}
+	return { isActive: next, retiredAt: next ? null : new Date() }
+}
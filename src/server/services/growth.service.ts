@@ -1,24 +1,63 @@
 // modules/growth/growth.service.ts
 
 import { TRPCError } from '@trpc/server'
-import { differenceInMonths } from 'date-fns'
+import { differenceInMonths, subDays } from 'date-fns'
 import { cacheLife, cacheTag, revalidateTag } from 'next/cache'
 
-import type {
-	GrowthComparisonInput,
-	GrowthPercentileInput,
-	GrowthStandardsInput,
-	GrowthTrendsInput,
-	UpdateGrowthRecordInput,
-	VelocityCalculationInput,
+import {
+	type GrowthChartDocumentData,
+	renderGrowthChartPdf,
+	renderGrowthChartSvg,
+} from '@/lib/pdf/growth-chart'
+import { loadImageBytes } from '@/lib/pdf/helpers'
+import {
+	GROWTH_NOTIFICATION_TYPE,
+	type GrowthChartExportInput,
+	type GrowthComparisonInput,
+	type GrowthConcernsFilterInput,
+	type GrowthPercentileInput,
+	type GrowthReferenceSettingInput,
+	type GrowthStandardsInput,
+	type GrowthTrendsInput,
+	type ReviewGrowthAlertInput,
+	type UpdateGrowthRecordInput,
+	type VelocityCalculationInput,
 } from '@/schemas'
 import { growthQueries } from '@/server/db/queries'
-import type { ChartType, Gender } from '@/types'
+import type { Gender, GrowthReference } from '@/types'
 import {
-	calculateLMSZScore,
+	calculateVelocityZScores,
+	calculateWHOZScore,
 	calculateZScore,
+	classifyAcuteMalnutrition,
+	classifyWFA,
+	evaluateGrowthAlerts,
+	GROWTH_ALERT_RULE_LABELS,
+	GROWTH_ALERT_THRESHOLDS,
+	GROWTH_REFERENCE_COVERAGE,
+	GROWTH_REFERENCE_LABELS,
+	type GrowthAlertMeasurement,
+	type GrowthReferenceSegment,
 	getAgeInDays,
+	getGrowthAge,
+	interpolateLMSAt,
+	isPreterm,
+	isRestrictedChart,
 	type LMSDataPoint,
+	midParentalTargetHeight,
+	predictAdultHeight,
+	referenceForChart,
+	referenceForGrowthAge,
+	referenceSegments,
+	type SchoolAgeReference,
+	selectGrowthReference,
+	TERM_GESTATION_WEEKS,
+	type VelocityChartType,
+	type VelocityMeasurement,
+	valueAtZ,
+	WHO_LENGTH_RANGE,
+	type WHOChartType,
+	weightForLengthChart,
 	zScoreToPercentile,
 } from '@/utils'
 
@@ -32,12 +71,24 @@ import {
 } from '../../utils/date/calculate-age'
 import { validateClinicAccess } from '../utils'
 import { calculateAge } from './appointment.service'
+import { storageService } from './storage.service'
 
 // ==================== TYPE DEFINITIONS ====================
 
+export type AgeChartType = 'WFA' | 'HFA' | 'HcFA' | 'BFA' | 'ACFA'
+
+/**
+ * CORRECTED plots babies born preterm at corrected age (negative before
+ * term); Fenton curves on a chronological chart use postmenstrual age
+ */
+export type ChartAgeAxis = 'CHRONOLOGICAL' | 'CORRECTED'
+
 export interface ZScoreChartData {
 	gender: 'MALE' | 'FEMALE'
-	chartType: 'WFA' | 'HFA' | 'HcFA'
+	chartType: AgeChartType
+	reference: GrowthReference
+	referenceLabel: string
+	ageAxis: ChartAgeAxis | 'POSTMENSTRUAL'
 	points: LMSDataPoint[]
 	ageRange: {
 		minAgeDays: number
@@ -47,22 +98,30 @@ export interface ZScoreChartData {
 	}
 	metadata: {
 		totalPoints: number
-		dataSource: 'WHO'
+		dataSource: 'WHO' | 'CDC' | 'FENTON'
 		lastUpdated: Date
 	}
 }
 
 export interface PatientZScoreData {
+	/** Position on the chart's age axis */
 	ageDays: number
 	ageMonths: number
+	chronologicalAgeDays: number
+	correctedAgeDays: number | null
 	weight?: number | null
 	height?: number | null
 	weightForAgeZ?: number | null
 	heightForAgeZ?: number | null
 	zScore?: number | null
 	percentile?: number | null
+	/** Measurement plotted on this chart, in the chart's unit */
+	value: number | null
 	classification: string
 	date: Date
+	/** Reference the stored z-score was calculated against */
+	reference: GrowthReference
+	referenceLabel: string
 }
 
 export interface ClinicGrowthOverview {
@@ -304,53 +363,69 @@ export async function calculatePercentile(input: GrowthPercentileInput) {
 			message: 'Patient not found',
 		})
 	}
-
-	let chartType: ChartType
-	switch (measurement.type) {
-		case 'WFA':
-			chartType = 'WFA'
-			break
-		case 'HFA':
-			chartType = 'HFA'
-			break
-		case 'HcFA':
-			chartType = 'HcFA'
-			break
-		default:
-			throw new Error('Invalid measurement type')
-	}
-
-	const ageDays = measurement.ageMonths * 30.44
-
-	const standard = await growthQueries.findClosestWHOStandard({
-		ageDays,
-		ageMonths: measurement.ageMonths,
+	cacheTag(CACHE_TAGS.clinic.settings(patient.clinicId))
+
+	// Reference set by age: Fenton for preterm babies to 50 weeks PMA,
+	// WHO standards to 5 y (corrected age to 2 y), then the clinic's choice
+	const chartType: WHOChartType = measurement.type
+	const age = getGrowthAge(
+		Math.round(measurement.ageMonths * 30.44),
+		patient.gestationalAgeWeeks
+	)
+	const lookup = referenceForGrowthAge(
 		chartType,
-		gender: patient.gender as Gender,
-	})
+		age,
+		await getSchoolAgeReference(patient.clinicId)
+	)
+	const reference = lookup?.reference ?? null
+	const found = lookup
+		? await findReferenceLMS(
+				lookup.reference,
+				chartType,
+				patient.gender as 'MALE' | 'FEMALE',
+				'ageDays',
+				lookup.at
+			)
+		: null
+	const ageBasis = {
+		correctedAgeMonths:
+			age.correctedAgeDays !== null
+				? Number((age.correctedAgeDays / 30.44).toFixed(1))
+				: null,
+		postmenstrualAgeWeeks:
+			age.postmenstrualAgeDays !== null
+				? Number((age.postmenstrualAgeDays / 7).toFixed(1))
+				: null,
+	}
 
-	if (!standard) {
+	if (!(reference && found)) {
 		return {
+			...ageBasis,
 			classification: 'No standard available',
 			percentile: null,
+			reference,
+			referenceLabel: reference ? GROWTH_REFERENCE_LABELS[reference] : null,
 			standardAgeMonths: measurement.ageMonths,
 			zScore: null,
 		}
 	}
 
-	const zScore = calculateLMSZScore(
+	const standard = found.nearest
+	const zScore = calculateWHOZScore(
 		measurement.value,
-		Number(standard.lValue),
-		Number(standard.mValue),
-		Number(standard.sValue)
+		found.lms,
+		isRestrictedChart(chartType, reference)
 	)
 
 	const percentile = zScoreToPercentile(zScore)
 	const classification = getGrowthInterpretation(zScore)
 
 	return {
+		...ageBasis,
 		classification,
 		percentile,
+		reference,
+		referenceLabel: GROWTH_REFERENCE_LABELS[reference],
 		standardAgeMonths:
 			standard.ageInMonths || Math.floor((standard.ageDays || 0) / 30.44),
 		standardValues: {
@@ -378,19 +453,19 @@ export async function getGrowthTrends(input: GrowthTrendsInput) {
 	)
 	cacheLife(CACHE_PROFILES.medicalMedium)
 
-	await verifyPatientAccess(patientId, clinicId)
+	const patient = await verifyPatientAccess(patientId, clinicId)
 
 	const records = await growthQueries.findGrowthRecordsByPatient(patientId)
 
-	const trends = records
-		.filter(record => {
-			if (timeRange) {
-				if (timeRange.startDate && record.date < timeRange.startDate)
-					return false
-				if (timeRange.endDate && record.date > timeRange.endDate) return false
-			}
-			return true
-		})
+	const inRange = records.filter(record => {
+		if (timeRange) {
+			if (timeRange.startDate && record.date < timeRange.startDate) return false
+			if (timeRange.endDate && record.date > timeRange.endDate) return false
+		}
+		return true
+	})
+
+	const trends = inRange
 		.map(record => {
 			let value: number | null = null
 			let zScore: number | null = null
@@ -452,6 +527,12 @@ export async function getGrowthTrends(input: GrowthTrendsInput) {
 		},
 		trends,
 		velocity,
+		velocityZScores: await standardVelocities(
+			inRange,
+			chartType,
+			patient.gender,
+			patient.dateOfBirth
+		),
 	}
 }
 
@@ -463,7 +544,7 @@ export async function calculateVelocity(input: VelocityCalculationInput) {
 	)
 	cacheLife(CACHE_PROFILES.medicalShort)
 
-	await verifyPatientAccess(patientId, clinicId)
+	const patient = await verifyPatientAccess(patientId, clinicId)
 
 	const records = await growthQueries.findGrowthRecordsByPatient(patientId)
 
@@ -516,6 +597,13 @@ export async function calculateVelocity(input: VelocityCalculationInput) {
 	const lastValue = Number(getVal(last) ?? 0)
 	const valueDiff = lastValue - firstValue
 
+	const [standard = null] = await standardVelocities(
+		[first, last],
+		chartType,
+		patient.gender,
+		patient.dateOfBirth
+	)
+
 	return {
 		ageChangeMonths: (last.ageMonths ?? 0) - (first.ageMonths ?? 0),
 		daysBetween: Math.round(daysDiff),
@@ -523,6 +611,7 @@ export async function calculateVelocity(input: VelocityCalculationInput) {
 		perMonth: Number(((valueDiff / daysDiff) * 30.44).toFixed(4)),
 		perWeek: Number(((valueDiff / daysDiff) * 7).toFixed(4)),
 		perYear: Number(((valueDiff / daysDiff) * 365.25).toFixed(4)),
+		standard,
 		totalChange: Number(valueDiff.toFixed(4)),
 	}
 }
@@ -790,27 +879,36 @@ export async function getGrowthProjection(
 
 export async function getZScoreChartData(
 	gender: 'MALE' | 'FEMALE',
-	chartType: 'WFA' | 'HFA' | 'HcFA' = 'WFA'
+	chartType: AgeChartType = 'WFA',
+	reference: GrowthReference = 'WHO_2006',
+	ageAxis: ChartAgeAxis = 'CHRONOLOGICAL'
 ): Promise<ZScoreChartData> {
 	'use cache'
-	cacheTag(`chart:zscore:${gender}:${chartType}`)
+	cacheTag(`chart:zscore:${gender}:${chartType}:${reference}:${ageAxis}`)
 	cacheLife(CACHE_PROFILES.medicalLong)
 
 	const whoRecords = await growthQueries.findWHOStandards({
 		chartType,
 		gender,
+		reference,
 	})
 
 	if (!whoRecords.length) {
 		throw new TRPCError({
 			code: 'NOT_FOUND',
-			message: `No WHO growth data found for ${gender} ${chartType}`,
+			message: `No ${GROWTH_REFERENCE_LABELS[reference]} data found for ${gender} ${chartType}`,
 		})
 	}
 
+	// Fenton rows are by postmenstrual age; term (40 weeks) is corrected age 0
+	const fenton = reference === 'FENTON_2013'
+	const shift = fenton && ageAxis === 'CORRECTED' ? TERM_GESTATION_WEEKS * 7 : 0
+
 	const points: LMSDataPoint[] = whoRecords.map(record => ({
-		ageDays: record.ageDays,
-		ageMonths: record.ageInMonths ?? 0,
+		ageDays: record.ageDays - shift,
+		ageMonths: fenton
+			? Math.floor((record.ageDays - shift) / 30.44)
+			: (record.ageInMonths ?? 0),
 		gender: record.gender,
 		lValue: record.lValue ?? 0,
 		mValue: record.mValue ?? 0,
@@ -834,27 +932,39 @@ export async function getZScoreChartData(
 	}
 
 	return {
+		ageAxis: fenton && ageAxis === 'CHRONOLOGICAL' ? 'POSTMENSTRUAL' : ageAxis,
 		ageRange,
 		chartType,
 		gender,
 		metadata: {
-			dataSource: 'WHO',
+			dataSource: fenton ? 'FENTON' : reference === 'CDC_2000' ? 'CDC' : 'WHO',
 			lastUpdated: new Date(),
 			totalPoints: points.length,
 		},
 		points,
+		reference,
+		referenceLabel: GROWTH_REFERENCE_LABELS[reference],
 	}
 }
 
+/**
+ * Patient measurements over the reference curves. Charts spanning more
+ * than one reference (e.g. WHO standards to 5 y, then WHO 2007) are
+ * joined, with each segment and each point labelled with its reference.
+ * Babies born preterm are plotted at corrected age by default, starting
+ * on the Fenton curves.
+ */
 export async function getPatientZScoreChart(
 	patientId: string,
 	clinicId: string,
-	chartType: 'WFA' | 'HFA' | 'HcFA' = 'WFA'
+	chartType: AgeChartType = 'WFA',
+	ageAxis?: ChartAgeAxis
 ) {
 	'use cache'
 	cacheTag(
-		`chart:patient:${patientId}:${chartType}`,
-		CACHE_TAGS.patient.growth(patientId)
+		`chart:patient:${patientId}:${chartType}:${ageAxis ?? 'default'}`,
+		CACHE_TAGS.patient.growth(patientId),
+		CACHE_TAGS.clinic.settings(clinicId)
 	)
 	cacheLife(CACHE_PROFILES.medicalShort)
 
@@ -868,27 +978,108 @@ export async function getPatientZScoreChart(
 		})
 	}
 
-	const [chartData, measurements] = await Promise.all([
-		getZScoreChartData(patient.gender as 'MALE' | 'FEMALE', chartType),
+	const gender = patient.gender as 'MALE' | 'FEMALE'
+	const gestationalAgeWeeks = patient.gestationalAgeWeeks
+	const axis: ChartAgeAxis =
+		ageAxis ?? (isPreterm(gestationalAgeWeeks) ? 'CORRECTED' : 'CHRONOLOGICAL')
+	const ageOnAxis = (chronologicalAgeDays: number) =>
+		axis === 'CORRECTED'
+			? getGrowthAge(chronologicalAgeDays, gestationalAgeWeeks).ageDays
+			: chronologicalAgeDays
+
+	const [measurements, schoolAge] = await Promise.all([
 		growthQueries.findMeasurementsByPatient(patientId),
+		getSchoolAgeReference(clinicId),
 	])
 
+	// Curves up to the patient's current age or latest measurement
+	const maxAgeDays = Math.max(
+		ageOnAxis(getAgeInDays(patient.dateOfBirth, new Date())),
+		...measurements.map(m => ageOnAxis(m.ageDays ?? 0))
+	)
+	const segments = chartSegments(
+		chartType,
+		maxAgeDays,
+		schoolAge,
+		axis === 'CORRECTED' ? gestationalAgeWeeks : null
+	)
+	if (segments.length === 0) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: `No growth reference covers ${chartType} at this age`,
+		})
+	}
+
+	const segmentCharts = await Promise.all(
+		segments.map(segment =>
+			getZScoreChartData(gender, chartType, segment.reference, axis)
+		)
+	)
+	const points = segmentCharts.flatMap((chart, index) =>
+		chart.points.filter(
+			point =>
+				point.ageDays >= segments[index].fromAgeDays &&
+				point.ageDays <= segments[index].toAgeDays
+		)
+	)
+	const latest = segmentCharts.at(-1) as ZScoreChartData
+	const chartData: ZScoreChartData & { references: GrowthReferenceSegment[] } =
+		{
+			...latest,
+			ageAxis: axis,
+			ageRange: {
+				maxAgeDays: Math.max(...points.map(p => p.ageDays)),
+				maxAgeMonths: Math.max(...points.map(p => p.ageMonths ?? 0)),
+				minAgeDays: Math.min(...points.map(p => p.ageDays)),
+				minAgeMonths: Math.min(...points.map(p => p.ageMonths ?? 0)),
+			},
+			metadata: { ...latest.metadata, totalPoints: points.length },
+			points,
+			references: segments,
+		}
+
 	const patientData: PatientZScoreData[] = measurements.map(m => {
 		let zScore: number | null = 0
 		if (chartType === 'WFA') zScore = m.weightForAgeZ?.toNumber() ?? null
 		else if (chartType === 'HFA') zScore = m.heightForAgeZ?.toNumber() ?? 0
 		else if (chartType === 'HcFA') zScore = m.hcForAgeZ?.toNumber() ?? 0
+		else if (chartType === 'BFA') zScore = m.bmiForAgeZ?.toNumber() ?? null
+		else if (chartType === 'ACFA') zScore = m.muacForAgeZ?.toNumber() ?? null
+
+		const value =
+			chartType === 'WFA'
+				? m.weight
+				: chartType === 'HFA'
+					? m.height
+					: chartType === 'HcFA'
+						? (m.headCircumference?.toNumber() ?? null)
+						: chartType === 'BFA'
+							? (m.bmi?.toNumber() ?? null)
+							: (m.muac?.toNumber() ?? null)
+
+		// Records from before references were tracked are all WHO 0-5 y
+		const reference = m.growthReference ?? 'WHO_2006'
+		const chronologicalAgeDays = m.ageDays ?? 0
+		const ageDays = ageOnAxis(chronologicalAgeDays)
 
 		return {
-			ageDays: m.ageDays ?? 0,
-			ageMonths: Math.floor((m.ageDays ?? 0) / 30.44),
+			ageDays,
+			ageMonths: Math.floor(ageDays / 30.44),
+			chronologicalAgeDays,
 			classification: m.classification ?? 'Unknown',
+			correctedAgeDays:
+				m.correctedAgeDays ??
+				getGrowthAge(chronologicalAgeDays, gestationalAgeWeeks)
+					.correctedAgeDays,
 			date: m.date,
 			height: m.height,
 			percentile:
 				zScore !== null
 					? (zScoreToPercentile(zScore) as unknown as number)
 					: null,
+			reference,
+			referenceLabel: GROWTH_REFERENCE_LABELS[reference],
+			value,
 			weight: m.weight,
 			zScore,
 		}
@@ -907,16 +1098,22 @@ export async function getPatientZScoreChart(
 		}
 	})
 
+	const targetHeight =
+		chartType === 'HFA'
+			? await targetHeightOverlay(patient, gender, schoolAge, measurements)
+			: null
+
 	return {
 		chartData,
 		combined,
 		patientData,
+		targetHeight,
 	}
 }
 
 export async function getZScoreAreas(
 	gender: 'MALE' | 'FEMALE',
-	chartType: 'WFA' | 'HFA' | 'HcFA' = 'WFA'
+	chartType: AgeChartType = 'WFA'
 ) {
 	'use cache'
 	cacheTag(`chart:areas:${gender}:${chartType}`)
@@ -998,6 +1195,150 @@ export async function getZScoreAreas(
 	return { median, sdAreas }
 }
 
+// ==================== CHART EXPORT METHODS ====================
+
+const CHART_EXPORT_LABELS: Record<
+	AgeChartType,
+	{ title: string; unit: string }
+> = {
+	ACFA: { title: 'Arm circumference-for-age', unit: 'cm' },
+	BFA: { title: 'BMI-for-age', unit: 'kg/m²' },
+	HcFA: { title: 'Head circumference-for-age', unit: 'cm' },
+	HFA: { title: 'Length/height-for-age', unit: 'cm' },
+	WFA: { title: 'Weight-for-age', unit: 'kg' },
+}
+
+/**
+ * Render a patient's growth chart as a PDF or SVG document, in parent or
+ * clinician format, from the same data as the in-app chart. Every export
+ * is audited; with attach it is also saved to the patient's files so it
+ * can go out with a referral.
+ */
+export async function exportGrowthChart(
+	input: GrowthChartExportInput,
+	clinicId: string,
+	userId: string,
+	request?: { ipAddress?: string; userAgent?: string }
+) {
+	// 1. Access check + chart data
+	await validateClinicAccess(clinicId, userId)
+	const [chart, patient, clinic] = await Promise.all([
+		getPatientZScoreChart(
+			input.patientId,
+			clinicId,
+			input.chartType,
+			input.ageAxis
+		),
+		growthQueries.getPatientIdentity(input.patientId),
+		growthQueries.getClinicProfile(clinicId),
+	])
+
+	if (!(patient && clinic)) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Patient or clinic not found',
+		})
+	}
+
+	// 2. Curves from the LMS of each reference point, so every reference
+	// draws the same lines whether or not it ships SD columns
+	const curves = chart.chartData.points.map(point => {
+		const at = (z: number) => Number(valueAtZ(point, z).toFixed(2))
+		return {
+			ageDays: point.ageDays,
+			sd0: at(0),
+			sd1neg: at(-1),
+			sd1pos: at(1),
+			sd2neg: at(-2),
+			sd2pos: at(2),
+			sd3neg: at(-3),
+			sd3pos: at(3),
+		}
+	})
+	const labels = CHART_EXPORT_LABELS[input.chartType]
+	const document: GrowthChartDocumentData = {
+		chart: {
+			ageAxis: chart.chartData.ageAxis,
+			referenceLabel: chart.chartData.references
+				.map(segment => GROWTH_REFERENCE_LABELS[segment.reference])
+				.join(', then '),
+			title: labels.title,
+			unit: labels.unit,
+		},
+		clinic: { ...clinic, logo: await loadImageBytes(clinic.logo) },
+		curves,
+		format: input.format,
+		generatedAt: new Date(),
+		measurements: chart.patientData.flatMap(point =>
+			point.value === null
+				? []
+				: [
+						{
+							ageDays: point.ageDays,
+							date: new Date(point.date),
+							percentile: point.percentile ?? null,
+							referenceLabel: point.referenceLabel,
+							value: point.value,
+							zScore: point.zScore ?? null,
+						},
+					]
+		),
+		patient,
+	}
+
+	// 3. Render
+	const file =
+		input.fileType === 'PDF'
+			? Buffer.from(await renderGrowthChartPdf(document))
+			: Buffer.from(renderGrowthChartSvg(document), 'utf8')
+	const mimeType =
+		input.fileType === 'PDF' ? 'application/pdf' : 'image/svg+xml'
+	const fileName =
+		`growth-chart-${input.chartType}-${patient.lastName}-${patient.firstName}.${input.fileType.toLowerCase()}`
+			.toLowerCase()
+			.replace(/\s+/g, '-')
+
+	// 4. Patient file for referrals
+	const attachment = input.attach
+		? await storageService.upload({
+				clinicId,
+				file,
+				fileName,
+				mimeType,
+				patientId: patient.id,
+				userId,
+			})
+		: null
+
+	// 5. EXPORT audit entry
+	await growthQueries.createExportAuditLog({
+		action: 'EXPORT',
+		clinicId,
+		details: `Growth chart (${input.chartType}, ${input.format.toLowerCase()}) exported for patient ${patient.id}`,
+		ipAddress: request?.ipAddress,
+		level: 'INFO',
+		metadata: {
+			accessType: 'EXPORT',
+			attachmentId: attachment?.id ?? null,
+			chartType: input.chartType,
+			fileType: input.fileType,
+			format: input.format,
+		},
+		model: 'GrowthRecord',
+		resource: 'GrowthChart',
+		resourceId: patient.id,
+		userAgent: request?.userAgent,
+		userId,
+	})
+
+	return {
+		attachment,
+		data: file.toString('base64'),
+		fileName,
+		mimeType,
+	}
+}
+
 export interface ZScoreResult {
 	ageDays: number
 	ageMonths: number
@@ -1027,6 +1368,8 @@ export interface CreateGrowthRecordInput {
 	weight?: number | null
 	height?: number | null
 	headCircumference?: number | null
+	muac?: number | null
+	bilateralOedema?: boolean | null
 	notes?: string | null
 }
 
@@ -1094,11 +1437,13 @@ export async function createGrowthRecord(
 		})
 	}
 
-	if (!input.weight && !input.height && !input.headCircumference) {
+	if (
+		!(input.weight || input.height || input.headCircumference || input.muac)
+	) {
 		throw new TRPCError({
 			code: 'BAD_REQUEST',
 			message:
-				'At least one measurement (weight, height, or head circumference) is required',
+				'At least one measurement (weight, height, head circumference or MUAC) is required',
 		})
 	}
 
@@ -1140,39 +1485,6 @@ export async function createGrowthRecord(
 
 	const ageMonths = differenceInMonths(input.date, patient.dateOfBirth)
 
-	// Get WHO standards map once for all calculations
-	const growthDataMap = await getWHOStandardsMap()
-	const gender = patient.gender as 'MALE' | 'FEMALE'
-
-	// Calculate Z-scores for available measurements
-	const [weightZScore, heightZScore, headCircumferenceZScore] =
-		await Promise.all([
-			input.weight
-				? calculateZScore(
-						growthDataMap,
-						gender as 'MALE' | 'FEMALE',
-						ageDays,
-						input.weight
-					)
-				: Promise.resolve(null),
-			input.height
-				? calculateZScore(
-						growthDataMap,
-						gender as 'MALE' | 'FEMALE',
-						ageDays,
-						input.height
-					)
-				: Promise.resolve(null),
-			input.headCircumference
-				? calculateZScore(
-						growthDataMap,
-						gender as 'MALE' | 'FEMALE',
-						ageDays,
-						input.headCircumference
-					)
-				: Promise.resolve(null),
-		])
-
 	// Calculate BMI if both weight and height are available
 	let bmi = null
 	if (input.weight && input.height && input.height > 0) {
@@ -1180,6 +1492,34 @@ export async function createGrowthRecord(
 		bmi = Number((input.weight / (heightInMeters * heightInMeters)).toFixed(1))
 	}
 
+	// Every z-score the measurements allow
+	const zScores = await calculateGrowthZScores(
+		{
+			ageDays,
+			bmi,
+			gender: patient.gender as 'MALE' | 'FEMALE',
+			gestationalAgeWeeks: patient.gestationalAgeWeeks,
+			headCircumference: input.headCircumference,
+			height: input.height,
+			muac: input.muac,
+			weight: input.weight,
+		},
+		await getSchoolAgeReference(clinicId)
+	)
+
+	// Acute malnutrition only when one of its indicators was measured
+	const malnutrition =
+		zScores.weightForLengthZ !== null ||
+		input.muac != null ||
+		input.bilateralOedema != null
+			? classifyAcuteMalnutrition({
+					ageDays,
+					bilateralOedema: input.bilateralOedema,
+					muacCm: input.muac,
+					weightForHeightZ: zScores.weightForLengthZ,
+				})
+			: null
+
 	// Create growth record
 	const growthRecord = await growthQueries.createGrowthRecord({
 		patient: { connect: { id: input.patientId } },
@@ -1187,24 +1527,34 @@ export async function createGrowthRecord(
 		date: input.date,
 		ageDays,
 		ageMonths,
+		correctedAgeDays: zScores.correctedAgeDays,
+		postmenstrualAgeDays: zScores.postmenstrualAgeDays,
 		weight: input.weight,
 		height: input.height,
 		headCircumference: input.headCircumference,
 		bmi,
-		weightForAgeZ: weightZScore?.zScore,
-		heightForAgeZ: heightZScore?.zScore,
-		hcForAgeZ: headCircumferenceZScore?.zScore,
+		weightForAgeZ: zScores.weightForAgeZ,
+		heightForAgeZ: zScores.heightForAgeZ,
+		hcForAgeZ: zScores.hcForAgeZ,
+		bmiForAgeZ: zScores.bmiForAgeZ,
+		weightForLengthZ: zScores.weightForLengthZ,
+		muac: input.muac,
+		muacForAgeZ: zScores.muacForAgeZ,
+		bilateralOedema: input.bilateralOedema,
+		acuteMalnutrition: malnutrition?.status,
+		growthReference: zScores.growthReference,
 		classification:
-			weightZScore &&
-			typeof weightZScore === 'object' &&
-			'whoClassification' in weightZScore
-				? weightZScore.whoClassification
+			zScores.weightForAgeZ !== null
+				? classifyWFA(zScores.weightForAgeZ).classification
 				: null,
 		notes: input.notes,
 		recordedAt: new Date(),
 		recordedBy: { connect: { id: userId } },
 	})
 
+	// Longitudinal rules against the earlier records
+	const alerts = await raiseGrowthAlerts(growthRecord, patient, clinicId)
+
 	// Invalidate cache tags
 	await Promise.all([
 		// Patient-specific caches
@@ -1219,7 +1569,7 @@ export async function createGrowthRecord(
 		revalidateTag(`growth:clinic:${clinicId}`, 'max'),
 	])
 
-	return growthRecord
+	return { ...growthRecord, alerts, malnutrition }
 }
 export async function updateGrowthRecord(
 	id: string,
@@ -1273,8 +1623,514 @@ export async function deleteGrowthRecord(id: string, userId: string) {
 	cacheHelpers.admin.invalidateDashboard(existing.clinicId ?? '')
 }
 
+// ==================== GROWTH CONCERNS ====================
+
+/**
+ * Clinic-wide worklist of growth alerts, newest first
+ */
+export async function getGrowthConcerns(
+	filter: GrowthConcernsFilterInput,
+	clinicId: string
+) {
+	'use cache'
+	cacheTag(CACHE_TAGS.growth.concernsByClinic(clinicId))
+	cacheLife(CACHE_PROFILES.medicalShort)
+
+	const { limit, page, ...options } = filter
+	const [alerts, total] = await growthQueries.findGrowthAlertsByClinic(
+		clinicId,
+		{
+			...options,
+			skip: (page - 1) * limit,
+			take: limit,
+		}
+	)
+
+	return {
+		data: alerts.map(alert => ({
+			...alert,
+			ruleLabel: GROWTH_ALERT_RULE_LABELS[alert.rule],
+		})),
+		page,
+		total,
+		totalPages: Math.max(1, Math.ceil(total / limit)),
+	}
+}
+
+export async function reviewGrowthAlert(
+	input: ReviewGrowthAlertInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+
+	const existing = await growthQueries.findGrowthAlertById(input.id)
+	if (!existing || existing.clinicId !== clinicId) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Growth alert not found',
+		})
+	}
+	if (existing.status === 'RESOLVED') {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Growth alert is already resolved',
+		})
+	}
+
+	const alert = await growthQueries.updateGrowthAlertStatus(
+		input.id,
+		{
+			reviewedById: userId,
+			reviewNotes: input.reviewNotes,
+			status: input.status,
+		},
+		{
+			action: 'UPDATE',
+			clinicId,
+			details: `Growth alert ${GROWTH_ALERT_RULE_LABELS[existing.rule]} marked ${input.status.toLowerCase()}`,
+			level: 'INFO',
+			metadata: { patientId: existing.patientId, rule: existing.rule },
+			model: 'GrowthAlert',
+			userId,
+		}
+	)
+
+	cacheHelpers.medical.growth.invalidateClinicGrowth(clinicId)
+
+	return alert
+}
+
+// ==================== GROWTH REFERENCE SETTING ====================
+
+export async function getGrowthReferenceSetting(clinicId: string) {
+	'use cache'
+	cacheTag(CACHE_TAGS.clinic.settings(clinicId))
+	cacheLife(CACHE_PROFILES.medicalLong)
+
+	return { schoolAgeGrowthReference: await getSchoolAgeSetting(clinicId) }
+}
+
+/**
+ * Choose the reference used past 5 years (or from 2 years for CDC).
+ * Records already saved keep the reference they were calculated with.
+ */
+export async function updateGrowthReferenceSetting(
+	input: GrowthReferenceSettingInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+
+	const setting = await growthQueries.upsertGrowthReferenceSetting(
+		clinicId,
+		input.schoolAgeGrowthReference,
+		{
+			action: 'UPDATE',
+			clinicId,
+			details: `School-age growth reference set to ${GROWTH_REFERENCE_LABELS[input.schoolAgeGrowthReference]}`,
+			level: 'INFO',
+			model: 'ClinicSetting',
+			userId,
+		}
+	)
+
+	cacheHelpers.clinic.invalidateSettings(clinicId)
+
+	return setting
+}
+
 // ==================== HELPER METHODS ====================
 
+/**
+ * Weight-, length/height-, head circumference- and BMI-for-age plus
+ * weight-for-length/height. Each age-based z-score uses the reference
+ * that covers the child's age (Fenton to 50 weeks postmenstrual age for
+ * babies born preterm, WHO standards to 5 years, then the clinic's
+ * school-age reference), at corrected age until 24 months. A z-score is
+ * null when its measurement is missing or no loaded reference covers it.
+ */
+export async function calculateGrowthZScores(
+	measurements: {
+		ageDays: number
+		gestationalAgeWeeks?: number | null
+		gender: 'MALE' | 'FEMALE'
+		weight?: number | null
+		height?: number | null
+		headCircumference?: number | null
+		bmi?: number | null
+		muac?: number | null
+	},
+	schoolAge: SchoolAgeReference = 'WHO_2007'
+) {
+	const { bmi, gender, headCircumference, height, muac, weight } = measurements
+	const age = getGrowthAge(
+		measurements.ageDays,
+		measurements.gestationalAgeWeeks
+	)
+	const { ageDays } = age
+	const lengthChart = weightForLengthChart(ageDays)
+	const forAge = (chartType: WHOChartType, value?: number | null) => {
+		const lookup = referenceForGrowthAge(chartType, age, schoolAge)
+		return lookup
+			? referenceZScore(
+					lookup.reference,
+					chartType,
+					gender,
+					'ageDays',
+					lookup.at,
+					value
+				)
+			: null
+	}
+
+	const [
+		weightForAgeZ,
+		heightForAgeZ,
+		hcForAgeZ,
+		bmiForAgeZ,
+		muacForAgeZ,
+		weightForLengthZ,
+	] = await Promise.all([
+		forAge('WFA', weight),
+		forAge('HFA', height),
+		forAge('HcFA', headCircumference),
+		forAge('BFA', bmi),
+		forAge('ACFA', muac),
+		weight &&
+		height &&
+		ageDays >= 0 &&
+		referenceForChart(lengthChart, ageDays, schoolAge) &&
+		height >= WHO_LENGTH_RANGE[lengthChart][0] &&
+		height <= WHO_LENGTH_RANGE[lengthChart][1]
+			? referenceZScore(
+					'WHO_2006',
+					lengthChart,
+					gender,
+					'lengthCm',
+					height,
+					weight
+				)
+			: null,
+	])
+
+	return {
+		bmiForAgeZ,
+		correctedAgeDays: age.correctedAgeDays,
+		growthReference:
+			referenceForGrowthAge('WFA', age, schoolAge)?.reference ??
+			selectGrowthReference(Math.max(ageDays, 0), schoolAge),
+		hcForAgeZ,
+		heightForAgeZ,
+		muacForAgeZ,
+		weightForAgeZ,
+		postmenstrualAgeDays: age.postmenstrualAgeDays,
+		weightForLengthZ,
+	}
+}
+
+/**
+ * LMS parameters at an age or length, interpolated between the two
+ * bracketing table rows, with the nearest row for its SD lines
+ */
+async function findReferenceLMS(
+	reference: GrowthReference,
+	chartType: WHOChartType,
+	gender: 'MALE' | 'FEMALE',
+	by: 'ageDays' | 'lengthCm',
+	at: number
+) {
+	const { lower, upper } = await growthQueries.findBracketingWHOStandards({
+		by,
+		chartType,
+		gender,
+		reference,
+		value: at,
+	})
+	const rows = [lower, upper].map(row =>
+		row?.lValue != null && row.mValue && row.sValue
+			? {
+					at: Number(row[by]),
+					lValue: row.lValue,
+					mValue: row.mValue,
+					row,
+					sValue: row.sValue,
+				}
+			: null
+	)
+	const [low, high] = [rows[0] ?? rows[1], rows[1] ?? rows[0]]
+	if (!(low && high)) return null
+
+	return {
+		lms: interpolateLMSAt(low, high, at),
+		nearest:
+			Math.abs(high.at - at) < Math.abs(at - low.at) ? high.row : low.row,
+	}
+}
+
+/**
+ * One z-score against one reference, rounded for storage
+ */
+async function referenceZScore(
+	reference: GrowthReference,
+	chartType: WHOChartType,
+	gender: 'MALE' | 'FEMALE',
+	by: 'ageDays' | 'lengthCm',
+	at: number,
+	value: number | null | undefined
+): Promise<number | null> {
+	if (!value || value <= 0) return null
+
+	const found = await findReferenceLMS(reference, chartType, gender, by, at)
+	if (!found) return null
+
+	const z = calculateWHOZScore(
+		value,
+		found.lms,
+		isRestrictedChart(chartType, reference)
+	)
+
+	// Stored as Decimal(4, 3)
+	return Number.isFinite(z) && Math.abs(z) < 10 ? Number(z.toFixed(3)) : null
+}
+
+/**
+ * Run the longitudinal growth rules on a new record, store what they find
+ * for the worklist and notify the patient's assigned doctor
+ */
+async function raiseGrowthAlerts(
+	record: AlertSourceRecord,
+	patient: {
+		id: string
+		firstName: string
+		lastName: string
+		doctorId: string | null
+	},
+	clinicId: string
+) {
+	const history = await growthQueries.findGrowthAlertHistory(
+		patient.id,
+		record.date,
+		subDays(record.date, GROWTH_ALERT_THRESHOLDS.lookbackDays)
+	)
+	const findings = evaluateGrowthAlerts(
+		toAlertMeasurement(record),
+		history.map(toAlertMeasurement)
+	)
+	if (findings.length === 0) return findings
+
+	const name = `${patient.firstName} ${patient.lastName}`
+	const doctorId = patient.doctorId
+	await growthQueries.createGrowthAlerts(
+		findings.map(finding => ({
+			clinicId,
+			details: finding.details,
+			growthRecordId: record.id,
+			message: finding.message,
+			notifiedUserId: doctorId,
+			patientId: patient.id,
+			rule: finding.rule,
+		})),
+		doctorId
+			? findings.map(finding => ({
+					message: `${name}: ${finding.message}`,
+					title: `Growth concern: ${GROWTH_ALERT_RULE_LABELS[finding.rule]}`,
+					type: GROWTH_NOTIFICATION_TYPE,
+					userId: doctorId,
+				}))
+			: []
+	)
+	cacheHelpers.medical.growth.invalidateClinicGrowth(clinicId)
+
+	return findings
+}
+
+interface AlertSourceRecord {
+	id: string
+	date: Date
+	ageDays?: number | null
+	weight?: number | null
+	headCircumference?: { toNumber(): number } | null
+	weightForAgeZ?: { toNumber(): number } | null
+	weightForLengthZ?: { toNumber(): number } | null
+	hcForAgeZ?: { toNumber(): number } | null
+}
+
+function toAlertMeasurement(record: AlertSourceRecord): GrowthAlertMeasurement {
+	return {
+		ageDays: record.ageDays ?? 0,
+		date: record.date,
+		hcForAgeZ: record.hcForAgeZ?.toNumber() ?? null,
+		headCircumference: record.headCircumference?.toNumber() ?? null,
+		id: record.id,
+		weight: record.weight,
+		weightForAgeZ: record.weightForAgeZ?.toNumber() ?? null,
+		weightForLengthZ: record.weightForLengthZ?.toNumber() ?? null,
+	}
+}
+
+/**
+ * Reference segments of a patient chart. On a corrected-age axis for a
+ * baby born preterm, Fenton covers birth to 50 weeks postmenstrual age
+ * (where it has the chart) and the age-based references follow.
+ */
+function chartSegments(
+	chartType: AgeChartType,
+	maxAgeDays: number,
+	schoolAge: SchoolAgeReference,
+	gestationalAgeWeeks: number | null | undefined
+): GrowthReferenceSegment[] {
+	const segments = referenceSegments(chartType, maxAgeDays, schoolAge)
+	const fentonSpan = GROWTH_REFERENCE_COVERAGE.FENTON_2013[chartType]
+	if (!(isPreterm(gestationalAgeWeeks) && fentonSpan)) return segments
+
+	const termDays = TERM_GESTATION_WEEKS * 7
+	const fentonEnd = Math.min(fentonSpan[1] - termDays, maxAgeDays)
+	const fenton: GrowthReferenceSegment = {
+		fromAgeDays:
+			Math.max(fentonSpan[0], Math.round((gestationalAgeWeeks ?? 0) * 7)) -
+			termDays,
+		label: GROWTH_REFERENCE_LABELS.FENTON_2013,
+		reference: 'FENTON_2013',
+		toAgeDays: fentonEnd,
+	}
+
+	return [
+		fenton,
+		...segments
+			.filter(segment => segment.toAgeDays > fentonEnd)
+			.map(segment => ({
+				...segment,
+				fromAgeDays: Math.max(segment.fromAgeDays, fentonEnd + 1),
+			})),
+	]
+}
+
+interface VelocitySourceRecord {
+	id: string
+	date: Date
+	ageDays: number | null
+	correctedAgeDays: number | null
+	weight: number | null
+	height: number | null
+	headCircumference: { toNumber(): number } | null
+}
+
+/**
+ * WHO velocity z-scores between the records that span a standard
+ * interval. Intervals use corrected age for babies born preterm.
+ */
+async function standardVelocities(
+	records: VelocitySourceRecord[],
+	chartType: VelocityChartType,
+	gender: Gender,
+	dateOfBirth: Date
+) {
+	const measurements: VelocityMeasurement[] = records.flatMap(record => {
+		const value =
+			chartType === 'WFA'
+				? record.weight
+				: chartType === 'HFA'
+					? record.height
+					: (record.headCircumference?.toNumber() ?? null)
+		if (value == null) return []
+
+		return [
+			{
+				ageDays:
+					record.correctedAgeDays ??
+					record.ageDays ??
+					getAgeInDays(dateOfBirth, record.date),
+				date: record.date,
+				id: record.id,
+				value,
+			},
+		]
+	})
+	if (measurements.length < 2) return []
+
+	const rows = await growthQueries.findVelocityStandards(gender, chartType)
+
+	return calculateVelocityZScores(
+		measurements,
+		rows.map(row => ({ ...row, chartType }))
+	).map(velocity => ({
+		...velocity,
+		percentile: zScoreToPercentile(velocity.zScore),
+	}))
+}
+
+/**
+ * Mid-parental target range at the end of the school-age reference, with
+ * the adult height projected from the latest height-for-age z-score
+ */
+async function targetHeightOverlay(
+	patient: { motherHeightCm: number | null; fatherHeightCm: number | null },
+	gender: 'MALE' | 'FEMALE',
+	schoolAge: SchoolAgeReference,
+	measurements: { date: Date; heightForAgeZ: { toNumber(): number } | null }[]
+) {
+	const target = midParentalTargetHeight(
+		gender,
+		patient.motherHeightCm,
+		patient.fatherHeightCm
+	)
+	if (!target) return null
+
+	const adultAgeDays = GROWTH_REFERENCE_COVERAGE[schoolAge].HFA?.[1] ?? 0
+	const adult = await findReferenceLMS(
+		schoolAge,
+		'HFA',
+		gender,
+		'ageDays',
+		adultAgeDays
+	)
+	const latest = measurements
+		.filter(m => m.heightForAgeZ != null)
+		.sort((a, b) => b.date.getTime() - a.date.getTime())[0]
+	const currentZ = latest?.heightForAgeZ?.toNumber()
+
+	return {
+		...target,
+		adultAgeDays,
+		prediction:
+			adult && currentZ != null
+				? predictAdultHeight(currentZ, adult.lms, target)
+				: null,
+		reference: schoolAge,
+	}
+}
+
+/**
+ * The clinic's chosen reference for children past the WHO 0-5 y standards
+ */
+async function getSchoolAgeSetting(
+	clinicId: string
+): Promise<SchoolAgeReference> {
+	const setting = await growthQueries.findGrowthReferenceSetting(clinicId)
+	return setting?.schoolAgeGrowthReference === 'CDC_2000'
+		? 'CDC_2000'
+		: 'WHO_2007'
+}
+
+/**
+ * The reference z-scores are calculated with. CDC is only used once its
+ * tables are seeded: until then the WHO references apply, so children
+ * aged 2-5 y keep their WHO z-scores.
+ */
+async function getSchoolAgeReference(
+	clinicId: string
+): Promise<SchoolAgeReference> {
+	const setting = await getSchoolAgeSetting(clinicId)
+	if (
+		setting === 'CDC_2000' &&
+		(await growthQueries.countReferenceStandards('CDC_2000')) === 0
+	) {
+		return 'WHO_2007'
+	}
+	return setting
+}
+
 export async function verifyPatientAccess(patientId: string, clinicId: string) {
 	const patient = await growthQueries.checkPatientExists(patientId)
 	if (!patient) {
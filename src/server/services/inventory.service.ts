@@ -0,0 +1,348 @@
+/**
+ * 🟡 INVENTORY MODULE - SERVICE LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Vaccine lot stock management
+ * - Lot selection and expiry checks for administered doses
+ * - Low-stock and near-expiry alerts (Notification table)
+ * - NO direct Prisma calls
+ * - Uses cache helpers for invalidation
+ */
+
+import { TRPCError } from '@trpc/server'
+import { addDays, format, startOfDay } from 'date-fns'
+
+import { hasPermission } from '@/lib/permissions/checker'
+import { PERMISSIONS } from '@/lib/permissions/constants'
+import {
+	type AdjustVaccineLotStockInput,
+	INVENTORY_NOTIFICATION_TYPE,
+	NEAR_EXPIRY_DAYS,
+	type VaccineLotCreateInput,
+	type VaccineLotFilterInput,
+	type VaccineLotUpdateInput,
+} from '@/schemas/inventory.schema'
+import { inventoryQueries } from '@/server/db/queries/inventory.query'
+import { normalizeVaccineName } from '@/utils/vaccine-series'
+
+import { cacheHelpers } from '../../lib/cache/helpers'
+import { validateClinicAccess } from '../utils'
+
+// ==================== QUERY METHODS ====================
+
+export async function getLots(
+	clinicId: string,
+	options?: Omit<VaccineLotFilterInput, 'clinicId'>
+) {
+	return inventoryQueries.findByClinic(clinicId, options)
+}
+
+export async function getLotById(id: string, clinicId: string) {
+	const lot = await inventoryQueries.findById(id)
+
+	if (!lot) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Vaccine lot not found',
+		})
+	}
+
+	if (lot.clinicId !== clinicId) {
+		throw new TRPCError({
+			code: 'FORBIDDEN',
+			message: 'Access denied to this vaccine lot',
+		})
+	}
+
+	return lot
+}
+
+export async function getAvailableLots(
+	clinicId: string,
+	vaccineName: string,
+	asOf: Date = new Date()
+) {
+	return inventoryQueries.findAvailableLots(
+		clinicId,
+		vaccineName,
+		startOfDay(asOf)
+	)
+}
+
+// ==================== MUTATION METHODS ====================
+
+export async function createLot(input: VaccineLotCreateInput, userId: string) {
+	// 1. Validate clinic access
+	await validateClinicAccess(input.clinicId, userId)
+
+	// 2. Business rules
+	if (input.expiryDate < startOfDay(new Date())) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Cannot receive a lot that has already expired',
+		})
+	}
+
+	const existing = await inventoryQueries.findByLotNumber(
+		input.clinicId,
+		input.vaccineName,
+		input.lotNumber
+	)
+
+	if (existing) {
+		throw new TRPCError({
+			code: 'CONFLICT',
+			message: `Lot ${input.lotNumber} is already registered for ${input.vaccineName}`,
+		})
+	}
+
+	// 3. Create
+	const lot = await inventoryQueries.create({
+		...input,
+		quantityOnHand: input.quantityReceived,
+	})
+
+	// 4. Alerts + cache
+	await checkLotAlerts(lot.clinicId, [lot.id])
+	cacheHelpers.inventory.invalidate(lot.id, lot.clinicId, lot.vaccineName)
+
+	return lot
+}
+
+export async function updateLot(
+	input: VaccineLotUpdateInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	const existing = await getLotById(input.id, clinicId)
+
+	const { id, ...data } = input
+	const lot = await inventoryQueries.update(id, {
+		...data,
+		// A new expiry date re-arms the near-expiry alert
+		...(data.expiryDate &&
+			data.expiryDate.getTime() !== existing.expiryDate.getTime() && {
+				expiryAlertedAt: null,
+			}),
+		// Threshold changes re-evaluate low stock from scratch
+		...(data.lowStockThreshold !== undefined && { lowStockAlertedAt: null }),
+	})
+
+	await checkLotAlerts(clinicId, [lot.id])
+	cacheHelpers.inventory.invalidate(lot.id, clinicId, lot.vaccineName)
+
+	return lot
+}
+
+/**
+ * Manual stock movement: restock, wastage, cold-chain breach, count fix
+ */
+export async function adjustStock(
+	input: AdjustVaccineLotStockInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	const existing = await getLotById(input.id, clinicId)
+
+	const lot = await inventoryQueries.adjustStock(
+		input.id,
+		input.quantityChange,
+		{ clinicId, reason: input.reason, userId }
+	)
+
+	if (!lot) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `Only ${existing.quantityOnHand} doses on hand for lot ${existing.lotNumber}`,
+		})
+	}
+
+	await checkLotAlerts(clinicId, [lot.id])
+	cacheHelpers.inventory.invalidate(lot.id, clinicId, lot.vaccineName)
+
+	return lot
+}
+
+// ==================== IMMUNIZATION SUPPORT ====================
+
+/**
+ * Pick the lot an administered dose is drawn from
+ * - Explicit lot id, else lot number, else first-expiry-first-out
+ * - Returns null when the clinic does not track stock for this vaccine,
+ *   so free-text lot numbers keep working for untracked vaccines
+ * - Refuses expired, inactive, empty or mismatched lots
+ */
+export async function resolveLotForImmunization(
+	clinicId: string,
+	vaccineName: string,
+	administeredOn: Date,
+	selection: { vaccineLotId?: string; lotNumber?: string }
+) {
+	const validFrom = startOfDay(administeredOn)
+
+	if (selection.vaccineLotId) {
+		const lot = await getLotById(selection.vaccineLotId, clinicId)
+		assertLotUsable(lot, vaccineName, validFrom)
+		return lot
+	}
+
+	const tracked = await inventoryQueries.countLotsForVaccine(
+		clinicId,
+		vaccineName
+	)
+	if (tracked === 0) return null
+
+	if (selection.lotNumber) {
+		const lot = await inventoryQueries.findByLotNumber(
+			clinicId,
+			vaccineName,
+			selection.lotNumber
+		)
+
+		if (!lot) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: `Lot ${selection.lotNumber} is not in the ${vaccineName} inventory`,
+			})
+		}
+
+		assertLotUsable(lot, vaccineName, validFrom)
+		return lot
+	}
+
+	const [lot] = await inventoryQueries.findAvailableLots(
+		clinicId,
+		vaccineName,
+		validFrom
+	)
+
+	if (!lot) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `No unexpired ${vaccineName} stock available`,
+		})
+	}
+
+	return lot
+}
+
+// ==================== ALERT METHODS ====================
+
+/**
+ * Raise low-stock and near-expiry notifications for the clinic's
+ * inventory managers. Each lot alerts once per condition until re-armed
+ * by a restock or a changed expiry date.
+ */
+export async function checkLotAlerts(clinicId: string, lotIds?: string[]) {
+	const now = new Date()
+	const lots = await inventoryQueries.findAlertCandidates(
+		clinicId,
+		addDays(now, NEAR_EXPIRY_DAYS),
+		lotIds
+	)
+
+	const lowStock = lots.filter(
+		lot =>
+			lot.lowStockAlertedAt === null &&
+			lot.quantityOnHand <= lot.lowStockThreshold
+	)
+	const nearExpiry = lots.filter(
+		lot =>
+			lot.expiryAlertedAt === null &&
+			lot.quantityOnHand > 0 &&
+			lot.expiryDate <= addDays(now, NEAR_EXPIRY_DAYS)
+	)
+
+	if (lowStock.length === 0 && nearExpiry.length === 0) {
+		return { lowStock: 0, nearExpiry: 0 }
+	}
+
+	const members = await inventoryQueries.findClinicMembersWithRoles(clinicId)
+	const recipients = members
+		.filter(m =>
+			hasPermission(
+				(m.role.permissions as string[]) ?? [],
+				PERMISSIONS.INVENTORY.MANAGE
+			)
+		)
+		.map(m => m.userId)
+
+	const messages = [
+		...lowStock.map(lot => ({
+			message: `${lot.vaccineName} lot ${lot.lotNumber} has ${lot.quantityOnHand} doses left (threshold ${lot.lowStockThreshold}).`,
+			title: 'Vaccine stock low',
+		})),
+		...nearExpiry.map(lot => ({
+			message: `${lot.vaccineName} lot ${lot.lotNumber} expires on ${format(lot.expiryDate, 'dd MMM yyyy')} with ${lot.quantityOnHand} doses on hand.`,
+			title: 'Vaccine lot expiring soon',
+		})),
+	]
+
+	if (recipients.length > 0) {
+		await inventoryQueries.createNotifications(
+			recipients.flatMap(userId =>
+				messages.map(m => ({
+					...m,
+					type: INVENTORY_NOTIFICATION_TYPE,
+					userId,
+				}))
+			)
+		)
+	}
+
+	await Promise.all([
+		lowStock.length > 0 &&
+			inventoryQueries.markAlerted(
+				lowStock.map(lot => lot.id),
+				'lowStockAlertedAt',
+				now
+			),
+		nearExpiry.length > 0 &&
+			inventoryQueries.markAlerted(
+				nearExpiry.map(lot => lot.id),
+				'expiryAlertedAt',
+				now
+			),
+	])
+
+	return { lowStock: lowStock.length, nearExpiry: nearExpiry.length }
+}
+
+// ==================== HELPER METHODS ====================
+
+function assertLotUsable(
+	lot: {
+		expiryDate: Date
+		isActive: boolean
+		lotNumber: string
+		quantityOnHand: number
+		vaccineName: string
+	},
+	vaccineName: string,
+	validFrom: Date
+) {
+	if (
+		normalizeVaccineName(lot.vaccineName) !== normalizeVaccineName(vaccineName)
+	) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `Lot ${lot.lotNumber} is for ${lot.vaccineName}, not ${vaccineName}`,
+		})
+	}
+
+	if (lot.expiryDate < validFrom) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `Lot ${lot.lotNumber} expired on ${format(lot.expiryDate, 'dd MMM yyyy')}`,
+		})
+	}
+
+	if (!lot.isActive || lot.quantityOnHand <= 0) {
+		throw new TRPCError({
+			code: 'CONFLICT',
+			message: `Lot ${lot.lotNumber} has no stock available`,
+		})
+	}
+}
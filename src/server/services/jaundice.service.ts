@@ -0,0 +1,325 @@
+/**
+ * 🟡 JAUNDICE MODULE - SERVICE LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Neonatal bilirubin (TSB / TcB) measurements with age in hours
+ * - Hour-specific nomogram risk zone, phototherapy and exchange thresholds
+ *   by gestational age and risk factors, and the recheck time
+ * - Nomogram / threshold table configuration, limited to system admins
+ * - NO direct Prisma calls
+ */
+
+import { TRPCError } from '@trpc/server'
+import { addHours, differenceInHours } from 'date-fns'
+
+import type {
+	RecordBilirubinInput,
+	SaveBilirubinTableInput,
+} from '@/schemas/jaundice.schema'
+import { jaundiceQueries } from '@/server/db/queries/jaundice.query'
+import {
+	assessBilirubin,
+	BILIRUBIN_UMOL_PER_MG_DL,
+	matchingCurves,
+	validateBilirubinTable,
+} from '@/utils/bilirubin'
+
+import { validateClinicAccess, validateSystemAdmin } from '../utils'
+
+type BilirubinTable = NonNullable<
+	Awaited<ReturnType<typeof jaundiceQueries.findTableById>>
+>
+
+// Neonatal period the nomogram and thresholds are used in
+const MAX_AGE_HOURS = 14 * 24
+
+// ==================== QUERY METHODS ====================
+
+export async function getBilirubinTables(includeInactive = false) {
+	return jaundiceQueries.findTables(includeInactive)
+}
+
+/**
+ * Table with its curves and zones
+ */
+export async function getBilirubinTable(id: string) {
+	const table = await jaundiceQueries.findTableById(id)
+
+	if (!table) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Bilirubin table not found',
+		})
+	}
+
+	return table
+}
+
+/**
+ * Measurements oldest first, with the nomogram and the treatment curves
+ * for the patient's gestational age and latest risk factors, to plot them
+ */
+export async function getPatientBilirubin(patientId: string, clinicId: string) {
+	const patient = await getPatient(patientId, clinicId)
+	const measurements = await jaundiceQueries.findMeasurementsByPatient(
+		patient.id
+	)
+	const latest = measurements.at(-1)
+
+	const table = latest
+		? await getBilirubinTable(latest.tableId)
+		: await jaundiceQueries.findActiveTable()
+	if (!table) {
+		return { chart: null, latest: null, measurements }
+	}
+
+	const gestationalAgeWeeks =
+		latest?.gestationalAgeWeeks ?? completedWeeks(patient.gestationalAgeWeeks)
+	const hasRiskFactors = (latest?.riskFactors.length ?? 0) > 0
+	const toSeries = (curve: BilirubinTable['curves'][number]) => ({
+		label: curve.label,
+		percentile: curve.percentile,
+		points: curve.hours.map((hours, i) => ({ hours, value: curve.values[i] })),
+	})
+
+	return {
+		chart: {
+			exchange:
+				gestationalAgeWeeks === null
+					? []
+					: matchingCurves(
+							table.curves,
+							'EXCHANGE',
+							gestationalAgeWeeks,
+							hasRiskFactors
+						).map(toSeries),
+			nomogram: table.curves
+				.filter(curve => curve.kind === 'NOMOGRAM')
+				.map(toSeries),
+			phototherapy:
+				gestationalAgeWeeks === null
+					? []
+					: matchingCurves(
+							table.curves,
+							'PHOTOTHERAPY',
+							gestationalAgeWeeks,
+							hasRiskFactors
+						).map(toSeries),
+			points: measurements.map(m => ({
+				hours: m.ageHours,
+				method: m.method,
+				riskZone: m.riskZone,
+				value: m.value,
+			})),
+			table: { code: table.code, name: table.name, version: table.version },
+		},
+		latest: latest ?? null,
+		measurements,
+	}
+}
+
+// ==================== MUTATION METHODS ====================
+
+/**
+ * Record a serum or transcutaneous bilirubin and assess it against the
+ * nomogram and treatment thresholds
+ */
+export async function recordBilirubin(
+	input: RecordBilirubinInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+
+	// 1. Validate patient, table and encounter
+	const patient = await getPatient(input.patientId, clinicId)
+	const table = await getAssessmentTable(input.tableId)
+
+	if (input.encounterId) {
+		const encounter = await jaundiceQueries.findEncounter(input.encounterId)
+		if (
+			!encounter ||
+			encounter.isDeleted ||
+			encounter.clinicId !== clinicId ||
+			encounter.patientId !== patient.id
+		) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: 'Encounter does not belong to this patient',
+			})
+		}
+	}
+
+	// 2. Age, gestation and risk factors
+	const ageHours =
+		input.ageHours ?? differenceInHours(input.measuredAt, patient.dateOfBirth)
+	if (ageHours < 0 || ageHours > MAX_AGE_HOURS) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `Bilirubin is assessed in the first ${MAX_AGE_HOURS} hours; the baby is ${ageHours} hours old`,
+		})
+	}
+
+	const gestationalAgeWeeks =
+		input.gestationalAgeWeeks ?? completedWeeks(patient.gestationalAgeWeeks)
+	if (gestationalAgeWeeks === null) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message:
+				'Gestational age is needed to choose the treatment thresholds; record it on the patient or the measurement',
+		})
+	}
+
+	const unknown = input.riskFactors.filter(
+		code => !table.riskFactorCodes.includes(code)
+	)
+	if (unknown.length > 0) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `Unknown risk factor ${unknown.join(', ')}`,
+		})
+	}
+
+	// 3. Assess
+	const value =
+		input.unit === 'UMOL_L'
+			? Math.round((input.value / BILIRUBIN_UMOL_PER_MG_DL) * 10) / 10
+			: input.value
+	const assessment = assessBilirubin(table, {
+		ageHours,
+		gestationalAgeWeeks,
+		method: input.method,
+		riskFactors: input.riskFactors,
+		value,
+	})
+
+	// 4. Save
+	return jaundiceQueries.createMeasurement(
+		{
+			...assessment,
+			ageHours,
+			clinicId,
+			encounterId: input.encounterId,
+			gestationalAgeWeeks,
+			measuredAt: input.measuredAt,
+			method: input.method,
+			notes: input.notes,
+			patientId: patient.id,
+			recheckAt:
+				assessment.recheckHours === null
+					? null
+					: addHours(input.measuredAt, assessment.recheckHours),
+			recordedById: userId,
+			riskFactors: input.riskFactors,
+			tableId: table.id,
+			value,
+		},
+		{
+			action: 'CREATE',
+			clinicId,
+			details: `Recorded ${input.method} ${value} mg/dL at ${ageHours} h for ${patient.firstName} ${patient.lastName}`,
+			level: assessment.phototherapyIndicated ? 'WARNING' : 'INFO',
+			metadata: {
+				exchangeIndicated: assessment.exchangeIndicated,
+				phototherapyIndicated: assessment.phototherapyIndicated,
+				riskZone: assessment.riskZone,
+				table: table.code,
+			},
+			model: 'BilirubinMeasurement',
+			userId,
+		}
+	)
+}
+
+/**
+ * Create or update a table from its definition. Tables are shared by
+ * every clinic, so only system admins may save them.
+ */
+export async function saveBilirubinTable(
+	input: SaveBilirubinTableInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	await validateSystemAdmin(userId)
+
+	const errors = validateBilirubinTable(input)
+	if (errors.length > 0) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: errors.join('; '),
+		})
+	}
+
+	const existing = await jaundiceQueries.findTableByCode(input.code)
+	const { curves, zones, ...data } = input
+
+	return jaundiceQueries.saveTable(
+		data,
+		curves.map(curve => ({
+			...curve,
+			maxGestationalAgeWeeks: curve.maxGestationalAgeWeeks ?? null,
+			minGestationalAgeWeeks: curve.minGestationalAgeWeeks ?? null,
+			percentile: curve.percentile ?? null,
+			withRiskFactors: curve.withRiskFactors ?? null,
+		})),
+		zones.map(zone => ({
+			...zone,
+			minPercentile: zone.minPercentile ?? null,
+			recheckHours: zone.recheckHours ?? null,
+		})),
+		{
+			action: existing ? 'UPDATE' : 'CREATE',
+			clinicId,
+			details: `${existing ? 'Updated' : 'Created'} bilirubin table ${input.name} (${input.code} v${input.version})`,
+			level: 'INFO',
+			metadata: { curves: curves.length, zones: zones.length },
+			model: 'BilirubinTable',
+			userId,
+		}
+	)
+}
+
+// ==================== HELPER METHODS ====================
+
+async function getPatient(patientId: string, clinicId: string) {
+	const patient = await jaundiceQueries.findPatient(patientId, clinicId)
+
+	if (!patient) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Patient not found or does not belong to this clinic',
+		})
+	}
+
+	return patient
+}
+
+/**
+ * The chosen table, or the active one
+ */
+async function getAssessmentTable(tableId?: string) {
+	const table = tableId
+		? await getBilirubinTable(tableId)
+		: await jaundiceQueries.findActiveTable()
+
+	if (!table) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'No active bilirubin table; seed or save one first',
+		})
+	}
+
+	if (!table.isActive) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `${table.name} is no longer in use`,
+		})
+	}
+
+	return table
+}
+
+function completedWeeks(gestationalAgeWeeks: number | null) {
+	return gestationalAgeWeeks === null ? null : Math.floor(gestationalAgeWeeks)
+}
@@ -4,16 +4,23 @@
 import { TRPCError } from '@trpc/server'
 import { cacheLife, cacheTag } from 'next/cache'
 
-import type {
-	DiagnosisCreateInput,
-	DiagnosisUpdateInput,
-	LabTestCreateInput,
-	LabTestUpdateInput,
-	VitalSignsCreateInput,
-	VitalSignsUpdateInput,
+import {
+	type DiagnosisCreateInput,
+	type DiagnosisUpdateInput,
+	type LabTestCreateInput,
+	type LabTestUpdateInput,
+	PEWS_NOTIFICATION_TYPE,
+	type VitalSignsCreateInput,
+	type VitalSignsUpdateInput,
 } from '@/schemas'
 import { medicalQueries } from '@/server/db/queries/medical.query'
 import type { LabStatus } from '@/types'
+import {
+	calculatePews,
+	flagVitalSigns,
+	type PewsObservations,
+	type PewsScore,
+} from '@/utils/vital-signs'
 
 import { cacheHelpers } from '../../lib/cache/helpers'
 import { CACHE_PROFILES } from '../../lib/cache/profiles'
@@ -690,22 +697,41 @@ export async function createVitalSigns(
 		ageMonths = Math.floor(ageDays / 30.44) // Approximate months
 	}
 
+	// Age-banded flags and PEWS
+	const { flags, pews } = assessVitalSigns(input, ageDays, ageMonths)
+	const notifications = pews?.urgent
+		? await buildPewsNotifications(input.medicalId ?? '', pews, flags)
+		: []
+
 	// Create vital signs
-	const vitalSigns = await medicalQueries.createVitalSigns({
-		ageDays,
-		ageMonths,
-		bodyTemperature: input.bodyTemperature,
-		diastolic: input.diastolic,
-		gender: input.gender || medicalRecord.patient?.gender,
-		heartRate: input.heartRate,
-		medicalId: input.medicalId ?? '',
-		notes: input.notes,
-		oxygenSaturation: input.oxygenSaturation,
-		patientId: input.patientId,
-		recordedAt: input.recordedAt || new Date(),
-		respiratoryRate: input.respiratoryRate,
-		systolic: input.systolic,
-	})
+	const vitalSigns = await medicalQueries.createVitalSigns(
+		{
+			ageDays,
+			ageMonths,
+			behavior: input.behavior,
+			bodyTemperature: input.bodyTemperature,
+			capillaryRefillSeconds: input.capillaryRefillSeconds,
+			diastolic: input.diastolic,
+			flags,
+			gender: input.gender || medicalRecord.patient?.gender,
+			heartRate: input.heartRate,
+			medicalId: input.medicalId ?? '',
+			notes: input.notes,
+			oxygenFlowLpm: input.oxygenFlowLpm,
+			oxygenSaturation: input.oxygenSaturation,
+			patientId: input.patientId,
+			pewsBehavior: pews?.behavior ?? null,
+			pewsCardiovascular: pews?.cardiovascular ?? null,
+			pewsRespiratory: pews?.respiratory ?? null,
+			pewsScore: pews?.total ?? null,
+			recordedAt: input.recordedAt || new Date(),
+			respiratoryEffort: input.respiratoryEffort,
+			respiratoryRate: input.respiratoryRate,
+			skinColor: input.skinColor,
+			systolic: input.systolic,
+		},
+		notifications
+	)
 
 	// Cache invalidation
 	cacheHelpers.patient.invalidateVitals(input.patientId, medicalRecord.clinicId)
@@ -743,15 +769,71 @@ export async function updateVitalSigns(
 	// Verify clinic access
 	await validateClinicAccess(clinicId, userId)
 
-	const vitalSigns = await medicalQueries.updateVitalSigns(input.id, {
-		bodyTemperature: input.bodyTemperature,
-		diastolic: input.diastolic,
-		heartRate: input.heartRate,
-		notes: input.notes,
-		oxygenSaturation: input.oxygenSaturation,
-		respiratoryRate: input.respiratoryRate,
-		systolic: input.systolic,
-	})
+	// Re-assess the corrected set; notify only when it becomes urgent
+	const ageDays = existing.ageDays ?? undefined
+	const ageMonths = existing.ageMonths ?? undefined
+	const observations: PewsObservations = {
+		behavior: input.behavior !== undefined ? input.behavior : existing.behavior,
+		bodyTemperature:
+			input.bodyTemperature !== undefined
+				? input.bodyTemperature
+				: existing.bodyTemperature,
+		capillaryRefillSeconds:
+			input.capillaryRefillSeconds !== undefined
+				? input.capillaryRefillSeconds
+				: existing.capillaryRefillSeconds,
+		heartRate:
+			input.heartRate !== undefined ? input.heartRate : existing.heartRate,
+		oxygenFlowLpm:
+			input.oxygenFlowLpm !== undefined
+				? input.oxygenFlowLpm
+				: existing.oxygenFlowLpm,
+		oxygenSaturation:
+			input.oxygenSaturation !== undefined
+				? input.oxygenSaturation
+				: existing.oxygenSaturation,
+		respiratoryEffort:
+			input.respiratoryEffort !== undefined
+				? input.respiratoryEffort
+				: existing.respiratoryEffort,
+		respiratoryRate:
+			input.respiratoryRate !== undefined
+				? input.respiratoryRate
+				: existing.respiratoryRate,
+		skinColor:
+			input.skinColor !== undefined ? input.skinColor : existing.skinColor,
+		systolic: input.systolic !== undefined ? input.systolic : existing.systolic,
+	}
+	const { flags, pews } = assessVitalSigns(observations, ageDays, ageMonths)
+	const wasUrgent = assessVitalSigns(existing, ageDays, ageMonths).pews?.urgent
+	const notifications =
+		pews?.urgent && !wasUrgent
+			? await buildPewsNotifications(existing.medicalId, pews, flags)
+			: []
+
+	const vitalSigns = await medicalQueries.updateVitalSigns(
+		input.id,
+		{
+			behavior: input.behavior,
+			bodyTemperature: input.bodyTemperature,
+			capillaryRefillSeconds: input.capillaryRefillSeconds,
+			diastolic: input.diastolic,
+			flags,
+			heartRate: input.heartRate,
+			notes: input.notes,
+			oxygenFlowLpm: input.oxygenFlowLpm,
+			oxygenSaturation: input.oxygenSaturation,
+			pewsBehavior: pews?.behavior ?? null,
+			pewsCardiovascular: pews?.cardiovascular ?? null,
+			pewsRespiratory: pews?.respiratory ?? null,
+			pewsScore: pews?.total ?? null,
+			respiratoryEffort: input.respiratoryEffort,
+			respiratoryRate: input.respiratoryRate,
+			skinColor: input.skinColor,
+			systolic: input.systolic,
+		},
+		notifications
+	)
 
 	// Cache invalidation
 	cacheHelpers.patient.invalidateVitals(existing.patientId, clinicId)
@@ -762,6 +844,54 @@ export async function updateVitalSigns(
 
 // ==================== HELPER METHODS ====================
 
+/**
+ * Flags against the age band's normal ranges, and the PEWS. Without an
+ * age the band is unknown, so nothing is flagged or scored.
+ */
+function assessVitalSigns(
+	observations: PewsObservations,
+	ageDays?: number,
+	ageMonths?: number
+): { flags: string[]; pews: PewsScore | null } {
+	const bandAgeDays =
+		ageDays ??
+		(ageMonths === undefined ? undefined : Math.floor(ageMonths * 30.44))
+	if (bandAgeDays === undefined) {
+		return { flags: [], pews: null }
+	}
+
+	return {
+		flags: flagVitalSigns(observations, bandAgeDays),
+		pews: calculatePews(observations, bandAgeDays),
+	}
+}
+
+/**
+ * Urgent notification to the doctor responsible for the appointment
+ */
+async function buildPewsNotifications(
+	medicalId: string,
+	pews: PewsScore,
+	flags: string[]
+) {
+	const recipient = await medicalQueries.findVitalSignsRecipient(medicalId)
+	const patient = recipient?.patient
+	const userId = recipient?.appointment?.doctor?.userId ?? patient?.doctorId
+	if (!(patient && userId)) return []
+
+	const { firstName, lastName } = patient
+	const findings = flags.length > 0 ? `; ${flags.join(', ')}` : ''
+
+	return [
+		{
+			message: `${firstName} ${lastName}: PEWS ${pews.total} (behaviour ${pews.behavior}, cardiovascular ${pews.cardiovascular}, respiratory ${pews.respiratory})${findings}`,
+			title: `Urgent: PEWS ${pews.total}`,
+			type: PEWS_NOTIFICATION_TYPE,
+			userId,
+		},
+	]
+}
+
 export async function verifyPatientAccess(patientId: string, clinicId: string) {
 	const patient = await medicalQueries.checkPatientExists(patientId, clinicId)
 	if (!patient) {
@@ -0,0 +1,406 @@
+/**
+ * 🟡 NUTRITION MODULE - SERVICE LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Outpatient therapeutic feeding programme (OTP) for children with
+ *   severe or moderate acute malnutrition: enrol, follow up, discharge
+ * - Weight gain per visit and WHO discharge criteria
+ * - Follow-up measurements are saved as growth records
+ * - NO direct Prisma calls
+ */
+
+import { TRPCError } from '@trpc/server'
+
+import type {
+	OtpDischargeInput,
+	OtpEnrollInput,
+	OtpFollowUpInput,
+	OtpListInput,
+} from '@/schemas/nutrition.schema'
+import { nutritionQueries } from '@/server/db/queries/nutrition.query'
+import {
+	checkOtpDischarge,
+	classifyWeightGain,
+	type OtpMeasurement,
+	weightGainGPerKgPerDay,
+} from '@/utils/malnutrition'
+
+import { validateClinicAccess } from '../utils'
+import { createGrowthRecord } from './growth.service'
+
+type Decimalish = { toNumber(): number } | null
+
+interface OtpRecord {
+	bilateralOedema: boolean | null
+	date: Date
+	muac: Decimalish
+	weight: number | null
+	weightForLengthZ: Decimalish
+}
+
+// ==================== QUERY METHODS ====================
+
+export async function getPatientOtp(patientId: string, clinicId: string) {
+	await getPatient(patientId, clinicId)
+	return nutritionQueries.findEnrollmentsByPatient(patientId)
+}
+
+/**
+ * Clinic worklist of OTP enrolments by status, with each child's last
+ * visit and weight gain band
+ */
+export async function getOtpWorklist(input: OtpListInput, clinicId: string) {
+	const [enrollments, total] = await nutritionQueries.findEnrollmentsByClinic(
+		clinicId,
+		input.status,
+		(input.page - 1) * input.limit,
+		input.limit
+	)
+
+	return {
+		data: enrollments.map(({ visits, ...enrollment }) => {
+			const lastGain = visits[0]?.weightGainGKgDay ?? null
+			return {
+				...enrollment,
+				lastVisitDate: visits[0]?.date ?? null,
+				lastWeightGain: lastGain,
+				lastWeightGainBand:
+					lastGain === null ? null : classifyWeightGain(lastGain),
+			}
+		}),
+		page: input.page,
+		total,
+		totalPages: Math.ceil(total / input.limit),
+	}
+}
+
+/**
+ * Enrolment with its visits, weight gain since admission and whether
+ * the discharge criteria are met
+ */
+export async function getOtpEnrollment(id: string, clinicId: string) {
+	const enrollment = await getEnrollmentById(id, clinicId)
+	const admission = await getAdmissionRecord(enrollment.admissionRecordId)
+
+	const visits = enrollment.visits.map(visit => {
+		const gain = visit.weightGainGKgDay ?? null
+		return {
+			...visit,
+			growthRecord: {
+				...visit.growthRecord,
+				muac: visit.growthRecord.muac?.toNumber() ?? null,
+				weightForLengthZ:
+					visit.growthRecord.weightForLengthZ?.toNumber() ?? null,
+			},
+			weightGainBand: gain === null ? null : classifyWeightGain(gain),
+			weightGainGKgDay: gain,
+		}
+	})
+
+	const latest = visits.findLast(visit => visit.growthRecord.weight !== null)
+	const { admissionWeight } = enrollment
+	const gainSinceAdmission = latest
+		? weightGainGPerKgPerDay(
+				admissionWeight,
+				latest.growthRecord.weight as number,
+				enrollment.admittedAt,
+				latest.date
+			)
+		: null
+
+	return {
+		...enrollment,
+		discharge: checkOtpDischarge(
+			toOtpMeasurement(admission),
+			enrollment.visits.map(visit => toOtpMeasurement(visit.growthRecord))
+		),
+		progress: {
+			currentWeight: latest?.growthRecord.weight ?? admissionWeight,
+			gainSinceAdmission,
+			gainSinceAdmissionBand:
+				gainSinceAdmission === null
+					? null
+					: classifyWeightGain(gainSinceAdmission),
+		},
+		visits,
+	}
+}
+
+// ==================== MUTATION METHODS ====================
+
+/**
+ * Admit a child to the OTP on a growth record classified as SAM or MAM
+ */
+export async function enrollPatient(
+	input: OtpEnrollInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+
+	// 1. Validate patient and admission record
+	const patient = await getPatient(input.patientId, clinicId)
+	const record = await getAdmissionRecord(input.admissionRecordId)
+
+	if (record.patientId !== patient.id || record.clinicId !== clinicId) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Growth record does not belong to this patient',
+		})
+	}
+
+	if (
+		record.acuteMalnutrition !== 'SAM' &&
+		record.acuteMalnutrition !== 'MAM'
+	) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message:
+				'Only measurements classified as severe or moderate acute malnutrition can be enrolled',
+		})
+	}
+
+	if (!record.weight) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'The admission measurement must include a weight',
+		})
+	}
+
+	// 2. One active enrolment per patient
+	const active = await nutritionQueries.findActiveEnrollment(patient.id)
+	if (active) {
+		throw new TRPCError({
+			code: 'CONFLICT',
+			message: `${patient.firstName} ${patient.lastName} is already enrolled in the feeding programme`,
+		})
+	}
+
+	// 3. Save
+	return nutritionQueries.createEnrollment(
+		{
+			admissionRecordId: record.id,
+			admissionStatus: record.acuteMalnutrition,
+			admissionWeight: record.weight,
+			admittedAt: record.date,
+			clinicId,
+			enrolledById: userId,
+			patientId: patient.id,
+		},
+		{
+			action: 'CREATE',
+			clinicId,
+			details: `Enrolled ${patient.firstName} ${patient.lastName} in the outpatient therapeutic feeding programme (${record.acuteMalnutrition})`,
+			level: 'INFO',
+			metadata: {
+				admissionRecordId: record.id,
+				admissionStatus: record.acuteMalnutrition,
+			},
+			model: 'TherapeuticFeedingEnrollment',
+			userId,
+		}
+	)
+}
+
+/**
+ * Record a follow-up visit: the measurements are saved as a growth record
+ * and the weight gain is taken from the previous visit (or admission)
+ */
+export async function recordOtpFollowUp(
+	input: OtpFollowUpInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+
+	// 1. Validate enrolment
+	const enrollment = await getEnrollmentById(input.enrollmentId, clinicId)
+
+	if (enrollment.status !== 'ACTIVE') {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Follow-ups can only be recorded for active enrolments',
+		})
+	}
+
+	if (input.date <= enrollment.admittedAt) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Follow-up date must be after the admission date',
+		})
+	}
+
+	// 2. Previous weight for the gain
+	const previous = await nutritionQueries.findLatestVisit(enrollment.id)
+	const previousWeight =
+		previous?.growthRecord.weight ?? enrollment.admissionWeight
+	const previousDate = previous?.growthRecord.weight
+		? previous.date
+		: enrollment.admittedAt
+
+	// 3. Measurements, classified like any other growth record
+	const growthRecord = await createGrowthRecord(
+		{
+			bilateralOedema: input.bilateralOedema,
+			clinicId,
+			date: input.date,
+			height: input.height,
+			muac: input.muac,
+			notes: input.notes,
+			patientId: enrollment.patientId,
+			weight: input.weight,
+		},
+		userId
+	)
+
+	const weightGain = weightGainGPerKgPerDay(
+		previousWeight,
+		input.weight,
+		previousDate,
+		input.date
+	)
+
+	// 4. Save
+	const visit = await nutritionQueries.createVisit(
+		{
+			date: input.date,
+			enrollmentId: enrollment.id,
+			growthRecordId: growthRecord.id,
+			notes: input.notes,
+			recordedById: userId,
+			rutfSachets: input.rutfSachets,
+			weightGainGKgDay: weightGain,
+		},
+		{
+			action: 'CREATE',
+			clinicId,
+			details: `Recorded OTP follow-up for ${enrollment.patient.firstName} ${enrollment.patient.lastName}`,
+			level: 'INFO',
+			metadata: {
+				enrollmentId: enrollment.id,
+				growthRecordId: growthRecord.id,
+				weightGainGKgDay: weightGain,
+			},
+			model: 'TherapeuticFeedingVisit',
+			userId,
+		}
+	)
+
+	return {
+		...visit,
+		malnutrition: growthRecord.malnutrition,
+		patientId: enrollment.patientId,
+		weightGainBand: weightGain === null ? null : classifyWeightGain(weightGain),
+	}
+}
+
+/**
+ * Close an enrolment. CURED is only accepted once the WHO discharge
+ * criteria are met.
+ */
+export async function dischargeOtp(
+	input: OtpDischargeInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+
+	const enrollment = await getEnrollmentById(input.enrollmentId, clinicId)
+
+	if (enrollment.status !== 'ACTIVE') {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Enrolment is already closed',
+		})
+	}
+
+	if (input.status === 'CURED') {
+		const admission = await getAdmissionRecord(enrollment.admissionRecordId)
+		const check = checkOtpDischarge(
+			toOtpMeasurement(admission),
+			enrollment.visits.map(visit => toOtpMeasurement(visit.growthRecord))
+		)
+
+		if (!check.met) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: `Discharge criteria not met: ${check.outstanding.join('; ')}`,
+			})
+		}
+	}
+
+	return nutritionQueries.updateEnrollment(
+		enrollment.id,
+		{
+			dischargedAt: new Date(),
+			dischargeNotes: input.dischargeNotes,
+			status: input.status,
+		},
+		{
+			action: 'UPDATE',
+			clinicId,
+			details: `Discharged ${enrollment.patient.firstName} ${enrollment.patient.lastName} from the feeding programme as ${input.status}`,
+			level: 'INFO',
+			metadata: { status: input.status, visits: enrollment.visits.length },
+			model: 'TherapeuticFeedingEnrollment',
+			userId,
+		}
+	)
+}
+
+// ==================== HELPER METHODS ====================
+
+async function getPatient(patientId: string, clinicId: string) {
+	const patient = await nutritionQueries.findPatient(patientId, clinicId)
+
+	if (!patient) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Patient not found or does not belong to this clinic',
+		})
+	}
+
+	return patient
+}
+
+async function getAdmissionRecord(id: string) {
+	const record = await nutritionQueries.findGrowthRecord(id)
+
+	if (!record) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Growth record not found',
+		})
+	}
+
+	return record
+}
+
+async function getEnrollmentById(id: string, clinicId: string) {
+	const enrollment = await nutritionQueries.findEnrollmentById(id)
+
+	if (!enrollment) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Enrolment not found',
+		})
+	}
+
+	if (enrollment.clinicId !== clinicId) {
+		throw new TRPCError({
+			code: 'FORBIDDEN',
+			message: 'Access denied to this enrolment',
+		})
+	}
+
+	return enrollment
+}
+
+function toOtpMeasurement(record: OtpRecord): OtpMeasurement {
+	return {
+		bilateralOedema: record.bilateralOedema,
+		date: record.date,
+		muacCm: record.muac?.toNumber() ?? null,
+		weightForHeightZ: record.weightForLengthZ?.toNumber() ?? null,
+	}
+}
@@ -0,0 +1,892 @@
+/**
+ * 🟡 PRESCRIPTION MODULE - SERVICE LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Prescribing workflow: create, update, cancel, renew
+ * - Per-item dose checks against DoseGuideline (latest weight + age)
+ * - Drug-allergy checks against the patient's recorded allergies
+ * - Drug-drug interaction checks against the local interaction table
+ * - Override reasons for out-of-range doses, allergy matches and
+ *   contraindicated interactions, audited per item
+ * - Infusion preparation volumes, pump rates and printable labels
+ * - NO direct Prisma calls
+ * - Uses cache helpers for invalidation
+ */
+
+import { TRPCError } from '@trpc/server'
+import { differenceInDays } from 'date-fns'
+
+import { renderInfusionLabel } from '@/lib/pdf/infusion-label'
+import type { Prisma } from '@/prisma/browser'
+import type {
+	InfusionPreparationInput,
+	PatientDoseCalculationInput,
+	PrescriptionCancelInput,
+	PrescriptionCreateInput,
+	PrescriptionDoseCheckInput,
+	PrescriptionItemInput,
+	PrescriptionRenewInput,
+	PrescriptionUpdateInput,
+} from '@/schemas/prescription.schema'
+import { prescriptionQueries } from '@/server/db/queries/prescription.query'
+import { type AllergyWarning, checkDrugAllergies } from '@/utils/allergy'
+import {
+	calculateGuidelineDose,
+	type DoseContext,
+	type DoseWarning,
+	matchDoseGuidelines,
+	postmenstrualAgeWeeks,
+	validateDoseAgainstGuidelines,
+	weightMaxAgeDays,
+} from '@/utils/dose'
+import {
+	calculateContinuousInfusion,
+	calculateIntermittentInfusion,
+	isContinuousDoseUnit,
+} from '@/utils/infusion'
+import { checkInteractions, type InteractionWarning } from '@/utils/interaction'
+
+import { cacheHelpers } from '../../lib/cache/helpers'
+import { validateClinicAccess } from '../utils'
+import * as allergyService from './allergy.service'
+
+const ACTIVE_STATUS = 'active'
+
+// ==================== QUERY METHODS ====================
+
+export async function getPrescriptionById(id: string, clinicId: string) {
+	const prescription = await prescriptionQueries.findById(id)
+
+	if (!prescription) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Prescription not found',
+		})
+	}
+
+	if ((prescription.clinicId ?? prescription.patient.clinicId) !== clinicId) {
+		throw new TRPCError({
+			code: 'FORBIDDEN',
+			message: 'Access denied to this prescription',
+		})
+	}
+
+	return prescription
+}
+
+export async function getPatientPrescriptions(
+	patientId: string,
+	clinicId: string,
+	options?: { status?: string; limit?: number }
+) {
+	await getDosingPatient(patientId, clinicId)
+	return prescriptionQueries.findByPatient(patientId, options)
+}
+
+/**
+ * Dry-run of the dose check for a prescription draft
+ */
+export async function checkPrescriptionDoses(
+	input: PrescriptionDoseCheckInput,
+	clinicId: string
+) {
+	const patient = await getDosingPatient(input.patientId, clinicId)
+	return evaluateItems(patient, input.items)
+}
+
+/**
+ * Weight-based dose ranges for a patient from their chart: latest
+ * recorded weight, postnatal age and gestational age when known.
+ * Returns every guideline that fits, not just the first one.
+ */
+export async function calculatePatientDose(
+	input: PatientDoseCalculationInput,
+	clinicId: string
+) {
+	// 1. Patient context
+	const patient = await getDosingPatient(input.patientId, clinicId)
+	const [[drug], context] = await Promise.all([
+		prescriptionQueries.findDrugsWithGuidelines([input.drugId]),
+		getDosingContext(patient),
+	])
+
+	if (!drug) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Drug not found',
+		})
+	}
+
+	if (context.weightKg === null) {
+		throw new TRPCError({
+			code: 'PRECONDITION_FAILED',
+			message:
+				'No weight on record for this patient - record a growth measurement first',
+		})
+	}
+
+	// 2. Guideline selection
+	const indication = input.indication?.toLowerCase()
+	const candidates = indication
+		? drug.guidelines.filter(g =>
+				g.clinicalIndication.toLowerCase().includes(indication)
+			)
+		: drug.guidelines
+	const matches = matchDoseGuidelines(candidates, context, input.route)
+
+	if (matches.length === 0) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: `No ${drug.name} guideline matches this patient's age${input.route ? ', route' : ''}${indication ? ' and indication' : ''}`,
+		})
+	}
+
+	// 3. Calculate per guideline
+	const weighedDaysAgo = context.weighedAt
+		? differenceInDays(new Date(), context.weighedAt)
+		: null
+	const weightKg = context.weightKg
+
+	return {
+		drug: { id: drug.id, name: drug.name },
+		guidelines: matches.map(g => ({
+			...calculateGuidelineDose(g, weightKg),
+			clinicalIndication: g.clinicalIndication,
+			frequency: g.frequencyDays,
+			guidelineId: g.id,
+			preparation: {
+				diluent: g.compatibilityDiluent,
+				finalConcentrationMgMl: g.finalConcentrationMgMl,
+				minInfusionTimeMin: g.minInfusionTimeMin,
+				stockConcentrationMgMl: g.stockConcentrationMgMl,
+			},
+			route: g.route,
+		})),
+		patient: {
+			gestationalAgeWeeks: context.gestationalAgeWeeks ?? null,
+			id: patient.id,
+			name: `${patient.firstName} ${patient.lastName}`,
+			postmenstrualAgeWeeks: postmenstrualAgeWeeks(context),
+			postnatalAgeDays: context.postnatalAgeDays,
+			weighedAt: context.weighedAt ?? null,
+			weightIsStale:
+				weighedDaysAgo !== null &&
+				weighedDaysAgo > weightMaxAgeDays(context.postnatalAgeDays),
+			weightKg,
+		},
+	}
+}
+
+// ==================== INFUSION METHODS ====================
+
+/**
+ * Turn a prescribed dose into the volumes a nurse draws up
+ * - Intermittent guidelines: mg dose -> stock, diluent and final volume,
+ *   run over at least the guideline's minimum infusion time
+ * - Continuous guidelines (per min / per hr): syringe made up at the final
+ *   concentration, pump rate from the dose rate and the charted weight
+ */
+export async function calculateInfusionPreparation(
+	input: InfusionPreparationInput,
+	clinicId: string
+) {
+	// 1. Patient + guideline
+	const patient = await getDosingPatient(input.patientId, clinicId)
+	const guideline = await prescriptionQueries.findGuidelineById(
+		input.guidelineId
+	)
+
+	if (!guideline?.isActive) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Dose guideline not found or retired',
+		})
+	}
+
+	const stockConcentrationMgMl =
+		input.stockConcentrationMgMl ?? guideline.stockConcentrationMgMl
+	if (!stockConcentrationMgMl) {
+		throw new TRPCError({
+			code: 'PRECONDITION_FAILED',
+			message: `No stock concentration recorded for ${guideline.drug.name} - enter the product concentration`,
+		})
+	}
+
+	const solution = {
+		diluent: guideline.compatibilityDiluent,
+		finalConcentrationMgMl: guideline.finalConcentrationMgMl,
+		stockConcentrationMgMl,
+	}
+	const continuous = isContinuousDoseUnit(guideline.doseUnit)
+	const context = await getDosingContext(patient)
+
+	// 2. Calculate
+	let preparation: ReturnType<typeof calculateIntermittentInfusion>
+	let prescribedDose: string
+
+	if (continuous) {
+		if (input.doseRate === undefined) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: `${guideline.drug.name} is dosed as a continuous infusion - enter the rate in ${guideline.doseUnit}`,
+			})
+		}
+		if (context.weightKg === null) {
+			throw new TRPCError({
+				code: 'PRECONDITION_FAILED',
+				message:
+					'No weight on record for this patient - record a growth measurement first',
+			})
+		}
+
+		preparation = calculateContinuousInfusion({
+			...solution,
+			doseRate: input.doseRate,
+			doseUnit: guideline.doseUnit ?? '',
+			syringeVolumeMl: input.syringeVolumeMl,
+			weightKg: context.weightKg,
+		})
+		prescribedDose = `${input.doseRate} ${guideline.doseUnit}`
+
+		const { maxDosePerKg, minDosePerKg } = guideline
+		if (
+			(minDosePerKg != null && input.doseRate < minDosePerKg) ||
+			(maxDosePerKg != null && input.doseRate > maxDosePerKg)
+		) {
+			preparation.warnings.push(
+				`Rate is outside the guideline range of ${minDosePerKg ?? '?'}-${maxDosePerKg ?? '?'} ${guideline.doseUnit}`
+			)
+		}
+	} else {
+		if (input.doseMg === undefined) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: `Enter the prescribed ${guideline.drug.name} dose in mg`,
+			})
+		}
+
+		preparation = calculateIntermittentInfusion({
+			...solution,
+			doseMg: input.doseMg,
+			infusionTimeMin: input.infusionTimeMin,
+			minInfusionTimeMin: guideline.minInfusionTimeMin,
+		})
+		prescribedDose = `${input.doseMg} mg`
+	}
+
+	return {
+		drug: guideline.drug,
+		guideline: {
+			clinicalIndication: guideline.clinicalIndication,
+			doseUnit: guideline.doseUnit,
+			id: guideline.id,
+			route: guideline.route,
+		},
+		patient: {
+			dateOfBirth: patient.dateOfBirth,
+			id: patient.id,
+			name: `${patient.firstName} ${patient.lastName}`,
+			weightKg: context.weightKg,
+		},
+		prescribedDose,
+		preparation,
+	}
+}
+
+/**
+ * Printable preparation label for the syringe or bag
+ */
+export async function generateInfusionLabel(
+	input: InfusionPreparationInput,
+	clinicId: string
+) {
+	const [calculation, clinic] = await Promise.all([
+		calculateInfusionPreparation(input, clinicId),
+		prescriptionQueries.findClinicForLabel(clinicId),
+	])
+
+	const pdf = await renderInfusionLabel({
+		clinicName: clinic?.name ?? '',
+		drugName: calculation.drug.name,
+		patient: calculation.patient,
+		preparedAt: new Date(),
+		prescribedDose: calculation.prescribedDose,
+		preparation: calculation.preparation,
+		route: calculation.guideline.route,
+	})
+
+	return {
+		data: Buffer.from(pdf).toString('base64'),
+		fileName:
+			`infusion-label-${calculation.drug.name}-${calculation.patient.name}.pdf`
+				.toLowerCase()
+				.replace(/\s+/g, '-'),
+		mimeType: 'application/pdf',
+		preparation: calculation.preparation,
+	}
+}
+
+// ==================== MUTATION METHODS ====================
+
+export async function createPrescription(
+	input: PrescriptionCreateInput,
+	userId: string
+) {
+	// 1. Validate access and references
+	await validateClinicAccess(input.clinicId, userId)
+	const patient = await getDosingPatient(input.patientId, input.clinicId)
+	await assertEncounter(input, input.clinicId)
+	assertDates(input.issuedDate, input.endDate)
+	const doctor = await resolvePrescriber(
+		input.clinicId,
+		userId,
+		input.doctorId,
+		input.encounterId
+	)
+
+	// 2. Dose checks - refuse unresolved out-of-range items
+	const doseCheck = await evaluateItems(patient, input.items)
+	const { items, audits } = applyOverrides(
+		doseCheck.items,
+		input.items,
+		input.clinicId,
+		userId
+	)
+
+	// 3. Create
+	const prescription = await prescriptionQueries.create(
+		{
+			clinicId: input.clinicId,
+			doctorId: doctor.id,
+			encounterId: input.encounterId,
+			endDate: input.endDate,
+			instructions: input.instructions,
+			issuedDate: input.issuedDate,
+			medicalRecordId: input.medicalRecordId,
+			patientId: patient.id,
+			status: ACTIVE_STATUS,
+		},
+		items,
+		audits
+	)
+
+	// 4. Cache invalidation
+	invalidatePrescription(prescription, input.clinicId)
+
+	return { doseCheck, prescription }
+}
+
+export async function updatePrescription(
+	input: PrescriptionUpdateInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	const existing = await getPrescriptionById(input.id, clinicId)
+	assertActive(existing.status)
+	assertDates(existing.issuedDate, input.endDate ?? undefined)
+
+	let doseCheck: Awaited<ReturnType<typeof evaluateItems>> | null = null
+	let replacement: ReturnType<typeof applyOverrides> | null = null
+
+	if (input.items) {
+		const patient = await getDosingPatient(existing.patientId, clinicId)
+		doseCheck = await evaluateItems(patient, input.items, [existing.id])
+		replacement = applyOverrides(doseCheck.items, input.items, clinicId, userId)
+	}
+
+	const prescription = await prescriptionQueries.update(
+		input.id,
+		{
+			...(input.endDate !== undefined && { endDate: input.endDate }),
+			...(input.instructions !== undefined && {
+				instructions: input.instructions,
+			}),
+		},
+		replacement?.items,
+		replacement?.audits ?? []
+	)
+
+	invalidatePrescription(prescription, clinicId)
+
+	return { doseCheck, prescription }
+}
+
+export async function cancelPrescription(
+	input: PrescriptionCancelInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	const existing = await getPrescriptionById(input.id, clinicId)
+	assertActive(existing.status)
+
+	const prescription = await prescriptionQueries.cancel(
+		input.id,
+		input.reason,
+		{
+			action: 'UPDATE',
+			clinicId,
+			details: `Cancelled prescription: ${input.reason}`,
+			level: 'INFO',
+			metadata: { status: 'cancelled' },
+			model: 'Prescription',
+			userId,
+		}
+	)
+
+	invalidatePrescription(prescription, clinicId)
+
+	return prescription
+}
+
+/**
+ * Re-issue a prescription with the same items. Doses are checked again
+ * against today's weight and age, so a renewal can need fresh overrides.
+ */
+export async function renewPrescription(
+	input: PrescriptionRenewInput,
+	clinicId: string,
+	userId: string
+) {
+	// 1. Validate source prescription
+	await validateClinicAccess(clinicId, userId)
+	const original = await getPrescriptionById(input.id, clinicId)
+
+	if (original.status === 'cancelled') {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'A cancelled prescription cannot be renewed',
+		})
+	}
+
+	// 2. Carry the course length over unless a new end date is given
+	const endDate =
+		input.endDate ??
+		(original.endDate
+			? new Date(
+					input.issuedDate.getTime() +
+						(original.endDate.getTime() - original.issuedDate.getTime())
+				)
+			: undefined)
+	assertDates(input.issuedDate, endDate)
+
+	const overrides = new Map(input.overrides.map(o => [o.drugId, o.reason]))
+	const itemInputs: PrescriptionItemInput[] = original.prescribedItems.map(
+		item => ({
+			dosageUnit: item.dosageUnit,
+			dosageValue: item.dosageValue,
+			drugId: item.drugId,
+			drugRoute: item.drugRoute ?? undefined,
+			duration: item.duration,
+			frequency: item.frequency,
+			instructions: item.instructions ?? undefined,
+			overrideReason: overrides.get(item.drugId),
+		})
+	)
+
+	// 3. Dose checks
+	const patient = await getDosingPatient(original.patientId, clinicId)
+	const doseCheck = await evaluateItems(patient, itemInputs, [original.id])
+	const { items, audits } = applyOverrides(
+		doseCheck.items,
+		itemInputs,
+		clinicId,
+		userId
+	)
+	const doctor = await resolvePrescriber(
+		clinicId,
+		userId,
+		undefined,
+		original.encounterId
+	)
+
+	// 4. Create the renewal and close the original
+	const prescription = await prescriptionQueries.create(
+		{
+			clinicId,
+			doctorId: doctor.id,
+			encounterId: original.encounterId,
+			endDate,
+			instructions: original.instructions,
+			issuedDate: input.issuedDate,
+			medicalRecordId: original.medicalRecordId,
+			patientId: original.patientId,
+			renewedFromId: original.id,
+			status: ACTIVE_STATUS,
+		},
+		items,
+		audits
+	)
+
+	invalidatePrescription(original, clinicId)
+	invalidatePrescription(prescription, clinicId)
+
+	return { doseCheck, prescription }
+}
+
+// ==================== HELPER METHODS ====================
+
+/**
+ * Warnings as JSON for the item snapshot; undefined when there are none
+ */
+function warningsJson<T>(
+	warnings: T[] | undefined,
+	toJson: (warning: T) => Prisma.InputJsonObject
+): Prisma.InputJsonValue | undefined {
+	return warnings?.length ? warnings.map(toJson) : undefined
+}
+
+async function getDosingPatient(patientId: string, clinicId: string) {
+	const patient = await prescriptionQueries.findPatientForDosing(
+		patientId,
+		clinicId
+	)
+
+	if (!patient) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Patient not found or does not belong to this clinic',
+		})
+	}
+
+	return patient
+}
+
+/**
+ * Dosing inputs from the chart: latest weight and age at `asOf`
+ */
+async function getDosingContext(
+	patient: {
+		id: string
+		dateOfBirth: Date
+		gestationalAgeWeeks?: number | null
+	},
+	asOf: Date = new Date()
+): Promise<DoseContext> {
+	const weight = await prescriptionQueries.findLatestWeight(patient.id)
+
+	return {
+		gestationalAgeWeeks: patient.gestationalAgeWeeks ?? null,
+		postnatalAgeDays: Math.max(0, differenceInDays(asOf, patient.dateOfBirth)),
+		weighedAt: weight?.date ?? null,
+		weightKg: weight?.weight ?? null,
+	}
+}
+
+/**
+ * Run every item through the dose guidelines of its drug, the patient's
+ * recorded allergies and the interaction table. Prescriptions being
+ * replaced (update, renewal) are left out of the interaction check.
+ */
+async function evaluateItems(
+	patient: {
+		id: string
+		dateOfBirth: Date
+		allergies?: string | null
+		gestationalAgeWeeks?: number | null
+	},
+	items: PrescriptionItemInput[],
+	excludePrescriptionIds: string[] = []
+) {
+	const drugIds = [...new Set(items.map(item => item.drugId))]
+	const now = new Date()
+	const [drugs, context, allergies, activeItems, interactionTable] =
+		await Promise.all([
+			prescriptionQueries.findDrugsWithGuidelines(drugIds),
+			getDosingContext(patient, now),
+			allergyService.getAllergyCheckContext(patient),
+			prescriptionQueries.findActivePrescribedDrugs(
+				patient.id,
+				excludePrescriptionIds
+			),
+			prescriptionQueries.findActiveInteractions(),
+		])
+
+	const byId = new Map(drugs.map(drug => [drug.id, drug]))
+	const missing = drugIds.filter(id => !byId.has(id))
+	if (missing.length > 0) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: `Unknown drug: ${missing.join(', ')}`,
+		})
+	}
+
+	const retired = drugs.filter(drug => !drug.isActive)
+	if (retired.length > 0) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `Retired from the formulary: ${retired.map(d => d.name).join(', ')}`,
+		})
+	}
+
+	// Ranked across the whole draft, most severe first
+	const interactions = checkInteractions(
+		items.flatMap((item, index) => {
+			const drug = byId.get(item.drugId)
+			return drug ? [{ ...drug, itemIndex: index }] : []
+		}),
+		activeItems.map(active => ({
+			...active.drug,
+			prescriptionId: active.prescriptionId,
+		})),
+		interactionTable
+	)
+
+	return {
+		context,
+		interactions,
+		items: items.map((item, index) => {
+			const drug = byId.get(item.drugId)
+			const warnings = validateDoseAgainstGuidelines(
+				item,
+				drug?.guidelines ?? [],
+				context,
+				now
+			)
+			const allergyWarnings = drug
+				? checkDrugAllergies(drug, allergies.records, allergies.allergenClasses)
+				: []
+			const interactionWarnings = interactions.filter(w =>
+				w.drugs.some(party => party.itemIndex === index)
+			)
+
+			return {
+				allergyWarnings,
+				drugId: item.drugId,
+				drugName: drug?.name ?? item.drugId,
+				index,
+				interactionWarnings,
+				requiresOverride: [
+					...warnings,
+					...allergyWarnings,
+					...interactionWarnings,
+				].some(w => w.requiresOverride),
+				warnings,
+			}
+		}),
+	}
+}
+
+/**
+ * Turn checked items into rows to persist. Items needing an override
+ * must carry a reason; each override becomes an audit entry.
+ */
+function applyOverrides(
+	checked: {
+		allergyWarnings: AllergyWarning[]
+		drugId: string
+		drugName: string
+		interactionWarnings: InteractionWarning[]
+		requiresOverride: boolean
+		warnings: DoseWarning[]
+	}[],
+	inputs: PrescriptionItemInput[],
+	clinicId: string,
+	userId: string
+) {
+	const unresolved = checked.filter(
+		(item, index) => item.requiresOverride && !inputs[index]?.overrideReason
+	)
+
+	if (unresolved.length > 0) {
+		throw new TRPCError({
+			code: 'PRECONDITION_FAILED',
+			message: `Prescribing checks require an override reason for ${unresolved
+				.map(
+					item =>
+						`${item.drugName}: ${[
+							...item.allergyWarnings,
+							...item.interactionWarnings,
+							...item.warnings,
+						]
+							.filter(w => w.requiresOverride)
+							.map(w => w.message)
+							.join('; ')}`
+				)
+				.join(' | ')}`,
+		})
+	}
+
+	const now = new Date()
+
+	const items = inputs.map((input, index) => {
+		const check = checked[index]
+		const overridden = Boolean(check?.requiresOverride && input.overrideReason)
+		const { overrideReason, ...item } = input
+
+		return {
+			...item,
+			allergyWarnings: warningsJson(check?.allergyWarnings, w => ({ ...w })),
+			doseWarnings: warningsJson(check?.warnings, w => ({ ...w })),
+			interactionWarnings: warningsJson(check?.interactionWarnings, w => ({
+				...w,
+				drugs: w.drugs.map(drug => ({ ...drug })),
+			})),
+			...(overridden && {
+				overriddenAt: now,
+				overriddenById: userId,
+				overrideReason,
+			}),
+		}
+	})
+
+	const audits = checked.flatMap((check, index) => {
+		const reason = inputs[index]?.overrideReason
+		if (!(check.requiresOverride && reason)) return []
+
+		const overridden = [
+			check.warnings.some(w => w.requiresOverride) && 'dose',
+			check.allergyWarnings.some(w => w.requiresOverride) && 'allergy',
+			check.interactionWarnings.some(w => w.requiresOverride) && 'interaction',
+		].filter(Boolean)
+		const label = overridden.join(' and ').replace(/^./, c => c.toUpperCase())
+
+		return [
+			{
+				action: 'OVERRIDE',
+				clinicId,
+				details: `${label} override for ${check.drugName}: ${reason}`,
+				level: 'WARNING',
+				metadata: {
+					allergyWarnings: check.allergyWarnings
+						.filter(w => w.requiresOverride)
+						.map(w => ({
+							allergen: w.allergen,
+							allergyId: w.allergyId ?? null,
+							code: w.code,
+							severity: w.severity,
+						})),
+					drugId: check.drugId,
+					interactionWarnings: check.interactionWarnings
+						.filter(w => w.requiresOverride)
+						.map(w => ({
+							drugs: w.drugs.map(party => party.name),
+							interactionId: w.interactionId ?? null,
+							severity: w.severity,
+						})),
+					reason,
+					warnings: check.warnings
+						.filter(w => w.requiresOverride)
+						.map(w => ({
+							actual: w.actual ?? null,
+							code: w.code,
+							guidelineId: w.guidelineId ?? null,
+							limit: w.limit ?? null,
+						})),
+				},
+				model: 'PrescribedItem',
+				userId,
+			},
+		]
+	})
+
+	return { audits, items }
+}
+
+async function assertEncounter(
+	input: { encounterId: string; medicalRecordId: string; patientId: string },
+	clinicId: string
+) {
+	const encounter = await prescriptionQueries.findEncounter(input.encounterId)
+
+	if (
+		!encounter ||
+		encounter.patientId !== input.patientId ||
+		(encounter.clinicId && encounter.clinicId !== clinicId)
+	) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Encounter not found for this patient',
+		})
+	}
+
+	if (encounter.medicalId !== input.medicalRecordId) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Medical record does not belong to this encounter',
+		})
+	}
+
+	return encounter
+}
+
+/**
+ * Prescribing doctor: explicit choice, else the user's own doctor
+ * profile, else the doctor of the encounter
+ */
+async function resolvePrescriber(
+	clinicId: string,
+	userId: string,
+	doctorId: string | undefined,
+	encounterId: string
+) {
+	if (doctorId) {
+		const doctor = await prescriptionQueries.findDoctorInClinic(
+			doctorId,
+			clinicId
+		)
+		if (!doctor) {
+			throw new TRPCError({
+				code: 'NOT_FOUND',
+				message: 'Doctor not found in this clinic',
+			})
+		}
+		return doctor
+	}
+
+	const own = await prescriptionQueries.findDoctorByUserId(userId, clinicId)
+	if (own) return own
+
+	const encounter = await prescriptionQueries.findEncounter(encounterId)
+	const fallback = encounter
+		? await prescriptionQueries.findDoctorInClinic(encounter.doctorId, clinicId)
+		: null
+
+	if (!fallback) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'No prescribing doctor could be determined',
+		})
+	}
+
+	return fallback
+}
+
+function assertActive(status: string) {
+	if (status !== ACTIVE_STATUS) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `Only active prescriptions can be changed (status: ${status})`,
+		})
+	}
+}
+
+function assertDates(issuedDate: Date, endDate?: Date | null) {
+	if (endDate && endDate <= issuedDate) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'End date must be after issue date',
+		})
+	}
+}
+
+function invalidatePrescription(
+	prescription: {
+		id: string
+		doctorId: string | null
+		medicalRecordId: string
+		patientId: string
+	},
+	clinicId: string
+) {
+	cacheHelpers.medical.prescription.invalidate(
+		prescription.id,
+		prescription.patientId,
+		prescription.doctorId ?? ''
+	)
+	cacheHelpers.medical.prescription.invalidateMedicalRecord(
+		prescription.medicalRecordId
+	)
+	cacheHelpers.patient.invalidatePrescriptions(prescription.patientId, clinicId)
+}
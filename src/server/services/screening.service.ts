@@ -0,0 +1,370 @@
+/**
+ * 🟡 SCREENING MODULE - SERVICE LAYER
+ *
+ * RESPONSIBILITIES:
+ * - Standardized screening questionnaires (M-CHAT-R/F, ASQ-style domain
+ *   questionnaires): instrument configuration, scoring and risk cut-offs
+ * - Results stored against the patient and encounter
+ * - Screenings due by age, for the patient worklist
+ * - Instrument changes are limited to system admins: every clinic shares
+ *   the instruments
+ * - NO direct Prisma calls
+ */
+
+import { TRPCError } from '@trpc/server'
+import { addDays, differenceInDays } from 'date-fns'
+
+import type {
+	RecordScreeningInput,
+	SaveScreeningInstrumentInput,
+} from '@/schemas/screening.schema'
+import { screeningQueries } from '@/server/db/queries/screening.query'
+import { ageConverters } from '@/utils/date/calculate-age'
+import {
+	dueScreenings,
+	findAnswerErrors,
+	scoreScreening,
+	validateInstrument,
+} from '@/utils/screening'
+import { getGrowthAge } from '@/utils/who-standards'
+
+import { validateClinicAccess, validateSystemAdmin } from '../utils'
+
+type ScreeningPatient = NonNullable<
+	Awaited<ReturnType<typeof screeningQueries.findPatient>>
+>
+
+// Look-ahead for due screenings, same as vaccine auto-scheduling
+const DEFAULT_HORIZON_DAYS = 90
+
+// ==================== QUERY METHODS ====================
+
+export async function getScreeningInstruments(includeInactive = false) {
+	return screeningQueries.findInstruments(includeInactive)
+}
+
+/**
+ * Instrument with its questions and cut-offs, to render the form
+ */
+export async function getScreeningInstrument(id: string) {
+	const instrument = await screeningQueries.findInstrumentById(id)
+
+	if (!instrument) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Screening instrument not found',
+		})
+	}
+
+	return instrument
+}
+
+/**
+ * Results newest first, with the screenings currently due
+ */
+export async function getPatientScreenings(
+	patientId: string,
+	clinicId: string
+) {
+	const patient = await getPatient(patientId, clinicId)
+	const results = await screeningQueries.findResultsByPatient(patient.id)
+
+	return {
+		due: await findDueScreenings(patient, results),
+		results,
+	}
+}
+
+export async function getScreeningResult(id: string, clinicId: string) {
+	const result = await screeningQueries.findResultById(id)
+
+	if (!result) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Screening result not found',
+		})
+	}
+
+	if (result.clinicId !== clinicId) {
+		throw new TRPCError({
+			code: 'FORBIDDEN',
+			message: 'Access denied to this screening result',
+		})
+	}
+
+	return result
+}
+
+/**
+ * Screenings due by age or called for by an earlier result, within the
+ * look-ahead window the vaccine worklist uses
+ */
+export async function getDueScreenings(
+	patientId: string,
+	clinicId: string,
+	horizonDays: number
+) {
+	const patient = await getPatient(patientId, clinicId)
+	const results = await screeningQueries.findResultsByPatient(patient.id)
+
+	return findDueScreenings(patient, results, horizonDays)
+}
+
+// ==================== MUTATION METHODS ====================
+
+/**
+ * Score a completed questionnaire and store it against the patient and,
+ * optionally, the encounter it was administered in
+ */
+export async function recordScreening(
+	input: RecordScreeningInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+
+	// 1. Validate patient, instrument and encounter
+	const patient = await getPatient(input.patientId, clinicId)
+	const instrument = await getScreeningInstrument(input.instrumentId)
+
+	if (!instrument.isActive) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `${instrument.name} is no longer in use`,
+		})
+	}
+
+	if (input.encounterId) {
+		const encounter = await screeningQueries.findEncounter(input.encounterId)
+		if (
+			!encounter ||
+			encounter.isDeleted ||
+			encounter.clinicId !== clinicId ||
+			encounter.patientId !== patient.id
+		) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: 'Encounter does not belong to this patient',
+			})
+		}
+	}
+
+	// 2. Age window
+	const ageMonths = Math.floor(
+		ageConverters.daysToMonths(
+			getScreeningAgeDays(patient, input.administeredAt)
+		)
+	)
+	if (
+		ageMonths < instrument.minAgeMonths ||
+		ageMonths > instrument.maxAgeMonths
+	) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `${instrument.name} is validated for ${instrument.minAgeMonths}-${instrument.maxAgeMonths} months; the child is ${ageMonths} months`,
+		})
+	}
+
+	// 3. Answers and score
+	const errors = findAnswerErrors(instrument.questions, input.answers)
+	if (errors.length > 0) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: errors.join('; '),
+		})
+	}
+
+	const score = scoreScreening(
+		instrument.questions,
+		instrument.cutoffs,
+		input.answers
+	)
+	const questionIds = new Map(instrument.questions.map(q => [q.number, q.id]))
+
+	// 4. Save
+	const result = await screeningQueries.createResult(
+		{
+			administeredAt: input.administeredAt,
+			administeredById: userId,
+			ageMonths,
+			clinicId,
+			domainScores:
+				Object.keys(score.domainScores).length > 0
+					? score.domainScores
+					: undefined,
+			encounterId: input.encounterId,
+			followUpInstrumentCode: score.followUpInstrumentCode,
+			instrumentId: instrument.id,
+			notes: input.notes,
+			outcome: score.outcome,
+			patientId: patient.id,
+			recommendation: score.recommendation,
+			risk: score.risk,
+			totalScore: score.totalScore,
+		},
+		score.answers.map(answer => ({
+			answer: answer.answer,
+			points: answer.points,
+			questionId: questionIds.get(answer.number) as string,
+		})),
+		{
+			action: 'CREATE',
+			clinicId,
+			details: `Recorded ${instrument.name} for ${patient.firstName} ${patient.lastName}: ${score.outcome}`,
+			level: score.risk === 'LOW' ? 'INFO' : 'WARNING',
+			metadata: {
+				instrument: instrument.code,
+				risk: score.risk,
+				totalScore: score.totalScore,
+			},
+			model: 'ScreeningResult',
+			userId,
+		}
+	)
+
+	return {
+		...result,
+		findings: score.findings,
+		instrument: { code: instrument.code, name: instrument.name },
+	}
+}
+
+/**
+ * Create or update an instrument from its definition. Once results exist,
+ * questions may be reworded but not removed - publish a new code instead.
+ */
+export async function saveScreeningInstrument(
+	input: SaveScreeningInstrumentInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	await validateSystemAdmin(userId)
+
+	// 1. Configuration
+	const errors = validateInstrument(input)
+	if (errors.length > 0) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: errors.join('; '),
+		})
+	}
+
+	const followUpCodes = [
+		...new Set(
+			input.cutoffs.flatMap(c =>
+				c.followUpInstrumentCode && c.followUpInstrumentCode !== input.code
+					? [c.followUpInstrumentCode]
+					: []
+			)
+		),
+	]
+	if (followUpCodes.length > 0) {
+		const found = new Set(
+			(await screeningQueries.findInstrumentCodes(followUpCodes)).map(
+				i => i.code
+			)
+		)
+		const missing = followUpCodes.filter(code => !found.has(code))
+		if (missing.length > 0) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: `Unknown follow-up instrument ${missing.join(', ')}`,
+			})
+		}
+	}
+
+	// 2. Answered questions stay
+	const existing = await screeningQueries.findInstrumentByCode(input.code)
+	if (existing && existing._count.results > 0) {
+		const numbers = new Set(input.questions.map(q => q.number))
+		const removed = existing.questions.filter(q => !numbers.has(q.number))
+		if (removed.length > 0) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: `${input.code} already has results; questions cannot be removed. Save the new question set under a new code.`,
+			})
+		}
+	}
+
+	// 3. Save
+	const { cutoffs, questions, ...data } = input
+
+	return screeningQueries.saveInstrument(
+		data,
+		questions.map(question => ({
+			...question,
+			domain: question.domain ?? null,
+		})),
+		cutoffs.map(cutoff => ({
+			...cutoff,
+			domain: cutoff.domain ?? null,
+			followUpInstrumentCode: cutoff.followUpInstrumentCode ?? null,
+			recommendation: cutoff.recommendation ?? null,
+		})),
+		{
+			action: existing ? 'UPDATE' : 'CREATE',
+			clinicId,
+			details: `${existing ? 'Updated' : 'Created'} screening instrument ${input.name} (${input.code} v${input.version})`,
+			level: 'INFO',
+			metadata: {
+				cutoffs: cutoffs.length,
+				questions: questions.length,
+			},
+			model: 'ScreeningInstrument',
+			userId,
+		}
+	)
+}
+
+// ==================== HELPER METHODS ====================
+
+async function getPatient(patientId: string, clinicId: string) {
+	const patient = await screeningQueries.findPatient(patientId, clinicId)
+
+	if (!patient) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Patient not found or does not belong to this clinic',
+		})
+	}
+
+	return patient
+}
+
+/**
+ * Age in days used for screening - corrected for preterm infants
+ */
+function getScreeningAgeDays(patient: ScreeningPatient, date: Date) {
+	return getGrowthAge(
+		differenceInDays(date, patient.dateOfBirth),
+		patient.gestationalAgeWeeks
+	).ageDays
+}
+
+async function findDueScreenings(
+	patient: ScreeningPatient,
+	results: Awaited<ReturnType<typeof screeningQueries.findResultsByPatient>>,
+	horizonDays = DEFAULT_HORIZON_DAYS
+) {
+	const today = new Date()
+	const instruments = await screeningQueries.findScheduledInstruments()
+
+	// Ages count from the date the corrected age would be zero
+	const correctionDays =
+		differenceInDays(today, patient.dateOfBirth) -
+		getScreeningAgeDays(patient, today)
+
+	return dueScreenings(
+		instruments,
+		results.map(result => ({
+			administeredAt: result.administeredAt,
+			ageMonths: result.ageMonths,
+			followUpInstrumentCode: result.followUpInstrumentCode,
+			instrumentCode: result.instrument.code,
+		})),
+		addDays(patient.dateOfBirth, correctionDays),
+		today,
+		horizonDays
+	)
+}
@@ -11,20 +11,58 @@
  * - Uses cache helpers for invalidation
  */
 
-import { TRPCError } from '@trpc/server'
-import { addDays, differenceInDays, differenceInMonths } from 'date-fns'
+import { createHash, randomBytes } from 'node:crypto'
 
-import type {
-	ImmunizationCreateInput,
-	ImmunizationUpdateInput,
-	ScheduleVaccinationInput,
-	VaccineScheduleFilterInput,
+import { TRPCError } from '@trpc/server'
+import {
+	addDays,
+	differenceInDays,
+	differenceInMonths,
+	format,
+	startOfDay,
+} from 'date-fns'
+
+import { env } from '@/lib/env'
+import { loadImageBytes } from '@/lib/pdf/helpers'
+import { renderImmunizationCertificate } from '@/lib/pdf/immunization-certificate'
+import { APP_ROUTES } from '@/lib/routes'
+import {
+	type AdverseEventCreateInput,
+	type AdverseEventReviewInput,
+	type AdverseEventUpdateInput,
+	type AefiReportInput,
+	type ImmunizationCreateInput,
+	type ImmunizationUpdateInput,
+	type ImportVaccineScheduleInput,
+	type MigratePatientScheduleInput,
+	type ScheduleEntryImportInput,
+	ScheduleEntryImportSchema,
+	type ScheduleVaccinationInput,
+	type VaccineScheduleFilterInput,
 } from '@/schemas/vac.schema'
 import { vaccinationQueries } from '@/server/db/queries/vac.query'
-import type { ImmunizationStatus } from '@/types'
+import type { AefiOutcome, AefiSeverity, ImmunizationStatus } from '@/types'
+import { parseCsv } from '@/utils/csv'
+import {
+	evaluateVaccineSchedule,
+	formatScheduleAge,
+	normalizeVaccineName,
+	selectScheduleVersionForBirth,
+} from '@/utils/vaccine-series'
 
 import { cacheHelpers } from '../../lib/cache/helpers'
-import { validateClinicAccess } from '../utils'
+import { validateClinicAccess, validateSystemAdmin } from '../utils'
+import * as inventoryService from './inventory.service'
+import * as screeningService from './screening.service'
+
+// Look-ahead window for auto-scheduling due doses
+const DUE_HORIZON_DAYS = 90
+// Upper bound on immunization rows fed into the series engine
+const HISTORY_LIMIT = 500
+// Row errors echoed back to the importer before truncating
+const MAX_IMPORT_ERRORS = 10
+// Patients run through the series engine at a time for clinic-wide counts
+const PATIENT_PAGE_SIZE = 200
 
 // ==================== QUERY METHODS ====================
 
@@ -92,11 +130,63 @@ export async function getUpcomingVaccinationCount(
 	return vaccinationQueries.countUpcoming(clinicId, daysAhead)
 }
 
+/**
+ * Overdue series across the clinic's patients, counted by the series engine
+ * so the dashboard agrees with each patient's summary
+ */
 export async function getOverdueVaccinationCount(
 	clinicId: string,
 	daysOverdue = 0
 ) {
-	return vaccinationQueries.countOverdue(clinicId, daysOverdue)
+	const assignments =
+		await vaccinationQueries.findClinicScheduleVersions(clinicId)
+	const versions = assignments.map(a => a.scheduleVersion)
+
+	// Patients share a handful of schedule versions - fetch each once
+	const schedules = new Map<
+		string | null,
+		ReturnType<typeof vaccinationQueries.getSchedule>
+	>()
+	let count = 0
+	let cursor: string | null = null
+
+	// Page through the clinic so only one batch of histories is held at once
+	do {
+		const patients = await vaccinationQueries.findPatientsWithHistory(
+			clinicId,
+			HISTORY_LIMIT,
+			cursor,
+			PATIENT_PAGE_SIZE
+		)
+
+		for (const patient of patients) {
+			const scheduleVersionId =
+				patient.vaccineScheduleVersionId ??
+				selectScheduleVersionForBirth(versions, patient.dateOfBirth)?.id ??
+				null
+			if (!schedules.has(scheduleVersionId)) {
+				schedules.set(
+					scheduleVersionId,
+					vaccinationQueries.getSchedule(scheduleVersionId)
+				)
+			}
+			const schedule = (await schedules.get(scheduleVersionId)) ?? []
+
+			// Past the maximum age needs review, not a dose - as in the due list
+			count += evaluateVaccineSchedule(
+				schedule,
+				patient.immunizations,
+				patient.dateOfBirth
+			).filter(s => !s.isPastMaxAge && s.daysOverdue > daysOverdue).length
+		}
+
+		cursor =
+			patients.length === PATIENT_PAGE_SIZE
+				? (patients.at(-1)?.id ?? null)
+				: null
+	} while (cursor)
+
+	return count
 }
 
 export async function getVaccinationCountByStatus(
@@ -108,68 +198,69 @@ export async function getVaccinationCountByStatus(
 
 // ==================== VACCINE SCHEDULE METHODS ====================
 
-export async function getVaccineSchedule(options?: VaccineScheduleFilterInput) {
-	return vaccinationQueries.findVaccineSchedule(options)
+export async function getVaccineSchedule(
+	clinicId: string,
+	options?: VaccineScheduleFilterInput
+) {
+	// Default to the version the clinic uses for children born today
+	const scheduleVersionId =
+		options?.scheduleVersionId ??
+		(await resolveClinicScheduleVersion(clinicId, new Date()))?.id
+
+	return vaccinationQueries.findVaccineSchedule({
+		...options,
+		scheduleVersionId,
+	})
 }
 
-export async function getVaccineScheduleByAge(ageMonths: number) {
-	return vaccinationQueries.findVaccineScheduleByAge(ageMonths)
+export async function getVaccineScheduleByAge(
+	ageMonths: number,
+	clinicId: string
+) {
+	const version = await resolveClinicScheduleVersion(clinicId, new Date())
+
+	return vaccinationQueries.findVaccineScheduleByAge(
+		ageMonths,
+		version?.id ?? null
+	)
 }
 
 export async function calculateDueVaccinations(
 	patientId: string,
 	clinicId: string
 ) {
-	// 1. Verify patient
 	const patient = await verifyPatientAccess(patientId, clinicId)
-
-	// 2. Calculate patient age in months
 	const ageMonths = differenceInMonths(new Date(), patient.dateOfBirth)
+	const horizon = addDays(new Date(), DUE_HORIZON_DAYS)
+	const [series, holds] = await Promise.all([
+		evaluatePatientSeries(patient),
+		getAefiReviewHolds(patient.id),
+	])
 
-	// 3. Get vaccine schedule for this age
-	const schedule = await vaccinationQueries.findVaccineScheduleByAge(ageMonths)
-
-	// 4. Get already administered vaccines
-	const administered = await vaccinationQueries.findByPatient(patientId, {
-		includeCompleted: true,
-	})
-
-	const administeredSet = new Set(
-		administered.map(v => `${v.vaccine}-${v.dose ?? ''}-${v.status}`)
-	)
-
-	// 5. Calculate due vaccines
-	const dueVaccinations = schedule
-		.filter((v: { vaccineName: string }) => {
-			// Check if this vaccine/dose hasn't been administered
-			const key = `${v.vaccineName}-1-COMPLETED` // TODO: Handle multiple doses
-			return !administeredSet.has(key)
-		})
-		.map(
-			(v: {
-				ageInDaysMin: number | null
-				vaccineName: string
-				id: { toString: () => string }
-			}) => {
-				const dueDate = addDays(patient.dateOfBirth, v.ageInDaysMin || 0)
-				const daysOverdue = differenceInDays(new Date(), dueDate)
-
-				return {
-					daysOverdue: Math.max(0, daysOverdue),
-					doseNumber: 1,
-					dueDate,
-					isOverdue: daysOverdue > 0,
-					patientAgeMonths: ageMonths,
-					patientId: patient.id,
-					patientName: `${patient.firstName} ${patient.lastName}`,
-					scheduleId: v.id.toString(),
-					vaccineName: v.vaccineName,
-				}
-			}
+	// Only incomplete series whose next dose falls due within the horizon
+	return series
+		.filter(
+			s =>
+				s.nextDoseNumber !== null &&
+				s.dueDate !== null &&
+				!s.isPastMaxAge &&
+				s.dueDate <= horizon
 		)
-		.filter((v: { daysOverdue: number }) => v.daysOverdue <= 90) // Only show vaccines due within 90 days
-
-	return dueVaccinations
+		.map(s => ({
+			daysOverdue: s.daysOverdue,
+			doseNumber: s.nextDoseNumber ?? 1,
+			// Catch-up doses are booked from today, not from the missed date
+			dueDate: s.catchUpPlan[0]?.earliestDate ?? s.dueDate ?? new Date(),
+			isCatchUp: s.isCatchUp,
+			isOverdue: s.isOverdue,
+			patientAgeMonths: ageMonths,
+			patientId: patient.id,
+			patientName: `${patient.firstName} ${patient.lastName}`,
+			requiresReview: holds.has(normalizeVaccineName(s.vaccineName)),
+			reviewReason: holds.get(normalizeVaccineName(s.vaccineName)),
+			scheduleId: s.scheduleId,
+			vaccineName: s.vaccineName,
+		}))
 }
 export async function getPatientRecord(patientId: string, clinicId: string) {
 	// 1. Permission check
@@ -177,7 +268,10 @@ export async function getPatientRecord(patientId: string, clinicId: string) {
 
 	// 2. Fetch data via query layer
 	const [immunizations, patient] = await Promise.all([
-		vaccinationQueries.findByPatient(patientId),
+		vaccinationQueries.findByPatient(patientId, {
+			includeCompleted: true,
+			limit: HISTORY_LIMIT,
+		}),
 		vaccinationQueries.getPatientDob(patientId),
 	])
 
@@ -189,40 +283,56 @@ export async function getPatientRecord(patientId: string, clinicId: string) {
 
 export async function getDueVaccinations(patientId: string, clinicId: string) {
 	const patient = await verifyPatientAccess(patientId, clinicId)
-
-	// Fetch rules and history
-	const [schedule, completed] = await Promise.all([
-		vaccinationQueries.getSchedule(),
-		vaccinationQueries.findByPatient(patientId),
+	const [series, holds] = await Promise.all([
+		evaluatePatientSeries(patient),
+		getAefiReviewHolds(patient.id),
 	])
 
-	const patientAgeDays = Math.floor(
-		(Date.now() - new Date(patient.dateOfBirth).getTime()) /
-			(1000 * 60 * 60 * 24)
-	)
+	return series
+		.filter(s => !(s.isComplete || s.isExempted))
+		.map(s => ({
+			...s,
+			daysUntilDue: s.dueDate ? differenceInDays(s.dueDate, new Date()) : null,
+			requiresReview: holds.has(normalizeVaccineName(s.vaccineName)),
+			reviewReason: holds.get(normalizeVaccineName(s.vaccineName)),
+		}))
+}
 
-	// Business Logic: Calculate what is due
-	return schedule
-		.filter((s: { vaccineName: string; dosesRequired: number }) => {
-			const isDone = completed.some(
-				(c: { vaccine: string; dose: string | null }) =>
-					c.vaccine === s.vaccineName && c.dose === `Dose ${s.dosesRequired}`
-			)
-			return !isDone
-		})
-		.map((s: { ageInDaysMin: number | null; ageInDaysMax: number | null }) => {
-			const dueDate = new Date(patient.dateOfBirth)
-			dueDate.setDate(dueDate.getDate() + (s.ageInDaysMin || 0))
-
-			return {
-				...s,
-				daysUntilDue: Math.ceil(
-					(dueDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-				),
-				dueDate,
-				isOverdue: s.ageInDaysMax ? patientAgeDays > s.ageInDaysMax : false,
-			}
-		})
+/**
+ * Patient worklist: vaccine doses and developmental screenings due within
+ * the look-ahead window, soonest first
+ */
+export async function getDueWorklist(patientId: string, clinicId: string) {
+	const [vaccines, screenings] = await Promise.all([
+		calculateDueVaccinations(patientId, clinicId),
+		screeningService.getDueScreenings(patientId, clinicId, DUE_HORIZON_DAYS),
+	])
+
+	return [
+		...vaccines.map(v => ({
+			daysOverdue: v.daysOverdue,
+			dueDate: v.dueDate,
+			isOverdue: v.isOverdue,
+			kind: 'VACCINE' as const,
+			name: `${v.vaccineName} dose ${v.doseNumber}`,
+			reference: v.vaccineName,
+			requiresReview: v.requiresReview,
+			reviewReason: v.reviewReason ?? null,
+		})),
+		...screenings.map(s => ({
+			daysOverdue: s.daysOverdue,
+			dueDate: s.dueDate,
+			isOverdue: s.isOverdue,
+			kind: 'SCREENING' as const,
+			name:
+				s.reason === 'FOLLOW_UP'
+					? s.instrumentName
+					: `${s.instrumentName} (${s.dueAgeMonths} months)`,
+			reference: s.instrumentCode,
+			requiresReview: false,
+			reviewReason: null,
+		})),
+	].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
 }
 
 export async function getClinicStats(
@@ -243,6 +353,575 @@ export async function getClinicStats(
 	}
 }
 
+// ==================== CERTIFICATE METHODS ====================
+
+/**
+ * Render the vaccination card PDF for a patient and register it for
+ * public verification. Every generation is audited as an EXPORT.
+ */
+export async function generateImmunizationCertificate(
+	patientId: string,
+	clinicId: string,
+	userId: string,
+	request?: { ipAddress?: string; userAgent?: string }
+) {
+	// 1. Access check + record
+	await validateClinicAccess(clinicId, userId)
+	const { immunizations, patient } = await getPatientRecord(patientId, clinicId)
+	const clinic = await vaccinationQueries.getClinicProfile(clinicId)
+
+	if (!(patient && clinic)) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Patient or clinic not found',
+		})
+	}
+
+	// 2. Only administered doses belong on a certificate
+	const doses = administeredDoses(immunizations)
+
+	// 3. Register certificate + EXPORT audit entry
+	const verificationCode = randomBytes(12).toString('base64url')
+	const certificate = await vaccinationQueries.createCertificate(
+		{
+			clinicId,
+			contentHash: certificateContentHash(doses),
+			doseCount: doses.length,
+			issuedById: userId,
+			patientId,
+			verificationCode,
+		},
+		{
+			clinicId,
+			details: `Immunization certificate generated for patient ${patientId}`,
+			ipAddress: request?.ipAddress,
+			level: 'INFO',
+			metadata: {
+				accessType: 'EXPORT',
+				doseCount: doses.length,
+				verificationCode,
+			},
+			resource: 'Immunization',
+			resourceId: patientId,
+			userAgent: request?.userAgent,
+			userId,
+		}
+	)
+
+	// 4. Render
+	const pdf = await renderImmunizationCertificate({
+		clinic: {
+			...clinic,
+			logo: await loadImageBytes(clinic.logo),
+		},
+		doses: doses.map(d => ({
+			administeredBy: d.administeredBy?.name,
+			date: d.date,
+			dose: d.dose,
+			lotNumber: d.lotNumber,
+			vaccine: d.vaccine,
+		})),
+		issuedAt: certificate.issuedAt,
+		patient,
+		verificationCode,
+		verificationUrl: `${env.NEXT_PUBLIC_APP_URL}${APP_ROUTES.VERIFY_CERTIFICATE(verificationCode)}`,
+	})
+
+	return {
+		certificateId: certificate.id,
+		data: Buffer.from(pdf).toString('base64'),
+		fileName:
+			`immunization-certificate-${patient.lastName}-${patient.firstName}.pdf`
+				.toLowerCase()
+				.replace(/\s+/g, '-'),
+		mimeType: 'application/pdf',
+		verificationCode,
+	}
+}
+
+/**
+ * Public verification lookup behind the certificate QR code
+ * Exposes only what is printed on the card, with the surname initialised
+ */
+export async function verifyImmunizationCertificate(verificationCode: string) {
+	const certificate =
+		await vaccinationQueries.findCertificateByCode(verificationCode)
+
+	if (!certificate) {
+		return { status: 'NOT_FOUND' as const }
+	}
+
+	const history = await vaccinationQueries.findByPatient(
+		certificate.patientId,
+		{ includeCompleted: true, limit: HISTORY_LIMIT }
+	)
+	const isCurrent =
+		certificateContentHash(administeredDoses(history)) ===
+		certificate.contentHash
+
+	return {
+		clinic: certificate.clinic,
+		doseCount: certificate.doseCount,
+		issuedAt: certificate.issuedAt,
+		patient: {
+			dateOfBirth: certificate.patient.dateOfBirth,
+			name: `${certificate.patient.firstName} ${certificate.patient.lastName.charAt(0)}.`,
+		},
+		// SUPERSEDED: authentic, but the record changed after issue
+		status: certificate.revokedAt
+			? ('REVOKED' as const)
+			: isCurrent
+				? ('VALID' as const)
+				: ('SUPERSEDED' as const),
+	}
+}
+
+// ==================== AEFI METHODS ====================
+
+export async function getAdverseEventsByPatient(
+	patientId: string,
+	clinicId: string
+) {
+	await verifyPatientAccess(patientId, clinicId)
+	return vaccinationQueries.findAdverseEventsByPatient(patientId)
+}
+
+export async function getAdverseEventById(id: string, clinicId: string) {
+	const event = await vaccinationQueries.findAdverseEventById(id)
+
+	if (!event) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Adverse event not found',
+		})
+	}
+
+	if (event.clinicId !== clinicId) {
+		throw new TRPCError({
+			code: 'FORBIDDEN',
+			message: 'Access denied to this adverse event',
+		})
+	}
+
+	return event
+}
+
+/**
+ * Record an adverse event following immunization against the dose that
+ * preceded it. Seriousness is derived, not entered, so the report and
+ * the due-dose review flag agree on what counts as serious.
+ */
+export async function reportAdverseEvent(
+	input: AdverseEventCreateInput,
+	clinicId: string,
+	userId: string
+) {
+	// 1. Validate access and the linked dose
+	await validateClinicAccess(clinicId, userId)
+	const immunization = await getImmunizationById(input.immunizationId, clinicId)
+
+	if (immunization.status !== 'COMPLETED') {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Adverse events can only be reported for administered doses',
+		})
+	}
+
+	if (startOfDay(input.onsetAt) < startOfDay(immunization.date)) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Onset cannot be before the vaccine was administered',
+		})
+	}
+
+	// 2. Create
+	const event = await vaccinationQueries.createAdverseEvent({
+		...input,
+		clinicId,
+		isSerious: isSeriousAdverseEvent(input),
+		patientId: immunization.patientId,
+		reportedById: userId,
+	})
+
+	// 3. Cache invalidation - due doses now carry a review flag
+	cacheHelpers.vaccination.invalidatePatientSchedule(
+		immunization.patientId,
+		clinicId
+	)
+
+	return event
+}
+
+export async function updateAdverseEvent(
+	input: AdverseEventUpdateInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	const existing = await getAdverseEventById(input.id, clinicId)
+
+	const { id, ...data } = input
+	const event = await vaccinationQueries.updateAdverseEvent(id, {
+		...data,
+		isSerious: isSeriousAdverseEvent({
+			hospitalized: data.hospitalized ?? existing.hospitalized,
+			outcome: data.outcome ?? existing.outcome,
+			severity: data.severity ?? existing.severity,
+		}),
+	})
+
+	cacheHelpers.vaccination.invalidatePatientSchedule(
+		existing.patientId,
+		clinicId
+	)
+
+	return event
+}
+
+/**
+ * Clinician decision on further doses of the implicated vaccine
+ * PROCEED clears the review flag; PRECAUTION and CONTRAINDICATED keep it
+ */
+export async function reviewAdverseEvent(
+	input: AdverseEventReviewInput,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	const existing = await getAdverseEventById(input.id, clinicId)
+
+	const event = await vaccinationQueries.updateAdverseEvent(input.id, {
+		reviewDecision: input.decision,
+		reviewedAt: new Date(),
+		reviewedById: userId,
+		reviewNotes: input.notes ?? null,
+	})
+
+	cacheHelpers.vaccination.invalidatePatientSchedule(
+		existing.patientId,
+		clinicId
+	)
+
+	return event
+}
+
+/**
+ * AEFI counts and rates per 1,000 doses, grouped by vaccine and lot
+ * Both numerator and denominator are bounded by administration date
+ */
+export async function getAefiReport(
+	clinicId: string,
+	options: AefiReportInput
+) {
+	const [events, administered] = await Promise.all([
+		vaccinationQueries.findAdverseEventsForReport(clinicId, options),
+		vaccinationQueries.countAdministeredByLot(clinicId, options),
+	])
+
+	const lots = new Map<
+		string,
+		{
+			vaccineName: string
+			lotNumber: string | null
+			manufacturer: string | null
+			expiryDate: Date | null
+			dosesAdministered: number
+			totalEvents: number
+			seriousEvents: number
+			bySeverity: Record<AefiSeverity, number>
+		}
+	>()
+
+	const lotKey = (vaccine: string, lotNumber: string | null) =>
+		`${normalizeVaccineName(vaccine)}|${lotNumber?.toUpperCase() ?? ''}`
+
+	const ensureLot = (vaccine: string, lotNumber: string | null) => {
+		const key = lotKey(vaccine, lotNumber)
+		let lot = lots.get(key)
+		if (!lot) {
+			lot = {
+				bySeverity: { LIFE_THREATENING: 0, MILD: 0, MODERATE: 0, SEVERE: 0 },
+				dosesAdministered: 0,
+				expiryDate: null,
+				lotNumber,
+				manufacturer: null,
+				seriousEvents: 0,
+				totalEvents: 0,
+				vaccineName: vaccine,
+			}
+			lots.set(key, lot)
+		}
+		return lot
+	}
+
+	for (const row of administered) {
+		ensureLot(row.vaccine, row.lotNumber).dosesAdministered += row._count._all
+	}
+
+	for (const event of events) {
+		const lot = ensureLot(
+			event.immunization.vaccine,
+			event.immunization.lotNumber
+		)
+		lot.totalEvents++
+		lot.bySeverity[event.severity]++
+		if (event.isSerious) lot.seriousEvents++
+		lot.manufacturer ??= event.immunization.vaccineLot?.manufacturer ?? null
+		lot.expiryDate ??= event.immunization.vaccineLot?.expiryDate ?? null
+	}
+
+	const ratePer1000 = (count: number, doses: number) =>
+		doses > 0 ? Math.round((count / doses) * 100_000) / 100 : null
+
+	const rows = [...lots.values()]
+		// The serious-only view lists implicated lots, not every lot used
+		.filter(lot => lot.totalEvents > 0 || !options.seriousOnly)
+		.map(lot => ({
+			...lot,
+			eventRatePer1000: ratePer1000(lot.totalEvents, lot.dosesAdministered),
+			seriousRatePer1000: ratePer1000(lot.seriousEvents, lot.dosesAdministered),
+		}))
+		.sort(
+			(a, b) =>
+				a.vaccineName.localeCompare(b.vaccineName) ||
+				(a.lotNumber ?? '').localeCompare(b.lotNumber ?? '')
+		)
+
+	const byVaccine = new Map<
+		string,
+		{
+			vaccineName: string
+			dosesAdministered: number
+			totalEvents: number
+			seriousEvents: number
+			lots: typeof rows
+		}
+	>()
+	for (const row of rows) {
+		const key = normalizeVaccineName(row.vaccineName)
+		const group = byVaccine.get(key) ?? {
+			dosesAdministered: 0,
+			lots: [],
+			seriousEvents: 0,
+			totalEvents: 0,
+			vaccineName: row.vaccineName,
+		}
+		group.dosesAdministered += row.dosesAdministered
+		group.totalEvents += row.totalEvents
+		group.seriousEvents += row.seriousEvents
+		group.lots.push(row)
+		byVaccine.set(key, group)
+	}
+
+	return {
+		events,
+		period: { endDate: options.endDate, startDate: options.startDate },
+		totals: {
+			dosesAdministered: rows.reduce((sum, r) => sum + r.dosesAdministered, 0),
+			seriousEvents: rows.reduce((sum, r) => sum + r.seriousEvents, 0),
+			totalEvents: rows.reduce((sum, r) => sum + r.totalEvents, 0),
+		},
+		vaccines: [...byVaccine.values()].map(group => ({
+			...group,
+			eventRatePer1000: ratePer1000(group.totalEvents, group.dosesAdministered),
+			seriousRatePer1000: ratePer1000(
+				group.seriousEvents,
+				group.dosesAdministered
+			),
+		})),
+	}
+}
+
+// ==================== SCHEDULE VERSION METHODS ====================
+
+export async function getScheduleVersions(clinicId: string) {
+	const [versions, assignments] = await Promise.all([
+		vaccinationQueries.findScheduleVersions(),
+		vaccinationQueries.findClinicScheduleVersions(clinicId),
+	])
+	const assigned = new Set(assignments.map(a => a.scheduleVersionId))
+
+	return versions.map(v => ({
+		...v,
+		isAssigned: assigned.has(v.id),
+	}))
+}
+
+/**
+ * A version with its entries - only one assigned to the clinic
+ */
+export async function getScheduleVersionById(id: string, clinicId: string) {
+	const [version, assignments] = await Promise.all([
+		findScheduleVersion(id),
+		vaccinationQueries.findClinicScheduleVersions(clinicId),
+	])
+
+	if (!assignments.some(a => a.scheduleVersionId === version.id)) {
+		throw new TRPCError({
+			code: 'FORBIDDEN',
+			message: 'Schedule version is not assigned to this clinic',
+		})
+	}
+
+	return version
+}
+
+/**
+ * Which schedule version a patient is evaluated against, and why
+ */
+export async function getPatientScheduleVersion(
+	patientId: string,
+	clinicId: string
+) {
+	const patient = await verifyPatientAccess(patientId, clinicId)
+	const resolved = await resolvePatientScheduleVersion(patient)
+
+	return {
+		...resolved,
+		version: resolved.scheduleVersionId
+			? await vaccinationQueries.findScheduleVersionById(
+					resolved.scheduleVersionId
+				)
+			: null,
+	}
+}
+
+export async function importVaccineSchedule(
+	input: ImportVaccineScheduleInput,
+	clinicId: string,
+	userId: string
+) {
+	// 1. Validate clinic access - schedules are shared, so admins only
+	await validateClinicAccess(clinicId, userId)
+	await validateSystemAdmin(userId)
+
+	// 2. Versions are immutable - a changed schedule is a new version
+	const existing = await vaccinationQueries.findScheduleVersionByKey(
+		input.program,
+		input.version
+	)
+
+	if (existing) {
+		throw new TRPCError({
+			code: 'CONFLICT',
+			message: `Schedule ${input.program} version ${input.version} already exists`,
+		})
+	}
+
+	// 3. Parse and validate rows
+	const entries = parseScheduleEntries(input.format, input.content)
+
+	// 4. Create version with its entries
+	const version = await vaccinationQueries.createScheduleVersion(
+		{
+			country: input.country,
+			effectiveFrom: input.effectiveFrom,
+			effectiveTo: input.effectiveTo,
+			importedById: userId,
+			notes: input.notes,
+			program: input.program,
+			source: input.source,
+			version: input.version,
+		},
+		entries.map(entry => ({
+			ageInDaysMax: entry.ageInDaysMax,
+			ageInDaysMin: entry.ageInDaysMin,
+			description: entry.description,
+			dosesRequired: entry.dosesRequired,
+			isMandatory: entry.isMandatory,
+			minimumInterval: entry.minimumInterval,
+			recommendedAge: entry.recommendedAge,
+			vaccineName: entry.vaccineName,
+		}))
+	)
+
+	// 5. Optionally make it available to the importing clinic
+	if (input.assignToClinic) {
+		await vaccinationQueries.assignScheduleVersion(clinicId, version.id, userId)
+	}
+
+	// 6. Cache invalidation
+	cacheHelpers.vaccination.invalidateScheduleVersions(clinicId)
+
+	return version
+}
+
+export async function assignScheduleVersion(
+	scheduleVersionId: string,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+	await findScheduleVersion(scheduleVersionId)
+
+	const assignment = await vaccinationQueries.assignScheduleVersion(
+		clinicId,
+		scheduleVersionId,
+		userId
+	)
+
+	cacheHelpers.vaccination.invalidateScheduleVersions(clinicId)
+
+	return assignment
+}
+
+export async function unassignScheduleVersion(
+	scheduleVersionId: string,
+	clinicId: string,
+	userId: string
+) {
+	await validateClinicAccess(clinicId, userId)
+
+	const result = await vaccinationQueries.unassignScheduleVersion(
+		clinicId,
+		scheduleVersionId
+	)
+
+	cacheHelpers.vaccination.invalidateScheduleVersions(clinicId)
+
+	return result
+}
+
+/**
+ * Clinician override: evaluate a patient against a different version
+ * than the one in force at birth (e.g. family moved country)
+ */
+export async function migratePatientSchedule(
+	input: MigratePatientScheduleInput,
+	clinicId: string,
+	userId: string
+) {
+	// 1. Validate access
+	await validateClinicAccess(clinicId, userId)
+	await verifyPatientAccess(input.patientId, clinicId)
+
+	// 2. Target version must be one the clinic uses
+	if (input.scheduleVersionId) {
+		const assignments =
+			await vaccinationQueries.findClinicScheduleVersions(clinicId)
+
+		if (
+			!assignments.some(a => a.scheduleVersionId === input.scheduleVersionId)
+		) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: 'Schedule version is not assigned to this clinic',
+			})
+		}
+	}
+
+	// 3. Update patient
+	const patient = await vaccinationQueries.updatePatientScheduleVersion(
+		input.patientId,
+		input.scheduleVersionId
+	)
+
+	// 4. Cache invalidation
+	cacheHelpers.vaccination.invalidatePatientSchedule(input.patientId, clinicId)
+
+	return patient
+}
+
 // ==================== MUTATION METHODS ====================
 
 export async function deleteImmunization(
@@ -257,11 +936,16 @@ export async function deleteImmunization(
 	if (!existing)
 		throw new TRPCError({ code: 'NOT_FOUND', message: 'Record not found' })
 
-	// 2. Soft delete
-	const deleted = await vaccinationQueries.softDelete(id)
+	// 2. Soft delete, returning an administered dose to its lot
+	const returnLotId =
+		existing.status === 'COMPLETED' ? existing.vaccineLotId : null
+	const deleted = await vaccinationQueries.softDelete(id, returnLotId)
 
 	// 3. Invalidate
 	cacheHelpers.vaccination.invalidate(id, existing.patientId, clinicId)
+	if (returnLotId) {
+		cacheHelpers.inventory.invalidate(returnLotId, clinicId, existing.vaccine)
+	}
 
 	return deleted
 }
@@ -317,8 +1001,20 @@ export async function recordImmunization(
 		})
 	}
 
-	// 5. Create immunization record
-	const immunization = await vaccinationQueries.create({
+	// 5. Administered doses draw from a tracked inventory lot
+	const status = input.status || 'COMPLETED'
+	const lot =
+		status === 'COMPLETED'
+			? await inventoryService.resolveLotForImmunization(
+					patient.clinicId,
+					input.vaccine,
+					input.date,
+					{ lotNumber: input.lotNumber, vaccineLotId: input.vaccineLotId }
+				)
+			: null
+
+	// 6. Create immunization record (decrementing stock when lot-tracked)
+	const data = {
 		administeredBy: {
 			connect: {
 				id: input.administeredByStaffId,
@@ -326,23 +1022,42 @@ export async function recordImmunization(
 		},
 		date: input.date,
 		dose: input.dose,
-		lotNumber: input.lotNumber,
+		lotNumber: lot?.lotNumber ?? input.lotNumber,
 		notes: input.notes,
 		patient: {
 			connect: {
 				id: input.patientId,
 			},
 		},
-		status: input.status || 'COMPLETED',
+		status,
 		vaccine: input.vaccine,
-	})
+	}
+	const immunization = lot
+		? await vaccinationQueries.createWithLot(
+				data,
+				lot.id,
+				startOfDay(input.date)
+			)
+		: await vaccinationQueries.create(data)
+
+	if (!immunization) {
+		throw new TRPCError({
+			code: 'CONFLICT',
+			message: `Lot ${lot?.lotNumber} ran out of stock or expired, pick another lot`,
+		})
+	}
+
+	if (lot) {
+		await inventoryService.checkLotAlerts(patient.clinicId, [lot.id])
+		cacheHelpers.inventory.invalidate(lot.id, patient.clinicId, lot.vaccineName)
+	}
 
-	// 6. If this is a scheduled vaccination, mark it as completed
+	// 7. If this is a scheduled vaccination, mark it as completed
 	if (input.nextDueDate) {
 		// Could create a follow-up scheduled vaccination
 	}
 
-	// 7. Cache invalidation
+	// 8. Cache invalidation
 	cacheHelpers.vaccination.invalidate(
 		immunization.id,
 		input.patientId,
@@ -438,19 +1153,28 @@ export async function updateImmunization(
 	// 2. Verify clinic access
 	await validateClinicAccess(existing.patient?.clinicId, userId)
 
-	// 3. Update record
-	const immunization = await vaccinationQueries.update(id, {
-		administeredBy: input.administeredByStaffId
-			? {
-					connect: { id: input.administeredByStaffId },
-				}
-			: undefined,
-		date: input.date,
-		dose: input.dose,
-		lotNumber: input.lotNumber,
-		notes: input.notes,
-		status: input.status,
-	})
+	// 3. Update record, moving stock when the dose or its lot changes
+	const immunization = await updateWithStock(
+		existing,
+		{
+			administeredBy: input.administeredByStaffId
+				? {
+						connect: { id: input.administeredByStaffId },
+					}
+				: undefined,
+			date: input.date,
+			dose: input.dose,
+			lotNumber: input.lotNumber,
+			notes: input.notes,
+			status: input.status,
+		},
+		{
+			date: input.date,
+			lotNumber: input.lotNumber,
+			status: input.status,
+			vaccineLotId: input.vaccineLotId,
+		}
+	)
 
 	// 4. Cache invalidation
 	cacheHelpers.vaccination.invalidate(
@@ -480,8 +1204,8 @@ export async function updateImmunizationStatus(
 	// 2. Verify clinic access
 	await validateClinicAccess(existing.patient?.clinicId, userId)
 
-	// 3. Update status
-	const immunization = await vaccinationQueries.updateStatus(id, status)
+	// 3. Update status, drawing from or returning to stock
+	const immunization = await updateWithStock(existing, { status }, { status })
 
 	// 4. Cache invalidation
 	cacheHelpers.vaccination.invalidate(
@@ -495,6 +1219,313 @@ export async function updateImmunizationStatus(
 
 // ==================== HELPER METHODS ====================
 
+/**
+ * Update a dose keeping its lot's stock in step. A dose moving to
+ * COMPLETED or onto another lot goes through the same lot resolution as a
+ * new one and draws from it; one leaving COMPLETED or its lot returns the
+ * dose to stock.
+ */
+async function updateWithStock(
+	existing: NonNullable<
+		Awaited<ReturnType<typeof vaccinationQueries.findById>>
+	>,
+	data: Parameters<typeof vaccinationQueries.update>[1],
+	next: {
+		status?: ImmunizationStatus
+		date?: Date
+		lotNumber?: string
+		vaccineLotId?: string
+	}
+) {
+	const clinicId = existing.patient?.clinicId ?? ''
+	const status = next.status ?? existing.status
+	const date = next.date ?? existing.date
+	const drawnLotId =
+		existing.status === 'COMPLETED' ? existing.vaccineLotId : null
+	const lotChanged =
+		(next.vaccineLotId !== undefined &&
+			next.vaccineLotId !== existing.vaccineLotId) ||
+		(next.lotNumber !== undefined && next.lotNumber !== existing.lotNumber)
+
+	const lot =
+		status === 'COMPLETED' && (!drawnLotId || lotChanged)
+			? await inventoryService.resolveLotForImmunization(
+					clinicId,
+					existing.vaccine,
+					date,
+					{
+						lotNumber: next.lotNumber ?? existing.lotNumber ?? undefined,
+						vaccineLotId: next.vaccineLotId,
+					}
+				)
+			: null
+
+	const drawLotId = lot && lot.id !== drawnLotId ? lot.id : null
+	const returnLotId =
+		drawnLotId && (status !== 'COMPLETED' || drawLotId) ? drawnLotId : null
+
+	if (!(drawLotId || returnLotId)) {
+		return vaccinationQueries.update(existing.id, data)
+	}
+
+	const immunization = await vaccinationQueries.updateWithLot(
+		existing.id,
+		{ ...data, lotNumber: lot?.lotNumber ?? data.lotNumber },
+		{ drawLotId, returnLotId, validFrom: startOfDay(date) }
+	)
+
+	if (!immunization) {
+		throw new TRPCError({
+			code: 'CONFLICT',
+			message: `Lot ${lot?.lotNumber} ran out of stock or expired, pick another lot`,
+		})
+	}
+
+	if (drawLotId) {
+		await inventoryService.checkLotAlerts(clinicId, [drawLotId])
+	}
+	for (const lotId of [drawLotId, returnLotId]) {
+		if (lotId) {
+			cacheHelpers.inventory.invalidate(lotId, clinicId, existing.vaccine)
+		}
+	}
+
+	return immunization
+}
+
+function administeredDoses<
+	T extends { date: Date; status: ImmunizationStatus | null; vaccine: string },
+>(immunizations: T[]) {
+	return immunizations
+		.filter(i => i.status === 'COMPLETED')
+		.sort(
+			(a, b) =>
+				new Date(a.date).getTime() - new Date(b.date).getTime() ||
+				a.vaccine.localeCompare(b.vaccine)
+		)
+}
+
+/**
+ * Fingerprint of the doses printed on a certificate, so verification can
+ * tell whether the record has changed since it was issued
+ */
+function certificateContentHash(
+	doses: {
+		vaccine: string
+		date: Date
+		dose: string | null
+		lotNumber: string | null
+	}[]
+) {
+	return createHash('sha256')
+		.update(
+			JSON.stringify(
+				doses.map(d => [
+					d.vaccine,
+					new Date(d.date).toISOString(),
+					d.dose,
+					d.lotNumber,
+				])
+			)
+		)
+		.digest('hex')
+}
+
+/**
+ * Schedule version in force at a given birth date among the clinic's
+ * assigned versions; null when the clinic has none (legacy schedule)
+ */
+async function resolveClinicScheduleVersion(
+	clinicId: string,
+	dateOfBirth: Date
+) {
+	const assignments =
+		await vaccinationQueries.findClinicScheduleVersions(clinicId)
+
+	return selectScheduleVersionForBirth(
+		assignments.map(a => a.scheduleVersion),
+		dateOfBirth
+	)
+}
+
+async function findScheduleVersion(id: string) {
+	const version = await vaccinationQueries.findScheduleVersionById(id)
+
+	if (!version) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Vaccine schedule version not found',
+		})
+	}
+
+	return version
+}
+
+/**
+ * Patient override first, then the version applicable at birth
+ */
+async function resolvePatientScheduleVersion(patient: {
+	clinicId: string
+	dateOfBirth: Date
+	vaccineScheduleVersionId: string | null
+}) {
+	if (patient.vaccineScheduleVersionId) {
+		return {
+			scheduleVersionId: patient.vaccineScheduleVersionId,
+			source: 'PATIENT' as const,
+		}
+	}
+
+	const version = await resolveClinicScheduleVersion(
+		patient.clinicId,
+		patient.dateOfBirth
+	)
+
+	return version
+		? { scheduleVersionId: version.id, source: 'BIRTH_DATE' as const }
+		: { scheduleVersionId: null, source: 'LEGACY' as const }
+}
+
+/**
+ * Parse an uploaded schedule file into validated entries
+ * JSON may be an array of rows or an object with an "entries" array
+ */
+function parseScheduleEntries(
+	format: ImportVaccineScheduleInput['format'],
+	content: string
+): (ScheduleEntryImportInput & { recommendedAge: string })[] {
+	let rows: unknown[]
+
+	if (format === 'csv') {
+		rows = parseCsv(content)
+	} else {
+		let parsed: unknown
+		try {
+			parsed = JSON.parse(content)
+		} catch {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: 'Schedule file is not valid JSON',
+			})
+		}
+		rows = Array.isArray(parsed)
+			? parsed
+			: ((parsed as { entries?: unknown[] })?.entries ?? [])
+	}
+
+	if (rows.length === 0) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: 'Schedule file contains no entries',
+		})
+	}
+
+	const entries: (ScheduleEntryImportInput & { recommendedAge: string })[] = []
+	const errors: string[] = []
+	const seen = new Set<string>()
+
+	rows.forEach((row, index) => {
+		const result = ScheduleEntryImportSchema.safeParse(row)
+		if (!result.success) {
+			const issue = result.error.issues[0]
+			errors.push(
+				`Row ${index + 1}: ${issue?.path.join('.')} ${issue?.message}`
+			)
+			return
+		}
+
+		const entry = {
+			...result.data,
+			recommendedAge:
+				result.data.recommendedAge ??
+				formatScheduleAge(result.data.ageInDaysMin),
+		}
+		const key = `${entry.vaccineName.toLowerCase()}|${entry.recommendedAge}`
+		if (seen.has(key)) {
+			errors.push(`Row ${index + 1}: duplicate ${entry.vaccineName} entry`)
+			return
+		}
+		seen.add(key)
+		entries.push(entry)
+	})
+
+	if (errors.length > 0) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `Invalid schedule file: ${errors.slice(0, MAX_IMPORT_ERRORS).join('; ')}`,
+		})
+	}
+
+	return entries
+}
+
+/**
+ * WHO seriousness criteria we can derive from the report itself:
+ * life-threatening or severe, hospitalization, death, lasting disability
+ */
+function isSeriousAdverseEvent(event: {
+	severity: AefiSeverity
+	hospitalized: boolean
+	outcome: AefiOutcome
+}) {
+	return (
+		event.severity === 'SEVERE' ||
+		event.severity === 'LIFE_THREATENING' ||
+		event.hospitalized ||
+		event.outcome === 'FATAL' ||
+		event.outcome === 'RECOVERED_WITH_SEQUELAE'
+	)
+}
+
+/**
+ * Vaccines whose next dose needs clinician review, keyed by normalized
+ * name, with the reason shown on the due list
+ */
+async function getAefiReviewHolds(patientId: string) {
+	const events = await vaccinationQueries.findUnclearedSeriousEvents(patientId)
+	const holds = new Map<string, string>()
+
+	for (const event of events) {
+		const key = normalizeVaccineName(event.immunization.vaccine)
+		const onset = format(event.onsetAt, 'dd MMM yyyy')
+		const reason =
+			event.reviewDecision === 'CONTRAINDICATED'
+				? `Contraindicated after serious AEFI on ${onset}`
+				: event.reviewDecision === 'PRECAUTION'
+					? `Precaution after serious AEFI on ${onset}`
+					: `Serious AEFI on ${onset} awaiting clinician review`
+
+		// A contraindication outranks any other reason for the same vaccine
+		if (!holds.has(key) || event.reviewDecision === 'CONTRAINDICATED') {
+			holds.set(key, reason)
+		}
+	}
+
+	return holds
+}
+
+/**
+ * Run the series engine over the patient's schedule version and history
+ */
+async function evaluatePatientSeries(patient: {
+	id: string
+	clinicId: string
+	dateOfBirth: Date
+	vaccineScheduleVersionId: string | null
+}) {
+	const { scheduleVersionId } = await resolvePatientScheduleVersion(patient)
+
+	const [schedule, history] = await Promise.all([
+		vaccinationQueries.getSchedule(scheduleVersionId),
+		vaccinationQueries.findByPatient(patient.id, {
+			includeCompleted: true,
+			limit: HISTORY_LIMIT,
+		}),
+	])
+
+	return evaluateVaccineSchedule(schedule, history, patient.dateOfBirth)
+}
+
 export async function verifyPatientAccess(patientId: string, clinicId: string) {
 	const patient = await vaccinationQueries.checkPatientExists(
 		patientId,
@@ -513,18 +1544,16 @@ export async function getPatientVaccinationSummary(
 	patientId: string,
 	clinicId: string
 ) {
-	await verifyPatientAccess(patientId, clinicId)
+	const patient = await verifyPatientAccess(patientId, clinicId)
 
-	const [completed, pending, overdue, all] = await Promise.all([
+	const [completed, pending, series, all] = await Promise.all([
 		vaccinationQueries.countByPatient(patientId, 'COMPLETED'),
 		vaccinationQueries.countByPatient(patientId, 'PENDING'),
-		vaccinationQueries.findOverdue(clinicId, { limit: 100 }),
+		evaluatePatientSeries(patient),
 		vaccinationQueries.findByPatient(patientId, { includeCompleted: true }),
 	])
 
-	const overdueCount = overdue.filter(
-		(v: { patientId: string }) => v.patientId === patientId
-	).length
+	const overdueCount = series.filter(s => s.isOverdue).length
 
 	return {
 		completed,
@@ -1,4 +1,5 @@
 import type { auth } from '../../lib/auth'
+import { isUserAdmin } from '../../lib/auth/admin-helpers'
 import { getRole } from '../../lib/auth/server'
 import { prisma } from '../db'
 import type { UserRole } from './routes'
@@ -26,6 +27,22 @@ export async function validateClinicAccess(
 	}
 }
 
+/**
+ * 🔒 SECURITY: System admin validator
+ * Use this in services that write data shared by every clinic, so Server
+ * Actions are held to the same rule as adminProcedure.
+ */
+export async function validateSystemAdmin(userId: string): Promise<void> {
+	const user = await prisma.user.findUnique({
+		select: { email: true },
+		where: { id: userId },
+	})
+
+	if (!(user && (await isUserAdmin(user.email)))) {
+		throw new Error('Unauthorized: System admin access required.')
+	}
+}
+
 /**
  * ⚡ PERFORMANCE: UI/Display Access Checker
  * Uses session data for fast UI rendering (Sidebar, Tabs).
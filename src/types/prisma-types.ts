@@ -1,5 +1,18 @@
 // This file was auto-generated by prisma-generator-typescript-interfaces
 
+export type InteractionSeverity =
+	| 'CONTRAINDICATED'
+	| 'MAJOR'
+	| 'MODERATE'
+	| 'MINOR'
+
+export const InteractionSeverity = {
+	CONTRAINDICATED: 'CONTRAINDICATED',
+	MAJOR: 'MAJOR',
+	MODERATE: 'MODERATE',
+	MINOR: 'MINOR',
+} satisfies Record<string, InteractionSeverity>
+
 export type UserRole = 'ADMIN' | 'STAFF' | 'DOCTOR' | 'OWNER' | 'PATIENT'
 
 export const UserRole = {
@@ -155,20 +168,44 @@ export const ServiceCategory = {
 	OTHER: 'OTHER',
 } satisfies Record<string, ServiceCategory>
 
-export type MeasurementType = 'Weight' | 'Height' | 'HeadCircumference'
+export type MeasurementType =
+	| 'Weight'
+	| 'Height'
+	| 'HeadCircumference'
+	| 'BMI'
+	| 'MUAC'
 
 export const MeasurementType = {
 	Weight: 'Weight',
 	Height: 'Height',
 	HeadCircumference: 'HeadCircumference',
+	BMI: 'BMI',
+	MUAC: 'MUAC',
 } satisfies Record<string, MeasurementType>
 
-export type ChartType = 'WFA' | 'HFA' | 'HcFA'
+export type GrowthReference =
+	| 'WHO_2006'
+	| 'WHO_2007'
+	| 'CDC_2000'
+	| 'FENTON_2013'
+
+export const GrowthReference = {
+	WHO_2006: 'WHO_2006',
+	WHO_2007: 'WHO_2007',
+	CDC_2000: 'CDC_2000',
+	FENTON_2013: 'FENTON_2013',
+} satisfies Record<string, GrowthReference>
+
+export type ChartType = 'WFA' | 'HFA' | 'HcFA' | 'BFA' | 'WFL' | 'WFH' | 'ACFA'
 
 export const ChartType = {
 	WFA: 'WFA',
 	HFA: 'HFA',
 	HcFA: 'HcFA',
+	BFA: 'BFA',
+	WFL: 'WFL',
+	WFH: 'WFH',
+	ACFA: 'ACFA',
 } satisfies Record<string, ChartType>
 
 export type ReminderMethod = 'EMAIL' | 'SMS'
@@ -186,6 +223,37 @@ export const ReminderStatus = {
 	PENDING: 'PENDING',
 } satisfies Record<string, ReminderStatus>
 
+export type PewsBehavior = 'PLAYING' | 'SLEEPING' | 'IRRITABLE' | 'LETHARGIC'
+
+export const PewsBehavior = {
+	PLAYING: 'PLAYING',
+	SLEEPING: 'SLEEPING',
+	IRRITABLE: 'IRRITABLE',
+	LETHARGIC: 'LETHARGIC',
+} satisfies Record<string, PewsBehavior>
+
+export type SkinColor = 'PINK' | 'PALE' | 'GREY' | 'MOTTLED'
+
+export const SkinColor = {
+	PINK: 'PINK',
+	PALE: 'PALE',
+	GREY: 'GREY',
+	MOTTLED: 'MOTTLED',
+} satisfies Record<string, SkinColor>
+
+export type RespiratoryEffort =
+	| 'NORMAL'
+	| 'ACCESSORY_MUSCLES'
+	| 'RETRACTIONS'
+	| 'GRUNTING'
+
+export const RespiratoryEffort = {
+	NORMAL: 'NORMAL',
+	ACCESSORY_MUSCLES: 'ACCESSORY_MUSCLES',
+	RETRACTIONS: 'RETRACTIONS',
+	GRUNTING: 'GRUNTING',
+} satisfies Record<string, RespiratoryEffort>
+
 export type NotificationType =
 	| 'APPOINTMENT_REMINDER'
 	| 'BILLING'
@@ -216,6 +284,51 @@ export const DevelopmentStatus = {
 	CONCERNING: 'CONCERNING',
 } satisfies Record<string, DevelopmentStatus>
 
+export type DevelopmentDomain = 'MOTOR' | 'LANGUAGE' | 'SOCIAL' | 'COGNITIVE'
+
+export const DevelopmentDomain = {
+	MOTOR: 'MOTOR',
+	LANGUAGE: 'LANGUAGE',
+	SOCIAL: 'SOCIAL',
+	COGNITIVE: 'COGNITIVE',
+} satisfies Record<string, DevelopmentDomain>
+
+export type ScreeningRisk = 'LOW' | 'MODERATE' | 'HIGH'
+
+export const ScreeningRisk = {
+	LOW: 'LOW',
+	MODERATE: 'MODERATE',
+	HIGH: 'HIGH',
+} satisfies Record<string, ScreeningRisk>
+
+export type BilirubinMethod = 'TSB' | 'TCB'
+
+export const BilirubinMethod = {
+	TSB: 'TSB',
+	TCB: 'TCB',
+} satisfies Record<string, BilirubinMethod>
+
+export type BilirubinCurveKind = 'NOMOGRAM' | 'PHOTOTHERAPY' | 'EXCHANGE'
+
+export const BilirubinCurveKind = {
+	NOMOGRAM: 'NOMOGRAM',
+	PHOTOTHERAPY: 'PHOTOTHERAPY',
+	EXCHANGE: 'EXCHANGE',
+} satisfies Record<string, BilirubinCurveKind>
+
+export type BilirubinRiskZone =
+	| 'LOW'
+	| 'LOW_INTERMEDIATE'
+	| 'HIGH_INTERMEDIATE'
+	| 'HIGH'
+
+export const BilirubinRiskZone = {
+	LOW: 'LOW',
+	LOW_INTERMEDIATE: 'LOW_INTERMEDIATE',
+	HIGH_INTERMEDIATE: 'HIGH_INTERMEDIATE',
+	HIGH: 'HIGH',
+} satisfies Record<string, BilirubinRiskZone>
+
 export type ImmunizationStatus =
 	| 'COMPLETED'
 	| 'PENDING'
@@ -231,6 +344,121 @@ export const ImmunizationStatus = {
 	EXEMPTED: 'EXEMPTED',
 } satisfies Record<string, ImmunizationStatus>
 
+export type AefiSeverity = 'MILD' | 'MODERATE' | 'SEVERE' | 'LIFE_THREATENING'
+
+export const AefiSeverity = {
+	MILD: 'MILD',
+	MODERATE: 'MODERATE',
+	SEVERE: 'SEVERE',
+	LIFE_THREATENING: 'LIFE_THREATENING',
+} satisfies Record<string, AefiSeverity>
+
+export type AefiOutcome =
+	| 'RECOVERED'
+	| 'RECOVERING'
+	| 'NOT_RECOVERED'
+	| 'RECOVERED_WITH_SEQUELAE'
+	| 'FATAL'
+	| 'UNKNOWN'
+
+export const AefiOutcome = {
+	RECOVERED: 'RECOVERED',
+	RECOVERING: 'RECOVERING',
+	NOT_RECOVERED: 'NOT_RECOVERED',
+	RECOVERED_WITH_SEQUELAE: 'RECOVERED_WITH_SEQUELAE',
+	FATAL: 'FATAL',
+	UNKNOWN: 'UNKNOWN',
+} satisfies Record<string, AefiOutcome>
+
+export type AefiReviewDecision = 'PROCEED' | 'PRECAUTION' | 'CONTRAINDICATED'
+
+export const AefiReviewDecision = {
+	PROCEED: 'PROCEED',
+	PRECAUTION: 'PRECAUTION',
+	CONTRAINDICATED: 'CONTRAINDICATED',
+} satisfies Record<string, AefiReviewDecision>
+
+export type GrowthAlertRule =
+	| 'PERCENTILE_CROSSING'
+	| 'LOW_WEIGHT_FOR_LENGTH'
+	| 'STATIC_WEIGHT'
+	| 'RAPID_HEAD_GROWTH'
+
+export const GrowthAlertRule = {
+	PERCENTILE_CROSSING: 'PERCENTILE_CROSSING',
+	LOW_WEIGHT_FOR_LENGTH: 'LOW_WEIGHT_FOR_LENGTH',
+	STATIC_WEIGHT: 'STATIC_WEIGHT',
+	RAPID_HEAD_GROWTH: 'RAPID_HEAD_GROWTH',
+} satisfies Record<string, GrowthAlertRule>
+
+export type GrowthAlertStatus = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED'
+
+export const GrowthAlertStatus = {
+	OPEN: 'OPEN',
+	ACKNOWLEDGED: 'ACKNOWLEDGED',
+	RESOLVED: 'RESOLVED',
+} satisfies Record<string, GrowthAlertStatus>
+
+export type AcuteMalnutritionStatus = 'NONE' | 'AT_RISK' | 'MAM' | 'SAM'
+
+export const AcuteMalnutritionStatus = {
+	NONE: 'NONE',
+	AT_RISK: 'AT_RISK',
+	MAM: 'MAM',
+	SAM: 'SAM',
+} satisfies Record<string, AcuteMalnutritionStatus>
+
+export type TherapeuticFeedingStatus =
+	| 'ACTIVE'
+	| 'CURED'
+	| 'DEFAULTED'
+	| 'NON_RESPONDER'
+	| 'REFERRED'
+	| 'DIED'
+
+export const TherapeuticFeedingStatus = {
+	ACTIVE: 'ACTIVE',
+	CURED: 'CURED',
+	DEFAULTED: 'DEFAULTED',
+	NON_RESPONDER: 'NON_RESPONDER',
+	REFERRED: 'REFERRED',
+	DIED: 'DIED',
+} satisfies Record<string, TherapeuticFeedingStatus>
+
+export type AllergyType = 'DRUG' | 'FOOD' | 'ENVIRONMENTAL'
+
+export const AllergyType = {
+	DRUG: 'DRUG',
+	FOOD: 'FOOD',
+	ENVIRONMENTAL: 'ENVIRONMENTAL',
+} satisfies Record<string, AllergyType>
+
+export type AllergySeverity =
+	| 'MILD'
+	| 'MODERATE'
+	| 'SEVERE'
+	| 'LIFE_THREATENING'
+
+export const AllergySeverity = {
+	MILD: 'MILD',
+	MODERATE: 'MODERATE',
+	SEVERE: 'SEVERE',
+	LIFE_THREATENING: 'LIFE_THREATENING',
+} satisfies Record<string, AllergySeverity>
+
+export type AllergyVerificationStatus =
+	| 'UNCONFIRMED'
+	| 'CONFIRMED'
+	| 'REFUTED'
+	| 'ENTERED_IN_ERROR'
+
+export const AllergyVerificationStatus = {
+	UNCONFIRMED: 'UNCONFIRMED',
+	CONFIRMED: 'CONFIRMED',
+	REFUTED: 'REFUTED',
+	ENTERED_IN_ERROR: 'ENTERED_IN_ERROR',
+} satisfies Record<string, AllergyVerificationStatus>
+
 export type DosageUnit =
 	| 'MG'
 	| 'ML'
@@ -740,6 +968,18 @@ export type Clinic = {
 	fileStorages?: FileStorage[]
 	knowledgeBase?: KnowledgeBase | null
 	agents?: Agent[]
+	vaccineSchedules?: ClinicVaccineSchedule[]
+	immunizationCertificates?: ImmunizationCertificate[]
+	vaccineLots?: VaccineLot[]
+	adverseEvents?: AdverseEvent[]
+	allergies?: PatientAllergy[]
+	growthAlerts?: GrowthAlert[]
+	therapeuticFeedingEnrollments?: TherapeuticFeedingEnrollment[]
+	developmentalChecks?: DevelopmentalCheck[]
+	screeningResults?: ScreeningResult[]
+	bilirubinMeasurements?: BilirubinMeasurement[]
+	feedingLogs?: FeedingLog[]
+	feedingAlerts?: FeedingAlert[]
 	_count?: {
 		doctors?: number
 		patients?: number
@@ -764,6 +1004,18 @@ export type Clinic = {
 		apiKeys?: number
 		fileStorages?: number
 		agents?: number
+		vaccineSchedules?: number
+		immunizationCertificates?: number
+		vaccineLots?: number
+		adverseEvents?: number
+		allergies?: number
+		growthAlerts?: number
+		therapeuticFeedingEnrollments?: number
+		developmentalChecks?: number
+		screeningResults?: number
+		bilirubinMeasurements?: number
+		feedingLogs?: number
+		feedingAlerts?: number
 	}
 }
 
@@ -948,6 +1200,7 @@ export type ClinicSetting = {
 	workingDays: string[]
 	defaultAppointmentDuration?: number
 	requireEmergencyContact?: boolean
+	schoolAgeGrowthReference?: GrowthReference
 	createdAt?: Date
 	updatedAt: Date
 }
@@ -956,7 +1209,9 @@ export type WHOGrowthStandard = {
 	id?: string
 	ageInMonths?: number | null
 	ageDays: number
+	lengthCm?: number | null
 	gender: Gender
+	reference?: GrowthReference
 	chartType?: ChartType | null
 	measurementType?: MeasurementType | null
 	lValue?: number | null
@@ -975,6 +1230,20 @@ export type WHOGrowthStandard = {
 	updatedAt: Date
 }
 
+export type GrowthVelocityStandard = {
+	id?: string
+	gender: Gender
+	chartType: ChartType
+	startMonth: number
+	endMonth: number
+	delta?: number
+	lValue: number
+	mValue: number
+	sValue: number
+	createdAt?: Date
+	updatedAt: Date
+}
+
 export type Rating = {
 	id?: number
 	clinicId?: string | null
@@ -1001,6 +1270,11 @@ export type Prescription = {
 	issuedDate?: Date
 	endDate?: Date | null
 	status?: string
+	cancelledAt?: Date | null
+	cancellationReason?: string | null
+	renewedFromId?: string | null
+	renewedFrom?: Prescription | null
+	renewals?: Prescription[]
 	medicalRecord?: MedicalRecords
 	doctor?: Doctor | null
 	patient?: Patient
@@ -1010,6 +1284,7 @@ export type Prescription = {
 	updatedAt: Date
 	prescribedItems?: PrescribedItem[]
 	_count?: {
+		renewals?: number
 		prescribedItems?: number
 	}
 }
@@ -1017,6 +1292,21 @@ export type Prescription = {
 export type Drug = {
 	id?: string
 	name: string
+	genericName?: string | null
+	brandNames?: string[]
+	drugClass?: string | null
+	description?: string | null
+	manufacturer?: string | null
+	indications?: string[]
+	contraindications?: string[]
+	sideEffects?: string[]
+	warnings?: string[]
+	pregnancyCategory?: string | null
+	isControlled?: boolean
+	controlledSchedule?: string | null
+	requiresPriorAuth?: boolean
+	isActive?: boolean
+	retiredAt?: Date | null
 	guidelines?: DoseGuideline[]
 	createdAt?: Date
 	updatedAt: Date
@@ -1045,6 +1335,8 @@ export type DoseGuideline = {
 	finalConcentrationMgMl?: number | null
 	minInfusionTimeMin?: number | null
 	compatibilityDiluent?: string | null
+	isActive?: boolean
+	retiredAt?: Date | null
 	createdAt?: Date
 	updatedAt: Date
 	drug?: Drug
@@ -1060,12 +1352,32 @@ export type PrescribedItem = {
 	duration: string
 	instructions?: string | null
 	drugRoute?: DrugRoute | null
+	doseWarnings?: Record<string, unknown> | null
+	allergyWarnings?: Record<string, unknown> | null
+	interactionWarnings?: Record<string, unknown> | null
+	overrideReason?: string | null
+	overriddenById?: string | null
+	overriddenAt?: Date | null
 	prescription?: Prescription
 	drug?: Drug
 	createdAt?: Date
 	updatedAt: Date
 }
 
+export type DrugInteraction = {
+	id?: string
+	pairKey: string
+	drugA: string
+	drugB: string
+	severity: InteractionSeverity
+	mechanism: string
+	management: string
+	source?: string | null
+	isActive?: boolean
+	createdAt?: Date
+	updatedAt: Date
+}
+
 export type Guardian = {
 	id?: string
 	patientId: string
@@ -1091,6 +1403,9 @@ export type Patient = {
 	ageMonths?: number | null
 	ageDays?: number | null
 	gender?: Gender
+	gestationalAgeWeeks?: number | null
+	motherHeightCm?: number | null
+	fatherHeightCm?: number | null
 	maritalStatus?: string | null
 	nutritionalStatus?: string | null
 	address?: string | null
@@ -1130,6 +1445,17 @@ export type Patient = {
 	doctorId?: string | null
 	doctor?: User | null
 	fileStorages?: FileStorage[]
+	vaccineScheduleVersionId?: string | null
+	vaccineScheduleMigratedAt?: Date | null
+	vaccineScheduleVersion?: VaccineScheduleVersion | null
+	immunizationCertificates?: ImmunizationCertificate[]
+	adverseEvents?: AdverseEvent[]
+	allergyList?: PatientAllergy[]
+	growthAlerts?: GrowthAlert[]
+	therapeuticFeedingEnrollments?: TherapeuticFeedingEnrollment[]
+	screeningResults?: ScreeningResult[]
+	bilirubinMeasurements?: BilirubinMeasurement[]
+	feedingAlerts?: FeedingAlert[]
 	_count?: {
 		appointments?: number
 		medicalRecords?: number
@@ -1145,6 +1471,14 @@ export type Patient = {
 		payments?: number
 		guardians?: number
 		fileStorages?: number
+		immunizationCertificates?: number
+		adverseEvents?: number
+		allergyList?: number
+		growthAlerts?: number
+		therapeuticFeedingEnrollments?: number
+		screeningResults?: number
+		bilirubinMeasurements?: number
+		feedingAlerts?: number
 	}
 }
 
@@ -1175,11 +1509,15 @@ export type Appointment = {
 	medical?: MedicalRecords[]
 	reminders?: Reminder[]
 	encounters?: Diagnosis[]
+	developmentalChecks?: DevelopmentalCheck[]
+	feedingLogs?: FeedingLog[]
 	_count?: {
 		bills?: number
 		medical?: number
 		reminders?: number
 		encounters?: number
+		developmentalChecks?: number
+		feedingLogs?: number
 	}
 }
 
@@ -1271,9 +1609,13 @@ export type Diagnosis = {
 	medical?: MedicalRecords
 	vitalSigns?: VitalSigns[]
 	prescriptions?: Prescription[]
+	screeningResults?: ScreeningResult[]
+	bilirubinMeasurements?: BilirubinMeasurement[]
 	_count?: {
 		vitalSigns?: number
 		prescriptions?: number
+		screeningResults?: number
+		bilirubinMeasurements?: number
 	}
 }
 
@@ -1298,6 +1640,16 @@ export type VitalSigns = {
 	updatedAt: Date
 	ageDays?: number | null
 	ageMonths?: number | null
+	behavior?: PewsBehavior | null
+	skinColor?: SkinColor | null
+	capillaryRefillSeconds?: number | null
+	respiratoryEffort?: RespiratoryEffort | null
+	oxygenFlowLpm?: number | null
+	flags?: string[]
+	pewsScore?: number | null
+	pewsBehavior?: number | null
+	pewsCardiovascular?: number | null
+	pewsRespiratory?: number | null
 	patient?: Patient
 	medical?: MedicalRecords
 	encounter?: Diagnosis | null
@@ -1318,6 +1670,8 @@ export type GrowthRecord = {
 	ageDays?: number | null
 	ageMonths?: number | null
 	ageYears?: number | null
+	correctedAgeDays?: number | null
+	postmenstrualAgeDays?: number | null
 	percentile?: Decimal | null
 	zScore?: Decimal | null
 	headCircumference?: Decimal | null
@@ -1326,6 +1680,12 @@ export type GrowthRecord = {
 	heightForAgeZ?: Decimal | null
 	bmiForAgeZ?: Decimal | null
 	hcForAgeZ?: Decimal | null
+	weightForLengthZ?: Decimal | null
+	muac?: Decimal | null
+	muacForAgeZ?: Decimal | null
+	bilateralOedema?: boolean | null
+	acuteMalnutrition?: AcuteMalnutritionStatus | null
+	growthReference?: GrowthReference | null
 	weight?: number | null
 	height?: number | null
 	notes?: string | null
@@ -1342,6 +1702,12 @@ export type GrowthRecord = {
 	medical?: MedicalRecords | null
 	recordedBy?: User | null
 	recordedById?: string | null
+	growthAlerts?: GrowthAlert[]
+	therapeuticFeedingVisits?: TherapeuticFeedingVisit[]
+	_count?: {
+		growthAlerts?: number
+		therapeuticFeedingVisits?: number
+	}
 }
 
 export type Immunization = {
@@ -1362,12 +1728,157 @@ export type Immunization = {
 	daysOverDue?: number | null
 	patient?: Patient
 	administeredBy?: Staff | null
+	vaccineLotId?: string | null
+	vaccineLot?: VaccineLot | null
+	adverseEvents?: AdverseEvent[]
 	medicalRecords?: MedicalRecords[]
 	_count?: {
+		adverseEvents?: number
 		medicalRecords?: number
 	}
 }
 
+export type AdverseEvent = {
+	id?: string
+	immunizationId: string
+	patientId: string
+	clinicId: string
+	reportedById?: string | null
+	onsetAt: Date
+	symptoms: string[]
+	description?: string | null
+	severity: AefiSeverity
+	hospitalized?: boolean
+	isSerious?: boolean
+	outcome?: AefiOutcome
+	treatment?: string | null
+	followUpDate?: Date | null
+	followUpNotes?: string | null
+	reviewDecision?: AefiReviewDecision | null
+	reviewNotes?: string | null
+	reviewedById?: string | null
+	reviewedAt?: Date | null
+	isDeleted?: boolean
+	createdAt?: Date
+	updatedAt: Date
+	immunization?: Immunization
+	patient?: Patient
+	clinic?: Clinic
+}
+
+export type GrowthAlert = {
+	id?: string
+	clinicId: string
+	patientId: string
+	growthRecordId: string
+	rule: GrowthAlertRule
+	message: string
+	details?: Record<string, unknown> | null
+	status?: GrowthAlertStatus
+	notifiedUserId?: string | null
+	reviewedById?: string | null
+	reviewedAt?: Date | null
+	reviewNotes?: string | null
+	createdAt?: Date
+	updatedAt: Date
+	clinic?: Clinic
+	patient?: Patient
+	growthRecord?: GrowthRecord
+}
+
+export type TherapeuticFeedingEnrollment = {
+	id?: string
+	clinicId: string
+	patientId: string
+	admissionRecordId: string
+	admissionStatus: AcuteMalnutritionStatus
+	admissionWeight: number
+	admittedAt: Date
+	status?: TherapeuticFeedingStatus
+	dischargedAt?: Date | null
+	dischargeNotes?: string | null
+	enrolledById: string
+	createdAt?: Date
+	updatedAt: Date
+	clinic?: Clinic
+	patient?: Patient
+	visits?: TherapeuticFeedingVisit[]
+	_count?: {
+		visits?: number
+	}
+}
+
+export type TherapeuticFeedingVisit = {
+	id?: string
+	enrollmentId: string
+	growthRecordId: string
+	date: Date
+	weightGainGKgDay?: number | null
+	rutfSachets?: number | null
+	notes?: string | null
+	recordedById: string
+	createdAt?: Date
+	enrollment?: TherapeuticFeedingEnrollment
+	growthRecord?: GrowthRecord
+}
+
+export type PatientAllergy = {
+	id?: string
+	patientId: string
+	clinicId: string
+	allergen: string
+	type?: AllergyType
+	reaction?: string | null
+	severity?: AllergySeverity | null
+	verificationStatus?: AllergyVerificationStatus
+	onsetDate?: Date | null
+	notes?: string | null
+	recordedById?: string | null
+	isDeleted?: boolean
+	createdAt?: Date
+	updatedAt: Date
+	patient?: Patient
+	clinic?: Clinic
+}
+
+export type VaccineLot = {
+	id?: string
+	clinicId: string
+	vaccineName: string
+	manufacturer?: string | null
+	lotNumber: string
+	expiryDate: Date
+	quantityReceived: number
+	quantityOnHand: number
+	lowStockThreshold?: number
+	coldChainNotes?: string | null
+	receivedAt?: Date
+	isActive?: boolean
+	lowStockAlertedAt?: Date | null
+	expiryAlertedAt?: Date | null
+	createdAt?: Date
+	updatedAt: Date
+	clinic?: Clinic
+	immunizations?: Immunization[]
+	_count?: {
+		immunizations?: number
+	}
+}
+
+export type ImmunizationCertificate = {
+	id?: string
+	verificationCode: string
+	patientId: string
+	clinicId: string
+	issuedById?: string | null
+	doseCount: number
+	contentHash: string
+	issuedAt?: Date
+	revokedAt?: Date | null
+	patient?: Patient
+	clinic?: Clinic
+}
+
 export type ConfigStore = {
 	key: string
 	value: string
@@ -1409,6 +1920,35 @@ export type FeedingLog = {
 	amount?: number | null
 	breast?: string | null
 	notes?: string | null
+	clinicId?: string | null
+	appointmentId?: string | null
+	recordedById?: string | null
+	deletedAt?: Date | null
+	createdAt?: Date
+	updatedAt: Date
+	clinic?: Clinic | null
+	appointment?: Appointment | null
+}
+
+export type FeedingAlert = {
+	id?: string
+	clinicId: string
+	patientId: string
+	startDate: Date
+	endDate: Date
+	lowDays: number
+	averageMlPerKgDay?: number | null
+	averageFeedsPerDay?: number | null
+	message: string
+	status?: GrowthAlertStatus
+	notifiedUserId?: string | null
+	reviewedById?: string | null
+	reviewedAt?: Date | null
+	reviewNotes?: string | null
+	createdAt?: Date
+	updatedAt: Date
+	clinic?: Clinic
+	patient?: Patient
 }
 
 export type DevelopmentalMilestone = {
@@ -1438,13 +1978,222 @@ export type DevelopmentalCheck = {
 	milestonesPending?: string | null
 	concerns?: string | null
 	recommendations?: string | null
+	clinicId?: string | null
+	appointmentId?: string | null
+	performedById?: string | null
+	referralFlagged?: boolean
+	patient?: Patient
+	clinic?: Clinic | null
+	appointment?: Appointment | null
+	items?: DevelopmentalCheckItem[]
+	createdAt?: Date
+	updatedAt: Date
+	_count?: {
+		items?: number
+	}
+}
+
+export type MilestoneDefinition = {
+	id?: string
+	code: string
+	domain: DevelopmentDomain
+	ageMonths: number
+	description: string
+	source?: string | null
+	isActive?: boolean
+	createdAt?: Date
+	updatedAt: Date
+	checkItems?: DevelopmentalCheckItem[]
+	_count?: {
+		checkItems?: number
+	}
+}
+
+export type DevelopmentalCheckItem = {
+	id?: string
+	checkId: number
+	milestoneId: string
+	achieved: boolean
+	check?: DevelopmentalCheck
+	milestone?: MilestoneDefinition
+}
+
+export type ScreeningInstrument = {
+	id?: string
+	code: string
+	name: string
+	description?: string | null
+	version: string
+	dueAgesMonths?: number[]
+	windowMonths?: number
+	minAgeMonths: number
+	maxAgeMonths: number
+	source?: string | null
+	isActive?: boolean
+	createdAt?: Date
+	updatedAt: Date
+	questions?: ScreeningQuestion[]
+	cutoffs?: ScreeningCutoff[]
+	results?: ScreeningResult[]
+	_count?: {
+		questions?: number
+		cutoffs?: number
+		results?: number
+	}
+}
+
+export type ScreeningQuestion = {
+	id?: string
+	instrumentId: string
+	number: number
+	domain?: string | null
+	text: string
+	options: string[]
+	optionPoints: number[]
+	instrument?: ScreeningInstrument
+	answers?: ScreeningAnswer[]
+	_count?: {
+		answers?: number
+	}
+}
+
+export type ScreeningCutoff = {
+	id?: string
+	instrumentId: string
+	domain?: string | null
+	minScore: number
+	maxScore: number
+	risk: ScreeningRisk
+	label: string
+	recommendation?: string | null
+	followUpInstrumentCode?: string | null
+	instrument?: ScreeningInstrument
+}
+
+export type ScreeningResult = {
+	id?: string
+	clinicId: string
+	patientId: string
+	instrumentId: string
+	encounterId?: string | null
+	administeredAt: Date
+	ageMonths: number
+	totalScore: number
+	domainScores?: Record<string, unknown> | null
+	risk: ScreeningRisk
+	outcome: string
+	recommendation?: string | null
+	followUpInstrumentCode?: string | null
+	notes?: string | null
+	administeredById?: string | null
+	createdAt?: Date
+	updatedAt: Date
+	clinic?: Clinic
 	patient?: Patient
+	instrument?: ScreeningInstrument
+	encounter?: Diagnosis | null
+	answers?: ScreeningAnswer[]
+	_count?: {
+		answers?: number
+	}
+}
+
+export type ScreeningAnswer = {
+	id?: string
+	resultId: string
+	questionId: string
+	answer: string
+	points: number
+	result?: ScreeningResult
+	question?: ScreeningQuestion
+}
+
+export type BilirubinTable = {
+	id?: string
+	code: string
+	name: string
+	description?: string | null
+	version: string
+	source?: string | null
+	minGestationalAgeWeeks?: number
+	riskFactorCodes: string[]
+	riskFactorLabels: string[]
+	approachingMarginMgDl?: number
+	approachingRecheckHours: number
+	phototherapyRecheckHours: number
+	exchangeRecheckHours: number
+	tcbConfirmMarginMgDl?: number
+	isActive?: boolean
 	createdAt?: Date
 	updatedAt: Date
+	curves?: BilirubinCurve[]
+	zones?: BilirubinZone[]
+	measurements?: BilirubinMeasurement[]
+	_count?: {
+		curves?: number
+		zones?: number
+		measurements?: number
+	}
+}
+
+export type BilirubinCurve = {
+	id?: string
+	tableId: string
+	kind: BilirubinCurveKind
+	label: string
+	percentile?: number | null
+	minGestationalAgeWeeks?: number | null
+	maxGestationalAgeWeeks?: number | null
+	withRiskFactors?: boolean | null
+	hours: number[]
+	values: number[]
+	table?: BilirubinTable
+}
+
+export type BilirubinZone = {
+	id?: string
+	tableId: string
+	zone: BilirubinRiskZone
+	minPercentile?: number | null
+	recheckHours?: number | null
+	recommendation: string
+	table?: BilirubinTable
+}
+
+export type BilirubinMeasurement = {
+	id?: string
+	clinicId: string
+	patientId: string
+	tableId: string
+	encounterId?: string | null
+	measuredAt: Date
+	ageHours: number
+	method: BilirubinMethod
+	value: number
+	gestationalAgeWeeks: number
+	riskFactors?: string[]
+	riskZone?: BilirubinRiskZone | null
+	phototherapyThreshold?: number | null
+	exchangeThreshold?: number | null
+	phototherapyIndicated?: boolean
+	exchangeIndicated?: boolean
+	confirmWithTsb?: boolean
+	recheckHours?: number | null
+	recheckAt?: Date | null
+	recommendation: string
+	notes?: string | null
+	recordedById?: string | null
+	createdAt?: Date
+	updatedAt: Date
+	clinic?: Clinic
+	patient?: Patient
+	table?: BilirubinTable
+	encounter?: Diagnosis | null
 }
 
 export type VaccineSchedule = {
 	id?: number
+	scheduleVersionId?: string | null
 	vaccineName: string
 	recommendedAge: string
 	dosesRequired: number
@@ -1455,6 +2204,40 @@ export type VaccineSchedule = {
 	updatedAt: Date
 	ageInDaysMin?: number | null
 	ageInDaysMax?: number | null
+	scheduleVersion?: VaccineScheduleVersion | null
+}
+
+export type VaccineScheduleVersion = {
+	id?: string
+	program: string
+	version: string
+	country?: string | null
+	effectiveFrom: Date
+	effectiveTo?: Date | null
+	source?: string | null
+	notes?: string | null
+	isActive?: boolean
+	importedById?: string | null
+	createdAt?: Date
+	updatedAt: Date
+	entries?: VaccineSchedule[]
+	assignments?: ClinicVaccineSchedule[]
+	patients?: Patient[]
+	_count?: {
+		entries?: number
+		assignments?: number
+		patients?: number
+	}
+}
+
+export type ClinicVaccineSchedule = {
+	id?: string
+	clinicId: string
+	scheduleVersionId: string
+	assignedById?: string | null
+	assignedAt?: Date
+	clinic?: Clinic
+	scheduleVersion?: VaccineScheduleVersion
 }
 
 export type Expense = {
@@ -0,0 +1,313 @@
+// src/utils/allergy.ts
+
+/**
+ * Structured allergies: free-text parsing and drug-allergy matching
+ * Pure functions - callers load the allergies and the drugs
+ */
+
+export type AllergyTypeValue = 'DRUG' | 'FOOD' | 'ENVIRONMENTAL'
+
+export type AllergySeverityValue =
+	| 'MILD'
+	| 'MODERATE'
+	| 'SEVERE'
+	| 'LIFE_THREATENING'
+
+export type AllergyVerificationValue =
+	| 'UNCONFIRMED'
+	| 'CONFIRMED'
+	| 'REFUTED'
+	| 'ENTERED_IN_ERROR'
+
+export interface AllergySuggestion {
+	allergen: string
+	type: AllergyTypeValue
+	reaction: string | null
+	severity: AllergySeverityValue | null
+	/** Fragment of the free text the suggestion was read from */
+	source: string
+}
+
+export interface AllergyRecord {
+	id?: string
+	allergen: string
+	type: AllergyTypeValue
+	reaction?: string | null
+	severity?: AllergySeverityValue | null
+	verificationStatus: AllergyVerificationValue
+	/** Parsed on the fly from Patient.allergies, not reviewed by anyone */
+	fromFreeText?: boolean
+}
+
+export interface AllergyDrug {
+	name: string
+	genericName?: string | null
+	brandNames?: string[]
+	drugClass?: string | null
+}
+
+export type AllergyWarningCode = 'ALLERGY_DRUG_MATCH' | 'ALLERGY_CLASS_MATCH'
+
+export interface AllergyWarning {
+	code: AllergyWarningCode
+	message: string
+	/** Blocking matches need a documented reason before they are saved */
+	requiresOverride: boolean
+	allergen: string
+	allergyId?: string
+	severity: AllergySeverityValue | null
+	verificationStatus: AllergyVerificationValue
+}
+
+const NO_KNOWN_ALLERGIES =
+	/^(none|nil|no|nka|nkda|n\/a|na|-|no known( drug)? allerg(y|ies))$/i
+
+const FOOD_TERMS =
+	/\b(milk|dairy|lactose|egg|peanut|nut|almond|cashew|soy|soya|wheat|gluten|fish|shellfish|shrimp|sesame|strawberr(y|ies)|banana|chocolate|formula|food)s?\b/i
+
+const ENVIRONMENTAL_TERMS =
+	/\b(dust|mite|pollen|grass|mold|mould|pet|cat|dog|animal|latex|bee|wasp|insect|sting|smoke|perfume|cold)s?\b/i
+
+const SEVERITY_TERMS: [RegExp, AllergySeverityValue][] = [
+	[/\banaphyla(xis|ctic)\b|\blife[\s-]threatening\b/i, 'LIFE_THREATENING'],
+	[/\bsevere\b/i, 'SEVERE'],
+	[/\bmoderate\b/i, 'MODERATE'],
+	[/\bmild\b/i, 'MILD'],
+]
+
+// Classes recognisable from the drug name when Drug.drugClass is empty
+const CLASS_NAME_PATTERNS: [string, RegExp][] = [
+	['penicillin', /cillin$/],
+	['cephalosporin', /^(cef|ceph)/],
+	['sulfonamide', /^(sulfa|sulpha)/],
+]
+
+const CLASS_ALIASES: Record<string, string> = {
+	cephalosporins: 'cephalosporin',
+	penicillins: 'penicillin',
+	sulfa: 'sulfonamide',
+	sulfonamides: 'sulfonamide',
+	sulpha: 'sulfonamide',
+}
+
+const BLOCKING_SEVERITIES: AllergySeverityValue[] = [
+	'SEVERE',
+	'LIFE_THREATENING',
+]
+
+// ==================== PARSING ====================
+
+/**
+ * Read the free-text Patient.allergies column into structured
+ * suggestions, e.g. "Penicillin (anaphylaxis); eggs - rash".
+ * Suggestions are for review - nothing here is verified.
+ */
+export function parseAllergyText(
+	text: string | null | undefined
+): AllergySuggestion[] {
+	if (!text?.trim() || NO_KNOWN_ALLERGIES.test(text.trim())) return []
+
+	const seen = new Set<string>()
+	const suggestions: AllergySuggestion[] = []
+
+	for (const raw of text.split(/[,;\n]|\s+(?:and|&)\s+/i)) {
+		const source = raw.trim()
+		if (!source || NO_KNOWN_ALLERGIES.test(source)) continue
+
+		const suggestion = parseAllergyFragment(source)
+		const key = normalizeTerm(suggestion.allergen)
+		if (!key || seen.has(key)) continue
+
+		seen.add(key)
+		suggestions.push(suggestion)
+	}
+
+	return suggestions
+}
+
+function parseAllergyFragment(source: string): AllergySuggestion {
+	let allergen = source.replace(/^allerg(y|ic|ies)\s*(to|:)?\s*/i, '')
+	let reaction: string | null = null
+
+	// "Penicillin (rash)"
+	const inParens = allergen.match(/^(.*?)\s*\((.+)\)\s*$/)
+	// "Penicillin - rash", "Penicillin: rash", "Penicillin causes rash"
+	const separated = allergen.match(
+		/^(.*?)\s*(?:\s-\s|:|->|\bcauses\b|\bgives\b)\s*(.+)$/i
+	)
+
+	if (inParens?.[1] && inParens[2]) {
+		allergen = inParens[1]
+		reaction = inParens[2]
+	} else if (separated?.[1] && separated[2]) {
+		allergen = separated[1]
+		reaction = separated[2]
+	}
+
+	const severity =
+		SEVERITY_TERMS.find(([pattern]) => pattern.test(source))?.[1] ?? null
+
+	allergen = allergen
+		.replace(/\b(mild|moderate|severe)\b/gi, '')
+		.replace(/\ballerg(y|ies)\b/gi, '')
+		.replace(/\s+/g, ' ')
+		.trim()
+
+	return {
+		allergen: allergen || source,
+		reaction: reaction?.trim() || null,
+		severity,
+		source,
+		type: classifyAllergen(allergen),
+	}
+}
+
+/**
+ * Best guess of the allergy type from the allergen name
+ */
+export function classifyAllergen(allergen: string): AllergyTypeValue {
+	if (FOOD_TERMS.test(allergen)) return 'FOOD'
+	if (ENVIRONMENTAL_TERMS.test(allergen)) return 'ENVIRONMENTAL'
+	return 'DRUG'
+}
+
+// ==================== MATCHING ====================
+
+/**
+ * Lowercase, punctuation-free form used for every comparison
+ */
+export function normalizeTerm(value: string): string {
+	return value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, ' ')
+		.trim()
+}
+
+function canonicalClass(value: string): string {
+	// "sulfa drugs", "penicillin antibiotics"
+	const term = normalizeTerm(value).replace(
+		/ (drug|antibiotic|medication)s?$/,
+		''
+	)
+	return CLASS_ALIASES[term] ?? term.replace(/s$/, '')
+}
+
+function containsTerm(haystack: string, needle: string): boolean {
+	return needle.length >= 3 && ` ${haystack} `.includes(` ${needle} `)
+}
+
+/**
+ * Drug classes of a drug: Drug.drugClass plus any class its name implies
+ */
+export function drugClassesOf(drug: AllergyDrug): string[] {
+	const classes = new Set<string>()
+	if (drug.drugClass) classes.add(canonicalClass(drug.drugClass))
+
+	for (const name of [drug.name, drug.genericName]) {
+		if (!name) continue
+		const term = normalizeTerm(name)
+		for (const [drugClass, pattern] of CLASS_NAME_PATTERNS) {
+			if (pattern.test(term)) classes.add(drugClass)
+		}
+	}
+
+	return [...classes]
+}
+
+/**
+ * Compare one drug against the patient's allergies.
+ *
+ * - A drug allergen naming the drug (or one of its brands) blocks
+ * - A drug allergen naming its class, or another drug of the same class,
+ *   blocks when the recorded reaction was severe and warns otherwise
+ * - Refuted entries, entries in error and food/environmental allergies
+ *   are ignored; unreviewed free-text entries only ever warn
+ *
+ * `allergenClasses` maps a normalized allergen to the classes of the
+ * formulary drug it names, so an allergy to one drug also flags the
+ * rest of its class.
+ */
+export function checkDrugAllergies(
+	drug: AllergyDrug,
+	allergies: AllergyRecord[],
+	allergenClasses: Map<string, string[]> = new Map()
+): AllergyWarning[] {
+	const names = [drug.name, drug.genericName, ...(drug.brandNames ?? [])]
+		.filter((name): name is string => Boolean(name))
+		.map(normalizeTerm)
+	const classes = drugClassesOf(drug)
+	const warnings: AllergyWarning[] = []
+
+	for (const allergy of allergies) {
+		if (
+			allergy.type !== 'DRUG' ||
+			allergy.verificationStatus === 'REFUTED' ||
+			allergy.verificationStatus === 'ENTERED_IN_ERROR'
+		) {
+			continue
+		}
+
+		const allergen = normalizeTerm(allergy.allergen)
+		const ref = {
+			allergen: allergy.allergen,
+			allergyId: allergy.id,
+			severity: allergy.severity ?? null,
+			verificationStatus: allergy.verificationStatus,
+		}
+		const detail = describeAllergy(allergy)
+
+		if (
+			names.some(
+				name =>
+					name === allergen ||
+					containsTerm(name, allergen) ||
+					containsTerm(allergen, name)
+			)
+		) {
+			warnings.push({
+				...ref,
+				code: 'ALLERGY_DRUG_MATCH',
+				message: `Recorded allergy to ${allergy.allergen}${detail}`,
+				requiresOverride: !allergy.fromFreeText,
+			})
+			continue
+		}
+
+		const allergenClass = canonicalClass(allergy.allergen)
+		const namedClasses = [
+			...(allergenClasses.get(allergen) ?? []),
+			...drugClassesOf({ name: allergy.allergen }),
+		]
+		const sharedClass = classes.find(
+			drugClass =>
+				drugClass === allergenClass ||
+				containsTerm(allergenClass, drugClass) ||
+				namedClasses.includes(drugClass)
+		)
+
+		if (sharedClass) {
+			warnings.push({
+				...ref,
+				code: 'ALLERGY_CLASS_MATCH',
+				message: `${drug.name} is a ${sharedClass} - recorded allergy to ${allergy.allergen}${detail}`,
+				requiresOverride:
+					!allergy.fromFreeText &&
+					BLOCKING_SEVERITIES.includes(allergy.severity ?? 'MILD'),
+			})
+		}
+	}
+
+	return warnings
+}
+
+function describeAllergy(allergy: AllergyRecord): string {
+	const parts = [
+		allergy.reaction,
+		allergy.severity?.toLowerCase().replace('_', ' '),
+		allergy.fromFreeText
+			? 'free-text entry, not reviewed'
+			: allergy.verificationStatus.toLowerCase(),
+	].filter(Boolean)
+
+	return parts.length > 0 ? ` (${parts.join(', ')})` : ''
+}
@@ -0,0 +1,338 @@
+// src/utils/bilirubin.ts
+
+/**
+ * Neonatal jaundice - hour-specific nomogram risk zones, phototherapy and
+ * exchange transfusion thresholds, and when to recheck
+ * Pure functions - tables are data (prisma/data/bilirubin_tables.json)
+ */
+
+export type BilirubinMethodValue = 'TSB' | 'TCB'
+
+export type BilirubinCurveKindValue = 'NOMOGRAM' | 'PHOTOTHERAPY' | 'EXCHANGE'
+
+export type BilirubinRiskZoneValue =
+	| 'LOW'
+	| 'LOW_INTERMEDIATE'
+	| 'HIGH_INTERMEDIATE'
+	| 'HIGH'
+
+/** Table catalog in prisma/data */
+export const BILIRUBIN_TABLES_FILE = 'bilirubin_tables.json'
+
+/** µmol/L per mg/dL */
+export const BILIRUBIN_UMOL_PER_MG_DL = 17.1
+
+export interface BilirubinCurveDefinition {
+	kind: BilirubinCurveKindValue
+	label: string
+	/** Nomogram percentile; null for treatment thresholds */
+	percentile?: number | null
+	minGestationalAgeWeeks?: number | null
+	maxGestationalAgeWeeks?: number | null
+	/** Null applies with or without risk factors */
+	withRiskFactors?: boolean | null
+	hours: number[]
+	/** mg/dL at each entry of hours, same order */
+	values: number[]
+}
+
+export interface BilirubinZoneDefinition {
+	zone: BilirubinRiskZoneValue
+	/** Lowest nomogram percentile in the zone; null for the bottom zone */
+	minPercentile?: number | null
+	recheckHours?: number | null
+	recommendation: string
+}
+
+export interface BilirubinTableDefinition {
+	code: string
+	name: string
+	description?: string | null
+	version: string
+	source?: string | null
+	minGestationalAgeWeeks: number
+	riskFactorCodes: string[]
+	riskFactorLabels: string[]
+	approachingMarginMgDl: number
+	approachingRecheckHours: number
+	phototherapyRecheckHours: number
+	exchangeRecheckHours: number
+	tcbConfirmMarginMgDl: number
+	curves: BilirubinCurveDefinition[]
+	zones: BilirubinZoneDefinition[]
+}
+
+export interface BilirubinReading {
+	ageHours: number
+	/** mg/dL */
+	value: number
+	method: BilirubinMethodValue
+	gestationalAgeWeeks: number
+	riskFactors: string[]
+}
+
+export interface BilirubinAssessment {
+	/** Null outside the nomogram's hours or gestational ages */
+	riskZone: BilirubinRiskZoneValue | null
+	phototherapyThreshold: number | null
+	exchangeThreshold: number | null
+	phototherapyIndicated: boolean
+	exchangeIndicated: boolean
+	/** Transcutaneous reading close enough to treatment to need a serum level */
+	confirmWithTsb: boolean
+	recheckHours: number | null
+	recommendation: string
+}
+
+/**
+ * Configuration problems that would make the assessment ambiguous
+ */
+export function validateBilirubinTable(
+	table: BilirubinTableDefinition
+): string[] {
+	const errors: string[] = []
+
+	if (table.riskFactorCodes.length !== table.riskFactorLabels.length) {
+		errors.push('Risk factors need one label per code')
+	}
+
+	for (const curve of table.curves) {
+		if (
+			curve.hours.length === 0 ||
+			curve.hours.length !== curve.values.length
+		) {
+			errors.push(`${curve.label} needs one value per hour`)
+		}
+		if (curve.hours.some((hour, i) => i > 0 && hour <= curve.hours[i - 1])) {
+			errors.push(`${curve.label} hours must increase`)
+		}
+		if (curve.kind === 'NOMOGRAM' && curve.percentile == null) {
+			errors.push(`${curve.label} needs a percentile`)
+		}
+	}
+
+	const percentiles = new Set(
+		table.curves
+			.filter(curve => curve.kind === 'NOMOGRAM')
+			.map(curve => curve.percentile)
+	)
+	const zones = new Set<BilirubinRiskZoneValue>()
+	for (const zone of table.zones) {
+		if (zones.has(zone.zone)) {
+			errors.push(`Zone ${zone.zone} is defined twice`)
+		}
+		zones.add(zone.zone)
+		if (zone.minPercentile != null && !percentiles.has(zone.minPercentile)) {
+			errors.push(
+				`Zone ${zone.zone} starts at the ${zone.minPercentile}th percentile, which has no nomogram curve`
+			)
+		}
+	}
+	if (!table.zones.some(zone => zone.minPercentile == null)) {
+		errors.push('A zone below every nomogram curve is required')
+	}
+
+	for (const kind of ['PHOTOTHERAPY', 'EXCHANGE'] as const) {
+		if (!table.curves.some(curve => curve.kind === kind)) {
+			errors.push(`At least one ${kind.toLowerCase()} curve is required`)
+		}
+	}
+
+	return errors
+}
+
+/**
+ * Value at an age, interpolated between points. Null before the first
+ * point; the curve stays flat after the last.
+ */
+export function curveValueAt(
+	curve: Pick<BilirubinCurveDefinition, 'hours' | 'values'>,
+	ageHours: number
+): number | null {
+	const { hours, values } = curve
+	if (hours.length === 0 || ageHours < hours[0]) return null
+	if (ageHours >= hours[hours.length - 1]) return values[values.length - 1]
+
+	const upper = hours.findIndex(hour => hour > ageHours)
+	const [h0, h1] = [hours[upper - 1], hours[upper]]
+	const [v0, v1] = [values[upper - 1], values[upper]]
+
+	return Math.round((v0 + ((ageHours - h0) / (h1 - h0)) * (v1 - v0)) * 10) / 10
+}
+
+/**
+ * Treatment threshold curves for a gestational age (completed weeks) and
+ * risk factor status
+ */
+export function matchingCurves<T extends BilirubinCurveDefinition>(
+	curves: T[],
+	kind: Exclude<BilirubinCurveKindValue, 'NOMOGRAM'>,
+	gestationalAgeWeeks: number,
+	hasRiskFactors: boolean
+): T[] {
+	return curves.filter(
+		curve =>
+			curve.kind === kind &&
+			(curve.minGestationalAgeWeeks == null ||
+				gestationalAgeWeeks >= curve.minGestationalAgeWeeks) &&
+			(curve.maxGestationalAgeWeeks == null ||
+				gestationalAgeWeeks <= curve.maxGestationalAgeWeeks) &&
+			(curve.withRiskFactors == null ||
+				curve.withRiskFactors === hasRiskFactors)
+	)
+}
+
+/**
+ * Threshold at an age; where several curves apply, the lowest is used
+ */
+export function thresholdAt(
+	curves: BilirubinCurveDefinition[],
+	kind: Exclude<BilirubinCurveKindValue, 'NOMOGRAM'>,
+	gestationalAgeWeeks: number,
+	hasRiskFactors: boolean,
+	ageHours: number
+): number | null {
+	const thresholds = matchingCurves(
+		curves,
+		kind,
+		gestationalAgeWeeks,
+		hasRiskFactors
+	)
+		.map(curve => curveValueAt(curve, ageHours))
+		.filter((value): value is number => value !== null)
+
+	return thresholds.length > 0 ? Math.min(...thresholds) : null
+}
+
+/**
+ * Nomogram zone: the zone starting at or below the highest percentile
+ * curve the value reaches. Null before the nomogram's first hour.
+ */
+export function bilirubinRiskZone(
+	table: Pick<BilirubinTableDefinition, 'curves' | 'zones'>,
+	ageHours: number,
+	value: number
+): BilirubinZoneDefinition | null {
+	const reached = table.curves
+		.filter(curve => curve.kind === 'NOMOGRAM')
+		.map(curve => ({
+			percentile: curve.percentile ?? 0,
+			value: curveValueAt(curve, ageHours),
+		}))
+	if (reached.some(curve => curve.value === null)) return null
+
+	const percentile = reached
+		.filter(curve => value >= (curve.value ?? 0))
+		.reduce<number | null>(
+			(highest, curve) =>
+				highest === null || curve.percentile > highest
+					? curve.percentile
+					: highest,
+			null
+		)
+
+	// Below every curve ranks under any percentile
+	const rank = (minPercentile?: number | null) => minPercentile ?? -1
+
+	return (
+		table.zones
+			.filter(zone => rank(zone.minPercentile) <= rank(percentile))
+			.sort((a, b) => rank(b.minPercentile) - rank(a.minPercentile))[0] ?? null
+	)
+}
+
+/**
+ * Zone, treatment thresholds and recheck time for one reading. Treatment
+ * thresholds take precedence over the zone; a reading close to the
+ * phototherapy threshold is rechecked sooner.
+ */
+export function assessBilirubin(
+	table: BilirubinTableDefinition,
+	reading: BilirubinReading
+): BilirubinAssessment {
+	if (reading.gestationalAgeWeeks < table.minGestationalAgeWeeks) {
+		return {
+			confirmWithTsb: false,
+			exchangeIndicated: false,
+			exchangeThreshold: null,
+			phototherapyIndicated: false,
+			phototherapyThreshold: null,
+			recheckHours: null,
+			recommendation: `${table.name} applies from ${table.minGestationalAgeWeeks} weeks; use the preterm protocol`,
+			riskZone: null,
+		}
+	}
+
+	const hasRiskFactors = reading.riskFactors.length > 0
+	const zone = bilirubinRiskZone(table, reading.ageHours, reading.value)
+	const phototherapyThreshold = thresholdAt(
+		table.curves,
+		'PHOTOTHERAPY',
+		reading.gestationalAgeWeeks,
+		hasRiskFactors,
+		reading.ageHours
+	)
+	const exchangeThreshold = thresholdAt(
+		table.curves,
+		'EXCHANGE',
+		reading.gestationalAgeWeeks,
+		hasRiskFactors,
+		reading.ageHours
+	)
+
+	const exchangeIndicated =
+		exchangeThreshold !== null && reading.value >= exchangeThreshold
+	const phototherapyIndicated =
+		phototherapyThreshold !== null && reading.value >= phototherapyThreshold
+	const confirmWithTsb =
+		reading.method === 'TCB' &&
+		phototherapyThreshold !== null &&
+		reading.value >= phototherapyThreshold - table.tcbConfirmMarginMgDl
+
+	const advice: string[] = []
+	let recheckHours = zone?.recheckHours ?? null
+
+	if (exchangeIndicated) {
+		advice.push(
+			`At or above the exchange transfusion threshold (${exchangeThreshold} mg/dL): start intensive phototherapy and prepare for exchange transfusion`
+		)
+		recheckHours = table.exchangeRecheckHours
+	} else if (phototherapyIndicated) {
+		advice.push(
+			`At or above the phototherapy threshold (${phototherapyThreshold} mg/dL): start phototherapy`
+		)
+		recheckHours = table.phototherapyRecheckHours
+	} else {
+		if (
+			phototherapyThreshold !== null &&
+			phototherapyThreshold - reading.value < table.approachingMarginMgDl
+		) {
+			advice.push(
+				`Within ${table.approachingMarginMgDl} mg/dL of the phototherapy threshold (${phototherapyThreshold} mg/dL)`
+			)
+			recheckHours = Math.min(
+				recheckHours ?? table.approachingRecheckHours,
+				table.approachingRecheckHours
+			)
+		}
+		advice.push(
+			zone?.recommendation ??
+				'Before the first hour of the nomogram: assess clinically'
+		)
+	}
+
+	if (confirmWithTsb) {
+		advice.push('Transcutaneous reading: confirm with a serum bilirubin')
+	}
+
+	return {
+		confirmWithTsb,
+		exchangeIndicated,
+		exchangeThreshold,
+		phototherapyIndicated,
+		phototherapyThreshold,
+		recheckHours,
+		recommendation: advice.join('. '),
+		riskZone: zone?.zone ?? null,
+	}
+}
@@ -0,0 +1,62 @@
+// src/utils/csv.ts
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF)
+ * Returns one object per data row keyed by the trimmed header names.
+ * Empty cells are omitted so optional schema fields stay undefined.
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+	const rows: string[][] = []
+	let row: string[] = []
+	let field = ''
+	let inQuotes = false
+
+	for (let i = 0; i < content.length; i++) {
+		const char = content[i]
+
+		if (inQuotes) {
+			if (char === '"' && content[i + 1] === '"') {
+				field += '"'
+				i++
+			} else if (char === '"') {
+				inQuotes = false
+			} else {
+				field += char
+			}
+			continue
+		}
+
+		if (char === '"') {
+			inQuotes = true
+		} else if (char === ',') {
+			row.push(field)
+			field = ''
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && content[i + 1] === '\n') i++
+			row.push(field)
+			rows.push(row)
+			row = []
+			field = ''
+		} else {
+			field += char
+		}
+	}
+
+	if (field !== '' || row.length > 0) {
+		row.push(field)
+		rows.push(row)
+	}
+
+	const [header, ...data] = rows.filter(r => r.some(cell => cell.trim()))
+	if (!header) return []
+
+	const keys = header.map(h => h.trim())
+
+	return data.map(cells =>
+		Object.fromEntries(
+			keys
+				.map((key, index) => [key, cells[index]?.trim() ?? ''] as const)
+				.filter(([, value]) => value !== '')
+		)
+	)
+}
@@ -0,0 +1,189 @@
+// src/utils/development.ts
+
+/**
+ * Developmental surveillance - well-child checklist ages, per-domain
+ * status from the milestones observed, and missed milestone tracking
+ * Pure functions - callers load the catalog and the check history
+ */
+
+export type DevelopmentDomainValue =
+	| 'MOTOR'
+	| 'LANGUAGE'
+	| 'SOCIAL'
+	| 'COGNITIVE'
+
+export type DevelopmentStatusValue =
+	| 'NORMAL'
+	| 'DELAYED'
+	| 'ADVANCED'
+	| 'CONCERNING'
+
+/** Catalog in prisma/data, one entry per milestone */
+export const MILESTONE_CATALOG_FILE = 'developmental_milestones.json'
+
+/** Well-child visit ages the catalog is keyed by */
+export const WELL_CHILD_AGES_MONTHS = [
+	2, 4, 6, 9, 12, 15, 18, 24, 30, 36, 48, 60,
+]
+
+export const DEVELOPMENT_DOMAINS: DevelopmentDomainValue[] = [
+	'MOTOR',
+	'LANGUAGE',
+	'SOCIAL',
+	'COGNITIVE',
+]
+
+export const DEVELOPMENT_DOMAIN_LABELS: Record<DevelopmentDomainValue, string> =
+	{
+		COGNITIVE: 'Cognitive',
+		LANGUAGE: 'Language/communication',
+		MOTOR: 'Motor',
+		SOCIAL: 'Social/emotional',
+	}
+
+/** Statuses that flag the check for referral */
+export const REFERRAL_STATUSES: DevelopmentStatusValue[] = [
+	'DELAYED',
+	'CONCERNING',
+]
+
+export interface MilestoneCatalogEntry {
+	code: string
+	domain: DevelopmentDomainValue
+	ageMonths: number
+	description: string
+}
+
+export interface MilestoneObservation {
+	milestoneId: string
+	domain: DevelopmentDomainValue
+	/** Well-child age the milestone is expected by */
+	ageMonths: number
+	achieved: boolean
+	/** Marked achieved at an earlier check */
+	previouslyAchieved?: boolean
+}
+
+export interface DevelopmentAssessment {
+	statuses: Record<DevelopmentDomainValue, DevelopmentStatusValue>
+	/** Domains DELAYED or CONCERNING */
+	referralDomains: DevelopmentDomainValue[]
+	referralFlagged: boolean
+}
+
+/**
+ * Latest well-child age the child has reached, or null before the first
+ */
+export function checklistAgeMonths(ageMonths: number): number | null {
+	return WELL_CHILD_AGES_MONTHS.filter(age => age <= ageMonths).at(-1) ?? null
+}
+
+/**
+ * One domain's status from its observations at a checklist age:
+ * - loss of a milestone achieved before, or a milestone missed from two
+ *   or more visits back, is CONCERNING
+ * - a milestone missed from an earlier visit is DELAYED
+ * - milestones only missed at the current visit are still emerging
+ */
+export function deriveDomainStatus(
+	observations: MilestoneObservation[],
+	checklistAge: number
+): DevelopmentStatusValue {
+	const visitIndex = WELL_CHILD_AGES_MONTHS.indexOf(checklistAge)
+	const missed = observations.filter(o => !o.achieved)
+
+	if (missed.some(o => o.previouslyAchieved)) return 'CONCERNING'
+
+	const earlier = missed.filter(o => o.ageMonths < checklistAge)
+	if (
+		earlier.some(
+			o => visitIndex - WELL_CHILD_AGES_MONTHS.indexOf(o.ageMonths) >= 2
+		)
+	) {
+		return 'CONCERNING'
+	}
+
+	return earlier.length > 0 ? 'DELAYED' : 'NORMAL'
+}
+
+/**
+ * Status of every domain, with the clinician's overrides applied, and
+ * whether the check is flagged for referral
+ */
+export function assessDevelopment(
+	observations: MilestoneObservation[],
+	checklistAge: number,
+	overrides: Partial<
+		Record<DevelopmentDomainValue, DevelopmentStatusValue>
+	> = {}
+): DevelopmentAssessment {
+	const statuses = Object.fromEntries(
+		DEVELOPMENT_DOMAINS.map(domain => [
+			domain,
+			overrides[domain] ??
+				deriveDomainStatus(
+					observations.filter(o => o.domain === domain),
+					checklistAge
+				),
+		])
+	) as Record<DevelopmentDomainValue, DevelopmentStatusValue>
+
+	const referralDomains = DEVELOPMENT_DOMAINS.filter(domain =>
+		REFERRAL_STATUSES.includes(statuses[domain])
+	)
+
+	return {
+		referralDomains,
+		referralFlagged: referralDomains.length > 0,
+		statuses,
+	}
+}
+
+export interface CheckItemHistory {
+	milestoneId: string
+	achieved: boolean
+	checkDate: Date
+}
+
+export interface MissedMilestone {
+	milestoneId: string
+	firstMissedAt: Date
+	lastCheckedAt: Date
+	/** Checks it was marked not achieved at */
+	timesMissed: number
+}
+
+/**
+ * Milestones not achieved at the latest check they appeared on, with how
+ * long and how often they have been missed
+ */
+export function missedMilestones(items: CheckItemHistory[]): MissedMilestone[] {
+	const byMilestone = new Map<string, CheckItemHistory[]>()
+	for (const item of items) {
+		byMilestone.set(item.milestoneId, [
+			...(byMilestone.get(item.milestoneId) ?? []),
+			item,
+		])
+	}
+
+	const missed: MissedMilestone[] = []
+	for (const [milestoneId, history] of byMilestone) {
+		const sorted = history.sort(
+			(a, b) => a.checkDate.getTime() - b.checkDate.getTime()
+		)
+		const latest = sorted[sorted.length - 1]
+		if (latest.achieved) continue
+
+		const misses = sorted.filter(item => !item.achieved)
+		missed.push({
+			firstMissedAt: misses[0].checkDate,
+			lastCheckedAt: latest.checkDate,
+			milestoneId,
+			timesMissed: misses.length,
+		})
+	}
+
+	return missed.sort(
+		(a, b) => a.firstMissedAt.getTime() - b.firstMissedAt.getTime()
+	)
+}
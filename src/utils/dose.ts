@@ -1,70 +1,565 @@
-import { db } from '../server/db'
+// src/utils/dose.ts
 
-interface DoseGuideline {
-	minDose?: number | null
-	maxDose?: number | null
+/**
+ * Weight-based dose checking against DoseGuideline rows
+ * Pure functions - callers load the guidelines and the patient context
+ */
+
+export interface DoseGuidelineRule {
+	id?: string
+	route: string
+	clinicalIndication: string
 	minDosePerKg?: number | null
 	maxDosePerKg?: number | null
 	doseUnit?: string | null
+	frequencyDays?: string | null
+	gestationalAgeWeeksMin?: number | null
+	gestationalAgeWeeksMax?: number | null
+	postNatalAgeDaysMin?: number | null
+	postNatalAgeDaysMax?: number | null
+	maxDosePer24h?: number | null
+	stockConcentrationMgMl?: number | null
+	finalConcentrationMgMl?: number | null
+	minInfusionTimeMin?: number | null
+	compatibilityDiluent?: string | null
+}
+
+export interface DoseContext {
+	weightKg: number | null
+	weighedAt?: Date | null
+	postnatalAgeDays: number
+	/** Gestational age at birth, when recorded */
+	gestationalAgeWeeks?: number | null
 }
 
-interface PrescriptionItem {
-	drugId: string
+export interface PrescriptionItem {
 	dosageValue: number
 	dosageUnit: string
+	frequency?: string | null
+	drugRoute?: string | null
+}
+
+export type DoseWarningCode =
+	| 'NO_GUIDELINE'
+	| 'NO_MATCHING_GUIDELINE'
+	| 'NO_WEIGHT'
+	| 'STALE_WEIGHT'
+	| 'GESTATIONAL_AGE_UNKNOWN'
+	| 'UNIT_NOT_COMPARABLE'
+	| 'FREQUENCY_UNKNOWN'
+	| 'BELOW_MIN_DOSE'
+	| 'ABOVE_MAX_DOSE'
+	| 'ABOVE_MAX_DAILY_DOSE'
+
+export interface DoseWarning {
+	code: DoseWarningCode
+	message: string
+	/** Out-of-range doses need a documented reason before they are saved */
+	requiresOverride: boolean
+	guidelineId?: string
+	clinicalIndication?: string
+	actual?: number
+	limit?: number
+	unit?: string
+}
+
+export interface DoseUnit {
+	amount: 'mcg' | 'mg' | 'g' | 'units'
+	basis: 'dose' | 'day' | 'min' | 'hr'
+}
+
+// Rounding to a measurable volume should not trip the range check
+const DOSE_TOLERANCE = 0.05
+
+const MG_PER_UNIT: Record<'mcg' | 'mg' | 'g', number> = {
+	g: 1000,
+	mcg: 0.001,
+	mg: 1,
+}
+
+// Route codes used by guidelines vs the DrugRoute enum on prescribed items
+const ROUTE_ALIASES: Record<string, string> = {
+	INHALATION: 'INHALED',
+	INTRAMUSCULAR: 'IM',
+	INTRAVENOUS: 'IV',
+	ORAL: 'PO',
+	SUBCUTANEOUS: 'SC',
+}
+
+/**
+ * Parse guideline units such as "mg/kg/dose", "mcg/kg/min", "g/kg/day"
+ */
+export function parseDoseUnit(
+	unit: string | null | undefined
+): DoseUnit | null {
+	const match = unit
+		?.trim()
+		.toLowerCase()
+		.match(/^(mcg|mg|g|units?|iu)\/kg\/(dose|day|min|hr|h)$/)
+	if (!match?.[1] || !match[2]) return null
+
+	const amount =
+		match[1].startsWith('unit') || match[1] === 'iu' ? 'units' : match[1]
+	const basis = match[2] === 'h' ? 'hr' : match[2]
+
+	return { amount, basis } as DoseUnit
+}
+
+/**
+ * Doses per 24 hours from a prescription or guideline frequency
+ * Ranges ("Q8-12H") resolve to the most frequent end so daily maxima are
+ * checked conservatively. Returns null for continuous or PRN-only text.
+ */
+export function dosesPerDay(
+	frequency: string | null | undefined
+): number | null {
+	const text = frequency?.trim().toLowerCase()
+	if (!text) return null
+
+	if (/single dose|^once$|^stat$/.test(text)) return 1
+
+	const hourly =
+		text.match(/^q(\d+(?:\.\d+)?)(?:-\d+(?:\.\d+)?)?\s*h/) ??
+		text.match(/every (\d+(?:\.\d+)?) hours?/)
+	if (hourly?.[1]) return 24 / Number(hourly[1])
+
+	const counted = text.match(
+		/^(once|twice|thrice|(\d+) times?)\s+(daily|weekly|monthly)/
+	)
+	if (counted?.[1] && counted[3]) {
+		const times =
+			counted[1] === 'once'
+				? 1
+				: counted[1] === 'twice'
+					? 2
+					: counted[1] === 'thrice'
+						? 3
+						: Number(counted[2])
+		const days = counted[3] === 'weekly' ? 7 : counted[3] === 'monthly' ? 30 : 1
+		return times / days
+	}
+
+	return null
+}
+
+export function normalizeDrugRoute(route: string | null | undefined): string {
+	const upper = route?.trim().toUpperCase() ?? ''
+	return ROUTE_ALIASES[upper] ?? upper
+}
+
+/**
+ * Express a prescribed amount in the guideline's amount unit
+ * Volumes are converted through the stock concentration (mg/mL).
+ * Returns null when the units cannot be compared (tablets, drops...).
+ */
+export function convertDoseAmount(
+	value: number,
+	unit: string,
+	target: DoseUnit['amount'],
+	concentrationMgMl?: number | null
+): number | null {
+	const from = unit.toUpperCase()
+
+	if (target === 'units') {
+		return from === 'IU' || from === 'UNIT' ? value : null
+	}
+
+	let mg: number | null = null
+	if (from === 'MG') mg = value
+	else if (from === 'MCG') mg = value * MG_PER_UNIT.mcg
+	else if (from === 'G') mg = value * MG_PER_UNIT.g
+	else if (from === 'ML' && concentrationMgMl) mg = value * concentrationMgMl
+
+	return mg === null ? null : mg / MG_PER_UNIT[target]
+}
+
+/**
+ * Postmenstrual age in weeks, when gestational age at birth is known
+ */
+export function postmenstrualAgeWeeks(context: DoseContext): number | null {
+	if (context.gestationalAgeWeeks == null) return null
+	return context.gestationalAgeWeeks + context.postnatalAgeDays / 7
 }
 
-export async function validateDoseAgainstGuidelines(
+/**
+ * Guidelines whose route, postnatal-age and gestational-age bands fit the
+ * patient. Bands are inclusive and postmenstrual age is compared in
+ * completed weeks, so "PMA ≤29 weeks" still covers 29+6; bounds the
+ * patient cannot be placed on (unknown gestational age) do not exclude a
+ * guideline.
+ */
+export function matchDoseGuidelines<T extends DoseGuidelineRule>(
+	guidelines: T[],
+	context: DoseContext,
+	route?: string | null
+): T[] {
+	const exactPma = postmenstrualAgeWeeks(context)
+	const pma = exactPma === null ? null : Math.floor(exactPma)
+	const wantedRoute = route ? normalizeDrugRoute(route) : null
+
+	return guidelines.filter(g => {
+		if (wantedRoute && normalizeDrugRoute(g.route) !== wantedRoute) return false
+
+		if (
+			g.postNatalAgeDaysMin != null &&
+			context.postnatalAgeDays < g.postNatalAgeDaysMin
+		)
+			return false
+		if (
+			g.postNatalAgeDaysMax != null &&
+			context.postnatalAgeDays > g.postNatalAgeDaysMax
+		)
+			return false
+
+		if (pma !== null) {
+			if (g.gestationalAgeWeeksMin != null && pma < g.gestationalAgeWeeksMin)
+				return false
+			if (g.gestationalAgeWeeksMax != null && pma > g.gestationalAgeWeeksMax)
+				return false
+		}
+
+		return true
+	})
+}
+
+/**
+ * Days after which the latest weight is no longer trusted for dosing
+ * Neonates and young infants gain weight fast enough to matter weekly
+ */
+export function weightMaxAgeDays(postnatalAgeDays: number): number {
+	return postnatalAgeDays < 90 ? 7 : 30
+}
+
+function round(value: number): number {
+	return Math.round(value * 1000) / 1000
+}
+
+function checkGuideline(
 	item: PrescriptionItem,
-	guidelines: DoseGuideline[],
-	patientId: string
-) {
-	if (!guidelines.length) {
-		return
+	guideline: DoseGuidelineRule,
+	weightKg: number
+): { comparable: boolean; warnings: DoseWarning[] } {
+	const unit = parseDoseUnit(guideline.doseUnit)
+	// Infusion rates are checked by the infusion calculator, not per item
+	if (!unit || unit.basis === 'min' || unit.basis === 'hr') {
+		return { comparable: false, warnings: [] }
 	}
 
-	const guideline = guidelines.find(g => g.doseUnit === item.dosageUnit)
-	if (!guideline) {
-		return
+	const amount = convertDoseAmount(
+		item.dosageValue,
+		item.dosageUnit,
+		unit.amount,
+		guideline.stockConcentrationMgMl
+	)
+	if (amount === null) return { comparable: false, warnings: [] }
+
+	const perDose = amount / weightKg
+	const perDayCount = dosesPerDay(item.frequency)
+	const perDay = perDayCount === null ? null : perDose * perDayCount
+
+	const checked = unit.basis === 'dose' ? perDose : perDay
+	const label = `${unit.amount}/kg/${unit.basis}`
+	const ref = {
+		clinicalIndication: guideline.clinicalIndication,
+		guidelineId: guideline.id,
 	}
+	const warnings: DoseWarning[] = []
 
-	// Load patient weight (latest)
-	const vitals = await db.vitalSigns.findFirst({
-		include: {
-			growthRecords: {
-				select: {
-					height: true,
-					weight: true,
+	if (checked === null) {
+		return {
+			comparable: false,
+			warnings: [
+				{
+					...ref,
+					code: 'FREQUENCY_UNKNOWN',
+					message: `Cannot derive a daily dose from frequency "${item.frequency ?? ''}"`,
+					requiresOverride: false,
 				},
-			},
-		},
-		orderBy: { recordedAt: 'desc' },
-		where: { growthRecords: { some: { weight: { not: null } } }, patientId },
-	})
+			],
+		}
+	}
 
-	const weightKg = vitals?.growthRecords[0]?.weight ?? null
+	if (
+		guideline.minDosePerKg != null &&
+		checked < guideline.minDosePerKg * (1 - DOSE_TOLERANCE)
+	) {
+		warnings.push({
+			...ref,
+			actual: round(checked),
+			code: 'BELOW_MIN_DOSE',
+			limit: guideline.minDosePerKg,
+			message: `${round(checked)} ${label} is below the minimum of ${guideline.minDosePerKg} ${label} (${guideline.clinicalIndication})`,
+			requiresOverride: true,
+			unit: label,
+		})
+	}
 
-	// --- Fixed dose validation ---
 	if (
-		(guideline.minDose != null && item.dosageValue < guideline.minDose) ||
-		(guideline.maxDose != null && item.dosageValue > guideline.maxDose)
+		guideline.maxDosePerKg != null &&
+		checked > guideline.maxDosePerKg * (1 + DOSE_TOLERANCE)
 	) {
-		throw new Error(
-			`Dose ${item.dosageValue}${item.dosageUnit} is outside recommended fixed range`
-		)
+		warnings.push({
+			...ref,
+			actual: round(checked),
+			code: 'ABOVE_MAX_DOSE',
+			limit: guideline.maxDosePerKg,
+			message: `${round(checked)} ${label} exceeds the maximum of ${guideline.maxDosePerKg} ${label} (${guideline.clinicalIndication})`,
+			requiresOverride: true,
+			unit: label,
+		})
 	}
 
-	// --- Weight-based validation (mg/kg) ---
-	if (weightKg != null) {
-		const dosePerKg = item.dosageValue / weightKg
+	// maxDosePer24h is per kg in the guideline's amount unit
+	if (
+		guideline.maxDosePer24h != null &&
+		perDay !== null &&
+		perDay > guideline.maxDosePer24h * (1 + DOSE_TOLERANCE)
+	) {
+		warnings.push({
+			...ref,
+			actual: round(perDay),
+			code: 'ABOVE_MAX_DAILY_DOSE',
+			limit: guideline.maxDosePer24h,
+			message: `${round(perDay)} ${unit.amount}/kg/day exceeds the 24h maximum of ${guideline.maxDosePer24h} ${unit.amount}/kg/day (${guideline.clinicalIndication})`,
+			requiresOverride: true,
+			unit: `${unit.amount}/kg/day`,
+		})
+	}
 
-		if (
-			(guideline.minDosePerKg != null && dosePerKg < guideline.minDosePerKg) ||
-			(guideline.maxDosePerKg != null && dosePerKg > guideline.maxDosePerKg)
-		) {
-			throw new Error(
-				`Dose equals ${dosePerKg.toFixed(2)}${item.dosageUnit}/kg, outside safe pediatric range`
-			)
+	return { comparable: true, warnings }
+}
+
+/**
+ * Check one prescribed item against a drug's guidelines
+ * The dose is accepted when it fits any guideline matching the patient;
+ * otherwise the out-of-range findings of every matching guideline are
+ * returned so the prescriber sees which indication they were compared to.
+ */
+export function validateDoseAgainstGuidelines(
+	item: PrescriptionItem,
+	guidelines: DoseGuidelineRule[],
+	context: DoseContext,
+	asOf: Date = new Date()
+): DoseWarning[] {
+	if (guidelines.length === 0) {
+		return [
+			{
+				code: 'NO_GUIDELINE',
+				message: 'No dose guideline on file for this drug',
+				requiresOverride: false,
+			},
+		]
+	}
+
+	const matches = matchDoseGuidelines(guidelines, context, item.drugRoute)
+	if (matches.length === 0) {
+		return [
+			{
+				code: 'NO_MATCHING_GUIDELINE',
+				message: `No dose guideline covers this route at ${context.postnatalAgeDays} days of age`,
+				requiresOverride: true,
+			},
+		]
+	}
+
+	if (context.weightKg === null || context.weightKg <= 0) {
+		return [
+			{
+				code: 'NO_WEIGHT',
+				message: 'No recorded weight - weight-based dose cannot be verified',
+				requiresOverride: true,
+			},
+		]
+	}
+
+	const notes: DoseWarning[] = []
+
+	if (context.weighedAt) {
+		const ageOfWeight = Math.floor(
+			(asOf.getTime() - context.weighedAt.getTime()) / 86_400_000
+		)
+		if (ageOfWeight > weightMaxAgeDays(context.postnatalAgeDays)) {
+			notes.push({
+				actual: ageOfWeight,
+				code: 'STALE_WEIGHT',
+				limit: weightMaxAgeDays(context.postnatalAgeDays),
+				message: `Latest weight is ${ageOfWeight} days old`,
+				requiresOverride: false,
+				unit: 'days',
+			})
 		}
 	}
+
+	if (
+		context.gestationalAgeWeeks == null &&
+		matches.some(
+			g => g.gestationalAgeWeeksMin != null || g.gestationalAgeWeeksMax != null
+		)
+	) {
+		notes.push({
+			code: 'GESTATIONAL_AGE_UNKNOWN',
+			message:
+				'Gestational age is not recorded - age-banded guidelines were not narrowed',
+			requiresOverride: false,
+		})
+	}
+
+	const results = matches.map(g =>
+		checkGuideline(item, g, context.weightKg as number)
+	)
+	const comparable = results.filter(r => r.comparable)
+
+	if (comparable.length === 0) {
+		const frequencyNotes = results.flatMap(r => r.warnings).slice(0, 1)
+		return [
+			...notes,
+			...(frequencyNotes.length > 0
+				? frequencyNotes
+				: [
+						{
+							code: 'UNIT_NOT_COMPARABLE' as const,
+							message: `A dose in ${item.dosageUnit} cannot be compared to the guideline units`,
+							requiresOverride: false,
+						},
+					]),
+		]
+	}
+
+	if (comparable.some(r => r.warnings.length === 0)) {
+		return notes
+	}
+
+	return [...notes, ...comparable.flatMap(r => r.warnings)]
+}
+
+// ==================== DOSE CALCULATION ====================
+
+export interface VolumeSuggestion {
+	concentrationMgMl: number
+	minMl: number
+	maxMl: number
+	/** Smallest graduation the volume is rounded to */
+	stepMl: number
+	suggestedMl: number
+	suggestedDose: number
+}
+
+/**
+ * Syringe graduation for a volume: 0.01 mL below 1 mL, 0.1 mL below
+ * 10 mL, 0.5 mL above
+ */
+export function volumeStepMl(volumeMl: number): number {
+	if (volumeMl < 1) return 0.01
+	if (volumeMl < 10) return 0.1
+	return 0.5
+}
+
+/**
+ * Round a dose range to a measurable volume of the stock product
+ * Suggests the largest measurable volume not above the maximum; fixed
+ * doses (min = max) round to the nearest graduation instead.
+ */
+export function suggestDoseVolume(
+	minDose: number,
+	maxDose: number,
+	amountUnit: DoseUnit['amount'],
+	concentrationMgMl: number
+): VolumeSuggestion | null {
+	if (amountUnit === 'units' || concentrationMgMl <= 0) return null
+
+	const toMl = (dose: number) =>
+		(dose * MG_PER_UNIT[amountUnit]) / concentrationMgMl
+	const minMl = toMl(minDose)
+	const maxMl = toMl(maxDose)
+	const stepMl = volumeStepMl(maxMl)
+
+	const floored = Math.floor(maxMl / stepMl + 1e-9) * stepMl
+	const suggestedMl =
+		floored >= minMl * (1 - DOSE_TOLERANCE) && floored > 0
+			? floored
+			: Math.max(stepMl, Math.round(maxMl / stepMl) * stepMl)
+
+	return {
+		concentrationMgMl,
+		maxMl: round(maxMl),
+		minMl: round(minMl),
+		stepMl,
+		suggestedDose: round(
+			(suggestedMl * concentrationMgMl) / MG_PER_UNIT[amountUnit]
+		),
+		suggestedMl: round(suggestedMl),
+	}
+}
+
+/**
+ * Absolute doses for one guideline at a given weight
+ * Per-dose ranges for "/dose" units, split across the guideline frequency
+ * for "/day" units, and rates (per min / per hr) for infusions.
+ */
+export function calculateGuidelineDose(
+	guideline: DoseGuidelineRule,
+	weightKg: number
+) {
+	const unit = parseDoseUnit(guideline.doseUnit)
+	const perDay = dosesPerDay(guideline.frequencyDays)
+	const minPerKg = guideline.minDosePerKg ?? guideline.maxDosePerKg ?? null
+	const maxPerKg = guideline.maxDosePerKg ?? guideline.minDosePerKg ?? null
+
+	const scaled =
+		unit && minPerKg !== null && maxPerKg !== null
+			? { max: maxPerKg * weightKg, min: minPerKg * weightKg }
+			: null
+
+	const isRate = unit?.basis === 'min' || unit?.basis === 'hr'
+	const perDose =
+		scaled && unit && !isRate
+			? unit.basis === 'dose'
+				? scaled
+				: perDay
+					? { max: scaled.max / perDay, min: scaled.min / perDay }
+					: null
+			: null
+
+	return {
+		dailyDose:
+			scaled && unit?.basis === 'day'
+				? { max: round(scaled.max), min: round(scaled.min), unit: unit.amount }
+				: perDose && perDay
+					? {
+							max: round(perDose.max * perDay),
+							min: round(perDose.min * perDay),
+							unit: unit?.amount,
+						}
+					: null,
+		dosePerKg: { max: maxPerKg, min: minPerKg, unit: guideline.doseUnit },
+		dosesPerDay: perDay === null ? null : round(perDay),
+		maxPer24h:
+			guideline.maxDosePer24h != null && unit && !isRate
+				? {
+						perKg: guideline.maxDosePer24h,
+						total: round(guideline.maxDosePer24h * weightKg),
+						unit: unit.amount,
+					}
+				: null,
+		perDose: perDose
+			? { max: round(perDose.max), min: round(perDose.min), unit: unit?.amount }
+			: null,
+		rate:
+			scaled && isRate
+				? {
+						max: round(scaled.max),
+						min: round(scaled.min),
+						unit: `${unit?.amount}/${unit?.basis}`,
+					}
+				: null,
+		volume:
+			perDose && unit && guideline.stockConcentrationMgMl
+				? suggestDoseVolume(
+						perDose.min,
+						perDose.max,
+						unit.amount,
+						guideline.stockConcentrationMgMl
+					)
+				: null,
+	}
 }
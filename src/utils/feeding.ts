@@ -0,0 +1,212 @@
+// src/utils/feeding.ts
+
+/**
+ * Infant feeding log - daily intake summaries and the sustained low
+ * intake rule
+ * Pure functions - callers load the logs and the weights
+ */
+
+import { differenceInDays, format, startOfDay } from 'date-fns'
+
+export type BreastSideValue = 'LEFT' | 'RIGHT' | 'BOTH'
+
+export const BREAST_SIDES: BreastSideValue[] = ['LEFT', 'RIGHT', 'BOTH']
+
+export interface FeedingLogEntry {
+	date: Date
+	type: 'BREAST' | 'FORMULA' | 'MIXED'
+	/** Minutes at the breast */
+	duration?: number | null
+	/** mL taken */
+	amount?: number | null
+	breast?: string | null
+}
+
+export interface WeightMeasurement {
+	date: Date
+	weight: number
+}
+
+export interface FeedingDaySummary {
+	/** yyyy-MM-dd */
+	day: string
+	feeds: number
+	totalMl: number
+	/** Null without a weight on or before the day */
+	mlPerKgDay: number | null
+	weightKg: number | null
+	/** Every feed that day has a volume, so mL/kg/day is the full intake */
+	volumeComplete: boolean
+	breastMinutes: Record<BreastSideValue, number>
+	byType: Record<FeedingLogEntry['type'], number>
+}
+
+export interface FeedingIntakeMinimum {
+	mlPerKgDay: number
+	feedsPerDay: number
+}
+
+export interface LowIntakeRun {
+	startDay: string
+	endDay: string
+	days: number
+	averageMlPerKgDay: number | null
+	averageFeedsPerDay: number
+}
+
+export interface FeedingAlertThresholds {
+	/** Consecutive low days before an alert */
+	minDays: number
+	/** Intake is only checked below this age */
+	maxAgeDays: number
+	/** Days looked back from the last complete day */
+	lookbackDays: number
+}
+
+export const FEEDING_ALERT_THRESHOLDS: FeedingAlertThresholds = {
+	lookbackDays: 7,
+	maxAgeDays: 183,
+	minDays: 2,
+}
+
+/**
+ * Lowest acceptable intake by day of life - volumes step up over the
+ * first week, then 120 mL/kg/day (below the usual 150 target)
+ */
+export function minimumIntake(ageDays: number): FeedingIntakeMinimum | null {
+	if (ageDays < 0 || ageDays >= FEEDING_ALERT_THRESHOLDS.maxAgeDays) {
+		return null
+	}
+
+	const feedsPerDay = ageDays < 28 ? 8 : 6
+	if (ageDays < 1) return { feedsPerDay, mlPerKgDay: 60 }
+	if (ageDays < 2) return { feedsPerDay, mlPerKgDay: 80 }
+	if (ageDays < 3) return { feedsPerDay, mlPerKgDay: 100 }
+	return { feedsPerDay, mlPerKgDay: 120 }
+}
+
+/**
+ * One summary per calendar day with feeds, oldest first. Weight is the
+ * latest measured on or before the day.
+ */
+export function summarizeFeedingDays(
+	logs: FeedingLogEntry[],
+	weights: WeightMeasurement[]
+): FeedingDaySummary[] {
+	const byDay = new Map<string, FeedingLogEntry[]>()
+	for (const log of logs) {
+		const day = format(log.date, 'yyyy-MM-dd')
+		byDay.set(day, [...(byDay.get(day) ?? []), log])
+	}
+
+	const sortedWeights = [...weights].sort(
+		(a, b) => a.date.getTime() - b.date.getTime()
+	)
+
+	return [...byDay.entries()]
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([day, entries]) => {
+			const dayEnd = new Date(`${day}T23:59:59.999`)
+			const weightKg =
+				sortedWeights.filter(w => w.date <= dayEnd).at(-1)?.weight ?? null
+			const totalMl = entries.reduce((sum, e) => sum + (e.amount ?? 0), 0)
+
+			const breastMinutes: Record<BreastSideValue, number> = {
+				BOTH: 0,
+				LEFT: 0,
+				RIGHT: 0,
+			}
+			const byType: FeedingDaySummary['byType'] = {
+				BREAST: 0,
+				FORMULA: 0,
+				MIXED: 0,
+			}
+			for (const entry of entries) {
+				byType[entry.type]++
+				const side = entry.breast as BreastSideValue
+				if (entry.duration && BREAST_SIDES.includes(side)) {
+					breastMinutes[side] += entry.duration
+				}
+			}
+
+			return {
+				breastMinutes,
+				byType,
+				day,
+				feeds: entries.length,
+				mlPerKgDay: weightKg
+					? Math.round((totalMl / weightKg) * 10) / 10
+					: null,
+				totalMl: Math.round(totalMl),
+				volumeComplete: entries.every(e => (e.amount ?? 0) > 0),
+				weightKg,
+			}
+		})
+}
+
+/**
+ * A day is low when its full measured volume is under the minimum, or -
+ * when breastfeeds were not measured - when there were too few feeds
+ */
+export function isLowIntakeDay(
+	summary: FeedingDaySummary,
+	ageDays: number
+): boolean {
+	const minimum = minimumIntake(ageDays)
+	if (!minimum) return false
+
+	if (summary.volumeComplete && summary.mlPerKgDay !== null) {
+		return summary.mlPerKgDay < minimum.mlPerKgDay
+	}
+	return summary.feeds < minimum.feedsPerDay
+}
+
+/**
+ * Low-intake days running up to the last complete day (yesterday), when
+ * there are at least `minDays` of them. Days without any logged feed
+ * break the run - no record is not evidence of low intake.
+ */
+export function findLowIntakeRun(
+	summaries: FeedingDaySummary[],
+	dateOfBirth: Date,
+	today: Date,
+	thresholds: FeedingAlertThresholds = FEEDING_ALERT_THRESHOLDS
+): LowIntakeRun | null {
+	const byDay = new Map(summaries.map(s => [s.day, s]))
+	const run: FeedingDaySummary[] = []
+	const start = startOfDay(today)
+
+	for (let offset = 1; offset <= thresholds.lookbackDays; offset++) {
+		const date = new Date(start)
+		date.setDate(start.getDate() - offset)
+		const summary = byDay.get(format(date, 'yyyy-MM-dd'))
+		if (
+			!summary ||
+			!isLowIntakeDay(summary, differenceInDays(date, startOfDay(dateOfBirth)))
+		) {
+			break
+		}
+		run.unshift(summary)
+	}
+
+	if (run.length < thresholds.minDays) return null
+
+	const withVolume = run.filter(s => s.mlPerKgDay !== null && s.volumeComplete)
+
+	return {
+		averageFeedsPerDay:
+			Math.round((run.reduce((sum, s) => sum + s.feeds, 0) / run.length) * 10) /
+			10,
+		averageMlPerKgDay:
+			withVolume.length > 0
+				? Math.round(
+						(withVolume.reduce((sum, s) => sum + (s.mlPerKgDay ?? 0), 0) /
+							withVolume.length) *
+							10
+					) / 10
+				: null,
+		days: run.length,
+		endDay: run[run.length - 1].day,
+		startDay: run[0].day,
+	}
+}
@@ -0,0 +1,280 @@
+// src/utils/formulary.ts
+
+import { normalizeDrugRoute, parseDoseUnit } from './dose'
+
+/**
+ * nicu_data.json <-> DoseGuideline mapping
+ * The file is keyed by drug name and uses "N/A" for missing values
+ */
+
+export const NICU_NOT_AVAILABLE = 'N/A'
+
+export type NicuValue = number | string | null
+
+export interface NicuGuidelineRow {
+	ROUTE: string
+	CLINICAL_INDICATION: string
+	MIN_DOSE_PER_KG: NicuValue
+	MAX_DOSE_PER_KG: NicuValue
+	DOSE_UNIT: NicuValue
+	FREQUENCY_DAYS: NicuValue
+	GESTATIONAL_AGE_WEEKS_MIN: NicuValue
+	GESTATIONAL_AGE_WEEKS_MAX: NicuValue
+	POST_NATAL_AGE_DAYS_MIN: NicuValue
+	POST_NATAL_AGE_DAYS_MAX: NicuValue
+	MAX_DOSE_PER_24H: NicuValue
+	STOCK_CONCENTRATION_MG_ML: NicuValue
+	FINAL_CONCENTRATION_MG_ML: NicuValue
+	MIN_INFUSION_TIME_MIN: NicuValue
+	COMPATIBILITY_DILUENT: NicuValue
+}
+
+export type NicuDrugDatabase = Record<string, NicuGuidelineRow[]>
+
+export interface GuidelineFields {
+	route: string
+	clinicalIndication: string
+	minDosePerKg: number | null
+	maxDosePerKg: number | null
+	doseUnit: string | null
+	frequencyDays: string | null
+	gestationalAgeWeeksMin: number | null
+	gestationalAgeWeeksMax: number | null
+	postNatalAgeDaysMin: number | null
+	postNatalAgeDaysMax: number | null
+	maxDosePer24h: number | null
+	stockConcentrationMgMl: number | null
+	finalConcentrationMgMl: number | null
+	minInfusionTimeMin: number | null
+	compatibilityDiluent: string | null
+}
+
+type FieldKind = 'float' | 'int' | 'required' | 'text'
+
+/**
+ * What a column of each kind reads as: "N/A" and blanks are null,
+ * except for the route and indication every guideline needs
+ */
+interface FieldKindValue {
+	float: number | null
+	int: number | null
+	required: string
+	text: string | null
+}
+
+// Keys of T whose property can hold a value of type V
+type KeysHolding<T, V> = {
+	[K in keyof T]-?: [V] extends [T[K]] ? K : never
+}[keyof T]
+
+// One file column and the guideline field it maps to, typed by its kind
+type FieldMapping = {
+	[K in FieldKind]: readonly [
+		column: KeysHolding<NicuGuidelineRow, FieldKindValue[K]>,
+		field: KeysHolding<GuidelineFields, FieldKindValue[K]>,
+		kind: K,
+	]
+}[FieldKind]
+
+// Column order matches the file so exports diff cleanly against it
+const FIELD_MAP: readonly FieldMapping[] = [
+	['ROUTE', 'route', 'required'],
+	['CLINICAL_INDICATION', 'clinicalIndication', 'required'],
+	['MIN_DOSE_PER_KG', 'minDosePerKg', 'float'],
+	['MAX_DOSE_PER_KG', 'maxDosePerKg', 'float'],
+	['DOSE_UNIT', 'doseUnit', 'text'],
+	['FREQUENCY_DAYS', 'frequencyDays', 'text'],
+	['GESTATIONAL_AGE_WEEKS_MIN', 'gestationalAgeWeeksMin', 'float'],
+	['GESTATIONAL_AGE_WEEKS_MAX', 'gestationalAgeWeeksMax', 'float'],
+	['POST_NATAL_AGE_DAYS_MIN', 'postNatalAgeDaysMin', 'int'],
+	['POST_NATAL_AGE_DAYS_MAX', 'postNatalAgeDaysMax', 'int'],
+	['MAX_DOSE_PER_24H', 'maxDosePer24h', 'float'],
+	['STOCK_CONCENTRATION_MG_ML', 'stockConcentrationMgMl', 'float'],
+	['FINAL_CONCENTRATION_MG_ML', 'finalConcentrationMgMl', 'float'],
+	['MIN_INFUSION_TIME_MIN', 'minInfusionTimeMin', 'int'],
+	['COMPATIBILITY_DILUENT', 'compatibilityDiluent', 'text'],
+]
+
+/**
+ * A record filled column by column is complete once every key is set
+ */
+function hasEveryKey<T extends object>(
+	value: Partial<T>,
+	keys: readonly (keyof T)[]
+): value is T {
+	return keys.every(key => value[key] !== undefined)
+}
+
+function isMissing(value: NicuValue | undefined): boolean {
+	return (
+		value === null ||
+		value === undefined ||
+		(typeof value === 'string' &&
+			(value.trim() === '' ||
+				value.trim().toUpperCase() === NICU_NOT_AVAILABLE))
+	)
+}
+
+/**
+ * "N/A", blanks and null become null; anything else must be numeric
+ * Returns undefined for a value that cannot be read as a number
+ */
+export function parseNicuNumber(
+	value: NicuValue | undefined,
+	integer = false
+): number | null | undefined {
+	if (isMissing(value)) return null
+	const parsed =
+		typeof value === 'number' ? value : Number(String(value).trim())
+	if (!Number.isFinite(parsed)) return undefined
+	return integer ? Math.floor(parsed) : parsed
+}
+
+export function parseNicuText(value: NicuValue | undefined): string | null {
+	return isMissing(value) ? null : String(value).trim()
+}
+
+/**
+ * Read one file row into guideline columns, collecting unreadable values
+ */
+export function parseNicuGuideline(row: NicuGuidelineRow): {
+	data: GuidelineFields
+	errors: string[]
+} {
+	const data: Partial<GuidelineFields> = {}
+	const errors: string[] = []
+
+	for (const mapping of FIELD_MAP) {
+		const value = row[mapping[0]]
+
+		if (mapping[2] === 'required' || mapping[2] === 'text') {
+			const text = parseNicuText(value)
+			if (mapping[2] === 'required') {
+				if (!text) errors.push(`${mapping[0]} is required`)
+				data[mapping[1]] = text ?? ''
+			} else {
+				data[mapping[1]] = text
+			}
+			continue
+		}
+
+		const parsed = parseNicuNumber(value, mapping[2] === 'int')
+		if (parsed === undefined) {
+			errors.push(`${mapping[0]} "${value}" is not a number or N/A`)
+		}
+		data[mapping[1]] = parsed ?? null
+	}
+
+	const fields = FIELD_MAP.map(mapping => mapping[1])
+	if (!hasEveryKey(data, fields)) {
+		throw new Error('FIELD_MAP does not cover every guideline field')
+	}
+
+	return { data, errors }
+}
+
+/**
+ * Write guideline columns back in the file format, nulls as "N/A"
+ */
+export function toNicuGuideline(
+	guideline: Partial<Record<keyof GuidelineFields, unknown>>
+): NicuGuidelineRow {
+	const row: Partial<NicuGuidelineRow> = {}
+
+	for (const mapping of FIELD_MAP) {
+		const value = guideline[mapping[1]]
+		const missing = value === null || value === undefined
+
+		if (mapping[2] === 'required') {
+			row[mapping[0]] = missing
+				? NICU_NOT_AVAILABLE
+				: mapping[1] === 'route'
+					? normalizeDrugRoute(String(value))
+					: String(value)
+		} else {
+			row[mapping[0]] = missing
+				? NICU_NOT_AVAILABLE
+				: typeof value === 'number'
+					? value
+					: String(value)
+		}
+	}
+
+	const columns = FIELD_MAP.map(mapping => mapping[0])
+	if (!hasEveryKey(row, columns)) {
+		throw new Error('FIELD_MAP does not cover every file column')
+	}
+
+	return row
+}
+
+/**
+ * Identity of a guideline inside a drug: route, indication and age bands
+ * Dose and preparation values are what an import is allowed to change
+ */
+export function nicuGuidelineKey(guideline: GuidelineFields): string {
+	return [
+		normalizeDrugRoute(guideline.route),
+		guideline.clinicalIndication.trim().toLowerCase(),
+		guideline.gestationalAgeWeeksMin,
+		guideline.gestationalAgeWeeksMax,
+		guideline.postNatalAgeDaysMin,
+		guideline.postNatalAgeDaysMax,
+	].join('|')
+}
+
+/**
+ * Columns whose value differs between the stored and the incoming row
+ */
+export function diffGuidelineFields(
+	current: Partial<Record<keyof GuidelineFields, unknown>>,
+	incoming: GuidelineFields
+): { field: keyof GuidelineFields; from: unknown; to: unknown }[] {
+	return FIELD_MAP.flatMap(([, field]) => {
+		const from = current[field] ?? null
+		const to = incoming[field]
+		const same =
+			field === 'route'
+				? normalizeDrugRoute(String(from)) === normalizeDrugRoute(String(to))
+				: from === to
+		return same ? [] : [{ field, from, to }]
+	})
+}
+
+/**
+ * Consistency problems in a guideline: inverted bands, unknown dose unit,
+ * a final concentration stronger than the stock
+ */
+export function guidelineRangeErrors(
+	guideline: Partial<Record<keyof GuidelineFields, unknown>>
+): string[] {
+	const errors: string[] = []
+	const bands: [keyof GuidelineFields, keyof GuidelineFields, string][] = [
+		['minDosePerKg', 'maxDosePerKg', 'dose per kg'],
+		['gestationalAgeWeeksMin', 'gestationalAgeWeeksMax', 'gestational age'],
+		['postNatalAgeDaysMin', 'postNatalAgeDaysMax', 'postnatal age'],
+	]
+
+	for (const [minField, maxField, label] of bands) {
+		const min = guideline[minField]
+		const max = guideline[maxField]
+		if (typeof min === 'number' && typeof max === 'number' && min > max) {
+			errors.push(`Minimum ${label} (${min}) is above the maximum (${max})`)
+		}
+	}
+
+	const unit = guideline.doseUnit
+	if (typeof unit === 'string' && !parseDoseUnit(unit)) {
+		errors.push(`Dose unit "${unit}" is not recognised (e.g. mg/kg/dose)`)
+	}
+
+	const stock = guideline.stockConcentrationMgMl
+	const final = guideline.finalConcentrationMgMl
+	if (typeof stock === 'number' && typeof final === 'number' && final > stock) {
+		errors.push(
+			`Final concentration (${final} mg/mL) is above the stock concentration (${stock} mg/mL)`
+		)
+	}
+
+	return errors
+}
@@ -0,0 +1,224 @@
+// src/utils/growth-alerts.ts
+
+/**
+ * Longitudinal growth rules run when a growth record is saved
+ * Pure functions - callers load the patient's earlier records
+ */
+
+import { zScoreToPercentile } from './scoreCalc'
+
+export type GrowthAlertRuleValue =
+	| 'PERCENTILE_CROSSING'
+	| 'LOW_WEIGHT_FOR_LENGTH'
+	| 'STATIC_WEIGHT'
+	| 'RAPID_HEAD_GROWTH'
+
+export interface GrowthAlertMeasurement {
+	id?: string
+	date: Date
+	/** Chronological age in days */
+	ageDays: number
+	weight?: number | null
+	headCircumference?: number | null
+	weightForAgeZ?: number | null
+	weightForLengthZ?: number | null
+	hcForAgeZ?: number | null
+}
+
+export interface GrowthAlertFinding {
+	rule: GrowthAlertRuleValue
+	message: string
+	details: Record<string, number | string | null>
+}
+
+export interface GrowthAlertThresholds {
+	/** Major percentile lines a z-score must cross to raise an alert */
+	majorLinesCrossed: number
+	/** How far back earlier records are compared, in days */
+	lookbackDays: number
+	weightForLengthZ: number
+	staticWeightWeeks: number
+	/** Static weight is only flagged below this age */
+	staticWeightMaxAgeDays: number
+	/** Records before this age are skipped for crossing (newborn weight loss) */
+	minAgeDaysForCrossing: number
+}
+
+export const GROWTH_ALERT_THRESHOLDS: GrowthAlertThresholds = {
+	lookbackDays: 365,
+	majorLinesCrossed: 2,
+	minAgeDaysForCrossing: 14,
+	staticWeightMaxAgeDays: 730,
+	staticWeightWeeks: 4,
+	weightForLengthZ: -2,
+}
+
+export const GROWTH_ALERT_RULE_LABELS: Record<GrowthAlertRuleValue, string> = {
+	LOW_WEIGHT_FOR_LENGTH: 'Low weight-for-length',
+	PERCENTILE_CROSSING: 'Weight crossing percentiles',
+	RAPID_HEAD_GROWTH: 'Rapid head growth',
+	STATIC_WEIGHT: 'Static weight',
+}
+
+/**
+ * Major percentile lines of the WHO charts (0.4th to 99.6th), as z-scores
+ * two-thirds of an SD apart
+ */
+export const MAJOR_PERCENTILE_LINES: { percentile: number; z: number }[] = [
+	{ percentile: 0.4, z: -2.67 },
+	{ percentile: 2, z: -2 },
+	{ percentile: 9, z: -1.33 },
+	{ percentile: 25, z: -0.67 },
+	{ percentile: 50, z: 0 },
+	{ percentile: 75, z: 0.67 },
+	{ percentile: 91, z: 1.33 },
+	{ percentile: 98, z: 2 },
+	{ percentile: 99.6, z: 2.67 },
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Number of major percentile lines strictly between two z-scores
+ */
+export function percentileLinesCrossed(fromZ: number, toZ: number): number {
+	const low = Math.min(fromZ, toZ)
+	const high = Math.max(fromZ, toZ)
+	return MAJOR_PERCENTILE_LINES.filter(line => line.z > low && line.z < high)
+		.length
+}
+
+function percentileLabel(z: number): string {
+	return `percentile ${zScoreToPercentile(z).toFixed(1)}`
+}
+
+/**
+ * Evaluate the current record against the earlier ones. Weight-for-age is
+ * compared with its highest value in the look-back window and head
+ * circumference with its lowest, so slow drifts are caught as well as
+ * sudden changes.
+ */
+export function evaluateGrowthAlerts(
+	current: GrowthAlertMeasurement,
+	history: GrowthAlertMeasurement[],
+	thresholds: GrowthAlertThresholds = GROWTH_ALERT_THRESHOLDS
+): GrowthAlertFinding[] {
+	const since = current.date.getTime() - thresholds.lookbackDays * DAY_MS
+	const earlier = history.filter(
+		record =>
+			record.id !== current.id &&
+			record.date.getTime() < current.date.getTime() &&
+			record.date.getTime() >= since
+	)
+	const findings: GrowthAlertFinding[] = []
+
+	// 1. Weight-for-age falling across major percentile lines
+	const currentWeightZ = current.weightForAgeZ
+	if (
+		currentWeightZ != null &&
+		current.ageDays >= thresholds.minAgeDaysForCrossing
+	) {
+		const peak = earlier
+			.filter(
+				record =>
+					record.weightForAgeZ != null &&
+					record.ageDays >= thresholds.minAgeDaysForCrossing
+			)
+			.reduce<GrowthAlertMeasurement | null>(
+				(best, record) =>
+					!best || (record.weightForAgeZ ?? 0) > (best.weightForAgeZ ?? 0)
+						? record
+						: best,
+				null
+			)
+		const peakZ = peak?.weightForAgeZ
+		if (peak && peakZ != null && currentWeightZ < peakZ) {
+			const crossed = percentileLinesCrossed(peakZ, currentWeightZ)
+			if (crossed >= thresholds.majorLinesCrossed) {
+				findings.push({
+					details: {
+						fromDate: peak.date.toISOString(),
+						fromZ: peakZ,
+						linesCrossed: crossed,
+						toZ: currentWeightZ,
+					},
+					message: `Weight-for-age fell across ${crossed} major percentile lines, from ${percentileLabel(peakZ)} to ${percentileLabel(currentWeightZ)}`,
+					rule: 'PERCENTILE_CROSSING',
+				})
+			}
+		}
+	}
+
+	// 2. Wasting
+	const wflZ = current.weightForLengthZ
+	if (wflZ != null && wflZ < thresholds.weightForLengthZ) {
+		findings.push({
+			details: { threshold: thresholds.weightForLengthZ, z: wflZ },
+			message: `Weight-for-length/height z-score ${wflZ.toFixed(2)} is below ${thresholds.weightForLengthZ}`,
+			rule: 'LOW_WEIGHT_FOR_LENGTH',
+		})
+	}
+
+	// 3. No weight gain since the latest record at least N weeks old
+	if (
+		current.weight != null &&
+		current.ageDays < thresholds.staticWeightMaxAgeDays
+	) {
+		const cutoff =
+			current.date.getTime() - thresholds.staticWeightWeeks * 7 * DAY_MS
+		const baseline = earlier
+			.filter(
+				record => record.weight != null && record.date.getTime() <= cutoff
+			)
+			.sort((a, b) => b.date.getTime() - a.date.getTime())[0]
+		if (baseline?.weight != null && current.weight <= baseline.weight) {
+			const weeks = Math.floor(
+				(current.date.getTime() - baseline.date.getTime()) / (7 * DAY_MS)
+			)
+			findings.push({
+				details: {
+					fromDate: baseline.date.toISOString(),
+					fromWeight: baseline.weight,
+					toWeight: current.weight,
+					weeks,
+				},
+				message: `No weight gain over ${weeks} weeks (${baseline.weight} kg to ${current.weight} kg)`,
+				rule: 'STATIC_WEIGHT',
+			})
+		}
+	}
+
+	// 4. Head circumference rising across major percentile lines
+	const currentHeadZ = current.hcForAgeZ
+	if (currentHeadZ != null) {
+		const low = earlier
+			.filter(record => record.hcForAgeZ != null)
+			.reduce<GrowthAlertMeasurement | null>(
+				(best, record) =>
+					!best || (record.hcForAgeZ ?? 0) < (best.hcForAgeZ ?? 0)
+						? record
+						: best,
+				null
+			)
+		const lowZ = low?.hcForAgeZ
+		if (low && lowZ != null && currentHeadZ > lowZ) {
+			const crossed = percentileLinesCrossed(lowZ, currentHeadZ)
+			if (crossed >= thresholds.majorLinesCrossed) {
+				findings.push({
+					details: {
+						fromDate: low.date.toISOString(),
+						fromHeadCircumference: low.headCircumference ?? null,
+						fromZ: lowZ,
+						linesCrossed: crossed,
+						toHeadCircumference: current.headCircumference ?? null,
+						toZ: currentHeadZ,
+					},
+					message: `Head circumference rose across ${crossed} major percentile lines, from ${percentileLabel(lowZ)} to ${percentileLabel(currentHeadZ)}`,
+					rule: 'RAPID_HEAD_GROWTH',
+				})
+			}
+		}
+	}
+
+	return findings
+}
@@ -0,0 +1,214 @@
+// src/utils/growth-velocity.ts
+
+/**
+ * WHO growth velocity standards - weight, length and head circumference
+ * increments over 1 to 6 month intervals: table parsing, interval
+ * matching and increment z-scores
+ * Pure functions - callers load the table rows for one sex and chart
+ */
+
+import { calculateWHOZScore, monthsToDays } from './who-standards'
+
+export type VelocityChartType = 'WFA' | 'HFA' | 'HcFA'
+
+/**
+ * CSV converted from the WHO velocity LMS tables, one row per interval:
+ * Sex (1 boys, 2 girls), Measure (weight|length|headcirc), StartMonth,
+ * EndMonth, Delta, L, M, S. The first weight interval (0-4 weeks) is
+ * entered as months 0-1.
+ */
+export const VELOCITY_TABLE_FILE = 'who-velocity.csv'
+
+export const VELOCITY_MEASURES: Record<string, VelocityChartType> = {
+	headcirc: 'HcFA',
+	length: 'HFA',
+	weight: 'WFA',
+}
+
+/** Allowed distance of each measurement from the interval's nominal ages */
+export const VELOCITY_AGE_TOLERANCE_DAYS = {
+	multiMonth: 14,
+	oneMonth: 7,
+}
+
+export interface VelocityStandardRow {
+	gender: 'MALE' | 'FEMALE'
+	chartType: VelocityChartType
+	startMonth: number
+	endMonth: number
+	delta: number
+	lValue: number
+	mValue: number
+	sValue: number
+}
+
+export interface VelocityMeasurement {
+	id?: string
+	date: Date
+	/** Age used for the interval - corrected age for babies born preterm */
+	ageDays: number
+	/** Weight in kg, length and head circumference in cm */
+	value: number
+}
+
+export interface VelocityZScore {
+	fromId?: string
+	toId?: string
+	fromDate: Date
+	toDate: Date
+	startMonth: number
+	endMonth: number
+	/** Observed increment in the table unit */
+	increment: number
+	/** Increment scaled to the nominal interval length, used for the z-score */
+	adjustedIncrement: number
+	unit: 'g' | 'cm'
+	median: number
+	zScore: number
+}
+
+function parseValue(value: string | undefined): number | null {
+	if (value === undefined || value.trim() === '') return null
+	const parsed = Number.parseFloat(value)
+	return Number.isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Validate one row of the velocity file. Throws with the offending field
+ * so the importer can report and skip it.
+ */
+export function parseVelocityTableRow(
+	row: Record<string, string>
+): VelocityStandardRow {
+	const sex = row.Sex?.trim()
+	if (sex !== '1' && sex !== '2') throw new Error(`Invalid Sex '${row.Sex}'`)
+
+	const chartType = VELOCITY_MEASURES[row.Measure?.trim().toLowerCase() ?? '']
+	if (!chartType) throw new Error(`Unknown Measure '${row.Measure}'`)
+
+	const startMonth = parseValue(row.StartMonth)
+	const endMonth = parseValue(row.EndMonth)
+	if (startMonth === null || endMonth === null) {
+		throw new Error('Missing StartMonth or EndMonth value')
+	}
+	if (endMonth <= startMonth) {
+		throw new Error('EndMonth must be after StartMonth')
+	}
+
+	const lms = {
+		lValue: parseValue(row.L),
+		mValue: parseValue(row.M),
+		sValue: parseValue(row.S),
+	}
+	for (const [key, value] of Object.entries(lms)) {
+		if (value === null) throw new Error(`Missing or invalid ${key}`)
+	}
+	const values = lms as { lValue: number; mValue: number; sValue: number }
+	if (values.mValue <= 0 || values.sValue <= 0) {
+		throw new Error('M and S must be positive')
+	}
+
+	return {
+		...values,
+		chartType,
+		delta: parseValue(row.Delta) ?? 0,
+		endMonth: Math.round(endMonth),
+		gender: sex === '1' ? 'MALE' : 'FEMALE',
+		startMonth: Math.round(startMonth),
+	}
+}
+
+/**
+ * Table interval two measurements fall on, if any. Each measurement must
+ * lie within the tolerance of the interval's start and end age; the
+ * closest interval wins.
+ */
+export function matchVelocityInterval<
+	T extends Pick<VelocityStandardRow, 'startMonth' | 'endMonth'>,
+>(fromAgeDays: number, toAgeDays: number, rows: T[]): T | null {
+	let best: { row: T; offset: number } | null = null
+
+	for (const row of rows) {
+		const tolerance =
+			row.endMonth - row.startMonth === 1
+				? VELOCITY_AGE_TOLERANCE_DAYS.oneMonth
+				: VELOCITY_AGE_TOLERANCE_DAYS.multiMonth
+		const startOffset = Math.abs(fromAgeDays - monthsToDays(row.startMonth))
+		const endOffset = Math.abs(toAgeDays - monthsToDays(row.endMonth))
+		if (startOffset > tolerance || endOffset > tolerance) continue
+
+		const offset = startOffset + endOffset
+		if (!best || offset < best.offset) best = { offset, row }
+	}
+
+	return best?.row ?? null
+}
+
+/**
+ * Velocity z-score between two measurements of one chart, or null when
+ * they do not span a standard interval. The increment is scaled to the
+ * nominal interval length before the LMS transform.
+ */
+export function calculateVelocityZScore(
+	from: VelocityMeasurement,
+	to: VelocityMeasurement,
+	rows: VelocityStandardRow[]
+): VelocityZScore | null {
+	const actualDays = to.ageDays - from.ageDays
+	if (actualDays <= 0 || rows.length === 0) return null
+
+	const row = matchVelocityInterval(from.ageDays, to.ageDays, rows)
+	if (!row) return null
+
+	const unit = row.chartType === 'WFA' ? 'g' : 'cm'
+	const scale = unit === 'g' ? 1000 : 1
+	const increment = (to.value - from.value) * scale
+	const nominalDays = monthsToDays(row.endMonth) - monthsToDays(row.startMonth)
+	const adjustedIncrement = increment * (nominalDays / actualDays)
+
+	// The shifted increment must stay positive for the Box-Cox transform
+	const shifted = adjustedIncrement + row.delta
+	if (shifted <= 0) return null
+
+	const zScore = calculateWHOZScore(shifted, row, false)
+
+	return {
+		adjustedIncrement: Number(adjustedIncrement.toFixed(2)),
+		endMonth: row.endMonth,
+		fromDate: from.date,
+		fromId: from.id,
+		increment: Number(increment.toFixed(2)),
+		median: Number((row.mValue - row.delta).toFixed(2)),
+		startMonth: row.startMonth,
+		toDate: to.date,
+		toId: to.id,
+		unit,
+		zScore: Number(zScore.toFixed(3)),
+	}
+}
+
+/**
+ * Velocity z-scores for every pair of measurements that spans a standard
+ * interval, oldest first
+ */
+export function calculateVelocityZScores(
+	measurements: VelocityMeasurement[],
+	rows: VelocityStandardRow[]
+): VelocityZScore[] {
+	if (rows.length === 0) return []
+
+	const sorted = [...measurements].sort((a, b) => a.ageDays - b.ageDays)
+	const results: VelocityZScore[] = []
+
+	sorted.forEach((from, index) => {
+		for (const to of sorted.slice(index + 1)) {
+			const result = calculateVelocityZScore(from, to, rows)
+			if (result) results.push(result)
+		}
+	})
+
+	return results.sort(
+		(a, b) =>
+			a.toDate.getTime() - b.toDate.getTime() || a.startMonth - b.startMonth
+	)
+}
@@ -1,15 +1,31 @@
+export * from './allergy'
+export * from './bilirubin'
 export * from './buildQuery'
+export * from './csv'
 export * from './currency'
 export * from './date/calculate-age'
 export * from './decimal'
+export * from './development'
 export * from './dose'
+export * from './feeding'
+export * from './formulary'
 export * from './getScore'
+export * from './growth-alerts'
+export * from './growth-velocity'
+export * from './infusion'
+export * from './interaction'
+export * from './malnutrition'
 export * from './notifications'
 export * from './pediatrics'
 export * from './scoreCalc'
+export * from './screening'
 export * from './seetings'
+export * from './target-height'
 export * from './time'
 export * from './vaccine'
+export * from './vaccine-series'
+export * from './vital-signs'
+export * from './who-standards'
 export function formatNumber(amount: number): string {
 	return amount?.toLocaleString('en-US', {
 		maximumFractionDigits: 0,
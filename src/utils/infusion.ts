@@ -0,0 +1,207 @@
+// src/utils/infusion.ts
+
+import { convertDoseAmount, parseDoseUnit, volumeStepMl } from './dose'
+
+/**
+ * IV preparation math for NICU infusions
+ * Pure functions - the service supplies guideline concentrations and weight
+ */
+
+export interface InfusionSolutionInput {
+	stockConcentrationMgMl: number
+	/** Target concentration after dilution; omit to give undiluted */
+	finalConcentrationMgMl?: number | null
+	diluent?: string | null
+}
+
+export interface IntermittentInfusionInput extends InfusionSolutionInput {
+	doseMg: number
+	infusionTimeMin?: number | null
+	minInfusionTimeMin?: number | null
+}
+
+export interface ContinuousInfusionInput extends InfusionSolutionInput {
+	/** Rate in the guideline unit, e.g. 5 for 5 mcg/kg/min */
+	doseRate: number
+	doseUnit: string
+	weightKg: number
+	syringeVolumeMl: number
+}
+
+export interface InfusionPreparation {
+	mode: 'INTERMITTENT' | 'CONTINUOUS'
+	drugAmountMg: number
+	stockConcentrationMgMl: number
+	finalConcentrationMgMl: number
+	stockVolumeMl: number
+	diluentVolumeMl: number
+	finalVolumeMl: number
+	diluent: string | null
+	infusionTimeMin: number | null
+	rateMlPerHour: number
+	/** Volumes rounded to what a syringe can measure */
+	measured: {
+		stockVolumeMl: number
+		diluentVolumeMl: number
+		finalVolumeMl: number
+		stepMl: number
+	}
+	warnings: string[]
+}
+
+/**
+ * Rate-based guideline units are prepared as a continuous syringe infusion
+ */
+export function isContinuousDoseUnit(unit: string | null | undefined): boolean {
+	const parsed = parseDoseUnit(unit)
+	return parsed?.basis === 'min' || parsed?.basis === 'hr'
+}
+
+function round(value: number, places = 2): number {
+	const factor = 10 ** places
+	return Math.round(value * factor) / factor
+}
+
+function toStep(value: number, step: number): number {
+	return round(Math.round(value / step) * step, 3)
+}
+
+/**
+ * Stock and diluent volumes for a drug amount at the target concentration
+ * The final concentration is never allowed above the stock concentration.
+ */
+function prepare(
+	drugAmountMg: number,
+	input: InfusionSolutionInput,
+	finalVolumeOverride?: number
+) {
+	const warnings: string[] = []
+	let finalConcentration =
+		input.finalConcentrationMgMl ?? input.stockConcentrationMgMl
+
+	if (finalConcentration > input.stockConcentrationMgMl) {
+		warnings.push(
+			'Final concentration is above the stock concentration - giving undiluted'
+		)
+		finalConcentration = input.stockConcentrationMgMl
+	}
+
+	const stockVolumeMl = drugAmountMg / input.stockConcentrationMgMl
+	const finalVolumeMl = finalVolumeOverride ?? drugAmountMg / finalConcentration
+	const diluentVolumeMl = Math.max(0, finalVolumeMl - stockVolumeMl)
+
+	// Round the stock draw and the total independently, the diluent fills the gap
+	const stepMl = volumeStepMl(stockVolumeMl)
+	const measuredStock = toStep(stockVolumeMl, stepMl)
+	const measuredFinal = toStep(finalVolumeMl, volumeStepMl(finalVolumeMl))
+
+	if (measuredStock === 0) {
+		warnings.push(
+			'Stock volume is below the smallest measurable volume - use a more dilute stock'
+		)
+	}
+	if (diluentVolumeMl > 0 && !input.diluent) {
+		warnings.push('No compatible diluent recorded for this guideline')
+	}
+
+	return {
+		diluentVolumeMl,
+		finalConcentration,
+		finalVolumeMl,
+		measured: {
+			diluentVolumeMl: round(Math.max(0, measuredFinal - measuredStock), 3),
+			finalVolumeMl: measuredFinal,
+			stepMl,
+			stockVolumeMl: measuredStock,
+		},
+		stockVolumeMl,
+		warnings,
+	}
+}
+
+/**
+ * Intermittent dose: draw the prescribed mg, dilute to the final
+ * concentration and run it over at least the minimum infusion time
+ */
+export function calculateIntermittentInfusion(
+	input: IntermittentInfusionInput
+): InfusionPreparation {
+	const prepared = prepare(input.doseMg, input)
+	const infusionTimeMin = Math.max(
+		input.infusionTimeMin ?? input.minInfusionTimeMin ?? 0,
+		input.minInfusionTimeMin ?? 0
+	)
+
+	if (
+		input.infusionTimeMin &&
+		input.minInfusionTimeMin &&
+		input.infusionTimeMin < input.minInfusionTimeMin
+	) {
+		prepared.warnings.push(
+			`Infusion time raised to the minimum of ${input.minInfusionTimeMin} min`
+		)
+	}
+
+	return {
+		diluent: input.diluent ?? null,
+		diluentVolumeMl: round(prepared.diluentVolumeMl, 3),
+		drugAmountMg: round(input.doseMg, 3),
+		finalConcentrationMgMl: prepared.finalConcentration,
+		finalVolumeMl: round(prepared.finalVolumeMl, 3),
+		infusionTimeMin: infusionTimeMin || null,
+		measured: prepared.measured,
+		mode: 'INTERMITTENT',
+		// Bolus/push when no infusion time applies
+		rateMlPerHour:
+			infusionTimeMin > 0
+				? round((prepared.measured.finalVolumeMl / infusionTimeMin) * 60)
+				: 0,
+		stockConcentrationMgMl: input.stockConcentrationMgMl,
+		stockVolumeMl: round(prepared.stockVolumeMl, 3),
+		warnings: prepared.warnings,
+	}
+}
+
+/**
+ * Continuous infusion: fill a syringe at the final concentration and
+ * derive the pump rate that delivers the weight-based dose rate
+ */
+export function calculateContinuousInfusion(
+	input: ContinuousInfusionInput
+): InfusionPreparation {
+	const unit = parseDoseUnit(input.doseUnit)
+	if (
+		!unit ||
+		unit.amount === 'units' ||
+		unit.basis === 'dose' ||
+		unit.basis === 'day'
+	) {
+		throw new Error(`${input.doseUnit} is not a continuous infusion rate`)
+	}
+
+	const finalConcentration = Math.min(
+		input.finalConcentrationMgMl ?? input.stockConcentrationMgMl,
+		input.stockConcentrationMgMl
+	)
+	const drugAmountMg = finalConcentration * input.syringeVolumeMl
+	const prepared = prepare(drugAmountMg, input, input.syringeVolumeMl)
+
+	const mgPerHour =
+		(convertDoseAmount(input.doseRate * input.weightKg, unit.amount, 'mg') ??
+			0) * (unit.basis === 'min' ? 60 : 1)
+
+	return {
+		diluent: input.diluent ?? null,
+		diluentVolumeMl: round(prepared.diluentVolumeMl, 3),
+		drugAmountMg: round(drugAmountMg, 3),
+		finalConcentrationMgMl: prepared.finalConcentration,
+		finalVolumeMl: round(prepared.finalVolumeMl, 3),
+		infusionTimeMin: null,
+		measured: prepared.measured,
+		mode: 'CONTINUOUS',
+		rateMlPerHour: round(mgPerHour / prepared.finalConcentration, 3),
+		stockConcentrationMgMl: input.stockConcentrationMgMl,
+		stockVolumeMl: round(prepared.stockVolumeMl, 3),
+		warnings: prepared.warnings,
+	}
+}
@@ -0,0 +1,173 @@
+// src/utils/interaction.ts
+
+/**
+ * Drug-drug interaction checking against the local interaction table
+ * Pure functions - callers load the table and the patient's drugs
+ */
+
+import { type AllergyDrug, drugClassesOf, normalizeTerm } from './allergy'
+
+export type InteractionSeverityValue =
+	| 'CONTRAINDICATED'
+	| 'MAJOR'
+	| 'MODERATE'
+	| 'MINOR'
+
+export interface InteractionEntry {
+	id?: string
+	drugA: string
+	drugB: string
+	severity: InteractionSeverityValue
+	mechanism: string
+	management: string
+}
+
+export interface InteractionDrug extends AllergyDrug {
+	/** Position in the draft; absent for drugs already prescribed */
+	itemIndex?: number
+	prescriptionId?: string
+}
+
+export interface InteractionWarning {
+	severity: InteractionSeverityValue
+	message: string
+	mechanism: string
+	management: string
+	/** Contraindicated pairs need a documented reason before they are saved */
+	requiresOverride: boolean
+	interactionId?: string
+	drugs: [InteractionParty, InteractionParty]
+}
+
+export interface InteractionParty {
+	name: string
+	itemIndex?: number
+	prescriptionId?: string
+}
+
+export const INTERACTION_SEVERITY_RANK: Record<
+	InteractionSeverityValue,
+	number
+> = {
+	CONTRAINDICATED: 0,
+	MAJOR: 1,
+	MODERATE: 2,
+	MINOR: 3,
+}
+
+/**
+ * Storage key of an interaction pair - the same for either order
+ */
+export function interactionPairKey(drugA: string, drugB: string): string {
+	return [normalizeTerm(drugA), normalizeTerm(drugB)].sort().join('|')
+}
+
+/**
+ * Names, brands and classes a table entry can refer to the drug by
+ */
+function drugTerms(drug: AllergyDrug): string[] {
+	return [
+		drug.name,
+		drug.genericName,
+		...(drug.brandNames ?? []),
+		...drugClassesOf(drug),
+	]
+		.filter((term): term is string => Boolean(term))
+		.map(normalizeTerm)
+}
+
+function matchesTerm(terms: string[], entryTerm: string): boolean {
+	return terms.some(
+		term =>
+			term === entryTerm ||
+			` ${term} `.includes(` ${entryTerm} `) ||
+			` ${entryTerm} `.includes(` ${term} `)
+	)
+}
+
+/**
+ * Check a prescription draft against itself and against the drugs the
+ * patient is already taking. Warnings are ranked most severe first.
+ */
+export function checkInteractions(
+	draft: InteractionDrug[],
+	active: InteractionDrug[],
+	table: InteractionEntry[]
+): InteractionWarning[] {
+	if (table.length === 0) return []
+
+	const entries = table.map(entry => ({
+		a: normalizeTerm(entry.drugA),
+		b: normalizeTerm(entry.drugB),
+		entry,
+	}))
+	const terms = new Map<InteractionDrug, string[]>()
+	const termsOf = (drug: InteractionDrug) => {
+		let cached = terms.get(drug)
+		if (!cached) {
+			cached = drugTerms(drug)
+			terms.set(drug, cached)
+		}
+		return cached
+	}
+
+	const pairs: [InteractionDrug, InteractionDrug][] = []
+	draft.forEach((drug, index) => {
+		for (const other of draft.slice(index + 1)) pairs.push([drug, other])
+		for (const other of active) pairs.push([drug, other])
+	})
+
+	const seen = new Set<string>()
+	const warnings: InteractionWarning[] = []
+
+	for (const [first, second] of pairs) {
+		// The same drug twice is duplicate therapy, not an interaction
+		if (normalizeTerm(first.name) === normalizeTerm(second.name)) continue
+
+		const firstTerms = termsOf(first)
+		const secondTerms = termsOf(second)
+
+		for (const { a, b, entry } of entries) {
+			const forward = matchesTerm(firstTerms, a) && matchesTerm(secondTerms, b)
+			const reverse = matchesTerm(firstTerms, b) && matchesTerm(secondTerms, a)
+			if (!(forward || reverse)) continue
+
+			const key = [
+				entry.id ?? interactionPairKey(entry.drugA, entry.drugB),
+				first.itemIndex ?? first.prescriptionId,
+				second.itemIndex ?? second.prescriptionId,
+			].join(':')
+			if (seen.has(key)) continue
+			seen.add(key)
+
+			const existing =
+				second.itemIndex === undefined ? ' (already prescribed)' : ''
+
+			warnings.push({
+				drugs: [toParty(first), toParty(second)],
+				interactionId: entry.id,
+				management: entry.management,
+				mechanism: entry.mechanism,
+				message: `${first.name} + ${second.name}${existing}: ${entry.severity.toLowerCase()} interaction - ${entry.mechanism}`,
+				requiresOverride: entry.severity === 'CONTRAINDICATED',
+				severity: entry.severity,
+			})
+		}
+	}
+
+	return warnings.sort(
+		(x, y) =>
+			INTERACTION_SEVERITY_RANK[x.severity] -
+				INTERACTION_SEVERITY_RANK[y.severity] ||
+			x.drugs[0].name.localeCompare(y.drugs[0].name) ||
+			x.drugs[1].name.localeCompare(y.drugs[1].name)
+	)
+}
+
+function toParty(drug: InteractionDrug): InteractionParty {
+	return {
+		itemIndex: drug.itemIndex,
+		name: drug.name,
+		prescriptionId: drug.prescriptionId,
+	}
+}
@@ -0,0 +1,229 @@
+// src/utils/malnutrition.ts
+
+/**
+ * WHO acute malnutrition classification (weight-for-height z, MUAC and
+ * bilateral oedema) and outpatient therapeutic programme (OTP) progress
+ * Pure functions - callers pass the measurements
+ */
+
+export type AcuteMalnutritionValue = 'NONE' | 'AT_RISK' | 'MAM' | 'SAM'
+
+/** Weight-for-length/height z-score cut-offs, below which each applies */
+export const WHZ_CUTOFFS = {
+	atRisk: -1,
+	mam: -2,
+	sam: -3,
+}
+
+/** MUAC cut-offs in cm, below which each applies */
+export const MUAC_CUTOFFS_CM = {
+	atRisk: 13.5,
+	mam: 12.5,
+	sam: 11.5,
+}
+
+/** MUAC cut-offs are defined for children 6-59 months */
+export const MUAC_CUTOFF_AGE_RANGE_DAYS: [number, number] = [183, 1825]
+
+/** Weight gain bands in g/kg/day; below poor is a non-response sign */
+export const WEIGHT_GAIN_BANDS = {
+	good: 10,
+	poor: 5,
+}
+
+/** Days without oedema before a child admitted with it can be discharged */
+export const OTP_OEDEMA_FREE_DAYS = 14
+
+export const ACUTE_MALNUTRITION_LABELS: Record<AcuteMalnutritionValue, string> =
+	{
+		AT_RISK: 'At risk of acute malnutrition',
+		MAM: 'Moderate acute malnutrition',
+		NONE: 'No acute malnutrition',
+		SAM: 'Severe acute malnutrition',
+	}
+
+const RANK: Record<AcuteMalnutritionValue, number> = {
+	AT_RISK: 1,
+	MAM: 2,
+	NONE: 0,
+	SAM: 3,
+}
+
+export interface AcuteMalnutritionInput {
+	ageDays: number
+	weightForHeightZ?: number | null
+	muacCm?: number | null
+	bilateralOedema?: boolean | null
+}
+
+export interface AcuteMalnutritionResult {
+	status: AcuteMalnutritionValue
+	/** Criteria that set the status, e.g. 'MUAC 11.2 cm < 11.5' */
+	criteria: string[]
+}
+
+/**
+ * Worst of the WHZ, MUAC and oedema classifications. Oedema is SAM
+ * whatever the anthropometry; MUAC is only used from 6 to 59 months.
+ */
+export function classifyAcuteMalnutrition(
+	input: AcuteMalnutritionInput
+): AcuteMalnutritionResult {
+	const findings: { status: AcuteMalnutritionValue; criterion: string }[] = []
+
+	if (input.bilateralOedema) {
+		findings.push({ criterion: 'Bilateral pitting oedema', status: 'SAM' })
+	}
+
+	const whz = input.weightForHeightZ
+	if (whz != null) {
+		const status: AcuteMalnutritionValue =
+			whz < WHZ_CUTOFFS.sam
+				? 'SAM'
+				: whz < WHZ_CUTOFFS.mam
+					? 'MAM'
+					: whz < WHZ_CUTOFFS.atRisk
+						? 'AT_RISK'
+						: 'NONE'
+		if (status !== 'NONE') {
+			findings.push({
+				criterion: `Weight-for-height z ${whz.toFixed(2)} < ${cutoffFor(WHZ_CUTOFFS, status)}`,
+				status,
+			})
+		}
+	}
+
+	const muac = input.muacCm
+	const [minAge, maxAge] = MUAC_CUTOFF_AGE_RANGE_DAYS
+	if (muac != null && input.ageDays >= minAge && input.ageDays <= maxAge) {
+		const status: AcuteMalnutritionValue =
+			muac < MUAC_CUTOFFS_CM.sam
+				? 'SAM'
+				: muac < MUAC_CUTOFFS_CM.mam
+					? 'MAM'
+					: muac < MUAC_CUTOFFS_CM.atRisk
+						? 'AT_RISK'
+						: 'NONE'
+		if (status !== 'NONE') {
+			findings.push({
+				criterion: `MUAC ${muac} cm < ${cutoffFor(MUAC_CUTOFFS_CM, status)}`,
+				status,
+			})
+		}
+	}
+
+	const status = findings.reduce<AcuteMalnutritionValue>(
+		(worst, finding) =>
+			RANK[finding.status] > RANK[worst] ? finding.status : worst,
+		'NONE'
+	)
+
+	return {
+		criteria: findings
+			.filter(finding => finding.status === status)
+			.map(finding => finding.criterion),
+		status,
+	}
+}
+
+function cutoffFor(
+	cutoffs: { atRisk: number; mam: number; sam: number },
+	status: Exclude<AcuteMalnutritionValue, 'NONE'>
+): number {
+	return status === 'SAM'
+		? cutoffs.sam
+		: status === 'MAM'
+			? cutoffs.mam
+			: cutoffs.atRisk
+}
+
+/**
+ * Average weight gain between two weights in g per kg (of the earlier
+ * weight) per day, or null for intervals under a day
+ */
+export function weightGainGPerKgPerDay(
+	fromWeightKg: number,
+	toWeightKg: number,
+	from: Date,
+	to: Date
+): number | null {
+	const days = (to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000)
+	if (days < 1 || fromWeightKg <= 0) return null
+
+	const gain = ((toWeightKg - fromWeightKg) * 1000) / fromWeightKg / days
+	return Number(gain.toFixed(1))
+}
+
+export function classifyWeightGain(
+	gainGPerKgPerDay: number
+): 'POOR' | 'MODERATE' | 'GOOD' {
+	if (gainGPerKgPerDay < WEIGHT_GAIN_BANDS.poor) return 'POOR'
+	if (gainGPerKgPerDay < WEIGHT_GAIN_BANDS.good) return 'MODERATE'
+	return 'GOOD'
+}
+
+export interface OtpMeasurement {
+	date: Date
+	weightForHeightZ?: number | null
+	muacCm?: number | null
+	bilateralOedema?: boolean | null
+}
+
+export interface OtpDischargeCheck {
+	met: boolean
+	/** Criteria still outstanding, empty when met */
+	outstanding: string[]
+}
+
+/**
+ * WHO discharge criteria: the indicator the child was admitted on has
+ * recovered (WHZ >= -2 or MUAC >= 12.5 cm) and, for children admitted
+ * with oedema, no oedema for two weeks
+ */
+export function checkOtpDischarge(
+	admission: OtpMeasurement,
+	followUps: OtpMeasurement[]
+): OtpDischargeCheck {
+	const sorted = [...followUps].sort(
+		(a, b) => a.date.getTime() - b.date.getTime()
+	)
+	const latest = sorted.at(-1)
+	if (!latest) {
+		return { met: false, outstanding: ['No follow-up visit recorded'] }
+	}
+
+	const outstanding: string[] = []
+	const admittedOnMuac =
+		admission.muacCm != null && admission.muacCm < MUAC_CUTOFFS_CM.mam
+	const admittedOnWhz =
+		admission.weightForHeightZ != null &&
+		admission.weightForHeightZ < WHZ_CUTOFFS.mam
+
+	if (
+		admittedOnMuac &&
+		(latest.muacCm == null || latest.muacCm < MUAC_CUTOFFS_CM.mam)
+	) {
+		outstanding.push(`MUAC below ${MUAC_CUTOFFS_CM.mam} cm`)
+	}
+	if (
+		admittedOnWhz &&
+		(latest.weightForHeightZ == null ||
+			latest.weightForHeightZ < WHZ_CUTOFFS.mam)
+	) {
+		outstanding.push(`Weight-for-height z below ${WHZ_CUTOFFS.mam}`)
+	}
+
+	if (admission.bilateralOedema) {
+		const lastOedema = [admission, ...sorted]
+			.filter(m => m.bilateralOedema)
+			.at(-1) as OtpMeasurement
+		const oedemaFreeDays =
+			(latest.date.getTime() - lastOedema.date.getTime()) /
+			(24 * 60 * 60 * 1000)
+		if (latest.bilateralOedema || oedemaFreeDays < OTP_OEDEMA_FREE_DAYS) {
+			outstanding.push(`Oedema-free for less than ${OTP_OEDEMA_FREE_DAYS} days`)
+		}
+	}
+
+	return { met: outstanding.length === 0, outstanding }
+}
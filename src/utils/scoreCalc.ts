@@ -103,22 +103,6 @@ export function classifyGrowthStatus(
 	return 'NORMAL'
 }
 
-export async function checkGrowthAlerts(
-	vitalId: string,
-	data: {
-		weightForAgeZ?: number | null
-		heightForAgeZ?: number | null
-	}
-) {
-	if (
-		(data.weightForAgeZ && data.weightForAgeZ < -3) ||
-		(data.heightForAgeZ && data.heightForAgeZ < -3)
-	) {
-		// Future: notify doctor / add alert table
-		console.warn(`🚨 Severe growth deviation for vital ${vitalId}`)
-	}
-}
-
 // --- WHO Percentiles Calculation ---
 export async function calculateWHOPercentiles(
 	weight: number | undefined,
@@ -349,7 +333,9 @@ export const zScoreToPercentile = (zScore: number): number => {
 		((((1.061_405_429 * t - 1.453_152_027) * t + 1.421_413_741) * t -
 			0.284_496_736) *
 			t +
-			0.254_829_592 * t * Math.exp(-x * x))
+			0.254_829_592) *
+			t *
+			Math.exp(-x * x)
 	const percentile = 0.5 * (1 + sign * erf)
 
 	return Math.max(
@@ -0,0 +1,379 @@
+// src/utils/screening.ts
+
+/**
+ * Standardized screening questionnaires - answer scoring against
+ * configurable cut-offs, and which screenings are due at a given age
+ * Pure functions - instruments are data (prisma/data/screening_instruments.json)
+ */
+
+import { addDays, addMonths, differenceInDays } from 'date-fns'
+
+export type ScreeningRiskValue = 'LOW' | 'MODERATE' | 'HIGH'
+
+/** Instrument catalog in prisma/data */
+export const SCREENING_INSTRUMENTS_FILE = 'screening_instruments.json'
+
+export const SCREENING_RISK_ORDER: Record<ScreeningRiskValue, number> = {
+	HIGH: 2,
+	LOW: 0,
+	MODERATE: 1,
+}
+
+export interface ScreeningQuestionDefinition {
+	number: number
+	domain?: string | null
+	text: string
+	options: string[]
+	/** Points for each entry of options, same order */
+	optionPoints: number[]
+}
+
+export interface ScreeningCutoffDefinition {
+	/** Domain score the band applies to; the total when null */
+	domain?: string | null
+	minScore: number
+	maxScore: number
+	risk: ScreeningRiskValue
+	label: string
+	recommendation?: string | null
+	followUpInstrumentCode?: string | null
+}
+
+export interface ScreeningInstrumentDefinition {
+	code: string
+	name: string
+	description?: string | null
+	version: string
+	dueAgesMonths: number[]
+	windowMonths: number
+	minAgeMonths: number
+	maxAgeMonths: number
+	source?: string | null
+	questions: ScreeningQuestionDefinition[]
+	cutoffs: ScreeningCutoffDefinition[]
+}
+
+export interface ScreeningAnswerInput {
+	number: number
+	answer: string
+}
+
+export interface ScreeningFinding {
+	domain: string | null
+	score: number
+	risk: ScreeningRiskValue
+	label: string
+	recommendation: string | null
+	followUpInstrumentCode: string | null
+}
+
+export interface ScreeningScore {
+	answers: (ScreeningAnswerInput & { points: number })[]
+	totalScore: number
+	domainScores: Record<string, number>
+	findings: ScreeningFinding[]
+	risk: ScreeningRiskValue
+	outcome: string
+	recommendation: string | null
+	followUpInstrumentCode: string | null
+}
+
+/**
+ * Configuration problems that would make scoring ambiguous
+ */
+export function validateInstrument(
+	instrument: ScreeningInstrumentDefinition
+): string[] {
+	const errors: string[] = []
+	const numbers = new Set<number>()
+	const domains = new Set<string>()
+
+	for (const question of instrument.questions) {
+		if (numbers.has(question.number)) {
+			errors.push(`Question ${question.number} is defined twice`)
+		}
+		numbers.add(question.number)
+		if (question.domain) domains.add(question.domain)
+
+		if (
+			question.options.length === 0 ||
+			question.options.length !== question.optionPoints.length
+		) {
+			errors.push(
+				`Question ${question.number} needs one point value per option`
+			)
+		}
+	}
+
+	const bands = new Map<string, ScreeningCutoffDefinition[]>()
+	for (const cutoff of instrument.cutoffs) {
+		if (cutoff.domain && !domains.has(cutoff.domain)) {
+			errors.push(`Cut-off for unknown domain ${cutoff.domain}`)
+		}
+		if (cutoff.minScore > cutoff.maxScore) {
+			errors.push(`Cut-off ${cutoff.label} has min score above max score`)
+		}
+		const key = cutoff.domain ?? ''
+		bands.set(key, [...(bands.get(key) ?? []), cutoff])
+	}
+
+	for (const [domain, cutoffs] of bands) {
+		const sorted = [...cutoffs].sort((a, b) => a.minScore - b.minScore)
+		for (let i = 1; i < sorted.length; i++) {
+			if (sorted[i].minScore <= sorted[i - 1].maxScore) {
+				errors.push(
+					`Cut-offs ${sorted[i - 1].label} and ${sorted[i].label} overlap${domain ? ` for ${domain}` : ''}`
+				)
+			}
+		}
+	}
+
+	if (instrument.cutoffs.length === 0) {
+		errors.push('At least one cut-off is required')
+	}
+
+	return errors
+}
+
+/**
+ * Unanswered questions and answers that are not one of the options
+ */
+export function findAnswerErrors(
+	questions: ScreeningQuestionDefinition[],
+	answers: ScreeningAnswerInput[]
+): string[] {
+	const byNumber = new Map(answers.map(a => [a.number, a.answer]))
+	const errors: string[] = []
+
+	for (const question of questions) {
+		const answer = byNumber.get(question.number)
+		if (answer === undefined) {
+			errors.push(`Question ${question.number} is unanswered`)
+		} else if (!question.options.includes(answer)) {
+			errors.push(
+				`Question ${question.number} must be one of ${question.options.join(', ')}`
+			)
+		}
+	}
+
+	return errors
+}
+
+/**
+ * Score answers and place the total and each domain in its cut-off band.
+ * The overall risk is the highest band reached; its labels and
+ * recommendations become the outcome.
+ */
+export function scoreScreening(
+	questions: ScreeningQuestionDefinition[],
+	cutoffs: ScreeningCutoffDefinition[],
+	answers: ScreeningAnswerInput[]
+): ScreeningScore {
+	const byNumber = new Map(answers.map(a => [a.number, a.answer]))
+	const scored: ScreeningScore['answers'] = []
+	const domainScores: Record<string, number> = {}
+	let totalScore = 0
+
+	for (const question of questions) {
+		const answer = byNumber.get(question.number)
+		if (answer === undefined) continue
+
+		const points = question.optionPoints[question.options.indexOf(answer)] ?? 0
+		scored.push({ answer, number: question.number, points })
+		totalScore += points
+		if (question.domain) {
+			domainScores[question.domain] =
+				(domainScores[question.domain] ?? 0) + points
+		}
+	}
+
+	const findings: ScreeningFinding[] = cutoffs.flatMap(cutoff => {
+		const score = cutoff.domain
+			? (domainScores[cutoff.domain] ?? 0)
+			: totalScore
+		if (score < cutoff.minScore || score > cutoff.maxScore) return []
+		return [
+			{
+				domain: cutoff.domain ?? null,
+				followUpInstrumentCode: cutoff.followUpInstrumentCode ?? null,
+				label: cutoff.label,
+				recommendation: cutoff.recommendation ?? null,
+				risk: cutoff.risk,
+				score,
+			},
+		]
+	})
+
+	const risk = findings.reduce<ScreeningRiskValue>(
+		(highest, finding) =>
+			SCREENING_RISK_ORDER[finding.risk] > SCREENING_RISK_ORDER[highest]
+				? finding.risk
+				: highest,
+		'LOW'
+	)
+	const top = findings.filter(finding => finding.risk === risk)
+
+	return {
+		answers: scored,
+		domainScores,
+		findings,
+		followUpInstrumentCode:
+			top.find(finding => finding.followUpInstrumentCode)
+				?.followUpInstrumentCode ?? null,
+		outcome: describeFindings(top),
+		recommendation:
+			unique(top.map(finding => finding.recommendation)).join(' ') || null,
+		risk,
+		totalScore,
+	}
+}
+
+export interface ScreeningResultHistory {
+	instrumentCode: string
+	ageMonths: number
+	administeredAt: Date
+	followUpInstrumentCode?: string | null
+}
+
+export interface ScreeningDue {
+	instrumentCode: string
+	instrumentName: string
+	/** Null for follow-ups triggered by an earlier result */
+	dueAgeMonths: number | null
+	dueDate: Date
+	windowEndsAt: Date
+	isOverdue: boolean
+	daysOverdue: number
+	reason: 'AGE' | 'FOLLOW_UP'
+}
+
+/**
+ * Screenings due within the horizon: the latest due age reached for each
+ * instrument unless a result falls in its window (from one month early),
+ * plus follow-up instruments an earlier result called for.
+ *
+ * `birthDate` is the date ages count from - shifted by the prematurity
+ * correction when the caller uses corrected age.
+ */
+export function dueScreenings(
+	instruments: Pick<
+		ScreeningInstrumentDefinition,
+		'code' | 'name' | 'dueAgesMonths' | 'windowMonths' | 'maxAgeMonths'
+	>[],
+	results: ScreeningResultHistory[],
+	birthDate: Date,
+	today: Date,
+	horizonDays: number
+): ScreeningDue[] {
+	const horizon = addDays(today, horizonDays)
+	const due: ScreeningDue[] = []
+
+	for (const instrument of instruments) {
+		if (today > addMonths(birthDate, instrument.maxAgeMonths)) continue
+
+		const dueAge = instrument.dueAgesMonths
+			.filter(age => addMonths(birthDate, age) <= horizon)
+			.sort((a, b) => a - b)
+			.at(-1)
+		if (dueAge === undefined) continue
+
+		const windowEnd = dueAge + instrument.windowMonths
+		const done = results.some(
+			r =>
+				r.instrumentCode === instrument.code &&
+				r.ageMonths >= dueAge - 1 &&
+				r.ageMonths < windowEnd
+		)
+		if (done) continue
+
+		due.push(
+			toDue(
+				instrument,
+				addMonths(birthDate, dueAge),
+				addMonths(birthDate, windowEnd),
+				dueAge,
+				'AGE',
+				today
+			)
+		)
+	}
+
+	// Latest result calling for each follow-up instrument
+	const triggers = new Map<string, ScreeningResultHistory>()
+	for (const result of results) {
+		const code = result.followUpInstrumentCode
+		if (!code) continue
+		const current = triggers.get(code)
+		if (!current || result.administeredAt > current.administeredAt) {
+			triggers.set(code, result)
+		}
+	}
+
+	for (const [code, trigger] of triggers) {
+		const instrument = instruments.find(i => i.code === code)
+		if (!instrument) continue
+
+		const done = results.some(
+			r =>
+				r.instrumentCode === code && r.administeredAt >= trigger.administeredAt
+		)
+		if (done) continue
+
+		due.push(
+			toDue(
+				instrument,
+				trigger.administeredAt,
+				addMonths(trigger.administeredAt, instrument.windowMonths),
+				null,
+				'FOLLOW_UP',
+				today
+			)
+		)
+	}
+
+	return due.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+}
+
+// ==================== HELPERS ====================
+
+function toDue(
+	instrument: { code: string; name: string },
+	dueDate: Date,
+	windowEndsAt: Date,
+	dueAgeMonths: number | null,
+	reason: ScreeningDue['reason'],
+	today: Date
+): ScreeningDue {
+	const daysOverdue = Math.max(0, differenceInDays(today, dueDate))
+
+	return {
+		daysOverdue,
+		dueAgeMonths,
+		dueDate,
+		instrumentCode: instrument.code,
+		instrumentName: instrument.name,
+		isOverdue: daysOverdue > 0,
+		reason,
+		windowEndsAt,
+	}
+}
+
+/**
+ * "Medium risk", or "Below cut-off: Communication, Fine motor"
+ */
+function describeFindings(findings: ScreeningFinding[]): string {
+	const labels = unique(findings.map(finding => finding.label))
+
+	return labels
+		.map(label => {
+			const domains = findings
+				.filter(finding => finding.label === label && finding.domain)
+				.map(finding => finding.domain)
+			return domains.length > 0 ? `${label}: ${domains.join(', ')}` : label
+		})
+		.join('; ')
+}
+
+function unique(values: (string | null)[]): string[] {
+	return [...new Set(values.filter((v): v is string => Boolean(v)))]
+}
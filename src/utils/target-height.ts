@@ -0,0 +1,95 @@
+// src/utils/target-height.ts
+
+/**
+ * Mid-parental target height (Tanner) and adult height prediction from
+ * the child's height-for-age z-score
+ * Pure functions - callers load the adult height LMS of the reference
+ */
+
+import {
+	calculateWHOZScore,
+	type LMSParameters,
+	valueAtZ,
+} from './who-standards'
+
+/** Added for boys and subtracted for girls - the mean adult sex difference */
+export const MID_PARENTAL_SEX_ADJUSTMENT_CM = 13
+
+/** Half-width of the target range, about 2 SD of adult height */
+export const MID_PARENTAL_RANGE_CM = 8.5
+
+/** Gap between projected and target height z-scores that is flagged */
+export const TARGET_HEIGHT_GAP_Z = 1.5
+
+export interface TargetHeight {
+	motherHeightCm: number
+	fatherHeightCm: number
+	targetCm: number
+	lowerCm: number
+	upperCm: number
+}
+
+export interface AdultHeightPrediction {
+	/** Height-for-age z-score the projection starts from */
+	currentZ: number
+	predictedCm: number
+	/** Target height as a z-score of the adult reference */
+	targetZ: number
+	/** Current z minus target z; negative when growing below target */
+	gapZ: number
+	gapCm: number
+	withinTargetRange: boolean
+	flagged: boolean
+}
+
+/**
+ * Sex-adjusted mid-parental height and its range, or null unless both
+ * parents' heights are recorded
+ */
+export function midParentalTargetHeight(
+	gender: 'MALE' | 'FEMALE',
+	motherHeightCm: number | null | undefined,
+	fatherHeightCm: number | null | undefined
+): TargetHeight | null {
+	if (!(motherHeightCm && fatherHeightCm)) return null
+
+	const adjustment =
+		gender === 'MALE'
+			? MID_PARENTAL_SEX_ADJUSTMENT_CM
+			: -MID_PARENTAL_SEX_ADJUSTMENT_CM
+	const targetCm = (motherHeightCm + fatherHeightCm + adjustment) / 2
+
+	return {
+		fatherHeightCm,
+		lowerCm: Number((targetCm - MID_PARENTAL_RANGE_CM).toFixed(1)),
+		motherHeightCm,
+		targetCm: Number(targetCm.toFixed(1)),
+		upperCm: Number((targetCm + MID_PARENTAL_RANGE_CM).toFixed(1)),
+	}
+}
+
+/**
+ * Project the current height-for-age z-score to adult height on the
+ * reference's last age, assuming the child keeps tracking the same
+ * z-score, and compare it with the target
+ */
+export function predictAdultHeight(
+	currentZ: number,
+	adultLMS: LMSParameters,
+	target: TargetHeight
+): AdultHeightPrediction {
+	const predictedCm = valueAtZ(adultLMS, currentZ)
+	const targetZ = calculateWHOZScore(target.targetCm, adultLMS, false)
+	const gapZ = currentZ - targetZ
+
+	return {
+		currentZ,
+		flagged: Math.abs(gapZ) >= TARGET_HEIGHT_GAP_Z,
+		gapCm: Number((predictedCm - target.targetCm).toFixed(1)),
+		gapZ: Number(gapZ.toFixed(2)),
+		predictedCm: Number(predictedCm.toFixed(1)),
+		targetZ: Number(targetZ.toFixed(2)),
+		withinTargetRange:
+			predictedCm >= target.lowerCm && predictedCm <= target.upperCm,
+	}
+}
@@ -0,0 +1,251 @@
+// src/utils/vaccine-series.ts
+
+// No "use cache" here - pure series evaluation, the service layer fetches data
+
+import { addDays, differenceInDays, max as maxDate } from 'date-fns'
+
+// --- Type Definitions ---
+
+export interface VaccineSeriesRule {
+	id: number | string
+	vaccineName: string
+	dosesRequired: number
+	/** Minimum days between consecutive doses */
+	minimumInterval?: number | null
+	/** Minimum age (days) for the first dose */
+	ageInDaysMin?: number | null
+	/** Age (days) after which the series should no longer be started/completed */
+	ageInDaysMax?: number | null
+	isMandatory?: boolean
+}
+
+export interface AdministeredDose {
+	vaccine: string
+	date: Date
+	dose?: string | null
+	status?: string | null
+}
+
+export interface ScheduleVersionWindow {
+	id: string
+	effectiveFrom: Date
+	effectiveTo?: Date | null
+}
+
+export interface CatchUpDose {
+	doseNumber: number
+	earliestDate: Date
+}
+
+export interface VaccineSeriesStatus {
+	scheduleId: string
+	vaccineName: string
+	isMandatory: boolean
+	dosesRequired: number
+	dosesCompleted: number
+	/** Doses given too early (below min age or min interval) - they do not count */
+	invalidDoses: number
+	isComplete: boolean
+	isExempted: boolean
+	/** Child is older than ageInDaysMax - needs clinician review, no auto plan */
+	isPastMaxAge: boolean
+	nextDoseNumber: number | null
+	lastDoseDate: Date | null
+	/** Date the child reaches the minimum age for the first dose */
+	minimumAgeDate: Date
+	/** Earliest date the next dose is valid (min age and min interval) */
+	earliestValidDate: Date | null
+	/** Routine on-time date for the next dose */
+	recommendedDate: Date | null
+	/** Later of recommendedDate and earliestValidDate */
+	dueDate: Date | null
+	isOverdue: boolean
+	daysOverdue: number
+	/** Child started late or missed a dose and needs an accelerated plan */
+	isCatchUp: boolean
+	catchUpPlan: CatchUpDose[]
+}
+
+// --- Helpers ---
+
+const ORDINAL_DOSE = /(\d+)\s*(st|nd|rd|th)?/i
+
+export function normalizeVaccineName(name: string): string {
+	return name.trim().toLowerCase()
+}
+
+/**
+ * Parse free-text dose labels ("1st dose", "Dose 2", "2", "Single dose")
+ * Returns null for labels without a series position (e.g. "Booster")
+ */
+export function parseDoseNumber(dose?: string | null): number | null {
+	if (!dose) return null
+	if (/single/i.test(dose)) return 1
+
+	const match = dose.match(ORDINAL_DOSE)
+	if (!match?.[1]) return null
+
+	const value = Number.parseInt(match[1], 10)
+	return Number.isFinite(value) && value > 0 ? value : null
+}
+
+/**
+ * Human label for an age in days ("Birth", "6 weeks", "9 months", "4 years")
+ * Used when an imported schedule row has no recommendedAge text
+ */
+export function formatScheduleAge(ageInDays: number): string {
+	if (ageInDays <= 0) return 'Birth'
+	if (ageInDays < 56) return `${Math.round(ageInDays / 7)} weeks`
+	if (ageInDays < 730) return `${Math.round(ageInDays / 30.4375)} months`
+	return `${Math.round(ageInDays / 365.25)} years`
+}
+
+/**
+ * Pick the schedule version in force on the child's birth date
+ * Falls back to the latest version started before birth, then to the
+ * earliest version for children born before any of them
+ */
+export function selectScheduleVersionForBirth<T extends ScheduleVersionWindow>(
+	versions: T[],
+	dateOfBirth: Date
+): T | null {
+	const sorted = [...versions].sort(
+		(a, b) =>
+			new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime()
+	)
+	const birth = new Date(dateOfBirth).getTime()
+
+	const started = sorted.filter(
+		v => new Date(v.effectiveFrom).getTime() <= birth
+	)
+
+	return (
+		started.find(
+			v => !v.effectiveTo || new Date(v.effectiveTo).getTime() > birth
+		) ??
+		started[0] ??
+		sorted.at(-1) ??
+		null
+	)
+}
+
+// --- Core Series Evaluation ---
+
+/**
+ * Evaluate one vaccine series for a patient
+ * - Counts only valid completed doses (min age + min interval respected)
+ * - Works out the next dose, its earliest valid and recommended dates
+ * - Builds a catch-up plan when the child is behind schedule
+ */
+export function evaluateVaccineSeries(
+	rule: VaccineSeriesRule,
+	history: AdministeredDose[],
+	dateOfBirth: Date,
+	asOf: Date = new Date()
+): VaccineSeriesStatus {
+	const name = normalizeVaccineName(rule.vaccineName)
+	const interval = rule.minimumInterval ?? 0
+	const minimumAgeDate = addDays(dateOfBirth, rule.ageInDaysMin ?? 0)
+
+	const records = history.filter(h => normalizeVaccineName(h.vaccine) === name)
+	const isExempted = records.some(r => r.status === 'EXEMPTED')
+
+	const completed = records
+		.filter(r => r.status === 'COMPLETED')
+		.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+	// Walk the history in date order and keep only valid doses
+	const validDoses: Date[] = []
+	let invalidDoses = 0
+	for (const record of completed) {
+		const date = new Date(record.date)
+		const previous = validDoses.at(-1)
+		const earliest = previous ? addDays(previous, interval) : minimumAgeDate
+
+		if (differenceInDays(date, earliest) < 0) {
+			invalidDoses++
+			continue
+		}
+		validDoses.push(date)
+	}
+
+	const dosesCompleted = Math.min(validDoses.length, rule.dosesRequired)
+	const isComplete = dosesCompleted >= rule.dosesRequired
+	const lastDoseDate = validDoses.at(-1) ?? null
+	const ageDays = differenceInDays(asOf, dateOfBirth)
+	const isPastMaxAge =
+		!isComplete && rule.ageInDaysMax != null && ageDays > rule.ageInDaysMax
+
+	const base = {
+		dosesCompleted,
+		dosesRequired: rule.dosesRequired,
+		invalidDoses,
+		isComplete,
+		isExempted,
+		isMandatory: rule.isMandatory ?? true,
+		isPastMaxAge,
+		lastDoseDate,
+		minimumAgeDate,
+		scheduleId: rule.id.toString(),
+		vaccineName: rule.vaccineName,
+	}
+
+	if (isComplete || isExempted) {
+		return {
+			...base,
+			catchUpPlan: [],
+			daysOverdue: 0,
+			dueDate: null,
+			earliestValidDate: null,
+			isCatchUp: false,
+			isOverdue: false,
+			nextDoseNumber: null,
+			recommendedDate: null,
+		}
+	}
+
+	const nextDoseNumber = dosesCompleted + 1
+	const earliestValidDate = lastDoseDate
+		? maxDate([minimumAgeDate, addDays(lastDoseDate, interval)])
+		: minimumAgeDate
+	const recommendedDate = addDays(minimumAgeDate, dosesCompleted * interval)
+	const dueDate = maxDate([recommendedDate, earliestValidDate])
+	const daysOverdue = Math.max(0, differenceInDays(asOf, dueDate))
+	const isOverdue = daysOverdue > 0
+
+	// Accelerated plan: next dose as soon as valid, then min interval spacing
+	const catchUpPlan: CatchUpDose[] = []
+	if (isOverdue && !isPastMaxAge) {
+		let cursor = maxDate([asOf, earliestValidDate])
+		for (let dose = nextDoseNumber; dose <= rule.dosesRequired; dose++) {
+			catchUpPlan.push({ doseNumber: dose, earliestDate: cursor })
+			cursor = addDays(cursor, interval)
+		}
+	}
+
+	return {
+		...base,
+		catchUpPlan,
+		daysOverdue,
+		dueDate,
+		earliestValidDate,
+		isCatchUp: catchUpPlan.length > 0,
+		isOverdue,
+		nextDoseNumber,
+		recommendedDate,
+	}
+}
+
+/**
+ * Evaluate every series in a schedule for one patient
+ */
+export function evaluateVaccineSchedule(
+	schedule: VaccineSeriesRule[],
+	history: AdministeredDose[],
+	dateOfBirth: Date,
+	asOf: Date = new Date()
+): VaccineSeriesStatus[] {
+	return schedule.map(rule =>
+		evaluateVaccineSeries(rule, history, dateOfBirth, asOf)
+	)
+}
@@ -0,0 +1,278 @@
+// src/utils/vital-signs.ts
+
+/**
+ * Age-banded normal vital sign ranges, automatic flagging and the
+ * Pediatric Early Warning Score (Brighton PEWS)
+ * Pure functions - callers pass the vital set and the age in days
+ */
+
+export type PewsBehaviorValue =
+	| 'PLAYING'
+	| 'SLEEPING'
+	| 'IRRITABLE'
+	| 'LETHARGIC'
+
+export type SkinColorValue = 'PINK' | 'PALE' | 'GREY' | 'MOTTLED'
+
+export type RespiratoryEffortValue =
+	| 'NORMAL'
+	| 'ACCESSORY_MUSCLES'
+	| 'RETRACTIONS'
+	| 'GRUNTING'
+
+export interface VitalSignRange {
+	min: number
+	max: number
+}
+
+export interface VitalSignBand {
+	label: string
+	/** Band applies from this age (inclusive) up to the next band */
+	minAgeDays: number
+	heartRate: VitalSignRange
+	respiratoryRate: VitalSignRange
+	systolic: VitalSignRange
+}
+
+/**
+ * Awake resting ranges, neonate through adolescent (PALS / APLS)
+ */
+export const VITAL_SIGN_BANDS: VitalSignBand[] = [
+	{
+		heartRate: { max: 180, min: 100 },
+		label: 'Neonate (0-27 days)',
+		minAgeDays: 0,
+		respiratoryRate: { max: 60, min: 30 },
+		systolic: { max: 90, min: 60 },
+	},
+	{
+		heartRate: { max: 160, min: 100 },
+		label: 'Infant (1-11 months)',
+		minAgeDays: 28,
+		respiratoryRate: { max: 50, min: 30 },
+		systolic: { max: 100, min: 70 },
+	},
+	{
+		heartRate: { max: 150, min: 90 },
+		label: 'Toddler (1-2 years)',
+		minAgeDays: 365,
+		respiratoryRate: { max: 40, min: 24 },
+		systolic: { max: 110, min: 80 },
+	},
+	{
+		heartRate: { max: 140, min: 80 },
+		label: 'Preschool (3-5 years)',
+		minAgeDays: 3 * 365,
+		respiratoryRate: { max: 34, min: 22 },
+		systolic: { max: 110, min: 80 },
+	},
+	{
+		heartRate: { max: 120, min: 70 },
+		label: 'School age (6-11 years)',
+		minAgeDays: 6 * 365,
+		respiratoryRate: { max: 30, min: 18 },
+		systolic: { max: 120, min: 85 },
+	},
+	{
+		heartRate: { max: 100, min: 60 },
+		label: 'Adolescent (12 years and over)',
+		minAgeDays: 12 * 365,
+		respiratoryRate: { max: 20, min: 12 },
+		systolic: { max: 135, min: 95 },
+	},
+]
+
+/** Same at every age */
+export const TEMPERATURE_RANGE: VitalSignRange = { max: 37.9, min: 36 }
+export const MIN_OXYGEN_SATURATION = 94
+
+export const PEWS_THRESHOLDS = {
+	/** Increase observations and review */
+	review: 3,
+	/** Urgent review by the responsible doctor */
+	urgent: 5,
+}
+
+export interface VitalSignValues {
+	heartRate?: number | null
+	respiratoryRate?: number | null
+	systolic?: number | null
+	bodyTemperature?: number | null
+	oxygenSaturation?: number | null
+}
+
+export interface PewsObservations extends VitalSignValues {
+	behavior?: PewsBehaviorValue | null
+	skinColor?: SkinColorValue | null
+	capillaryRefillSeconds?: number | null
+	respiratoryEffort?: RespiratoryEffortValue | null
+	/** Supplemental oxygen, L/min */
+	oxygenFlowLpm?: number | null
+}
+
+export interface PewsScore {
+	behavior: number
+	cardiovascular: number
+	respiratory: number
+	total: number
+	/** Total at or above the urgent threshold, or any component scoring 3 */
+	urgent: boolean
+}
+
+export function vitalSignBand(ageDays: number): VitalSignBand {
+	return (
+		VITAL_SIGN_BANDS.filter(band => band.minAgeDays <= ageDays).at(-1) ??
+		VITAL_SIGN_BANDS[0]
+	)
+}
+
+/**
+ * Vitals outside the band's normal range, e.g. HEART_RATE_HIGH, SPO2_LOW
+ */
+export function flagVitalSigns(
+	vitals: VitalSignValues,
+	ageDays: number
+): string[] {
+	const band = vitalSignBand(ageDays)
+	const flags: string[] = []
+
+	const check = (
+		code: string,
+		value: number | null | undefined,
+		range: VitalSignRange
+	) => {
+		if (value == null) return
+		if (value < range.min) flags.push(`${code}_LOW`)
+		else if (value > range.max) flags.push(`${code}_HIGH`)
+	}
+
+	check('HEART_RATE', vitals.heartRate, band.heartRate)
+	check('RESPIRATORY_RATE', vitals.respiratoryRate, band.respiratoryRate)
+	check('SYSTOLIC', vitals.systolic, band.systolic)
+	check('TEMPERATURE', vitals.bodyTemperature, TEMPERATURE_RANGE)
+	if (
+		vitals.oxygenSaturation != null &&
+		vitals.oxygenSaturation < MIN_OXYGEN_SATURATION
+	) {
+		flags.push('SPO2_LOW')
+	}
+
+	return flags
+}
+
+const BEHAVIOR_POINTS: Record<PewsBehaviorValue, number> = {
+	IRRITABLE: 2,
+	LETHARGIC: 3,
+	PLAYING: 0,
+	SLEEPING: 1,
+}
+
+const SKIN_COLOR_POINTS: Record<SkinColorValue, number> = {
+	GREY: 2,
+	MOTTLED: 3,
+	PALE: 1,
+	PINK: 0,
+}
+
+const RESPIRATORY_EFFORT_POINTS: Record<RespiratoryEffortValue, number> = {
+	ACCESSORY_MUSCLES: 1,
+	GRUNTING: 3,
+	NORMAL: 0,
+	RETRACTIONS: 2,
+}
+
+/**
+ * Brighton PEWS. Each component scores the worst of its observations;
+ * rates are scored against the age band's normal range. Observations
+ * not recorded score 0, so the score is null without any rate or
+ * observation to score.
+ */
+export function calculatePews(
+	observations: PewsObservations,
+	ageDays: number
+): PewsScore | null {
+	const scored = [
+		observations.behavior,
+		observations.skinColor,
+		observations.capillaryRefillSeconds,
+		observations.heartRate,
+		observations.respiratoryRate,
+		observations.respiratoryEffort,
+		observations.oxygenFlowLpm,
+	]
+	if (scored.every(value => value == null)) return null
+
+	const band = vitalSignBand(ageDays)
+
+	const behavior = observations.behavior
+		? BEHAVIOR_POINTS[observations.behavior]
+		: 0
+
+	const cardiovascular = Math.max(
+		observations.skinColor ? SKIN_COLOR_POINTS[observations.skinColor] : 0,
+		scoreCapillaryRefill(observations.capillaryRefillSeconds),
+		scoreHeartRate(observations.heartRate, band.heartRate)
+	)
+
+	const respiratory = Math.max(
+		observations.respiratoryEffort
+			? RESPIRATORY_EFFORT_POINTS[observations.respiratoryEffort]
+			: 0,
+		scoreRespiratoryRate(observations.respiratoryRate, band.respiratoryRate),
+		scoreOxygen(observations.oxygenFlowLpm)
+	)
+
+	const total = behavior + cardiovascular + respiratory
+
+	return {
+		behavior,
+		cardiovascular,
+		respiratory,
+		total,
+		urgent:
+			total >= PEWS_THRESHOLDS.urgent ||
+			[behavior, cardiovascular, respiratory].includes(3),
+	}
+}
+
+// ==================== HELPERS ====================
+
+function scoreCapillaryRefill(seconds?: number | null): number {
+	if (seconds == null || seconds <= 2) return 0
+	if (seconds < 4) return 1
+	if (seconds < 5) return 2
+	return 3
+}
+
+/**
+ * 20 over the normal maximum scores 2; 30 over, or bradycardia (10 under
+ * the minimum, leaving room for sleeping rates), 3
+ */
+function scoreHeartRate(
+	rate: number | null | undefined,
+	range: VitalSignRange
+): number {
+	if (rate == null) return 0
+	if (rate <= range.min - 10 || rate >= range.max + 30) return 3
+	if (rate >= range.max + 20) return 2
+	return 0
+}
+
+/** 10 over the normal maximum scores 1, 20 over 2; 5 under, 3 */
+function scoreRespiratoryRate(
+	rate: number | null | undefined,
+	range: VitalSignRange
+): number {
+	if (rate == null) return 0
+	if (rate <= range.min - 5) return 3
+	if (rate >= range.max + 20) return 2
+	if (rate >= range.max + 10) return 1
+	return 0
+}
+
+function scoreOxygen(litersPerMinute?: number | null): number {
+	if (litersPerMinute == null || litersPerMinute < 3) return 0
+	if (litersPerMinute < 6) return 1
+	if (litersPerMinute < 8) return 2
+	return 3
+}
@@ -0,0 +1,694 @@
+// src/utils/who-standards.ts
+
+/**
+ * Growth reference tables - WHO Child Growth Standards (0-5 years),
+ * WHO 2007 Growth Reference (5-19 years), CDC 2000 (2-20 years) and the
+ * Fenton 2013 preterm chart: table parsing, corrected age, reference
+ * selection by age and z-scores.
+ * Shared by the seed importers and the growth service
+ */
+
+export type GrowthReferenceValue =
+	| 'WHO_2006'
+	| 'WHO_2007'
+	| 'CDC_2000'
+	| 'FENTON_2013'
+
+/** References a clinic can choose for children past the 0-5 y standards */
+export type SchoolAgeReference = 'WHO_2007' | 'CDC_2000'
+
+export type WHOChartType =
+	| 'WFA'
+	| 'HFA'
+	| 'HcFA'
+	| 'BFA'
+	| 'WFL'
+	| 'WFH'
+	| 'ACFA'
+
+export type WHOMeasurementType =
+	| 'Weight'
+	| 'Height'
+	| 'HeadCircumference'
+	| 'BMI'
+	| 'MUAC'
+
+export interface WHOTableDefinition {
+	/** Key of the table in its zscore-<key>.json file */
+	key: string
+	reference: GrowthReferenceValue
+	chartType: WHOChartType
+	measurementType: WHOMeasurementType
+	/**
+	 * Day of life (0-5 y standards), month (2007 reference) or, for
+	 * weight-for-length/height, length in cm
+	 */
+	index: 'age' | 'month' | 'length'
+	/** First day of life the table applies from */
+	fromAgeDays: number
+}
+
+export interface CDCTableDefinition {
+	/** CDC data file, e.g. statage.csv */
+	file: string
+	chartType: WHOChartType
+	measurementType: WHOMeasurementType
+}
+
+export const GROWTH_REFERENCE_LABELS: Record<GrowthReferenceValue, string> = {
+	CDC_2000: 'CDC 2000 Growth Charts (2-20 years)',
+	FENTON_2013: 'Fenton 2013 Preterm Growth Chart (22-50 weeks PMA)',
+	WHO_2006: 'WHO Child Growth Standards (0-5 years)',
+	WHO_2007: 'WHO Growth Reference 2007 (5-19 years)',
+}
+
+const DAYS_PER_MONTH = 30.4375
+
+export function monthsToDays(months: number): number {
+	return Math.round(months * DAYS_PER_MONTH)
+}
+
+export const WHO_TABLES: WHOTableDefinition[] = [
+	{
+		chartType: 'WFA',
+		fromAgeDays: 0,
+		index: 'age',
+		reference: 'WHO_2006',
+		key: 'wfa',
+		measurementType: 'Weight',
+	},
+	{
+		chartType: 'HFA',
+		fromAgeDays: 0,
+		index: 'age',
+		reference: 'WHO_2006',
+		key: 'lhfa',
+		measurementType: 'Height',
+	},
+	{
+		chartType: 'HcFA',
+		fromAgeDays: 0,
+		index: 'age',
+		reference: 'WHO_2006',
+		key: 'hcfa',
+		measurementType: 'HeadCircumference',
+	},
+	{
+		chartType: 'BFA',
+		fromAgeDays: 0,
+		index: 'age',
+		reference: 'WHO_2006',
+		key: 'bfa',
+		measurementType: 'BMI',
+	},
+	{
+		chartType: 'WFL',
+		fromAgeDays: 0,
+		index: 'length',
+		reference: 'WHO_2006',
+		key: 'wfl',
+		measurementType: 'Weight',
+	},
+	{
+		chartType: 'WFH',
+		fromAgeDays: 731,
+		index: 'length',
+		reference: 'WHO_2006',
+		key: 'wfh',
+		measurementType: 'Weight',
+	},
+	{
+		chartType: 'ACFA',
+		fromAgeDays: 91,
+		index: 'age',
+		reference: 'WHO_2006',
+		key: 'acfa',
+		measurementType: 'MUAC',
+	},
+	{
+		chartType: 'HFA',
+		fromAgeDays: monthsToDays(61),
+		index: 'month',
+		key: 'hfa2007',
+		measurementType: 'Height',
+		reference: 'WHO_2007',
+	},
+	{
+		chartType: 'WFA',
+		fromAgeDays: monthsToDays(61),
+		index: 'month',
+		key: 'wfa2007',
+		measurementType: 'Weight',
+		reference: 'WHO_2007',
+	},
+	{
+		chartType: 'BFA',
+		fromAgeDays: monthsToDays(61),
+		index: 'month',
+		key: 'bfa2007',
+		measurementType: 'BMI',
+		reference: 'WHO_2007',
+	},
+]
+
+export const CDC_TABLES: CDCTableDefinition[] = [
+	{ chartType: 'HFA', file: 'statage.csv', measurementType: 'Height' },
+	{ chartType: 'WFA', file: 'wtage.csv', measurementType: 'Weight' },
+	{ chartType: 'BFA', file: 'bmiagerev.csv', measurementType: 'BMI' },
+]
+
+/** Fenton LMS data file in prisma/data */
+export const FENTON_TABLE_FILE = 'fenton-2013.csv'
+
+const FENTON_MEASURES: Record<
+	string,
+	{ chartType: WHOChartType; measurementType: WHOMeasurementType }
+> = {
+	headcirc: { chartType: 'HcFA', measurementType: 'HeadCircumference' },
+	length: { chartType: 'HFA', measurementType: 'Height' },
+	weight: { chartType: 'WFA', measurementType: 'Weight' },
+}
+
+/** Term gestation that corrected age counts from */
+export const TERM_GESTATION_WEEKS = 40
+
+/** Born before 37 weeks */
+export const PRETERM_BEFORE_WEEKS = 37
+
+/** Corrected age is used until 24 months chronological age */
+export const CORRECTED_AGE_UNTIL_DAYS = 730
+
+/** Fenton charts span 22 to 50 weeks postmenstrual age */
+export const FENTON_PMA_RANGE_DAYS: [number, number] = [22 * 7, 50 * 7]
+
+/**
+ * Age span (days) each reference covers per chart. WHO 2007 weight-for-age
+ * stops at 10 years; CDC is only loaded for stature, weight and BMI.
+ * Fenton spans are postmenstrual age, not age since birth.
+ */
+export const GROWTH_REFERENCE_COVERAGE: Record<
+	GrowthReferenceValue,
+	Partial<Record<WHOChartType, [number, number]>>
+> = {
+	CDC_2000: {
+		BFA: [monthsToDays(24), monthsToDays(240.5)],
+		HFA: [monthsToDays(24), monthsToDays(240.5)],
+		WFA: [monthsToDays(24), monthsToDays(240.5)],
+	},
+	FENTON_2013: {
+		HcFA: FENTON_PMA_RANGE_DAYS,
+		HFA: FENTON_PMA_RANGE_DAYS,
+		WFA: FENTON_PMA_RANGE_DAYS,
+	},
+	WHO_2006: {
+		ACFA: [91, 1856],
+		BFA: [0, 1856],
+		HcFA: [0, 1856],
+		HFA: [0, 1856],
+		WFA: [0, 1856],
+		WFH: [731, 1856],
+		WFL: [0, 730],
+	},
+	WHO_2007: {
+		BFA: [monthsToDays(61), monthsToDays(228)],
+		HFA: [monthsToDays(61), monthsToDays(228)],
+		WFA: [monthsToDays(61), monthsToDays(120)],
+	},
+}
+
+/** Last day of life covered by the 0-5 year standards */
+export const WHO_MAX_AGE_DAYS = 1856
+
+/** Switch from recumbent length to standing height tables */
+export const WHO_HEIGHT_FROM_AGE_DAYS = 731
+
+/** Length/height range of the WFL and WFH tables */
+export const WHO_LENGTH_RANGE: Record<'WFL' | 'WFH', [number, number]> = {
+	WFH: [65, 120],
+	WFL: [45, 110],
+}
+
+/**
+ * One row as published in the WHO expanded tables, values as strings.
+ * Age tables use Day; weight-for-length/height use Length or Height.
+ */
+export interface WHOTableRow {
+	Day?: string
+	Month?: string
+	Length?: string
+	Height?: string
+	L: string
+	M: string
+	S: string
+	SD4neg?: string
+	SD3neg: string
+	SD2neg: string
+	SD1neg: string
+	SD0: string
+	SD1: string
+	SD2: string
+	SD3: string
+	SD4?: string
+}
+
+export interface WHOStandardRow {
+	reference: GrowthReferenceValue
+	ageDays: number
+	ageInMonths: number | null
+	chartType: WHOChartType
+	gender: 'MALE' | 'FEMALE'
+	lengthCm: number | null
+	lValue: number
+	measurementType: WHOMeasurementType
+	mValue: number
+	sd0: number
+	sd1neg: number
+	sd1pos: number
+	sd2neg: number
+	sd2pos: number
+	sd3neg: number
+	sd3pos: number
+	sd4neg: number | null
+	sd4pos: number | null
+	sValue: number
+}
+
+export interface LMSParameters {
+	lValue: number
+	mValue: number
+	sValue: number
+}
+
+function parseValue(value: string | undefined): number | null {
+	if (value === undefined || value.trim() === '') return null
+	const parsed = Number.parseFloat(value)
+	return Number.isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Validate one WHO table row. Throws with the offending field so the
+ * importer can report and skip it.
+ */
+export function parseWHOTableRow(
+	row: WHOTableRow,
+	table: WHOTableDefinition,
+	gender: 'MALE' | 'FEMALE'
+): WHOStandardRow {
+	const indexColumn = {
+		age: 'Day',
+		length: 'Length/Height',
+		month: 'Month',
+	}[table.index]
+	const indexValue = parseValue(
+		table.index === 'age'
+			? row.Day
+			: table.index === 'month'
+				? row.Month
+				: (row.Length ?? row.Height)
+	)
+	if (indexValue === null) {
+		throw new Error(`Missing ${indexColumn} value`)
+	}
+
+	const required = {
+		lValue: parseValue(row.L),
+		mValue: parseValue(row.M),
+		sd0: parseValue(row.SD0),
+		sd1neg: parseValue(row.SD1neg),
+		sd1pos: parseValue(row.SD1),
+		sd2neg: parseValue(row.SD2neg),
+		sd2pos: parseValue(row.SD2),
+		sd3neg: parseValue(row.SD3neg),
+		sd3pos: parseValue(row.SD3),
+		sValue: parseValue(row.S),
+	}
+	for (const [key, value] of Object.entries(required)) {
+		if (value === null) throw new Error(`Missing or invalid ${key}`)
+	}
+	const values = required as Record<keyof typeof required, number>
+
+	if (values.mValue <= 0 || values.sValue <= 0) {
+		throw new Error('M and S must be positive')
+	}
+
+	const ageDays =
+		table.index === 'age'
+			? Math.round(indexValue)
+			: table.index === 'month'
+				? monthsToDays(indexValue)
+				: table.fromAgeDays
+
+	return {
+		...values,
+		ageDays,
+		ageInMonths:
+			table.index === 'month'
+				? Math.floor(indexValue)
+				: Math.floor(ageDays / DAYS_PER_MONTH),
+		chartType: table.chartType,
+		gender,
+		lengthCm: table.index === 'length' ? indexValue : null,
+		measurementType: table.measurementType,
+		reference: table.reference,
+		sd4neg: parseValue(row.SD4neg),
+		sd4pos: parseValue(row.SD4),
+	}
+}
+
+/**
+ * Validate one row of a CDC LMS data file (Sex, Agemos, L, M, S).
+ * The CDC files carry percentiles, not SD lines, so those are derived
+ * from the LMS parameters.
+ */
+export function parseCDCTableRow(
+	row: Record<string, string>,
+	table: CDCTableDefinition
+): WHOStandardRow {
+	const sex = row.Sex?.trim()
+	if (sex !== '1' && sex !== '2') throw new Error(`Invalid Sex '${row.Sex}'`)
+
+	const ageMonths = parseValue(row.Agemos)
+	const lms = {
+		lValue: parseValue(row.L),
+		mValue: parseValue(row.M),
+		sValue: parseValue(row.S),
+	}
+	if (ageMonths === null) throw new Error('Missing Agemos value')
+	for (const [key, value] of Object.entries(lms)) {
+		if (value === null) throw new Error(`Missing or invalid ${key}`)
+	}
+	const values = lms as LMSParameters
+	if (values.mValue <= 0 || values.sValue <= 0) {
+		throw new Error('M and S must be positive')
+	}
+
+	const sd = (z: number) => Number(valueAtZ(values, z).toFixed(4))
+
+	return {
+		...values,
+		ageDays: monthsToDays(ageMonths),
+		ageInMonths: Math.floor(ageMonths),
+		chartType: table.chartType,
+		gender: sex === '1' ? 'MALE' : 'FEMALE',
+		lengthCm: null,
+		measurementType: table.measurementType,
+		reference: 'CDC_2000',
+		sd0: sd(0),
+		sd1neg: sd(-1),
+		sd1pos: sd(1),
+		sd2neg: sd(-2),
+		sd2pos: sd(2),
+		sd3neg: sd(-3),
+		sd3pos: sd(3),
+		sd4neg: null,
+		sd4pos: null,
+	}
+}
+
+/**
+ * Validate one row of the Fenton LMS file (Sex, Measure, PMAWeeks, L, M,
+ * S). Measure is weight (grams, as published), length or headcirc (cm).
+ * Weights are stored in kg like the other references; L and S do not
+ * depend on the unit.
+ */
+export function parseFentonTableRow(
+	row: Record<string, string>
+): WHOStandardRow {
+	const sex = row.Sex?.trim()
+	if (sex !== '1' && sex !== '2') throw new Error(`Invalid Sex '${row.Sex}'`)
+
+	const measure = FENTON_MEASURES[row.Measure?.trim().toLowerCase() ?? '']
+	if (!measure) throw new Error(`Unknown Measure '${row.Measure}'`)
+
+	const pmaWeeks = parseValue(row.PMAWeeks)
+	const lms = {
+		lValue: parseValue(row.L),
+		mValue: parseValue(row.M),
+		sValue: parseValue(row.S),
+	}
+	if (pmaWeeks === null) throw new Error('Missing PMAWeeks value')
+	for (const [key, value] of Object.entries(lms)) {
+		if (value === null) throw new Error(`Missing or invalid ${key}`)
+	}
+	const values = lms as LMSParameters
+	if (values.mValue <= 0 || values.sValue <= 0) {
+		throw new Error('M and S must be positive')
+	}
+	if (measure.chartType === 'WFA') values.mValue /= 1000
+
+	const sd = (z: number) => Number(valueAtZ(values, z).toFixed(4))
+
+	return {
+		...values,
+		ageDays: Math.round(pmaWeeks * 7),
+		ageInMonths: null,
+		chartType: measure.chartType,
+		gender: sex === '1' ? 'MALE' : 'FEMALE',
+		lengthCm: null,
+		measurementType: measure.measurementType,
+		reference: 'FENTON_2013',
+		sd0: sd(0),
+		sd1neg: sd(-1),
+		sd1pos: sd(1),
+		sd2neg: sd(-2),
+		sd2pos: sd(2),
+		sd3neg: sd(-3),
+		sd3pos: sd(3),
+		sd4neg: null,
+		sd4pos: null,
+	}
+}
+
+/**
+ * Ages of one measurement. For babies born preterm, ageDays is corrected
+ * for prematurity until 24 months (negative before term) and
+ * postmenstrualAgeDays is set; otherwise both equal chronological age.
+ */
+export interface GrowthAge {
+	ageDays: number
+	chronologicalAgeDays: number
+	correctedAgeDays: number | null
+	postmenstrualAgeDays: number | null
+}
+
+export function isPreterm(gestationalAgeWeeks?: number | null): boolean {
+	return (
+		gestationalAgeWeeks != null && gestationalAgeWeeks < PRETERM_BEFORE_WEEKS
+	)
+}
+
+export function getGrowthAge(
+	chronologicalAgeDays: number,
+	gestationalAgeWeeks?: number | null
+): GrowthAge {
+	if (!isPreterm(gestationalAgeWeeks)) {
+		return {
+			ageDays: chronologicalAgeDays,
+			chronologicalAgeDays,
+			correctedAgeDays: null,
+			postmenstrualAgeDays: null,
+		}
+	}
+
+	const gestationDays = Math.round((gestationalAgeWeeks as number) * 7)
+	const correctedAgeDays =
+		chronologicalAgeDays - (TERM_GESTATION_WEEKS * 7 - gestationDays)
+	const corrected = chronologicalAgeDays <= CORRECTED_AGE_UNTIL_DAYS
+
+	return {
+		ageDays: corrected ? correctedAgeDays : chronologicalAgeDays,
+		chronologicalAgeDays,
+		correctedAgeDays: corrected ? correctedAgeDays : null,
+		postmenstrualAgeDays: gestationDays + chronologicalAgeDays,
+	}
+}
+
+/**
+ * Reference and lookup age (days; postmenstrual for Fenton) for one
+ * chart. Preterm babies use Fenton until 50 weeks postmenstrual age,
+ * then the age-based references at corrected age. Charts Fenton lacks
+ * have no reference before term.
+ */
+export function referenceForGrowthAge(
+	chartType: WHOChartType,
+	age: GrowthAge,
+	schoolAge: SchoolAgeReference
+): { reference: GrowthReferenceValue; at: number } | null {
+	const pma = age.postmenstrualAgeDays
+	if (
+		pma !== null &&
+		pma <= FENTON_PMA_RANGE_DAYS[1] &&
+		referenceCovers('FENTON_2013', chartType, pma)
+	) {
+		return { at: pma, reference: 'FENTON_2013' }
+	}
+	if (age.ageDays < 0) return null
+
+	const reference = referenceForChart(chartType, age.ageDays, schoolAge)
+	return reference ? { at: age.ageDays, reference } : null
+}
+
+/**
+ * Reference set for a child's age: the WHO standards to 5 years, then
+ * the clinic's school-age reference. CDC takes over from 2 years, as the
+ * CDC itself recommends WHO charts only below that age.
+ */
+export function selectGrowthReference(
+	ageDays: number,
+	schoolAge: SchoolAgeReference
+): GrowthReferenceValue {
+	if (schoolAge === 'CDC_2000' && ageDays >= monthsToDays(24)) {
+		return 'CDC_2000'
+	}
+	return ageDays <= WHO_MAX_AGE_DAYS ? 'WHO_2006' : schoolAge
+}
+
+export function referenceCovers(
+	reference: GrowthReferenceValue,
+	chartType: WHOChartType,
+	ageDays: number
+): boolean {
+	const span = GROWTH_REFERENCE_COVERAGE[reference][chartType]
+	return Boolean(span && ageDays >= span[0] && ageDays <= span[1])
+}
+
+/**
+ * Reference to use for one chart at an age, or null when none covers it.
+ * Charts the school-age reference lacks (head circumference, weight-for-
+ * height) fall back to the WHO standards while those still apply.
+ */
+export function referenceForChart(
+	chartType: WHOChartType,
+	ageDays: number,
+	schoolAge: SchoolAgeReference
+): GrowthReferenceValue | null {
+	const reference = selectGrowthReference(ageDays, schoolAge)
+	if (referenceCovers(reference, chartType, ageDays)) return reference
+	if (referenceCovers('WHO_2006', chartType, ageDays)) return 'WHO_2006'
+	return null
+}
+
+export interface GrowthReferenceSegment {
+	reference: GrowthReferenceValue
+	label: string
+	fromAgeDays: number
+	toAgeDays: number
+}
+
+/**
+ * Which reference applies over which age span of one chart, from birth
+ * to maxAgeDays. Ages no reference covers are left out.
+ */
+export function referenceSegments(
+	chartType: WHOChartType,
+	maxAgeDays: number,
+	schoolAge: SchoolAgeReference
+): GrowthReferenceSegment[] {
+	// The reference can only change where some reference starts or ends
+	const boundaries = new Set([0, monthsToDays(24), WHO_MAX_AGE_DAYS + 1])
+	for (const [reference, spans] of Object.entries(GROWTH_REFERENCE_COVERAGE)) {
+		const span = reference === 'FENTON_2013' ? undefined : spans[chartType]
+		if (span) boundaries.add(span[0]).add(Math.floor(span[1]) + 1)
+	}
+	const starts = [...boundaries]
+		.filter(day => day <= maxAgeDays)
+		.sort((a, b) => a - b)
+
+	const segments: GrowthReferenceSegment[] = []
+	starts.forEach((from, index) => {
+		const to = Math.min((starts[index + 1] ?? maxAgeDays + 1) - 1, maxAgeDays)
+		const reference = referenceForChart(chartType, from, schoolAge)
+		const previous = segments.at(-1)
+
+		if (!reference) return
+		if (previous?.reference === reference && previous.toAgeDays === from - 1) {
+			previous.toAgeDays = to
+			return
+		}
+		segments.push({
+			fromAgeDays: from,
+			label: GROWTH_REFERENCE_LABELS[reference],
+			reference,
+			toAgeDays: to,
+		})
+	})
+
+	return segments
+}
+
+/**
+ * Linear interpolation of L, M and S between two table rows
+ */
+export function interpolateLMSAt(
+	lower: LMSParameters & { at: number },
+	upper: LMSParameters & { at: number },
+	at: number
+): LMSParameters {
+	if (upper.at === lower.at) return lower
+	const ratio = (at - lower.at) / (upper.at - lower.at)
+	const lerp = (a: number, b: number) => a + ratio * (b - a)
+
+	return {
+		lValue: lerp(lower.lValue, upper.lValue),
+		mValue: lerp(lower.mValue, upper.mValue),
+		sValue: lerp(lower.sValue, upper.sValue),
+	}
+}
+
+/**
+ * Measurement at a z-score - the inverse of the LMS z-score
+ */
+export function valueAtZ(
+	{ lValue: L, mValue: M, sValue: S }: LMSParameters,
+	z: number
+) {
+	return L === 0 ? M * Math.exp(S * z) : M * (1 + L * S * z) ** (1 / L)
+}
+
+/**
+ * WHO z-score from LMS parameters. Weight-based indicators (restricted)
+ * use the WHO adjustment beyond +/-3 SD, where the LMS curve skews
+ * the tails; length and head circumference use the plain formula.
+ */
+export function calculateWHOZScore(
+	value: number,
+	lms: LMSParameters,
+	restricted: boolean
+): number {
+	const { lValue: L, mValue: M, sValue: S } = lms
+	const z = L === 0 ? Math.log(value / M) / S : ((value / M) ** L - 1) / (L * S)
+
+	if (!restricted || Math.abs(z) <= 3) return z
+
+	if (z > 3) {
+		const sd3 = valueAtZ(lms, 3)
+		const sd23 = sd3 - valueAtZ(lms, 2)
+		return 3 + (value - sd3) / sd23
+	}
+
+	const sd3neg = valueAtZ(lms, -3)
+	const sd23neg = valueAtZ(lms, -2) - sd3neg
+	return -3 + (value - sd3neg) / sd23neg
+}
+
+/**
+ * Whether a chart's z-score uses the restricted WHO adjustment. CDC and
+ * Fenton z-scores use the plain LMS formula throughout.
+ */
+export function isRestrictedChart(
+	chartType: WHOChartType,
+	reference: GrowthReferenceValue = 'WHO_2006'
+): boolean {
+	return (
+		(reference === 'WHO_2006' || reference === 'WHO_2007') &&
+		chartType !== 'HFA' &&
+		chartType !== 'HcFA'
+	)
+}
+
+/**
+ * Weight-for-length before 24 months, weight-for-height after
+ */
+export function weightForLengthChart(ageDays: number): 'WFL' | 'WFH' {
+	return ageDays < WHO_HEIGHT_FROM_AGE_DAYS ? 'WFL' : 'WFH'
+}
@@ -0,0 +1,267 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+	type AllergyDrug,
+	type AllergyRecord,
+	checkDrugAllergies,
+	classifyAllergen,
+	drugClassesOf,
+	parseAllergyText,
+} from '@/utils/allergy'
+
+const amoxicillin: AllergyDrug = {
+	brandNames: ['Amoxil'],
+	drugClass: 'Penicillins',
+	name: 'Amoxicillin',
+}
+
+const allergy = (overrides: Partial<AllergyRecord>): AllergyRecord => ({
+	allergen: 'Amoxicillin',
+	type: 'DRUG',
+	verificationStatus: 'CONFIRMED',
+	...overrides,
+})
+
+const codes = (drug: AllergyDrug, allergies: AllergyRecord[]) =>
+	checkDrugAllergies(drug, allergies).map(w => w.code)
+
+describe('parseAllergyText', () => {
+	test.each([
+		null,
+		'',
+		'  ',
+		'None',
+		'nil',
+		'NKDA',
+		'N/A',
+		'No known drug allergies',
+	])('%p has no allergies', text => {
+		expect(parseAllergyText(text)).toEqual([])
+	})
+
+	test('reactions in brackets or after a dash, one entry per fragment', () => {
+		expect(parseAllergyText('Penicillin (anaphylaxis); eggs - rash')).toEqual([
+			{
+				allergen: 'Penicillin',
+				reaction: 'anaphylaxis',
+				severity: 'LIFE_THREATENING',
+				source: 'Penicillin (anaphylaxis)',
+				type: 'DRUG',
+			},
+			{
+				allergen: 'eggs',
+				reaction: 'rash',
+				severity: null,
+				source: 'eggs - rash',
+				type: 'FOOD',
+			},
+		])
+	})
+
+	test('"allergic to" is dropped and the severity is read from the text', () => {
+		expect(parseAllergyText('Allergic to sulfa: severe hives')).toEqual([
+			{
+				allergen: 'sulfa',
+				reaction: 'severe hives',
+				severity: 'SEVERE',
+				source: 'Allergic to sulfa: severe hives',
+				type: 'DRUG',
+			},
+		])
+	})
+
+	test('severity words and "allergy" are not part of the allergen', () => {
+		const [latex] = parseAllergyText('mild latex allergy')
+
+		expect(latex).toMatchObject({
+			allergen: 'latex',
+			severity: 'MILD',
+			type: 'ENVIRONMENTAL',
+		})
+	})
+
+	test('"and" separates allergens', () => {
+		expect(
+			parseAllergyText('dust mites and cats & peanuts').map(s => s.allergen)
+		).toEqual(['dust mites', 'cats', 'peanuts'])
+	})
+
+	test('repeated allergens are suggested once', () => {
+		const suggestions = parseAllergyText('Penicillin, PENICILLIN (rash)')
+
+		expect(suggestions).toHaveLength(1)
+		expect(suggestions[0]?.reaction).toBeNull()
+	})
+})
+
+describe('classifyAllergen', () => {
+	test.each([
+		['Cow milk', 'FOOD'],
+		['Peanuts', 'FOOD'],
+		['Strawberries', 'FOOD'],
+		['House dust', 'ENVIRONMENTAL'],
+		['Bee sting', 'ENVIRONMENTAL'],
+		['Latex', 'ENVIRONMENTAL'],
+		['Ceftriaxone', 'DRUG'],
+		['Ibuprofen', 'DRUG'],
+	] as const)('%s -> %s', (allergen, expected) => {
+		expect(classifyAllergen(allergen)).toBe(expected)
+	})
+})
+
+describe('drugClassesOf', () => {
+	test.each([
+		[{ drugClass: 'Penicillins', name: 'Amoxicillin' }, ['penicillin']],
+		[{ name: 'Flucloxacillin' }, ['penicillin']],
+		[{ name: 'Cefotaxime' }, ['cephalosporin']],
+		[{ genericName: 'Ceftriaxone', name: 'Rocephin' }, ['cephalosporin']],
+		[{ drugClass: 'Sulfa drugs', name: 'Co-trimoxazole' }, ['sulfonamide']],
+		[{ drugClass: 'Aminoglycosides', name: 'Gentamicin' }, ['aminoglycoside']],
+		[{ name: 'Paracetamol' }, []],
+	])('%p -> %p', (drug, expected) => {
+		expect(drugClassesOf(drug)).toEqual(expected)
+	})
+})
+
+describe('checkDrugAllergies - the drug itself', () => {
+	test('a confirmed allergy to the drug blocks', () => {
+		expect(checkDrugAllergies(amoxicillin, [allergy({})])).toEqual([
+			{
+				allergen: 'Amoxicillin',
+				allergyId: undefined,
+				code: 'ALLERGY_DRUG_MATCH',
+				message: 'Recorded allergy to Amoxicillin (confirmed)',
+				requiresOverride: true,
+				severity: null,
+				verificationStatus: 'CONFIRMED',
+			},
+		])
+	})
+
+	test.each([
+		'Amoxil',
+		'amoxicillin.',
+		'Amoxicillin clavulanate',
+	])('%p names the drug', allergen => {
+		expect(codes(amoxicillin, [allergy({ allergen })])).toEqual([
+			'ALLERGY_DRUG_MATCH',
+		])
+	})
+
+	test('terms shorter than three letters do not match', () => {
+		expect(codes(amoxicillin, [allergy({ allergen: 'Am' })])).toEqual([])
+	})
+
+	test('reaction and severity are quoted in the message', () => {
+		const [warning] = checkDrugAllergies(amoxicillin, [
+			allergy({ reaction: 'rash', severity: 'LIFE_THREATENING' }),
+		])
+
+		expect(warning?.message).toBe(
+			'Recorded allergy to Amoxicillin (rash, life threatening, confirmed)'
+		)
+	})
+
+	test('free-text entries only warn', () => {
+		const [warning] = checkDrugAllergies(amoxicillin, [
+			allergy({ fromFreeText: true, verificationStatus: 'UNCONFIRMED' }),
+		])
+
+		expect(warning).toMatchObject({
+			message:
+				'Recorded allergy to Amoxicillin (free-text entry, not reviewed)',
+			requiresOverride: false,
+		})
+	})
+
+	test.each([
+		{ type: 'DRUG', verificationStatus: 'REFUTED' },
+		{ type: 'DRUG', verificationStatus: 'ENTERED_IN_ERROR' },
+		{ type: 'FOOD', verificationStatus: 'CONFIRMED' },
+	] as const)('ignored: $type $verificationStatus', overrides => {
+		expect(checkDrugAllergies(amoxicillin, [allergy(overrides)])).toEqual([])
+	})
+})
+
+describe('checkDrugAllergies - drug class', () => {
+	test.each([
+		{ allergen: 'Penicillin', blocks: true, severity: 'SEVERE' },
+		{ allergen: 'Penicillin', blocks: true, severity: 'LIFE_THREATENING' },
+		{ allergen: 'Penicillins', blocks: false, severity: 'MODERATE' },
+		{ allergen: 'penicillin antibiotics', blocks: false, severity: 'MILD' },
+		{ allergen: 'Penicillin', blocks: false, severity: null },
+	] as const)('$allergen ($severity): blocks $blocks', ({
+		allergen,
+		blocks,
+		severity,
+	}) => {
+		const warnings = checkDrugAllergies(amoxicillin, [
+			allergy({ allergen, severity }),
+		])
+
+		expect(warnings.map(w => w.code)).toEqual(['ALLERGY_CLASS_MATCH'])
+		expect(warnings[0]?.requiresOverride).toBe(blocks)
+	})
+
+	test('the message names the shared class', () => {
+		const [warning] = checkDrugAllergies(amoxicillin, [
+			allergy({ allergen: 'Penicillin', severity: 'SEVERE' }),
+		])
+
+		expect(warning?.message).toBe(
+			'Amoxicillin is a penicillin - recorded allergy to Penicillin (severe, confirmed)'
+		)
+	})
+
+	test('another drug of the class, by its name', () => {
+		expect(codes(amoxicillin, [allergy({ allergen: 'Ampicillin' })])).toEqual([
+			'ALLERGY_CLASS_MATCH',
+		])
+	})
+
+	test('another drug of the class, by its formulary class', () => {
+		const warnings = checkDrugAllergies(
+			amoxicillin,
+			[allergy({ allergen: 'Augmentin' })],
+			new Map([['augmentin', ['penicillin']]])
+		)
+
+		expect(warnings.map(w => w.code)).toEqual(['ALLERGY_CLASS_MATCH'])
+	})
+
+	test('sulfa names the sulfonamide class', () => {
+		const cotrimoxazole = { drugClass: 'Sulfonamides', name: 'Co-trimoxazole' }
+
+		expect(
+			codes(cotrimoxazole, [allergy({ allergen: 'Sulfa drugs' })])
+		).toEqual(['ALLERGY_CLASS_MATCH'])
+	})
+
+	test('a different class is not flagged', () => {
+		const cefotaxime = { name: 'Cefotaxime' }
+
+		expect(codes(cefotaxime, [allergy({ allergen: 'Penicillin' })])).toEqual([])
+	})
+
+	test('free-text class matches never block', () => {
+		const [warning] = checkDrugAllergies(amoxicillin, [
+			allergy({
+				allergen: 'Penicillin',
+				fromFreeText: true,
+				severity: 'SEVERE',
+			}),
+		])
+
+		expect(warning?.requiresOverride).toBe(false)
+	})
+
+	test('each allergy is reported once, the drug match first', () => {
+		expect(
+			codes(amoxicillin, [
+				allergy({ allergen: 'Amoxicillin' }),
+				allergy({ allergen: 'Penicillin' }),
+				allergy({ allergen: 'Peanuts', type: 'FOOD' }),
+			])
+		).toEqual(['ALLERGY_DRUG_MATCH', 'ALLERGY_CLASS_MATCH'])
+	})
+})
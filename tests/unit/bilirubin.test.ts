@@ -0,0 +1,222 @@
+import { describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+import {
+	assessBilirubin,
+	BILIRUBIN_TABLES_FILE,
+	type BilirubinReading,
+	type BilirubinTableDefinition,
+	bilirubinRiskZone,
+	curveValueAt,
+	thresholdAt,
+	validateBilirubinTable,
+} from '@/utils/bilirubin'
+
+// Bhutani nomogram with AAP 2004 thresholds, as seeded
+const [aap] = JSON.parse(
+	fs.readFileSync(
+		path.resolve(import.meta.dir, '../../prisma/data', BILIRUBIN_TABLES_FILE),
+		'utf-8'
+	)
+) as BilirubinTableDefinition[]
+
+const percentile = (value: number) => {
+	const curve = aap.curves.find(c => c.percentile === value)
+	if (!curve) throw new Error(`No ${value}th percentile curve`)
+	return curve
+}
+
+const reading = (overrides: Partial<BilirubinReading>): BilirubinReading => ({
+	ageHours: 48,
+	gestationalAgeWeeks: 39,
+	method: 'TSB',
+	riskFactors: [],
+	value: 10,
+	...overrides,
+})
+
+test('the seeded table is valid', () => {
+	expect(validateBilirubinTable(aap)).toEqual([])
+})
+
+describe('curveValueAt', () => {
+	test.each([
+		{ expected: null, hours: 17 },
+		{ expected: 3.8, hours: 18 },
+		{ expected: 4.3, hours: 21 },
+		{ expected: 4.8, hours: 24 },
+		{ expected: 5.8, hours: 30 },
+		{ expected: 13.2, hours: 144 },
+		// Flat after the last point
+		{ expected: 13.2, hours: 200 },
+	])('40th percentile at $hours h -> $expected', ({ expected, hours }) => {
+		expect(curveValueAt(percentile(40), hours)).toBe(expected)
+	})
+
+	test('an empty curve has no value', () => {
+		expect(curveValueAt({ hours: [], values: [] }, 24)).toBeNull()
+	})
+})
+
+describe('bilirubinRiskZone', () => {
+	// At 48 h: 40th 8.5, 75th 10.9, 95th 13.2 mg/dL
+	test.each([
+		{ expected: 'LOW', value: 8.4 },
+		{ expected: 'LOW_INTERMEDIATE', value: 8.5 },
+		{ expected: 'LOW_INTERMEDIATE', value: 10.8 },
+		{ expected: 'HIGH_INTERMEDIATE', value: 10.9 },
+		{ expected: 'HIGH_INTERMEDIATE', value: 13.1 },
+		{ expected: 'HIGH', value: 13.2 },
+	])('$value mg/dL at 48 h -> $expected', ({ expected, value }) => {
+		expect(bilirubinRiskZone(aap, 48, value)?.zone).toBe(expected)
+	})
+
+	test('between points the edges are interpolated', () => {
+		// 95th percentile at 42 h: halfway between 11.2 and 13.2
+		expect(bilirubinRiskZone(aap, 42, 12.2)?.zone).toBe('HIGH')
+		expect(bilirubinRiskZone(aap, 42, 12.1)?.zone).toBe('HIGH_INTERMEDIATE')
+	})
+
+	test('no zone before the first nomogram hour', () => {
+		expect(bilirubinRiskZone(aap, 12, 20)).toBeNull()
+	})
+})
+
+describe('thresholdAt - gestational age and risk factors', () => {
+	test.each([
+		{ exchange: 22, ga: 39, phototherapy: 15, risk: false },
+		{ exchange: 19, ga: 39, phototherapy: 13.2, risk: true },
+		{ exchange: 19, ga: 38, phototherapy: 13.2, risk: true },
+		{ exchange: 19, ga: 37, phototherapy: 13.2, risk: false },
+		{ exchange: 17, ga: 35, phototherapy: 11.1, risk: true },
+		{ exchange: null, ga: 34, phototherapy: null, risk: false },
+	])('GA $ga, risk factors $risk at 48 h', ({
+		exchange,
+		ga,
+		phototherapy,
+		risk,
+	}) => {
+		expect(thresholdAt(aap.curves, 'PHOTOTHERAPY', ga, risk, 48)).toBe(
+			phototherapy
+		)
+		expect(thresholdAt(aap.curves, 'EXCHANGE', ga, risk, 48)).toBe(exchange)
+	})
+})
+
+describe('assessBilirubin', () => {
+	// 39 weeks, no risk factors, 48 h: phototherapy 15, exchange 22
+	test('below the phototherapy margin: zone recheck', () => {
+		const result = assessBilirubin(aap, reading({ value: 12 }))
+
+		expect(result).toMatchObject({
+			confirmWithTsb: false,
+			exchangeIndicated: false,
+			exchangeThreshold: 22,
+			phototherapyIndicated: false,
+			phototherapyThreshold: 15,
+			recheckHours: 24,
+			riskZone: 'HIGH_INTERMEDIATE',
+		})
+	})
+
+	test('within the margin of phototherapy: rechecked sooner', () => {
+		const result = assessBilirubin(aap, reading({ value: 13.2 }))
+
+		expect(result.riskZone).toBe('HIGH')
+		expect(result.recheckHours).toBe(8)
+		expect(result.recommendation).toStartWith(
+			'Within 2 mg/dL of the phototherapy threshold (15 mg/dL)'
+		)
+	})
+
+	test.each([
+		{ exchange: false, phototherapy: false, value: 14.9 },
+		{ exchange: false, phototherapy: true, value: 15 },
+		{ exchange: false, phototherapy: true, value: 21.9 },
+		{ exchange: true, phototherapy: true, value: 22 },
+	])('$value mg/dL: phototherapy $phototherapy, exchange $exchange', ({
+		exchange,
+		phototherapy,
+		value,
+	}) => {
+		const result = assessBilirubin(aap, reading({ value }))
+
+		expect(result.phototherapyIndicated).toBe(phototherapy)
+		expect(result.exchangeIndicated).toBe(exchange)
+	})
+
+	test('exchange takes precedence over phototherapy', () => {
+		const result = assessBilirubin(aap, reading({ value: 23 }))
+
+		expect(result.recheckHours).toBe(aap.exchangeRecheckHours)
+		expect(result.recommendation).toBe(
+			'At or above the exchange transfusion threshold (22 mg/dL): start intensive phototherapy and prepare for exchange transfusion'
+		)
+	})
+
+	test('phototherapy replaces the zone advice', () => {
+		const result = assessBilirubin(aap, reading({ value: 16 }))
+
+		expect(result.riskZone).toBe('HIGH')
+		expect(result.recheckHours).toBe(aap.phototherapyRecheckHours)
+		expect(result.recommendation).toBe(
+			'At or above the phototherapy threshold (15 mg/dL): start phototherapy'
+		)
+	})
+
+	test('risk factors lower the thresholds', () => {
+		const result = assessBilirubin(
+			aap,
+			reading({ riskFactors: ['SEPSIS'], value: 13.2 })
+		)
+
+		expect(result.phototherapyThreshold).toBe(13.2)
+		expect(result.phototherapyIndicated).toBe(true)
+	})
+
+	// Transcutaneous readings within 3 mg/dL of phototherapy need a serum level
+	test.each([
+		{ confirm: false, method: 'TCB', value: 11.9 },
+		{ confirm: true, method: 'TCB', value: 12 },
+		{ confirm: true, method: 'TCB', value: 16 },
+		{ confirm: false, method: 'TSB', value: 12 },
+	] as const)('$method $value mg/dL: confirm $confirm', ({
+		confirm,
+		method,
+		value,
+	}) => {
+		const result = assessBilirubin(aap, reading({ method, value }))
+
+		expect(result.confirmWithTsb).toBe(confirm)
+		expect(
+			result.recommendation.endsWith('confirm with a serum bilirubin')
+		).toBe(confirm)
+	})
+
+	test('before the nomogram starts only thresholds apply', () => {
+		const result = assessBilirubin(aap, reading({ ageHours: 12, value: 5 }))
+
+		expect(result.riskZone).toBeNull()
+		expect(result.phototherapyThreshold).toBe(9)
+		expect(result.recheckHours).toBeNull()
+		expect(result.recommendation).toBe(
+			'Before the first hour of the nomogram: assess clinically'
+		)
+	})
+
+	test('below the table gestational age points to the preterm protocol', () => {
+		const result = assessBilirubin(
+			aap,
+			reading({ gestationalAgeWeeks: 34, value: 20 })
+		)
+
+		expect(result).toMatchObject({
+			exchangeIndicated: false,
+			phototherapyIndicated: false,
+			recheckHours: null,
+			riskZone: null,
+		})
+		expect(result.recommendation).toContain('use the preterm protocol')
+	})
+})
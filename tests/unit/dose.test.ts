@@ -0,0 +1,346 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+	convertDoseAmount,
+	type DoseContext,
+	type DoseGuidelineRule,
+	dosesPerDay,
+	matchDoseGuidelines,
+	parseDoseUnit,
+	validateDoseAgainstGuidelines,
+} from '@/utils/dose'
+
+const asOf = new Date('2026-01-15T00:00:00Z')
+
+const context = (overrides: Partial<DoseContext> = {}): DoseContext => ({
+	postnatalAgeDays: 120,
+	weighedAt: asOf,
+	weightKg: 2,
+	...overrides,
+})
+
+const perDose: DoseGuidelineRule = {
+	clinicalIndication: 'Sepsis',
+	doseUnit: 'mg/kg/dose',
+	id: 'per-dose',
+	maxDosePerKg: 5,
+	minDosePerKg: 4,
+	route: 'IV',
+}
+
+const codes = (warnings: { code: string }[]) => warnings.map(w => w.code)
+
+describe('parseDoseUnit', () => {
+	test.each([
+		['mg/kg/dose', { amount: 'mg', basis: 'dose' }],
+		['MCG/kg/min', { amount: 'mcg', basis: 'min' }],
+		['mg/kg/h', { amount: 'mg', basis: 'hr' }],
+		['IU/kg/day', { amount: 'units', basis: 'day' }],
+		['mg', null],
+		[null, null],
+	])('%p', (unit, expected) => {
+		expect(parseDoseUnit(unit)).toEqual(expected as never)
+	})
+})
+
+describe('dosesPerDay', () => {
+	test.each([
+		['Q8H', 3],
+		['q6h', 4],
+		['Q8-12H', 3],
+		['every 12 hours', 2],
+		['twice daily', 2],
+		['3 times daily', 3],
+		['once weekly', 1 / 7],
+		['single dose', 1],
+		['Q36H', 24 / 36],
+		['PRN', null],
+		[null, null],
+	])('%p -> %p', (frequency, expected) => {
+		expect(dosesPerDay(frequency)).toBe(expected)
+	})
+})
+
+describe('convertDoseAmount', () => {
+	test.each([
+		{ expected: 0.5, target: 'mg', unit: 'mcg', value: 500 },
+		{ expected: 1500, target: 'mg', unit: 'g', value: 1.5 },
+		{ expected: 250, target: 'mcg', unit: 'mg', value: 0.25 },
+		{ concentration: 10, expected: 20, target: 'mg', unit: 'mL', value: 2 },
+		{ expected: null, target: 'mg', unit: 'mL', value: 2 },
+		{ expected: null, target: 'mg', unit: 'TABLET', value: 1 },
+		{ expected: 100, target: 'units', unit: 'IU', value: 100 },
+		{ expected: null, target: 'units', unit: 'mg', value: 100 },
+	] as const)('$value $unit -> $target', ({
+		expected,
+		target,
+		unit,
+		value,
+		...rest
+	}) => {
+		const concentration = 'concentration' in rest ? rest.concentration : null
+		const result = convertDoseAmount(value, unit, target, concentration)
+
+		if (expected === null) expect(result).toBeNull()
+		else expect(result).toBeCloseTo(expected, 9)
+	})
+})
+
+describe('validateDoseAgainstGuidelines - per-dose range', () => {
+	// 2 kg, 4-5 mg/kg/dose, 5% tolerance for measurable volumes
+	test.each([
+		{ case: 'exactly at the maximum', dose: 10, expected: [] },
+		{ case: 'inside the rounding tolerance', dose: 10.4, expected: [] },
+		{ case: 'just over the maximum', dose: 10.6, expected: ['ABOVE_MAX_DOSE'] },
+		{ case: 'exactly at the minimum', dose: 8, expected: [] },
+		{ case: 'just under the minimum', dose: 7.4, expected: ['BELOW_MIN_DOSE'] },
+	])('$case ($dose mg)', ({ dose, expected }) => {
+		const warnings = validateDoseAgainstGuidelines(
+			{
+				dosageUnit: 'MG',
+				dosageValue: dose,
+				drugRoute: 'INTRAVENOUS',
+				frequency: 'Q24H',
+			},
+			[perDose],
+			context(),
+			asOf
+		)
+
+		expect(codes(warnings)).toEqual([...expected])
+	})
+
+	test('an out-of-range dose reports the actual, the limit and needs an override', () => {
+		const [warning] = validateDoseAgainstGuidelines(
+			{
+				dosageUnit: 'MG',
+				dosageValue: 10.6,
+				drugRoute: 'IV',
+				frequency: 'Q24H',
+			},
+			[perDose],
+			context(),
+			asOf
+		)
+
+		expect(warning).toMatchObject({
+			actual: 5.3,
+			guidelineId: 'per-dose',
+			limit: 5,
+			requiresOverride: true,
+			unit: 'mg/kg/dose',
+		})
+	})
+
+	test('a volume is converted through the stock concentration', () => {
+		const warnings = validateDoseAgainstGuidelines(
+			{
+				dosageUnit: 'ML',
+				dosageValue: 1.2,
+				drugRoute: 'IV',
+				frequency: 'Q24H',
+			},
+			[{ ...perDose, stockConcentrationMgMl: 10 }],
+			context(),
+			asOf
+		)
+
+		expect(codes(warnings)).toEqual(['ABOVE_MAX_DOSE'])
+	})
+
+	test('the dose is accepted when any matching guideline fits', () => {
+		const warnings = validateDoseAgainstGuidelines(
+			{ dosageUnit: 'MG', dosageValue: 14, drugRoute: 'IV', frequency: 'Q24H' },
+			[
+				perDose,
+				{ ...perDose, id: 'loading', maxDosePerKg: 7.5, minDosePerKg: 7 },
+			],
+			context(),
+			asOf
+		)
+
+		expect(warnings).toEqual([])
+	})
+})
+
+describe('validateDoseAgainstGuidelines - 24 hour maximum', () => {
+	// 1 kg, up to 10 mg/kg/dose and 30 mg/kg/day
+	const capped: DoseGuidelineRule = {
+		clinicalIndication: 'Fever',
+		doseUnit: 'mg/kg/dose',
+		maxDosePer24h: 30,
+		maxDosePerKg: 10,
+		route: 'PO',
+	}
+	const check = (frequency: string) =>
+		validateDoseAgainstGuidelines(
+			{ dosageUnit: 'MG', dosageValue: 10, drugRoute: 'ORAL', frequency },
+			[capped],
+			context({ weightKg: 1 }),
+			asOf
+		)
+
+	test('exactly at the daily maximum', () => {
+		expect(check('Q8H')).toEqual([])
+	})
+
+	test('over the daily maximum with each dose in range', () => {
+		const warnings = check('Q6H')
+
+		expect(codes(warnings)).toEqual(['ABOVE_MAX_DAILY_DOSE'])
+		expect(warnings[0]).toMatchObject({ actual: 40, limit: 30 })
+	})
+
+	test('a per-day guideline multiplies the dose by the frequency', () => {
+		const daily: DoseGuidelineRule = {
+			clinicalIndication: 'Infection',
+			doseUnit: 'mg/kg/day',
+			maxDosePerKg: 30,
+			minDosePerKg: 20,
+			route: 'PO',
+		}
+		const at = (dose: number, frequency: string) =>
+			codes(
+				validateDoseAgainstGuidelines(
+					{ dosageUnit: 'MG', dosageValue: dose, drugRoute: 'PO', frequency },
+					[daily],
+					context({ weightKg: 1 }),
+					asOf
+				)
+			)
+
+		expect(at(10, 'Q8H')).toEqual([])
+		expect(at(11, 'Q8H')).toEqual(['ABOVE_MAX_DOSE'])
+		expect(at(10, 'PRN')).toEqual(['FREQUENCY_UNKNOWN'])
+	})
+})
+
+describe('validateDoseAgainstGuidelines - patient context', () => {
+	const item = {
+		dosageUnit: 'MG',
+		dosageValue: 10,
+		drugRoute: 'IV',
+		frequency: 'Q24H',
+	}
+
+	test('no weight needs an override', () => {
+		const warnings = validateDoseAgainstGuidelines(
+			item,
+			[perDose],
+			context({ weightKg: null }),
+			asOf
+		)
+
+		expect(codes(warnings)).toEqual(['NO_WEIGHT'])
+		expect(warnings[0]?.requiresOverride).toBe(true)
+	})
+
+	test.each([
+		{ age: 30, days: 7, stale: false },
+		{ age: 30, days: 8, stale: true },
+		{ age: 120, days: 30, stale: false },
+		{ age: 120, days: 31, stale: true },
+	])('weight $days days old at $age days of age', ({ age, days, stale }) => {
+		const warnings = validateDoseAgainstGuidelines(
+			item,
+			[perDose],
+			context({
+				postnatalAgeDays: age,
+				weighedAt: new Date(asOf.getTime() - days * 86_400_000),
+			}),
+			asOf
+		)
+
+		expect(codes(warnings)).toEqual(stale ? ['STALE_WEIGHT'] : [])
+	})
+
+	test('no guideline for the route needs an override', () => {
+		const warnings = validateDoseAgainstGuidelines(
+			{ ...item, drugRoute: 'PO' },
+			[perDose],
+			context(),
+			asOf
+		)
+
+		expect(codes(warnings)).toEqual(['NO_MATCHING_GUIDELINE'])
+		expect(warnings[0]?.requiresOverride).toBe(true)
+	})
+
+	test('tablets cannot be compared to mg/kg', () => {
+		const warnings = validateDoseAgainstGuidelines(
+			{ ...item, dosageUnit: 'TABLET' },
+			[perDose],
+			context(),
+			asOf
+		)
+
+		expect(codes(warnings)).toEqual(['UNIT_NOT_COMPARABLE'])
+	})
+})
+
+describe('matchDoseGuidelines - gestational and postnatal age bands', () => {
+	const band = (
+		id: string,
+		gestationalAgeWeeksMin: number | null,
+		gestationalAgeWeeksMax: number | null
+	): DoseGuidelineRule & { id: string } => ({
+		...perDose,
+		gestationalAgeWeeksMax,
+		gestationalAgeWeeksMin,
+		id,
+	})
+	const bands = [
+		band('PMA <=29', null, 29),
+		band('PMA 30-34', 30, 34),
+		band('PMA >=35', 35, null),
+	]
+	const matched = (
+		gestationalAgeWeeks: number | null,
+		postnatalAgeDays: number
+	) =>
+		matchDoseGuidelines(
+			bands,
+			context({ gestationalAgeWeeks, postnatalAgeDays })
+		).map(g => g.id)
+
+	test.each([
+		{ days: 14, ga: 26, expected: ['PMA <=29'] },
+		{ days: 7, ga: 29, expected: ['PMA 30-34'] },
+		// 29+6 is still 29 completed weeks
+		{ days: 6, ga: 29, expected: ['PMA <=29'] },
+		{ days: 13, ga: 28, expected: ['PMA <=29'] },
+		{ days: 14, ga: 28, expected: ['PMA 30-34'] },
+		{ days: 6, ga: 34, expected: ['PMA 30-34'] },
+		{ days: 0, ga: 35, expected: ['PMA >=35'] },
+		{ days: 0, ga: 40, expected: ['PMA >=35'] },
+	])('GA $ga weeks + $days days -> $expected', ({ days, expected, ga }) => {
+		expect(matched(ga, days)).toEqual([...expected])
+	})
+
+	test('unknown gestational age does not exclude any band', () => {
+		expect(matched(null, 10)).toEqual(bands.map(b => b.id))
+
+		const warnings = validateDoseAgainstGuidelines(
+			{ dosageUnit: 'MG', dosageValue: 10, drugRoute: 'IV', frequency: 'Q24H' },
+			bands,
+			context({ gestationalAgeWeeks: null, postnatalAgeDays: 10 }),
+			asOf
+		)
+		expect(codes(warnings)).toEqual(['GESTATIONAL_AGE_UNKNOWN'])
+	})
+
+	test.each([
+		{ days: 7, matches: true },
+		{ days: 8, matches: false },
+	])('postnatal age bands are inclusive: day $days', ({ days, matches }) => {
+		const firstWeek = {
+			...perDose,
+			postNatalAgeDaysMax: 7,
+			postNatalAgeDaysMin: 0,
+		}
+
+		expect(
+			matchDoseGuidelines([firstWeek], context({ postnatalAgeDays: days }))
+		).toHaveLength(matches ? 1 : 0)
+	})
+})
@@ -0,0 +1,226 @@
+import { describe, expect, test } from 'bun:test'
+import { format } from 'date-fns'
+
+import {
+	type FeedingDaySummary,
+	type FeedingLogEntry,
+	findLowIntakeRun,
+	isLowIntakeDay,
+	minimumIntake,
+	summarizeFeedingDays,
+} from '@/utils/feeding'
+
+// Local dates: days are calendar days in the clinic's time zone
+const dateOfBirth = new Date(2025, 1, 1)
+const today = new Date(2025, 2, 10, 9, 30)
+
+const daysAgo = (days: number) =>
+	format(new Date(2025, 2, 10 - days), 'yyyy-MM-dd')
+
+// A 4 kg baby, 36 days old yesterday: 6 feeds and 120 mL/kg/day minimum
+function day(
+	ago: number,
+	values: Partial<FeedingDaySummary> = {}
+): FeedingDaySummary {
+	return {
+		breastMinutes: { BOTH: 0, LEFT: 0, RIGHT: 0 },
+		byType: { BREAST: 0, FORMULA: 8, MIXED: 0 },
+		day: daysAgo(ago),
+		feeds: 8,
+		mlPerKgDay: 150,
+		totalMl: 600,
+		volumeComplete: true,
+		weightKg: 4,
+		...values,
+	}
+}
+
+const low = (ago: number) => day(ago, { mlPerKgDay: 100, totalMl: 400 })
+
+describe('minimumIntake', () => {
+	test.each([
+		[-1, null],
+		[0, { feedsPerDay: 8, mlPerKgDay: 60 }],
+		[1, { feedsPerDay: 8, mlPerKgDay: 80 }],
+		[2, { feedsPerDay: 8, mlPerKgDay: 100 }],
+		[3, { feedsPerDay: 8, mlPerKgDay: 120 }],
+		[27, { feedsPerDay: 8, mlPerKgDay: 120 }],
+		[28, { feedsPerDay: 6, mlPerKgDay: 120 }],
+		[182, { feedsPerDay: 6, mlPerKgDay: 120 }],
+		[183, null],
+	])('day %p -> %p', (ageDays, expected) => {
+		expect(minimumIntake(ageDays)).toEqual(expected)
+	})
+})
+
+describe('summarizeFeedingDays', () => {
+	const feed = (
+		date: Date,
+		values: Partial<FeedingLogEntry> = {}
+	): FeedingLogEntry => ({ amount: 90, date, type: 'FORMULA', ...values })
+
+	test('one summary per day, oldest first, with the latest weight', () => {
+		const summaries = summarizeFeedingDays(
+			[
+				feed(new Date(2025, 2, 9, 8)),
+				feed(new Date(2025, 2, 8, 23, 30), { amount: 60 }),
+				feed(new Date(2025, 2, 9, 1), {
+					amount: null,
+					breast: 'LEFT',
+					duration: 15,
+					type: 'BREAST',
+				}),
+			],
+			[
+				{ date: new Date(2025, 2, 1), weight: 3.8 },
+				{ date: new Date(2025, 2, 9, 12), weight: 4 },
+				{ date: new Date(2025, 2, 10), weight: 4.1 },
+			]
+		)
+
+		expect(summaries.map(s => [s.day, s.feeds, s.weightKg])).toEqual([
+			['2025-03-08', 1, 3.8],
+			['2025-03-09', 2, 4],
+		])
+		expect(summaries[0]).toMatchObject({
+			mlPerKgDay: 15.8,
+			totalMl: 60,
+			volumeComplete: true,
+		})
+		expect(summaries[1]).toMatchObject({
+			breastMinutes: { BOTH: 0, LEFT: 15, RIGHT: 0 },
+			byType: { BREAST: 1, FORMULA: 1, MIXED: 0 },
+			mlPerKgDay: 22.5,
+			volumeComplete: false,
+		})
+	})
+
+	test('no weight yet, no mL/kg/day', () => {
+		const [summary] = summarizeFeedingDays(
+			[feed(new Date(2025, 2, 9, 8))],
+			[{ date: new Date(2025, 2, 10), weight: 4 }]
+		)
+
+		expect(summary).toMatchObject({ mlPerKgDay: null, weightKg: null })
+	})
+})
+
+describe('isLowIntakeDay', () => {
+	test.each([
+		{ expected: false, summary: day(1, { mlPerKgDay: 120 }) },
+		{ expected: true, summary: day(1, { mlPerKgDay: 119.9 }) },
+		// Unmeasured breastfeeds: the number of feeds decides
+		{
+			expected: false,
+			summary: day(1, { feeds: 6, mlPerKgDay: 40, volumeComplete: false }),
+		},
+		{
+			expected: true,
+			summary: day(1, { feeds: 5, mlPerKgDay: 200, volumeComplete: false }),
+		},
+		{
+			expected: true,
+			summary: day(1, { feeds: 5, mlPerKgDay: null }),
+		},
+	])('$summary.feeds feeds, $summary.mlPerKgDay mL/kg -> $expected', ({
+		expected,
+		summary,
+	}) => {
+		expect(isLowIntakeDay(summary, 36)).toBe(expected)
+	})
+
+	test('more feeds are needed in the first four weeks', () => {
+		const sevenFeeds = day(1, { feeds: 7, volumeComplete: false })
+
+		expect(isLowIntakeDay(sevenFeeds, 27)).toBe(true)
+		expect(isLowIntakeDay(sevenFeeds, 28)).toBe(false)
+	})
+
+	test('not checked from six months', () => {
+		expect(isLowIntakeDay(low(1), 183)).toBe(false)
+	})
+})
+
+describe('findLowIntakeRun', () => {
+	test('low days up to yesterday', () => {
+		expect(
+			findLowIntakeRun(
+				[day(5), low(4), low(3), low(2), low(1), day(0)],
+				dateOfBirth,
+				today
+			)
+		).toEqual({
+			averageFeedsPerDay: 8,
+			averageMlPerKgDay: 100,
+			days: 4,
+			endDay: daysAgo(1),
+			startDay: daysAgo(4),
+		})
+	})
+
+	test('today is not complete and is left out', () => {
+		expect(findLowIntakeRun([low(1), low(0)], dateOfBirth, today)).toBeNull()
+	})
+
+	test('a day with no logged feeds breaks the run', () => {
+		// Nothing logged three days ago
+		const run = findLowIntakeRun(
+			[low(5), low(4), low(2), low(1)],
+			dateOfBirth,
+			today
+		)
+
+		expect(run).toMatchObject({
+			days: 2,
+			endDay: daysAgo(1),
+			startDay: daysAgo(2),
+		})
+	})
+
+	test('no feeds logged yesterday means no run', () => {
+		expect(
+			findLowIntakeRun([low(4), low(3), low(2)], dateOfBirth, today)
+		).toBeNull()
+	})
+
+	test('a normal day breaks the run', () => {
+		expect(
+			findLowIntakeRun([low(3), low(2), day(1)], dateOfBirth, today)
+		).toBeNull()
+		expect(
+			findLowIntakeRun([low(3), day(2), low(1)], dateOfBirth, today)
+		).toBeNull()
+	})
+
+	test('at most a week is looked back', () => {
+		const run = findLowIntakeRun(
+			Array.from({ length: 10 }, (_, i) => low(10 - i)),
+			dateOfBirth,
+			today
+		)
+
+		expect(run).toMatchObject({ days: 7, startDay: daysAgo(7) })
+	})
+
+	test('volumes only average over fully measured days', () => {
+		const run = findLowIntakeRun(
+			[
+				day(2, { feeds: 4, mlPerKgDay: 90, volumeComplete: false }),
+				day(1, { feeds: 5, mlPerKgDay: 110 }),
+			],
+			dateOfBirth,
+			today
+		)
+
+		expect(run).toMatchObject({
+			averageFeedsPerDay: 4.5,
+			averageMlPerKgDay: 110,
+		})
+	})
+
+	test('not checked from six months', () => {
+		expect(
+			findLowIntakeRun([low(3), low(2), low(1)], new Date(2024, 8, 1), today)
+		).toBeNull()
+	})
+})
@@ -0,0 +1,189 @@
+import { describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+import {
+	guidelineRangeErrors,
+	type NicuDrugDatabase,
+	type NicuGuidelineRow,
+	parseNicuGuideline,
+	parseNicuNumber,
+	toNicuGuideline,
+} from '@/utils/formulary'
+
+// The NICU formulary, as seeded
+const nicuData = JSON.parse(
+	fs.readFileSync(
+		path.resolve(import.meta.dir, '../../prisma/data/nicu_data.json'),
+		'utf-8'
+	)
+) as NicuDrugDatabase
+
+const seededRows = Object.entries(nicuData).flatMap(([drug, rows]) =>
+	rows.map((row, index) => ({ drug, index, row }))
+)
+
+const gentamicin: NicuGuidelineRow = {
+	CLINICAL_INDICATION: 'PMA ≤29 weeks, PNA 0-7 days',
+	COMPATIBILITY_DILUENT: 'D5W',
+	DOSE_UNIT: 'mg/kg/dose',
+	FINAL_CONCENTRATION_MG_ML: 2,
+	FREQUENCY_DAYS: 'Q48H',
+	GESTATIONAL_AGE_WEEKS_MAX: 29,
+	GESTATIONAL_AGE_WEEKS_MIN: 0,
+	MAX_DOSE_PER_24H: 5,
+	MAX_DOSE_PER_KG: 5,
+	MIN_DOSE_PER_KG: 5,
+	MIN_INFUSION_TIME_MIN: 30,
+	POST_NATAL_AGE_DAYS_MAX: 7,
+	POST_NATAL_AGE_DAYS_MIN: 0,
+	ROUTE: 'IV',
+	STOCK_CONCENTRATION_MG_ML: 10,
+}
+
+describe('parseNicuNumber', () => {
+	test.each([
+		['N/A', null],
+		['n/a', null],
+		[' N/A ', null],
+		['', null],
+		['  ', null],
+		[null, null],
+		[undefined, null],
+		[0, 0],
+		[2.5, 2.5],
+		['12.5', 12.5],
+		[' 7 ', 7],
+		['abc', undefined],
+		['5 mg', undefined],
+	])('%p -> %p', (value, expected) => {
+		expect(parseNicuNumber(value)).toBe(expected)
+	})
+
+	test('integer columns drop the fraction', () => {
+		expect(parseNicuNumber(7.9, true)).toBe(7)
+		expect(parseNicuNumber('14.2', true)).toBe(14)
+	})
+})
+
+describe('parseNicuGuideline', () => {
+	test('a complete row maps every column', () => {
+		expect(parseNicuGuideline(gentamicin)).toEqual({
+			data: {
+				clinicalIndication: 'PMA ≤29 weeks, PNA 0-7 days',
+				compatibilityDiluent: 'D5W',
+				doseUnit: 'mg/kg/dose',
+				finalConcentrationMgMl: 2,
+				frequencyDays: 'Q48H',
+				gestationalAgeWeeksMax: 29,
+				gestationalAgeWeeksMin: 0,
+				maxDosePer24h: 5,
+				maxDosePerKg: 5,
+				minDosePerKg: 5,
+				minInfusionTimeMin: 30,
+				postNatalAgeDaysMax: 7,
+				postNatalAgeDaysMin: 0,
+				route: 'IV',
+				stockConcentrationMgMl: 10,
+			},
+			errors: [],
+		})
+	})
+
+	test('"N/A" reads as null in number and text columns', () => {
+		const { data, errors } = parseNicuGuideline({
+			...gentamicin,
+			COMPATIBILITY_DILUENT: 'N/A',
+			DOSE_UNIT: 'n/a',
+			GESTATIONAL_AGE_WEEKS_MAX: 'N/A',
+			GESTATIONAL_AGE_WEEKS_MIN: ' N/A ',
+			MAX_DOSE_PER_24H: '',
+			POST_NATAL_AGE_DAYS_MIN: null,
+		})
+
+		expect(errors).toEqual([])
+		expect(data).toMatchObject({
+			compatibilityDiluent: null,
+			doseUnit: null,
+			gestationalAgeWeeksMax: null,
+			gestationalAgeWeeksMin: null,
+			maxDosePer24h: null,
+			postNatalAgeDaysMin: null,
+		})
+	})
+
+	test('numbers given as text are read, text is trimmed', () => {
+		const { data } = parseNicuGuideline({
+			...gentamicin,
+			FREQUENCY_DAYS: ' Q48H ',
+			MAX_DOSE_PER_KG: '7.5',
+			POST_NATAL_AGE_DAYS_MAX: '14.6',
+		})
+
+		expect(data).toMatchObject({
+			frequencyDays: 'Q48H',
+			maxDosePerKg: 7.5,
+			postNatalAgeDaysMax: 14,
+		})
+	})
+
+	test('an unreadable number is reported and left empty', () => {
+		const { data, errors } = parseNicuGuideline({
+			...gentamicin,
+			MIN_DOSE_PER_KG: '5 mg',
+		})
+
+		expect(errors).toEqual(['MIN_DOSE_PER_KG "5 mg" is not a number or N/A'])
+		expect(data.minDosePerKg).toBeNull()
+	})
+
+	test('route and indication are required', () => {
+		const { errors } = parseNicuGuideline({
+			...gentamicin,
+			CLINICAL_INDICATION: ' ',
+			ROUTE: 'N/A',
+		})
+
+		expect(errors).toEqual([
+			'ROUTE is required',
+			'CLINICAL_INDICATION is required',
+		])
+	})
+
+	test.each(seededRows)('seeded $drug row $index parses cleanly', ({ row }) => {
+		const { data, errors } = parseNicuGuideline(row)
+
+		expect(errors).toEqual([])
+		expect(guidelineRangeErrors(data)).toEqual([])
+	})
+})
+
+describe('toNicuGuideline', () => {
+	test('writes nulls back as "N/A" and normalizes the route', () => {
+		const { data } = parseNicuGuideline({
+			...gentamicin,
+			COMPATIBILITY_DILUENT: 'N/A',
+			MAX_DOSE_PER_24H: 'N/A',
+		})
+
+		expect(toNicuGuideline({ ...data, route: 'intravenous' })).toEqual({
+			...gentamicin,
+			COMPATIBILITY_DILUENT: 'N/A',
+			MAX_DOSE_PER_24H: 'N/A',
+		})
+	})
+
+	test('columns come out in file order', () => {
+		const { data } = parseNicuGuideline(gentamicin)
+
+		expect(Object.keys(toNicuGuideline(data))).toEqual(
+			Object.keys(nicuData.Gentamicin?.[0] ?? {})
+		)
+	})
+
+	test('seeded rows survive a round trip', () => {
+		for (const { row } of seededRows) {
+			expect(toNicuGuideline(parseNicuGuideline(row).data)).toEqual(row)
+		}
+	})
+})
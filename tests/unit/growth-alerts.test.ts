@@ -0,0 +1,254 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+	evaluateGrowthAlerts,
+	GROWTH_ALERT_THRESHOLDS,
+	type GrowthAlertMeasurement,
+	percentileLinesCrossed,
+} from '@/utils/growth-alerts'
+
+const birth = new Date('2025-01-01T00:00:00Z')
+
+// A saved record on a day of life
+const at = (
+	ageDays: number,
+	values: Partial<GrowthAlertMeasurement> = {}
+): GrowthAlertMeasurement => ({
+	ageDays,
+	date: new Date(birth.getTime() + ageDays * 24 * 60 * 60 * 1000),
+	id: `gr-${ageDays}`,
+	...values,
+})
+
+const rules = (
+	current: GrowthAlertMeasurement,
+	history: GrowthAlertMeasurement[]
+) => evaluateGrowthAlerts(current, history).map(f => f.rule)
+
+describe('percentileLinesCrossed', () => {
+	test.each([
+		[0.1, 0.6, 0],
+		[0.7, -0.7, 3],
+		[-0.7, 0.7, 3],
+		// A z-score on a line has not crossed it
+		[0, 0.67, 0],
+		[0, 0.68, 1],
+		[-2.67, 2.67, 7],
+		[-4, 4, 9],
+		[1, 1, 0],
+	])('%p to %p crosses %p', (fromZ, toZ, expected) => {
+		expect(percentileLinesCrossed(fromZ, toZ)).toBe(expected)
+	})
+})
+
+describe('evaluateGrowthAlerts - weight crossing percentiles', () => {
+	test('a fall across two lines from the previous record', () => {
+		const [finding] = evaluateGrowthAlerts(at(120, { weightForAgeZ: -0.8 }), [
+			at(60, { weightForAgeZ: 0.1 }),
+		])
+
+		expect(finding).toEqual({
+			details: {
+				fromDate: at(60).date.toISOString(),
+				fromZ: 0.1,
+				linesCrossed: 2,
+				toZ: -0.8,
+			},
+			message:
+				'Weight-for-age fell across 2 major percentile lines, from percentile 54.0 to percentile 21.2',
+			rule: 'PERCENTILE_CROSSING',
+		})
+	})
+
+	test('one line is not enough', () => {
+		expect(
+			rules(at(120, { weightForAgeZ: -0.5 }), [at(60, { weightForAgeZ: 0.1 })])
+		).toEqual([])
+	})
+
+	test('a rise is not flagged', () => {
+		expect(
+			rules(at(120, { weightForAgeZ: 1.5 }), [at(60, { weightForAgeZ: -0.8 })])
+		).toEqual([])
+	})
+
+	test('a slow drift is measured from the peak, not the previous record', () => {
+		const [finding] = evaluateGrowthAlerts(at(180, { weightForAgeZ: -0.8 }), [
+			at(30, { weightForAgeZ: 0.1 }),
+			at(60, { weightForAgeZ: 0.9 }),
+			at(90, { weightForAgeZ: 0.4 }),
+			at(120, { weightForAgeZ: -0.2 }),
+			at(150, { weightForAgeZ: -0.6 }),
+		])
+
+		expect(finding?.details).toMatchObject({
+			fromDate: at(60).date.toISOString(),
+			fromZ: 0.9,
+			linesCrossed: 3,
+		})
+	})
+
+	test('the peak is only looked for within the look-back window', () => {
+		const history = [
+			at(20, { weightForAgeZ: 1 }),
+			at(300, { weightForAgeZ: -0.3 }),
+		]
+
+		expect(
+			rules(
+				at(20 + GROWTH_ALERT_THRESHOLDS.lookbackDays, {
+					weightForAgeZ: -0.8,
+				}),
+				history
+			)
+		).toEqual(['PERCENTILE_CROSSING'])
+		expect(
+			rules(
+				at(21 + GROWTH_ALERT_THRESHOLDS.lookbackDays, {
+					weightForAgeZ: -0.8,
+				}),
+				history
+			)
+		).toEqual([])
+	})
+
+	test('records in the first two weeks are skipped', () => {
+		expect(
+			rules(at(60, { weightForAgeZ: -0.8 }), [at(13, { weightForAgeZ: 0.9 })])
+		).toEqual([])
+		expect(
+			rules(at(60, { weightForAgeZ: -0.8 }), [at(14, { weightForAgeZ: 0.9 })])
+		).toEqual(['PERCENTILE_CROSSING'])
+	})
+
+	test('the current record and later ones are not its own history', () => {
+		const current = at(120, { weightForAgeZ: -0.8 })
+
+		expect(
+			rules(current, [
+				{ ...current, weightForAgeZ: 1 },
+				at(150, { weightForAgeZ: 1 }),
+			])
+		).toEqual([])
+	})
+})
+
+describe('evaluateGrowthAlerts - low weight-for-length', () => {
+	test.each([
+		{ expected: [], z: -2 },
+		{ expected: ['LOW_WEIGHT_FOR_LENGTH'], z: -2.01 },
+	])('z $z', ({ expected, z }) => {
+		expect(rules(at(120, { weightForLengthZ: z }), [])).toEqual([...expected])
+	})
+})
+
+describe('evaluateGrowthAlerts - static weight', () => {
+	test('no gain since the latest record at least four weeks old', () => {
+		const [finding] = evaluateGrowthAlerts(at(100, { weight: 5.2 }), [
+			at(40, { weight: 4.8 }),
+			at(70, { weight: 5.2 }),
+			// Too recent to be the baseline
+			at(80, { weight: 5 }),
+		])
+
+		expect(finding).toEqual({
+			details: {
+				fromDate: at(70).date.toISOString(),
+				fromWeight: 5.2,
+				toWeight: 5.2,
+				weeks: 4,
+			},
+			message: 'No weight gain over 4 weeks (5.2 kg to 5.2 kg)',
+			rule: 'STATIC_WEIGHT',
+		})
+	})
+
+	test('a gain since the baseline is not flagged', () => {
+		expect(
+			rules(at(100, { weight: 5.3 }), [
+				at(70, { weight: 5.2 }),
+				at(80, { weight: 5.4 }),
+			])
+		).toEqual([])
+	})
+
+	test('nothing to compare with under four weeks back', () => {
+		expect(rules(at(100, { weight: 5 }), [at(73, { weight: 5.2 })])).toEqual([])
+	})
+
+	test('records without a weight are not the baseline', () => {
+		expect(
+			rules(at(100, { weight: 5.2 }), [
+				at(40, { weight: 5 }),
+				at(70, { weight: null }),
+			])
+		).toEqual([])
+	})
+
+	test('only flagged under two years', () => {
+		const history = [at(600, { weight: 11 })]
+
+		expect(rules(at(729, { weight: 11 }), history)).toEqual(['STATIC_WEIGHT'])
+		expect(rules(at(730, { weight: 11 }), history)).toEqual([])
+	})
+})
+
+describe('evaluateGrowthAlerts - rapid head growth', () => {
+	test('a rise across two lines from the lowest record', () => {
+		const [finding] = evaluateGrowthAlerts(
+			at(150, { headCircumference: 43.5, hcForAgeZ: 1.5 }),
+			[
+				at(30, { headCircumference: 37.5, hcForAgeZ: 0.2 }),
+				at(60, { headCircumference: 39, hcForAgeZ: 0.1 }),
+				at(90, { headCircumference: 41, hcForAgeZ: 0.8 }),
+			]
+		)
+
+		expect(finding).toEqual({
+			details: {
+				fromDate: at(60).date.toISOString(),
+				fromHeadCircumference: 39,
+				fromZ: 0.1,
+				linesCrossed: 2,
+				toHeadCircumference: 43.5,
+				toZ: 1.5,
+			},
+			message:
+				'Head circumference rose across 2 major percentile lines, from percentile 54.0 to percentile 93.3',
+			rule: 'RAPID_HEAD_GROWTH',
+		})
+	})
+
+	test('a fall is not flagged', () => {
+		expect(
+			rules(at(150, { hcForAgeZ: -1.5 }), [at(60, { hcForAgeZ: 0.1 })])
+		).toEqual([])
+	})
+
+	test('head growth is checked at any age', () => {
+		expect(
+			rules(at(10, { hcForAgeZ: 1 }), [at(1, { hcForAgeZ: -0.5 })])
+		).toEqual(['RAPID_HEAD_GROWTH'])
+	})
+})
+
+describe('evaluateGrowthAlerts - several rules at once', () => {
+	test('findings come in rule order', () => {
+		expect(
+			rules(
+				at(100, {
+					hcForAgeZ: 1.5,
+					weight: 5,
+					weightForAgeZ: -1.5,
+					weightForLengthZ: -2.5,
+				}),
+				[at(60, { hcForAgeZ: 0, weight: 5, weightForAgeZ: 0 })]
+			)
+		).toEqual([
+			'PERCENTILE_CROSSING',
+			'LOW_WEIGHT_FOR_LENGTH',
+			'STATIC_WEIGHT',
+			'RAPID_HEAD_GROWTH',
+		])
+	})
+})
@@ -0,0 +1,195 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+	calculateContinuousInfusion,
+	calculateIntermittentInfusion,
+	isContinuousDoseUnit,
+} from '@/utils/infusion'
+
+describe('calculateIntermittentInfusion', () => {
+	// 10 mg from a 40 mg/mL stock diluted to 10 mg/mL over 30 min
+	const base = {
+		diluent: 'NS',
+		doseMg: 10,
+		finalConcentrationMgMl: 10,
+		minInfusionTimeMin: 30,
+		stockConcentrationMgMl: 40,
+	}
+
+	test('stock, diluent and final volumes with the pump rate', () => {
+		const result = calculateIntermittentInfusion({
+			...base,
+			infusionTimeMin: 30,
+		})
+
+		expect(result).toMatchObject({
+			diluentVolumeMl: 0.75,
+			finalConcentrationMgMl: 10,
+			finalVolumeMl: 1,
+			infusionTimeMin: 30,
+			mode: 'INTERMITTENT',
+			rateMlPerHour: 2,
+			stockVolumeMl: 0.25,
+			warnings: [],
+		})
+		expect(result.measured).toEqual({
+			diluentVolumeMl: 0.75,
+			finalVolumeMl: 1,
+			stepMl: 0.01,
+			stockVolumeMl: 0.25,
+		})
+	})
+
+	test('a time below the minimum is raised to it', () => {
+		const result = calculateIntermittentInfusion({
+			...base,
+			infusionTimeMin: 15,
+		})
+
+		expect(result.infusionTimeMin).toBe(30)
+		expect(result.rateMlPerHour).toBe(2)
+		expect(result.warnings).toContain(
+			'Infusion time raised to the minimum of 30 min'
+		)
+	})
+
+	test('a longer time than the minimum is kept', () => {
+		const result = calculateIntermittentInfusion({
+			...base,
+			infusionTimeMin: 60,
+		})
+
+		expect(result.rateMlPerHour).toBe(1)
+	})
+
+	test('without an infusion time it is a push at 0 mL/h', () => {
+		const result = calculateIntermittentInfusion({
+			...base,
+			minInfusionTimeMin: null,
+		})
+
+		expect(result.infusionTimeMin).toBeNull()
+		expect(result.rateMlPerHour).toBe(0)
+	})
+
+	test('a final concentration above the stock is given undiluted', () => {
+		const result = calculateIntermittentInfusion({
+			...base,
+			finalConcentrationMgMl: 80,
+			infusionTimeMin: 30,
+		})
+
+		expect(result.finalConcentrationMgMl).toBe(40)
+		expect(result.diluentVolumeMl).toBe(0)
+		expect(result.finalVolumeMl).toBe(0.25)
+		expect(result.rateMlPerHour).toBe(0.5)
+		expect(result.warnings[0]).toContain('giving undiluted')
+	})
+
+	test('a stock volume too small to measure is flagged', () => {
+		const result = calculateIntermittentInfusion({
+			...base,
+			doseMg: 0.1,
+			stockConcentrationMgMl: 100,
+		})
+
+		expect(result.measured.stockVolumeMl).toBe(0)
+		expect(result.warnings).toContain(
+			'Stock volume is below the smallest measurable volume - use a more dilute stock'
+		)
+	})
+
+	test('dilution without a recorded diluent is flagged', () => {
+		const result = calculateIntermittentInfusion({ ...base, diluent: null })
+
+		expect(result.warnings).toContain(
+			'No compatible diluent recorded for this guideline'
+		)
+	})
+})
+
+describe('calculateContinuousInfusion', () => {
+	test('mcg/kg/min: rate = dose x weight x 60 / concentration', () => {
+		// 5 mcg/kg/min x 2 kg = 0.6 mg/h at 0.8 mg/mL
+		const result = calculateContinuousInfusion({
+			diluent: 'D5W',
+			doseRate: 5,
+			doseUnit: 'mcg/kg/min',
+			finalConcentrationMgMl: 0.8,
+			stockConcentrationMgMl: 40,
+			syringeVolumeMl: 50,
+			weightKg: 2,
+		})
+
+		expect(result).toMatchObject({
+			diluentVolumeMl: 49,
+			drugAmountMg: 40,
+			finalVolumeMl: 50,
+			mode: 'CONTINUOUS',
+			rateMlPerHour: 0.75,
+			stockVolumeMl: 1,
+		})
+	})
+
+	test('mg/kg/hr: rate = dose x weight / concentration', () => {
+		// 0.1 mg/kg/h x 3 kg = 0.3 mg/h at 1 mg/mL
+		const result = calculateContinuousInfusion({
+			diluent: 'NS',
+			doseRate: 0.1,
+			doseUnit: 'mg/kg/hr',
+			finalConcentrationMgMl: 1,
+			stockConcentrationMgMl: 5,
+			syringeVolumeMl: 20,
+			weightKg: 3,
+		})
+
+		expect(result.rateMlPerHour).toBe(0.3)
+		expect(result.drugAmountMg).toBe(20)
+		expect(result.stockVolumeMl).toBe(4)
+		expect(result.diluentVolumeMl).toBe(16)
+	})
+
+	test('the final concentration is capped at the stock', () => {
+		const result = calculateContinuousInfusion({
+			doseRate: 10,
+			doseUnit: 'mcg/kg/min',
+			finalConcentrationMgMl: 100,
+			stockConcentrationMgMl: 12.5,
+			syringeVolumeMl: 10,
+			weightKg: 1,
+		})
+
+		expect(result.finalConcentrationMgMl).toBe(12.5)
+		expect(result.diluentVolumeMl).toBe(0)
+		expect(result.rateMlPerHour).toBe(0.048)
+	})
+
+	test.each([
+		'mg/kg/dose',
+		'mg/kg/day',
+		'units/kg/hr',
+		'mg',
+	])('%p is not a continuous rate', doseUnit => {
+		expect(() =>
+			calculateContinuousInfusion({
+				doseRate: 1,
+				doseUnit,
+				stockConcentrationMgMl: 1,
+				syringeVolumeMl: 10,
+				weightKg: 1,
+			})
+		).toThrow('is not a continuous infusion rate')
+	})
+})
+
+describe('isContinuousDoseUnit', () => {
+	test.each([
+		['mcg/kg/min', true],
+		['mg/kg/hr', true],
+		['mg/kg/dose', false],
+		['mg/kg/day', false],
+		[null, false],
+	])('%p -> %p', (unit, expected) => {
+		expect(isContinuousDoseUnit(unit)).toBe(expected)
+	})
+})
@@ -0,0 +1,201 @@
+import { describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+import {
+	checkInteractions,
+	type InteractionDrug,
+	type InteractionEntry,
+	type InteractionWarning,
+	interactionPairKey,
+} from '@/utils/interaction'
+
+// The local interaction table, as seeded
+const table = JSON.parse(
+	fs.readFileSync(
+		path.resolve(import.meta.dir, '../../prisma/data/drug_interactions.json'),
+		'utf-8'
+	)
+) as InteractionEntry[]
+
+const draft = (...names: string[]): InteractionDrug[] =>
+	names.map((name, itemIndex) => ({ itemIndex, name }))
+
+const summary = (warnings: InteractionWarning[]) =>
+	warnings.map(w => `${w.drugs[0].name} + ${w.drugs[1].name} ${w.severity}`)
+
+describe('interactionPairKey', () => {
+	test('the same key for either order and case', () => {
+		expect(interactionPairKey('Gentamicin', 'Furosemide')).toBe(
+			interactionPairKey('furosemide', 'GENTAMICIN')
+		)
+		expect(interactionPairKey('Gentamicin', 'Furosemide')).toBe(
+			'furosemide|gentamicin'
+		)
+	})
+})
+
+describe('checkInteractions - ranking', () => {
+	test('most severe first', () => {
+		const warnings = checkInteractions(
+			draft('Gentamicin', 'Furosemide', 'Calcium Gluconate', 'Ceftriaxone'),
+			[],
+			table
+		)
+
+		expect(summary(warnings)).toEqual([
+			'Calcium Gluconate + Ceftriaxone CONTRAINDICATED',
+			'Gentamicin + Furosemide MAJOR',
+		])
+	})
+
+	test('equal severities are ordered by drug name', () => {
+		const warnings = checkInteractions(
+			draft('Vancomycin', 'Gentamicin', 'Amikacin', 'Ibuprofen'),
+			[],
+			table
+		)
+
+		expect(summary(warnings)).toEqual([
+			'Vancomycin + Amikacin MAJOR',
+			'Vancomycin + Gentamicin MAJOR',
+			'Gentamicin + Ibuprofen MODERATE',
+			'Vancomycin + Ibuprofen MODERATE',
+		])
+	})
+
+	test('the ranking covers all four severities', () => {
+		const entry = (
+			drugB: string,
+			severity: InteractionEntry['severity']
+		): InteractionEntry => ({
+			drugA: 'Drug A',
+			drugB,
+			management: 'Monitor',
+			mechanism: 'Test',
+			severity,
+		})
+		const warnings = checkInteractions(
+			draft('Drug A', 'Minor', 'Moderate', 'Major', 'Contraindicated'),
+			[],
+			[
+				entry('Minor', 'MINOR'),
+				entry('Moderate', 'MODERATE'),
+				entry('Contraindicated', 'CONTRAINDICATED'),
+				entry('Major', 'MAJOR'),
+			]
+		)
+
+		expect(warnings.map(w => w.severity)).toEqual([
+			'CONTRAINDICATED',
+			'MAJOR',
+			'MODERATE',
+			'MINOR',
+		])
+	})
+})
+
+describe('checkInteractions - matching', () => {
+	test('only contraindicated pairs need an override', () => {
+		const warnings = checkInteractions(
+			draft('Meropenem', 'Valproic Acid', 'Fentanyl', 'Midazolam'),
+			[],
+			table
+		)
+
+		expect(
+			warnings.map(w => [w.severity, w.requiresOverride] as const)
+		).toEqual([
+			['CONTRAINDICATED', true],
+			['MAJOR', false],
+		])
+	})
+
+	test('drugs already prescribed are checked against the draft', () => {
+		const [warning] = checkInteractions(
+			draft('Midazolam'),
+			[{ name: 'Fluconazole', prescriptionId: 'rx-1' }],
+			table
+		)
+
+		expect(warning).toMatchObject({
+			drugs: [
+				{ itemIndex: 0, name: 'Midazolam' },
+				{ name: 'Fluconazole', prescriptionId: 'rx-1' },
+			],
+			message:
+				'Midazolam + Fluconazole (already prescribed): major interaction - Fluconazole inhibits CYP3A4 and raises midazolam concentrations, prolonging sedation.',
+			severity: 'MAJOR',
+		})
+	})
+
+	test('active drugs are not checked against each other', () => {
+		const active = [
+			{ name: 'Gentamicin', prescriptionId: 'rx-1' },
+			{ name: 'Furosemide', prescriptionId: 'rx-2' },
+		]
+
+		expect(checkInteractions(draft('Paracetamol'), active, table)).toEqual([])
+	})
+
+	test('a brand is matched through its generic name', () => {
+		const warnings = checkInteractions(
+			[
+				{ genericName: 'Ceftriaxone', itemIndex: 0, name: 'Rocephin' },
+				{ itemIndex: 1, name: 'Calcium Gluconate' },
+			],
+			[],
+			table
+		)
+
+		expect(summary(warnings)).toEqual([
+			'Rocephin + Calcium Gluconate CONTRAINDICATED',
+		])
+	})
+
+	test('a table entry can name a drug class', () => {
+		const warnings = checkInteractions(
+			draft('Cefotaxime', 'Calcium Gluconate'),
+			[],
+			[
+				{
+					drugA: 'Cephalosporin',
+					drugB: 'Calcium Gluconate',
+					management: 'Flush the line',
+					mechanism: 'Precipitation',
+					severity: 'MINOR',
+				},
+			]
+		)
+
+		expect(summary(warnings)).toEqual(['Cefotaxime + Calcium Gluconate MINOR'])
+	})
+
+	test('the same drug twice is not an interaction', () => {
+		expect(
+			checkInteractions(
+				draft('Gentamicin'),
+				[{ name: 'gentamicin', prescriptionId: 'rx-1' }],
+				table
+			)
+		).toEqual([])
+	})
+
+	test('a pair listed twice is reported once', () => {
+		const [pair] = table
+
+		expect(
+			checkInteractions(
+				draft('Gentamicin', 'Furosemide'),
+				[],
+				pair ? [pair, { ...pair }] : []
+			)
+		).toHaveLength(1)
+	})
+
+	test('an empty table finds nothing', () => {
+		expect(
+			checkInteractions(draft('Gentamicin', 'Furosemide'), [], [])
+		).toEqual([])
+	})
+})
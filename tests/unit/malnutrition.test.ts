@@ -0,0 +1,177 @@
+import { describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+import {
+	type AcuteMalnutritionInput,
+	classifyAcuteMalnutrition,
+} from '@/utils/malnutrition'
+import {
+	calculateWHOZScore,
+	getGrowthAge,
+	isRestrictedChart,
+	parseWHOTableRow,
+	referenceForGrowthAge,
+	WHO_TABLES,
+	type WHOTableRow,
+} from '@/utils/who-standards'
+
+// WHO weight-for-height, boys 100 cm (prisma/data/zscore-wfh.json):
+// -3 SD 12.1 kg, -2 SD 13.1 kg, -1 SD 14.2 kg, median 15.4 kg
+const boys100cm = { lValue: -0.3521, mValue: 15.3576, sValue: 0.08229 }
+
+const threeYears = 1100
+
+const classify = (input: Partial<AcuteMalnutritionInput>) =>
+	classifyAcuteMalnutrition({ ageDays: threeYears, ...input })
+
+describe('classifyAcuteMalnutrition - weight-for-height', () => {
+	test.each([
+		{ expected: 'SAM', weight: 12 },
+		{ expected: 'MAM', weight: 13 },
+		{ expected: 'AT_RISK', weight: 14 },
+		{ expected: 'NONE', weight: 15.4 },
+	])('$weight kg at 100 cm -> $expected', ({ expected, weight }) => {
+		const weightForHeightZ = calculateWHOZScore(weight, boys100cm, true)
+
+		expect(classify({ weightForHeightZ }).status).toBe(expected)
+	})
+
+	test.each([
+		{ expected: 'SAM', z: -3.01 },
+		{ expected: 'MAM', z: -3 },
+		{ expected: 'AT_RISK', z: -2 },
+		{ expected: 'NONE', z: -1 },
+	])('z $z -> $expected (cut-offs are exclusive)', ({ expected, z }) => {
+		expect(classify({ weightForHeightZ: z }).status).toBe(expected)
+	})
+})
+
+describe('classifyAcuteMalnutrition - MUAC', () => {
+	test.each([
+		{ expected: 'SAM', muac: 11.4 },
+		{ expected: 'MAM', muac: 11.5 },
+		{ expected: 'AT_RISK', muac: 12.5 },
+		{ expected: 'NONE', muac: 13.5 },
+	])('$muac cm -> $expected', ({ expected, muac }) => {
+		expect(classify({ muacCm: muac }).status).toBe(expected)
+	})
+
+	test.each([
+		{ ageDays: 182, expected: 'NONE' },
+		{ ageDays: 183, expected: 'SAM' },
+		{ ageDays: 1825, expected: 'SAM' },
+		{ ageDays: 1826, expected: 'NONE' },
+	])('cut-offs apply from 6 to 59 months: day $ageDays', ({
+		ageDays,
+		expected,
+	}) => {
+		expect(classify({ ageDays, muacCm: 11 }).status).toBe(expected)
+	})
+})
+
+describe('classifyAcuteMalnutrition - combined', () => {
+	test('the worst indicator wins and only its criteria are listed', () => {
+		const result = classify({ muacCm: 12, weightForHeightZ: -3.2 })
+
+		expect(result).toEqual({
+			criteria: ['Weight-for-height z -3.20 < -3'],
+			status: 'SAM',
+		})
+	})
+
+	test('oedema is SAM whatever the anthropometry', () => {
+		const result = classify({
+			bilateralOedema: true,
+			muacCm: 14,
+			weightForHeightZ: 0,
+		})
+
+		expect(result).toEqual({
+			criteria: ['Bilateral pitting oedema'],
+			status: 'SAM',
+		})
+	})
+
+	test('nothing measured is no acute malnutrition', () => {
+		expect(classify({})).toEqual({ criteria: [], status: 'NONE' })
+	})
+})
+
+describe('MUAC-for-age z-score', () => {
+	// WHO arm circumference-for-age, 3 to 60 months, as seeded
+	const acfaFile = path.resolve(
+		import.meta.dir,
+		'../../prisma/data/zscore-acfa.json'
+	)
+
+	test.each([
+		{ ageDays: 90, expected: null },
+		{ ageDays: 91, expected: 'WHO_2006' },
+		{ ageDays: 1856, expected: 'WHO_2006' },
+		{ ageDays: 1857, expected: null },
+	])('day $ageDays -> $expected', ({ ageDays, expected }) => {
+		const lookup = referenceForGrowthAge(
+			'ACFA',
+			getGrowthAge(ageDays, null),
+			'WHO_2007'
+		)
+
+		expect(lookup?.reference ?? null).toBe(expected)
+	})
+
+	test('CDC clinics keep the WHO table, CDC has no MUAC chart', () => {
+		expect(
+			referenceForGrowthAge('ACFA', getGrowthAge(threeYears, null), 'CDC_2000')
+		).toEqual({ at: threeYears, reference: 'WHO_2006' })
+	})
+
+	test('preterm babies use corrected age', () => {
+		// Born at 30 weeks: 70 days are subtracted
+		expect(
+			referenceForGrowthAge('ACFA', getGrowthAge(161, 30), 'WHO_2007')
+		).toEqual({ at: 91, reference: 'WHO_2006' })
+		expect(
+			referenceForGrowthAge('ACFA', getGrowthAge(160, 30), 'WHO_2007')
+		).toBeNull()
+	})
+
+	test.skipIf(!fs.existsSync(acfaFile))(
+		'seeded rows: each published SD line scores its z',
+		() => {
+			const table = WHO_TABLES.find(t => t.key === 'acfa')
+			if (!table) throw new Error('No acfa table')
+			const data = JSON.parse(fs.readFileSync(acfaFile, 'utf-8')) as Record<
+				string,
+				Record<'boys' | 'girls', WHOTableRow[]>
+			>
+
+			for (const [sex, gender] of [
+				['boys', 'MALE'],
+				['girls', 'FEMALE'],
+			] as const) {
+				const rows = data.acfa[sex].map(row =>
+					parseWHOTableRow(row, table, gender)
+				)
+				const row = rows.find(r => r.ageDays === threeYears) ?? rows[0]
+				const lookup = referenceForGrowthAge(
+					'ACFA',
+					getGrowthAge(row.ageDays, null),
+					'WHO_2007'
+				)
+
+				expect(lookup).toEqual({ at: row.ageDays, reference: 'WHO_2006' })
+				for (const [column, z] of [
+					['sd3neg', -3],
+					['sd2neg', -2],
+					['sd0', 0],
+					['sd2pos', 2],
+				] as const) {
+					expect(
+						calculateWHOZScore(row[column], row, isRestrictedChart('ACFA'))
+					).toBeCloseTo(z, 1)
+				}
+			}
+		}
+	)
+})
@@ -0,0 +1,294 @@
+import { describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+import {
+	dueScreenings,
+	findAnswerErrors,
+	type ScreeningInstrumentDefinition,
+	scoreScreening,
+	validateInstrument,
+} from '@/utils/screening'
+
+// The instrument catalog, as seeded
+const instruments = JSON.parse(
+	fs.readFileSync(
+		path.resolve(
+			import.meta.dir,
+			'../../prisma/data/screening_instruments.json'
+		),
+		'utf-8'
+	)
+) as ScreeningInstrumentDefinition[]
+
+function instrument(code: string): ScreeningInstrumentDefinition {
+	const found = instruments.find(i => i.code === code)
+	if (!found) throw new Error(`No instrument ${code}`)
+	return found
+}
+
+const mchat = instrument('MCHAT_R')
+const devQ12 = instrument('DEV_Q_12')
+
+// M-CHAT-R items where YES is the at-risk answer
+const REVERSE_SCORED = [2, 5, 12]
+
+// The typical answer to every item, with the listed items answered the other way
+function mchatAnswers(atRisk: number[] = []) {
+	return mchat.questions.map(({ number }) => {
+		const typical = REVERSE_SCORED.includes(number) ? 'NO' : 'YES'
+		const other = typical === 'YES' ? 'NO' : 'YES'
+		return { answer: atRisk.includes(number) ? other : typical, number }
+	})
+}
+
+const scoreMchat = (atRisk: number[]) =>
+	scoreScreening(mchat.questions, mchat.cutoffs, mchatAnswers(atRisk))
+
+describe('validateInstrument', () => {
+	test.each(instruments.map(i => i.code))('seeded %s is valid', code => {
+		expect(validateInstrument(instrument(code))).toEqual([])
+	})
+
+	test('duplicate questions, point counts and overlapping bands', () => {
+		const [first, second] = mchat.questions
+		if (!first || !second) throw new Error('No questions')
+
+		expect(
+			validateInstrument({
+				...mchat,
+				cutoffs: [
+					...mchat.cutoffs,
+					{ label: 'Extra', maxScore: 9, minScore: 7, risk: 'HIGH' },
+					{
+						domain: 'Motor',
+						label: 'Motor',
+						maxScore: 1,
+						minScore: 2,
+						risk: 'LOW',
+					},
+				],
+				questions: [
+					first,
+					{ ...second, number: first.number, optionPoints: [1] },
+				],
+			})
+		).toEqual([
+			'Question 1 is defined twice',
+			'Question 1 needs one point value per option',
+			'Cut-off for unknown domain Motor',
+			'Cut-off Motor has min score above max score',
+			'Cut-offs Medium risk and Extra overlap',
+			'Cut-offs Extra and High risk overlap',
+		])
+	})
+
+	test('at least one cut-off', () => {
+		expect(validateInstrument({ ...mchat, cutoffs: [] })).toEqual([
+			'At least one cut-off is required',
+		])
+	})
+})
+
+describe('findAnswerErrors', () => {
+	test('every question answered with one of its options', () => {
+		const answers = mchatAnswers().filter(a => a.number !== 3)
+		answers[0] = { answer: 'MAYBE', number: 1 }
+
+		expect(findAnswerErrors(mchat.questions, answers)).toEqual([
+			'Question 1 must be one of YES, NO',
+			'Question 3 is unanswered',
+		])
+	})
+})
+
+describe('scoreScreening - M-CHAT-R', () => {
+	test('typical answers score 0', () => {
+		expect(scoreMchat([])).toMatchObject({
+			followUpInstrumentCode: null,
+			outcome: 'Low risk',
+			risk: 'LOW',
+			totalScore: 0,
+		})
+	})
+
+	test('items 2, 5 and 12 score a point for YES, the others for NO', () => {
+		const yesToAll = mchat.questions.map(({ number }) => ({
+			answer: 'YES',
+			number,
+		}))
+		const { answers, totalScore } = scoreScreening(
+			mchat.questions,
+			mchat.cutoffs,
+			yesToAll
+		)
+
+		expect(totalScore).toBe(3)
+		expect(answers.filter(a => a.points === 1).map(a => a.number)).toEqual(
+			REVERSE_SCORED
+		)
+	})
+
+	test.each([
+		{ atRisk: [1, 2], risk: 'LOW', score: 2 },
+		{ atRisk: [1, 2, 5], risk: 'MODERATE', score: 3 },
+		{ atRisk: [1, 2, 3, 4, 5, 6, 12], risk: 'MODERATE', score: 7 },
+		{ atRisk: [1, 2, 3, 4, 5, 6, 7, 12], risk: 'HIGH', score: 8 },
+		{
+			atRisk: Array.from({ length: 20 }, (_, i) => i + 1),
+			risk: 'HIGH',
+			score: 20,
+		},
+	] as const)('score $score -> $risk', ({ atRisk, risk, score }) => {
+		const result = scoreMchat([...atRisk])
+
+		expect(result.totalScore).toBe(score)
+		expect(result.risk).toBe(risk)
+		expect(result.findings).toHaveLength(1)
+	})
+
+	test('a medium-risk score calls for the Follow-Up interview', () => {
+		expect(scoreMchat([2, 5, 12])).toMatchObject({
+			followUpInstrumentCode: 'MCHAT_RF',
+			outcome: 'Medium risk',
+			recommendation: 'Administer the M-CHAT-R/F Follow-Up interview.',
+		})
+	})
+
+	test('unanswered questions score nothing', () => {
+		const result = scoreScreening(mchat.questions, mchat.cutoffs, [
+			{ answer: 'NO', number: 1 },
+		])
+
+		expect(result.answers).toEqual([{ answer: 'NO', number: 1, points: 1 }])
+		expect(result.totalScore).toBe(1)
+	})
+})
+
+describe('scoreScreening - domain questionnaire', () => {
+	// Each domain has six questions: YES 10, SOMETIMES 5, NOT YET 0
+	const answersBy = (byDomain: Record<string, string>) =>
+		devQ12.questions.map(({ domain, number }) => ({
+			answer: byDomain[domain ?? ''] ?? 'YES',
+			number,
+		}))
+
+	test('every domain on schedule', () => {
+		const result = scoreScreening(
+			devQ12.questions,
+			devQ12.cutoffs,
+			answersBy({})
+		)
+
+		expect(result.domainScores).toEqual({
+			Communication: 60,
+			'Fine motor': 60,
+			'Gross motor': 60,
+			'Personal-social': 60,
+			'Problem solving': 60,
+		})
+		expect(result).toMatchObject({
+			outcome:
+				'On schedule: Communication, Gross motor, Fine motor, Problem solving, Personal-social',
+			recommendation: null,
+			risk: 'LOW',
+		})
+	})
+
+	test('the worst domains set the risk and outcome', () => {
+		const result = scoreScreening(
+			devQ12.questions,
+			devQ12.cutoffs,
+			answersBy({
+				Communication: 'NOT_YET',
+				'Fine motor': 'NOT_YET',
+				'Gross motor': 'SOMETIMES',
+			})
+		)
+
+		expect(result.findings.map(f => [f.domain, f.risk])).toEqual([
+			['Communication', 'HIGH'],
+			['Gross motor', 'MODERATE'],
+			['Fine motor', 'HIGH'],
+			['Problem solving', 'LOW'],
+			['Personal-social', 'LOW'],
+		])
+		expect(result).toMatchObject({
+			outcome: 'Below cut-off: Communication, Fine motor',
+			recommendation: 'Refer for a full developmental assessment.',
+			risk: 'HIGH',
+		})
+	})
+})
+
+describe('dueScreenings', () => {
+	const birthDate = new Date('2024-01-15T00:00:00Z')
+	const today = new Date('2025-07-20T00:00:00Z')
+
+	test('the latest due age reached, overdue from its due date', () => {
+		const [due, ...rest] = dueScreenings([mchat], [], birthDate, today, 30)
+
+		expect(rest).toEqual([])
+		expect(due).toMatchObject({
+			daysOverdue: 5,
+			dueAgeMonths: 18,
+			dueDate: new Date('2025-07-15T00:00:00Z'),
+			instrumentCode: 'MCHAT_R',
+			isOverdue: true,
+			reason: 'AGE',
+			windowEndsAt: new Date('2026-01-15T00:00:00Z'),
+		})
+	})
+
+	test('a result from one month early counts for the due age', () => {
+		const result = (ageMonths: number) => ({
+			administeredAt: today,
+			ageMonths,
+			instrumentCode: 'MCHAT_R',
+		})
+
+		expect(dueScreenings([mchat], [result(17)], birthDate, today, 30)).toEqual(
+			[]
+		)
+		expect(
+			dueScreenings([mchat], [result(16)], birthDate, today, 30)
+		).toHaveLength(1)
+	})
+
+	test('a follow-up is due from the result that called for it', () => {
+		const administeredAt = new Date('2025-07-16T00:00:00Z')
+		const due = dueScreenings(
+			[mchat, instrument('MCHAT_RF')],
+			[
+				{
+					administeredAt,
+					ageMonths: 18,
+					followUpInstrumentCode: 'MCHAT_RF',
+					instrumentCode: 'MCHAT_R',
+				},
+			],
+			birthDate,
+			today,
+			30
+		)
+
+		expect(due).toEqual([
+			{
+				daysOverdue: 4,
+				dueAgeMonths: null,
+				dueDate: administeredAt,
+				instrumentCode: 'MCHAT_RF',
+				instrumentName: instrument('MCHAT_RF').name,
+				isOverdue: true,
+				reason: 'FOLLOW_UP',
+				windowEndsAt: new Date('2025-08-16T00:00:00Z'),
+			},
+		])
+	})
+
+	test('nothing is due past the maximum age', () => {
+		expect(
+			dueScreenings([mchat], [], birthDate, new Date('2026-07-16'), 30)
+		).toEqual([])
+	})
+})
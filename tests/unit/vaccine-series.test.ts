@@ -0,0 +1,221 @@
+import { describe, expect, test } from 'bun:test'
+import { addDays } from 'date-fns'
+
+import {
+	type AdministeredDose,
+	evaluateVaccineSeries,
+	parseDoseNumber,
+	selectScheduleVersionForBirth,
+	type VaccineSeriesRule,
+} from '@/utils/vaccine-series'
+
+const dob = new Date('2025-01-01T00:00:00Z')
+const day = (days: number) => addDays(dob, days)
+
+// Three doses from 6 weeks, 28 days apart
+const penta: VaccineSeriesRule = {
+	ageInDaysMin: 42,
+	dosesRequired: 3,
+	id: 'penta',
+	minimumInterval: 28,
+	vaccineName: 'Pentavalent',
+}
+
+const given = (...days: number[]): AdministeredDose[] =>
+	days.map(d => ({ date: day(d), status: 'COMPLETED', vaccine: 'pentavalent' }))
+
+describe('evaluateVaccineSeries - valid doses', () => {
+	test.each([
+		{ case: 'on the minimum age', days: [42], valid: 1, invalid: 0 },
+		{
+			case: 'one day before the minimum age',
+			days: [41],
+			valid: 0,
+			invalid: 1,
+		},
+		{
+			case: 'exactly the minimum interval',
+			days: [42, 70],
+			valid: 2,
+			invalid: 0,
+		},
+		{
+			case: 'one day short of the interval',
+			days: [42, 69],
+			valid: 1,
+			invalid: 1,
+		},
+		{
+			case: 'a short interval then a valid repeat',
+			days: [42, 60, 70],
+			valid: 2,
+			invalid: 1,
+		},
+	])('$case', ({ days, invalid, valid }) => {
+		const status = evaluateVaccineSeries(penta, given(...days), dob, day(80))
+
+		expect(status.dosesCompleted).toBe(valid)
+		expect(status.invalidDoses).toBe(invalid)
+		expect(status.nextDoseNumber).toBe(valid + 1)
+	})
+
+	test('an invalid dose does not move the interval forward', () => {
+		const status = evaluateVaccineSeries(penta, given(42, 60), dob, day(60))
+
+		expect(status.earliestValidDate).toEqual(day(70))
+	})
+
+	test('only COMPLETED doses of the same vaccine count', () => {
+		const history: AdministeredDose[] = [
+			{ date: day(42), status: 'PENDING', vaccine: 'Pentavalent' },
+			{ date: day(42), status: 'COMPLETED', vaccine: 'OPV' },
+			{ date: day(42), status: 'COMPLETED', vaccine: ' PENTAVALENT ' },
+		]
+		const status = evaluateVaccineSeries(penta, history, dob, day(50))
+
+		expect(status.dosesCompleted).toBe(1)
+	})
+})
+
+describe('evaluateVaccineSeries - due dates and catch-up', () => {
+	test('on schedule: due at the minimum age, no plan', () => {
+		const status = evaluateVaccineSeries(penta, [], dob, day(30))
+
+		expect(status.dueDate).toEqual(day(42))
+		expect(status.isOverdue).toBe(false)
+		expect(status.catchUpPlan).toEqual([])
+	})
+
+	test('due today is not yet overdue', () => {
+		const status = evaluateVaccineSeries(penta, [], dob, day(42))
+
+		expect(status.daysOverdue).toBe(0)
+		expect(status.isOverdue).toBe(false)
+	})
+
+	test('late start: every remaining dose planned from today', () => {
+		const asOf = day(200)
+		const status = evaluateVaccineSeries(penta, [], dob, asOf)
+
+		expect(status.isOverdue).toBe(true)
+		expect(status.daysOverdue).toBe(158)
+		expect(status.isCatchUp).toBe(true)
+		expect(status.catchUpPlan).toEqual([
+			{ doseNumber: 1, earliestDate: asOf },
+			{ doseNumber: 2, earliestDate: addDays(asOf, 28) },
+			{ doseNumber: 3, earliestDate: addDays(asOf, 56) },
+		])
+	})
+
+	test('a late dose moves the next due date to the minimum interval', () => {
+		const status = evaluateVaccineSeries(penta, given(42, 150), dob, day(160))
+
+		expect(status.nextDoseNumber).toBe(3)
+		expect(status.recommendedDate).toEqual(day(98))
+		expect(status.dueDate).toEqual(day(178))
+		expect(status.isOverdue).toBe(false)
+		expect(status.catchUpPlan).toEqual([])
+	})
+
+	test('past the maximum age: overdue but no automatic plan', () => {
+		const rotavirus: VaccineSeriesRule = {
+			ageInDaysMax: 240,
+			ageInDaysMin: 42,
+			dosesRequired: 2,
+			id: 'rota',
+			minimumInterval: 28,
+			vaccineName: 'Rotavirus',
+		}
+		const status = evaluateVaccineSeries(rotavirus, [], dob, day(300))
+
+		expect(status.isPastMaxAge).toBe(true)
+		expect(status.isOverdue).toBe(true)
+		expect(status.catchUpPlan).toEqual([])
+	})
+})
+
+describe('evaluateVaccineSeries - completed series', () => {
+	test('all doses valid: complete, nothing due', () => {
+		const status = evaluateVaccineSeries(
+			penta,
+			given(42, 70, 98),
+			dob,
+			day(400)
+		)
+
+		expect(status.isComplete).toBe(true)
+		expect(status.nextDoseNumber).toBeNull()
+		expect(status.dueDate).toBeNull()
+		expect(status.isOverdue).toBe(false)
+	})
+
+	test('extra doses are capped at the doses required', () => {
+		const status = evaluateVaccineSeries(
+			penta,
+			given(42, 70, 98, 126),
+			dob,
+			day(400)
+		)
+
+		expect(status.dosesCompleted).toBe(3)
+	})
+
+	test('an exemption closes the series', () => {
+		const status = evaluateVaccineSeries(
+			penta,
+			[{ date: day(42), status: 'EXEMPTED', vaccine: 'Pentavalent' }],
+			dob,
+			day(400)
+		)
+
+		expect(status.isExempted).toBe(true)
+		expect(status.isOverdue).toBe(false)
+	})
+
+	test('past the maximum age does not reopen a complete series', () => {
+		const status = evaluateVaccineSeries(
+			{ ...penta, ageInDaysMax: 365 },
+			given(42, 70, 98),
+			dob,
+			day(800)
+		)
+
+		expect(status.isPastMaxAge).toBe(false)
+		expect(status.isComplete).toBe(true)
+	})
+})
+
+describe('parseDoseNumber', () => {
+	test.each([
+		['1st dose', 1],
+		['Dose 2', 2],
+		['3', 3],
+		['Single dose', 1],
+		['Booster', null],
+		[null, null],
+	])('%p -> %p', (label, expected) => {
+		expect(parseDoseNumber(label)).toBe(expected)
+	})
+})
+
+describe('selectScheduleVersionForBirth', () => {
+	const versions = [
+		{
+			effectiveFrom: new Date('2018-01-01'),
+			effectiveTo: new Date('2022-01-01'),
+			id: 'v1',
+		},
+		{ effectiveFrom: new Date('2022-01-01'), effectiveTo: null, id: 'v2' },
+	]
+
+	test.each([
+		['2020-06-01', 'v1'],
+		['2022-01-01', 'v2'],
+		['2025-06-01', 'v2'],
+		['2010-01-01', 'v1'],
+	])('born %s -> %s', (birth, id) => {
+		expect(selectScheduleVersionForBirth(versions, new Date(birth))?.id).toBe(
+			id
+		)
+	})
+})
@@ -0,0 +1,209 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+	calculatePews,
+	flagVitalSigns,
+	vitalSignBand,
+} from '@/utils/vital-signs'
+
+const neonate = 10
+
+describe('vitalSignBand - age band boundaries', () => {
+	test.each([
+		[0, 'Neonate (0-27 days)'],
+		[27, 'Neonate (0-27 days)'],
+		[28, 'Infant (1-11 months)'],
+		[364, 'Infant (1-11 months)'],
+		[365, 'Toddler (1-2 years)'],
+		[1094, 'Toddler (1-2 years)'],
+		[1095, 'Preschool (3-5 years)'],
+		[2189, 'Preschool (3-5 years)'],
+		[2190, 'School age (6-11 years)'],
+		[4379, 'School age (6-11 years)'],
+		[4380, 'Adolescent (12 years and over)'],
+	])('day %p -> %s', (ageDays, label) => {
+		expect(vitalSignBand(ageDays).label).toBe(label)
+	})
+})
+
+describe('flagVitalSigns', () => {
+	test.each([
+		{ ageDays: 27, expected: [], heartRate: 180 },
+		{ ageDays: 27, expected: ['HEART_RATE_HIGH'], heartRate: 181 },
+		// The same rate is high for an infant
+		{ ageDays: 28, expected: ['HEART_RATE_HIGH'], heartRate: 170 },
+		{ ageDays: 28, expected: [], heartRate: 100 },
+		{ ageDays: 28, expected: ['HEART_RATE_LOW'], heartRate: 99 },
+		{ ageDays: 4380, expected: [], heartRate: 60 },
+		{ ageDays: 4379, expected: ['HEART_RATE_LOW'], heartRate: 60 },
+	])('heart rate $heartRate at day $ageDays', ({
+		ageDays,
+		expected,
+		heartRate,
+	}) => {
+		expect(flagVitalSigns({ heartRate }, ageDays)).toEqual([...expected])
+	})
+
+	test.each([
+		{ expected: [], vitals: { bodyTemperature: 36 } },
+		{ expected: ['TEMPERATURE_LOW'], vitals: { bodyTemperature: 35.9 } },
+		{ expected: [], vitals: { bodyTemperature: 37.9 } },
+		{ expected: ['TEMPERATURE_HIGH'], vitals: { bodyTemperature: 38 } },
+		{ expected: [], vitals: { oxygenSaturation: 94 } },
+		{ expected: ['SPO2_LOW'], vitals: { oxygenSaturation: 93 } },
+		{ expected: ['SYSTOLIC_LOW'], vitals: { systolic: 59 } },
+		{ expected: ['RESPIRATORY_RATE_HIGH'], vitals: { respiratoryRate: 61 } },
+	])('$vitals -> $expected', ({ expected, vitals }) => {
+		expect(flagVitalSigns(vitals, neonate)).toEqual([...expected])
+	})
+
+	test('values not recorded are not flagged', () => {
+		expect(
+			flagVitalSigns({ bodyTemperature: null, heartRate: undefined }, neonate)
+		).toEqual([])
+	})
+})
+
+describe('calculatePews', () => {
+	test('null when nothing scorable was observed', () => {
+		expect(calculatePews({}, neonate)).toBeNull()
+		expect(
+			calculatePews({ bodyTemperature: 39, systolic: 50 }, neonate)
+		).toBeNull()
+	})
+
+	test('normal observations score 0', () => {
+		expect(
+			calculatePews(
+				{
+					behavior: 'PLAYING',
+					capillaryRefillSeconds: 2,
+					heartRate: 140,
+					respiratoryEffort: 'NORMAL',
+					respiratoryRate: 40,
+					skinColor: 'PINK',
+				},
+				neonate
+			)
+		).toEqual({
+			behavior: 0,
+			cardiovascular: 0,
+			respiratory: 0,
+			total: 0,
+			urgent: false,
+		})
+	})
+
+	test.each([
+		{ observations: { behavior: 'LETHARGIC' } },
+		{ observations: { skinColor: 'MOTTLED' } },
+		{ observations: { capillaryRefillSeconds: 5 } },
+		{ observations: { respiratoryEffort: 'GRUNTING' } },
+		{ observations: { oxygenFlowLpm: 8 } },
+	] as const)('a single component scoring 3 is urgent: $observations', ({
+		observations,
+	}) => {
+		const pews = calculatePews(observations, neonate)
+
+		expect(pews?.total).toBe(3)
+		expect(pews?.urgent).toBe(true)
+	})
+
+	test('a total of 4 without a 3 is not urgent, 5 is', () => {
+		const four = calculatePews(
+			{ behavior: 'IRRITABLE', skinColor: 'GREY' },
+			neonate
+		)
+		const five = calculatePews(
+			{
+				behavior: 'IRRITABLE',
+				respiratoryEffort: 'ACCESSORY_MUSCLES',
+				skinColor: 'GREY',
+			},
+			neonate
+		)
+
+		expect(four).toMatchObject({ total: 4, urgent: false })
+		expect(five).toMatchObject({ total: 5, urgent: true })
+	})
+
+	test('each component scores the worst of its observations', () => {
+		expect(
+			calculatePews(
+				{
+					capillaryRefillSeconds: 4,
+					oxygenFlowLpm: 3,
+					respiratoryEffort: 'RETRACTIONS',
+					skinColor: 'PALE',
+				},
+				neonate
+			)
+		).toMatchObject({ cardiovascular: 2, respiratory: 2, total: 4 })
+	})
+
+	// Neonate: heart rate 100-180, respiratory rate 30-60
+	test.each([
+		{ expected: 0, heartRate: 199 },
+		{ expected: 2, heartRate: 200 },
+		{ expected: 3, heartRate: 210 },
+		{ expected: 0, heartRate: 91 },
+		{ expected: 3, heartRate: 90 },
+	])('heart rate $heartRate scores $expected', ({ expected, heartRate }) => {
+		expect(calculatePews({ heartRate }, neonate)?.cardiovascular).toBe(expected)
+	})
+
+	test.each([
+		{ expected: 0, respiratoryRate: 69 },
+		{ expected: 1, respiratoryRate: 70 },
+		{ expected: 2, respiratoryRate: 80 },
+		{ expected: 0, respiratoryRate: 26 },
+		{ expected: 3, respiratoryRate: 25 },
+	])('respiratory rate $respiratoryRate scores $expected', ({
+		expected,
+		respiratoryRate,
+	}) => {
+		expect(calculatePews({ respiratoryRate }, neonate)?.respiratory).toBe(
+			expected
+		)
+	})
+
+	test.each([
+		{ expected: 0, seconds: 2 },
+		{ expected: 1, seconds: 3 },
+		{ expected: 2, seconds: 4 },
+		{ expected: 3, seconds: 5 },
+	])('capillary refill $seconds s scores $expected', ({
+		expected,
+		seconds,
+	}) => {
+		expect(
+			calculatePews({ capillaryRefillSeconds: seconds }, neonate)
+				?.cardiovascular
+		).toBe(expected)
+	})
+
+	test.each([
+		{ expected: 0, flow: 2.9 },
+		{ expected: 1, flow: 3 },
+		{ expected: 2, flow: 6 },
+		{ expected: 3, flow: 8 },
+	])('oxygen $flow L/min scores $expected', ({ expected, flow }) => {
+		expect(calculatePews({ oxygenFlowLpm: flow }, neonate)?.respiratory).toBe(
+			expected
+		)
+	})
+
+	test.each([
+		{ ageDays: 27, cardiovascular: 2, urgent: false },
+		{ ageDays: 28, cardiovascular: 3, urgent: true },
+	])('heart rate 200 at day $ageDays is scored against its band', ({
+		ageDays,
+		cardiovascular,
+		urgent,
+	}) => {
+		expect(calculatePews({ heartRate: 200 }, ageDays)).toMatchObject({
+			cardiovascular,
+			urgent,
+		})
+	})
+})
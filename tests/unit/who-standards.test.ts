@@ -0,0 +1,265 @@
+import { describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+import {
+	CORRECTED_AGE_UNTIL_DAYS,
+	calculateWHOZScore,
+	getGrowthAge,
+	interpolateLMSAt,
+	isRestrictedChart,
+	monthsToDays,
+	parseWHOTableRow,
+	valueAtZ,
+	WHO_TABLES,
+	type WHOStandardRow,
+	type WHOTableRow,
+} from '@/utils/who-standards'
+
+type Sex = 'boys' | 'girls'
+
+// Published WHO tables, as seeded
+function publishedRows(key: string, sex: Sex): WHOStandardRow[] {
+	const file = path.resolve(
+		import.meta.dir,
+		`../../prisma/data/zscore-${key}.json`
+	)
+	const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as Record<
+		string,
+		Record<Sex, WHOTableRow[]>
+	>
+	const table = WHO_TABLES.find(t => t.key === key)
+	if (!table) throw new Error(`No table ${key}`)
+
+	return data[key][sex].map(row =>
+		parseWHOTableRow(row, table, sex === 'boys' ? 'MALE' : 'FEMALE')
+	)
+}
+
+const SD_COLUMNS = [
+	['sd3neg', -3],
+	['sd2neg', -2],
+	['sd1neg', -1],
+	['sd0', 0],
+	['sd1pos', 1],
+	['sd2pos', 2],
+	['sd3pos', 3],
+] as const
+
+describe('calculateWHOZScore - WHO weight-for-age', () => {
+	test.each([
+		{ day: 0, sex: 'boys' },
+		{ day: 0, sex: 'girls' },
+		{ day: 365, sex: 'boys' },
+		{ day: 730, sex: 'girls' },
+		{ day: 1856, sex: 'boys' },
+		{ day: 1856, sex: 'girls' },
+	] as const)('$sex day $day: each published SD line scores its z', ({
+		day,
+		sex,
+	}) => {
+		const row = publishedRows('wfa', sex).find(r => r.ageDays === day)
+		if (!row) throw new Error(`No row for day ${day}`)
+
+		for (const [column, z] of SD_COLUMNS) {
+			expect(calculateWHOZScore(row[column], row, true)).toBeCloseTo(z, 2)
+		}
+	})
+
+	test('boys at birth: 3.3464 kg is the median, 2.459 kg is -2 SD', () => {
+		const lms = { lValue: 0.3487, mValue: 3.3464, sValue: 0.14602 }
+
+		expect(calculateWHOZScore(3.3464, lms, true)).toBe(0)
+		expect(calculateWHOZScore(2.459, lms, true)).toBeCloseTo(-2, 2)
+	})
+})
+
+describe('calculateWHOZScore - WHO 2007 5-19 years', () => {
+	test.each([
+		{ key: 'hfa2007', month: 61, restricted: false },
+		{ key: 'hfa2007', month: 228, restricted: false },
+		{ key: 'wfa2007', month: 120, restricted: true },
+		{ key: 'bfa2007', month: 61, restricted: true },
+		{ key: 'bfa2007', month: 228, restricted: true },
+	] as const)('$key month $month', ({ key, month, restricted }) => {
+		for (const sex of ['boys', 'girls'] as const) {
+			const row = publishedRows(key, sex).find(r => r.ageInMonths === month)
+			if (!row) throw new Error(`No row for month ${month}`)
+
+			expect(row.ageDays).toBe(monthsToDays(month))
+			for (const [column, z] of SD_COLUMNS) {
+				expect(calculateWHOZScore(row[column], row, restricted)).toBeCloseTo(
+					z,
+					2
+				)
+			}
+		}
+	})
+})
+
+describe('calculateWHOZScore - restricted adjustment beyond +/-3 SD', () => {
+	// WHO publishes SD4 as SD3 plus the SD2-SD3 distance
+	test.each([
+		'boys',
+		'girls',
+	] as const)('%s at birth: the published +/-4 SD lines score +/-4', sex => {
+		const [row] = publishedRows('wfa', sex)
+		if (row.sd4pos === null || row.sd4neg === null) {
+			throw new Error('No SD4 columns')
+		}
+
+		expect(calculateWHOZScore(row.sd4pos, row, true)).toBeCloseTo(4, 2)
+		expect(calculateWHOZScore(row.sd4neg, row, true)).toBeCloseTo(-4, 2)
+	})
+
+	test('the plain LMS z-score differs beyond 3 SD', () => {
+		const [row] = publishedRows('wfa', 'boys')
+		const restricted = calculateWHOZScore(6, row, true)
+		const plain = calculateWHOZScore(6, row, false)
+
+		expect(restricted).toBeCloseTo(
+			3 + (6 - valueAtZ(row, 3)) / (valueAtZ(row, 3) - valueAtZ(row, 2)),
+			9
+		)
+		expect(plain).not.toBeCloseTo(restricted, 2)
+	})
+
+	test('within 3 SD both formulas agree', () => {
+		const [row] = publishedRows('wfa', 'girls')
+
+		expect(calculateWHOZScore(4, row, true)).toBe(
+			calculateWHOZScore(4, row, false)
+		)
+	})
+
+	test('L of zero uses the log form', () => {
+		const lms = { lValue: 0, mValue: 10, sValue: 0.1 }
+
+		expect(calculateWHOZScore(10 * Math.exp(0.15), lms, false)).toBeCloseTo(
+			1.5,
+			9
+		)
+		expect(valueAtZ(lms, -1)).toBeCloseTo(10 * Math.exp(-0.1), 9)
+	})
+
+	test.each([
+		['WFA', 'WHO_2006', true],
+		['WFL', 'WHO_2006', true],
+		['BFA', 'WHO_2007', true],
+		['HFA', 'WHO_2006', false],
+		['HcFA', 'WHO_2006', false],
+		['WFA', 'CDC_2000', false],
+		['WFA', 'FENTON_2013', false],
+	] as const)('%s %s restricted: %p', (chartType, reference, expected) => {
+		expect(isRestrictedChart(chartType, reference)).toBe(expected)
+	})
+})
+
+describe('valueAtZ - WHO weight-for-length/height', () => {
+	// Published SD lines are rounded to 0.1 kg
+	test.each([
+		{ at: 45, key: 'wfl', sex: 'boys' },
+		{ at: 80, key: 'wfl', sex: 'girls' },
+		{ at: 110, key: 'wfl', sex: 'boys' },
+		{ at: 65, key: 'wfh', sex: 'girls' },
+		{ at: 120, key: 'wfh', sex: 'boys' },
+	] as const)('$key $sex $at cm', ({ at, key, sex }) => {
+		const row = publishedRows(key, sex).find(r => r.lengthCm === at)
+		if (!row) throw new Error(`No row for ${at} cm`)
+
+		for (const [column, z] of SD_COLUMNS) {
+			expect(Math.round(valueAtZ(row, z) * 10) / 10).toBeCloseTo(row[column], 5)
+		}
+	})
+})
+
+describe('valueAtZ - WHO length/height- and BMI-for-age', () => {
+	// Monthly tables by day; published SD lines are rounded to 0.1
+	test.each([
+		{ day: 0, key: 'lhfa', sex: 'boys' },
+		{ day: 365, key: 'lhfa', sex: 'girls' },
+		{ day: 1826, key: 'lhfa', sex: 'boys' },
+		{ day: 0, key: 'bfa', sex: 'girls' },
+		{ day: 1096, key: 'bfa', sex: 'boys' },
+	] as const)('$key $sex day $day', ({ day, key, sex }) => {
+		const row = publishedRows(key, sex).find(r => r.ageDays === day)
+		if (!row) throw new Error(`No row for day ${day}`)
+
+		for (const [column, z] of SD_COLUMNS) {
+			expect(Math.round(valueAtZ(row, z) * 10) / 10).toBeCloseTo(row[column], 5)
+		}
+	})
+
+	test.each([
+		'boys',
+		'girls',
+	] as const)('%s at 2 years: length on day 730, height from day 731', sex => {
+		const rows = publishedRows('lhfa', sex)
+		const length = rows.find(r => r.ageDays === 730)
+		const height = rows.find(r => r.ageDays === monthsToDays(24))
+		if (!length || !height) throw new Error('No 24 month rows')
+
+		// Standing height reads 0.7 cm below lying length
+		expect(length.mValue - height.mValue).toBeCloseTo(0.7, 4)
+		expect(rows.map(r => r.ageDays)).toEqual(
+			rows.map(r => r.ageDays).sort((a, b) => a - b)
+		)
+	})
+})
+
+describe('interpolateLMSAt', () => {
+	test('halfway between two rows', () => {
+		const lms = interpolateLMSAt(
+			{ at: 0, lValue: 0.2, mValue: 3, sValue: 0.1 },
+			{ at: 10, lValue: 0.4, mValue: 4, sValue: 0.2 },
+			5
+		)
+
+		expect(lms.lValue).toBeCloseTo(0.3, 9)
+		expect(lms.mValue).toBeCloseTo(3.5, 9)
+		expect(lms.sValue).toBeCloseTo(0.15, 9)
+	})
+
+	test('the same row twice is returned as is', () => {
+		const row = { at: 7, lValue: 1, mValue: 50, sValue: 0.04 }
+
+		expect(interpolateLMSAt(row, row, 7)).toBe(row)
+	})
+})
+
+describe('getGrowthAge - corrected age', () => {
+	test('term babies use chronological age', () => {
+		expect(getGrowthAge(100, 39)).toEqual({
+			ageDays: 100,
+			chronologicalAgeDays: 100,
+			correctedAgeDays: null,
+			postmenstrualAgeDays: null,
+		})
+		expect(getGrowthAge(100, null).correctedAgeDays).toBeNull()
+	})
+
+	test('37 weeks is term, 36 weeks is corrected', () => {
+		expect(getGrowthAge(10, 37).correctedAgeDays).toBeNull()
+		expect(getGrowthAge(10, 36).correctedAgeDays).toBe(-18)
+	})
+
+	test('30 weeks: 70 days subtracted and postmenstrual age kept', () => {
+		expect(getGrowthAge(100, 30)).toEqual({
+			ageDays: 30,
+			chronologicalAgeDays: 100,
+			correctedAgeDays: 30,
+			postmenstrualAgeDays: 310,
+		})
+	})
+
+	test.each([
+		{ age: CORRECTED_AGE_UNTIL_DAYS, corrected: true },
+		{ age: CORRECTED_AGE_UNTIL_DAYS + 1, corrected: false },
+	])('day $age: corrected $corrected', ({ age, corrected }) => {
+		const growthAge = getGrowthAge(age, 28)
+
+		expect(growthAge.ageDays).toBe(corrected ? age - 84 : age)
+		expect(growthAge.correctedAgeDays).toBe(corrected ? age - 84 : null)
+		expect(growthAge.postmenstrualAgeDays).toBe(196 + age)
+	})
+})